@@ -0,0 +1,339 @@
+/**
+ * Audit Log - Append-only, hash-chained record of mutating API calls
+ * Per spec/42_AUDIT_LOG.md
+ *
+ * Storage layout:
+ *   {stateDir}/audit/audit-log.jsonl  - one entry per line, oldest first
+ *
+ * Every entry carries the hash of the previous entry (prev_hash) and its own
+ * hash over all other fields, so editing, deleting or reordering a line
+ * breaks the chain and is reported by verify().
+ *
+ * The file is only ever appended to. The tail is re-read when the file size
+ * differs from the last append, so a second writer does not fork the chain.
+ * When the last line cannot be read as an entry, appending continues with a
+ * new chain and the entry records the break (chain_break).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * prev_hash of the first entry
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Bytes first read from the end of the file to find the last entry (doubled until the line start is found)
+ */
+const TAIL_READ_BYTES = 64 * 1024;
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+export const AUDIT_OUTCOMES: readonly AuditOutcome[] = ['success', 'failure', 'denied'];
+
+/**
+ * Who made the request (from the auth middleware)
+ */
+export interface AuditActor {
+  /** 'local' in local dev mode, 'anonymous' when unauthenticated */
+  user_id: string;
+  device_name?: string;
+  role?: string;
+  /** apiKeyFingerprint() of the API key (never the key itself) */
+  api_key_fingerprint?: string;
+}
+
+/**
+ * Scalar summary of a request body or a state (long strings truncated, secrets redacted)
+ */
+export type AuditSummary = Record<string, string | number | boolean | null>;
+
+/**
+ * Fields supplied by the caller of append()
+ */
+export interface AuditEntryInput {
+  actor: AuditActor;
+  method: string;
+  /** Route pattern (e.g. /api/tasks/:task_id/status) */
+  route: string;
+  /** Request path */
+  path: string;
+  /** Route params and *_id fields of the body */
+  target_ids: Record<string, string>;
+  request?: AuditSummary;
+  before?: AuditSummary;
+  after?: AuditSummary;
+  result: {
+    status_code: number;
+    outcome: AuditOutcome;
+    error?: string;
+  };
+  duration_ms?: number;
+}
+
+/**
+ * Persisted entry
+ */
+export interface AuditEntry extends AuditEntryInput {
+  /** 1-based position in the chain */
+  seq: number;
+  audit_id: string;
+  timestamp: string;
+  prev_hash: string;
+  /** Set when the previous line could not be read: this entry starts a new chain from AUDIT_GENESIS_HASH */
+  chain_break?: string;
+  /** SHA-256 of every other field (canonical JSON) */
+  hash: string;
+}
+
+export interface AuditQuery {
+  user_id?: string;
+  device_name?: string;
+  method?: string;
+  /** Matches the route pattern or the path prefix */
+  route?: string;
+  /** Matches any target ID value */
+  target_id?: string;
+  outcome?: AuditOutcome;
+  /** ISO timestamps (inclusive) */
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditVerifyResult {
+  valid: boolean;
+  /** Entries checked */
+  checked: number;
+  /** Line number (1-based) of the first broken entry */
+  broken_at_line?: number;
+  error?: string;
+}
+
+export interface AuditLogConfig {
+  stateDir: string;
+}
+
+/**
+ * JSON with object keys sorted, so hashes do not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Identifies an API key in audit entries without revealing any part of it
+ */
+export function apiKeyFingerprint(apiKey: string): string {
+  return 'sha256:' + crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Hash of an entry (every field except `hash`)
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'> | AuditEntry): string {
+  const { hash: _hash, ...rest } = entry as AuditEntry;
+  return crypto.createHash('sha256').update(canonicalJson(rest)).digest('hex');
+}
+
+/**
+ * Whether an entry matches the query filters
+ */
+export function auditEntryMatches(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.user_id && entry.actor.user_id !== query.user_id) return false;
+  if (query.device_name && entry.actor.device_name !== query.device_name) return false;
+  if (query.method && entry.method !== query.method.toUpperCase()) return false;
+  if (query.route && entry.route !== query.route && !entry.path.startsWith(query.route)) return false;
+  if (query.target_id && !Object.values(entry.target_ids).includes(query.target_id)) return false;
+  if (query.outcome && entry.result.outcome !== query.outcome) return false;
+  if (query.since && entry.timestamp < query.since) return false;
+  if (query.until && entry.timestamp > query.until) return false;
+  return true;
+}
+
+/**
+ * File-backed audit log
+ */
+export class AuditLog {
+  private readonly dir: string;
+  private readonly file: string;
+  /** Chain head after our last append (null = re-read the tail) */
+  private head: { seq: number; hash: string; size: number } | null = null;
+
+  constructor(config: AuditLogConfig) {
+    this.dir = path.join(config.stateDir, 'audit');
+    this.file = path.join(this.dir, 'audit-log.jsonl');
+  }
+
+  /**
+   * Append an entry to the chain
+   */
+  async append(input: AuditEntryInput, now: Date = new Date()): Promise<AuditEntry> {
+    const head = this.readHead();
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      seq: head.seq + 1,
+      audit_id: uuidv4(),
+      timestamp: now.toISOString(),
+      ...input,
+      method: input.method.toUpperCase(),
+      prev_hash: head.hash,
+      ...(head.chainBreak ? { chain_break: head.chainBreak } : {}),
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashAuditEntry(unhashed) };
+
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+    fs.appendFileSync(this.file, JSON.stringify(entry) + '\n', 'utf-8');
+    this.head = { seq: entry.seq, hash: entry.hash, size: fs.statSync(this.file).size };
+    return entry;
+  }
+
+  /**
+   * Query entries (newest first)
+   */
+  async query(query: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    const matching = this.loadEntries().filter(e => auditEntryMatches(e, query)).reverse();
+    const offset = query.offset ?? 0;
+    const entries = query.limit !== undefined
+      ? matching.slice(offset, offset + query.limit)
+      : matching.slice(offset);
+    return { entries, total: matching.length };
+  }
+
+  /**
+   * Matching entries as JSONL (oldest first). Lines are written exactly as
+   * stored so an export of the full log can be verified on its own.
+   */
+  async exportJsonl(query: AuditQuery = {}): Promise<string> {
+    const lines = this.readLines().filter(line => {
+      try {
+        return auditEntryMatches(JSON.parse(line) as AuditEntry, query);
+      } catch {
+        return false;
+      }
+    });
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+  }
+
+  /**
+   * Recompute the hash chain
+   */
+  async verify(): Promise<AuditVerifyResult> {
+    return verifyAuditLines(this.readLines());
+  }
+
+  getFilePath(): string {
+    return this.file;
+  }
+
+  private readLines(): string[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+    return fs.readFileSync(this.file, 'utf-8').split('\n').filter(line => line.trim().length > 0);
+  }
+
+  private loadEntries(): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    for (const line of this.readLines()) {
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Corrupt lines are reported by verify()
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * seq / hash of the last entry. An unreadable last line restarts the chain (chainBreak).
+   */
+  private readHead(): { seq: number; hash: string; chainBreak?: string } {
+    if (!fs.existsSync(this.file)) {
+      return { seq: 0, hash: AUDIT_GENESIS_HASH };
+    }
+    const size = fs.statSync(this.file).size;
+    if (this.head && this.head.size === size) {
+      return this.head;
+    }
+
+    const last = this.readLastLine(size);
+    if (!last) {
+      return { seq: 0, hash: AUDIT_GENESIS_HASH };
+    }
+    try {
+      const entry = JSON.parse(last) as AuditEntry;
+      if (typeof entry.seq === 'number' && typeof entry.hash === 'string') {
+        return { seq: entry.seq, hash: entry.hash };
+      }
+    } catch {
+      // Reported by verify(); recorded as a chain break below
+    }
+    return { seq: 0, hash: AUDIT_GENESIS_HASH, chainBreak: 'Previous line is not a valid entry' };
+  }
+
+  /**
+   * Last non-empty line, read backwards from the end until its start is found
+   */
+  private readLastLine(size: number): string {
+    const fd = fs.openSync(this.file, 'r');
+    try {
+      let length = Math.min(size, TAIL_READ_BYTES);
+      for (;;) {
+        const buffer = Buffer.alloc(length);
+        fs.readSync(fd, buffer, 0, length, size - length);
+        const text = buffer.toString('utf-8').trimEnd();
+        const start = text.lastIndexOf('\n');
+        if (start >= 0 || length === size) {
+          return text.slice(start + 1);
+        }
+        length = Math.min(size, length * 2);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Verify JSONL lines of an audit log (oldest first)
+ */
+export function verifyAuditLines(lines: string[]): AuditVerifyResult {
+  let prevHash = AUDIT_GENESIS_HASH;
+  let prevSeq = 0;
+  for (let i = 0; i < lines.length; i++) {
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(lines[i]) as AuditEntry;
+    } catch {
+      return { valid: false, checked: i, broken_at_line: i + 1, error: 'Line is not valid JSON' };
+    }
+    if (entry.prev_hash !== prevHash) {
+      return { valid: false, checked: i, broken_at_line: i + 1, error: 'prev_hash does not match the previous entry' };
+    }
+    if (entry.seq !== prevSeq + 1) {
+      return { valid: false, checked: i, broken_at_line: i + 1, error: `Expected seq ${prevSeq + 1}, got ${entry.seq}` };
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      return { valid: false, checked: i, broken_at_line: i + 1, error: 'hash does not match the entry contents' };
+    }
+    prevHash = entry.hash;
+    prevSeq = entry.seq;
+  }
+  return { valid: true, checked: lines.length };
+}
@@ -0,0 +1,23 @@
+/**
+ * Audit Module Exports
+ *
+ * Per spec 42_AUDIT_LOG.md
+ */
+
+export {
+  type AuditOutcome,
+  type AuditActor,
+  type AuditSummary,
+  type AuditEntryInput,
+  type AuditEntry,
+  type AuditQuery,
+  type AuditVerifyResult,
+  type AuditLogConfig,
+  AUDIT_GENESIS_HASH,
+  AUDIT_OUTCOMES,
+  apiKeyFingerprint,
+  hashAuditEntry,
+  auditEntryMatches,
+  verifyAuditLines,
+  AuditLog,
+} from './audit-log';
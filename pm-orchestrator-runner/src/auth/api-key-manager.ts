@@ -22,6 +22,7 @@ import {
   ScanCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { getAwsCredentials, getAwsRegion } from '../config/aws-config';
+import type { UserRole } from '../web/middleware/auth';
 
 const API_KEYS_TABLE_NAME = 'pm-runner-api-keys';
 const API_KEY_PREFIX = 'pmr_';
@@ -39,6 +40,17 @@ export interface ApiKey {
   lastUsedAt: string;
   /** Whether key is active */
   isActive: boolean;
+  /** Role for route authorization (absent on older keys = admin) */
+  role?: UserRole;
+  /** Absolute project paths the key is limited to (absent = all projects) */
+  projectPaths?: string[];
+}
+
+export interface GenerateApiKeyOptions {
+  /** Role for route authorization (default: admin) */
+  role?: UserRole;
+  /** Limit the key to these project paths */
+  projectPaths?: string[];
 }
 
 export interface ApiKeyManagerConfig {
@@ -143,7 +155,7 @@ export class ApiKeyManager {
   /**
    * Generate a new API key
    */
-  async generateApiKey(userId: string, deviceName: string): Promise<ApiKey> {
+  async generateApiKey(userId: string, deviceName: string, options: GenerateApiKeyOptions = {}): Promise<ApiKey> {
     const key = API_KEY_PREFIX + crypto.randomBytes(16).toString('hex');
     const now = new Date().toISOString();
 
@@ -154,6 +166,8 @@ export class ApiKeyManager {
       createdAt: now,
       lastUsedAt: now,
       isActive: true,
+      role: options.role ?? 'admin',
+      ...(options.projectPaths && options.projectPaths.length > 0 ? { projectPaths: options.projectPaths } : {}),
     };
 
     await this.docClient.send(
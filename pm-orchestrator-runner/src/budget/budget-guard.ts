@@ -0,0 +1,267 @@
+/**
+ * Budget Guard - Enforces budget caps before executor runs and LLM calls
+ * Per spec/40_BUDGETS.md
+ *
+ * - Spend for a budget is the sum of spend records in its scope within the
+ *   current period (daily / monthly anchored via src/lib/billingCycle.ts / total)
+ * - A budget is exceeded once spend >= limit_usd
+ * - Before a task runs, exceeded budgets pause it: the executor returns an
+ *   AWAITING_CLARIFICATION with a [BUDGET] question
+ * - The user's reply decides: an approval records BudgetApproval entries so the
+ *   task runs over budget for the rest of the period; anything else stops it
+ * - LLM calls made while the task runs are refused once a budget is exceeded
+ *   and not approved for that task
+ */
+
+import { currentBillingPeriod, nextBillingDate } from '../lib/billingCycle';
+import type { QueueItem } from '../queue/queue-store';
+import type { BudgetApproval, BudgetPolicy, BudgetSpendSource, BudgetStore, SpendRecord } from './budget-store';
+
+/**
+ * Prefix of clarification questions asked by the budget guard
+ */
+export const BUDGET_CLARIFICATION_PREFIX = '[BUDGET]';
+
+/**
+ * Replies accepted as "approve to continue" (case-insensitive, trailing punctuation ignored)
+ */
+const APPROVAL_REPLIES = ['approve', 'approved', 'yes', 'y', 'ok', 'okay', 'continue', '承認', '承認します', '続行', 'はい'];
+
+/**
+ * Current window of a budget (null bounds = unbounded)
+ */
+export interface BudgetWindow {
+  start: Date | null;
+  end: Date | null;
+}
+
+/**
+ * Spend vs limit for one budget in its current period
+ */
+export interface BudgetStatus {
+  budget: BudgetPolicy;
+  /** ISO 8601; absent for total budgets */
+  period_start?: string;
+  period_end?: string;
+  spent_usd: number;
+  remaining_usd: number;
+  exceeded: boolean;
+}
+
+/**
+ * What the executor should do with a task
+ */
+export type BudgetGateDecision =
+  | { action: 'proceed' }
+  | { action: 'pause'; question: string; exceeded: BudgetStatus[] }
+  | { action: 'decline'; reason: string };
+
+export interface BudgetGuardConfig {
+  store: BudgetStore;
+}
+
+/**
+ * Compute the window of a budget that contains `now`
+ */
+export function getBudgetWindow(budget: BudgetPolicy, now: Date = new Date()): BudgetWindow {
+  if (budget.period === 'daily') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+  }
+  if (budget.period === 'monthly') {
+    const created = new Date(budget.created_at);
+    const anchor = budget.anchor
+      ? new Date(budget.anchor)
+      : new Date(created.getFullYear(), created.getMonth(), 1);
+    if (now < anchor) {
+      // Not started yet: nothing recorded so far falls inside the first period
+      return { start: anchor, end: nextBillingDate(anchor, 'monthly') };
+    }
+    const { start, end } = currentBillingPeriod(anchor, now, 'monthly');
+    return { start, end };
+  }
+  return { start: null, end: null };
+}
+
+/**
+ * Check whether a budget applies to a task
+ */
+export function budgetAppliesTo(budget: BudgetPolicy, taskGroupId: string, projectPath?: string): boolean {
+  if (!budget.enabled) {
+    return false;
+  }
+  return budget.scope === 'task_group'
+    ? budget.scope_id === taskGroupId
+    : !!projectPath && budget.scope_id === projectPath;
+}
+
+function spendInScope(budget: BudgetPolicy, record: SpendRecord): boolean {
+  return budget.scope === 'task_group'
+    ? record.task_group_id === budget.scope_id
+    : record.project_path === budget.scope_id;
+}
+
+/**
+ * Check whether a reply approves continuing over budget
+ */
+export function isBudgetApproval(reply: string): boolean {
+  const normalized = reply.trim().toLowerCase().replace(/[\s.!。！]+$/u, '');
+  return APPROVAL_REPLIES.includes(normalized);
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Build the clarification question for exceeded budgets
+ */
+export function formatBudgetQuestion(exceeded: BudgetStatus[]): string {
+  const lines = exceeded.map(s => {
+    const since = s.period_start ? ` since ${s.period_start.substring(0, 10)}` : '';
+    return `- "${s.budget.name}" (${s.budget.scope} ${s.budget.scope_id}, ${s.budget.period}): ` +
+      `${formatUsd(s.spent_usd)} of ${formatUsd(s.budget.limit_usd)} spent${since}`;
+  });
+  return [
+    `${BUDGET_CLARIFICATION_PREFIX} Budget exceeded — approve to continue.`,
+    ...lines,
+    'Reply "approve" to run this task over budget for the rest of the period; any other reply stops it.',
+  ].join('\n');
+}
+
+function approvalKey(status: BudgetStatus): string {
+  return status.period_start ?? 'total';
+}
+
+/**
+ * Reply to a pending [BUDGET] question, if the task is resuming from one
+ */
+function budgetReply(item: QueueItem): string | undefined {
+  if (!item.clarification?.question?.startsWith(BUDGET_CLARIFICATION_PREFIX)) {
+    return undefined;
+  }
+  const last = item.conversation_history?.[item.conversation_history.length - 1];
+  return last?.role === 'user' ? last.content : undefined;
+}
+
+/**
+ * Evaluates budgets against recorded spend
+ */
+export class BudgetGuard {
+  private readonly store: BudgetStore;
+
+  constructor(config: BudgetGuardConfig) {
+    this.store = config.store;
+  }
+
+  getStore(): BudgetStore {
+    return this.store;
+  }
+
+  /**
+   * Spend vs limit for every budget (disabled budgets included)
+   */
+  async getStatuses(now: Date = new Date()): Promise<BudgetStatus[]> {
+    return this.evaluate(await this.store.list(), 0, now);
+  }
+
+  /**
+   * Decide whether a task may run. Called before each executor run.
+   * @param projectPath - runner project, used when the task has no project_path
+   */
+  async checkTask(item: QueueItem, projectPath?: string, now: Date = new Date()): Promise<BudgetGateDecision> {
+    const exceeded = await this.getUnapprovedExceeded(item, projectPath, 0, now);
+    if (exceeded.length === 0) {
+      return { action: 'proceed' };
+    }
+
+    const reply = budgetReply(item);
+    if (reply !== undefined) {
+      if (!isBudgetApproval(reply)) {
+        return { action: 'decline', reason: 'Budget exceeded: continuation not approved' };
+      }
+      const approvedAt = now.toISOString();
+      await this.store.addApprovals(exceeded.map((s): BudgetApproval => ({
+        budget_id: s.budget.budget_id,
+        task_id: item.task_id,
+        period_start: approvalKey(s),
+        approved_at: approvedAt,
+      })));
+      return { action: 'proceed' };
+    }
+
+    return { action: 'pause', question: formatBudgetQuestion(exceeded), exceeded };
+  }
+
+  /**
+   * Decide whether an LLM call may be made for a running task
+   * @param pendingUsd - cost of calls made by the task that is not recorded yet
+   */
+  async allowLlmCall(item: QueueItem, projectPath?: string, pendingUsd = 0, now: Date = new Date()): Promise<boolean> {
+    return (await this.getUnapprovedExceeded(item, projectPath, pendingUsd, now)).length === 0;
+  }
+
+  /**
+   * Record spend for a task (zero / negative costs are ignored)
+   */
+  async recordSpend(
+    item: Pick<QueueItem, 'task_id' | 'task_group_id' | 'project_path'>,
+    costUsd: number,
+    source: BudgetSpendSource,
+    projectPath?: string,
+    now: Date = new Date()
+  ): Promise<SpendRecord | null> {
+    if (!(costUsd > 0)) {
+      return null;
+    }
+    const project = item.project_path || projectPath;
+    return this.store.recordSpend({
+      task_id: item.task_id,
+      task_group_id: item.task_group_id,
+      ...(project ? { project_path: project } : {}),
+      cost_usd: costUsd,
+      source,
+    }, now);
+  }
+
+  private async getUnapprovedExceeded(
+    item: QueueItem,
+    projectPath: string | undefined,
+    pendingUsd: number,
+    now: Date
+  ): Promise<BudgetStatus[]> {
+    const project = item.project_path || projectPath;
+    const budgets = (await this.store.list()).filter(b => budgetAppliesTo(b, item.task_group_id, project));
+    if (budgets.length === 0) {
+      return [];
+    }
+    const approvals = await this.store.listApprovals(item.task_id);
+    return (await this.evaluate(budgets, pendingUsd, now)).filter(s =>
+      s.exceeded &&
+      !approvals.some(a => a.budget_id === s.budget.budget_id && a.period_start === approvalKey(s))
+    );
+  }
+
+  private async evaluate(budgets: BudgetPolicy[], pendingUsd: number, now: Date): Promise<BudgetStatus[]> {
+    if (budgets.length === 0) {
+      return [];
+    }
+    const spend = await this.store.listSpend();
+    return budgets.map(budget => {
+      const window = getBudgetWindow(budget, now);
+      const startIso = window.start?.toISOString();
+      const spent = spend
+        .filter(s => spendInScope(budget, s) && (!startIso || s.recorded_at >= startIso))
+        .reduce((sum, s) => sum + s.cost_usd, 0);
+      const total = spent + pendingUsd;
+      return {
+        budget,
+        ...(window.start ? { period_start: window.start.toISOString() } : {}),
+        ...(window.end ? { period_end: window.end.toISOString() } : {}),
+        spent_usd: spent,
+        remaining_usd: Math.max(0, budget.limit_usd - total),
+        exceeded: total >= budget.limit_usd,
+      };
+    });
+  }
+}
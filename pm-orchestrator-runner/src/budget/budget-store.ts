@@ -0,0 +1,367 @@
+/**
+ * Budget Store - Persisted budget policies, spend records and approvals
+ * Per spec/40_BUDGETS.md
+ *
+ * Storage layout:
+ *   {stateDir}/budgets/budgets.json  - budget policies + over-budget approvals
+ *   {stateDir}/budgets/spend.json    - spend records (pruned after SPEND_RETENTION_DAYS)
+ *
+ * Files are re-read on every call so that the Web UI and a separately
+ * running runner process always see the same budgets and spend.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * What a budget limits
+ * - project:    all tasks whose project_path equals scope_id
+ * - task_group: all tasks whose task_group_id equals scope_id
+ */
+export type BudgetScope = 'project' | 'task_group';
+
+/**
+ * Budget window
+ * - daily:   local calendar day
+ * - monthly: billing month starting at the anchor date (see src/lib/billingCycle.ts)
+ * - total:   all spend ever recorded for the scope
+ */
+export type BudgetPeriod = 'daily' | 'monthly' | 'total';
+
+export const BUDGET_SCOPES: readonly BudgetScope[] = ['project', 'task_group'];
+export const BUDGET_PERIODS: readonly BudgetPeriod[] = ['daily', 'monthly', 'total'];
+
+/**
+ * Spend records older than this are dropped (covers a yearly look-back)
+ */
+export const SPEND_RETENTION_DAYS = 400;
+
+/**
+ * Persisted budget policy
+ */
+export interface BudgetPolicy {
+  budget_id: string;
+  name: string;
+  scope: BudgetScope;
+  /** project_path or task_group_id, depending on scope */
+  scope_id: string;
+  period: BudgetPeriod;
+  limit_usd: number;
+  /** Start of the first monthly period (ISO 8601). Default: 1st of the creation month */
+  anchor?: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fields accepted on create/update. An empty anchor clears it.
+ */
+export interface BudgetInput {
+  name?: string;
+  scope?: BudgetScope;
+  scope_id?: string;
+  period?: BudgetPeriod;
+  limit_usd?: number;
+  anchor?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Source of recorded spend
+ * - llm:      internal LLM layer calls made while executing a task
+ * - executor: Claude Code runs (total_cost_usd of the stream-json result event)
+ */
+export type BudgetSpendSource = 'llm' | 'executor';
+
+/**
+ * Cost attributed to one task
+ */
+export interface SpendRecord {
+  spend_id: string;
+  task_id: string;
+  task_group_id: string;
+  project_path?: string;
+  cost_usd: number;
+  source: BudgetSpendSource;
+  recorded_at: string;
+}
+
+/**
+ * A user's "approve to continue" for one task over one budget period
+ */
+export interface BudgetApproval {
+  budget_id: string;
+  task_id: string;
+  /** Start of the budget period the approval applies to (ISO 8601) */
+  period_start: string;
+  approved_at: string;
+}
+
+interface PersistedBudgets {
+  version: 1;
+  budgets: BudgetPolicy[];
+  approvals: BudgetApproval[];
+}
+
+interface PersistedSpend {
+  version: 1;
+  spend: SpendRecord[];
+}
+
+/**
+ * Error thrown when budget input fails validation
+ */
+export class BudgetValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'BudgetValidationError';
+  }
+}
+
+/**
+ * Validate budget input. `existing` is the budget being updated (if any).
+ */
+export function validateBudgetInput(input: BudgetInput, existing?: BudgetPolicy): string[] {
+  const errors: string[] = [];
+  const merged = { ...existing, ...input };
+
+  if (!merged.name || typeof merged.name !== 'string' || merged.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+  if (!merged.scope || !BUDGET_SCOPES.includes(merged.scope)) {
+    errors.push(`scope must be one of ${BUDGET_SCOPES.join(', ')}`);
+  }
+  if (!merged.scope_id || typeof merged.scope_id !== 'string' || merged.scope_id.trim().length === 0) {
+    errors.push('scope_id is required');
+  }
+  if (!merged.period || !BUDGET_PERIODS.includes(merged.period)) {
+    errors.push(`period must be one of ${BUDGET_PERIODS.join(', ')}`);
+  }
+  if (typeof merged.limit_usd !== 'number' || !Number.isFinite(merged.limit_usd) || merged.limit_usd < 0) {
+    errors.push('limit_usd must be a non-negative number');
+  }
+  if (input.anchor !== undefined && input.anchor !== '') {
+    if (typeof input.anchor !== 'string' || Number.isNaN(new Date(input.anchor).getTime())) {
+      errors.push('anchor must be an ISO 8601 date');
+    }
+  }
+  if (merged.enabled !== undefined && typeof merged.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  return errors;
+}
+
+export interface BudgetStoreConfig {
+  stateDir: string;
+}
+
+/**
+ * File-backed budget store
+ */
+export class BudgetStore {
+  private readonly dir: string;
+  private readonly budgetsFile: string;
+  private readonly spendFile: string;
+
+  constructor(config: BudgetStoreConfig) {
+    this.dir = path.join(config.stateDir, 'budgets');
+    this.budgetsFile = path.join(this.dir, 'budgets.json');
+    this.spendFile = path.join(this.dir, 'spend.json');
+  }
+
+  /**
+   * List all budgets (oldest first)
+   */
+  async list(): Promise<BudgetPolicy[]> {
+    return this.loadBudgets().budgets;
+  }
+
+  /**
+   * Get a budget by ID
+   */
+  async get(budgetId: string): Promise<BudgetPolicy | null> {
+    return this.loadBudgets().budgets.find(b => b.budget_id === budgetId) ?? null;
+  }
+
+  /**
+   * Create a budget
+   * @throws BudgetValidationError
+   */
+  async create(input: BudgetInput, now: Date = new Date()): Promise<BudgetPolicy> {
+    const errors = validateBudgetInput(input);
+    if (errors.length > 0) {
+      throw new BudgetValidationError(errors);
+    }
+
+    const timestamp = now.toISOString();
+    const budget: BudgetPolicy = {
+      budget_id: uuidv4(),
+      name: input.name!.trim(),
+      scope: input.scope!,
+      scope_id: input.scope_id!.trim(),
+      period: input.period!,
+      limit_usd: input.limit_usd!,
+      ...(input.anchor ? { anchor: new Date(input.anchor).toISOString() } : {}),
+      enabled: input.enabled ?? true,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    const data = this.loadBudgets();
+    data.budgets.push(budget);
+    this.saveBudgets(data);
+    return budget;
+  }
+
+  /**
+   * Update a budget
+   * @returns updated budget, or null if not found
+   * @throws BudgetValidationError
+   */
+  async update(budgetId: string, input: BudgetInput, now: Date = new Date()): Promise<BudgetPolicy | null> {
+    const data = this.loadBudgets();
+    const index = data.budgets.findIndex(b => b.budget_id === budgetId);
+    if (index === -1) {
+      return null;
+    }
+
+    const existing = data.budgets[index];
+    const errors = validateBudgetInput(input, existing);
+    if (errors.length > 0) {
+      throw new BudgetValidationError(errors);
+    }
+
+    const updated: BudgetPolicy = { ...existing, updated_at: now.toISOString() };
+    if (input.name !== undefined) updated.name = input.name.trim();
+    if (input.scope !== undefined) updated.scope = input.scope;
+    if (input.scope_id !== undefined) updated.scope_id = input.scope_id.trim();
+    if (input.period !== undefined) updated.period = input.period;
+    if (input.limit_usd !== undefined) updated.limit_usd = input.limit_usd;
+    if (input.anchor !== undefined) {
+      if (input.anchor) {
+        updated.anchor = new Date(input.anchor).toISOString();
+      } else {
+        delete updated.anchor;
+      }
+    }
+    if (input.enabled !== undefined) updated.enabled = input.enabled;
+
+    data.budgets[index] = updated;
+    this.saveBudgets(data);
+    return updated;
+  }
+
+  /**
+   * Delete a budget and its approvals
+   * @returns true if a budget was deleted
+   */
+  async delete(budgetId: string): Promise<boolean> {
+    const data = this.loadBudgets();
+    const remaining = data.budgets.filter(b => b.budget_id !== budgetId);
+    if (remaining.length === data.budgets.length) {
+      return false;
+    }
+    this.saveBudgets({
+      ...data,
+      budgets: remaining,
+      approvals: data.approvals.filter(a => a.budget_id !== budgetId),
+    });
+    return true;
+  }
+
+  /**
+   * Append a spend record (records older than SPEND_RETENTION_DAYS are dropped)
+   */
+  async recordSpend(input: Omit<SpendRecord, 'spend_id' | 'recorded_at'>, now: Date = new Date()): Promise<SpendRecord> {
+    const record: SpendRecord = { spend_id: uuidv4(), ...input, recorded_at: now.toISOString() };
+    const cutoff = new Date(now.getTime() - SPEND_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const spend = this.loadSpend().filter(s => s.recorded_at >= cutoff);
+    spend.push(record);
+    this.saveSpend(spend);
+    return record;
+  }
+
+  /**
+   * Get spend records recorded at or after `since` (all records if omitted)
+   */
+  async listSpend(since?: Date): Promise<SpendRecord[]> {
+    const sinceIso = since?.toISOString();
+    return this.loadSpend().filter(s => !sinceIso || s.recorded_at >= sinceIso);
+  }
+
+  /**
+   * List approvals, optionally for one task
+   */
+  async listApprovals(taskId?: string): Promise<BudgetApproval[]> {
+    return this.loadBudgets().approvals.filter(a => !taskId || a.task_id === taskId);
+  }
+
+  /**
+   * Record approvals (duplicates of existing budget/task/period approvals are ignored)
+   */
+  async addApprovals(approvals: BudgetApproval[]): Promise<void> {
+    const data = this.loadBudgets();
+    for (const approval of approvals) {
+      const exists = data.approvals.some(a =>
+        a.budget_id === approval.budget_id &&
+        a.task_id === approval.task_id &&
+        a.period_start === approval.period_start
+      );
+      if (!exists) {
+        data.approvals.push(approval);
+      }
+    }
+    this.saveBudgets(data);
+  }
+
+  private loadBudgets(): PersistedBudgets {
+    if (!fs.existsSync(this.budgetsFile)) {
+      return { version: 1, budgets: [], approvals: [] };
+    }
+    try {
+      const data: PersistedBudgets = JSON.parse(fs.readFileSync(this.budgetsFile, 'utf-8'));
+      return {
+        version: 1,
+        budgets: Array.isArray(data.budgets) ? data.budgets : [],
+        approvals: Array.isArray(data.approvals) ? data.approvals : [],
+      };
+    } catch (error) {
+      console.warn(`[BudgetStore] Warning: Could not load budgets from ${this.budgetsFile}:`, error);
+      return { version: 1, budgets: [], approvals: [] };
+    }
+  }
+
+  private saveBudgets(data: PersistedBudgets): void {
+    this.writeJson(this.budgetsFile, data);
+  }
+
+  private loadSpend(): SpendRecord[] {
+    if (!fs.existsSync(this.spendFile)) {
+      return [];
+    }
+    try {
+      const data: PersistedSpend = JSON.parse(fs.readFileSync(this.spendFile, 'utf-8'));
+      return Array.isArray(data.spend) ? data.spend : [];
+    } catch (error) {
+      console.warn(`[BudgetStore] Warning: Could not load spend records from ${this.spendFile}:`, error);
+      return [];
+    }
+  }
+
+  private saveSpend(spend: SpendRecord[]): void {
+    const data: PersistedSpend = { version: 1, spend };
+    this.writeJson(this.spendFile, data);
+  }
+
+  /**
+   * Write via temp file + rename so concurrent readers never see partial JSON
+   */
+  private writeJson(filePath: string, data: unknown): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  }
+}
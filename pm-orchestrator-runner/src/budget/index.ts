@@ -0,0 +1,35 @@
+/**
+ * Budget Module Exports
+ *
+ * Per spec 40_BUDGETS.md
+ */
+
+export {
+  type BudgetScope,
+  type BudgetPeriod,
+  type BudgetPolicy,
+  type BudgetInput,
+  type BudgetSpendSource,
+  type SpendRecord,
+  type BudgetApproval,
+  type BudgetStoreConfig,
+  BUDGET_SCOPES,
+  BUDGET_PERIODS,
+  SPEND_RETENTION_DAYS,
+  BudgetValidationError,
+  validateBudgetInput,
+  BudgetStore,
+} from './budget-store';
+
+export {
+  type BudgetWindow,
+  type BudgetStatus,
+  type BudgetGateDecision,
+  type BudgetGuardConfig,
+  BUDGET_CLARIFICATION_PREFIX,
+  getBudgetWindow,
+  budgetAppliesTo,
+  isBudgetApproval,
+  formatBudgetQuestion,
+  BudgetGuard,
+} from './budget-guard';
@@ -0,0 +1,242 @@
+/**
+ * Git Worktree Isolation - per-task working copies
+ *
+ * Instead of stashing and resetting the user's working copy, an isolated
+ * task runs in its own `git worktree` on a generated branch:
+ * - Rollback = discard the worktree and its branch (main checkout untouched)
+ * - Accept   = commit in the worktree, cherry-pick (no commit) into the
+ *              main checkout; conflicts are reported and the worktree kept
+ * - Rollback after accept = reverse-apply the accepted commit, which is kept
+ *              under refs/pm-runner/accepted/ until then
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { validateBranchName } from '../lib/branchRules';
+import type { Checkpoint, CheckpointResult, RollbackResult } from './task-checkpoint';
+
+/** Prefix for generated task branches (must satisfy branchRules prefixes) */
+export const WORKTREE_BRANCH_PREFIX = 'chore/pm-task-';
+
+/** Keeps accepted worktree commits reachable (not listed as branches) for rollback */
+export const ACCEPTED_REF_PREFIX = 'refs/pm-runner/accepted/';
+
+/**
+ * Result of merging a worktree back into the main checkout
+ */
+export interface AcceptResult {
+  success: boolean;
+  /** Files changed by the task (relative to the repository root) */
+  filesChanged: string[];
+  /** Files that conflicted with the main checkout (worktree is kept) */
+  conflicts?: string[];
+  /** Worktree commit applied to the main checkout (set on success; rollback reverses it) */
+  acceptedCommit?: string;
+  error?: string;
+}
+
+export class WorktreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorktreeError';
+  }
+}
+
+function git(cwd: string, args: string[], timeout: number = 30000): string {
+  return execFileSync('git', args, { cwd, stdio: 'pipe', timeout }).toString().trim();
+}
+
+function lines(output: string): string[] {
+  return output.split('\n').map(l => l.trim()).filter(Boolean);
+}
+
+function branchExists(repoRoot: string, branch: string): boolean {
+  try {
+    git(repoRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], 5000);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Branch name for a task's worktree, validated with branchRules.
+ * Throws WorktreeError when the task ID cannot form a valid branch name.
+ */
+export function getWorktreeBranchName(taskId: string): string {
+  const slug = taskId
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'task';
+  const name = `${WORKTREE_BRANCH_PREFIX}${slug}`;
+  const validation = validateBranchName(name);
+  if (!validation.valid) {
+    throw new WorktreeError(`Invalid worktree branch name "${name}": ${validation.reason}`);
+  }
+  return name;
+}
+
+/**
+ * Create a worktree for the task on a new branch from HEAD.
+ * Uncommitted changes in the main checkout are NOT copied into the worktree.
+ */
+export function createWorktreeCheckpoint(projectPath: string, taskId: string): CheckpointResult {
+  try {
+    const repoRoot = git(projectPath, ['rev-parse', '--show-toplevel'], 5000);
+    const baseCommit = git(projectPath, ['rev-parse', 'HEAD'], 5000);
+
+    let branch = getWorktreeBranchName(taskId);
+    if (branchExists(repoRoot, branch)) {
+      // Retried task whose previous worktree was kept (e.g. after a conflict)
+      branch = `${branch}-${Date.now().toString(36)}`;
+    }
+
+    const worktreePath = path.join(os.tmpdir(), 'pm-worktrees', branch.replace(/\//g, '-'));
+    fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+    git(repoRoot, ['worktree', 'add', '-b', branch, worktreePath, baseCommit], 60000);
+
+    // Run in the same sub-directory of the repository as the original project path
+    const relative = path.relative(fs.realpathSync(repoRoot), fs.realpathSync(projectPath));
+
+    return {
+      success: true,
+      checkpoint: {
+        type: 'git-worktree',
+        taskId,
+        projectPath,
+        worktreePath,
+        workingDir: path.join(worktreePath, relative),
+        branch,
+        baseCommit,
+        createdAt: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Git worktree creation failed: ${msg}` };
+  }
+}
+
+/**
+ * Rollback = remove the worktree and delete its branch.
+ * Once accepted, the accepted changes are reversed in the main checkout instead.
+ */
+export function discardWorktree(checkpoint: Checkpoint): RollbackResult {
+  if (checkpoint.acceptedCommit) {
+    return revertAcceptedWorktree(checkpoint);
+  }
+  const { projectPath, worktreePath, branch } = checkpoint;
+  if (!worktreePath || !fs.existsSync(worktreePath)) {
+    return { success: false, error: 'Worktree no longer exists (changes were already accepted or discarded)' };
+  }
+
+  git(projectPath, ['worktree', 'remove', '--force', worktreePath]);
+  if (branch) {
+    try {
+      git(projectPath, ['branch', '-D', branch], 10000);
+    } catch { /* ignore - branch may already be gone */ }
+  }
+  return { success: true, filesRestored: 0 };
+}
+
+/**
+ * Reverse the changes acceptWorktree() applied to the main checkout.
+ * Edits made on top of them since are kept; conflicts fail the rollback.
+ */
+function revertAcceptedWorktree(checkpoint: Checkpoint): RollbackResult {
+  const { projectPath, taskId, baseCommit, acceptedCommit } = checkpoint;
+  const ref = ACCEPTED_REF_PREFIX + taskId;
+  if (!baseCommit || !acceptedCommit) {
+    return { success: false, error: 'Accepted worktree checkpoint has no commits to revert' };
+  }
+  const files = lines(git(projectPath, ['diff', '--name-only', baseCommit, acceptedCommit]));
+  if (files.length > 0) {
+    const patch = execFileSync('git', ['diff', '--binary', baseCommit, acceptedCommit], { cwd: projectPath, stdio: 'pipe', timeout: 30000 });
+    execFileSync('git', ['apply', '--reverse', '--3way'], { cwd: projectPath, input: patch, stdio: 'pipe', timeout: 60000 });
+  }
+  try {
+    git(projectPath, ['update-ref', '-d', ref], 10000);
+  } catch { /* ignore - ref may already be gone */ }
+  return { success: true, filesRestored: files.length };
+}
+
+/**
+ * Commit everything the task left in the worktree (no-op when clean)
+ */
+function commitWorktreeChanges(checkpoint: Checkpoint): void {
+  const cwd = checkpoint.worktreePath!;
+  git(cwd, ['add', '-A']);
+  if (git(cwd, ['status', '--porcelain']).length === 0) {
+    return;
+  }
+
+  // Fall back to a runner identity only when the repository has none configured
+  let identity: string[] = [];
+  try {
+    git(cwd, ['config', 'user.email'], 5000);
+  } catch {
+    identity = ['-c', 'user.name=pm-runner', '-c', 'user.email=pm-runner@localhost'];
+  }
+  git(cwd, [...identity, 'commit', '--no-verify', '-m', `pm-runner: task ${checkpoint.taskId}`]);
+}
+
+/**
+ * Accept = bring the worktree's changes into the main checkout.
+ *
+ * Changes are applied with `git cherry-pick --no-commit`, so they appear as
+ * staged changes in the main checkout (no commit is created there). The
+ * worktree commit is kept under refs/pm-runner/accepted/<taskId> so the
+ * task can still be rolled back (see discardWorktree). On
+ * conflict the cherry-pick is aborted, the worktree and branch are kept for
+ * manual merging, and the conflicting files are reported.
+ */
+export function acceptWorktree(checkpoint: Checkpoint): AcceptResult {
+  const { projectPath, worktreePath, branch, baseCommit } = checkpoint;
+  if (!worktreePath || !branch || !baseCommit || !fs.existsSync(worktreePath)) {
+    return { success: false, filesChanged: [], error: 'Worktree no longer exists' };
+  }
+
+  let filesChanged: string[] = [];
+  let acceptedCommit: string;
+  try {
+    commitWorktreeChanges(checkpoint);
+    acceptedCommit = git(projectPath, ['rev-parse', branch]);
+    filesChanged = lines(git(projectPath, ['diff', '--name-only', baseCommit, branch]));
+    if (lines(git(projectPath, ['rev-list', `${baseCommit}..${branch}`])).length > 0) {
+      git(projectPath, ['cherry-pick', '--no-commit', `${baseCommit}..${branch}`], 60000);
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    let conflicts: string[] = [];
+    try {
+      conflicts = lines(git(projectPath, ['diff', '--name-only', '--diff-filter=U']));
+    } catch { /* ignore */ }
+    try {
+      git(projectPath, ['cherry-pick', '--abort']);
+    } catch { /* refused before starting (e.g. local changes) - nothing to abort */ }
+    return {
+      success: false,
+      filesChanged,
+      conflicts,
+      error: conflicts.length > 0
+        ? `Merge conflicts in ${conflicts.join(', ')} (branch ${branch} kept at ${worktreePath})`
+        : `Could not apply worktree changes (branch ${branch} kept at ${worktreePath}): ${msg}`,
+    };
+  }
+
+  // The changes are in the main checkout now: failing to tidy up must not fail the task
+  try {
+    git(projectPath, ['update-ref', ACCEPTED_REF_PREFIX + checkpoint.taskId, acceptedCommit], 10000);
+  } catch (error) {
+    console.warn(`[Checkpoint] Could not keep accepted commit ${acceptedCommit} for rollback: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    discardWorktree(checkpoint);
+  } catch (error) {
+    console.warn(`[Checkpoint] Could not remove worktree ${worktreePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { success: true, filesChanged, acceptedCommit };
+}
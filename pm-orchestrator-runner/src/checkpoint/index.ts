@@ -5,8 +5,41 @@ export {
   isGitRepo,
 } from './task-checkpoint';
 
+export {
+  acceptWorktree,
+  getWorktreeBranchName,
+  WorktreeError,
+  WORKTREE_BRANCH_PREFIX,
+  ACCEPTED_REF_PREFIX,
+} from './git-worktree';
+
 export type {
   Checkpoint,
+  CheckpointOptions,
   CheckpointResult,
+  IsolationMode,
   RollbackResult,
 } from './task-checkpoint';
+
+export type { AcceptResult } from './git-worktree';
+
+export {
+  captureDiffBaseline,
+  releaseDiffBaseline,
+  computeTaskDiff,
+  computeHunks,
+  saveTaskDiff,
+  loadTaskDiff,
+  revertTaskDiffFile,
+  revertTaskDiffHunk,
+  TaskDiffRevertError,
+  TASK_DIFF_LIMITS,
+} from './task-diff';
+
+export type {
+  DiffBaseline,
+  DiffHunk,
+  TaskDiff,
+  TaskFileDiff,
+  TaskDiffRevertErrorCode,
+} from './task-diff';
@@ -3,15 +3,25 @@
  *
  * Uses git stash (no commits) when git is available,
  * falls back to file snapshot for non-git projects.
+ * With isolation 'worktree', the task runs in its own git worktree instead
+ * (see git-worktree.ts) and the user's working copy is never reset.
  */
 
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { createWorktreeCheckpoint, discardWorktree } from './git-worktree';
+
+/**
+ * How a task's changes are isolated from the user's working copy
+ * - stash: run in place, stash before / reset on rollback (default)
+ * - worktree: run in a per-task git worktree on a generated branch
+ */
+export type IsolationMode = 'stash' | 'worktree';
 
 export interface Checkpoint {
-  type: 'git-stash' | 'file-snapshot' | 'none';
+  type: 'git-stash' | 'file-snapshot' | 'git-worktree' | 'none';
   taskId: string;
   projectPath: string;
   snapshotDir?: string;
@@ -19,6 +29,21 @@ export interface Checkpoint {
   createdAt: string;
   /** Files that existed in the snapshot (for file-snapshot type) */
   files?: string[];
+  /** Worktree root directory (for git-worktree type) */
+  worktreePath?: string;
+  /** projectPath mapped into the worktree - where the task executes (git-worktree) */
+  workingDir?: string;
+  /** Generated task branch (git-worktree) */
+  branch?: string;
+  /** Commit the worktree was created from (git-worktree) */
+  baseCommit?: string;
+  /** Worktree commit merged into the main checkout; set once accepted (git-worktree) */
+  acceptedCommit?: string;
+}
+
+export interface CheckpointOptions {
+  /** Isolation mode (default: stash). Non-git projects always use file snapshots. */
+  isolation?: IsolationMode;
 }
 
 export interface CheckpointResult {
@@ -67,13 +92,25 @@ function hasGitChanges(dir: string): boolean {
 
 /**
  * Create a checkpoint before task execution.
+ * - Git repo + isolation 'worktree': creates a per-task worktree (falls back to stash on failure)
  * - Git repo: uses git stash (no commit created)
  * - Non-git: copies src files to temp directory
  * - Empty/no changes: returns type 'none'
  */
-export async function createCheckpoint(projectPath: string, taskId: string): Promise<CheckpointResult> {
+export async function createCheckpoint(
+  projectPath: string,
+  taskId: string,
+  options: CheckpointOptions = {}
+): Promise<CheckpointResult> {
   try {
     if (isGitRepo(projectPath)) {
+      if (options.isolation === 'worktree') {
+        const worktreeResult = createWorktreeCheckpoint(projectPath, taskId);
+        if (worktreeResult.success) {
+          return worktreeResult;
+        }
+        console.warn(`[Checkpoint] ${worktreeResult.error}; falling back to git stash`);
+      }
       return createGitStashCheckpoint(projectPath, taskId);
     } else {
       return createFileSnapshotCheckpoint(projectPath, taskId);
@@ -217,6 +254,8 @@ export async function rollback(checkpoint: Checkpoint): Promise<RollbackResult>
   try {
     if (checkpoint.type === 'git-stash') {
       return rollbackGitStash(checkpoint);
+    } else if (checkpoint.type === 'git-worktree') {
+      return discardWorktree(checkpoint);
     } else {
       return rollbackFileSnapshot(checkpoint);
     }
@@ -276,6 +315,7 @@ function rollbackFileSnapshot(checkpoint: Checkpoint): RollbackResult {
 
 /**
  * Clean up a checkpoint after successful task completion.
+ * git-worktree checkpoints are finished with acceptWorktree() instead.
  */
 export async function cleanupCheckpoint(checkpoint: Checkpoint): Promise<void> {
   if (checkpoint.type === 'git-stash' && checkpoint.stashRef && checkpoint.stashRef !== 'HEAD') {
@@ -0,0 +1,556 @@
+/**
+ * Task Diff - Per-task before/after snapshot of changed files
+ *
+ * Per spec/46_TASK_DIFF.md
+ *
+ * A baseline of the task's working directory is taken before execution and
+ * compared with the directory when the task succeeds:
+ * - Git repos: the working tree (tracked changes and untracked files that are
+ *   not ignored) is written to a tree object through a temporary index; the
+ *   real index is not touched
+ * - Other projects: hashes of up to 1000 files in memory, their contents
+ *   copied to a temporary directory until releaseDiffBaseline()
+ *
+ * The diff (contents + hunks) is saved to {project}/.claude/state/diffs/<task_id>.json.
+ * Single files or hunks can be reverted as long as the file still has the
+ * content the diff (and earlier reverts) left behind.
+ */
+
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isGitRepo } from './task-checkpoint';
+
+export const TASK_DIFF_LIMITS = {
+  /** Files kept in one diff (the rest are dropped, truncated=true) */
+  MAX_FILES: 200,
+  /** Larger files are listed without content and cannot be reverted */
+  MAX_FILE_BYTES: 1024 * 1024,
+  /** Non-git projects with more files get no baseline */
+  MAX_SNAPSHOT_FILES: 1000,
+  /** Lines of context around each hunk */
+  CONTEXT_LINES: 3,
+  /** Edit distance above which a file is shown as one replace-all hunk */
+  MAX_EDIT_DISTANCE: 2000,
+};
+
+/** Runner state inside the project is never part of a task diff */
+const STATE_DIR = path.join('.claude', 'state');
+
+const SNAPSHOT_EXCLUDE = ['node_modules', 'dist', '.git', '.next', '__pycache__', 'venv', '.venv', 'target', 'build'];
+
+/**
+ * A file of a non-git snapshot
+ */
+interface SnapshotEntry {
+  sha256: string;
+  size: number;
+}
+
+/**
+ * Directory state before execution. A snapshot keeps file contents in
+ * `storeDir` (files over MAX_FILE_BYTES are hashed only); release it with
+ * releaseDiffBaseline().
+ */
+export type DiffBaseline =
+  | { type: 'git-tree'; dir: string; tree: string }
+  | { type: 'snapshot'; dir: string; files: Map<string, SnapshotEntry>; storeDir: string };
+
+/**
+ * Unified diff hunk. `lines` are prefixed with ' ', '-' or '+'.
+ */
+export interface DiffHunk {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  lines: string[];
+  reverted?: boolean;
+}
+
+export interface TaskFileDiff {
+  /** Relative to the task's project directory */
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  binary: boolean;
+  /** Over MAX_FILE_BYTES: no content, no hunks, not revertable */
+  too_large: boolean;
+  /** Text content (utf-8) or base64 for binary files; null when absent */
+  before: string | null;
+  after: string | null;
+  hunks: DiffHunk[];
+  /** sha256 of the content the file should have now (null = file absent) */
+  current_sha256: string | null;
+  /** Whole file restored to `before` */
+  reverted?: boolean;
+}
+
+export interface TaskDiff {
+  task_id: string;
+  base: 'git' | 'snapshot';
+  captured_at: string;
+  files: TaskFileDiff[];
+  /** More than MAX_FILES files changed */
+  truncated: boolean;
+}
+
+export type TaskDiffRevertErrorCode = 'NOT_IN_DIFF' | 'NOT_REVERTABLE' | 'ALREADY_REVERTED' | 'CONFLICT';
+
+export class TaskDiffRevertError extends Error {
+  constructor(message: string, public readonly code: TaskDiffRevertErrorCode) {
+    super(message);
+    this.name = 'TaskDiffRevertError';
+  }
+}
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv, input?: string): Buffer {
+  return execFileSync('git', args, {
+    cwd,
+    stdio: 'pipe',
+    timeout: 60000,
+    maxBuffer: 64 * 1024 * 1024,
+    env: env ? { ...process.env, ...env } : undefined,
+    input,
+  });
+}
+
+/**
+ * Write the working tree (tracked + untracked, minus ignored and runner state)
+ * to a git tree object without touching the real index.
+ * Only paths that differ from the index are hashed.
+ */
+function writeWorkingTree(dir: string): string {
+  const tmpIndex = path.join(os.tmpdir(), `pm-diff-index-${process.pid}-${crypto.randomUUID()}`);
+  try {
+    const realIndex = path.resolve(dir, git(dir, ['rev-parse', '--git-path', 'index']).toString().trim());
+    if (fs.existsSync(realIndex)) {
+      // Start from the real index so unchanged files are not re-hashed
+      fs.copyFileSync(realIndex, tmpIndex);
+    }
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    const changed = git(dir, [
+      'ls-files', '-z', '--modified', '--deleted', '--others', '--exclude-standard',
+      '--', '.', `:(exclude)${STATE_DIR}`,
+    ], env).toString();
+    if (changed.length > 0) {
+      git(dir, ['update-index', '--add', '--remove', '-z', '--stdin'], env, changed);
+    }
+    return git(dir, ['write-tree'], env).toString().trim();
+  } finally {
+    fs.rmSync(tmpIndex, { force: true });
+  }
+}
+
+/**
+ * Hash the files of a non-git directory. With `storeDir`, contents up to
+ * MAX_FILE_BYTES are also copied there (same relative paths).
+ */
+function snapshotFiles(dir: string, storeDir?: string): Map<string, SnapshotEntry> | null {
+  const files = new Map<string, SnapshotEntry>();
+  let tooMany = false;
+  const walk = (current: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (tooMany || SNAPSHOT_EXCLUDE.includes(entry.name)) continue;
+      const full = path.join(current, entry.name);
+      const rel = path.relative(dir, full);
+      if (rel === STATE_DIR) continue;
+      if (entry.isDirectory()) {
+        walk(full);
+      } else if (entry.isFile()) {
+        if (files.size >= TASK_DIFF_LIMITS.MAX_SNAPSHOT_FILES) {
+          tooMany = true;
+          return;
+        }
+        try {
+          const content = fs.readFileSync(full);
+          files.set(rel, { sha256: sha256(content) as string, size: content.length });
+          // Large files are compared by hash only
+          if (storeDir && content.length <= TASK_DIFF_LIMITS.MAX_FILE_BYTES) {
+            const copy = path.join(storeDir, rel);
+            fs.mkdirSync(path.dirname(copy), { recursive: true });
+            fs.writeFileSync(copy, content);
+          }
+        } catch { /* skip unreadable files */ }
+      }
+    }
+  };
+  walk(dir);
+  return tooMany ? null : files;
+}
+
+function sha256(content: Buffer | null): string | null {
+  return content === null ? null : crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Take a baseline of the directory a task is about to change
+ * @returns null when no baseline can be taken (too many files, git failure)
+ */
+export function captureDiffBaseline(dir: string): DiffBaseline | null {
+  let storeDir: string | undefined;
+  try {
+    if (isGitRepo(dir)) {
+      return { type: 'git-tree', dir, tree: writeWorkingTree(dir) };
+    }
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-diff-snapshot-'));
+    const files = snapshotFiles(dir, storeDir);
+    if (files) {
+      return { type: 'snapshot', dir, files, storeDir };
+    }
+  } catch { /* no baseline */ }
+  if (storeDir) {
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  }
+  return null;
+}
+
+/**
+ * Remove the file copies of a snapshot baseline (no-op for git baselines)
+ */
+export function releaseDiffBaseline(baseline: DiffBaseline): void {
+  if (baseline.type === 'snapshot') {
+    fs.rmSync(baseline.storeDir, { recursive: true, force: true });
+  }
+}
+
+// ─── Line diff ───
+
+/**
+ * Split into lines, keeping line terminators so joined lines reproduce the content
+ */
+export function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+type EditOp = { op: ' ' | '-' | '+'; line: string };
+
+/**
+ * Myers diff of two line arrays. Falls back to delete-all/add-all past MAX_EDIT_DISTANCE.
+ */
+function diffLineArrays(a: string[], b: string[]): EditOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, TASK_DIFF_LIMITS.MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  let v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    const next = v.slice();
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    v = next;
+  }
+
+  if (!found) {
+    return [...a.map(line => ({ op: '-' as const, line })), ...b.map(line => ({ op: '+' as const, line }))];
+  }
+
+  // Walk the trace back from (n, m)
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = prev[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ op: ' ', line: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ op: '+', line: b[--y] });
+    } else {
+      ops.push({ op: '-', line: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ op: ' ', line: a[--x] });
+    y--;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Unified diff hunks between two texts
+ */
+export function computeHunks(before: string, after: string): DiffHunk[] {
+  const ops = diffLineArrays(splitLines(before), splitLines(after));
+  const context = TASK_DIFF_LIMITS.CONTEXT_LINES;
+  const hunks: DiffHunk[] = [];
+  const display = (op: EditOp): string => op.op + op.line.replace(/\n$/, '');
+
+  let i = 0;
+  let oldLine = 1;
+  let newLine = 1;
+  // Line numbers before each op
+  const positions = ops.map(op => {
+    const position = { oldLine, newLine };
+    if (op.op !== '+') oldLine++;
+    if (op.op !== '-') newLine++;
+    return position;
+  });
+
+  while (i < ops.length) {
+    if (ops[i].op === ' ') {
+      i++;
+      continue;
+    }
+    const start = Math.max(0, i - context);
+    let end = i;
+    // Extend while the next change is within 2 * context unchanged lines
+    while (end < ops.length) {
+      if (ops[end].op !== ' ') {
+        end++;
+        continue;
+      }
+      let run = end;
+      while (run < ops.length && ops[run].op === ' ') run++;
+      if (run >= ops.length || run - end > 2 * context) {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+      end = run;
+    }
+    const slice = ops.slice(start, end);
+    hunks.push({
+      old_start: positions[start].oldLine,
+      old_lines: slice.filter(op => op.op !== '+').length,
+      new_start: positions[start].newLine,
+      new_lines: slice.filter(op => op.op !== '-').length,
+      lines: slice.map(display),
+    });
+    i = end;
+  }
+  return hunks;
+}
+
+// ─── Capture ───
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+function fileDiff(file: string, before: Buffer | null, after: Buffer | null, tooLarge: boolean): TaskFileDiff {
+  const status = before === null ? 'added' : after === null ? 'deleted' : 'modified';
+  if (tooLarge) {
+    return { path: file, status, binary: false, too_large: true, before: null, after: null, hunks: [], current_sha256: sha256(after) };
+  }
+  const binary = (before !== null && isBinary(before)) || (after !== null && isBinary(after));
+  const encode = (content: Buffer | null): string | null =>
+    content === null ? null : content.toString(binary ? 'base64' : 'utf-8');
+  return {
+    path: file,
+    status,
+    binary,
+    too_large: false,
+    before: encode(before),
+    after: encode(after),
+    hunks: binary ? [] : computeHunks(before?.toString('utf-8') ?? '', after?.toString('utf-8') ?? ''),
+    current_sha256: sha256(after),
+  };
+}
+
+function gitBlob(dir: string, tree: string, file: string): Buffer | null {
+  try {
+    return git(dir, ['cat-file', 'blob', `${tree}:./${file}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare the directory with its baseline
+ */
+export function computeTaskDiff(taskId: string, baseline: DiffBaseline): TaskDiff {
+  const files: TaskFileDiff[] = [];
+  let changed: string[] = [];
+
+  if (baseline.type === 'git-tree') {
+    const afterTree = writeWorkingTree(baseline.dir);
+    changed = git(baseline.dir, ['diff-tree', '-r', '-z', '--no-renames', '--name-only', '--relative', baseline.tree, afterTree])
+      .toString()
+      .split('\0')
+      .filter(Boolean);
+    for (const file of changed.slice(0, TASK_DIFF_LIMITS.MAX_FILES)) {
+      const before = gitBlob(baseline.dir, baseline.tree, file);
+      const after = gitBlob(baseline.dir, afterTree, file);
+      const tooLarge = Math.max(before?.length ?? 0, after?.length ?? 0) > TASK_DIFF_LIMITS.MAX_FILE_BYTES;
+      files.push(fileDiff(file, before, after, tooLarge));
+    }
+  } else {
+    const current = snapshotFiles(baseline.dir) ?? new Map<string, SnapshotEntry>();
+    changed = [...new Set([...baseline.files.keys(), ...current.keys()])]
+      .filter(file => baseline.files.get(file)?.sha256 !== current.get(file)?.sha256)
+      .sort();
+    for (const file of changed.slice(0, TASK_DIFF_LIMITS.MAX_FILES)) {
+      const before = baseline.files.get(file);
+      const after = current.get(file);
+      const tooLarge = Math.max(before?.size ?? 0, after?.size ?? 0) > TASK_DIFF_LIMITS.MAX_FILE_BYTES;
+      const read = (entry: SnapshotEntry | undefined, root: string): Buffer | null => {
+        if (!entry) return null;
+        return tooLarge ? Buffer.alloc(0) : fs.readFileSync(path.join(root, file));
+      };
+      files.push(fileDiff(file, read(before, baseline.storeDir), read(after, baseline.dir), tooLarge));
+    }
+  }
+
+  return {
+    task_id: taskId,
+    base: baseline.type === 'git-tree' ? 'git' : 'snapshot',
+    captured_at: new Date().toISOString(),
+    files,
+    truncated: changed.length > TASK_DIFF_LIMITS.MAX_FILES,
+  };
+}
+
+// ─── Storage ───
+
+function diffFilePath(projectDir: string, taskId: string): string {
+  return path.join(projectDir, STATE_DIR, 'diffs', `${taskId.replace(/[^A-Za-z0-9_.:-]/g, '_')}.json`);
+}
+
+export function saveTaskDiff(projectDir: string, diff: TaskDiff): void {
+  const file = diffFilePath(projectDir, diff.task_id);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(diff));
+}
+
+/**
+ * @returns null when the task recorded no diff
+ */
+export function loadTaskDiff(projectDir: string, taskId: string): TaskDiff | null {
+  const file = diffFilePath(projectDir, taskId);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as TaskDiff;
+}
+
+// ─── Revert ───
+
+function resolveInProject(projectDir: string, file: string): string {
+  const root = path.resolve(projectDir);
+  const resolved = path.resolve(root, file);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new TaskDiffRevertError(`Path escapes the project: ${file}`, 'NOT_IN_DIFF');
+  }
+  return resolved;
+}
+
+function readCurrent(file: string): Buffer | null {
+  return fs.existsSync(file) ? fs.readFileSync(file) : null;
+}
+
+function findFile(diff: TaskDiff, file: string): TaskFileDiff {
+  const entry = diff.files.find(f => f.path === file);
+  if (!entry) {
+    throw new TaskDiffRevertError(`${file} is not part of the diff of task ${diff.task_id}`, 'NOT_IN_DIFF');
+  }
+  if (entry.too_large) {
+    throw new TaskDiffRevertError(`${file} is larger than ${TASK_DIFF_LIMITS.MAX_FILE_BYTES} bytes and was recorded without content`, 'NOT_REVERTABLE');
+  }
+  if (entry.reverted) {
+    throw new TaskDiffRevertError(`${file} has already been reverted`, 'ALREADY_REVERTED');
+  }
+  return entry;
+}
+
+function checkUnchanged(entry: TaskFileDiff, current: Buffer | null): void {
+  if (sha256(current) !== entry.current_sha256) {
+    throw new TaskDiffRevertError(`${entry.path} has changed since the task ran`, 'CONFLICT');
+  }
+}
+
+function writeContent(target: string, content: Buffer | null): void {
+  if (content === null) {
+    fs.rmSync(target, { force: true });
+    return;
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content);
+}
+
+/**
+ * Restore one file to its content before the task.
+ * The diff is updated in place; save it afterwards.
+ * @param force - Overwrite even if the file changed since the task ran
+ * @throws TaskDiffRevertError
+ */
+export function revertTaskDiffFile(diff: TaskDiff, projectDir: string, file: string, force = false): TaskFileDiff {
+  const entry = findFile(diff, file);
+  const target = resolveInProject(projectDir, entry.path);
+  if (!force) {
+    checkUnchanged(entry, readCurrent(target));
+  }
+  const before = entry.before === null ? null : Buffer.from(entry.before, entry.binary ? 'base64' : 'utf-8');
+  writeContent(target, before);
+  entry.reverted = true;
+  entry.current_sha256 = sha256(before);
+  entry.hunks.forEach(hunk => { hunk.reverted = true; });
+  return entry;
+}
+
+/**
+ * Undo one hunk of a text file.
+ * The diff is updated in place; save it afterwards.
+ * @throws TaskDiffRevertError
+ */
+export function revertTaskDiffHunk(diff: TaskDiff, projectDir: string, file: string, hunkIndex: number): TaskFileDiff {
+  const entry = findFile(diff, file);
+  const hunk = entry.hunks[hunkIndex];
+  if (!hunk) {
+    throw new TaskDiffRevertError(`${file} has no hunk ${hunkIndex}`, 'NOT_IN_DIFF');
+  }
+  if (hunk.reverted) {
+    throw new TaskDiffRevertError(`Hunk ${hunkIndex} of ${file} has already been reverted`, 'ALREADY_REVERTED');
+  }
+  const target = resolveInProject(projectDir, entry.path);
+  const current = readCurrent(target);
+  checkUnchanged(entry, current);
+
+  // The file is `after` with the reverted hunks undone, so each hunk's position is known
+  const shift = entry.hunks
+    .slice(0, hunkIndex)
+    .filter(h => h.reverted)
+    .reduce((sum, h) => sum + h.old_lines - h.new_lines, 0);
+  const beforeLines = splitLines(entry.before ?? '');
+  const lines = splitLines(current?.toString('utf-8') ?? '');
+  lines.splice(
+    hunk.new_start - 1 + shift,
+    hunk.new_lines,
+    ...beforeLines.slice(hunk.old_start - 1, hunk.old_start - 1 + hunk.old_lines)
+  );
+
+  hunk.reverted = true;
+  const allReverted = entry.hunks.every(h => h.reverted);
+  // Deleting the last hunk of an added file (or restoring a deleted one) changes existence too
+  const content = allReverted && entry.before === null ? null : Buffer.from(lines.join(''), 'utf-8');
+  writeContent(target, content);
+  entry.current_sha256 = sha256(content);
+  if (allReverted) entry.reverted = true;
+  return entry;
+}
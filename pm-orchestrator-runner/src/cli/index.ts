@@ -46,10 +46,21 @@ import { match, P } from 'ts-pattern';
 import { CLI, CLIError } from './cli-interface';
 import { REPLInterface, ProjectMode } from '../repl/repl-interface';
 import { WebServer } from '../web/server';
-import { QueueStore, QueuePoller, QueueItem, QueueItemStatus, TaskExecutor, IQueueStore, ProgressEvent } from '../queue/index';
+import { QueueStore, QueuePoller, QueueItem, QueueItemStatus, TaskExecutor, IQueueStore, ProgressEvent, FairShareConfig, QueueEventStream, observeQueueEvents, publishRunnerHeartbeats, isWritingTask, QueueControlStore } from '../queue/index';
 import { InMemoryQueueStore } from '../queue/in-memory-queue-store';
 import { FileQueueStore } from '../queue/file-queue-store';
+import { SQLiteQueueStore } from '../queue/sqlite-queue-store';
+import { migrateFileStateToSqlite } from '../storage/sqlite-migration';
+import { observeStatusTransitions } from '../queue/status-observer';
+import { WebhookDispatcher, WebhookStore } from '../notifications';
+import { BudgetGuard, BudgetStore } from '../budget';
+import { addTaskUsage, type TaskUsage } from '../queue/task-usage';
+import { buildAttachmentPrompt } from '../queue/task-attachments';
+import { Scheduler, ScheduleStore } from '../schedule';
+import { TemplateStore } from '../template';
 import { AutoResolvingExecutor } from '../executor/auto-resolve-executor';
+import type { AppliedPreference } from '../executor/user-preference-store';
+import type { ExecutorResult } from '../executor/claude-code-executor';
 import { getTestExecutorMode, TestIncompleteExecutor } from '../executor/test-incomplete-executor';
 import { DeterministicExecutor } from '../executor/deterministic-executor';
 import {
@@ -80,11 +91,11 @@ import {
 } from '../web/background';
 import { ensureDistFresh, checkPublicFilesCopied } from '../utils/dist-freshness';
 import { runSelftest, SELFTEST_CASES, runSelftestWithAIJudge } from '../selftest/selftest-runner';
-import { hasUnansweredQuestions, extractQuestionSummary, detectQuestionsWithLlm, tryAutoAnswerQuestion, generateMetaPrompt, evaluateOutputQuality, verifyClaimsWithLlm, getPendingUsage, detectRedOperation } from '../utils/question-detector';
+import { hasUnansweredQuestions, extractQuestionSummary, detectQuestionsWithLlm, tryAutoAnswerQuestion, generateMetaPrompt, evaluateOutputQuality, verifyClaimsWithLlm, getPendingUsage, peekPendingUsage, setLlmBudgetGate, runWithLlmTaskContext, detectRedOperation, judgeYellowToolCall, type LlmUsageInfo } from '../utils/question-detector';
 import { calculateTokenCost } from '../web/services/ai-cost-service';
 import { estimateTaskSize } from '../utils/task-size-estimator';
 import { analyzeTaskForChunking } from '../task-chunking';
-import { createCheckpoint, rollback, cleanupCheckpoint, Checkpoint } from '../checkpoint';
+import { createCheckpoint, rollback, cleanupCheckpoint, acceptWorktree, Checkpoint, IsolationMode, captureDiffBaseline, releaseDiffBaseline, computeTaskDiff, saveTaskDiff } from '../checkpoint';
 import {
   runPreflightChecks,
   enforcePreflightCheck,
@@ -95,6 +106,22 @@ import {
 import { getExecutorOutputStream } from '../executor/executor-output-stream';
 import type { ExecutorOutputStream, ExecutorOutputChunk } from '../executor/executor-output-stream';
 import { getDAL } from '../web/dal/dal-factory';
+import { replayTraceDir, formatReplayReport } from '../trace/trace-replay';
+import {
+  deriveQAGates,
+  runQAGates,
+  formatQAGateFailures,
+  qaFixAttempt,
+  qaFixTaskId,
+  QA_GATE_NAMES,
+  type QAGateName,
+  type QAGateOptions,
+  type QAGateReport,
+} from '../core/qa-gates';
+import { scanRepoProfile } from '../web/routes/repo-profile';
+import { evaluateCustomCriteria, type CriteriaResult } from '../review-loop';
+import { loadProjectQualityCriteria } from '../settings';
+import { BlastRadiusGuard, formatBlockedToolCalls, parseBlockedToolCalls, isApprovalReply, type ExecutorHookConfig } from '../safety';
 import * as os from 'os';
 // Task Tracker removed (v2.3) — see spec/36_LIVE_TASKS_AND_RECOVERY.md
 
@@ -133,6 +160,214 @@ export function getStaleThresholdMs(): number {
   return 10 * 60 * 1000; // 10 minutes default (spec/36 §7)
 }
 
+/**
+ * Sections of ~/.pm-orchestrator-runner/config.json read by the queue and QA gate settings
+ */
+interface RunnerConfigFile {
+  queue?: {
+    maxConcurrency?: number;
+    maxConcurrencyPerProject?: number;
+    readOnlySlots?: number;
+    priorityAgingMs?: number;
+    projectWeights?: Record<string, number>;
+  };
+  qaGates?: { enabled?: boolean; maxFixIterations?: number; gates?: unknown; timeoutMs?: Record<string, unknown> };
+}
+
+/**
+ * Read ~/.pm-orchestrator-runner/config.json; a missing or unreadable file yields {}
+ */
+function loadRunnerConfigFile(): RunnerConfigFile {
+  try {
+    const cfgPath = path.join(os.homedir(), '.pm-orchestrator-runner', 'config.json');
+    if (fs.existsSync(cfgPath)) {
+      return (JSON.parse(fs.readFileSync(cfgPath, 'utf-8')) as RunnerConfigFile | null) ?? {};
+    }
+  } catch {
+    // ignore — fall through to defaults
+  }
+  return {};
+}
+
+/**
+ * Read queue concurrency limits with precedence:
+ *   1. CLI flags: --max-concurrency=<n>, --max-concurrency-per-project=<n>, --read-only-slots=<n>
+ *   2. Env: PM_RUNNER_MAX_CONCURRENCY, PM_RUNNER_MAX_CONCURRENCY_PER_PROJECT, PM_RUNNER_READ_ONLY_SLOTS
+ *   3. ~/.pm-orchestrator-runner/config.json → queue.maxConcurrency / queue.maxConcurrencyPerProject / queue.readOnlySlots
+ *   4. Default: 1 task at a time (per-project limit defaults to the runner limit),
+ *      plus 1 slot for READ_INFO/REPORT tasks (0 disables it)
+ */
+export function getQueueConcurrencyConfig(): { maxConcurrency: number; maxConcurrencyPerProject?: number; readOnlySlots?: number } {
+  const cfg = loadRunnerConfigFile();
+
+  const read = (flag: string, envName: string, cfgValue: number | undefined, min: number = 1): number | undefined => {
+    const cliFlag = process.argv.find(a => a.startsWith(`--${flag}=`));
+    if (cliFlag) {
+      const v = parseInt(cliFlag.split('=')[1], 10);
+      if (Number.isFinite(v) && v >= min) return v;
+    }
+    const envVal = process.env[envName];
+    if (envVal) {
+      const v = parseInt(envVal, 10);
+      if (Number.isFinite(v) && v >= min) return v;
+    }
+    if (typeof cfgValue === 'number' && cfgValue >= min) return cfgValue;
+    return undefined;
+  };
+
+  return {
+    maxConcurrency: read('max-concurrency', 'PM_RUNNER_MAX_CONCURRENCY', cfg.queue?.maxConcurrency) ?? 1,
+    maxConcurrencyPerProject: read('max-concurrency-per-project', 'PM_RUNNER_MAX_CONCURRENCY_PER_PROJECT', cfg.queue?.maxConcurrencyPerProject),
+    readOnlySlots: read('read-only-slots', 'PM_RUNNER_READ_ONLY_SLOTS', cfg.queue?.readOnlySlots, 0),
+  };
+}
+
+/**
+ * Read claim() fair-share settings with precedence:
+ *   1. CLI flag: --priority-aging-ms=<ms> (0 disables aging)
+ *   2. Env: PM_RUNNER_PRIORITY_AGING_MS
+ *   3. ~/.pm-orchestrator-runner/config.json → queue.priorityAgingMs / queue.projectWeights
+ *   4. Default: 15 minutes per lane, every project weight 1
+ */
+export function getQueueFairShareConfig(): FairShareConfig {
+  const cfg = loadRunnerConfigFile();
+
+  const parse = (value: string | undefined): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const v = parseInt(value, 10);
+    return Number.isFinite(v) && v >= 0 ? v : undefined;
+  };
+  const cliFlag = process.argv.find(a => a.startsWith('--priority-aging-ms='));
+  const cfgAging = cfg.queue?.priorityAgingMs;
+  const agingMs =
+    parse(cliFlag?.split('=')[1]) ??
+    parse(process.env.PM_RUNNER_PRIORITY_AGING_MS) ??
+    (typeof cfgAging === 'number' && cfgAging >= 0 ? cfgAging : undefined);
+
+  const projectWeights: Record<string, number> = {};
+  for (const [projectPath, weight] of Object.entries(cfg.queue?.projectWeights ?? {})) {
+    if (typeof weight === 'number' && weight > 0) {
+      projectWeights[projectPath] = weight;
+    }
+  }
+
+  return { agingMs, projectWeights };
+}
+
+/**
+ * Read the task isolation mode with precedence:
+ *   1. CLI flag: --isolation=stash|worktree
+ *   2. Env: PM_RUNNER_ISOLATION
+ *   3. ~/.pm-orchestrator-runner/config.json → checkpoint.isolation
+ *   4. Default: stash
+ */
+export function getTaskIsolationMode(): IsolationMode {
+  const isMode = (v: unknown): v is IsolationMode => v === 'stash' || v === 'worktree';
+
+  const cliFlag = process.argv.find(a => a.startsWith('--isolation='));
+  const cliValue = cliFlag?.split('=')[1];
+  if (isMode(cliValue)) return cliValue;
+  const envValue = process.env.PM_RUNNER_ISOLATION;
+  if (isMode(envValue)) return envValue;
+  try {
+    const cfgPath = path.join(os.homedir(), '.pm-orchestrator-runner', 'config.json');
+    if (fs.existsSync(cfgPath)) {
+      const cfg = JSON.parse(fs.readFileSync(cfgPath, 'utf-8')) as {
+        checkpoint?: { isolation?: string };
+      };
+      if (isMode(cfg?.checkpoint?.isolation)) return cfg.checkpoint!.isolation as IsolationMode;
+    }
+  } catch {
+    // ignore — fall through to default
+  }
+  return 'stash';
+}
+
+/**
+ * Read QA gate settings (spec/45_QA_GATES.md) with precedence:
+ *   1. CLI flag: --qa-gates=on|off
+ *   2. Env: PM_RUNNER_QA_GATES, PM_RUNNER_QA_FIX_ITERATIONS
+ *   3. ~/.pm-orchestrator-runner/config.json → qaGates.enabled / maxFixIterations / gates / timeoutMs
+ *   4. Default: enabled, 2 fix iterations, all gates, DEFAULT_QA_GATE_TIMEOUTS
+ */
+export function getQAGateConfig(): QAGateOptions & { enabled: boolean; maxFixIterations: number } {
+  const cfg = loadRunnerConfigFile();
+
+  const parseSwitch = (value: string | undefined): boolean | undefined =>
+    value === 'on' || value === '1' || value === 'true' ? true
+      : value === 'off' || value === '0' || value === 'false' ? false
+        : undefined;
+  const cliFlag = process.argv.find(a => a.startsWith('--qa-gates='));
+  const enabled =
+    parseSwitch(cliFlag?.split('=')[1]) ??
+    parseSwitch(process.env.PM_RUNNER_QA_GATES) ??
+    (typeof cfg.qaGates?.enabled === 'boolean' ? cfg.qaGates.enabled : true);
+
+  const envIterations = parseInt(process.env.PM_RUNNER_QA_FIX_ITERATIONS ?? '', 10);
+  const cfgIterations = cfg.qaGates?.maxFixIterations;
+  const maxFixIterations = Number.isInteger(envIterations) && envIterations >= 0
+    ? envIterations
+    : typeof cfgIterations === 'number' && Number.isInteger(cfgIterations) && cfgIterations >= 0 ? cfgIterations : 2;
+
+  const isGate = (v: unknown): v is QAGateName => QA_GATE_NAMES.includes(v as QAGateName);
+  const gates = Array.isArray(cfg.qaGates?.gates) ? cfg.qaGates.gates.filter(isGate) : undefined;
+  const timeouts: Partial<Record<QAGateName, number>> = {};
+  for (const [name, ms] of Object.entries(cfg.qaGates?.timeoutMs ?? {})) {
+    if (isGate(name) && typeof ms === 'number' && ms > 0) {
+      timeouts[name] = ms;
+    }
+  }
+
+  return { enabled, maxFixIterations, gates, timeouts };
+}
+
+/**
+ * Whether executor runs get the blast-radius PreToolUse hook (spec/47_BLAST_RADIUS_HOOK.md):
+ *   1. CLI flag: --safety-hook=on|off
+ *   2. Env: PM_RUNNER_SAFETY_HOOK
+ *   3. ~/.pm-orchestrator-runner/config.json → safety.hook
+ *   4. Default: on
+ */
+export function isSafetyHookEnabled(): boolean {
+  const parseSwitch = (value: string | undefined): boolean | undefined =>
+    value === 'on' || value === '1' || value === 'true' ? true
+      : value === 'off' || value === '0' || value === 'false' ? false
+        : undefined;
+  const cliFlag = process.argv.find(a => a.startsWith('--safety-hook='));
+  const fromFlagOrEnv = parseSwitch(cliFlag?.split('=')[1]) ?? parseSwitch(process.env.PM_RUNNER_SAFETY_HOOK);
+  if (fromFlagOrEnv !== undefined) return fromFlagOrEnv;
+  try {
+    const cfgPath = path.join(os.homedir(), '.pm-orchestrator-runner', 'config.json');
+    if (fs.existsSync(cfgPath)) {
+      const cfg = JSON.parse(fs.readFileSync(cfgPath, 'utf-8')) as { safety?: { hook?: unknown } };
+      if (typeof cfg.safety?.hook === 'boolean') return cfg.safety.hook;
+    }
+  } catch {
+    // ignore — fall through to default
+  }
+  return true;
+}
+
+/**
+ * Start the blast-radius hook endpoint; YELLOW calls are decided by the LLM mediator.
+ * Returns undefined when disabled or when the endpoint cannot be started
+ * (executor runs then rely on the prompt safety rules only).
+ */
+async function startBlastRadiusGuard(): Promise<BlastRadiusGuard | undefined> {
+  if (!isSafetyHookEnabled()) return undefined;
+  const guard = new BlastRadiusGuard({
+    judgeYellow: (call, context) => judgeYellowToolCall(call.tool, call.target, context.prompt),
+  });
+  try {
+    await guard.start();
+    log.sys.info('Blast-radius hook endpoint started', { endpoint: guard.endpoint });
+    return guard;
+  } catch (error) {
+    log.sys.warn('Blast-radius hook endpoint failed to start', { error: String(error) });
+    return undefined;
+  }
+}
+
 /**
  * Help text
  */
@@ -150,6 +385,8 @@ Commands:
   agent                  Start agent-only mode (QueuePoller + executor, no Web UI)
   daemon                 Daemon management (install, uninstall, status, logs)
   key                    API key management (generate, list, revoke)
+  migrate-store          Import file-based queue/DAL state into SQLite (one-shot)
+  replay <trace-dir>     Re-judge recorded stream traces with the current code
   selftest               Run selftest mode with AI judge
   start <path>           Start a new session on a project
   continue <session-id>  Continue a paused session
@@ -181,6 +418,8 @@ Web Options:
   --background           Start server in background (detached) mode
   --local-dynamodb       Use DynamoDB Local (localhost:8000) instead of AWS
   --file                 Use file-based persistent store instead of DynamoDB
+  --store <mode>         Store backend: dynamodb (default), file, memory, sqlite
+                         (env: PM_WEB_STORE_MODE)
   --auth                 Enable authentication mode (uses DynamoDB API keys)
   --api-key <key>        API key for authenticated mode (legacy, same as --auth)
 
@@ -198,6 +437,16 @@ Key Options:
 Web-Stop Options:
   --namespace <name>     Namespace of server to stop
 
+Migrate-Store Options:
+  --namespace <name>     Namespace whose state directory is migrated
+  --org <id>             Organization to import (default: ORG_ID or 'default')
+
+Replay Options:
+  --task <id>            Only replay stream-<id>.jsonl
+  --max-iterations <n>   Review loop max iterations (default: 3)
+  --json                 Print the report as JSON
+  Exits 1 when a verdict differs from the recorded run
+
 General Options:
   --help, -h             Show this help message
   --version, -v          Show version
@@ -413,7 +662,9 @@ async function startRepl(replArgs: ReplArguments): Promise<void> {
 /**
  * Queue store mode for Web server
  */
-type QueueStoreMode = 'file' | 'dynamodb' | 'memory';
+type QueueStoreMode = 'file' | 'dynamodb' | 'memory' | 'sqlite';
+
+const QUEUE_STORE_MODES: readonly QueueStoreMode[] = ['dynamodb', 'file', 'memory', 'sqlite'];
 
 /**
  * Web server arguments interface
@@ -423,7 +674,7 @@ interface WebArguments {
   namespace?: string;
   background?: boolean;
   noDynamodb?: boolean;
-  /** Queue store mode: dynamodb (default), file, or memory */
+  /** Queue store mode: dynamodb (default), file, memory, or sqlite */
   storeMode?: QueueStoreMode;
   /** Use DynamoDB Local (localhost:8000) instead of AWS */
   localDynamodb?: boolean;
@@ -483,6 +734,15 @@ function parseWebArgs(args: string[]): WebArguments {
     else if (arg === '--in-memory') {
       result.storeMode = 'memory';
     }
+    // Explicit store mode: --store dynamodb|file|memory|sqlite
+    else if (arg === '--store' && args[i + 1]) {
+      const mode = args[++i].toLowerCase() as QueueStoreMode;
+      if (!QUEUE_STORE_MODES.includes(mode)) {
+        console.error(`Invalid store: ${mode}. Must be one of: ${QUEUE_STORE_MODES.join(', ')}`);
+        process.exit(1);
+      }
+      result.storeMode = mode;
+    }
     // Local DynamoDB mode - use localhost:8000
     else if (arg === '--local-dynamodb') {
       result.localDynamodb = true;
@@ -614,22 +874,19 @@ function truncateForLog(input: string | undefined, maxLen: number): string {
  */
 /**
  * Record accumulated LLM usage from the current task execution as an activity event.
- * Collects pending usage from question-detector module, calculates cost, and writes
- * an llm_cost activity event to the DAL.
+ * Collects pending usage from question-detector module, calculates cost, adds the
+ * executor's own usage (Claude Code stream-json result), and writes an llm_cost
+ * activity event to the DAL.
  */
-async function recordTaskLlmCost(item: QueueItem): Promise<void> {
+async function recordTaskLlmCost(item: QueueItem, budgetGuard?: BudgetGuard, projectPath?: string, executorUsage?: TaskUsage): Promise<void> {
   const taskUsage = getPendingUsage();
-  if (taskUsage.length === 0) return;
+  if (taskUsage.length === 0 && !executorUsage) return;
 
-  let totalCostUsd = 0;
-  for (const u of taskUsage) {
-    const cost = calculateTokenCost(u.model, u.prompt_tokens, u.completion_tokens);
-    if (cost) totalCostUsd += cost.totalCost;
-  }
+  const llmCostUsd = llmUsageCostUsd(taskUsage);
+  const executorCostUsd = executorUsage?.total_cost_usd ?? 0;
+  const totalCostUsd = llmCostUsd + executorCostUsd;
 
-  if (totalCostUsd > 0 || taskUsage.length > 0) {
-    log.app.info('LLM usage recorded', { calls: taskUsage.length, costUsd: totalCostUsd.toFixed(4) });
-  }
+  log.app.info('LLM usage recorded', { calls: taskUsage.length, costUsd: totalCostUsd.toFixed(4), executorCostUsd: executorCostUsd.toFixed(4) });
 
   if (isDALInitialized()) {
     try {
@@ -637,10 +894,11 @@ async function recordTaskLlmCost(item: QueueItem): Promise<void> {
       await dal.createActivityEvent({
         orgId: process.env.ORG_ID || 'default',
         type: 'llm_cost',
-        summary: `LLM cost: $${totalCostUsd.toFixed(4)} (${taskUsage.length} calls)`,
+        summary: `LLM cost: $${totalCostUsd.toFixed(4)} (${taskUsage.length} calls${executorUsage ? ` + ${executorUsage.runs} executor runs` : ''})`,
         importance: 'low',
         details: {
           llm_usage: taskUsage,
+          ...(executorUsage ? { executor_usage: executorUsage } : {}),
           total_cost_usd: totalCostUsd,
           calls: taskUsage.length,
         },
@@ -651,19 +909,73 @@ async function recordTaskLlmCost(item: QueueItem): Promise<void> {
       // Silently ignore activity event write failures
     }
   }
+
+  // Spend counts against budget caps (per spec/40_BUDGETS.md)
+  if (budgetGuard) {
+    try {
+      await budgetGuard.recordSpend(item, llmCostUsd, 'llm', projectPath);
+      await budgetGuard.recordSpend(item, executorCostUsd, 'executor', projectPath);
+    } catch (error) {
+      log.sys.warn('Failed to record budget spend', { taskId: item.task_id, error: String(error) });
+    }
+  }
+}
+
+/**
+ * Total USD cost of LLM usage entries (models without pricing count as zero)
+ */
+function llmUsageCostUsd(usage: LlmUsageInfo[]): number {
+  let totalCostUsd = 0;
+  for (const u of usage) {
+    const cost = calculateTokenCost(u.model, u.prompt_tokens, u.completion_tokens);
+    if (cost) totalCostUsd += cost.totalCost;
+  }
+  return totalCostUsd;
 }
 
-function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskExecutor {
-  return async (item: QueueItem): Promise<{ status: 'COMPLETE' | 'ERROR' | 'WAITING_CHILDREN'; errorMessage?: string; output?: string }> => {
-    // Clear any stale pending usage from a previous task
-    getPendingUsage();
+function createTaskExecutor(projectPath: string, queueStore: IQueueStore, budgetGuard?: BudgetGuard, blastRadiusGuard?: BlastRadiusGuard): TaskExecutor {
+  const isolation = getTaskIsolationMode();
+  const qaGateConfig = getQAGateConfig();
+  const executeTask = async (item: QueueItem): ReturnType<TaskExecutor> => {
+    // Claude Code usage / cost of every executor run in this task, and the session of the last run
+    let executorUsage: TaskUsage | undefined;
+    let claudeSessionId: string | undefined;
+    const trackExecutorUsage = (result: { usage?: TaskUsage; sessionId?: string }) => {
+      if (result.usage) executorUsage = addTaskUsage(executorUsage, result.usage);
+      if (result.sessionId) claudeSessionId = result.sessionId;
+    };
+    let preToolUseHook: ExecutorHookConfig | undefined;
+    // Records the task diff (spec/46_TASK_DIFF.md) at most once; set up once a baseline is taken
+    let recordTaskDiff = (): void => {};
 
     try {
     log.app.info('Executing task', { taskId: item.task_id, promptPreview: item.prompt.substring(0, 100) });
 
+    // Budget caps (per spec/40_BUDGETS.md): pause before running over an exceeded budget,
+    // and refuse LLM calls once the task's own spend exceeds one
+    if (budgetGuard) {
+      const decision = await budgetGuard.checkTask(item, projectPath);
+      if (decision.action === 'pause') {
+        log.app.warn('Task paused: budget exceeded', { taskId: item.task_id, budgets: decision.exceeded.map(s => s.budget.name) });
+        return { status: 'ERROR', errorMessage: `AWAITING_CLARIFICATION:${decision.question}` };
+      }
+      if (decision.action === 'decline') {
+        return { status: 'ERROR', errorMessage: decision.reason };
+      }
+      setLlmBudgetGate(() => budgetGuard.allowLlmCall(
+        item,
+        projectPath,
+        llmUsageCostUsd(peekPendingUsage()) + (executorUsage?.total_cost_usd ?? 0)
+      ));
+    }
+
     // AC A.2: Get output stream for state transition logging
     const stateStream = getExecutorOutputStream();
 
+    // A reply / retry continues the previous run's Claude Code session (spec/49_SESSION_RESUME.md);
+    // the history replay prompt below is the fallback when that session is gone
+    const resumeSessionId = item.claude_session_id;
+
     // Build prompt including conversation history for re-execution after reply
     let effectivePrompt = item.prompt;
     if (item.conversation_history && item.conversation_history.length > 0) {
@@ -700,8 +1012,10 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
       contextParts.push('Continue from where you left off. The user has responded to your question above. Use the previous context to understand what was done before and what the user wants next.');
 
       effectivePrompt = contextParts.join('\n');
-      log.app.info('Re-executing with conversation history', { historyEntries: item.conversation_history.length, hasOutput: !!item.output, hasClarification: !!item.clarification?.question });
-      stateStream.emit(item.task_id, 'recovery', `[resume] re-executing with ${item.conversation_history.length} history entries`);
+      if (!resumeSessionId) {
+        log.app.info('Re-executing with conversation history', { historyEntries: item.conversation_history.length, hasOutput: !!item.output, hasClarification: !!item.clarification?.question });
+        stateStream.emit(item.task_id, 'recovery', `[resume] re-executing with ${item.conversation_history.length} history entries`);
+      }
 
       // Write conversation_history entries to trace file for Conversation Thread display
       try {
@@ -735,6 +1049,23 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
       } catch { /* ignore trace write errors */ }
     };
 
+    // Helper: trace every learned preference that answered a question, so wrong
+    // learnings can be traced back to their tasks (spec/52_USER_PREFERENCES.md)
+    const traceAppliedPreferences = (result: { appliedPreferences?: AppliedPreference[] }) => {
+      for (const applied of result.appliedPreferences ?? []) {
+        writeLlmTraceEvent({
+          type: 'llm_processing',
+          action: 'preference_applied',
+          preference_id: applied.preferenceId,
+          category: applied.category,
+          choice: applied.choice,
+          confidence: applied.confidence,
+          question: applied.question,
+          content: `Question auto-resolved by learned preference ${applied.preferenceId} (confidence ${applied.confidence.toFixed(2)}): "${applied.choice}"`,
+        });
+      }
+    };
+
     // Helper: enqueue deterministic pipeline subtasks (test/review) after the parent task's
     // implementation step completes. The Test and Review subtasks run with EXPLICIT scope
     // (the parent's original prompt + actual output) — no LLM invention, no hallucinated
@@ -880,8 +1211,17 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
     // Keep a strip pass for backwards compatibility with any legacy in-flight tasks.
     const promptForClaudeClean = promptForClaude.replace(/\n*\[PIPELINE:(TEST|REVIEW)\]/g, '');
 
-    // Inject TaskContext and OutputRules into the prompt for all Web Chat tasks
-    const enrichedPrompt = injectTaskContext(promptForClaudeClean, item);
+    // Inject TaskContext and OutputRules into the prompt for all Web Chat tasks,
+    // then the chat image attachments (spec/51_TASK_ATTACHMENTS.md)
+    const attachmentPrompt = item.attachments?.length
+      ? buildAttachmentPrompt(item.project_path || projectPath, item.attachments)
+      : '';
+    const enrichedPrompt = attachmentPrompt
+      ? `${injectTaskContext(promptForClaudeClean, item)}\n\n${attachmentPrompt}`
+      : injectTaskContext(promptForClaudeClean, item);
+    if (attachmentPrompt) {
+      writeLlmTraceEvent({ type: 'llm_processing', action: 'attachments', content: `${item.attachments?.length} image attachment(s) passed to Claude Code` });
+    }
     const promptPreview = truncateForLog(promptForClaudeClean, 300);
     // Resolve effective working directory: prefer project_path from queue item, fallback to runner's projectPath
     const effectiveWorkingDir = item.project_path || projectPath;
@@ -929,6 +1269,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
                 subtaskType,
                 item.project_path,
                 item.task_id,
+                { attachments: item.attachments },
               );
               subtaskIds.push(subtaskId);
             }
@@ -965,6 +1306,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
                   item.task_type,
                   item.project_path,
                   item.task_id,
+                  { attachments: item.attachments },
                 );
                 subtaskIds.push(subtaskId);
               }
@@ -984,11 +1326,15 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
     // checkpoint. This ensures that rollback of any descendant walks up to the
     // root and restores a single coherent pre-execution state.
     // See spec/36_LIVE_TASKS_AND_RECOVERY.md §5.
+    // With isolation 'worktree', root IMPLEMENTATION tasks run in their own git
+    // worktree instead; the worktree is merged back when the task succeeds.
     let checkpoint: Checkpoint | undefined;
     if (!item.parent_task_id) {
       // Root task: create a new checkpoint
       try {
-        const checkpointResult = await createCheckpoint(effectiveWorkingDir, item.task_id);
+        const checkpointResult = await createCheckpoint(effectiveWorkingDir, item.task_id, {
+          isolation: item.task_type === 'IMPLEMENTATION' ? isolation : 'stash',
+        });
         checkpoint = checkpointResult.checkpoint;
         if (checkpoint && checkpoint.type !== 'none') {
           log.app.info('Checkpoint created', { type: checkpoint.type, taskId: item.task_id });
@@ -1008,14 +1354,182 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
       try {
         const parent = await queueStore.getItem(item.parent_task_id);
         if (parent && parent.checkpoint_ref) {
-          checkpoint = JSON.parse(parent.checkpoint_ref) as Checkpoint;
-          stateStream.emit(item.task_id, 'system', `[checkpoint] Inherited from parent ${item.parent_task_id}`);
+          const parentCheckpoint = JSON.parse(parent.checkpoint_ref) as Checkpoint;
+          // A parent worktree has already been merged or kept for conflict resolution
+          if (parentCheckpoint.type !== 'git-worktree') {
+            checkpoint = parentCheckpoint;
+            stateStream.emit(item.task_id, 'system', `[checkpoint] Inherited from parent ${item.parent_task_id}`);
+          }
         }
       } catch (parentErr) {
         log.sys.warn('Failed to load parent checkpoint', { error: String(parentErr) });
       }
     }
 
+    // Worktree-isolated tasks execute inside the worktree
+    const executionDir = checkpoint?.type === 'git-worktree' && checkpoint.workingDir
+      ? checkpoint.workingDir
+      : effectiveWorkingDir;
+    if (executionDir !== effectiveWorkingDir) {
+      stateStream.emit(item.task_id, 'system', `[checkpoint] Executing in worktree ${executionDir} (branch ${checkpoint?.branch})`);
+    }
+
+    // Task diff (spec/46_TASK_DIFF.md): baseline of the directory a writing task changes.
+    // Recorded once, before the checkpoint is accepted or rolled back, or at the end of the run.
+    let diffBaseline = isWritingTask(item) ? captureDiffBaseline(executionDir) : null;
+    recordTaskDiff = (): void => {
+      if (!diffBaseline) return;
+      const baseline = diffBaseline;
+      diffBaseline = null;
+      try {
+        const diff = computeTaskDiff(item.task_id, baseline);
+        saveTaskDiff(effectiveWorkingDir, diff);
+        stateStream.emit(item.task_id, 'system', `[diff] ${diff.files.length} file(s) changed${diff.truncated ? ' (truncated)' : ''}`);
+      } catch (diffErr) {
+        log.sys.warn('Failed to record task diff', { taskId: item.task_id, error: String(diffErr) });
+      } finally {
+        releaseDiffBaseline(baseline);
+      }
+    };
+
+    // Blast-radius hook (spec/47_BLAST_RADIUS_HOOK.md): RED tool calls are blocked and put
+    // the task in AWAITING_RESPONSE; an approving reply allows exactly those calls
+    if (blastRadiusGuard) {
+      const lastReply = [...(item.conversation_history ?? [])].reverse().find(entry => entry.role === 'user');
+      const approved = isApprovalReply(lastReply?.content) ? parseBlockedToolCalls(item.clarification?.question) : [];
+      preToolUseHook = blastRadiusGuard.registerTask(item.task_id, { projectDir: executionDir, prompt: item.prompt, approved });
+      if (approved.length > 0) {
+        stateStream.emit(item.task_id, 'system', `[safety] Approved by user: ${approved.map(call => call.target).join('; ')}`);
+      }
+    }
+    const blockedToolCallsFailure = (output: string): { status: 'ERROR'; errorMessage: string; output: string } | null => {
+      if (!blastRadiusGuard || !preToolUseHook) return null;
+      const blocked = blastRadiusGuard.takeBlocked(preToolUseHook);
+      if (blocked.length === 0) return null;
+      log.app.warn('RED tool calls blocked', { taskId: item.task_id, calls: blocked });
+      stateStream.emit(item.task_id, 'system', `[safety] Blocked RED tool calls: ${blocked.map(call => call.target).join('; ')}`);
+      return { status: 'ERROR', errorMessage: 'AWAITING_CLARIFICATION:' + formatBlockedToolCalls(blocked), output };
+    };
+
+    // Finish the checkpoint of a successful task. A worktree is merged back into
+    // the main checkout here; on conflict it is kept and the user is asked to
+    // resolve it (AWAITING_RESPONSE).
+    const finishCheckpoint = async (output: string): Promise<{ status: 'ERROR'; errorMessage: string; output: string } | null> => {
+      // Record the task's diff before the checkpoint (or worktree) is gone
+      recordTaskDiff();
+      if (!checkpoint) return null;
+      if (checkpoint.type !== 'git-worktree') {
+        await cleanupCheckpoint(checkpoint);
+        return null;
+      }
+      const acceptResult = acceptWorktree(checkpoint);
+      if (acceptResult.success) {
+        stateStream.emit(item.task_id, 'system', `[checkpoint] Worktree merged into main checkout (${acceptResult.filesChanged.length} files)`);
+        // The worktree is gone: rollback now reverses the accepted commit
+        try {
+          await queueStore.setCheckpointRef(item.task_id, JSON.stringify({ ...checkpoint, acceptedCommit: acceptResult.acceptedCommit }));
+        } catch (persistErr) {
+          log.sys.warn('Failed to persist checkpoint_ref', { error: String(persistErr) });
+        }
+        return null;
+      }
+      log.app.warn('Worktree merge failed', { taskId: item.task_id, branch: checkpoint.branch, conflicts: acceptResult.conflicts, error: acceptResult.error });
+      stateStream.emit(item.task_id, 'system', `[checkpoint] ${acceptResult.error}`);
+      return {
+        status: 'ERROR',
+        errorMessage: `AWAITING_CLARIFICATION:[WORKTREE] ${acceptResult.error}. Merge branch ${checkpoint.branch} manually, or roll back the task to discard it.`,
+        output,
+      };
+    };
+
+    // Project-defined quality criteria (spec/25_REVIEW_LOOP.md Section 12). Definitions and
+    // results go into the stream trace so `pm replay` judges them as they were judged here.
+    const customCriteria = loadProjectQualityCriteria(effectiveWorkingDir);
+    const failedCustomCriteria = async (executorResult: ExecutorResult): Promise<CriteriaResult[]> => {
+      if (customCriteria.length === 0 || executorResult.status === 'ERROR' || executorResult.status === 'BLOCKED') return [];
+      const results = await evaluateCustomCriteria(executorResult, customCriteria, executionDir);
+      const failed = results.filter(cr => !cr.passed);
+      writeLlmTraceEvent({
+        type: 'llm_processing',
+        action: 'custom_criteria',
+        criteria: customCriteria,
+        results,
+        content: failed.length > 0
+          ? `Quality criteria failed: ${failed.map(cr => cr.name ?? cr.criteria_id).join(', ')}`
+          : `Quality criteria passed (${results.length})`,
+      });
+      for (const cr of failed) {
+        stateStream.emit(item.task_id, 'system', `[criteria] ${cr.name ?? cr.criteria_id}: FAIL (${cr.details ?? ''})`);
+      }
+      return failed;
+    };
+
+    // QA gates (spec/45_QA_GATES.md): once an IMPLEMENTATION task's changes are in the
+    // project directory, run the repo's lint/typecheck/test/build scripts. A FAILING
+    // verdict blocks COMPLETE and queues a fix iteration with the failing output.
+    const runQAGatesAfterCompletion = async (output: string): Promise<{ status: 'WAITING_CHILDREN' | 'ERROR'; errorMessage?: string; output: string } | null> => {
+      if (item.task_type !== 'IMPLEMENTATION' || !qaGateConfig.enabled) return null;
+      let report: QAGateReport;
+      try {
+        const gates = deriveQAGates(await scanRepoProfile(effectiveWorkingDir), qaGateConfig);
+        if (gates.length === 0) return null;
+        stateStream.emit(item.task_id, 'system', `[qa-gates] Running ${gates.map(gate => gate.name).join(', ')}...`);
+        report = await runQAGates(gates, effectiveWorkingDir);
+      } catch (gateErr) {
+        log.sys.warn('QA gates could not be run, skipping', { taskId: item.task_id, error: String(gateErr) });
+        return null;
+      }
+      await queueStore.recordQAGates(item.task_id, report).catch(error => {
+        log.sys.warn('Failed to record QA gates', { taskId: item.task_id, error: String(error) });
+      });
+      for (const gate of report.gates) {
+        stateStream.emit(item.task_id, 'system', `[qa-gates] ${gate.gate_name}: ${gate.failing > 0 ? 'FAIL' : 'PASS'} (passing=${gate.passing} failing=${gate.failing}${gate.timed_out ? ', timed out' : ''})`);
+      }
+      log.app.info('QA gates judged', { taskId: item.task_id, runId: report.run_id, status: report.verdict.final_status, failingGates: report.verdict.failing_gates });
+      if (report.verdict.final_status !== 'FAILING') return null;
+
+      const failures = formatQAGateFailures(report);
+      const gatedOutput = `${output}\n\n---\n${failures}`;
+      const attempt = qaFixAttempt(item.task_id);
+      if (attempt >= qaGateConfig.maxFixIterations) {
+        stateStream.emit(item.task_id, 'state', `[state] ERROR (QA gates failing after ${attempt} fix iteration(s))`);
+        return {
+          status: 'ERROR',
+          errorMessage: `QA gates failing after ${attempt} fix iteration(s): ${report.verdict.failing_gates.join(', ')}`,
+          output: gatedOutput,
+        };
+      }
+
+      // A retried task reaches the same fix number again: avoid the earlier fix task's id
+      const groupTaskIds = (await queueStore.getByTaskGroup(item.task_group_id).catch(() => [])).map(task => task.task_id);
+      const fixTaskId = qaFixTaskId(item.task_id, groupTaskIds);
+      const fixPrompt =
+        `[サブタスク (親タスク: ${item.task_id}) - QA Gate Fix ${attempt + 1}/${qaGateConfig.maxFixIterations}]\n\n` +
+        `親タスクの変更後に QA ゲートが失敗しました。以下の失敗がすべて解消するよう修正してください。\n\n` +
+        `## 親タスクの要求\n${item.prompt.trim()}\n\n` +
+        `## 失敗した QA ゲート\n${failures}\n\n` +
+        `**重要**: テストやリントルールを無効化・削除して通すことは禁止です。失敗の原因となっているコードを修正してください。`;
+      try {
+        await queueStore.enqueue(
+          item.session_id,
+          item.task_group_id,
+          fixPrompt,
+          fixTaskId,
+          'IMPLEMENTATION',
+          item.project_path,
+          item.task_id,
+          // The fix iteration takes over the user-requested pipeline
+          { addTest: item.add_test, addReview: item.add_review },
+        );
+      } catch (enqueueErr) {
+        log.sys.warn('Failed to enqueue QA fix iteration', { taskId: item.task_id, error: String(enqueueErr) });
+        return { status: 'ERROR', errorMessage: `QA gates failing: ${report.verdict.failing_gates.join(', ')}`, output: gatedOutput };
+      }
+      log.app.info('QA fix iteration enqueued', { taskId: fixTaskId, parentTaskId: item.task_id, failingGates: report.verdict.failing_gates });
+      stateStream.emit(item.task_id, 'state', `[state] WAITING_CHILDREN (QA fix iteration ${fixTaskId})`);
+      return { status: 'WAITING_CHILDREN', output: gatedOutput };
+    };
+
     try {
       // Check for test executor mode (for E2E testing of INCOMPLETE handling)
       const testMode = getTestExecutorMode();
@@ -1029,7 +1543,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         const result = await testExecutor.execute({
           id: item.task_id,
           prompt: enrichedPrompt,
-          workingDir: effectiveWorkingDir,
+          workingDir: executionDir,
           taskType: item.task_type || 'READ_INFO', // Default to READ_INFO for chat messages
         });
 
@@ -1123,7 +1637,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
       );
 
       const executor = new AutoResolvingExecutor({
-        projectPath: effectiveWorkingDir,
+        projectPath: executionDir,
         timeout: timeoutProfile.hard_timeout_ms, // overall safety net (progress-aware if enabled)
         softTimeoutMs: timeoutProfile.idle_timeout_ms, // warning only (for logging)
         silenceLogIntervalMs: Math.min(timeoutProfile.idle_timeout_ms / 2, 30 * 1000), // silence logging interval (NOT termination)
@@ -1132,20 +1646,70 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         maxRetries: 2, // Allow 2 retry attempts for auto-resolution
       });
 
-      const result = await executor.execute({
+      const runMain = (prompt: string, sessionId: string | undefined) => executor.execute({
         id: item.task_id,
-        prompt: enrichedPrompt,
-        workingDir: effectiveWorkingDir,
+        prompt,
+        workingDir: executionDir,
         taskType: item.task_type, // Propagate task type for READ_INFO/REPORT handling
         taskGroupId: item.task_group_id, // For process registry / ghost detection
         projectPath: item.project_path || effectiveWorkingDir,
+        preToolUseHook,
+        resumeSessionId: sessionId,
+        persistSession: true, // a reply / retry may resume it (spec/49_SESSION_RESUME.md)
       });
 
+      let result: ExecutorResult;
+      if (resumeSessionId) {
+        // The session already holds the task, the earlier work and the question:
+        // send only the user's reply (or a retry notice). A reply is new only if it came after
+        // the session was recorded; an older one was already sent (e.g. retry after a reply).
+        const lastUserReply = [...(item.conversation_history ?? [])].reverse().find(entry => entry.role === 'user');
+        const pendingReply = lastUserReply && (!item.claude_session_at || lastUserReply.timestamp > item.claude_session_at)
+          ? lastUserReply
+          : undefined;
+        const resumePrompt = pendingReply
+          ? `The user replied to your question:\n\n${pendingReply.content}\n\nContinue the task.`
+          : 'The previous run of this task did not finish. Continue the task from where you left off.';
+        log.app.info('Resuming Claude Code session', { taskId: item.task_id, sessionId: resumeSessionId });
+        stateStream.emit(item.task_id, 'recovery', `[resume] resuming Claude Code session ${resumeSessionId}`);
+        writeLlmTraceEvent({ type: 'llm_processing', action: 'session_resume', session_id: resumeSessionId, content: `Resuming Claude Code session ${resumeSessionId}` });
+        result = await runMain(injectTaskContext(resumePrompt, item), resumeSessionId);
+        trackExecutorUsage(result);
+        traceAppliedPreferences(result);
+        if (result.sessionNotFound) {
+          log.app.warn('Claude Code session not found, replaying conversation history', { taskId: item.task_id, sessionId: resumeSessionId });
+          stateStream.emit(item.task_id, 'recovery', `[resume] session ${resumeSessionId} not found; re-executing with ${item.conversation_history?.length ?? 0} history entries`);
+          writeLlmTraceEvent({ type: 'llm_processing', action: 'session_resume_fallback', session_id: resumeSessionId, content: 'Claude Code session not found. Replaying conversation history instead.' });
+          result = await runMain(enrichedPrompt, undefined);
+          trackExecutorUsage(result);
+          traceAppliedPreferences(result);
+        }
+      } else {
+        result = await runMain(enrichedPrompt, undefined);
+        trackExecutorUsage(result);
+        traceAppliedPreferences(result);
+      }
+
       log.app.info('Task execution completed', { taskId: item.task_id, status: result.status });
 
+      // Usage limit: the poller re-queues the task and pauses until the reset (spec/50_USAGE_LIMIT_PAUSE.md).
+      // Changes are kept; the re-run resumes the Claude Code session.
+      if (result.usageLimit) {
+        const resetText = result.usageLimit.resetAt ?? 'unknown';
+        log.app.warn('Claude Code usage limit reached', { taskId: item.task_id, resetAt: resetText, message: result.usageLimit.message });
+        stateStream.emit(item.task_id, 'state', `[state] QUEUED (usage limit reached, resets ${resetText})`);
+        writeLlmTraceEvent({ type: 'llm_processing', action: 'usage_limit', content: `Claude Code usage limit reached (resets ${resetText}): ${result.usageLimit.message}` });
+        return { status: 'ERROR', errorMessage: result.error || result.usageLimit.message, usageLimit: result.usageLimit };
+      }
+
       // Post-process: prefer human-readable assistantOutput over raw output
       let rawOutput = result.assistantOutput || result.output || '';
       let cleanOutput = stripPmOrchestratorBlocks(rawOutput);
+      const blockedFailure = blockedToolCallsFailure(cleanOutput);
+      if (blockedFailure) { return blockedFailure; }
+
+      // Project-defined criteria join the QA rework below; still failing afterwards blocks COMPLETE
+      let customFailures = await failedCustomCriteria(result);
 
       // ── LLM Relay Step 2: Output QA Evaluation + Rework Loop ──
       // Evaluate if Claude Code's output satisfactorily completes the user's request.
@@ -1155,7 +1719,20 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
           stateStream.emit(item.task_id, 'system', `[llm-relay] Evaluating output quality...`);
           writeLlmTraceEvent({ type: 'llm_processing', action: 'qa_start', content: 'Evaluating output quality...' });
           let qaResult = await evaluateOutputQuality(cleanOutput, item.prompt, undefined, undefined);
-
+          if (customFailures.length > 0) {
+            qaResult = {
+              ...qaResult,
+              passed: false,
+              issues: [
+                ...(qaResult.passed ? [] : qaResult.issues),
+                ...customFailures.map(cr => `${cr.name ?? cr.criteria_id}: ${cr.details ?? 'failed'}`),
+              ],
+              reworkInstructions: [
+                qaResult.passed ? '' : qaResult.reworkInstructions,
+                ...customFailures.map(cr => cr.suggestion ?? `Make "${cr.name ?? cr.criteria_id}" pass.`),
+              ].filter(Boolean).join('\n'),
+            };
+          }
 
           if (!qaResult.passed && qaResult.reworkInstructions) {
             log.app.info('QA failed, re-executing with rework', { taskId: item.task_id, issues: qaResult.issues });
@@ -1167,7 +1744,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
             const reworkEnriched = injectTaskContext(reworkPrompt, item);
 
             const reworkExecutor = new AutoResolvingExecutor({
-              projectPath: effectiveWorkingDir,
+              projectPath: executionDir,
               timeout: timeoutProfile.hard_timeout_ms,
               softTimeoutMs: timeoutProfile.idle_timeout_ms,
               silenceLogIntervalMs: Math.min(timeoutProfile.idle_timeout_ms / 2, 30 * 1000),
@@ -1179,12 +1756,20 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
             const reworkResult = await reworkExecutor.execute({
               id: item.task_id,
               prompt: reworkEnriched,
-              workingDir: effectiveWorkingDir,
+              workingDir: executionDir,
               taskType: item.task_type,
+              preToolUseHook,
             });
+            trackExecutorUsage(reworkResult);
+            traceAppliedPreferences(reworkResult);
+            if (customFailures.length > 0) {
+              customFailures = await failedCustomCriteria(reworkResult);
+            }
 
             const reworkRaw = reworkResult.assistantOutput || reworkResult.output || '';
             const reworkClean = stripPmOrchestratorBlocks(reworkRaw);
+            const reworkBlocked = blockedToolCallsFailure(reworkClean);
+            if (reworkBlocked) { return reworkBlocked; }
 
             if (reworkClean && reworkClean.trim().length > 0) {
               log.app.info('Rework produced output', { taskId: item.task_id, outputLen: reworkClean.length });
@@ -1206,6 +1791,16 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         }
       }
 
+      if (customFailures.length > 0) {
+        const failedIds = customFailures.map(cr => cr.criteria_id).join(', ');
+        stateStream.emit(item.task_id, 'state', `[state] ERROR (quality criteria failing: ${failedIds})`);
+        return {
+          status: 'ERROR',
+          errorMessage: `Quality criteria failing: ${failedIds}`,
+          output: `${cleanOutput}\n\n---\n${customFailures.map(cr => `- ${cr.name ?? cr.criteria_id}: ${cr.details ?? 'failed'}`).join('\n')}`,
+        };
+      }
+
       // ── Claim Verification: check for unverified technical claims ──
       // This is a WARNING only, not a blocker. Output is still returned as COMPLETE.
       if (cleanOutput && cleanOutput.trim().length > 0 && result.status !== 'ERROR') {
@@ -1263,7 +1858,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
             const reEnriched = injectTaskContext(rePrompt, item);
 
             const reExecutor = new AutoResolvingExecutor({
-              projectPath: effectiveWorkingDir,
+              projectPath: executionDir,
               timeout: timeoutProfile.hard_timeout_ms,
               softTimeoutMs: timeoutProfile.idle_timeout_ms,
               silenceLogIntervalMs: Math.min(timeoutProfile.idle_timeout_ms / 2, 30 * 1000),
@@ -1275,12 +1870,17 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
             const reResult = await reExecutor.execute({
               id: item.task_id,
               prompt: reEnriched,
-              workingDir: effectiveWorkingDir,
+              workingDir: executionDir,
               taskType: item.task_type,
+              preToolUseHook,
             });
+            trackExecutorUsage(reResult);
+            traceAppliedPreferences(reResult);
 
             const reRaw = reResult.assistantOutput || reResult.output || '';
             const reClean = stripPmOrchestratorBlocks(reRaw);
+            const reBlocked = blockedToolCallsFailure(reClean);
+            if (reBlocked) { return reBlocked; }
 
             if (reClean && reClean.trim().length > 0) {
               // Check if retry output also has questions (escalate to user if so)
@@ -1307,7 +1907,10 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
 
               log.app.info('Auto-answer retry succeeded', { taskId: item.task_id });
               stateStream.emit(item.task_id, 'state', `[state] COMPLETE (auto-answer resolved)`);
-              if (checkpoint) { await cleanupCheckpoint(checkpoint); }
+              const acceptFailure = await finishCheckpoint(reClean);
+              if (acceptFailure) { return acceptFailure; }
+              const gateFailure = await runQAGatesAfterCompletion(reClean);
+              if (gateFailure) { return gateFailure; }
               const enqueuedAfterAutoAnswer = await enqueuePipelineSubtasks(item.prompt, reClean);
               if (enqueuedAfterAutoAnswer.length > 0) {
                 stateStream.emit(item.task_id, 'state', `[state] WAITING_CHILDREN (${enqueuedAfterAutoAnswer.length} pipeline subtasks)`);
@@ -1353,7 +1956,10 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         // Return output for visibility in UI (AC-CHAT-001, AC-CHAT-002)
         stateStream.emit(item.task_id, 'state', `[state] COMPLETE`);
         // Clean up checkpoint on success
-        if (checkpoint) { await cleanupCheckpoint(checkpoint); }
+        const acceptFailure = await finishCheckpoint(cleanOutput);
+        if (acceptFailure) { return acceptFailure; }
+        const gateFailure = await runQAGatesAfterCompletion(cleanOutput);
+        if (gateFailure) { return gateFailure; }
         const enqueuedCompleteIds = await enqueuePipelineSubtasks(item.prompt, cleanOutput);
         if (enqueuedCompleteIds.length > 0) {
           stateStream.emit(item.task_id, 'state', `[state] WAITING_CHILDREN (${enqueuedCompleteIds.length} pipeline subtasks)`);
@@ -1365,6 +1971,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         // Rollback on failure
         if (checkpoint && checkpoint.type !== 'none') {
           log.app.warn('Rolling back checkpoint for failed task', { taskId: item.task_id, checkpointType: checkpoint.type });
+          recordTaskDiff();
           stateStream.emit(item.task_id, 'system', `[checkpoint] Rolling back changes...`);
           const rbResult = await rollback(checkpoint);
           if (rbResult.success) {
@@ -1390,7 +1997,8 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
           // Output exists, no questions -> task succeeded (COMPLETE)
           log.app.info('READ_INFO/REPORT with output, transitioning to COMPLETE', { taskId: item.task_id, status: result.status });
           stateStream.emit(item.task_id, 'state', `[state] COMPLETE (${result.status} with output)`);
-          if (checkpoint) { await cleanupCheckpoint(checkpoint); }
+          const acceptFailure = await finishCheckpoint(cleanOutput);
+          if (acceptFailure) { return acceptFailure; }
           const enqueuedReadInfoIds = await enqueuePipelineSubtasks(item.prompt, cleanOutput);
           if (enqueuedReadInfoIds.length > 0) {
             stateStream.emit(item.task_id, 'state', `[state] WAITING_CHILDREN (${enqueuedReadInfoIds.length} pipeline subtasks)`);
@@ -1425,7 +2033,10 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         if (result.executed && hasOutput) {
           log.app.info('Task with exit=0 and output, file verification override to COMPLETE', { taskId: item.task_id, taskType, status: result.status });
           stateStream.emit(item.task_id, 'state', `[state] COMPLETE (${taskType} ${result.status}, exit=0 override)`);
-          if (checkpoint) { await cleanupCheckpoint(checkpoint); }
+          const acceptFailure = await finishCheckpoint(cleanOutput);
+          if (acceptFailure) { return acceptFailure; }
+          const gateFailure = await runQAGatesAfterCompletion(cleanOutput);
+          if (gateFailure) { return gateFailure; }
           const enqueuedOverrideIds = await enqueuePipelineSubtasks(item.prompt, cleanOutput);
           if (enqueuedOverrideIds.length > 0) {
             stateStream.emit(item.task_id, 'state', `[state] WAITING_CHILDREN (${enqueuedOverrideIds.length} pipeline subtasks)`);
@@ -1440,6 +2051,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
         // Rollback on failure
         if (checkpoint && checkpoint.type !== 'none') {
           log.app.warn('Rolling back checkpoint for failed task', { taskId: item.task_id, checkpointType: checkpoint.type });
+          recordTaskDiff();
           stateStream.emit(item.task_id, 'system', `[checkpoint] Rolling back changes...`);
           const rbResult = await rollback(checkpoint);
           if (rbResult.success) {
@@ -1461,6 +2073,7 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
       // Rollback on failure
       if (checkpoint && checkpoint.type !== 'none') {
         log.app.warn('Rolling back checkpoint for failed task', { taskId: item.task_id, checkpointType: checkpoint.type });
+        recordTaskDiff();
         stateStream.emit(item.task_id, 'system', `[checkpoint] Rolling back changes...`);
         try {
           const rbResult = await rollback(checkpoint);
@@ -1476,10 +2089,27 @@ function createTaskExecutor(projectPath: string, queueStore: IQueueStore): TaskE
       return { status: 'ERROR', errorMessage };
     }
     } finally {
-      // Record accumulated LLM usage regardless of success/failure
-      await recordTaskLlmCost(item).catch(() => {});
+      // Failed and AWAITING_RESPONSE runs are recorded too
+      recordTaskDiff();
+      if (preToolUseHook) blastRadiusGuard?.finishTask(preToolUseHook);
+      // Keep the last run's session for a later reply / retry. Recorded after every run,
+      // so replies up to now count as sent to the session.
+      if (claudeSessionId) {
+        await queueStore.setClaudeSessionId(item.task_id, claudeSessionId).catch(error => {
+          log.sys.warn('Failed to record Claude Code session', { taskId: item.task_id, error: String(error) });
+        });
+      }
+      // Persist executor usage on the task and record accumulated LLM usage regardless of success/failure
+      if (executorUsage) {
+        await queueStore.recordUsage(item.task_id, executorUsage).catch(error => {
+          log.sys.warn('Failed to record task usage', { taskId: item.task_id, error: String(error) });
+        });
+      }
+      await recordTaskLlmCost(item, budgetGuard, projectPath, executorUsage).catch(() => {});
     }
   };
+  // Tasks run concurrently: each gets its own LLM usage accumulator and budget gate
+  return item => runWithLlmTaskContext(() => executeTask(item));
 }
 
 /**
@@ -1688,9 +2318,9 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
   if (webArgs.storeMode) {
     storeMode = webArgs.storeMode;
   } else if (process.env.PM_WEB_STORE_MODE) {
-    const envMode = process.env.PM_WEB_STORE_MODE.toLowerCase();
-    if (envMode === 'dynamodb' || envMode === 'file' || envMode === 'memory') {
-      storeMode = envMode as QueueStoreMode;
+    const envMode = process.env.PM_WEB_STORE_MODE.toLowerCase() as QueueStoreMode;
+    if (QUEUE_STORE_MODES.includes(envMode)) {
+      storeMode = envMode;
     }
   } else if (webArgs.noDynamodb || process.env.PM_WEB_NO_DYNAMODB === '1') {
     // Legacy support for --no-dynamodb flag
@@ -1702,14 +2332,25 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
 
   // Create appropriate queue store based on mode
   let queueStore: IQueueStore;
-  let queueStoreType: 'file' | 'dynamodb' | 'memory';
+  let queueStoreType: QueueStoreMode;
 
   if (storeMode === 'memory') {
     console.log('[QueueStore] Using in-memory store (non-persistent)');
     queueStore = new InMemoryQueueStore({
       namespace: namespaceConfig.namespace,
+      fairShare: getQueueFairShareConfig(),
     });
     queueStoreType = 'memory';
+  } else if (storeMode === 'sqlite') {
+    const sqliteStore = new SQLiteQueueStore({
+      namespace: namespaceConfig.namespace,
+      stateDir: effectiveStateDir,
+      fairShare: getQueueFairShareConfig(),
+    });
+    await sqliteStore.ensureTable();
+    queueStore = sqliteStore;
+    queueStoreType = 'sqlite';
+    console.log(`[QueueStore] Using SQLite store: ${sqliteStore.getEndpoint()}`);
   } else if (storeMode === 'dynamodb') {
     // Try to create DynamoDB-based store with fallback to file on connection error
     const useLocalDynamodb = webArgs.localDynamodb || process.env.PM_LOCAL_DYNAMODB === '1';
@@ -1717,6 +2358,7 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
       const dynamoStore = new QueueStore({
         namespace: namespaceConfig.namespace,
         localDynamodb: useLocalDynamodb,
+        fairShare: getQueueFairShareConfig(),
       });
       await dynamoStore.ensureTable();
       queueStore = dynamoStore;
@@ -1735,6 +2377,7 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
         const fileStore = new FileQueueStore({
           namespace: namespaceConfig.namespace,
           stateDir: effectiveStateDir,
+          fairShare: getQueueFairShareConfig(),
         });
         await fileStore.ensureTable();
         queueStore = fileStore;
@@ -1749,6 +2392,7 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
     const fileStore = new FileQueueStore({
       namespace: namespaceConfig.namespace,
       stateDir: effectiveStateDir,
+      fairShare: getQueueFairShareConfig(),
     });
     await fileStore.ensureTable();
     queueStore = fileStore;
@@ -1756,12 +2400,29 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
     console.log(`[QueueStore] Using file store: ${fileStore.getEndpoint()}`);
   }
 
+  // Outbound webhooks fire on task status transitions (per spec/39_WEBHOOKS.md)
+  const webhookDispatcher = new WebhookDispatcher({
+    store: new WebhookStore({ stateDir: effectiveStateDir }),
+    orgId: process.env.ORG_ID || 'default',
+  });
+
+  // Queue changes are pushed to the Web UI over SSE (per spec/20_QUEUE_STORE.md).
+  // Webhooks share the same status observer.
+  const queueEventStream = new QueueEventStream();
+  queueStore = observeQueueEvents(queueStore, queueEventStream, {
+    onStatusTransition: transition => webhookDispatcher.notifyTaskTransition(transition),
+  });
+
+  // Budget caps are checked before each task run and LLM call (per spec/40_BUDGETS.md)
+  const budgetGuard = new BudgetGuard({ store: new BudgetStore({ stateDir: effectiveStateDir }) });
+
   // =========================================================================
   // Initialize DAL (Data Access Layer) - unified abstraction over NoDynamo/DynamoDB
   // =========================================================================
   const useLocalDynamodbForDAL = webArgs.localDynamodb || process.env.PM_LOCAL_DYNAMODB === '1';
   initDAL({
     useDynamoDB: queueStoreType === 'dynamodb',
+    useSQLite: queueStoreType === 'sqlite',
     stateDir: effectiveStateDir,
     localDynamodb: useLocalDynamodbForDAL,
     orgId: process.env.ORG_ID || 'default',
@@ -1839,13 +2500,19 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
   }
 
   // Create TaskExecutor and QueuePoller
-  const taskExecutor = createTaskExecutor(projectPath, queueStore);
+  const blastRadiusGuard = await startBlastRadiusGuard();
+  const taskExecutor = createTaskExecutor(projectPath, queueStore, budgetGuard, blastRadiusGuard);
+  // Operator pause / drain, shared with the Web UI and REPL (spec/53_QUEUE_CONTROLS.md)
+  const queueControls = new QueueControlStore({ stateDir: effectiveStateDir });
   const poller = new QueuePoller(queueStore, taskExecutor, {
     pollIntervalMs: 1000,
     recoverOnStartup: true,
     projectRoot: projectPath,
     maxStaleTaskAgeMs: getStaleThresholdMs(), // v2.3: configurable, default 10 min (spec/36 §7)
+    ...getQueueConcurrencyConfig(),
+    controls: queueControls,
   });
+  publishRunnerHeartbeats(poller, queueEventStream);
 
   // Self-restart handler for Web UI (Build & Restart)
   let serverRef: WebServer | null = null;
@@ -1946,6 +2613,8 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
           args.push('--dynamodb');
         } else if (storeMode === 'memory') {
           args.push('--in-memory');
+        } else if (storeMode === 'sqlite') {
+          args.push('--store', 'sqlite');
         }
         if (webArgs.localDynamodb) {
           args.push('--local-dynamodb');
@@ -2111,6 +2780,10 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
             parentItem.output
           );
           log.app.info('Parent transitioning to AWAITING_RESPONSE (child awaiting)', { parentTaskId: item.parent_task_id });
+          // Nested parents (e.g. QA fix iterations) wait on their own parent
+          if (parentItem.parent_task_id) {
+            await aggregateParentConversation({ ...parentItem, status: 'AWAITING_RESPONSE' });
+          }
         } catch (transitionErr) {
           log.sys.warn('Failed to propagate AWAITING to parent', { parentTaskId: item.parent_task_id, error: String(transitionErr) });
         }
@@ -2181,6 +2854,10 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
         }
       }
       log.app.info('Aggregated parent task conversation', { parentTaskId: item.parent_task_id, status: parentFinalStatus });
+      // A nested parent that just finished lets its own parent resolve (QA fix iterations, spec/45_QA_GATES.md)
+      if (parentItem?.parent_task_id) {
+        await aggregateParentConversation({ ...parentItem, status: parentFinalStatus });
+      }
     } catch (err) {
       log.sys.error('Failed to aggregate parent conversation', { parentTaskId: item.parent_task_id, error: String(err) });
     }
@@ -2222,6 +2899,14 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
   const detachProgressPersistence = attachQueueProgressPersistence(queueStore, outputStream);
   detachProgressPersistenceRef = detachProgressPersistence;
 
+  // Scheduler: enqueues cron-triggered tasks (per spec/38_SCHEDULED_TASKS.md)
+  const scheduler = new Scheduler({
+    store: new ScheduleStore({ stateDir: effectiveStateDir }),
+    queueStore,
+    sessionId: webSessionId,
+    templateStore: new TemplateStore({ storageDir: effectiveStateDir }),
+  });
+
   // Set up API key authentication
   // Supports: --auth (flag only), --api-key <key> (legacy), AUTH_ENABLED=true (.env)
   const authRequested = webArgs.authEnabled || webArgs.apiKey || process.env.AUTH_ENABLED === 'true';
@@ -2263,6 +2948,12 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
     queueStoreType,
     runnerRestartHandler,
     authConfig,
+    getPollerState: () => poller.getState(),
+    scheduler,
+    webhookDispatcher,
+    budgetGuard,
+    queueEventStream,
+    queueControls,
   });
   serverRef = server;
 
@@ -2291,6 +2982,8 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
   } else {
     await poller.start();
   }
+  // Catch-up for runs missed while the runner was down happens on the first tick
+  await scheduler.start();
 
   // Self-test mode: PM_AUTO_SELFTEST=true
   if (process.env.PM_AUTO_SELFTEST === 'true') {
@@ -2304,6 +2997,7 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
 
     // Graceful shutdown after selftest
     detachProgressPersistence();
+    await scheduler.stop();
     await poller.stop();
     await server.stop();
 
@@ -2319,7 +3013,9 @@ async function startWebServer(webArgs: WebArguments): Promise<void> {
   const shutdown = async () => {
     log.sys.info('Shutting down...');
     detachProgressPersistence();
+    await scheduler.stop();
     await poller.stop();
+    await blastRadiusGuard?.stop();
     await server.stop();
     log.sys.info('Shutdown complete');
     process.exit(0);
@@ -2552,6 +3248,7 @@ async function startAgentOnly(agentArgs: AgentArguments): Promise<void> {
     const dynamoStore = new QueueStore({
       namespace: namespaceConfig.namespace,
       localDynamodb: useLocalDynamodb,
+      fairShare: getQueueFairShareConfig(),
     });
     await dynamoStore.ensureTable();
     queueStore = dynamoStore;
@@ -2567,6 +3264,16 @@ async function startAgentOnly(agentArgs: AgentArguments): Promise<void> {
     process.exit(1);
   }
 
+  // Webhooks configured in this machine's Web UI also fire for tasks the agent runs
+  const webhookDispatcher = new WebhookDispatcher({
+    store: new WebhookStore({ stateDir: namespaceConfig.stateDir }),
+    orgId: process.env.ORG_ID || 'default',
+  });
+  queueStore = observeStatusTransitions(queueStore, transition => webhookDispatcher.notifyTaskTransition(transition));
+
+  // Budgets configured in this machine's Web UI also cap tasks the agent runs
+  const budgetGuard = new BudgetGuard({ store: new BudgetStore({ stateDir: namespaceConfig.stateDir }) });
+
   // Validate API key if provided
   if (agentArgs.apiKey) {
     const apiKeyManager = initApiKeyManager({ localDynamodb: useLocalDynamodb });
@@ -2594,7 +3301,8 @@ async function startAgentOnly(agentArgs: AgentArguments): Promise<void> {
   }
 
   // Create TaskExecutor and QueuePoller
-  const taskExecutor = createTaskExecutor(projectPath, queueStore);
+  const blastRadiusGuard = await startBlastRadiusGuard();
+  const taskExecutor = createTaskExecutor(projectPath, queueStore, budgetGuard, blastRadiusGuard);
   const outputStream = getExecutorOutputStream();
   const detachPersistence = attachQueueProgressPersistence(queueStore, outputStream);
 
@@ -2603,6 +3311,8 @@ async function startAgentOnly(agentArgs: AgentArguments): Promise<void> {
     recoverOnStartup: true,
     projectRoot: projectPath,
     maxStaleTaskAgeMs: getStaleThresholdMs(), // v2.3: configurable, default 10 min (spec/36 §7)
+    ...getQueueConcurrencyConfig(),
+    controls: new QueueControlStore({ stateDir: namespaceConfig.stateDir }),
   });
 
   poller.on('started', () => log.sys.info('Agent queue poller started'));
@@ -2627,6 +3337,7 @@ async function startAgentOnly(agentArgs: AgentArguments): Promise<void> {
     stopAutoUpdate?.();
     detachPersistence();
     await poller.stop();
+    await blastRadiusGuard?.stop();
     log.sys.info('Agent shutdown complete');
     process.exit(0);
   };
@@ -2637,7 +3348,7 @@ async function startAgentOnly(agentArgs: AgentArguments): Promise<void> {
 
 /**
  * Handle `pm key` sub-commands
- * pm key generate --user <userId> --device <deviceName> [--local-dynamodb]
+ * pm key generate --user <userId> --device <deviceName> [--role <role>] [--project <path>]... [--local-dynamodb]
  * pm key list --user <userId> [--local-dynamodb]
  * pm key revoke <key> [--local-dynamodb]
  */
@@ -2655,7 +3366,9 @@ Commands:
   pm key revoke <key>                                    Revoke an API key
 
 Options:
-  --local-dynamodb  Use DynamoDB Local (localhost:8000) instead of AWS
+  --role <role>       Role of the generated key: admin | viewer | guest (default: admin)
+  --project <path>    Limit the generated key to a project path (repeatable)
+  --local-dynamodb    Use DynamoDB Local (localhost:8000) instead of AWS
 `);
     process.exit(0);
   }
@@ -2669,19 +3382,29 @@ Options:
       .with('generate', async () => {
         let userId = '';
         let deviceName = '';
+        let role = 'admin';
+        const projectPaths: string[] = [];
         for (let i = 1; i < args.length; i++) {
           if (args[i] === '--user' && args[i + 1]) userId = args[++i];
           else if (args[i] === '--device' && args[i + 1]) deviceName = args[++i];
+          else if (args[i] === '--role' && args[i + 1]) role = args[++i];
+          else if (args[i] === '--project' && args[i + 1]) projectPaths.push(path.resolve(args[++i]));
         }
         if (!userId || !deviceName) {
-          console.error('Usage: pm key generate --user <userId> --device <deviceName>');
+          console.error('Usage: pm key generate --user <userId> --device <deviceName> [--role <role>] [--project <path>]');
+          process.exit(1);
+        }
+        if (role !== 'admin' && role !== 'viewer' && role !== 'guest') {
+          console.error(`Invalid role: ${role}. Valid: admin, viewer, guest`);
           process.exit(1);
         }
-        const apiKey = await manager.generateApiKey(userId, deviceName);
+        const apiKey = await manager.generateApiKey(userId, deviceName, { role, projectPaths });
         console.log('API Key generated:');
-        console.log(`  Key:    ${apiKey.key}`);
-        console.log(`  User:   ${apiKey.userId}`);
-        console.log(`  Device: ${apiKey.deviceName}`);
+        console.log(`  Key:      ${apiKey.key}`);
+        console.log(`  User:     ${apiKey.userId}`);
+        console.log(`  Device:   ${apiKey.deviceName}`);
+        console.log(`  Role:     ${apiKey.role}`);
+        console.log(`  Projects: ${apiKey.projectPaths ? apiKey.projectPaths.join(', ') : 'all'}`);
         console.log('');
         console.log('Save this key - it cannot be retrieved later.');
         console.log(`Usage: pm web --api-key ${apiKey.key}`);
@@ -2703,7 +3426,8 @@ Options:
           for (const key of keys) {
             const status = key.isActive ? 'active' : 'revoked';
             const keyPreview = key.key.substring(0, 12) + '...';
-            console.log(`  ${keyPreview}  device=${key.deviceName}  status=${status}  lastUsed=${key.lastUsedAt}`);
+            const projects = key.projectPaths ? key.projectPaths.join(',') : 'all';
+            console.log(`  ${keyPreview}  device=${key.deviceName}  role=${key.role ?? 'admin'}  projects=${projects}  status=${status}  lastUsed=${key.lastUsedAt}`);
           }
         }
       })
@@ -2728,6 +3452,83 @@ Options:
   process.exit(0);
 }
 
+/**
+ * Handle `pm migrate-store [--namespace <name>] [--org <id>]`
+ * Imports FileQueueStore and NoDynamo state into {stateDir}/pm-runner.sqlite.
+ */
+async function handleMigrateStoreCommand(args: string[]): Promise<void> {
+  let namespace: string | undefined;
+  let orgId = process.env.ORG_ID || 'default';
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--namespace' && args[i + 1]) {
+      namespace = args[++i];
+      const error = validateNamespace(namespace);
+      if (error) {
+        console.error(`Invalid namespace: ${error}`);
+        process.exit(1);
+      }
+    } else if (args[i] === '--org' && args[i + 1]) {
+      orgId = args[++i];
+    }
+  }
+
+  const namespaceConfig = buildNamespaceConfig({
+    autoDerive: true,
+    namespace,
+    projectRoot: process.cwd(),
+  });
+  const stateDir = process.env.PM_E2E_STATE_DIR || namespaceConfig.stateDir;
+
+  console.log(`Migrating file-based state in ${stateDir} to SQLite...`);
+  const report = await migrateFileStateToSqlite({ stateDir, orgId });
+
+  console.log(`Database: ${report.dbPath}`);
+  console.log(`Queue:    ${report.queue.tasks} tasks imported (${report.queue.skippedTasks} already present), ${report.queue.runners} runners, ${report.queue.groupStatuses} group statuses`);
+  for (const [kind, count] of Object.entries(report.dal)) {
+    console.log(`DAL:      ${kind.padEnd(12)} ${count}`);
+  }
+  console.log('');
+  console.log('Start the server with: pm web --store sqlite');
+  process.exit(0);
+}
+
+/**
+ * Handle `pm replay <trace-dir> [--task <id>] [--max-iterations <n>] [--json]`
+ * Replays recorded stream-json traces and reports verdict differences.
+ */
+async function handleReplayCommand(args: string[]): Promise<void> {
+  let traceDir: string | undefined;
+  let taskId: string | undefined;
+  let maxIterations: number | undefined;
+  let json = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--task' && args[i + 1]) {
+      taskId = args[++i];
+    } else if (args[i] === '--max-iterations' && args[i + 1]) {
+      maxIterations = parseInt(args[++i], 10);
+      if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+        console.error('--max-iterations must be a positive integer');
+        process.exit(1);
+      }
+    } else if (args[i] === '--json') {
+      json = true;
+    } else if (!args[i].startsWith('--') && !traceDir) {
+      traceDir = args[i];
+    }
+  }
+  if (!traceDir) {
+    console.error('Usage: pm replay <trace-dir> [--task <id>] [--max-iterations <n>] [--json]');
+    process.exit(1);
+  }
+
+  const report = await replayTraceDir(path.resolve(traceDir), {
+    taskId,
+    ...(maxIterations !== undefined ? { reviewLoop: { max_iterations: maxIterations } } : {}),
+  });
+  console.log(json ? JSON.stringify(report, null, 2) : formatReplayReport(report));
+  process.exit(report.changed > 0 ? 1 : 0);
+}
+
 /**
  * Main entry point
  */
@@ -2836,6 +3637,14 @@ async function main(): Promise<void> {
         // API Key management commands
         await handleKeyCommand(restArgs);
       })
+      .with('migrate-store', async () => {
+        // One-shot import of file-based state into SQLite (--store sqlite)
+        await handleMigrateStoreCommand(restArgs);
+      })
+      .with('replay', async () => {
+        // Re-judge recorded traces without spawning Claude Code
+        await handleReplayCommand(restArgs);
+      })
       .otherwise(async () => {
         console.error(`Unknown command: ${command}`);
         console.log(HELP_TEXT);
@@ -27,10 +27,12 @@ export interface GlobalConfig {
   };
   /** Internal LLM settings (used for question detection, file change claim detection, etc.) */
   internalLlm?: {
-    /** Provider to use (openai, anthropic). Auto-detect if not set. */
+    /** Provider to use (openai, anthropic, openai-compatible). Auto-detect if not set. */
     provider?: string;
     /** Model to use. Uses a sensible default if not set. */
     model?: string;
+    /** openai-compatible server URL (falls back to OPENAI_COMPATIBLE_BASE_URL) */
+    baseUrl?: string;
   };
   /** @deprecated Use internalLlm instead. Kept for backward compatibility. */
   questionDetection?: {
@@ -0,0 +1,256 @@
+/**
+ * QA Gates
+ *
+ * Per spec/45_QA_GATES.md
+ *
+ * Derives the repo's QA gates (lint, typecheck, test, build) from its
+ * RepoProfile, runs them after an IMPLEMENTATION task and judges the results
+ * with the Completion Protocol:
+ * - Every gate of one run is stamped with the same run_id
+ *   (generateRunId(HEAD sha, gate commands)), so the verdict never mixes runs
+ * - Each gate has its own timeout; a timed-out gate counts as failing
+ * - The test gate reports parsed passing/failing/pending counts, the other
+ *   gates report one check that passes on exit code 0
+ *
+ * A FAILING verdict blocks COMPLETE; the runner queues a fix iteration
+ * (`<task_id>-qa-fix-<n>`) with the failing output.
+ */
+
+import { execFileSync } from 'child_process';
+import { runShellCommand } from '../utils/shell-command';
+import type { RepoProfile } from '../web/routes/repo-profile';
+import {
+  CompletionProtocol,
+  generateRunId,
+  parseTestOutput,
+  type CompletionVerdict,
+  type QAGateResult,
+} from './completion-protocol';
+
+export type QAGateName = 'lint' | 'typecheck' | 'test' | 'build';
+
+/** Gate order (cheap checks first) */
+export const QA_GATE_NAMES: QAGateName[] = ['lint', 'typecheck', 'test', 'build'];
+
+export const DEFAULT_QA_GATE_TIMEOUTS: Record<QAGateName, number> = {
+  lint: 120_000,
+  typecheck: 300_000,
+  test: 600_000,
+  build: 600_000,
+};
+
+export const QA_GATE_LIMITS = {
+  /** Output kept per gate for the parser (the test summary may be far from the end) */
+  MAX_CAPTURE_CHARS: 2 * 1024 * 1024,
+  /** Output kept per gate on the task and in the fix prompt */
+  MAX_OUTPUT_TAIL_CHARS: 4000,
+};
+
+/** package.json scripts tried for each gate, in order */
+const GATE_SCRIPTS: Record<QAGateName, string[]> = {
+  lint: ['lint'],
+  typecheck: ['typecheck', 'type-check', 'check-types', 'tsc'],
+  test: ['test'],
+  build: ['build'],
+};
+
+/** The script `npm init` writes */
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/;
+
+const QA_FIX_TASK_PATTERN = /^(.*)-qa-fix-(\d+)(?:-\d+)?$/;
+
+/**
+ * A gate to run
+ */
+export interface QAGateDefinition {
+  name: QAGateName;
+  command: string;
+  timeout_ms: number;
+}
+
+/**
+ * Options for deriveQAGates()
+ */
+export interface QAGateOptions {
+  /** Only derive these gates (default: all) */
+  gates?: QAGateName[];
+  /** Per-gate timeout overrides */
+  timeouts?: Partial<Record<QAGateName, number>>;
+}
+
+/**
+ * Result of one gate, as stored on the task
+ */
+export interface QAGateRun extends QAGateResult {
+  command: string;
+  /** null when the process was killed or did not start */
+  exit_code: number | null;
+  duration_ms: number;
+  timed_out: boolean;
+  /** Last characters of stdout + stderr */
+  output_tail: string;
+}
+
+/**
+ * All gates of one run and their verdict (QueueItem.qa_gates)
+ */
+export interface QAGateReport {
+  run_id: string;
+  commit_sha: string;
+  gates: QAGateRun[];
+  verdict: CompletionVerdict;
+}
+
+/**
+ * Derive gates from the repo profile's package.json scripts.
+ * Without a typecheck script, TypeScript projects get `npx --no-install tsc --noEmit`.
+ */
+export function deriveQAGates(
+  profile: Pick<RepoProfile, 'scripts' | 'packageManager' | 'hasTypeScript' | 'dependencies' | 'devDependencies'>,
+  options: QAGateOptions = {}
+): QAGateDefinition[] {
+  const runner = ['npm', 'yarn', 'pnpm', 'bun'].includes(profile.packageManager) ? profile.packageManager : 'npm';
+  const scripts = profile.scripts ?? {};
+  const wanted = options.gates ?? QA_GATE_NAMES;
+  const gates: QAGateDefinition[] = [];
+
+  for (const name of QA_GATE_NAMES) {
+    if (!wanted.includes(name)) continue;
+    const script = GATE_SCRIPTS[name].find(candidate => typeof scripts[candidate] === 'string' && scripts[candidate].trim());
+    let command: string | undefined;
+    if (script && !(name === 'test' && PLACEHOLDER_TEST_SCRIPT.test(scripts[script]))) {
+      command = `${runner} run ${script}`;
+    } else if (
+      name === 'typecheck' &&
+      profile.hasTypeScript &&
+      [...profile.dependencies, ...profile.devDependencies].includes('typescript')
+    ) {
+      command = 'npx --no-install tsc --noEmit';
+    }
+    if (command) {
+      gates.push({ name, command, timeout_ms: options.timeouts?.[name] ?? DEFAULT_QA_GATE_TIMEOUTS[name] });
+    }
+  }
+  return gates;
+}
+
+/**
+ * HEAD commit of the working directory ('0000000' outside a git repository)
+ */
+function headCommitSha(workingDir: string): string {
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], { cwd: workingDir, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return '0000000';
+  }
+}
+
+async function runGate(gate: QAGateDefinition, workingDir: string, runId: string): Promise<QAGateRun> {
+  const run = await runShellCommand(gate.command, {
+    cwd: workingDir,
+    timeoutMs: gate.timeout_ms,
+    // CI=1 keeps watch-mode test runners (vitest, jest) to a single run
+    env: { CI: '1' },
+    maxOutputChars: QA_GATE_LIMITS.MAX_CAPTURE_CHARS,
+  });
+  const extra = run.startError ? `\n${gate.command} failed to start: ${run.startError}` : '';
+  return {
+    run_id: runId,
+    timestamp: new Date().toISOString(),
+    gate_name: gate.name,
+    ...judgeGateOutput(gate.name, run.exitCode, run.timedOut, run.output),
+    command: gate.command,
+    exit_code: run.exitCode,
+    duration_ms: run.durationMs,
+    timed_out: run.timedOut,
+    output_tail: (run.output + extra).trim().slice(-QA_GATE_LIMITS.MAX_OUTPUT_TAIL_CHARS),
+  };
+}
+
+/**
+ * Passing / failing / skipped counts of one gate
+ */
+export function judgeGateOutput(
+  name: QAGateName,
+  exitCode: number | null,
+  timedOut: boolean,
+  output: string
+): Pick<QAGateResult, 'passing' | 'failing' | 'skipped'> {
+  if (timedOut || exitCode === null) {
+    return { passing: 0, failing: 1, skipped: 0 };
+  }
+  if (name !== 'test') {
+    return exitCode === 0 ? { passing: 1, failing: 0, skipped: 0 } : { passing: 0, failing: 1, skipped: 0 };
+  }
+  const parsed = parseTestOutput(output);
+  // A non-zero exit is never a pass, even when no failing count was printed
+  const failing = exitCode !== 0 ? Math.max(parsed.failing, 1) : parsed.failing;
+  // An unrecognised reporter that exits 0 counts as one passing check
+  const passing = exitCode === 0 && parsed.passing === 0 && failing === 0 ? 1 : parsed.passing;
+  return { passing, failing, skipped: parsed.pending };
+}
+
+/**
+ * Run gates one after another in the working directory and judge them
+ * with the Completion Protocol
+ */
+export async function runQAGates(gates: QAGateDefinition[], workingDir: string): Promise<QAGateReport> {
+  const commitSha = headCommitSha(workingDir);
+  const runId = generateRunId(commitSha, gates.map(gate => gate.command).join(' && '));
+  const results: QAGateRun[] = [];
+  for (const gate of gates) {
+    results.push(await runGate(gate, workingDir, runId));
+  }
+
+  const protocol = new CompletionProtocol();
+  protocol.setCurrentRunId(runId);
+  return {
+    run_id: runId,
+    commit_sha: commitSha,
+    gates: results,
+    verdict: protocol.judge(results),
+  };
+}
+
+/**
+ * Failing gates with their output, for the task output and the fix prompt
+ */
+export function formatQAGateFailures(report: QAGateReport): string {
+  const sections = report.gates
+    .filter(gate => report.verdict.failing_gates.includes(gate.gate_name))
+    .map(gate => {
+      const outcome = gate.timed_out
+        ? 'timed out'
+        : gate.gate_name === 'test' && gate.failing > 0 && gate.exit_code !== null
+          ? `${gate.failing} failing (exit ${gate.exit_code})`
+          : `exit ${gate.exit_code ?? 'signal'}`;
+      return `### ${gate.gate_name}: \`${gate.command}\` ${outcome}\n\`\`\`\n${gate.output_tail || '(no output)'}\n\`\`\``;
+    });
+  return [`[qa-gates] FAILING (run ${report.run_id}): ${report.verdict.failing_gates.join(', ')}`, ...sections].join('\n\n');
+}
+
+/**
+ * Fix iterations already made for a task (0 for the original task)
+ */
+export function qaFixAttempt(taskId: string): number {
+  const matched = QA_FIX_TASK_PATTERN.exec(taskId);
+  return matched ? parseInt(matched[2], 10) : 0;
+}
+
+/**
+ * Task id of the next fix iteration: `<original task_id>-qa-fix-<n>`.
+ * A retried task reaches the same n again; then `-<k>` is appended so the id
+ * does not collide with the earlier fix task.
+ *
+ * @param existingTaskIds - Task ids already in the task group
+ */
+export function qaFixTaskId(taskId: string, existingTaskIds: Iterable<string> = []): string {
+  const matched = QA_FIX_TASK_PATTERN.exec(taskId);
+  const originalTaskId = matched ? matched[1] : taskId;
+  const base = `${originalTaskId}-qa-fix-${qaFixAttempt(taskId) + 1}`;
+  const taken = new Set(existingTaskIds);
+  if (!taken.has(base)) return base;
+  let k = 2;
+  while (taken.has(`${base}-${k}`)) k++;
+  return `${base}-${k}`;
+}
@@ -17,6 +17,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import { ConfigurationManager } from '../config/configuration-manager';
+import type { LLMProvider } from '../mediation/llm-client';
 import { SessionManager } from '../session/session-manager';
 import { EvidenceManager } from '../evidence/evidence-manager';
 import { LockManager } from '../locks/lock-manager';
@@ -92,7 +93,7 @@ export interface RunnerOptions {
    */
   enableAutoResolve?: boolean;
   /** LLM provider for auto-resolution (default: openai) */
-  autoResolveLLMProvider?: 'openai' | 'anthropic';
+  autoResolveLLMProvider?: LLMProvider;
   /** Handler for clarification questions that LLM cannot auto-resolve */
   userResponseHandler?: UserResponseHandler;
   /**
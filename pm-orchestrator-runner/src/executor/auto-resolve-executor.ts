@@ -18,10 +18,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { log } from '../logging/app-logger';
 import { ClaudeCodeExecutor, ExecutorConfig, ExecutorTask, ExecutorResult, IExecutor, AuthCheckResult } from './claude-code-executor';
-import { LLMClient } from '../mediation/llm-client';
+import { LLMClient, type LLMProvider } from '../mediation/llm-client';
 import { DecisionClassifier, ClassificationResult, BestPracticeRule } from './decision-classifier';
-import { UserPreferenceStore, PreferenceMatch } from './user-preference-store';
+import { UserPreferenceStore, PreferenceMatch, type AppliedPreference } from './user-preference-store';
 import { getExecutorOutputStream } from './executor-output-stream';
+import { addTaskUsage, type TaskUsage } from '../queue/task-usage';
 
 /**
  * Clarification types detected from Claude Code output
@@ -167,7 +168,7 @@ export interface AutoResolveConfig extends ExecutorConfig {
   /** Max retry attempts for auto-resolution (default: 2) */
   maxRetries?: number;
   /** LLM provider for auto-resolution (default: openai) */
-  llmProvider?: 'openai' | 'anthropic';
+  llmProvider?: LLMProvider;
   /** Custom best practice rules */
   customRules?: BestPracticeRule[];
   /** User preference store configuration */
@@ -175,6 +176,7 @@ export interface AutoResolveConfig extends ExecutorConfig {
     storagePath?: string;
     namespace?: string;
     minAutoApplyConfidence?: number;
+    decayHalfLifeDays?: number;
   };
   /** Handler for case-by-case questions that need user input */
   userResponseHandler?: UserResponseHandler;
@@ -220,9 +222,14 @@ export class AutoResolvingExecutor implements IExecutor {
   private readonly classifier: DecisionClassifier | null;
   private readonly preferenceStore: UserPreferenceStore;
   private readonly userResponseHandler?: UserResponseHandler;
-  private readonly llmProvider: 'openai' | 'anthropic';
+  private readonly llmProvider: LLMProvider;
   private llmUnavailableReason?: string;
   private activeTaskId?: string;
+  private activeProjectPath?: string;
+  /** Usage summed over the inner executions of the current execute() call */
+  private attemptUsage?: TaskUsage;
+  /** Preferences applied during the current execute() call */
+  private appliedPreferences: AppliedPreference[] = [];
 
   constructor(config: AutoResolveConfig) {
     this.innerExecutor = new ClaudeCodeExecutor(config);
@@ -277,13 +284,27 @@ export class AutoResolvingExecutor implements IExecutor {
   }
 
   /**
-   * Execute task with smart clarification handling
+   * Execute task with smart clarification handling.
+   * The returned usage covers every inner execution (auto-resolve retries included),
+   * and appliedPreferences lists the learned preferences that answered questions.
    */
   async execute(task: ExecutorTask): Promise<ExecutorResult> {
+    this.attemptUsage = undefined;
+    this.appliedPreferences = [];
+    const result = await this.executeWithRetries(task);
+    return {
+      ...result,
+      ...(this.attemptUsage ? { usage: this.attemptUsage } : {}),
+      ...(this.appliedPreferences.length > 0 ? { appliedPreferences: this.appliedPreferences } : {}),
+    };
+  }
+
+  private async executeWithRetries(task: ExecutorTask): Promise<ExecutorResult> {
     let attempts = 0;
     let currentTask = task;
     let lastResult: ExecutorResult | undefined;
     this.activeTaskId = task.id;
+    this.activeProjectPath = task.projectPath ?? this.projectPath;
 
     // Guard trace: log task type and guard decision
     const guardStream = getExecutorOutputStream();
@@ -297,6 +318,15 @@ export class AutoResolvingExecutor implements IExecutor {
       // Execute with inner executor
       const result = await this.innerExecutor.execute(currentTask);
       lastResult = result;
+      if (result.usage) {
+        this.attemptUsage = addTaskUsage(this.attemptUsage, result.usage);
+      }
+
+      // A usage limit fails every attempt until it resets: leave it to the queue (spec/50_USAGE_LIMIT_PAUSE.md)
+      if (result.usageLimit) {
+        guardStream.emit(task.id, 'guard', `[guard] decision=STOP usage limit reached`);
+        return result;
+      }
 
       // If successful, return
       if (result.status === 'COMPLETE') {
@@ -394,7 +424,16 @@ export class AutoResolvingExecutor implements IExecutor {
     
     if (preferenceMatch && this.preferenceStore.canAutoApply(preferenceMatch)) {
       log.app.info('Found high-confidence preference', { choice: preferenceMatch.preference.choice });
-      this.emitLLMLog(`preference applied choice="${truncateForLog(preferenceMatch.preference.choice, 120)}"`);
+      this.emitLLMLog(`preference applied id=${preferenceMatch.preference.id} choice="${truncateForLog(preferenceMatch.preference.choice, 120)}"`);
+      this.appliedPreferences.push({
+        preferenceId: preferenceMatch.preference.id,
+        category,
+        choice: preferenceMatch.preference.choice,
+        confidence: this.preferenceStore.getEffectiveConfidence(preferenceMatch.preference),
+        question,
+        matchedKeywords: preferenceMatch.matchedKeywords,
+      });
+      this.preferenceStore.recordApplied(preferenceMatch.preference.id, this.activeTaskId);
       
       return this.applyPreference(preferenceMatch, originalPrompt, clarification);
     }
@@ -441,7 +480,7 @@ export class AutoResolvingExecutor implements IExecutor {
       resolved: true,
       resolvedValue: choice,
       explicitPrompt,
-      reasoning: `Applied user preference (confidence: ${match.preference.confidence.toFixed(2)}, matched keywords: ${match.matchedKeywords.join(', ')})`,
+      reasoning: `Applied user preference (confidence: ${this.preferenceStore.getEffectiveConfidence(match.preference).toFixed(2)}, matched keywords: ${match.matchedKeywords.join(', ')})`,
       resolutionMethod: 'user_preference',
     };
   }
@@ -515,7 +554,8 @@ export class AutoResolvingExecutor implements IExecutor {
         category,
         question,
         userChoice,
-        clarification.context
+        clarification.context,
+        { taskId: this.activeTaskId, projectPath: this.activeProjectPath }
       );
 
       // Build explicit prompt with user's choice
@@ -27,6 +27,9 @@ import * as os from 'os';
 import type { BlockedReason, TerminatedBy } from '../models/enums';
 import { getExecutorOutputStream } from './executor-output-stream';
 import { registerTaskProcess, deregisterTaskProcess } from './process-registry';
+import type { TaskUsage } from '../queue/task-usage';
+import { detectUsageLimit, type UsageLimit } from './script-failure-classifier';
+import type { AppliedPreference } from './user-preference-store';
 
 /**
  * Executor configuration
@@ -72,6 +75,21 @@ export interface ExecutorTask {
   taskGroupId?: string;
   /** Absolute project path — recorded in process registry for ghost detection */
   projectPath?: string;
+  /**
+   * PreToolUse hook for this run (spec/47_BLAST_RADIUS_HOOK.md):
+   * settings file passed via --settings, env read by the hook command
+   */
+  preToolUseHook?: { settingsPath: string; env: Record<string, string> };
+  /**
+   * Claude Code session to continue with --resume (spec/49_SESSION_RESUME.md).
+   * The prompt is then only the new message for that session.
+   */
+  resumeSessionId?: string;
+  /**
+   * Keep the session on disk so a later run can --resume it.
+   * Without it the run passes --no-session-persistence.
+   */
+  persistSession?: boolean;
 }
 /**
  * Verified file information
@@ -113,6 +131,62 @@ export interface ExecutorResult {
    * Preferred over `output` for user-facing display.
    */
   assistantOutput?: string;
+  /** Token usage and cost from the stream-json `result` event (absent if none was received) */
+  usage?: TaskUsage;
+  /** Claude Code session id reported in stream-json events (resumable with --resume) */
+  sessionId?: string;
+  /** The session passed as resumeSessionId no longer exists; nothing was executed */
+  sessionNotFound?: boolean;
+  /** The run failed on a Claude Code usage / rate limit (spec/50_USAGE_LIMIT_PAUSE.md) */
+  usageLimit?: UsageLimit;
+  /** Learned preferences that auto-resolved questions (AutoResolvingExecutor, spec/52_USER_PREFERENCES.md) */
+  appliedPreferences?: AppliedPreference[];
+}
+
+/**
+ * Fields of the stream-json `result` event used for usage tracking
+ */
+interface StreamJsonResultEvent {
+  num_turns?: number;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+  /** Per-model breakdown keyed by model ID */
+  modelUsage?: Record<string, { costUSD?: number }>;
+}
+
+/**
+ * Whether Claude Code rejected --resume because the session does not exist
+ * (expired, cleaned up, or created on another machine)
+ */
+export function isSessionNotFoundError(text: string | undefined): boolean {
+  return !!text && /no conversation found with session id/i.test(text);
+}
+
+/**
+ * Build TaskUsage from a stream-json `result` event.
+ * The model comes from the `system` init event; without one, the model with the
+ * highest cost in modelUsage is used.
+ */
+export function usageFromResultEvent(event: StreamJsonResultEvent, model?: string): TaskUsage {
+  const num = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+  const usage = event.usage ?? {};
+  const resolvedModel = model ?? Object.entries(event.modelUsage ?? {})
+    .sort(([, a], [, b]) => num(b.costUSD) - num(a.costUSD))[0]?.[0];
+  return {
+    input_tokens: num(usage.input_tokens),
+    output_tokens: num(usage.output_tokens),
+    cache_creation_input_tokens: num(usage.cache_creation_input_tokens),
+    cache_read_input_tokens: num(usage.cache_read_input_tokens),
+    total_cost_usd: num(event.total_cost_usd),
+    num_turns: num(event.num_turns),
+    ...(resolvedModel ? { model: resolvedModel } : {}),
+    runs: 1,
+  };
 }
 
 /**
@@ -574,6 +648,11 @@ export class ClaudeCodeExecutor implements IExecutor {
       let lastOutputTime = Date.now();
       let softTimeoutWarned = false;
       let resolved = false;
+      // Usage / cost from the stream-json result event; model from the system init event
+      let usage: TaskUsage | undefined;
+      let streamModel: string | undefined;
+      // Session id carried by stream-json events (for --resume on the next run)
+      let sessionId: string | undefined;
 
       // Placeholder for child process (assigned after spawn)
       let childProcess: ChildProcess;
@@ -600,7 +679,29 @@ export class ClaudeCodeExecutor implements IExecutor {
         const success = result.status === 'COMPLETE';
         outputStream.endTask(task.id, success, undefined, result.status);
 
-        resolve(result);
+        const failureText = `${result.error ?? ''}\n${result.output ?? ''}`;
+        const sessionNotFound = !!task.resumeSessionId && result.status === 'ERROR' &&
+          isSessionNotFoundError(failureText);
+        const usageLimit = result.status !== 'COMPLETE' ? detectUsageLimit(failureText) : null;
+        resolve({
+          ...result,
+          ...(usage ? { usage } : {}),
+          ...(sessionId ? { sessionId } : {}),
+          ...(sessionNotFound ? { sessionNotFound } : {}),
+          ...(usageLimit ? { usageLimit } : {}),
+        });
+      };
+
+      // Track model, usage and session id from stream-json events
+      const trackUsage = (event: { type?: string; subtype?: string; model?: string; session_id?: unknown }) => {
+        if (typeof event.session_id === 'string' && event.session_id) {
+          sessionId = event.session_id;
+        }
+        if (event.type === 'system' && event.subtype === 'init' && typeof event.model === 'string') {
+          streamModel = event.model;
+        } else if (event.type === 'result') {
+          usage = usageFromResultEvent(event as StreamJsonResultEvent, streamModel);
+        }
       };
 
       // Helper to clear all timers (v3 - AC B: no hard timeout)
@@ -681,7 +782,7 @@ export class ClaudeCodeExecutor implements IExecutor {
       // Spawn Claude Code CLI with the task prompt
       // Using --print flag for non-interactive output
       // --tools enables Write/Edit/Read/Bash for file operations
-      // --no-session-persistence avoids session issues in non-interactive mode
+      // Sessions are only persisted when a reply / retry may continue them with --resume
       //
       // IMPORTANT: User prompt is passed as-is. Runner performs fail-closed
       // verification AFTER execution (Property 8: Runner is sole completion authority).
@@ -693,15 +794,28 @@ export class ClaudeCodeExecutor implements IExecutor {
         '--output-format', 'stream-json',
         '--dangerously-skip-permissions',
         '--tools', 'Write,Edit,Read,Bash',
-        '--no-session-persistence',
       ];
 
+      if (!task.persistSession) {
+        cliArgs.push('--no-session-persistence');
+      }
+
+      // Continue the previous run's session (keeps its context and tool state)
+      if (task.resumeSessionId) {
+        cliArgs.push('--resume', task.resumeSessionId);
+      }
+
       // Per spec 10_REPL_UX.md L117-118: Model selection is REPL-local
       // Pass model to Claude Code CLI if specified (thin wrapper: no validation)
       if (task.selectedModel) {
         cliArgs.push('--model', task.selectedModel);
       }
 
+      // Blast-radius enforcement: the hook runs even with --dangerously-skip-permissions
+      if (task.preToolUseHook) {
+        cliArgs.push('--settings', task.preToolUseHook.settingsPath);
+      }
+
       // Add prompt last (positional argument)
       cliArgs.push(task.prompt);
 
@@ -727,6 +841,7 @@ export class ClaudeCodeExecutor implements IExecutor {
           stdio: ['pipe', 'pipe', 'pipe'],
           env: {
             ...sanitizedEnv,
+            ...task.preToolUseHook?.env,
             // Ensure non-interactive mode
             CI: 'true',
             // Disable color output for cleaner parsing
@@ -912,6 +1027,7 @@ export class ClaudeCodeExecutor implements IExecutor {
             if (event.type === 'result' && event.result) {
               output = event.result;
             }
+            trackUsage(event);
 
             // Track assistant text messages only (for accurate status detection)
             // This excludes tool_results, thinking, and other non-text content
@@ -969,6 +1085,7 @@ export class ClaudeCodeExecutor implements IExecutor {
             if (event.type === 'result' && event.result) {
               output = event.result;
             }
+            trackUsage(event);
           } catch {
             output += stdoutBuffer;
             outputStream.emit(task.id, 'stdout', stdoutBuffer.trim());
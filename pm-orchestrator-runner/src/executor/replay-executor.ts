@@ -0,0 +1,238 @@
+/**
+ * Replay Executor - Feeds a recorded stream-json trace back through the pipeline
+ * Per spec/44_TRACE_REPLAY.md
+ *
+ * ClaudeCodeExecutor appends every stream-json event of a task to
+ * {cwd}/.claude/state/traces/stream-<task_id>.jsonl, one run after another
+ * (a `separator` event marks each resumed run). This executor:
+ * - Splits the trace into runs and returns them in order, one per execute()
+ *   (the last run is repeated once the recording is exhausted)
+ * - Rebuilds ExecutorResult the way ClaudeCodeExecutor does on process close,
+ *   using Write/Edit tool calls in place of the filesBefore/filesAfter scan
+ * - Never spawns a process, calls an LLM or touches the disk
+ */
+
+import * as path from 'path';
+import type {
+  IExecutor,
+  ExecutorTask,
+  ExecutorResult,
+  VerifiedFile,
+  AuthCheckResult,
+} from './claude-code-executor';
+import { usageFromResultEvent } from './claude-code-executor';
+import { detectFileChangeClaimsRegex } from '../utils/question-detector';
+import type { TaskUsage } from '../queue/task-usage';
+import type { CustomCriterionDefinition } from '../review-loop/custom-criteria';
+import type { CriteriaResult } from '../review-loop/review-loop';
+
+/**
+ * Tools whose `file_path` / `notebook_path` input is a file change
+ */
+const FILE_CHANGE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+/**
+ * One executor run recorded in a stream-json trace
+ */
+export interface RecordedRun {
+  /** 0-based position in the trace */
+  index: number;
+  /** Prompt from the leading user_message event (first run only, truncated to 2000 chars by the executor) */
+  prompt?: string;
+  /** Final `result` text (ClaudeCodeExecutor's `output`) */
+  output: string;
+  /** Assistant text blocks only */
+  assistantOutput: string;
+  /** Files written or edited by tool calls, relative to the working directory when possible */
+  files_modified: string[];
+  /** Content preview per file (first 100 chars of the written / replacement text) */
+  previews: Record<string, string>;
+  /** Whether a `result` event was recorded */
+  has_result: boolean;
+  /** `result.is_error` or an error subtype */
+  is_error: boolean;
+  usage?: TaskUsage;
+  event_count: number;
+  /** Project-defined criteria the runner evaluated on this run, and their results */
+  custom_criteria?: { criteria: CustomCriterionDefinition[]; results: CriteriaResult[] };
+}
+
+interface StreamEvent {
+  type?: string;
+  subtype?: string;
+  /** llm_processing events written by the runner */
+  action?: string;
+  criteria?: CustomCriterionDefinition[];
+  results?: CriteriaResult[];
+  model?: string;
+  content?: string;
+  result?: string;
+  is_error?: boolean;
+  message?: { content?: Array<{ type?: string; text?: string; name?: string; input?: Record<string, unknown> }> };
+}
+
+/**
+ * Split a stream-json trace into runs. Lines that are not JSON are ignored.
+ *
+ * @param content - JSONL content of stream-<task_id>.jsonl
+ * @param workingDir - Executor cwd, used to make tool file paths relative
+ */
+export function parseStreamTrace(content: string, workingDir?: string): RecordedRun[] {
+  const runs: RecordedRun[] = [];
+  let current: RecordedRun | null = null;
+  let model: string | undefined;
+
+  const startRun = (): RecordedRun => {
+    const run: RecordedRun = {
+      index: runs.length,
+      output: '',
+      assistantOutput: '',
+      files_modified: [],
+      previews: {},
+      has_result: false,
+      is_error: false,
+      event_count: 0,
+    };
+    runs.push(run);
+    model = undefined;
+    return run;
+  };
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(trimmed) as StreamEvent;
+    } catch {
+      continue;
+    }
+
+    if (event.type === 'separator') {
+      current = startRun();
+      continue;
+    }
+    const run = current ?? (current = startRun());
+    run.event_count++;
+
+    if (event.type === 'user_message' && typeof event.content === 'string') {
+      run.prompt = event.content;
+    } else if (event.type === 'system' && event.subtype === 'init' && typeof event.model === 'string') {
+      model = event.model;
+    } else if (event.type === 'result') {
+      run.has_result = true;
+      if (event.result) run.output = event.result;
+      run.is_error = event.is_error === true || (typeof event.subtype === 'string' && event.subtype.startsWith('error'));
+      run.usage = usageFromResultEvent(event as Parameters<typeof usageFromResultEvent>[0], model);
+    } else if (event.type === 'llm_processing' && event.action === 'custom_criteria' && Array.isArray(event.results)) {
+      run.custom_criteria = { criteria: Array.isArray(event.criteria) ? event.criteria : [], results: event.results };
+    } else if (event.type === 'assistant' && event.message?.content) {
+      for (const block of event.message.content) {
+        if (block.type === 'text' && block.text) {
+          run.assistantOutput += block.text + '\n';
+        } else if (block.type === 'tool_use' && block.name && FILE_CHANGE_TOOLS.includes(block.name)) {
+          const input = block.input ?? {};
+          const filePath = input.file_path ?? input.notebook_path;
+          if (typeof filePath !== 'string' || !filePath) continue;
+          const relPath = workingDir && path.isAbsolute(filePath) && !path.relative(workingDir, filePath).startsWith('..')
+            ? path.relative(workingDir, filePath)
+            : filePath;
+          if (!run.files_modified.includes(relPath)) {
+            run.files_modified.push(relPath);
+          }
+          const text = input.content ?? input.new_string ?? input.new_source;
+          if (typeof text === 'string') {
+            run.previews[relPath] = text.substring(0, 100);
+          }
+        }
+      }
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Build the ExecutorResult ClaudeCodeExecutor would have returned for a run.
+ * Status follows the executor's close handler: ERROR without a successful
+ * result, COMPLETE with file changes (or any READ_INFO / REPORT output),
+ * otherwise INCOMPLETE / NO_EVIDENCE from the regex file change claim check.
+ */
+export function resultFromRecordedRun(run: RecordedRun, task: Pick<ExecutorTask, 'workingDir' | 'taskType'>): ExecutorResult {
+  const verified_files: VerifiedFile[] = run.files_modified.map(file => ({
+    path: file,
+    exists: true,
+    ...(run.previews[file] !== undefined ? { content_preview: run.previews[file] } : {}),
+  }));
+
+  let status: ExecutorResult['status'];
+  if (!run.has_result || run.is_error) {
+    status = 'ERROR';
+  } else if (verified_files.length > 0) {
+    status = 'COMPLETE';
+  } else if (task.taskType === 'READ_INFO' || task.taskType === 'REPORT') {
+    status = run.output.trim() ? 'COMPLETE' : 'NO_EVIDENCE';
+  } else {
+    status = detectFileChangeClaimsRegex(run.assistantOutput).hasClaims ? 'INCOMPLETE' : 'NO_EVIDENCE';
+  }
+
+  return {
+    executed: status !== 'ERROR',
+    output: run.output,
+    ...(status === 'ERROR' ? { error: run.has_result ? 'Recorded run ended with an error result' : 'No result event recorded' } : {}),
+    files_modified: run.files_modified,
+    duration_ms: 0,
+    status,
+    cwd: task.workingDir,
+    verified_files,
+    unverified_files: [],
+    ...(run.assistantOutput ? { assistantOutput: run.assistantOutput } : {}),
+    ...(run.usage ? { usage: run.usage } : {}),
+  };
+}
+
+/**
+ * ReplayExecutor - returns recorded runs instead of spawning Claude Code
+ */
+export class ReplayExecutor implements IExecutor {
+  private readonly runs: RecordedRun[];
+  private callCount = 0;
+  private readonly executionLog: Array<{ callNumber: number; runIndex: number; prompt: string; status: ExecutorResult['status'] }> = [];
+
+  constructor(runs: RecordedRun[]) {
+    if (runs.length === 0) {
+      throw new Error('ReplayExecutor requires at least one recorded run');
+    }
+    this.runs = runs;
+  }
+
+  /**
+   * Get current call count
+   */
+  getCallCount(): number {
+    return this.callCount;
+  }
+
+  /**
+   * Get execution log (which recorded run answered each call)
+   */
+  getExecutionLog(): typeof this.executionLog {
+    return [...this.executionLog];
+  }
+
+  async isClaudeCodeAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async checkAuthStatus(): Promise<AuthCheckResult> {
+    return { available: true, loggedIn: true };
+  }
+
+  async execute(task: ExecutorTask): Promise<ExecutorResult> {
+    const run = this.runs[Math.min(this.callCount, this.runs.length - 1)];
+    this.callCount++;
+    const result = resultFromRecordedRun(run, task);
+    this.executionLog.push({ callNumber: this.callCount, runIndex: run.index, prompt: task.prompt, status: result.status });
+    return result;
+  }
+}
@@ -10,6 +10,7 @@
  * - COMMAND_NOT_FOUND: Binary/command not available
  * - PERMISSION: Permission denied errors
  * - TIMEOUT: Execution timed out
+ * - USAGE_LIMIT: Claude Code plan usage limit / API rate limit (spec/50_USAGE_LIMIT_PAUSE.md)
  * - UNKNOWN: Unclassified failure
  */
 
@@ -22,6 +23,7 @@ export type ScriptFailureCategory =
   | 'COMMAND_NOT_FOUND'
   | 'PERMISSION'
   | 'TIMEOUT'
+  | 'USAGE_LIMIT'
   | 'UNKNOWN';
 
 /**
@@ -44,6 +46,139 @@ export interface NextAction {
   target?: string;
 }
 
+/**
+ * Usage limit information parsed from Claude Code output
+ */
+export interface UsageLimit {
+  /** When the limit resets (ISO 8601); absent when the output does not say */
+  resetAt?: string;
+  /** The matching line of output */
+  message: string;
+}
+
+/**
+ * Claude Code plan usage limit / API rate limit messages, e.g.
+ * "Claude AI usage limit reached|1760000000", "5-hour limit reached ∙ resets 3pm",
+ * "You've hit your limit · resets 3pm (America/New_York)", "rate_limit_error"
+ */
+const USAGE_LIMIT_PATTERNS: RegExp[] = [
+  /usage limit reached/i,
+  /\blimit reached\b.*\bresets?\b/i,
+  /you['\u2019]ve hit your (?:usage )?limit/i,
+  /rate_limit_error/i,
+  /\b429\b.*too many requests/i,
+];
+
+/** Limit messages are the last thing Claude Code prints; only the tail is checked */
+const USAGE_LIMIT_TAIL_LENGTH = 2000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Offset (ms) of a time zone from UTC at the given instant
+ */
+function timeZoneOffsetMs(instant: number, timeZone: string | undefined): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock time in a time zone (undefined: local time)
+ */
+function zonedTimeToUtc(
+  year: number, month: number, day: number, hour: number, minute: number, timeZone: string | undefined
+): number {
+  const guess = Date.UTC(year, month, day, hour, minute);
+  const first = guess - timeZoneOffsetMs(guess, timeZone);
+  // Second pass settles DST transitions between the guess and the result
+  return guess - timeZoneOffsetMs(first, timeZone);
+}
+
+/**
+ * Parse the reset time of a limit message:
+ * - "...|<epoch seconds>"
+ * - "resets 3pm", "resets 3:30pm (Asia/Tokyo)", "resets Oct 20, 3pm"
+ * - "retry-after: <seconds>"
+ * A wall-clock time without a date is the next occurrence of that time.
+ */
+function parseResetTime(text: string, now: Date): Date | undefined {
+  const epoch = text.match(/\|(\d{10})\b/);
+  if (epoch) {
+    return new Date(Number(epoch[1]) * 1000);
+  }
+
+  const retryAfter = text.match(/retry[- ]after["']?\s*[:=]?\s*(\d+)/i);
+  if (retryAfter) {
+    return new Date(now.getTime() + Number(retryAfter[1]) * 1000);
+  }
+
+  const clock = text.match(
+    /resets?\s+(?:at\s+)?(?:([a-z]{3})[a-z]*\s+(\d{1,2}),?\s+(?:at\s+)?)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)(?:\s*\(([^)\s]+)\))?/i
+  );
+  if (!clock) {
+    return undefined;
+  }
+  let hour = Number(clock[3]) % 12;
+  if (clock[5].toLowerCase() === 'pm') hour += 12;
+  const minute = clock[4] ? Number(clock[4]) : 0;
+  let timeZone: string | undefined = clock[6];
+  try {
+    timeZoneOffsetMs(now.getTime(), timeZone);
+  } catch {
+    // Unknown zone: fall back to local time
+    timeZone = undefined;
+  }
+
+  // Today's date in the zone
+  const today = new Date(now.getTime() + timeZoneOffsetMs(now.getTime(), timeZone));
+  const month = clock[1] ? MONTHS.indexOf(clock[1].toLowerCase()) : -1;
+  if (clock[1] && month < 0) {
+    return undefined;
+  }
+  let year = today.getUTCFullYear();
+  let reset = month >= 0
+    ? zonedTimeToUtc(year, month, Number(clock[2]), hour, minute, timeZone)
+    : zonedTimeToUtc(year, today.getUTCMonth(), today.getUTCDate(), hour, minute, timeZone);
+
+  if (reset <= now.getTime()) {
+    if (month >= 0) {
+      // "resets Jan 2" seen in late December
+      year++;
+      reset = zonedTimeToUtc(year, month, Number(clock[2]), hour, minute, timeZone);
+    } else {
+      reset = zonedTimeToUtc(year, today.getUTCMonth(), today.getUTCDate() + 1, hour, minute, timeZone);
+    }
+  }
+  return new Date(reset);
+}
+
+/**
+ * Detect a Claude Code usage limit / rate limit in failed executor output.
+ *
+ * @param output - error message and/or output of the failed run
+ * @param now - reference time for relative reset times
+ * @returns the limit with its reset time, or null when the output is not a limit message
+ */
+export function detectUsageLimit(output: string, now: Date = new Date()): UsageLimit | null {
+  const tail = output.slice(-USAGE_LIMIT_TAIL_LENGTH);
+  const line = tail.split('\n').reverse().find(l => USAGE_LIMIT_PATTERNS.some(p => p.test(l)));
+  if (!line) {
+    return null;
+  }
+  const resetAt = parseResetTime(line, now) ?? parseResetTime(tail, now);
+  return {
+    ...(resetAt ? { resetAt: resetAt.toISOString() } : {}),
+    message: line.trim().substring(0, 500),
+  };
+}
+
 /**
  * Patterns for each failure category
  */
@@ -52,6 +187,12 @@ const CATEGORY_PATTERNS: Array<{
   patterns: RegExp[];
   summaryTemplate: string;
 }> = [
+  {
+    // Checked first: limit messages often mention a timeout or "not found" as well
+    category: 'USAGE_LIMIT',
+    patterns: USAGE_LIMIT_PATTERNS,
+    summaryTemplate: 'Claude Code usage limit reached',
+  },
   {
     category: 'QUOTE_ERROR',
     patterns: [
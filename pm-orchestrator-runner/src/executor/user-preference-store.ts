@@ -7,6 +7,11 @@
  *
  * Key insight: Users are consistent. If they prefer React over Vue once,
  * they'll likely prefer it again. Track these patterns.
+ *
+ * Learned preferences can be reviewed and corrected through /api/preferences
+ * (spec/52_USER_PREFERENCES.md): each one records the task it was learned
+ * from, can be edited, pinned or disabled, and can be configured to lose
+ * confidence over time unless it is confirmed again.
  */
 
 import * as fs from 'fs';
@@ -35,6 +40,58 @@ export interface UserPreference {
   updatedAt: string;
   /** Confidence level (0-1), increases with confirmations */
   confidence: number;
+  /** Task in which the user gave the answer */
+  sourceTaskId?: string;
+  /** Project of the source task (used for per-project export / import) */
+  projectPath?: string;
+  /** Pinned: never decays and is always auto-applied when matched */
+  pinned?: boolean;
+  /** Disabled: never matched */
+  disabled?: boolean;
+  /** How many times the preference auto-resolved a question */
+  appliedCount?: number;
+  /** When the preference last auto-resolved a question */
+  lastAppliedAt?: string;
+  /** Task in which the preference last auto-resolved a question */
+  lastAppliedTaskId?: string;
+}
+
+/**
+ * Where a recorded preference came from
+ */
+export interface PreferenceSource {
+  taskId?: string;
+  projectPath?: string;
+}
+
+/**
+ * Editable fields of a preference (PUT /api/preferences/:id)
+ */
+export interface PreferenceUpdate {
+  category?: string;
+  keywords?: string[];
+  choice?: string;
+  context?: string;
+  confidence?: number;
+  pinned?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Preferences of one project, as exported / imported
+ */
+export interface PreferenceExport {
+  version: 1;
+  exportedAt: string;
+  projectPath?: string;
+  preferences: UserPreference[];
+}
+
+export class PreferenceValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'PreferenceValidationError';
+  }
 }
 
 /**
@@ -46,6 +103,19 @@ export interface PreferenceMatch {
   matchedKeywords: string[];
 }
 
+/**
+ * A preference that auto-resolved a question during a task (recorded in the task trace)
+ */
+export interface AppliedPreference {
+  preferenceId: string;
+  category: string;
+  choice: string;
+  /** Effective confidence when applied */
+  confidence: number;
+  question: string;
+  matchedKeywords: string[];
+}
+
 /**
  * Store configuration
  */
@@ -58,8 +128,12 @@ export interface PreferenceStoreConfig {
   minAutoApplyConfidence?: number;
   /** Minimum keyword match ratio (default: 0.5) */
   minKeywordMatchRatio?: number;
+  /** Days after which an unconfirmed preference keeps half its confidence (default: 0 = no decay) */
+  decayHalfLifeDays?: number;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * User Preference Store
  * Persists user preferences to learn from their choices
@@ -70,11 +144,13 @@ export class UserPreferenceStore {
   private readonly namespace: string;
   private readonly minAutoApplyConfidence: number;
   private readonly minKeywordMatchRatio: number;
+  private readonly decayHalfLifeDays: number;
 
   constructor(config: PreferenceStoreConfig = {}) {
     this.namespace = config.namespace || 'default';
     this.minAutoApplyConfidence = config.minAutoApplyConfidence ?? 0.7;
     this.minKeywordMatchRatio = config.minKeywordMatchRatio ?? 0.5;
+    this.decayHalfLifeDays = config.decayHalfLifeDays ?? 0;
     
     // Default storage path
     const homeDir = process.env.HOME || process.env.USERPROFILE || '.';
@@ -83,24 +159,23 @@ export class UserPreferenceStore {
     
     this.preferences = new Map();
     this.loadFromDisk();
+    log.app.info('Loaded preferences', { count: this.preferences.size });
   }
 
   /**
-   * Load preferences from disk
+   * Load preferences from disk.
+   * Other instances (the /api/preferences routes, other runners) write the same file,
+   * so every read and change starts from it. On a read error the current preferences are kept.
    */
   private loadFromDisk(): void {
     try {
-      if (fs.existsSync(this.storagePath)) {
-        const data = fs.readFileSync(this.storagePath, 'utf-8');
-        const parsed = JSON.parse(data) as Record<string, UserPreference[]>;
-        
-        const namespacePrefs = parsed[this.namespace] || [];
-        for (const pref of namespacePrefs) {
-          this.preferences.set(pref.id, pref);
-        }
-        
-        log.app.info('Loaded preferences', { count: this.preferences.size });
+      if (!fs.existsSync(this.storagePath)) {
+        this.preferences = new Map();
+        return;
       }
+      const data = fs.readFileSync(this.storagePath, 'utf-8');
+      const parsed = JSON.parse(data) as Record<string, UserPreference[]>;
+      this.preferences = new Map((parsed[this.namespace] || []).map(pref => [pref.id, pref]));
     } catch (error) {
       log.sys.error('Failed to load preferences', { error: error instanceof Error ? error.message : String(error) });
     }
@@ -180,8 +255,10 @@ export class UserPreferenceStore {
     category: string,
     question: string,
     choice: string,
-    context?: string
+    context?: string,
+    source: PreferenceSource = {}
   ): UserPreference {
+    this.loadFromDisk();
     const keywords = this.extractKeywords(question);
     const now = new Date().toISOString();
     
@@ -205,8 +282,8 @@ export class UserPreferenceStore {
       return existing;
     }
     
-    if (existing && existing.choice !== choice) {
-      // Different choice - decrease confidence or replace
+    if (existing && existing.choice !== choice && !existing.pinned) {
+      // Different choice - decrease confidence or replace (pinned preferences are kept as they are)
       if (existing.confirmationCount <= 1) {
         // Replace with new preference
         this.preferences.delete(existing.id);
@@ -228,6 +305,8 @@ export class UserPreferenceStore {
       createdAt: now,
       updatedAt: now,
       confidence: 0.6, // Start at 0.6, needs confirmation to reach auto-apply threshold
+      ...(source.taskId ? { sourceTaskId: source.taskId } : {}),
+      ...(source.projectPath ? { projectPath: source.projectPath } : {}),
     };
     
     this.preferences.set(newPref.id, newPref);
@@ -247,7 +326,7 @@ export class UserPreferenceStore {
     const candidates: Array<{ pref: UserPreference; score: number }> = [];
     
     for (const pref of this.preferences.values()) {
-      if (pref.category !== category) continue;
+      if (pref.category !== category || pref.disabled) continue;
       
       // Calculate keyword overlap
       const overlap = keywords.filter(k => pref.keywords.includes(k));
@@ -273,12 +352,13 @@ export class UserPreferenceStore {
     question: string,
     context?: string
   ): PreferenceMatch | null {
+    this.loadFromDisk();
     const keywords = this.extractKeywords(question + ' ' + (context || ''));
     
     const matches: PreferenceMatch[] = [];
     
     for (const pref of this.preferences.values()) {
-      if (pref.category !== category) continue;
+      if (pref.category !== category || pref.disabled) continue;
       
       const matchedKeywords = keywords.filter(k => pref.keywords.includes(k));
       const matchScore = matchedKeywords.length / Math.max(keywords.length, 1);
@@ -299,7 +379,7 @@ export class UserPreferenceStore {
       // Sort by score first, then by confidence
       const scoreDiff = b.matchScore - a.matchScore;
       if (Math.abs(scoreDiff) > 0.1) return scoreDiff;
-      return b.preference.confidence - a.preference.confidence;
+      return this.getEffectiveConfidence(b.preference) - this.getEffectiveConfidence(a.preference);
     });
     
     return matches[0];
@@ -309,16 +389,55 @@ export class UserPreferenceStore {
    * Check if a preference can be auto-applied
    */
   canAutoApply(match: PreferenceMatch): boolean {
-    return (
-      match.preference.confidence >= this.minAutoApplyConfidence &&
-      match.matchScore >= this.minKeywordMatchRatio
-    );
+    if (match.preference.disabled || match.matchScore < this.minKeywordMatchRatio) {
+      return false;
+    }
+    return match.preference.pinned === true ||
+      this.getEffectiveConfidence(match.preference) >= this.minAutoApplyConfidence;
+  }
+
+  /**
+   * Confidence after decay: halves every decayHalfLifeDays since the preference
+   * was last confirmed or edited. Pinned preferences do not decay.
+   */
+  getEffectiveConfidence(pref: UserPreference, now: Date = new Date()): number {
+    if (pref.pinned || this.decayHalfLifeDays <= 0) {
+      return pref.confidence;
+    }
+    const ageDays = Math.max(0, now.getTime() - Date.parse(pref.updatedAt)) / DAY_MS;
+    if (!Number.isFinite(ageDays)) {
+      return pref.confidence;
+    }
+    return pref.confidence * Math.pow(0.5, ageDays / this.decayHalfLifeDays);
+  }
+
+  /**
+   * Minimum (effective) confidence for auto-apply
+   */
+  getMinAutoApplyConfidence(): number {
+    return this.minAutoApplyConfidence;
+  }
+
+  /**
+   * Record that a preference auto-resolved a question
+   */
+  recordApplied(id: string, taskId?: string): void {
+    this.loadFromDisk();
+    const pref = this.preferences.get(id);
+    if (!pref) return;
+    pref.appliedCount = (pref.appliedCount ?? 0) + 1;
+    pref.lastAppliedAt = new Date().toISOString();
+    if (taskId) {
+      pref.lastAppliedTaskId = taskId;
+    }
+    this.saveToDisk();
   }
 
   /**
    * Get all preferences for a category
    */
   getByCategory(category: string): UserPreference[] {
+    this.loadFromDisk();
     return Array.from(this.preferences.values())
       .filter(p => p.category === category)
       .sort((a, b) => b.confidence - a.confidence);
@@ -328,13 +447,116 @@ export class UserPreferenceStore {
    * Get all preferences
    */
   getAll(): UserPreference[] {
+    this.loadFromDisk();
     return Array.from(this.preferences.values());
   }
 
+  /**
+   * Get a preference by ID
+   */
+  get(id: string): UserPreference | null {
+    this.loadFromDisk();
+    return this.preferences.get(id) ?? null;
+  }
+
+  /**
+   * Edit a preference. Returns null when it does not exist.
+   * An edit is a review by the user, so it restarts the decay like a confirmation.
+   *
+   * @throws PreferenceValidationError for invalid fields
+   */
+  update(id: string, update: PreferenceUpdate): UserPreference | null {
+    this.loadFromDisk();
+    const pref = this.preferences.get(id);
+    if (!pref) {
+      return null;
+    }
+    const errors = validatePreferenceUpdate(update);
+    if (errors.length > 0) {
+      throw new PreferenceValidationError(errors);
+    }
+
+    const updated: UserPreference = { ...pref };
+    if (update.category !== undefined) updated.category = update.category.trim();
+    if (update.keywords !== undefined) updated.keywords = update.keywords.map(k => k.trim().toLowerCase()).filter(k => k);
+    if (update.choice !== undefined) updated.choice = update.choice;
+    if (update.context !== undefined) updated.context = update.context || undefined;
+    if (update.confidence !== undefined) updated.confidence = update.confidence;
+    if (update.pinned !== undefined) updated.pinned = update.pinned;
+    if (update.disabled !== undefined) updated.disabled = update.disabled;
+    updated.updatedAt = new Date().toISOString();
+
+    this.preferences.set(id, updated);
+    this.saveToDisk();
+    return updated;
+  }
+
+  /**
+   * Export the preferences learned in a project (all preferences when projectPath is omitted)
+   */
+  exportPreferences(projectPath?: string): PreferenceExport {
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      ...(projectPath ? { projectPath } : {}),
+      preferences: this.getAll().filter(p => !projectPath || p.projectPath === projectPath),
+    };
+  }
+
+  /**
+   * Import exported preferences, assigning them to projectPath when given.
+   * Preferences with an existing ID are replaced; entries without a category,
+   * choice or keywords are skipped.
+   */
+  importPreferences(
+    preferences: unknown[],
+    projectPath?: string
+  ): { imported: number; skipped: number } {
+    this.loadFromDisk();
+    const now = new Date().toISOString();
+    let imported = 0;
+    let skipped = 0;
+    for (const entry of preferences) {
+      const pref = entry as Partial<UserPreference> | null;
+      if (
+        !pref || typeof pref.category !== 'string' || !pref.category ||
+        typeof pref.choice !== 'string' || !pref.choice ||
+        !Array.isArray(pref.keywords) || !pref.keywords.every(k => typeof k === 'string') ||
+        (pref.confidence !== undefined && (typeof pref.confidence !== 'number' || pref.confidence < 0 || pref.confidence > 1))
+      ) {
+        skipped++;
+        continue;
+      }
+      const id = typeof pref.id === 'string' && pref.id ? pref.id : this.generateId(pref.category, [...pref.keywords]);
+      const target = projectPath ?? pref.projectPath;
+      this.preferences.set(id, {
+        id,
+        category: pref.category,
+        keywords: pref.keywords,
+        choice: pref.choice,
+        ...(typeof pref.context === 'string' && pref.context ? { context: pref.context } : {}),
+        confirmationCount: typeof pref.confirmationCount === 'number' ? pref.confirmationCount : 1,
+        createdAt: typeof pref.createdAt === 'string' ? pref.createdAt : now,
+        updatedAt: typeof pref.updatedAt === 'string' ? pref.updatedAt : now,
+        confidence: pref.confidence ?? 0.6,
+        ...(typeof pref.sourceTaskId === 'string' ? { sourceTaskId: pref.sourceTaskId } : {}),
+        ...(target ? { projectPath: target } : {}),
+        ...(pref.pinned === true ? { pinned: true } : {}),
+        ...(pref.disabled === true ? { disabled: true } : {}),
+      });
+      imported++;
+    }
+    if (imported > 0) {
+      this.saveToDisk();
+    }
+    return { imported, skipped };
+  }
+
   /**
    * Delete a preference
    */
   delete(id: string): boolean {
+    this.loadFromDisk();
     const result = this.preferences.delete(id);
     if (result) {
       this.saveToDisk();
@@ -359,14 +581,16 @@ export class UserPreferenceStore {
     avgConfidence: number;
     highConfidenceCount: number;
   } {
+    this.loadFromDisk();
     const byCategory: Record<string, number> = {};
     let totalConfidence = 0;
     let highConfidenceCount = 0;
     
     for (const pref of this.preferences.values()) {
       byCategory[pref.category] = (byCategory[pref.category] || 0) + 1;
-      totalConfidence += pref.confidence;
-      if (pref.confidence >= this.minAutoApplyConfidence) {
+      const confidence = this.getEffectiveConfidence(pref);
+      totalConfidence += confidence;
+      if (!pref.disabled && (pref.pinned || confidence >= this.minAutoApplyConfidence)) {
         highConfidenceCount++;
       }
     }
@@ -381,3 +605,34 @@ export class UserPreferenceStore {
     };
   }
 }
+
+/**
+ * Validate a preference update
+ */
+function validatePreferenceUpdate(update: PreferenceUpdate): string[] {
+  const errors: string[] = [];
+  if (update.category !== undefined && (typeof update.category !== 'string' || !update.category.trim())) {
+    errors.push('category must be a non-empty string');
+  }
+  if (update.keywords !== undefined &&
+      (!Array.isArray(update.keywords) || update.keywords.length === 0 || !update.keywords.every(k => typeof k === 'string' && k.trim()))) {
+    errors.push('keywords must be a non-empty array of strings');
+  }
+  if (update.choice !== undefined && (typeof update.choice !== 'string' || !update.choice.trim())) {
+    errors.push('choice must be a non-empty string');
+  }
+  if (update.context !== undefined && typeof update.context !== 'string') {
+    errors.push('context must be a string');
+  }
+  if (update.confidence !== undefined &&
+      (typeof update.confidence !== 'number' || !(update.confidence >= 0 && update.confidence <= 1))) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+  if (update.pinned !== undefined && typeof update.pinned !== 'boolean') {
+    errors.push('pinned must be a boolean');
+  }
+  if (update.disabled !== undefined && typeof update.disabled !== 'boolean') {
+    errors.push('disabled must be a boolean');
+  }
+  return errors;
+}
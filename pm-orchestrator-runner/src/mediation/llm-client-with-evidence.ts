@@ -75,7 +75,7 @@ export class LLMClientWithEvidence {
     this.evidenceManager = new LLMEvidenceManager(config.evidenceDir);
 
     this.provider = config.provider ?? 'openai';
-    this.model = config.model ?? (config.provider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini');
+    this.model = this.client.getModel();
   }
 
   /**
@@ -5,7 +5,12 @@
  * - NO stubs, mocks, or fixed responses
  * - temperature > 0 required (non-deterministic output)
  * - API key from environment variables only
- * - fail-closed on missing API key
+ * - fail-closed on missing API key (except openai-compatible, where the key is optional)
+ *
+ * openai-compatible targets local OpenAI-protocol servers (Ollama, llama.cpp, vLLM):
+ * - OPENAI_COMPATIBLE_BASE_URL  (default: http://localhost:11434/v1)
+ * - OPENAI_COMPATIBLE_API_KEY   (optional)
+ * - OPENAI_COMPATIBLE_MODEL     (default model for fromEnv)
  */
 
 import { match } from 'ts-pattern';
@@ -13,7 +18,7 @@ import { match } from 'ts-pattern';
 /**
  * LLM Provider types
  */
-export type LLMProvider = 'openai' | 'anthropic';
+export type LLMProvider = 'openai' | 'anthropic' | 'openai-compatible';
 
 /**
  * LLM Client configuration
@@ -21,7 +26,7 @@ export type LLMProvider = 'openai' | 'anthropic';
 export interface LLMClientConfig {
   provider: LLMProvider;
   model: string;
-  apiKey: string;
+  apiKey: string;  // May be empty for openai-compatible
   temperature?: number;  // Must be > 0, defaults to 0.7
   maxTokens?: number;
   baseUrl?: string;  // For custom endpoints
@@ -79,18 +84,31 @@ function getEnvVarName(provider: LLMProvider): string {
   return match(provider)
     .with('openai', () => 'OPENAI_API_KEY')
     .with('anthropic', () => 'ANTHROPIC_API_KEY')
+    .with('openai-compatible', () => 'OPENAI_COMPATIBLE_API_KEY')
     .exhaustive();
 }
 
+/**
+ * Whether a provider refuses to run without an API key.
+ * Local OpenAI-compatible servers usually accept unauthenticated requests.
+ */
+export function requiresAPIKey(provider: LLMProvider): boolean {
+  return provider !== 'openai-compatible';
+}
+
 /**
  * Get API key from environment variable
- * @throws APIKeyMissingError if key is not set (fail-closed)
+ * @returns the key, or '' for providers that do not require one
+ * @throws APIKeyMissingError if a required key is not set (fail-closed)
  */
 export function getAPIKeyFromEnv(provider: LLMProvider): string {
   const envVar = getEnvVarName(provider);
   const apiKey = process.env[envVar];
 
   if (!apiKey || apiKey.trim() === '') {
+    if (!requiresAPIKey(provider)) {
+      return '';
+    }
     throw new APIKeyMissingError(provider);
   }
 
@@ -109,8 +127,55 @@ const DEFAULT_CONFIGS: Record<LLMProvider, { baseUrl: string; defaultModel: stri
     baseUrl: 'https://api.anthropic.com/v1',
     defaultModel: 'claude-3-haiku-20240307',
   },
+  'openai-compatible': {
+    baseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+  },
 };
 
+/**
+ * Get base URL for a provider (OPENAI_COMPATIBLE_BASE_URL overrides the openai-compatible default)
+ */
+export function getBaseUrlFromEnv(provider: LLMProvider): string {
+  if (provider === 'openai-compatible') {
+    const envUrl = process.env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+    if (envUrl) {
+      return envUrl.replace(/\/+$/, '');
+    }
+  }
+  return DEFAULT_CONFIGS[provider].baseUrl;
+}
+
+/**
+ * Get default model for a provider (OPENAI_COMPATIBLE_MODEL overrides the openai-compatible default)
+ */
+export function getDefaultModel(provider: LLMProvider): string {
+  if (provider === 'openai-compatible' && process.env.OPENAI_COMPATIBLE_MODEL?.trim()) {
+    return process.env.OPENAI_COMPATIBLE_MODEL.trim();
+  }
+  return DEFAULT_CONFIGS[provider].defaultModel;
+}
+
+/**
+ * List model IDs served by an OpenAI-compatible endpoint (GET {baseUrl}/models)
+ * @throws LLMAPIError on non-2xx responses
+ */
+export async function listOpenAICompatibleModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, { headers });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new LLMAPIError('openai-compatible', response.status, body);
+  }
+
+  const data = await response.json() as { data?: Array<{ id: string }> };
+  return (data.data ?? []).map(m => m.id).filter(id => typeof id === 'string' && id !== '');
+}
+
 /**
  * LLM Client class - Makes real API calls to LLM providers
  *
@@ -133,13 +198,13 @@ export class LLMClient {
       apiKey: config.apiKey,
       temperature,
       maxTokens: config.maxTokens ?? 1024,
-      baseUrl: config.baseUrl ?? DEFAULT_CONFIGS[config.provider].baseUrl,
+      baseUrl: (config.baseUrl ?? DEFAULT_CONFIGS[config.provider].baseUrl).replace(/\/+$/, ''),
     };
   }
 
   /**
    * Create LLM client from environment variables
-   * @throws APIKeyMissingError if API key is not set (fail-closed)
+   * @throws APIKeyMissingError if a required API key is not set (fail-closed)
    */
   static fromEnv(
     provider: LLMProvider = 'openai',
@@ -149,10 +214,11 @@ export class LLMClient {
     const apiKey = getAPIKeyFromEnv(provider);
     return new LLMClient({
       provider,
-      model: model ?? DEFAULT_CONFIGS[provider].defaultModel,
+      model: model ?? getDefaultModel(provider),
       apiKey,
       temperature: options?.temperature ?? 0.7,
       maxTokens: options?.maxTokens ?? 1024,
+      baseUrl: getBaseUrlFromEnv(provider),
     });
   }
 
@@ -164,11 +230,22 @@ export class LLMClient {
     return match(this.config.provider)
       .with('openai', () => this.chatOpenAI(messages, options?.responseFormat))
       .with('anthropic', () => this.chatAnthropic(messages))
+      .with('openai-compatible', () => this.chatOpenAI(messages, options?.responseFormat))
       .exhaustive();
   }
 
   /**
-   * OpenAI API call
+   * List models available at the configured endpoint (OpenAI protocol providers only)
+   */
+  async listModels(): Promise<string[]> {
+    if (this.config.provider === 'anthropic') {
+      throw new Error('listModels is only supported for OpenAI protocol providers');
+    }
+    return listOpenAICompatibleModels(this.config.baseUrl, this.config.apiKey);
+  }
+
+  /**
+   * OpenAI API call (also used for openai-compatible endpoints)
    */
   private async chatOpenAI(messages: ChatMessage[], responseFormat?: Record<string, unknown>): Promise<LLMResponse> {
     const body: Record<string, unknown> = {
@@ -180,18 +257,19 @@ export class LLMClient {
     if (responseFormat) {
       body.response_format = responseFormat;
     }
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
     const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-      },
+      headers,
       body: JSON.stringify(body),
     });
 
     if (!response.ok) {
       const body = await response.text();
-      throw new LLMAPIError('openai', response.status, body);
+      throw new LLMAPIError(this.config.provider, response.status, body);
     }
 
     const data = await response.json() as {
@@ -202,7 +280,7 @@ export class LLMClient {
 
     return {
       content: data.choices[0]?.message?.content ?? '',
-      model: data.model,
+      model: data.model ?? this.config.model,
       usage: data.usage,
     };
   }
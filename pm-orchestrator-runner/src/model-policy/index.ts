@@ -42,12 +42,14 @@ export {
 
   // Constants - Model Configurations
   MODEL_CONFIGS,
+  registerOpenAICompatibleModelConfigs,
 
   // Constants - Preset Profiles
   STABLE_PROFILE,
   CHEAP_PROFILE,
   FAST_PROFILE,
   PRESET_PROFILES,
+  createOpenAICompatibleProfile,
 
   // Constants - Default Config
   DEFAULT_MODEL_POLICY_CONFIG,
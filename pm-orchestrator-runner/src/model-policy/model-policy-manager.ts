@@ -19,6 +19,7 @@ import type { FailureType } from '../retry/retry-manager';
 import {
   OPENAI_MODELS,
   ANTHROPIC_MODELS,
+  registerOpenAICompatibleModels,
   type ModelInfo,
 } from '../models/repl/model-registry';
 
@@ -29,7 +30,7 @@ import {
 /**
  * Provider type
  */
-export type Provider = 'openai' | 'anthropic' | 'claude-code';
+export type Provider = 'openai' | 'anthropic' | 'claude-code' | 'openai-compatible';
 
 /**
  * Model category for phase-based selection
@@ -306,6 +307,42 @@ export const MODEL_CONFIGS: ModelConfig[] = [
   ),
 ];
 
+/**
+ * Capabilities assumed for local OpenAI-compatible models (unknown quality, zero cost)
+ */
+const OPENAI_COMPATIBLE_CAPABILITIES: ModelCapabilities = {
+  reasoning: 5,
+  coding: 5,
+  speed: 6,
+  cost_efficiency: 10,
+};
+
+/**
+ * Register local OpenAI-compatible models (zero cost)
+ *
+ * Adds the models to the model registry and MODEL_CONFIGS so that
+ * getModelConfig / getProviderForModel / calculateCost recognise them.
+ * Re-registering an ID replaces its config.
+ *
+ * @param modelIds - Model IDs discovered via GET {baseUrl}/models
+ * @param category - Category assigned to the models (default: standard)
+ */
+export function registerOpenAICompatibleModelConfigs(
+  modelIds: string[],
+  category: ModelCategory = 'standard'
+): ModelConfig[] {
+  return registerOpenAICompatibleModels(modelIds).map((info) => {
+    const config = buildModelConfig(info, 'openai-compatible', category, OPENAI_COMPATIBLE_CAPABILITIES);
+    const index = MODEL_CONFIGS.findIndex((m) => m.model_id === info.id);
+    if (index >= 0) {
+      MODEL_CONFIGS[index] = config;
+    } else {
+      MODEL_CONFIGS.push(config);
+    }
+    return config;
+  });
+}
+
 // ============================================================
 // Preset Profiles
 // ============================================================
@@ -376,6 +413,30 @@ export const FAST_PROFILE: ModelProfile = {
   daily_cost_limit: 30.0,
 };
 
+/**
+ * Local profile - every category runs on one OpenAI-compatible model
+ *
+ * No escalation (there is nothing to escalate to) and no daily cost limit.
+ */
+export function createOpenAICompatibleProfile(modelId: string): ModelProfile {
+  const model: ModelReference = { model_id: modelId, provider: 'openai-compatible' };
+  return {
+    name: 'local',
+    description: 'ローカル OpenAI 互換サーバーのモデルのみを使うプロファイル',
+    category_defaults: {
+      planning: model,
+      standard: model,
+      advanced: model,
+      fallback: model,
+    },
+    escalation: {
+      enabled: false,
+      retry_threshold: 0,
+      escalation_path: [],
+    },
+  };
+}
+
 /**
  * All preset profiles
  */
@@ -971,6 +1032,28 @@ export class ModelPolicyManager {
     return this.config.models.find((m) => m.model_id === modelId);
   }
 
+  /**
+   * Register local OpenAI-compatible models and make them available to this manager
+   *
+   * @param modelIds - Model IDs discovered via GET {baseUrl}/models
+   * @param useAsProfile - Switch to a 'local' profile built on the first model
+   */
+  registerOpenAICompatibleModels(modelIds: string[], useAsProfile = false): ModelConfig[] {
+    const configs = registerOpenAICompatibleModelConfigs(modelIds);
+    if (this.config.models !== MODEL_CONFIGS) {
+      this.config.models = [
+        ...this.config.models.filter((m) => !configs.some((c) => c.model_id === m.model_id)),
+        ...configs,
+      ];
+    }
+    if (useAsProfile && configs.length > 0) {
+      const profile = createOpenAICompatibleProfile(configs[0].model_id);
+      this.config.profiles = { ...this.config.profiles, [profile.name]: profile };
+      this.currentProfile = profile;
+    }
+    return configs;
+  }
+
   /**
    * Get all available models
    */
@@ -20,6 +20,8 @@ export {
   PROVIDER_REGISTRY,
   OPENAI_MODELS,
   ANTHROPIC_MODELS,
+  OPENAI_COMPATIBLE_MODELS,
+  registerOpenAICompatibleModels,
   getModelsForProvider,
   getProviderInfo,
   getAllProviders,
@@ -5,10 +5,12 @@
  * - OpenAI models with pricing
  * - Anthropic models with pricing
  * - claude-code does not have explicit models (delegated)
+ * - openai-compatible models are discovered at runtime (zero cost)
  *
  * Provider Recommendations:
  * - openai: RECOMMENDED - API key based, direct control
  * - anthropic: API key based, direct control
+ * - openai-compatible: local OpenAI-protocol server (Ollama / llama.cpp / vLLM), API key optional
  * - claude-code: NOT recommended by default, requires explicit opt-in (--provider claude-code)
  *
  * Task E (2026-04-24): additive-only model registry refresh.
@@ -101,6 +103,13 @@ export const PROVIDER_REGISTRY: Record<Provider, ProviderInfo> = {
     requiresApiKey: true,
     envVariable: 'ANTHROPIC_API_KEY',
   },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    displayName: 'OpenAI-Compatible (Local)',
+    description: 'Local OpenAI-compatible server (Ollama, llama.cpp, vLLM) - set OPENAI_COMPATIBLE_BASE_URL',
+    requiresApiKey: false,
+    envVariable: 'OPENAI_COMPATIBLE_API_KEY',
+  },
 };
 
 /**
@@ -201,16 +210,44 @@ export const ANTHROPIC_MODELS: ModelInfo[] = [
   { id: 'claude-haiku-4-5-20251001', displayName: 'Claude Haiku 4.5 (2025-10-01)', inputPricePerMillion: 1.00, outputPricePerMillion: 5.00, contextSize: 'TBD', tier: 'basic' },
 ];
 
+/**
+ * OpenAI-compatible (local) models
+ * Per spec 12_LLM_PROVIDER_AND_MODELS.md Section 2.1
+ *
+ * Not a fixed list: populated from the server's /v1/models via
+ * registerOpenAICompatibleModels(). Local inference has no per-token
+ * price, so every entry is registered at zero cost (tier: basic).
+ */
+export const OPENAI_COMPATIBLE_MODELS: ModelInfo[] = [];
+
+/**
+ * Register models discovered on an OpenAI-compatible server
+ *
+ * @param modelIds - Model IDs returned by GET {baseUrl}/models
+ * @returns ModelInfo entries for the given IDs (existing entries are reused)
+ */
+export function registerOpenAICompatibleModels(modelIds: string[]): ModelInfo[] {
+  return modelIds.map(id => {
+    let info = OPENAI_COMPATIBLE_MODELS.find(m => m.id === id);
+    if (!info) {
+      info = { id, displayName: id, inputPricePerMillion: 0, outputPricePerMillion: 0, contextSize: 'TBD', tier: 'basic' };
+      OPENAI_COMPATIBLE_MODELS.push(info);
+    }
+    return info;
+  });
+}
+
 /**
  * Get models for a provider
  *
  * @param provider - Provider identifier
- * @returns Array of available models (empty for claude-code)
+ * @returns Array of available models (empty for claude-code; registered models for openai-compatible)
  */
 export function getModelsForProvider(provider: Provider): ModelInfo[] {
   return match(provider)
     .with('openai', () => OPENAI_MODELS)
     .with('anthropic', () => ANTHROPIC_MODELS)
+    .with('openai-compatible', () => OPENAI_COMPATIBLE_MODELS)
     .with('claude-code', () => [] as ModelInfo[])
     .otherwise(() => [] as ModelInfo[]);
 }
@@ -2,21 +2,22 @@
  * ReplState - REPL Session State Model
  *
  * Per spec 05_DATA_MODELS.md:
- * - selected_provider: "claude-code" | "openai" | "anthropic" | null
+ * - selected_provider: "claude-code" | "openai" | "anthropic" | "openai-compatible" | null
  * - selected_model: string | null
  * - updated_at: string (ISO 8601) | null
  *
  * Per spec 12_LLM_PROVIDER_AND_MODELS.md:
- * - Valid providers: claude-code, openai, anthropic
+ * - Valid providers: claude-code, openai, anthropic, openai-compatible
  * - claude-code: no API key required
  * - openai/anthropic: API key required
+ * - openai-compatible: local server, API key optional
  */
 
 /**
  * Valid provider identifiers
  * Per spec 12_LLM_PROVIDER_AND_MODELS.md Section 1.1
  */
-export const VALID_PROVIDERS = ['claude-code', 'openai', 'anthropic'] as const;
+export const VALID_PROVIDERS = ['claude-code', 'openai', 'anthropic', 'openai-compatible'] as const;
 export type Provider = typeof VALID_PROVIDERS[number];
 
 /**
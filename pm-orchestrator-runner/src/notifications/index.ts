@@ -0,0 +1,32 @@
+/**
+ * Notifications Module Exports
+ *
+ * Per spec 39_WEBHOOKS.md
+ */
+
+export {
+  type WebhookFormat,
+  type WebhookDefinition,
+  type WebhookInput,
+  type WebhookDeliveryRecord,
+  type WebhookStoreConfig,
+  WEBHOOK_FORMATS,
+  WEBHOOK_EVENTS,
+  MAX_DELIVERY_RECORDS,
+  WebhookValidationError,
+  validateWebhookInput,
+  WebhookStore,
+} from './webhook-store';
+
+export {
+  type WebhookDispatcherConfig,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  buildNotification,
+  webhookMatches,
+  signWebhookPayload,
+  buildWebhookBody,
+  notificationForTransition,
+  notificationForPRReviewDecision,
+  WebhookDispatcher,
+} from './webhook-dispatcher';
@@ -0,0 +1,338 @@
+/**
+ * Webhook Dispatcher - Delivers notifications to configured webhooks
+ * Per spec/39_WEBHOOKS.md
+ *
+ * - Task status transitions (via observeStatusTransitions) and PR review
+ *   cycle decisions are turned into Notification objects
+ * - Each enabled webhook whose event / project filter matches gets the
+ *   notification in its body preset (json / slack / discord)
+ * - json bodies are signed: X-PM-Signature = sha256=HMAC(secret, "<timestamp>.<body>")
+ * - Network errors, timeouts, 429 and 5xx are retried with exponential backoff;
+ *   other 4xx responses fail immediately
+ * - Every delivery (success or final failure) is written to the delivery log
+ */
+
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { QueueStatusTransition } from '../queue/status-observer';
+import type { CreateNotificationInput, Notification, NotificationSeverity } from '../web/dal/types';
+import type { PRReviewCycle, PRReviewState } from '../web/dal/pr-review-types';
+import type { WebhookDefinition, WebhookDeliveryRecord, WebhookFormat, WebhookStore } from './webhook-store';
+
+/** How long notifications are kept by DAL backends that persist them */
+const NOTIFICATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-PM-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-PM-Timestamp';
+
+export interface WebhookDispatcherConfig {
+  store: WebhookStore;
+  orgId?: string;
+  /** Attempts per delivery including the first (default: 4) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on every retry (default: 1000ms) */
+  retryBaseMs?: number;
+  /** Per-attempt request timeout (default: 10000ms) */
+  timeoutMs?: number;
+  /** Injected for tests (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Build a Notification (the DAL model) from creation input
+ */
+export function buildNotification(input: CreateNotificationInput, now: Date = new Date()): Notification {
+  const notificationId = uuidv4();
+  const createdAt = now.toISOString();
+  const { orgId, ...fields } = input;
+  return {
+    PK: `ORG#${orgId}`,
+    SK: `NOTIF#${createdAt}#${notificationId}`,
+    notificationId,
+    ...fields,
+    read: false,
+    createdAt,
+    ttl: Math.floor(now.getTime() / 1000) + NOTIFICATION_TTL_SECONDS,
+  };
+}
+
+/**
+ * Check a webhook's enabled flag and event / project filters
+ */
+export function webhookMatches(webhook: WebhookDefinition, notification: Notification): boolean {
+  if (!webhook.enabled) {
+    return false;
+  }
+  if (webhook.events.length > 0 && !webhook.events.includes(notification.type)) {
+    return false;
+  }
+  if (webhook.projects.length > 0) {
+    const keys = [notification.projectId, notification.projectPath].filter((k): k is string => !!k);
+    if (!keys.some(k => webhook.projects.includes(k))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Sign a webhook body: sha256=<hex HMAC of "<timestamp>.<body>">
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+const SEVERITY_COLORS: Record<NotificationSeverity, number> = {
+  info: 0x22c55e,
+  warning: 0xf59e0b,
+  error: 0xef4444,
+};
+
+const SEVERITY_EMOJI: Record<NotificationSeverity, string> = {
+  info: ':white_check_mark:',
+  warning: ':warning:',
+  error: ':x:',
+};
+
+function notificationFields(notification: Notification): Array<{ name: string; value: string }> {
+  const fields: Array<{ name: string; value: string }> = [];
+  if (notification.taskId) fields.push({ name: 'Task', value: notification.taskId });
+  if (notification.taskGroupId) fields.push({ name: 'Task Group', value: notification.taskGroupId });
+  if (notification.projectPath || notification.projectId) {
+    fields.push({ name: 'Project', value: (notification.projectPath || notification.projectId)! });
+  }
+  if (notification.prNumber !== undefined) fields.push({ name: 'PR', value: `#${notification.prNumber}` });
+  return fields;
+}
+
+/**
+ * Build the request body for a webhook format
+ */
+export function buildWebhookBody(format: WebhookFormat, notification: Notification): Record<string, unknown> {
+  const fields = notificationFields(notification);
+  if (format === 'slack') {
+    const lines = [
+      `${SEVERITY_EMOJI[notification.severity]} *${notification.title}*`,
+      notification.message,
+      ...fields.map(f => `${f.name}: \`${f.value}\``),
+    ];
+    return { text: lines.filter(Boolean).join('\n') };
+  }
+  if (format === 'discord') {
+    return {
+      embeds: [{
+        title: notification.title,
+        description: notification.message,
+        color: SEVERITY_COLORS[notification.severity],
+        timestamp: notification.createdAt,
+        fields: fields.map(f => ({ ...f, inline: true })),
+      }],
+    };
+  }
+  const { PK: _pk, SK: _sk, ttl: _ttl, read: _read, ...publicFields } = notification;
+  return { event: notification.type, notification: publicFields };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max) + '...' : text;
+}
+
+/**
+ * Map a queue status transition to a notification (null for transitions nobody subscribes to)
+ */
+export function notificationForTransition(transition: QueueStatusTransition, orgId: string): CreateNotificationInput | null {
+  const { item, to } = transition;
+  const base = {
+    orgId,
+    taskId: item.task_id,
+    taskGroupId: item.task_group_id,
+    ...(item.project_path ? { projectPath: item.project_path } : {}),
+  };
+  const prompt = truncate(item.prompt, 200);
+  switch (to) {
+    case 'AWAITING_RESPONSE':
+      return {
+        ...base,
+        type: 'TASK_AWAITING_RESPONSE',
+        severity: 'warning',
+        title: 'Task is waiting for a response',
+        message: item.clarification?.question || prompt,
+      };
+    case 'ERROR':
+      return {
+        ...base,
+        type: 'TASK_ERROR',
+        severity: 'error',
+        title: 'Task failed',
+        message: item.error_message ? `${truncate(item.error_message, 500)}\n\n${prompt}` : prompt,
+      };
+    case 'COMPLETE':
+      return {
+        ...base,
+        type: 'TASK_COMPLETED',
+        severity: 'info',
+        title: 'Task completed',
+        message: prompt,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map a PR review cycle decision to a notification
+ */
+export function notificationForPRReviewDecision(cycle: PRReviewCycle, state: PRReviewState, orgId: string): CreateNotificationInput {
+  const needsHuman = cycle.llmContinueDecision === 'ESCALATE' || cycle.llmContinueDecision === 'CYCLE_LIMIT';
+  return {
+    orgId,
+    type: 'PR_REVIEW_DECISION',
+    severity: needsHuman ? 'warning' : 'info',
+    title: `PR #${state.prNumber} review cycle ${cycle.cycleNumber}: ${cycle.llmContinueDecision}`,
+    message: [state.prTitle, cycle.llmDecisionReason, state.prUrl].filter(Boolean).join('\n'),
+    projectId: state.projectId,
+    prNumber: state.prNumber,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Delivers notifications to matching webhooks
+ */
+export class WebhookDispatcher {
+  private readonly store: WebhookStore;
+  private readonly orgId: string;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+  private readonly fetchFn: typeof fetch;
+
+  constructor(config: WebhookDispatcherConfig) {
+    this.store = config.store;
+    this.orgId = config.orgId || 'default';
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? 4);
+    this.retryBaseMs = config.retryBaseMs ?? 1000;
+    this.timeoutMs = config.timeoutMs ?? 10000;
+    this.fetchFn = config.fetchFn ?? fetch;
+  }
+
+  getStore(): WebhookStore {
+    return this.store;
+  }
+
+  /**
+   * Deliver a notification to every matching webhook
+   * @returns delivery records (one per matching webhook)
+   */
+  async notify(input: Omit<CreateNotificationInput, 'orgId'> & { orgId?: string }): Promise<WebhookDeliveryRecord[]> {
+    const notification = buildNotification({ ...input, orgId: input.orgId || this.orgId });
+    const webhooks = (await this.store.list()).filter(w => webhookMatches(w, notification));
+    return Promise.all(webhooks.map(w => this.deliver(w, notification)));
+  }
+
+  /**
+   * Status-observer listener: deliver in the background, never throw
+   */
+  notifyTaskTransition(transition: QueueStatusTransition): void {
+    const input = notificationForTransition(transition, this.orgId);
+    if (input) {
+      this.notify(input).catch(error => {
+        console.warn('[WebhookDispatcher] Task notification failed:', error);
+      });
+    }
+  }
+
+  /**
+   * PR review listener: deliver in the background, never throw
+   */
+  notifyPRReviewDecision(cycle: PRReviewCycle, state: PRReviewState): void {
+    this.notify(notificationForPRReviewDecision(cycle, state, this.orgId)).catch(error => {
+      console.warn('[WebhookDispatcher] PR review notification failed:', error);
+    });
+  }
+
+  /**
+   * Send a test notification to one webhook regardless of its filters
+   * @returns delivery record, or null if the webhook does not exist
+   */
+  async sendTest(webhookId: string): Promise<WebhookDeliveryRecord | null> {
+    const webhook = await this.store.get(webhookId);
+    if (!webhook) {
+      return null;
+    }
+    const notification = buildNotification({
+      orgId: this.orgId,
+      type: webhook.events[0] ?? 'TASK_COMPLETED',
+      severity: 'info',
+      title: 'Test notification',
+      message: `Test delivery for webhook "${webhook.name}"`,
+    });
+    return this.deliver(webhook, notification, true);
+  }
+
+  private async deliver(webhook: WebhookDefinition, notification: Notification, test = false): Promise<WebhookDeliveryRecord> {
+    const createdAt = new Date().toISOString();
+    const body = JSON.stringify(buildWebhookBody(webhook.format, notification));
+    let attempts = 0;
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    while (attempts < this.maxAttempts) {
+      if (attempts > 0) {
+        await sleep(this.retryBaseMs * 2 ** (attempts - 1));
+      }
+      attempts++;
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'pm-orchestrator-runner',
+        'X-PM-Event': notification.type,
+        'X-PM-Delivery': notification.notificationId,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      };
+      if (webhook.secret) {
+        headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(webhook.secret, timestamp, body);
+      }
+
+      try {
+        const response = await this.fetchFn(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        responseStatus = response.status;
+        if (response.ok) {
+          error = undefined;
+          break;
+        }
+        error = `HTTP ${response.status}`;
+        if (response.status !== 429 && response.status < 500) {
+          break;
+        }
+      } catch (err) {
+        responseStatus = undefined;
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    const record: WebhookDeliveryRecord = {
+      delivery_id: uuidv4(),
+      webhook_id: webhook.webhook_id,
+      notification_id: notification.notificationId,
+      event: notification.type,
+      status: error ? 'FAILED' : 'SUCCESS',
+      attempts,
+      ...(responseStatus !== undefined ? { response_status: responseStatus } : {}),
+      ...(error ? { error } : {}),
+      ...(test ? { test: true } : {}),
+      created_at: createdAt,
+      completed_at: new Date().toISOString(),
+    };
+    await this.store.recordDelivery(record);
+    return record;
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Webhook Store - Persisted outbound webhook definitions and delivery log
+ * Per spec/39_WEBHOOKS.md
+ *
+ * Storage layout:
+ *   {stateDir}/webhooks/webhooks.json    - webhook definitions (secrets included)
+ *   {stateDir}/webhooks/deliveries.json  - delivery log (capped, newest last)
+ *
+ * Files are re-read on every call so that the Web UI and a separately
+ * running runner process always see the same configuration.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { NotificationType } from '../web/dal/types';
+
+/**
+ * Body preset
+ * - json:    { event, notification } signed with the webhook secret
+ * - slack:   Slack incoming-webhook body ({ text })
+ * - discord: Discord webhook body ({ embeds })
+ */
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+export const WEBHOOK_FORMATS: readonly WebhookFormat[] = ['json', 'slack', 'discord'];
+
+export const WEBHOOK_EVENTS: readonly NotificationType[] = [
+  'TASK_AWAITING_RESPONSE',
+  'TASK_ERROR',
+  'TASK_COMPLETED',
+  'AGENT_OFFLINE',
+  'QUEUE_STUCK',
+  'PR_REVIEW_DECISION',
+];
+
+/**
+ * Max delivery records kept (all webhooks together)
+ */
+export const MAX_DELIVERY_RECORDS = 500;
+
+/**
+ * Persisted webhook definition
+ */
+export interface WebhookDefinition {
+  webhook_id: string;
+  name: string;
+  url: string;
+  /** HMAC-SHA256 signing secret (never returned by the API) */
+  secret?: string;
+  format: WebhookFormat;
+  /** Events to deliver (empty = all) */
+  events: NotificationType[];
+  /** Project IDs or project paths to deliver for (empty = all) */
+  projects: string[];
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fields accepted on create/update. An empty secret clears it.
+ */
+export interface WebhookInput {
+  name?: string;
+  url?: string;
+  secret?: string;
+  format?: WebhookFormat;
+  events?: NotificationType[];
+  projects?: string[];
+  enabled?: boolean;
+}
+
+/**
+ * One delivery of a notification to a webhook (after all retries)
+ */
+export interface WebhookDeliveryRecord {
+  delivery_id: string;
+  webhook_id: string;
+  notification_id: string;
+  event: NotificationType;
+  status: 'SUCCESS' | 'FAILED';
+  attempts: number;
+  /** HTTP status of the last attempt (absent on network errors) */
+  response_status?: number;
+  error?: string;
+  /** Sent via "send test" */
+  test?: boolean;
+  created_at: string;
+  completed_at: string;
+}
+
+interface PersistedWebhooks {
+  version: 1;
+  webhooks: WebhookDefinition[];
+}
+
+interface PersistedDeliveries {
+  version: 1;
+  deliveries: WebhookDeliveryRecord[];
+}
+
+/**
+ * Error thrown when webhook input fails validation
+ */
+export class WebhookValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'WebhookValidationError';
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Validate webhook input. `existing` is the webhook being updated (if any).
+ */
+export function validateWebhookInput(input: WebhookInput, existing?: WebhookDefinition): string[] {
+  const errors: string[] = [];
+  const merged = { ...existing, ...input };
+
+  if (!merged.name || typeof merged.name !== 'string' || merged.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+  if (!merged.url || typeof merged.url !== 'string') {
+    errors.push('url is required');
+  } else {
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(merged.url).protocol;
+    } catch {
+      protocol = undefined;
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      errors.push('url must be an http(s) URL');
+    }
+  }
+  if (input.secret !== undefined && typeof input.secret !== 'string') {
+    errors.push('secret must be a string');
+  }
+  if (merged.format !== undefined && !WEBHOOK_FORMATS.includes(merged.format)) {
+    errors.push(`format must be one of ${WEBHOOK_FORMATS.join(', ')}`);
+  }
+  if (merged.events !== undefined) {
+    if (!isStringArray(merged.events)) {
+      errors.push('events must be an array of strings');
+    } else {
+      const unknown = merged.events.filter(e => !WEBHOOK_EVENTS.includes(e));
+      if (unknown.length > 0) {
+        errors.push(`unknown events: ${unknown.join(', ')} (allowed: ${WEBHOOK_EVENTS.join(', ')})`);
+      }
+    }
+  }
+  if (merged.projects !== undefined && !isStringArray(merged.projects)) {
+    errors.push('projects must be an array of strings');
+  }
+  if (merged.enabled !== undefined && typeof merged.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  return errors;
+}
+
+export interface WebhookStoreConfig {
+  stateDir: string;
+}
+
+/**
+ * File-backed webhook store
+ */
+export class WebhookStore {
+  private readonly dir: string;
+  private readonly webhooksFile: string;
+  private readonly deliveriesFile: string;
+
+  constructor(config: WebhookStoreConfig) {
+    this.dir = path.join(config.stateDir, 'webhooks');
+    this.webhooksFile = path.join(this.dir, 'webhooks.json');
+    this.deliveriesFile = path.join(this.dir, 'deliveries.json');
+  }
+
+  /**
+   * List all webhooks (oldest first)
+   */
+  async list(): Promise<WebhookDefinition[]> {
+    return this.loadWebhooks();
+  }
+
+  /**
+   * Get a webhook by ID
+   */
+  async get(webhookId: string): Promise<WebhookDefinition | null> {
+    return this.loadWebhooks().find(w => w.webhook_id === webhookId) ?? null;
+  }
+
+  /**
+   * Create a webhook
+   * @throws WebhookValidationError
+   */
+  async create(input: WebhookInput, now: Date = new Date()): Promise<WebhookDefinition> {
+    const errors = validateWebhookInput(input);
+    if (errors.length > 0) {
+      throw new WebhookValidationError(errors);
+    }
+
+    const timestamp = now.toISOString();
+    const webhook: WebhookDefinition = {
+      webhook_id: uuidv4(),
+      name: input.name!.trim(),
+      url: input.url!.trim(),
+      ...(input.secret ? { secret: input.secret } : {}),
+      format: input.format ?? 'json',
+      events: input.events ?? [],
+      projects: input.projects ?? [],
+      enabled: input.enabled ?? true,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    const webhooks = this.loadWebhooks();
+    webhooks.push(webhook);
+    this.saveWebhooks(webhooks);
+    return webhook;
+  }
+
+  /**
+   * Update a webhook
+   * @returns updated webhook, or null if not found
+   * @throws WebhookValidationError
+   */
+  async update(webhookId: string, input: WebhookInput, now: Date = new Date()): Promise<WebhookDefinition | null> {
+    const webhooks = this.loadWebhooks();
+    const index = webhooks.findIndex(w => w.webhook_id === webhookId);
+    if (index === -1) {
+      return null;
+    }
+
+    const existing = webhooks[index];
+    const errors = validateWebhookInput(input, existing);
+    if (errors.length > 0) {
+      throw new WebhookValidationError(errors);
+    }
+
+    const updated: WebhookDefinition = { ...existing, updated_at: now.toISOString() };
+    if (input.name !== undefined) updated.name = input.name.trim();
+    if (input.url !== undefined) updated.url = input.url.trim();
+    if (input.secret !== undefined) {
+      if (input.secret) {
+        updated.secret = input.secret;
+      } else {
+        delete updated.secret;
+      }
+    }
+    if (input.format !== undefined) updated.format = input.format;
+    if (input.events !== undefined) updated.events = input.events;
+    if (input.projects !== undefined) updated.projects = input.projects;
+    if (input.enabled !== undefined) updated.enabled = input.enabled;
+
+    webhooks[index] = updated;
+    this.saveWebhooks(webhooks);
+    return updated;
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   * @returns true if a webhook was deleted
+   */
+  async delete(webhookId: string): Promise<boolean> {
+    const webhooks = this.loadWebhooks();
+    const remaining = webhooks.filter(w => w.webhook_id !== webhookId);
+    if (remaining.length === webhooks.length) {
+      return false;
+    }
+    this.saveWebhooks(remaining);
+
+    const deliveries = this.loadDeliveries();
+    this.saveDeliveries(deliveries.filter(d => d.webhook_id !== webhookId));
+    return true;
+  }
+
+  /**
+   * Append a delivery record (oldest records beyond MAX_DELIVERY_RECORDS are dropped)
+   */
+  async recordDelivery(record: WebhookDeliveryRecord): Promise<void> {
+    const deliveries = this.loadDeliveries();
+    deliveries.push(record);
+    this.saveDeliveries(deliveries.slice(-MAX_DELIVERY_RECORDS));
+  }
+
+  /**
+   * Get delivery records (newest first), optionally for one webhook
+   */
+  async listDeliveries(webhookId?: string, limit?: number): Promise<WebhookDeliveryRecord[]> {
+    const deliveries = this.loadDeliveries()
+      .filter(d => !webhookId || d.webhook_id === webhookId)
+      .reverse();
+    return limit !== undefined ? deliveries.slice(0, limit) : deliveries;
+  }
+
+  private loadWebhooks(): WebhookDefinition[] {
+    if (!fs.existsSync(this.webhooksFile)) {
+      return [];
+    }
+    try {
+      const data: PersistedWebhooks = JSON.parse(fs.readFileSync(this.webhooksFile, 'utf-8'));
+      return Array.isArray(data.webhooks) ? data.webhooks : [];
+    } catch (error) {
+      console.warn(`[WebhookStore] Warning: Could not load webhooks from ${this.webhooksFile}:`, error);
+      return [];
+    }
+  }
+
+  private saveWebhooks(webhooks: WebhookDefinition[]): void {
+    const data: PersistedWebhooks = { version: 1, webhooks };
+    this.writeJson(this.webhooksFile, data);
+  }
+
+  private loadDeliveries(): WebhookDeliveryRecord[] {
+    if (!fs.existsSync(this.deliveriesFile)) {
+      return [];
+    }
+    try {
+      const data: PersistedDeliveries = JSON.parse(fs.readFileSync(this.deliveriesFile, 'utf-8'));
+      return Array.isArray(data.deliveries) ? data.deliveries : [];
+    } catch (error) {
+      console.warn(`[WebhookStore] Warning: Could not load webhook deliveries from ${this.deliveriesFile}:`, error);
+      return [];
+    }
+  }
+
+  private saveDeliveries(deliveries: WebhookDeliveryRecord[]): void {
+    const data: PersistedDeliveries = { version: 1, deliveries };
+    this.writeJson(this.deliveriesFile, data);
+  }
+
+  /**
+   * Write via temp file + rename so concurrent readers never see partial JSON.
+   * The directory is private to the user because definitions contain secrets.
+   */
+  private writeJson(filePath: string, data: unknown): void {
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(tmpPath, filePath);
+  }
+}
@@ -37,3 +37,19 @@ export type {
   ReviewSummaryForDashboard,
   FullPRReviewInfo,
 } from "./pr-review-service";
+
+// Task group → pull request
+export {
+  createTaskGroupPR,
+  TaskGroupPRError,
+  defaultTaskGroupBranch,
+  parseGitHubRepository,
+  buildTaskGroupPRBody,
+  buildTaskGroupCommitMessage,
+  collectTaskGroupFiles,
+} from "./task-group-pr";
+export type {
+  TaskGroupPROptions,
+  TaskGroupPRResult,
+  TaskGroupPRErrorCode,
+} from "./task-group-pr";
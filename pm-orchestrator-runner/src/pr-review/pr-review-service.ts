@@ -50,6 +50,11 @@ export interface FullPRReviewInfo {
   cycles: PRReviewCycle[];
 }
 
+export interface PRReviewServiceOptions {
+  /** Called after a cycle decision is stored (used for webhook notifications) */
+  onCycleDecision?: (cycle: PRReviewCycle, state: PRReviewState) => void;
+}
+
 // ==================== Implementation ====================
 
 export class PRReviewService {
@@ -59,16 +64,19 @@ export class PRReviewService {
   private duplicateDetector: DuplicateDetector;
   private cycleManager: CycleManager;
   private orgId: string;
+  private onCycleDecision?: PRReviewServiceOptions["onCycleDecision"];
 
   constructor(
     dal: IDataAccessLayer,
     github: IGitHubAdapter,
     llmClient: ReviewJudgeLLMClient,
-    orgId: string
+    orgId: string,
+    options: PRReviewServiceOptions = {}
   ) {
     this.dal = dal;
     this.github = github;
     this.orgId = orgId;
+    this.onCycleDecision = options.onCycleDecision;
     this.reviewJudge = new ReviewJudge(llmClient);
     this.duplicateDetector = new DuplicateDetector(llmClient);
     this.cycleManager = new CycleManager(llmClient);
@@ -147,11 +155,12 @@ export class PRReviewService {
 
       // Update state to REVIEW_COMPLETE
       const updatedState = await this.dal.getPRReviewState(projectId, prNumber);
-      await this.dal.updatePRReviewState(projectId, prNumber, {
+      const completedState = await this.dal.updatePRReviewState(projectId, prNumber, {
         status: "REVIEW_COMPLETE",
         version: updatedState!.version,
       });
 
+      this.notifyCycleDecision(cycle, completedState);
       return cycle;
     }
 
@@ -287,7 +296,7 @@ export class PRReviewService {
     // Update PR state based on cycle decision
     const currentState = await this.dal.getPRReviewState(projectId, prNumber);
     const newStatus = this.decisionToStatus(cycleDecision.decision);
-    await this.dal.updatePRReviewState(projectId, prNumber, {
+    const decidedState = await this.dal.updatePRReviewState(projectId, prNumber, {
       status: newStatus,
       totalComments: (currentState!.totalComments || 0) + commentRecords.length,
       pendingComments: counts.accepted,
@@ -299,6 +308,7 @@ export class PRReviewService {
       version: currentState!.version,
     });
 
+    this.notifyCycleDecision(cycle, decidedState);
     return cycle;
   }
 
@@ -460,6 +470,14 @@ export class PRReviewService {
     return { accepted, rejected, escalated, duplicate };
   }
 
+  private notifyCycleDecision(cycle: PRReviewCycle, state: PRReviewState): void {
+    try {
+      this.onCycleDecision?.(cycle, state);
+    } catch {
+      // Notification failures must not fail the review cycle
+    }
+  }
+
   private decisionToStatus(decision: CycleDecision): PRReviewStatus {
     return match(decision)
       .with("CONTINUE", () => "AWAITING_APPROVAL" as const)
@@ -0,0 +1,307 @@
+/**
+ * Task Group PR — open a pull request from a completed task group
+ *
+ * Per spec/48_TASK_GROUP_PR.md
+ *
+ * The files recorded in the group's task diffs (spec/46_TASK_DIFF.md) are
+ * committed on top of HEAD through a temporary index, so neither the working
+ * tree nor the real index is touched. The commit becomes a new branch that is
+ * pushed and opened as a PR, which is then registered with PRReviewService
+ * so the review loop picks it up.
+ */
+
+import { execFile as execFileCb } from "child_process";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import type { QueueItem } from "../queue/queue-store";
+import { loadTaskDiff } from "../checkpoint/task-diff";
+import { isGitRepo } from "../checkpoint/task-checkpoint";
+import { validateBranchName } from "../lib/branchRules";
+import type { IGitHubAdapter, PullRequestInfo, PRReviewState } from "../web/dal/pr-review-types";
+import type { PRReviewService } from "./pr-review-service";
+
+const execFileAsync = promisify(execFileCb);
+
+/** GitHub rejects PR bodies over 65536 characters */
+const MAX_BODY_LENGTH = 60000;
+const MAX_PROMPT_LENGTH = 1500;
+const MAX_OUTPUT_LENGTH = 2000;
+const MAX_TITLE_LENGTH = 72;
+
+/** Tasks in these states are still in flight; the group is not ready for a PR */
+const IN_FLIGHT_STATUSES = ["QUEUED", "RUNNING", "WAITING_CHILDREN", "AWAITING_RESPONSE"];
+
+// ==================== Types ====================
+
+export interface TaskGroupPROptions {
+  /** Project working directory (default: the tasks' project_path) */
+  projectDir?: string;
+  /** New branch name (default: feature/<task group id>) */
+  branch?: string;
+  /** PR base branch (default: the current branch) */
+  base?: string;
+  /** PR title (default: first line of the first task prompt) */
+  title?: string;
+  draft?: boolean;
+  /** owner/repo (default: parsed from the remote URL) */
+  repository?: string;
+  /** Remote to push to (default: origin) */
+  remote?: string;
+  /** Project id the PR review is registered under (default: projectDir) */
+  projectId?: string;
+  orgId?: string;
+  /** Review registration; skipped when omitted */
+  reviewService?: Pick<PRReviewService, "registerPR">;
+}
+
+export interface TaskGroupPRResult {
+  task_group_id: string;
+  branch: string;
+  base: string;
+  commit_sha: string;
+  files: string[];
+  pull_request: PullRequestInfo;
+  review: PRReviewState | null;
+}
+
+export type TaskGroupPRErrorCode =
+  | "NOT_FOUND"
+  | "NOT_READY"
+  | "NO_CHANGES"
+  | "NOT_GIT_REPO"
+  | "INVALID_BRANCH"
+  | "BRANCH_EXISTS"
+  | "NO_REPOSITORY";
+
+export class TaskGroupPRError extends Error {
+  constructor(message: string, public readonly code: TaskGroupPRErrorCode) {
+    super(message);
+    this.name = "TaskGroupPRError";
+  }
+}
+
+// ==================== Helpers ====================
+
+async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    maxBuffer: 16 * 1024 * 1024,
+    timeout: 120_000,
+    env: env ? { ...process.env, ...env } : undefined,
+  });
+  return stdout.trim();
+}
+
+function firstLine(text: string | undefined): string {
+  return (text || "").split("\n").map(l => l.trim()).find(l => l.length > 0) ?? "";
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + "\n…(truncated)" : text;
+}
+
+function byCreatedAt(a: QueueItem, b: QueueItem): number {
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Default branch name for a task group: feature/<sanitized group id>
+ */
+export function defaultTaskGroupBranch(taskGroupId: string): string {
+  const slug = taskGroupId
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/\.{2,}/g, ".")
+    .replace(/^[-.]+|[-.]+$/g, "")
+    .slice(0, 80);
+  return `feature/${slug || "task-group"}`;
+}
+
+/**
+ * Parse owner/repo from a GitHub remote URL (https, ssh or scp-like)
+ */
+export function parseGitHubRepository(remoteUrl: string): string | null {
+  const m = remoteUrl.trim().match(/github\.com[:/]([^/\s]+)\/([^/\s]+?)(?:\.git)?\/?$/);
+  return m ? `${m[1]}/${m[2]}` : null;
+}
+
+/**
+ * Commit message: PR title, then one line per completed task
+ */
+export function buildTaskGroupCommitMessage(taskGroupId: string, items: QueueItem[], title: string): string {
+  const lines = items
+    .filter(i => i.status === "COMPLETE")
+    .sort(byCreatedAt)
+    .map(i => `- ${truncate(firstLine(i.prompt), MAX_TITLE_LENGTH * 2)}`);
+  return `${title}\n\n${lines.join("\n")}\n\nTask group: ${taskGroupId}`;
+}
+
+/**
+ * PR body: each task's prompt, status, output and QA gate results
+ */
+export function buildTaskGroupPRBody(taskGroupId: string, items: QueueItem[]): string {
+  const sorted = [...items].sort(byCreatedAt);
+  const sections = sorted.map((item, index) => {
+    const parts = [`### ${index + 1}. ${firstLine(item.prompt) || item.task_id} (${item.status})`];
+    parts.push("", truncate(item.prompt, MAX_PROMPT_LENGTH).split("\n").map(l => `> ${l}`).join("\n"));
+    if (item.output) {
+      parts.push("", "<details><summary>Output</summary>", "", "```", truncate(item.output, MAX_OUTPUT_LENGTH), "```", "</details>");
+    }
+    if (item.qa_gates) {
+      const gates = item.qa_gates.gates
+        .map(g => `${g.gate_name} ${g.failing > 0 ? "FAIL" : "PASS"}`)
+        .join(", ");
+      parts.push("", `**QA**: ${item.qa_gates.verdict.final_status} (${gates || "no gates"})`);
+    }
+    return parts.join("\n");
+  });
+
+  const body = [
+    "## Summary",
+    "",
+    `Changes from task group \`${taskGroupId}\` (${sorted.length} task${sorted.length === 1 ? "" : "s"}).`,
+    "",
+    "## Tasks",
+    "",
+    sections.join("\n\n"),
+  ].join("\n");
+  return body.length > MAX_BODY_LENGTH ? body.slice(0, MAX_BODY_LENGTH) + "\n\n…(truncated)" : body;
+}
+
+/**
+ * Files changed by the group's completed tasks (from their recorded diffs),
+ * minus files whose change was reverted
+ */
+export function collectTaskGroupFiles(projectDir: string, items: QueueItem[]): string[] {
+  const files = new Set<string>();
+  for (const item of items) {
+    if (item.status !== "COMPLETE") continue;
+    const diff = loadTaskDiff(projectDir, item.task_id);
+    for (const file of diff?.files ?? []) {
+      if (!file.reverted) files.add(file.path);
+    }
+  }
+  return [...files].sort();
+}
+
+/**
+ * Commit the files onto HEAD through a temporary index.
+ * Returns null when the commit would not change anything.
+ */
+async function commitFiles(projectDir: string, files: string[], message: string): Promise<string | null> {
+  const tmpIndex = path.join(os.tmpdir(), `pm-pr-index-${process.pid}-${crypto.randomUUID()}`);
+  try {
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    await git(projectDir, ["read-tree", "HEAD"], env);
+    // --remove stages deletions; missing paths that are not in HEAD are ignored
+    await git(projectDir, ["update-index", "--add", "--remove", "--", ...files], env);
+    const tree = await git(projectDir, ["write-tree"], env);
+    if (tree === await git(projectDir, ["rev-parse", "HEAD^{tree}"])) {
+      return null;
+    }
+    return await git(projectDir, ["commit-tree", tree, "-p", "HEAD", "-m", message]);
+  } finally {
+    fs.rmSync(tmpIndex, { force: true });
+  }
+}
+
+// ==================== Main Flow ====================
+
+/**
+ * Create a branch with the task group's changes, push it, open a PR and
+ * register it for review.
+ *
+ * @throws TaskGroupPRError for an unusable group, branch or repository
+ */
+export async function createTaskGroupPR(
+  items: QueueItem[],
+  taskGroupId: string,
+  github: IGitHubAdapter,
+  options: TaskGroupPROptions = {}
+): Promise<TaskGroupPRResult> {
+  if (items.length === 0) {
+    throw new TaskGroupPRError(`Task group not found: ${taskGroupId}`, "NOT_FOUND");
+  }
+  const inFlight = items.filter(i => IN_FLIGHT_STATUSES.includes(i.status));
+  if (inFlight.length > 0) {
+    throw new TaskGroupPRError(`Task group has ${inFlight.length} unfinished task(s)`, "NOT_READY");
+  }
+  if (!items.some(i => i.status === "COMPLETE")) {
+    throw new TaskGroupPRError("Task group has no completed task", "NOT_READY");
+  }
+
+  const projectDir = options.projectDir ?? items.find(i => i.project_path)?.project_path;
+  if (!projectDir || !isGitRepo(projectDir)) {
+    throw new TaskGroupPRError("Project is not a git repository", "NOT_GIT_REPO");
+  }
+
+  const branch = options.branch ?? defaultTaskGroupBranch(taskGroupId);
+  const validation = validateBranchName(branch);
+  if (!validation.valid) {
+    throw new TaskGroupPRError(validation.reason ?? "Invalid branch name", "INVALID_BRANCH");
+  }
+  const base = options.base ?? await git(projectDir, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  if (base === "HEAD") {
+    throw new TaskGroupPRError("HEAD is detached; pass a base branch", "INVALID_BRANCH");
+  }
+  const branchExists = await git(projectDir, ["show-ref", "--verify", "--quiet", `refs/heads/${branch}`])
+    .then(() => true, () => false);
+  if (branchExists) {
+    throw new TaskGroupPRError(`Branch already exists: ${branch}`, "BRANCH_EXISTS");
+  }
+
+  const remote = options.remote ?? "origin";
+  const repository = options.repository
+    ?? parseGitHubRepository(await git(projectDir, ["remote", "get-url", remote]).catch(() => ""));
+  if (!repository || !/^[^/\s]+\/[^/\s]+$/.test(repository)) {
+    throw new TaskGroupPRError(`Cannot determine the GitHub repository of remote "${remote}"`, "NO_REPOSITORY");
+  }
+
+  const files = collectTaskGroupFiles(projectDir, items);
+  const title = options.title
+    ?? truncate(firstLine(items.slice().sort(byCreatedAt)[0].prompt), MAX_TITLE_LENGTH).split("\n")[0];
+  const commitSha = files.length > 0
+    ? await commitFiles(projectDir, files, buildTaskGroupCommitMessage(taskGroupId, items, title))
+    : null;
+  if (!commitSha) {
+    throw new TaskGroupPRError("Task group has no recorded changes to commit", "NO_CHANGES");
+  }
+
+  await git(projectDir, ["branch", branch, commitSha]);
+  await git(projectDir, ["push", "--set-upstream", remote, `refs/heads/${branch}`]);
+
+  const [owner, repo] = repository.split("/");
+  const pullRequest = await github.createPullRequest(owner, repo, {
+    title,
+    body: buildTaskGroupPRBody(taskGroupId, items),
+    head: branch,
+    base,
+    draft: options.draft,
+  });
+
+  const review = options.reviewService
+    ? await options.reviewService.registerPR({
+      projectId: options.projectId ?? projectDir,
+      orgId: options.orgId ?? "default",
+      prNumber: pullRequest.number,
+      prTitle: pullRequest.title,
+      prUrl: pullRequest.url,
+      baseBranch: pullRequest.baseBranch,
+      headBranch: pullRequest.headBranch,
+      repository: pullRequest.repository,
+    })
+    : null;
+
+  return {
+    task_group_id: taskGroupId,
+    branch,
+    base,
+    commit_sha: commitSha,
+    files,
+    pull_request: pullRequest,
+    review,
+  };
+}
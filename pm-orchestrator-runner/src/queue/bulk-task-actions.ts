@@ -0,0 +1,244 @@
+/**
+ * Bulk Task Actions - Cancel / retry / re-prioritise / delete tasks by filter
+ * Per spec/53_QUEUE_CONTROLS.md
+ *
+ * Used by POST /api/tasks/bulk and the REPL /queue command. A dry run
+ * reports how many tasks match without changing any of them.
+ */
+
+import {
+  IQueueStore,
+  QueueItem,
+  QueueItemStatus,
+  RETRYABLE_STATUSES,
+  TaskPriority,
+  TASK_PRIORITIES,
+  VALID_STATUS_TRANSITIONS,
+} from './queue-store';
+
+export type BulkTaskAction = 'cancel' | 'retry' | 'priority' | 'delete';
+
+export const BULK_TASK_ACTIONS: readonly BulkTaskAction[] = ['cancel', 'retry', 'priority', 'delete'];
+
+const QUEUE_ITEM_STATUSES = Object.keys(VALID_STATUS_TRANSITIONS) as QueueItemStatus[];
+
+/**
+ * Tasks that may be deleted: nothing is running for them or waiting on them
+ */
+const DELETABLE_STATUSES: readonly QueueItemStatus[] = ['QUEUED', 'COMPLETE', 'ERROR', 'CANCELLED'];
+
+/**
+ * Which tasks a bulk action targets. Every given criterion must match.
+ */
+export interface BulkTaskFilter {
+  status?: QueueItemStatus[];
+  task_group_id?: string;
+  /** Tasks without project_path belong to the runner's project root */
+  project_path?: string;
+  /** Only tasks created at least this many minutes ago */
+  older_than_minutes?: number;
+}
+
+export interface BulkTaskRequest {
+  action: BulkTaskAction;
+  filter: BulkTaskFilter;
+  /** New priority (action 'priority') */
+  priority?: TaskPriority;
+  /** Count matching tasks without changing them */
+  dry_run?: boolean;
+}
+
+export interface BulkTaskResult {
+  action: BulkTaskAction;
+  dry_run: boolean;
+  /** Tasks matching the filter */
+  matched: number;
+  /** Matching tasks the action applies to (e.g. only ERROR / CANCELLED for retry) */
+  applicable: number;
+  task_ids: string[];
+  /** Not set on a dry run */
+  succeeded?: string[];
+  failed?: Array<{ task_id: string; message: string }>;
+}
+
+/**
+ * Side effects of the caller (e.g. killing the Claude Code process of a cancelled task)
+ */
+export interface BulkTaskHooks {
+  onCancelled?(item: QueueItem): void;
+  onDeleted?(item: QueueItem): void;
+}
+
+/**
+ * Error thrown when a bulk request fails validation
+ */
+export class BulkTaskValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'BulkTaskValidationError';
+  }
+}
+
+/**
+ * Validate a bulk request body. `filter.status` may be a single status or a list.
+ * At least one filter criterion is required so a request never targets every task by accident.
+ * @throws BulkTaskValidationError
+ */
+export function parseBulkTaskRequest(body: unknown): BulkTaskRequest {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const rawFilter = (input.filter && typeof input.filter === 'object' ? input.filter : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  const filter: BulkTaskFilter = {};
+
+  const action = input.action as BulkTaskAction;
+  if (!BULK_TASK_ACTIONS.includes(action)) {
+    errors.push(`action must be one of ${BULK_TASK_ACTIONS.join(', ')}`);
+  }
+
+  if (rawFilter.status !== undefined) {
+    const statuses = Array.isArray(rawFilter.status) ? rawFilter.status : [rawFilter.status];
+    if (statuses.length === 0 || statuses.some(s => !QUEUE_ITEM_STATUSES.includes(s as QueueItemStatus))) {
+      errors.push(`filter.status must be one or more of ${QUEUE_ITEM_STATUSES.join(', ')}`);
+    } else {
+      filter.status = statuses as QueueItemStatus[];
+    }
+  }
+  for (const key of ['task_group_id', 'project_path'] as const) {
+    const value = rawFilter[key] ?? (key === 'project_path' ? rawFilter.project : undefined);
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      errors.push(`filter.${key} must be a non-empty string`);
+    } else {
+      filter[key] = value;
+    }
+  }
+  if (rawFilter.older_than_minutes !== undefined) {
+    const minutes = rawFilter.older_than_minutes;
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+      errors.push('filter.older_than_minutes must be a non-negative number');
+    } else {
+      filter.older_than_minutes = minutes;
+    }
+  }
+  if (Object.keys(filter).length === 0 && !errors.some(e => e.startsWith('filter.'))) {
+    errors.push('filter needs at least one of status, task_group_id, project_path, older_than_minutes');
+  }
+
+  if (action === 'priority' && !TASK_PRIORITIES.includes(input.priority as TaskPriority)) {
+    errors.push(`priority must be one of ${TASK_PRIORITIES.join(', ')}`);
+  }
+  if (input.dry_run !== undefined && typeof input.dry_run !== 'boolean') {
+    errors.push('dry_run must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    throw new BulkTaskValidationError(errors);
+  }
+  return {
+    action,
+    filter,
+    ...(action === 'priority' ? { priority: input.priority as TaskPriority } : {}),
+    dry_run: input.dry_run === true,
+  };
+}
+
+/**
+ * Whether a task matches every criterion of the filter
+ */
+export function matchesBulkFilter(item: QueueItem, filter: BulkTaskFilter, defaultProjectPath?: string, now: Date = new Date()): boolean {
+  if (filter.status && !filter.status.includes(item.status)) return false;
+  if (filter.task_group_id && item.task_group_id !== filter.task_group_id) return false;
+  if (filter.project_path && (item.project_path || defaultProjectPath) !== filter.project_path) return false;
+  if (filter.older_than_minutes !== undefined) {
+    const ageMs = now.getTime() - Date.parse(item.created_at);
+    if (!(ageMs >= filter.older_than_minutes * 60 * 1000)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the action applies to a task in its current state.
+ * Imported tasks are read-only: they can only be deleted.
+ * Running or waiting tasks are never deleted: cancel them first.
+ */
+export function canApplyBulkAction(item: QueueItem, action: BulkTaskAction): boolean {
+  if (item.imported && action !== 'delete') {
+    return false;
+  }
+  switch (action) {
+    case 'cancel':
+      return VALID_STATUS_TRANSITIONS[item.status].includes('CANCELLED');
+    case 'retry':
+      return RETRYABLE_STATUSES.includes(item.status);
+    case 'priority':
+      return item.status === 'QUEUED';
+    case 'delete':
+      return DELETABLE_STATUSES.includes(item.status);
+  }
+}
+
+/**
+ * Apply a bulk action to the tasks of `items` matching its filter.
+ * Failures of single tasks are reported, not thrown.
+ */
+export async function runBulkTaskAction(
+  store: IQueueStore,
+  items: QueueItem[],
+  request: BulkTaskRequest,
+  options: { defaultProjectPath?: string; now?: Date; hooks?: BulkTaskHooks } = {}
+): Promise<BulkTaskResult> {
+  const matched = items.filter(item => matchesBulkFilter(item, request.filter, options.defaultProjectPath, options.now));
+  const targets = matched.filter(item => canApplyBulkAction(item, request.action));
+  const result: BulkTaskResult = {
+    action: request.action,
+    dry_run: request.dry_run === true,
+    matched: matched.length,
+    applicable: targets.length,
+    task_ids: targets.map(item => item.task_id),
+  };
+  if (result.dry_run) {
+    return result;
+  }
+
+  const succeeded: string[] = [];
+  const failed: Array<{ task_id: string; message: string }> = [];
+  for (const item of targets) {
+    try {
+      const error = await applyToTask(store, item, request, options.hooks);
+      if (error) {
+        failed.push({ task_id: item.task_id, message: error });
+      } else {
+        succeeded.push(item.task_id);
+      }
+    } catch (error) {
+      failed.push({ task_id: item.task_id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { ...result, succeeded, failed };
+}
+
+/**
+ * Apply the action to one task. Returns an error message when the store rejected it.
+ */
+async function applyToTask(store: IQueueStore, item: QueueItem, request: BulkTaskRequest, hooks: BulkTaskHooks = {}): Promise<string | null> {
+  switch (request.action) {
+    case 'cancel': {
+      const updated = await store.updateStatusWithValidation(item.task_id, 'CANCELLED');
+      if (!updated.success) return updated.message ?? updated.error ?? 'Cancel failed';
+      hooks.onCancelled?.(item);
+      return null;
+    }
+    case 'retry': {
+      const updated = await store.retryTask(item.task_id);
+      return updated.success ? null : updated.message ?? updated.error ?? 'Retry failed';
+    }
+    case 'priority': {
+      const updated = await store.updatePriority(item.task_id, request.priority as TaskPriority);
+      return updated.success ? null : updated.message ?? updated.error ?? 'Priority update failed';
+    }
+    case 'delete':
+      await store.deleteItem(item.task_id);
+      hooks.onDeleted?.(item);
+      return null;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Fair-Share Claim Ordering
+ * Per spec/20_QUEUE_STORE.md Section 2.5 (Priority Lanes)
+ *
+ * claim() used to take the oldest QUEUED item, so a project that enqueued
+ * dozens of chunked subtasks starved every other project in the namespace.
+ * Candidates are now ordered by:
+ *   1. Effective priority lane (urgent > normal > background, with aging)
+ *   2. Weighted fair share across project_path values (least served first)
+ *   3. created_at (FIFO within a project)
+ */
+
+import type { QueueItem } from './queue-store';
+
+/**
+ * Priority lanes for claim() ordering (urgent first, background last)
+ */
+export type TaskPriority = 'urgent' | 'normal' | 'background';
+
+export const TASK_PRIORITIES: readonly TaskPriority[] = ['urgent', 'normal', 'background'];
+
+/**
+ * Default aging interval: a waiting task is promoted one lane per 15 minutes
+ */
+export const DEFAULT_PRIORITY_AGING_MS = 15 * 60 * 1000;
+
+/**
+ * Fair-share configuration (shared by all queue store implementations)
+ */
+export interface FairShareConfig {
+  /** Time a task waits before being promoted one lane (0 disables aging) */
+  agingMs?: number;
+  /** Relative share per project_path (default 1). Weight 2 gets twice the claims. */
+  projectWeights?: Record<string, number>;
+}
+
+/**
+ * Normalize a priority value, falling back to 'normal'
+ */
+export function normalizePriority(priority: unknown): TaskPriority {
+  return TASK_PRIORITIES.includes(priority as TaskPriority) ? (priority as TaskPriority) : 'normal';
+}
+
+/**
+ * Lane a task is claimed from, after aging.
+ * Promotion is measured from created_at (updated_at moves on dependency flags).
+ */
+export function getEffectivePriority(
+  item: Pick<QueueItem, 'priority' | 'created_at'>,
+  now: Date = new Date(),
+  agingMs: number = DEFAULT_PRIORITY_AGING_MS
+): TaskPriority {
+  const lane = TASK_PRIORITIES.indexOf(normalizePriority(item.priority));
+  if (agingMs <= 0) {
+    return TASK_PRIORITIES[lane];
+  }
+  const waited = now.getTime() - new Date(item.created_at).getTime();
+  const promotions = Math.max(0, Math.floor(waited / agingMs));
+  return TASK_PRIORITIES[Math.max(0, lane - promotions)];
+}
+
+/**
+ * Orders claim candidates and tracks how much each project has been served.
+ *
+ * Each project has a virtual time that advances by 1/weight per claim; the
+ * project with the lowest virtual time goes next. A project that (re)appears
+ * starts at the current minimum so idle time is not banked as credit.
+ */
+export class FairShareScheduler {
+  private readonly agingMs: number;
+  private readonly projectWeights: Record<string, number>;
+  private readonly virtualTime: Map<string, number> = new Map();
+
+  constructor(config: FairShareConfig = {}) {
+    this.agingMs = config.agingMs ?? DEFAULT_PRIORITY_AGING_MS;
+    this.projectWeights = config.projectWeights ?? {};
+  }
+
+  /**
+   * Sort QUEUED candidates into claim order (does not mutate the input).
+   * Pass every QUEUED task, before any canClaim filtering: projects missing
+   * here are treated as idle and forget how much they have been served.
+   */
+  order(candidates: QueueItem[], now: Date = new Date()): QueueItem[] {
+    const present = new Set(candidates.map(item => projectKey(item)));
+    for (const key of this.virtualTime.keys()) {
+      if (!present.has(key)) {
+        this.virtualTime.delete(key);
+      }
+    }
+    const known = [...this.virtualTime.values()];
+    const floor = known.length > 0 ? Math.min(...known) : 0;
+    for (const key of present) {
+      if (!this.virtualTime.has(key)) {
+        this.virtualTime.set(key, floor);
+      }
+    }
+
+    const lane = (item: QueueItem) => TASK_PRIORITIES.indexOf(getEffectivePriority(item, now, this.agingMs));
+    return [...candidates].sort((a, b) =>
+      lane(a) - lane(b) ||
+      this.virtualTime.get(projectKey(a))! - this.virtualTime.get(projectKey(b))! ||
+      a.created_at.localeCompare(b.created_at)
+    );
+  }
+
+  /**
+   * Charge a successful claim to the item's project
+   */
+  recordClaim(item: QueueItem): void {
+    const key = projectKey(item);
+    const weight = this.projectWeights[key] ?? 1;
+    this.virtualTime.set(key, (this.virtualTime.get(key) ?? 0) + 1 / (weight > 0 ? weight : 1));
+  }
+
+  /**
+   * Effective lane of an item under this scheduler's aging config
+   */
+  getEffectivePriority(item: QueueItem, now: Date = new Date()): TaskPriority {
+    return getEffectivePriority(item, now, this.agingMs);
+  }
+}
+
+function projectKey(item: QueueItem): string {
+  return item.project_path ?? '';
+}
@@ -22,6 +22,7 @@ import {
   QueueItemStatus,
   ProgressEvent,
   ClaimResult,
+  ClaimOptions,
   StatusUpdateResult,
   TaskGroupSummary,
   TaskGroupStatus,
@@ -30,12 +31,20 @@ import {
   ClarificationRequest,
   ConversationEntry,
   isValidStatusTransition,
+  getRetryRejection,
   IQueueStore,
   TaskTypeValue,
   EnqueueOptions,
   RollbackHistoryEntry,
   deriveTaskGroupStatus,
+  isDependencyGateOpen,
+  setDependencyBlock,
+  validateDependencies,
+  PriorityUpdateResult,
 } from './queue-store';
+import { FairShareConfig, FairShareScheduler, TaskPriority } from './fair-share';
+import { addTaskUsage, type TaskUsage } from './task-usage';
+import type { QAGateReport } from '../core/qa-gates';
 
 /**
  * File Queue Store configuration
@@ -45,6 +54,8 @@ export interface FileQueueStoreConfig {
   namespace: string;
   /** State directory for persistence */
   stateDir: string;
+  /** v2.4: Priority aging and per-project weights for claim() */
+  fairShare?: FairShareConfig;
 }
 
 /**
@@ -76,9 +87,11 @@ export class FileQueueStore implements IQueueStore {
   private archivedGroups: Set<string> = new Set();
   private groupStatusOverrides: Map<string, TaskGroupStatus> = new Map();
   private initialized: boolean = false;
+  private readonly fairShare: FairShareScheduler;
 
   constructor(config: FileQueueStoreConfig) {
     this.namespace = config.namespace;
+    this.fairShare = new FairShareScheduler(config.fairShare);
     this.stateDir = config.stateDir;
     this.queueDir = path.join(this.stateDir, 'queue');
     this.tasksFile = path.join(this.queueDir, 'tasks.json');
@@ -324,9 +337,13 @@ export class FileQueueStore implements IQueueStore {
     options?: EnqueueOptions
   ): Promise<QueueItem> {
     const now = new Date().toISOString();
+    const resolvedTaskId = taskId || uuidv4();
+    const dependsOn = options?.dependsOn?.length
+      ? await validateDependencies(resolvedTaskId, options.dependsOn, id => this.getItem(id))
+      : undefined;
     const item: QueueItem = {
       namespace: this.namespace,
-      task_id: taskId || uuidv4(),
+      task_id: resolvedTaskId,
       task_group_id: taskGroupId,
       session_id: sessionId,
       status: 'QUEUED',
@@ -339,6 +356,9 @@ export class FileQueueStore implements IQueueStore {
       ...(options?.addTest ? { add_test: true } : {}),
       ...(options?.addReview ? { add_review: true } : {}),
       ...(options?.projectAlias ? { project_alias: options.projectAlias } : {}),
+      ...(dependsOn ? { depends_on: dependsOn, dependency_policy: options?.onDependencyFailure ?? 'cancel' } : {}),
+      ...(options?.priority ? { priority: options.priority } : {}),
+      ...(options?.attachments?.length ? { attachments: options.attachments } : {}),
     };
 
     this.tasks.set(this.getTaskKey(item.task_id), item);
@@ -362,29 +382,46 @@ export class FileQueueStore implements IQueueStore {
   }
 
   /**
-   * Claim the oldest QUEUED task
+   * Claim the next QUEUED task in priority / fair-share order (see fair-share.ts)
+   * Candidates rejected by options.canClaim stay QUEUED.
    */
-  async claim(): Promise<ClaimResult> {
-    let oldest: QueueItem | null = null;
-
+  async claim(options?: ClaimOptions): Promise<ClaimResult> {
+    const queued: QueueItem[] = [];
     for (const item of this.tasks.values()) {
       if (item.namespace === this.namespace && item.status === 'QUEUED') {
-        if (!oldest || item.created_at < oldest.created_at) {
-          oldest = item;
-        }
+        queued.push(item);
+      }
+    }
+    // Ordered before canClaim filtering so held-back projects keep their share
+    const candidates = this.fairShare.order(queued).filter(item => !options?.canClaim || options.canClaim(item));
+
+    let next: QueueItem | null = null;
+    for (const candidate of candidates) {
+      const gateOpen = await isDependencyGateOpen(this, candidate, blocked => {
+        setDependencyBlock(candidate, blocked);
+        this.saveTasks();
+      });
+      if (gateOpen) {
+        next = candidate;
+        break;
       }
     }
 
-    if (!oldest) {
+    if (!next) {
       return { success: false };
     }
+    // Dependency checks yield, so a concurrent claim may have taken the item meanwhile
+    if (next.status !== 'QUEUED') {
+      return { success: false, error: 'Task already claimed by another process' };
+    }
 
     const now = new Date().toISOString();
-    oldest.status = 'RUNNING';
-    oldest.updated_at = now;
+    next.status = 'RUNNING';
+    next.updated_at = now;
+    this.fairShare.recordClaim(next);
     this.saveTasks();
 
-    return { success: true, item: oldest };
+    return { success: true, item: next };
   }
 
   /**
@@ -473,6 +510,46 @@ export class FileQueueStore implements IQueueStore {
     };
   }
 
+  /**
+   * Runner only: RUNNING -> QUEUED
+   */
+  async releaseClaim(taskId: string): Promise<boolean> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item || item.status !== 'RUNNING') {
+      return false;
+    }
+    item.status = 'QUEUED';
+    item.updated_at = new Date().toISOString();
+    this.saveTasks();
+    return true;
+  }
+
+  /**
+   * v2.4: Change the priority lane of a QUEUED task
+   */
+  async updatePriority(taskId: string, priority: TaskPriority): Promise<PriorityUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const oldPriority = task.priority ?? 'normal';
+    if (task.status !== 'QUEUED') {
+      return {
+        success: false,
+        task_id: taskId,
+        old_priority: oldPriority,
+        error: 'Task not queued',
+        message: `Priority can only be changed while QUEUED (task is ${task.status})`,
+      };
+    }
+
+    task.priority = priority;
+    task.updated_at = new Date().toISOString();
+    this.saveTasks();
+
+    return { success: true, task_id: taskId, old_priority: oldPriority, new_priority: priority };
+  }
+
   /**
    * Set task to AWAITING_RESPONSE with clarification details
    */
@@ -572,6 +649,31 @@ export class FileQueueStore implements IQueueStore {
     };
   }
 
+  /**
+   * Re-queue an ERROR / CANCELLED task, clearing the error of the previous run
+   */
+  async retryTask(taskId: string): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const rejection = getRetryRejection(task);
+    if (rejection) {
+      return rejection;
+    }
+
+    const oldStatus = task.status;
+    task.status = 'QUEUED';
+    task.updated_at = new Date().toISOString();
+    delete task.error_message;
+    delete task.failure_category;
+    delete task.failure_summary;
+    delete task.failure_next_actions;
+    this.saveTasks();
+
+    return { success: true, task_id: taskId, old_status: oldStatus, new_status: 'QUEUED' };
+  }
+
   /**
    * Get items by status for this namespace
    */
@@ -931,6 +1033,58 @@ export class FileQueueStore implements IQueueStore {
     this.saveRunners();
   }
 
+  /**
+   * v2.5: Add executor usage to the task's usage totals
+   */
+  async recordUsage(taskId: string, usage: TaskUsage): Promise<void> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item) return;
+    item.usage = addTaskUsage(item.usage, usage);
+    item.updated_at = new Date().toISOString();
+    this.saveTasks();
+  }
+
+  /**
+   * v2.7: Store the latest QA gate run on the task
+   */
+  async recordQAGates(taskId: string, report: QAGateReport): Promise<void> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item) return;
+    item.qa_gates = report;
+    item.updated_at = new Date().toISOString();
+    this.saveTasks();
+  }
+
+  /**
+   * v2.8: Set or clear the Claude Code session id of the task
+   */
+  async setClaudeSessionId(taskId: string, sessionId: string | undefined): Promise<void> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item) return;
+    const now = new Date().toISOString();
+    if (sessionId === undefined) {
+      delete item.claude_session_id;
+      delete item.claude_session_at;
+    } else {
+      item.claude_session_id = sessionId;
+      item.claude_session_at = now;
+    }
+    item.updated_at = now;
+    this.saveTasks();
+  }
+
+  /**
+   * Insert a task exactly as given, in item.namespace (bundle import).
+   * Returns false when the task already exists.
+   */
+  async importItem(item: QueueItem): Promise<boolean> {
+    const key = this.getTaskKey(item.task_id, item.namespace);
+    if (this.tasks.has(key)) return false;
+    this.tasks.set(key, { ...item });
+    this.saveTasks();
+    return true;
+  }
+
   /**
    * v2.3: Set or clear checkpoint_ref on a task
    */
@@ -18,6 +18,7 @@ import {
   QueueItemStatus,
   ProgressEvent,
   ClaimResult,
+  ClaimOptions,
   StatusUpdateResult,
   TaskGroupSummary,
   TaskGroupStatus,
@@ -26,12 +27,20 @@ import {
   ClarificationRequest,
   ConversationEntry,
   isValidStatusTransition,
+  getRetryRejection,
   IQueueStore,
   TaskTypeValue,
   EnqueueOptions,
   RollbackHistoryEntry,
   deriveTaskGroupStatus,
+  isDependencyGateOpen,
+  setDependencyBlock,
+  validateDependencies,
+  PriorityUpdateResult,
 } from './queue-store';
+import { FairShareConfig, FairShareScheduler, TaskPriority } from './fair-share';
+import { addTaskUsage, type TaskUsage } from './task-usage';
+import type { QAGateReport } from '../core/qa-gates';
 
 /**
  * In-Memory Queue Store configuration
@@ -39,6 +48,8 @@ import {
 export interface InMemoryQueueStoreConfig {
   /** Namespace for this store instance */
   namespace: string;
+  /** v2.4: Priority aging and per-project weights for claim() */
+  fairShare?: FairShareConfig;
 }
 
 /**
@@ -51,9 +62,11 @@ export class InMemoryQueueStore implements IQueueStore {
   private readonly runners: Map<string, RunnerRecord> = new Map();
   private readonly archivedGroups: Set<string> = new Set();
   private readonly groupStatusOverrides: Map<string, TaskGroupStatus> = new Map();
+  private readonly fairShare: FairShareScheduler;
 
   constructor(config: InMemoryQueueStoreConfig) {
     this.namespace = config.namespace;
+    this.fairShare = new FairShareScheduler(config.fairShare);
   }
 
   /**
@@ -139,9 +152,13 @@ export class InMemoryQueueStore implements IQueueStore {
     options?: EnqueueOptions
   ): Promise<QueueItem> {
     const now = new Date().toISOString();
+    const resolvedTaskId = taskId || uuidv4();
+    const dependsOn = options?.dependsOn?.length
+      ? await validateDependencies(resolvedTaskId, options.dependsOn, id => this.getItem(id))
+      : undefined;
     const item: QueueItem = {
       namespace: this.namespace,
-      task_id: taskId || uuidv4(),
+      task_id: resolvedTaskId,
       task_group_id: taskGroupId,
       session_id: sessionId,
       status: 'QUEUED',
@@ -154,6 +171,9 @@ export class InMemoryQueueStore implements IQueueStore {
       ...(options?.addTest ? { add_test: true } : {}),
       ...(options?.addReview ? { add_review: true } : {}),
       ...(options?.projectAlias ? { project_alias: options.projectAlias } : {}),
+      ...(dependsOn ? { depends_on: dependsOn, dependency_policy: options?.onDependencyFailure ?? 'cancel' } : {}),
+      ...(options?.priority ? { priority: options.priority } : {}),
+      ...(options?.attachments?.length ? { attachments: options.attachments } : {}),
     };
 
     this.tasks.set(this.getTaskKey(item.task_id), item);
@@ -176,30 +196,41 @@ export class InMemoryQueueStore implements IQueueStore {
   }
 
   /**
-   * Claim the oldest QUEUED task
+   * Claim the next QUEUED task in priority / fair-share order (see fair-share.ts)
+   * Candidates rejected by options.canClaim stay QUEUED.
    */
-  async claim(): Promise<ClaimResult> {
-    // Find oldest QUEUED task in this namespace
-    let oldest: QueueItem | null = null;
-
+  async claim(options?: ClaimOptions): Promise<ClaimResult> {
+    const queued: QueueItem[] = [];
     for (const item of this.tasks.values()) {
       if (item.namespace === this.namespace && item.status === 'QUEUED') {
-        if (!oldest || item.created_at < oldest.created_at) {
-          oldest = item;
-        }
+        queued.push(item);
+      }
+    }
+    // Ordered before canClaim filtering so held-back projects keep their share
+    const candidates = this.fairShare.order(queued).filter(item => !options?.canClaim || options.canClaim(item));
+
+    let next: QueueItem | null = null;
+    for (const candidate of candidates) {
+      if (await isDependencyGateOpen(this, candidate, blocked => setDependencyBlock(candidate, blocked))) {
+        next = candidate;
+        break;
       }
     }
 
-    if (!oldest) {
+    if (!next) {
       return { success: false };
     }
+    // Dependency checks yield, so a concurrent claim may have taken the item meanwhile
+    if (next.status !== 'QUEUED') {
+      return { success: false, error: 'Task already claimed by another process' };
+    }
 
-    // Atomic update (in-memory is single-threaded, so this is safe)
     const now = new Date().toISOString();
-    oldest.status = 'RUNNING';
-    oldest.updated_at = now;
+    next.status = 'RUNNING';
+    next.updated_at = now;
+    this.fairShare.recordClaim(next);
 
-    return { success: true, item: oldest };
+    return { success: true, item: next };
   }
 
   /**
@@ -287,6 +318,44 @@ export class InMemoryQueueStore implements IQueueStore {
     };
   }
 
+  /**
+   * Runner only: RUNNING -> QUEUED
+   */
+  async releaseClaim(taskId: string): Promise<boolean> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item || item.status !== 'RUNNING') {
+      return false;
+    }
+    item.status = 'QUEUED';
+    item.updated_at = new Date().toISOString();
+    return true;
+  }
+
+  /**
+   * v2.4: Change the priority lane of a QUEUED task
+   */
+  async updatePriority(taskId: string, priority: TaskPriority): Promise<PriorityUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const oldPriority = task.priority ?? 'normal';
+    if (task.status !== 'QUEUED') {
+      return {
+        success: false,
+        task_id: taskId,
+        old_priority: oldPriority,
+        error: 'Task not queued',
+        message: `Priority can only be changed while QUEUED (task is ${task.status})`,
+      };
+    }
+
+    task.priority = priority;
+    task.updated_at = new Date().toISOString();
+
+    return { success: true, task_id: taskId, old_priority: oldPriority, new_priority: priority };
+  }
+
   /**
    * Set task to AWAITING_RESPONSE with clarification details
    */
@@ -386,6 +455,30 @@ export class InMemoryQueueStore implements IQueueStore {
     };
   }
 
+  /**
+   * Re-queue an ERROR / CANCELLED task, clearing the error of the previous run
+   */
+  async retryTask(taskId: string): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const rejection = getRetryRejection(task);
+    if (rejection) {
+      return rejection;
+    }
+
+    const oldStatus = task.status;
+    task.status = 'QUEUED';
+    task.updated_at = new Date().toISOString();
+    delete task.error_message;
+    delete task.failure_category;
+    delete task.failure_summary;
+    delete task.failure_next_actions;
+
+    return { success: true, task_id: taskId, old_status: oldStatus, new_status: 'QUEUED' };
+  }
+
   /**
    * Get items by status for this namespace
    */
@@ -766,6 +859,54 @@ export class InMemoryQueueStore implements IQueueStore {
     this.runners.delete(key);
   }
 
+  /**
+   * v2.5: Add executor usage to the task's usage totals
+   */
+  async recordUsage(taskId: string, usage: TaskUsage): Promise<void> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item) return;
+    item.usage = addTaskUsage(item.usage, usage);
+    item.updated_at = new Date().toISOString();
+  }
+
+  /**
+   * v2.7: Store the latest QA gate run on the task
+   */
+  async recordQAGates(taskId: string, report: QAGateReport): Promise<void> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item) return;
+    item.qa_gates = report;
+    item.updated_at = new Date().toISOString();
+  }
+
+  /**
+   * v2.8: Set or clear the Claude Code session id of the task
+   */
+  async setClaudeSessionId(taskId: string, sessionId: string | undefined): Promise<void> {
+    const item = this.tasks.get(this.getTaskKey(taskId));
+    if (!item) return;
+    const now = new Date().toISOString();
+    if (sessionId === undefined) {
+      delete item.claude_session_id;
+      delete item.claude_session_at;
+    } else {
+      item.claude_session_id = sessionId;
+      item.claude_session_at = now;
+    }
+    item.updated_at = now;
+  }
+
+  /**
+   * Insert a task exactly as given, in item.namespace (bundle import).
+   * Returns false when the task already exists.
+   */
+  async importItem(item: QueueItem): Promise<boolean> {
+    const key = this.getTaskKey(item.task_id, item.namespace);
+    if (this.tasks.has(key)) return false;
+    this.tasks.set(key, { ...item });
+    return true;
+  }
+
   /**
    * v2.3: Set or clear checkpoint_ref on a task
    */
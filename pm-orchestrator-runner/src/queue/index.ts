@@ -19,6 +19,7 @@ export {
   QueueItemStatus,
   ProgressEvent,
   ClaimResult,
+  ClaimOptions,
   TaskGroupSummary,
   TaskGroupStatus,
   StatusUpdateResult,
@@ -27,18 +28,121 @@ export {
   RunnerStatus,
   VALID_STATUS_TRANSITIONS,
   isValidStatusTransition,
+  RETRYABLE_STATUSES,
+  getRetryRejection,
   QUEUE_TABLE_NAME,
   RUNNERS_TABLE_NAME,
   IQueueStore,
   TaskTypeValue,
+  EnqueueOptions,
+  DependencyFailurePolicy,
+  DependencyBlock,
+  DependencyCheck,
+  QueueDependencyError,
+  checkDependencies,
+  isDependencyGateOpen,
+  setDependencyBlock,
+  validateDependencies,
+  TaskPriority,
+  TASK_PRIORITIES,
+  PriorityUpdateResult,
+  ImportedTaskInfo,
 } from './queue-store';
 
+export {
+  FairShareScheduler,
+  FairShareConfig,
+  DEFAULT_PRIORITY_AGING_MS,
+  getEffectivePriority,
+  normalizePriority,
+} from './fair-share';
+
+export {
+  TaskUsage,
+  TaskUsageTotals,
+  addTaskUsage,
+  sumTaskUsage,
+} from './task-usage';
+
+export {
+  TaskAttachment,
+  AttachmentInput,
+  DecodedAttachment,
+  TaskAttachmentError,
+  TaskAttachmentErrorCode,
+  TASK_ATTACHMENT_LIMITS,
+  decodeAttachments,
+  saveTaskAttachments,
+  deleteTaskAttachments,
+  buildAttachmentPrompt,
+} from './task-attachments';
+
+export {
+  TaskGroupBundle,
+  BundledTask,
+  BundledTraceFile,
+  TaskGroupExportOptions,
+  TaskGroupImportOptions,
+  TaskGroupImportResult,
+  TaskGroupBundleValidationError,
+  TASK_GROUP_BUNDLE_FORMAT,
+  TASK_GROUP_BUNDLE_VERSION,
+  exportTaskGroupBundle,
+  importTaskGroupBundle,
+  validateTaskGroupBundle,
+  findStreamTraceFile,
+} from './task-group-bundle';
+
+export {
+  QueueEventStream,
+  QueueEventStreamOptions,
+  QueueEvent,
+  QueueEventPayload,
+  QueueEventType,
+  QueueEventListener,
+  QUEUE_EVENT_TYPES,
+  DEFAULT_HEARTBEAT_EVENT_INTERVAL_MS,
+  observeQueueEvents,
+  publishRunnerHeartbeats,
+} from './queue-event-stream';
+
+export {
+  QueueControl,
+  QueueControlMode,
+  QueueControlInput,
+  QueueControlStore,
+  QueueControlStoreConfig,
+  QueueControlValidationError,
+  QUEUE_CONTROL_MODES,
+  IN_FLIGHT_STATUSES,
+  validateQueueControlInput,
+  findQueueControl,
+  isHeldByControl,
+  getInFlightTasks,
+} from './queue-controls';
+
+export {
+  BulkTaskAction,
+  BulkTaskFilter,
+  BulkTaskRequest,
+  BulkTaskResult,
+  BulkTaskHooks,
+  BulkTaskValidationError,
+  BULK_TASK_ACTIONS,
+  parseBulkTaskRequest,
+  matchesBulkFilter,
+  canApplyBulkAction,
+  runBulkTaskAction,
+} from './bulk-task-actions';
+
 export {
   QueuePoller,
   QueuePollerConfig,
   QueuePollerState,
   QueuePollerEvents,
   TaskExecutor,
+  isWritingTask,
+  DEFAULT_USAGE_LIMIT_PAUSE_MS,
 } from './queue-poller';
 
 export {
@@ -50,3 +154,8 @@ export {
   FileQueueStore,
   FileQueueStoreConfig,
 } from './file-queue-store';
+
+export {
+  SQLiteQueueStore,
+  SQLiteQueueStoreConfig,
+} from './sqlite-queue-store';
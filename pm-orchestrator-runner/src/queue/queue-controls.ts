@@ -0,0 +1,230 @@
+/**
+ * Queue Controls - Operator pause / drain of a namespace or project
+ * Per spec/53_QUEUE_CONTROLS.md
+ *
+ * Storage layout:
+ *   {stateDir}/queue-controls.json - active controls
+ *
+ * A control stops runners from claiming new tasks until it is resumed:
+ * - pause: nothing in scope is claimed; in-flight tasks keep running
+ * - drain: like pause, but subtasks of in-flight parents are still claimed so
+ *          the in-flight work can finish. Drained once nothing is in flight.
+ *
+ * The file is re-read on every call so that the Web UI, the REPL and a
+ * separately running runner process always see the same controls, and a
+ * restarted runner honours them.
+ *
+ * A control with expires_at (the runner's usage limit pause, spec/50) is
+ * ignored once that time has passed and dropped on the next write.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { QueueItem, QueueItemStatus } from './queue-store';
+
+export type QueueControlMode = 'pause' | 'drain';
+
+export const QUEUE_CONTROL_MODES: readonly QueueControlMode[] = ['pause', 'drain'];
+
+/**
+ * Statuses counted as in flight while draining
+ */
+export const IN_FLIGHT_STATUSES: readonly QueueItemStatus[] = ['RUNNING', 'WAITING_CHILDREN'];
+
+/**
+ * Persisted queue control.
+ * Without project_path the control covers the whole namespace.
+ */
+export interface QueueControl {
+  namespace: string;
+  project_path?: string;
+  mode: QueueControlMode;
+  reason?: string;
+  created_at: string;
+  /** ISO 8601. Lifted automatically at this time (usage limit pause) */
+  expires_at?: string;
+}
+
+/**
+ * Fields accepted when pausing / draining
+ */
+export interface QueueControlInput {
+  namespace?: string;
+  project_path?: string;
+  mode?: QueueControlMode;
+  reason?: string;
+  expires_at?: string;
+}
+
+interface PersistedQueueControls {
+  version: 1;
+  controls: QueueControl[];
+}
+
+/**
+ * Error thrown when queue control input fails validation
+ */
+export class QueueControlValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'QueueControlValidationError';
+  }
+}
+
+/**
+ * Validate queue control input
+ */
+export function validateQueueControlInput(input: QueueControlInput): string[] {
+  const errors: string[] = [];
+  if (!input.namespace || typeof input.namespace !== 'string' || input.namespace.trim().length === 0) {
+    errors.push('namespace is required');
+  }
+  if (input.project_path !== undefined && (typeof input.project_path !== 'string' || input.project_path.trim().length === 0)) {
+    errors.push('project must be a non-empty string');
+  }
+  if (!input.mode || !QUEUE_CONTROL_MODES.includes(input.mode)) {
+    errors.push(`mode must be one of ${QUEUE_CONTROL_MODES.join(', ')}`);
+  }
+  if (input.reason !== undefined && typeof input.reason !== 'string') {
+    errors.push('reason must be a string');
+  }
+  if (input.expires_at !== undefined && (typeof input.expires_at !== 'string' || !Number.isFinite(Date.parse(input.expires_at)))) {
+    errors.push('expires_at must be an ISO 8601 date');
+  }
+  return errors;
+}
+
+/**
+ * Control that applies to a task, or null.
+ * Tasks without project_path belong to defaultProjectPath (the runner's project root).
+ * When a namespace and a project control both apply, pause wins over drain.
+ */
+export function findQueueControl(controls: QueueControl[], item: QueueItem, defaultProjectPath?: string): QueueControl | null {
+  const projectPath = item.project_path || defaultProjectPath;
+  const applicable = controls.filter(c =>
+    c.namespace === item.namespace && (!c.project_path || c.project_path === projectPath));
+  return applicable.find(c => c.mode === 'pause') ?? applicable[0] ?? null;
+}
+
+/**
+ * Whether a control keeps a QUEUED task from being claimed.
+ * activeTaskIds: tasks currently RUNNING or WAITING_CHILDREN (only consulted when draining).
+ */
+export function isHeldByControl(control: QueueControl | null, item: QueueItem, activeTaskIds: ReadonlySet<string>): boolean {
+  if (!control) {
+    return false;
+  }
+  if (control.mode === 'pause') {
+    return true;
+  }
+  return !item.parent_task_id || !activeTaskIds.has(item.parent_task_id);
+}
+
+/**
+ * Tasks of `items` still in flight under a control
+ */
+export function getInFlightTasks(control: QueueControl, items: QueueItem[], defaultProjectPath?: string): QueueItem[] {
+  return items.filter(item =>
+    IN_FLIGHT_STATUSES.includes(item.status) &&
+    item.namespace === control.namespace &&
+    (!control.project_path || (item.project_path || defaultProjectPath) === control.project_path));
+}
+
+export interface QueueControlStoreConfig {
+  stateDir: string;
+}
+
+/**
+ * File-backed queue control store
+ */
+export class QueueControlStore {
+  private readonly dir: string;
+  private readonly file: string;
+
+  constructor(config: QueueControlStoreConfig) {
+    this.dir = config.stateDir;
+    this.file = path.join(config.stateDir, 'queue-controls.json');
+  }
+
+  /**
+   * List controls (oldest first), optionally of one namespace
+   */
+  async list(namespace?: string, now: Date = new Date()): Promise<QueueControl[]> {
+    const controls = this.load(now).controls;
+    return namespace ? controls.filter(c => c.namespace === namespace) : controls;
+  }
+
+  /**
+   * Get the control of a namespace (project_path omitted) or project
+   */
+  async get(namespace: string, projectPath?: string, now: Date = new Date()): Promise<QueueControl | null> {
+    return this.load(now).controls.find(c => c.namespace === namespace && c.project_path === projectPath) ?? null;
+  }
+
+  /**
+   * Pause or drain a namespace / project. Replaces the existing control of the same scope.
+   * @throws QueueControlValidationError
+   */
+  async set(input: QueueControlInput, now: Date = new Date()): Promise<QueueControl> {
+    const errors = validateQueueControlInput(input);
+    if (errors.length > 0) {
+      throw new QueueControlValidationError(errors);
+    }
+
+    const control: QueueControl = {
+      namespace: input.namespace as string,
+      mode: input.mode as QueueControlMode,
+      created_at: now.toISOString(),
+    };
+    if (input.project_path) control.project_path = input.project_path;
+    if (input.reason) control.reason = input.reason;
+    if (input.expires_at) control.expires_at = new Date(input.expires_at).toISOString();
+
+    const data = this.load(now);
+    data.controls = data.controls.filter(c => !(c.namespace === control.namespace && c.project_path === control.project_path));
+    data.controls.push(control);
+    this.save(data);
+    return control;
+  }
+
+  /**
+   * Resume a namespace / project. Returns false when it was not paused or draining.
+   */
+  async clear(namespace: string, projectPath?: string, now: Date = new Date()): Promise<boolean> {
+    const data = this.load(now);
+    const remaining = data.controls.filter(c => !(c.namespace === namespace && c.project_path === projectPath));
+    if (remaining.length === data.controls.length) {
+      return false;
+    }
+    data.controls = remaining;
+    this.save(data);
+    return true;
+  }
+
+  /**
+   * Controls still in effect at `now` (expired ones are left out)
+   */
+  private load(now: Date): PersistedQueueControls {
+    if (!fs.existsSync(this.file)) {
+      return { version: 1, controls: [] };
+    }
+    try {
+      const data: PersistedQueueControls = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      const controls = Array.isArray(data.controls) ? data.controls : [];
+      return { version: 1, controls: controls.filter(c => !c.expires_at || Date.parse(c.expires_at) > now.getTime()) };
+    } catch (error) {
+      console.warn(`[QueueControlStore] Warning: Could not load queue controls from ${this.file}:`, error);
+      return { version: 1, controls: [] };
+    }
+  }
+
+  /**
+   * Write via temp file + rename so concurrent readers never see partial JSON
+   */
+  private save(data: PersistedQueueControls): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const tmpPath = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.file);
+  }
+}
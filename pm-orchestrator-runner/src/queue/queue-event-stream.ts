@@ -0,0 +1,314 @@
+/**
+ * Queue Event Stream
+ * Per spec/20_QUEUE_STORE.md (キューイベントストリーム, v2.5)
+ *
+ * Typed server-push events for queue / task-group state so the Web UI does not
+ * have to re-fetch task lists to learn about changes:
+ * - task_enqueued:      a task was added to the queue
+ * - task_status:        a task changed status
+ * - task_clarification: a task posted a question (AWAITING_RESPONSE)
+ * - task_output:        a progress event was appended or the task output was set
+ * - runner_heartbeat:   the QueuePoller updated its runner heartbeat
+ *
+ * Events are numbered per stream instance and kept in a bounded buffer so an
+ * SSE client can resume with Last-Event-ID. Event IDs carry the instance ID:
+ * an ID from an earlier process (or one that fell out of the buffer) cannot be
+ * replayed and the client is told to re-fetch instead.
+ *
+ * Only changes made through the observed store instance in this process are
+ * published: another process writing the same DynamoDB table / SQLite file
+ * publishes to its own stream.
+ */
+
+import type { IQueueStore, ProgressEvent, QueueItem, QueueItemStatus, TaskPriority, TaskTypeValue } from './queue-store';
+import type { QueuePoller } from './queue-poller';
+import { observeStatusTransitions, type QueueStatusListener } from './status-observer';
+
+/**
+ * Event payloads (without the stream envelope)
+ */
+export type QueueEventPayload =
+  | {
+      type: 'task_enqueued';
+      task_id: string;
+      task_group_id: string;
+      status: QueueItemStatus;
+      task_type?: TaskTypeValue;
+      project_path?: string;
+      parent_task_id?: string;
+      priority: TaskPriority;
+    }
+  | {
+      type: 'task_status';
+      task_id: string;
+      task_group_id: string;
+      project_path?: string;
+      from: QueueItemStatus;
+      to: QueueItemStatus;
+      error_message?: string;
+    }
+  | {
+      type: 'task_clarification';
+      task_id: string;
+      task_group_id?: string;
+      project_path?: string;
+      question: string;
+    }
+  | {
+      type: 'task_output';
+      task_id: string;
+      task_group_id?: string;
+      project_path?: string;
+      /** Progress event appended by the executor */
+      progress?: ProgressEvent;
+      /** Length of the task output, when the output itself was set */
+      output_length?: number;
+    }
+  | {
+      type: 'runner_heartbeat';
+      runner_id: string;
+      project_root: string;
+      in_flight: number;
+    };
+
+export type QueueEventType = QueueEventPayload['type'];
+
+export const QUEUE_EVENT_TYPES: readonly QueueEventType[] = [
+  'task_enqueued',
+  'task_status',
+  'task_clarification',
+  'task_output',
+  'runner_heartbeat',
+];
+
+/**
+ * Published event
+ */
+export type QueueEvent = QueueEventPayload & {
+  /** `<stream instance>-<sequence>`; sent as the SSE event ID */
+  id: string;
+  sequence: number;
+  timestamp: string;
+};
+
+export type QueueEventListener = (event: QueueEvent) => void;
+
+export interface QueueEventStreamOptions {
+  /** Maximum events kept for Last-Event-ID replay (default: 1000) */
+  maxBufferSize?: number;
+}
+
+/**
+ * Minimum interval between runner_heartbeat events per runner (ms)
+ */
+export const DEFAULT_HEARTBEAT_EVENT_INTERVAL_MS = 15000;
+
+/**
+ * Task ID -> task group / project entries remembered for output events
+ */
+const MAX_REMEMBERED_TASKS = 2000;
+
+/**
+ * QueueEventStream - Buffered publish/subscribe of queue events
+ */
+export class QueueEventStream {
+  private readonly instanceId = Date.now().toString(36);
+  private readonly maxBufferSize: number;
+  private events: QueueEvent[] = [];
+  private readonly listeners: Set<QueueEventListener> = new Set();
+  private sequence = 0;
+
+  constructor(options: QueueEventStreamOptions = {}) {
+    this.maxBufferSize = options.maxBufferSize ?? 1000;
+  }
+
+  /**
+   * Publish an event to the buffer and all subscribers
+   */
+  publish(payload: QueueEventPayload): QueueEvent {
+    const sequence = ++this.sequence;
+    const event = {
+      ...payload,
+      id: `${this.instanceId}-${sequence}`,
+      sequence,
+      timestamp: new Date().toISOString(),
+    } as QueueEvent;
+
+    this.events.push(event);
+    if (this.events.length > this.maxBufferSize) {
+      this.events = this.events.slice(-this.maxBufferSize);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('[QueueEventStream] Listener failed:', error);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * ID of the latest event (null before the first event)
+   */
+  getLastEventId(): string | null {
+    return this.sequence > 0 ? `${this.instanceId}-${this.sequence}` : null;
+  }
+
+  /**
+   * Events published after `lastEventId`.
+   * Returns null when they cannot be replayed: the ID is malformed, belongs to
+   * another stream instance, or events after it were dropped from the buffer.
+   */
+  getSince(lastEventId: string): QueueEvent[] | null {
+    const match = /^([0-9a-z]+)-(\d+)$/.exec(lastEventId.trim());
+    if (!match || match[1] !== this.instanceId) {
+      return null;
+    }
+    const after = parseInt(match[2], 10);
+    if (after > this.sequence) {
+      return null;
+    }
+    const oldest = this.events[0]?.sequence ?? this.sequence + 1;
+    if (after < oldest - 1) {
+      return null;
+    }
+    return this.events.filter(e => e.sequence > after);
+  }
+
+  /**
+   * Subscribe to new events
+   * @returns unsubscribe function
+   */
+  subscribe(listener: QueueEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSubscriberCount(): number {
+    return this.listeners.size;
+  }
+}
+
+/**
+ * Wrap a queue store so that enqueues, status transitions, clarifications and
+ * output are published to `stream`. Publishing never fails the store operation.
+ * `onStatusTransition` (e.g. webhooks) shares the same status observer, so each
+ * write is only observed once however many consumers there are.
+ */
+export function observeQueueEvents(
+  store: IQueueStore,
+  stream: QueueEventStream,
+  options: { onStatusTransition?: QueueStatusListener } = {}
+): IQueueStore {
+  // appendEvent() only receives the task ID; remember groups and projects of tasks seen so far
+  const taskGroups = new Map<string, { task_group_id: string; project_path?: string }>();
+  const remember = (item: Pick<QueueItem, 'task_id' | 'task_group_id' | 'project_path'>): void => {
+    taskGroups.delete(item.task_id);
+    taskGroups.set(item.task_id, {
+      task_group_id: item.task_group_id,
+      ...(item.project_path ? { project_path: item.project_path } : {}),
+    });
+    if (taskGroups.size > MAX_REMEMBERED_TASKS) {
+      taskGroups.delete(taskGroups.keys().next().value as string);
+    }
+  };
+  const groupOf = (taskId: string): { task_group_id?: string; project_path?: string } => {
+    return taskGroups.get(taskId) ?? {};
+  };
+
+  const observed: Partial<IQueueStore> = {
+    enqueue: async (...args: Parameters<IQueueStore['enqueue']>) => {
+      const item = await store.enqueue(...args);
+      remember(item);
+      stream.publish({
+        type: 'task_enqueued',
+        task_id: item.task_id,
+        task_group_id: item.task_group_id,
+        status: item.status,
+        ...(item.task_type ? { task_type: item.task_type } : {}),
+        ...(item.project_path ? { project_path: item.project_path } : {}),
+        ...(item.parent_task_id ? { parent_task_id: item.parent_task_id } : {}),
+        priority: item.priority ?? 'normal',
+      });
+      return item;
+    },
+    appendEvent: async (taskId, event) => {
+      const appended = await store.appendEvent(taskId, event);
+      if (appended) {
+        stream.publish({ type: 'task_output', task_id: taskId, ...groupOf(taskId), progress: event });
+      }
+      return appended;
+    },
+    updateStatus: async (taskId, status, errorMessage, output) => {
+      await store.updateStatus(taskId, status, errorMessage, output);
+      if (output !== undefined) {
+        stream.publish({ type: 'task_output', task_id: taskId, ...groupOf(taskId), output_length: output.length });
+      }
+    },
+    setAwaitingResponse: async (taskId, clarification, conversationHistory, output) => {
+      const result = await store.setAwaitingResponse(taskId, clarification, conversationHistory, output);
+      if (result.success) {
+        stream.publish({ type: 'task_clarification', task_id: taskId, ...groupOf(taskId), question: clarification.question });
+      }
+      return result;
+    },
+  };
+
+  const published = new Proxy(store, {
+    get(target, prop) {
+      if (Object.prototype.hasOwnProperty.call(observed, prop)) {
+        return observed[prop as keyof IQueueStore];
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+  return observeStatusTransitions(published, transition => {
+    const { item, from, to } = transition;
+    remember(item);
+    stream.publish({
+      type: 'task_status',
+      task_id: item.task_id,
+      task_group_id: item.task_group_id,
+      ...(item.project_path ? { project_path: item.project_path } : {}),
+      from,
+      to,
+      ...(item.error_message ? { error_message: item.error_message } : {}),
+    });
+    options.onStatusTransition?.(transition);
+  });
+}
+
+/**
+ * Publish the poller's runner heartbeats (at most one per `minIntervalMs`)
+ * @returns detach function
+ */
+export function publishRunnerHeartbeats(
+  poller: QueuePoller,
+  stream: QueueEventStream,
+  minIntervalMs: number = DEFAULT_HEARTBEAT_EVENT_INTERVAL_MS
+): () => void {
+  let lastPublishedAt = 0;
+  const onHeartbeat = (heartbeat: { runnerId: string; projectRoot: string; inFlight: number }): void => {
+    const now = Date.now();
+    if (now - lastPublishedAt < minIntervalMs) {
+      return;
+    }
+    lastPublishedAt = now;
+    stream.publish({
+      type: 'runner_heartbeat',
+      runner_id: heartbeat.runnerId,
+      project_root: heartbeat.projectRoot,
+      in_flight: heartbeat.inFlight,
+    });
+  };
+  poller.on('heartbeat', onHeartbeat);
+  return () => {
+    poller.off('heartbeat', onHeartbeat);
+  };
+}
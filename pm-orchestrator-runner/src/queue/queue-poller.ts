@@ -4,22 +4,65 @@
  *
  * Features:
  * - Polling interval configurable (default 1000ms)
- * - 1 task per tick
- * - In-flight limit: 1 (no concurrent execution)
+ * - In-flight limit: maxConcurrency (default 1), optionally capped per project_path
+ * - READ_INFO/REPORT tasks never wait on writers: readOnlySlots (default 1) extra
+ *   slots, runner-wide and per project, are kept for them
+ * - Writing tasks on the same project are serialized through an L2ExecutorPool project lock
+ * - Usage limit: the task goes back to QUEUED and claiming pauses until the
+ *   limit resets (spec/50_USAGE_LIMIT_PAUSE.md)
+ * - Operator pause / drain of the namespace or a project (spec/53_QUEUE_CONTROLS.md)
  * - Fail-closed error handling
  */
 
 import { EventEmitter } from 'events';
-import { IQueueStore, QueueItem, QueueItemStatus } from './queue-store';
+import { IQueueStore, QueueItem, QueueItemStatus, TaskTypeValue } from './queue-store';
+import { L2ExecutorPool } from '../pool/agent-pool';
+import { QueueControlStore, IN_FLIGHT_STATUSES, findQueueControl, isHeldByControl } from './queue-controls';
+import type { UsageLimit } from '../executor/script-failure-classifier';
 import { log } from '../logging/app-logger';
 
+/**
+ * Task types that never modify the project and therefore run without a project lock
+ */
+const READ_ONLY_TASK_TYPES: ReadonlySet<TaskTypeValue> = new Set<TaskTypeValue>(['READ_INFO', 'REPORT']);
+
+/**
+ * Check whether a task needs the project write lock.
+ * Tasks without a task_type are treated as writers (fail-closed).
+ */
+export function isWritingTask(item: QueueItem): boolean {
+  return !item.task_type || !READ_ONLY_TASK_TYPES.has(item.task_type);
+}
+
+/**
+ * Pause applied when a usage limit does not say when it resets
+ */
+export const DEFAULT_USAGE_LIMIT_PAUSE_MS = 15 * 60 * 1000;
+
+/**
+ * Wait after the reported reset time before claiming again
+ */
+const USAGE_LIMIT_RESUME_MARGIN_MS = 60 * 1000;
+
 /**
  * Task executor function type
- * Returns status and optional error message
+ * Returns status and optional error message.
+ * usageLimit: the run hit a Claude Code usage limit; the task is re-queued instead of failing.
  */
 export type TaskExecutor = (
   item: QueueItem
-) => Promise<{ status: 'COMPLETE' | 'ERROR' | 'WAITING_CHILDREN'; errorMessage?: string; output?: string }>;
+) => Promise<{ status: 'COMPLETE' | 'ERROR' | 'WAITING_CHILDREN'; errorMessage?: string; output?: string; usageLimit?: UsageLimit }>;
+
+/**
+ * Operator pause / drain state for one poll
+ */
+interface ControlHold {
+  isHeld(item: QueueItem): boolean;
+  /** Load the in-flight tasks if a draining subtask was held without them. True when loaded. */
+  resolveDeferred(): Promise<boolean>;
+}
+
+const NO_HOLD: ControlHold = { isHeld: () => false, resolveDeferred: async () => false };
 
 /**
  * Poller configuration
@@ -35,6 +78,18 @@ export interface QueuePollerConfig {
   runnerId?: string;
   /** Project root for runner identification (v2) */
   projectRoot?: string;
+  /** Max tasks executed in parallel by this runner (default: 1) */
+  maxConcurrency?: number;
+  /** Max tasks executed in parallel per project_path (default: maxConcurrency) */
+  maxConcurrencyPerProject?: number;
+  /** Extra slots only READ_INFO/REPORT tasks may use, on top of both limits (default: 1) */
+  readOnlySlots?: number;
+  /** Pool used to serialize writing tasks per project (default: a new L2ExecutorPool) */
+  executorPool?: L2ExecutorPool;
+  /** Pause when a usage limit has no reset time (default: DEFAULT_USAGE_LIMIT_PAUSE_MS) */
+  usageLimitPauseMs?: number;
+  /** Operator pause / drain controls, re-read on every poll (default: none) */
+  controls?: QueueControlStore;
 }
 
 /**
@@ -42,7 +97,13 @@ export interface QueuePollerConfig {
  */
 export interface QueuePollerState {
   isRunning: boolean;
+  /** Oldest in-flight task (kept for single-task consumers) */
   inFlight: QueueItem | null;
+  /** Every in-flight task, oldest claim first */
+  inFlightTasks: QueueItem[];
+  maxConcurrency: number;
+  maxConcurrencyPerProject: number;
+  readOnlySlots: number;
   lastPollAt: string | null;
   tasksProcessed: number;
   errors: number;
@@ -50,6 +111,10 @@ export interface QueuePollerState {
   runnerId: string;
   /** Project root (v2) */
   projectRoot: string;
+  /** Claiming is paused until this time (usage limit); null when not paused */
+  pausedUntil: string | null;
+  /** Why claiming is paused */
+  pauseReason: string | null;
 }
 
 /**
@@ -65,6 +130,9 @@ export interface QueuePollerEvents {
   'no-task': [];
   'already-claimed': [string];
   'stale-recovered': [number];
+  paused: [{ until: string; reason: string; taskId: string }];
+  resumed: [];
+  heartbeat: [{ runnerId: string; projectRoot: string; inFlight: number }];
 }
 
 /**
@@ -79,15 +147,26 @@ export class QueuePoller extends EventEmitter {
   private readonly recoverOnStartup: boolean;
   private readonly runnerId: string;
   private readonly projectRoot: string;
+  private readonly maxConcurrency: number;
+  private readonly maxConcurrencyPerProject: number;
+  private readonly readOnlySlots: number;
+  private readonly executorPool: L2ExecutorPool;
+  private readonly usageLimitPauseMs: number;
+  private readonly controls: QueueControlStore | null;
 
   private pollTimer: ReturnType<typeof setInterval> | null = null;
   private staleRecoveryTimer: ReturnType<typeof setInterval> | null = null;
-  private inFlight: QueueItem | null = null;
+  private readonly inFlight: Map<string, QueueItem> = new Map();
+  private claiming: boolean = false;
   private isRunning: boolean = false;
   private lastPollAt: string | null = null;
   private tasksProcessed: number = 0;
   private errors: number = 0;
   private heartbeatFailCount: number = 0;
+  private pausedUntil: number | null = null;
+  private pauseReason: string | null = null;
+  /** The usage limit pause is also saved in the controls */
+  private pausePersisted: boolean = false;
 
   constructor(
     store: IQueueStore,
@@ -102,6 +181,15 @@ export class QueuePoller extends EventEmitter {
     this.recoverOnStartup = config.recoverOnStartup ?? true;
     this.runnerId = config.runnerId ?? this.generateRunnerId();
     this.projectRoot = config.projectRoot ?? process.cwd();
+    this.maxConcurrency = Math.max(1, Math.floor(config.maxConcurrency ?? 1));
+    this.maxConcurrencyPerProject = Math.max(
+      1,
+      Math.min(this.maxConcurrency, Math.floor(config.maxConcurrencyPerProject ?? this.maxConcurrency))
+    );
+    this.readOnlySlots = Math.max(0, Math.floor(config.readOnlySlots ?? 1));
+    this.executorPool = config.executorPool ?? new L2ExecutorPool();
+    this.usageLimitPauseMs = config.usageLimitPauseMs ?? DEFAULT_USAGE_LIMIT_PAUSE_MS;
+    this.controls = config.controls ?? null;
   }
 
   /**
@@ -198,9 +286,10 @@ export class QueuePoller extends EventEmitter {
   /**
    * Single poll iteration
    * - Update heartbeat (v2)
-   * - Skip if task in-flight
-   * - Claim oldest QUEUED task
-   * - Execute and update status
+   * - Claim QUEUED tasks until every concurrency slot is taken
+   * - Execute claimed tasks in parallel and update status
+   *
+   * Resolves once the tasks claimed by this iteration have finished.
    */
   async poll(): Promise<void> {
     if (!this.isRunning) {
@@ -213,6 +302,7 @@ export class QueuePoller extends EventEmitter {
     try {
       await this.store.updateRunnerHeartbeat(this.runnerId, this.projectRoot);
       this.heartbeatFailCount = 0;
+      this.emit('heartbeat', { runnerId: this.runnerId, projectRoot: this.projectRoot, inFlight: this.inFlight.size });
     } catch (error) {
       // Log but don't fail poll - heartbeat is best-effort
       // Only log first failure and then every 10th to avoid log spam
@@ -222,30 +312,264 @@ export class QueuePoller extends EventEmitter {
       }
     }
 
-    // In-flight limit: 1
-    if (this.inFlight) {
+    // Usage limit: nothing is claimed until the limit resets
+    await this.syncUsageLimitPause();
+    if (this.isPaused()) {
       return;
     }
 
-    // Try to claim a task
-    const claimResult = await this.store.claim();
+    // In-flight limit: maxConcurrency plus the read-only slots. Only one
+    // iteration claims at a time so overlapping ticks cannot over-commit slots.
+    const capacity = this.maxConcurrency + this.readOnlySlots;
+    if (this.inFlight.size >= capacity || this.claiming) {
+      return;
+    }
 
-    if (!claimResult.success) {
-      if (claimResult.error) {
-        // Task was claimed by another process
-        this.emit('already-claimed', claimResult.error);
-      } else {
-        // No tasks in queue
-        this.emit('no-task');
+    const executions: Promise<void>[] = [];
+    this.claiming = true;
+    try {
+      // Operator pause / drain: held tasks stay QUEUED
+      const hold = await this.loadControlHold();
+      if (hold === null) {
+        return;
+      }
+
+      while (this.isRunning && this.inFlight.size < capacity && !this.isPaused()) {
+        const claimResult = await this.store.claim({ canClaim: item => !hold.isHeld(item) && this.canClaim(item) });
+
+        if (!claimResult.success) {
+          if (claimResult.error) {
+            // Task was claimed by another process
+            this.emit('already-claimed', claimResult.error);
+          } else if (await hold.resolveDeferred()) {
+            // A draining subtask was skipped until its parent's state was known
+            continue;
+          } else if (executions.length === 0) {
+            // No runnable tasks in queue
+            this.emit('no-task');
+          }
+          break;
+        }
+
+        const item = claimResult.item!;
+        if (!this.acquireProjectLock(item)) {
+          // Lost the lock between canClaim and claim: put the task back
+          await this.requeue(item);
+          break;
+        }
+
+        this.inFlight.set(item.task_id, item);
+        log.app.info('Task claimed', { taskId: item.task_id, taskGroupId: item.task_group_id, inFlight: this.inFlight.size });
+        this.emit('claimed', item);
+        executions.push(this.execute(item));
+      }
+    } finally {
+      this.claiming = false;
+    }
+
+    await Promise.all(executions);
+  }
+
+  /**
+   * Read the operator controls of this namespace once per poll.
+   * Returns null when the whole namespace is paused, otherwise the hold for this poll.
+   * In-flight tasks are only looked up when a draining subtask is actually a
+   * candidate, and then at most once per poll.
+   */
+  private async loadControlHold(): Promise<ControlHold | null> {
+    if (!this.controls) {
+      return NO_HOLD;
+    }
+    const controls = await this.controls.list(this.store.getNamespace());
+    if (controls.length === 0) {
+      return NO_HOLD;
+    }
+    if (controls.some(c => !c.project_path && c.mode === 'pause')) {
+      return null;
+    }
+
+    // Draining: subtasks of in-flight parents may still run
+    let activeTaskIds: Set<string> | null = null;
+    let deferred = false;
+    return {
+      isHeld: item => {
+        const control = findQueueControl(controls, item, this.projectRoot);
+        if (control?.mode === 'drain' && item.parent_task_id && activeTaskIds === null) {
+          deferred = true;
+          return true;
+        }
+        return isHeldByControl(control, item, activeTaskIds ?? new Set());
+      },
+      resolveDeferred: async () => {
+        if (!deferred || activeTaskIds !== null) {
+          return false;
+        }
+        const loaded = new Set<string>();
+        for (const status of IN_FLIGHT_STATUSES) {
+          for (const item of await this.store.getByStatus(status)) {
+            loaded.add(item.task_id);
+          }
+        }
+        activeTaskIds = loaded;
+        return true;
+      },
+    };
+  }
+
+  /**
+   * Whether claiming is paused. An expired pause is lifted here.
+   */
+  private isPaused(): boolean {
+    if (this.pausedUntil === null) {
+      return false;
+    }
+    if (Date.now() < this.pausedUntil) {
+      return true;
+    }
+    log.sys.info('Usage limit pause ended, resuming queue', { reason: this.pauseReason });
+    this.pausedUntil = null;
+    this.pauseReason = null;
+    this.pausePersisted = false;
+    this.emit('resumed');
+    return false;
+  }
+
+  /**
+   * Adopt a usage limit pause saved in the controls (by this runner before a
+   * restart, or by another runner), and lift ours once an operator resumed it.
+   */
+  private async syncUsageLimitPause(): Promise<void> {
+    if (!this.controls) {
+      return;
+    }
+    const control = await this.controls.get(this.store.getNamespace());
+    const until = control?.mode === 'pause' && control.expires_at ? Date.parse(control.expires_at) : null;
+    if (until !== null) {
+      if (this.pausedUntil === null || until > this.pausedUntil) {
+        this.pausedUntil = until;
+        this.pauseReason = control?.reason ?? null;
+        this.pausePersisted = true;
+        log.sys.info('Usage limit pause restored', { until: control?.expires_at, reason: this.pauseReason });
       }
       return;
     }
+    if (this.pausePersisted && this.pausedUntil !== null && Date.now() < this.pausedUntil) {
+      log.sys.info('Usage limit pause lifted by resume', { reason: this.pauseReason });
+      this.pausedUntil = null;
+      this.pauseReason = null;
+      this.pausePersisted = false;
+      this.emit('resumed');
+    }
+  }
+
+  /**
+   * Pause claiming until a usage limit resets.
+   * An earlier reset than the current pause does not shorten it.
+   */
+  private async pauseForUsageLimit(item: QueueItem, usageLimit: UsageLimit): Promise<void> {
+    const resetMs = usageLimit.resetAt ? Date.parse(usageLimit.resetAt) : NaN;
+    const until = Number.isFinite(resetMs) && resetMs > Date.now()
+      ? resetMs + USAGE_LIMIT_RESUME_MARGIN_MS
+      : Date.now() + this.usageLimitPauseMs;
+    if (this.pausedUntil !== null && this.pausedUntil >= until) {
+      return;
+    }
+    this.pausedUntil = until;
+    this.pauseReason = usageLimit.message;
+    const untilIso = new Date(until).toISOString();
+
+    // Saved as an expiring namespace pause so a restarted runner keeps waiting.
+    // An operator's pause / drain of the namespace is not replaced.
+    if (this.controls) {
+      try {
+        const namespace = this.store.getNamespace();
+        const existing = await this.controls.get(namespace);
+        if (!existing || existing.expires_at) {
+          await this.controls.set({ namespace, mode: 'pause', reason: usageLimit.message, expires_at: untilIso });
+          this.pausePersisted = true;
+        }
+      } catch (error) {
+        log.sys.warn('Failed to save usage limit pause', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    log.sys.warn('Usage limit reached, queue paused', { taskId: item.task_id, until: untilIso, reason: usageLimit.message });
+    this.emit('paused', { until: untilIso, reason: usageLimit.message, taskId: item.task_id });
+  }
+
+  /**
+   * Put a task this runner claimed back to QUEUED (RUNNING -> QUEUED).
+   * Left alone when it is no longer RUNNING, e.g. cancelled meanwhile.
+   */
+  private async requeue(item: QueueItem): Promise<void> {
+    if (!(await this.store.releaseClaim(item.task_id))) {
+      log.sys.warn('Task not re-queued, no longer running', { taskId: item.task_id });
+    }
+  }
 
-    const item = claimResult.item!;
-    this.inFlight = item;
-    log.app.info('Task claimed', { taskId: item.task_id, taskGroupId: item.task_group_id });
-    this.emit('claimed', item);
+  /**
+   * Decide whether a QUEUED item may start now.
+   * - Respects maxConcurrency and maxConcurrencyPerProject
+   * - Writers cannot use the read-only slots, so READ_INFO/REPORT tasks always
+   *   have room, even with maxConcurrency 1
+   * - Writers also need a free L2 slot and the project lock
+   */
+  private canClaim(item: QueueItem): boolean {
+    const projectKey = this.getProjectKey(item);
+    const writing = isWritingTask(item);
+    const all = { writers: 0, readers: 0 };
+    const project = { writers: 0, readers: 0 };
+    for (const running of this.inFlight.values()) {
+      const key = isWritingTask(running) ? 'writers' : 'readers';
+      all[key]++;
+      if (this.getProjectKey(running) === projectKey) project[key]++;
+    }
+    if (!this.hasSlot(all, this.maxConcurrency, writing) || !this.hasSlot(project, this.maxConcurrencyPerProject, writing)) {
+      return false;
+    }
+    if (!writing) {
+      return true;
+    }
+    return this.executorPool.getAvailableSlots() > 0 && !this.executorPool.getLockInfo(projectKey).locked;
+  }
 
+  /**
+   * Whether a task fits in `limit` shared slots plus the read-only slots.
+   * Readers fill the read-only slots first; only the overflow counts against writers.
+   */
+  private hasSlot(counts: { writers: number; readers: number }, limit: number, writing: boolean): boolean {
+    if (!writing) {
+      return counts.writers + counts.readers < limit + this.readOnlySlots;
+    }
+    return counts.writers + Math.max(0, counts.readers - this.readOnlySlots) < limit;
+  }
+
+  /**
+   * Take the project write lock for writing tasks. Returns false if the lock is held.
+   */
+  private acquireProjectLock(item: QueueItem): boolean {
+    if (!isWritingTask(item)) {
+      return true;
+    }
+    try {
+      this.executorPool.acquire(item.task_id, { lockPaths: [this.getProjectKey(item)] });
+      return true;
+    } catch (error) {
+      log.sys.warn('Project lock unavailable, task returned to queue', { taskId: item.task_id, error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Lock/limit key for a task: its project_path, or the runner's project root
+   */
+  private getProjectKey(item: QueueItem): string {
+    return item.project_path || this.projectRoot;
+  }
+
+  /**
+   * Execute a claimed task and record its final status
+   */
+  private async execute(item: QueueItem): Promise<void> {
     // Heartbeat: update updated_at every 60s to prevent stale detection during long-running tasks
     const heartbeatInterval = setInterval(async () => {
       try {
@@ -275,6 +599,15 @@ export class QueuePoller extends EventEmitter {
         return;
       }
 
+      // Usage limit: not the task's fault. Re-queue it and pause claiming until the reset.
+      // The heartbeat stops first so it cannot set the re-queued task back to RUNNING.
+      if (result.usageLimit) {
+        clearInterval(heartbeatInterval);
+        await this.requeue(item);
+        await this.pauseForUsageLimit(item, result.usageLimit);
+        return;
+      }
+
       // Update status
       await this.store.updateStatus(
         item.task_id,
@@ -311,7 +644,10 @@ export class QueuePoller extends EventEmitter {
       this.emit('error', item, error instanceof Error ? error : new Error(String(error)));
     } finally {
       clearInterval(heartbeatInterval);
-      this.inFlight = null;
+      if (isWritingTask(item)) {
+        this.executorPool.release(item.task_id, { force: true });
+      }
+      this.inFlight.delete(item.task_id);
     }
   }
 
@@ -319,14 +655,22 @@ export class QueuePoller extends EventEmitter {
    * Get current state
    */
   getState(): QueuePollerState {
+    const inFlightTasks = Array.from(this.inFlight.values());
+    const pausedUntil = this.pausedUntil !== null && Date.now() < this.pausedUntil ? this.pausedUntil : null;
     return {
       isRunning: this.isRunning,
-      inFlight: this.inFlight,
+      inFlight: inFlightTasks[0] ?? null,
+      inFlightTasks,
+      maxConcurrency: this.maxConcurrency,
+      maxConcurrencyPerProject: this.maxConcurrencyPerProject,
+      readOnlySlots: this.readOnlySlots,
       lastPollAt: this.lastPollAt,
       tasksProcessed: this.tasksProcessed,
       errors: this.errors,
       runnerId: this.runnerId,
       projectRoot: this.projectRoot,
+      pausedUntil: pausedUntil !== null ? new Date(pausedUntil).toISOString() : null,
+      pauseReason: pausedUntil !== null ? this.pauseReason : null,
     };
   }
 
@@ -345,16 +689,23 @@ export class QueuePoller extends EventEmitter {
   }
 
   /**
-   * Check if task is in-flight
+   * Check if any task is in-flight
    */
   hasInFlight(): boolean {
-    return this.inFlight !== null;
+    return this.inFlight.size > 0;
   }
 
   /**
-   * Get in-flight task
+   * Get the oldest in-flight task
    */
   getInFlight(): QueueItem | null {
-    return this.inFlight;
+    return this.inFlight.values().next().value ?? null;
+  }
+
+  /**
+   * Get every in-flight task, oldest claim first
+   */
+  getInFlightTasks(): QueueItem[] {
+    return Array.from(this.inFlight.values());
   }
 }
@@ -37,6 +37,12 @@ import {
 } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import { getAwsCredentials, getAwsRegion } from '../config/aws-config';
+import { FairShareConfig, FairShareScheduler, TaskPriority } from './fair-share';
+import { TASK_USAGE_COUNTERS, addTaskUsage, type TaskUsage } from './task-usage';
+import type { QAGateReport } from '../core/qa-gates';
+import type { TaskAttachment } from './task-attachments';
+
+export { TaskPriority, TASK_PRIORITIES } from './fair-share';
 
 /**
  * Fixed table name (v2: single table for all namespaces)
@@ -192,6 +198,211 @@ export interface QueueItem {
   checkpoint_ref?: string;
   /** v2.3: ISO timestamp set when a rollback was performed for this task */
   rolled_back_at?: string;
+  /** v2.4: task_ids that must be COMPLETE before this task can be claimed */
+  depends_on?: string[];
+  /** v2.4: What to do when a prerequisite ends in ERROR/CANCELLED (default: cancel) */
+  dependency_policy?: DependencyFailurePolicy;
+  /** v2.4: Set while a prerequisite has failed and the policy is 'flag' */
+  dependency_blocked?: DependencyBlock;
+  /** v2.4: Priority lane used by claim() (default: normal) */
+  priority?: TaskPriority;
+  /** v2.5: Executor token usage and cost, summed over all runs of the task */
+  usage?: TaskUsage;
+  /** v2.6: Set on tasks imported from a task group bundle. Imported tasks are read-only. */
+  imported?: ImportedTaskInfo;
+  /** v2.7: Latest QA gate run after execution (spec/45_QA_GATES.md) */
+  qa_gates?: QAGateReport;
+  /** v2.8: Claude Code session of the last executor run, resumed on reply / retry (spec/49_SESSION_RESUME.md) */
+  claude_session_id?: string;
+  /** v2.8: When claude_session_id was recorded (end of that run). Replies after it have not been sent to the session yet. */
+  claude_session_at?: string;
+  /** v2.9: Images attached to the chat message, stored under the project's state dir (spec/51_TASK_ATTACHMENTS.md) */
+  attachments?: TaskAttachment[];
+}
+
+/**
+ * Origin of a task imported from a task group bundle
+ */
+export interface ImportedTaskInfo {
+  bundle_id: string;
+  /** Namespace the task group was exported from */
+  source_namespace: string;
+  exported_at: string;
+  imported_at: string;
+  /** Status at export time (non-terminal tasks are stored as CANCELLED so they never run) */
+  original_status: QueueItemStatus;
+  /** project_path on the exporting runner (not a path on this one) */
+  source_project_path?: string;
+}
+
+/**
+ * Result of changing a QUEUED task's priority
+ */
+export interface PriorityUpdateResult {
+  success: boolean;
+  task_id: string;
+  old_priority?: TaskPriority;
+  new_priority?: TaskPriority;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * What happens to a QUEUED task whose prerequisite ended in ERROR/CANCELLED
+ * - cancel: the task is CANCELLED with an explanatory error_message
+ * - flag: the task stays QUEUED (un-claimable) with dependency_blocked set,
+ *   and becomes claimable again once the prerequisite is retried to COMPLETE
+ */
+export type DependencyFailurePolicy = 'cancel' | 'flag';
+
+/**
+ * Failed prerequisite recorded on a dependent task
+ */
+export interface DependencyBlock {
+  task_id: string;
+  /** Final status of the prerequisite, or MISSING if it was deleted */
+  status: QueueItemStatus | 'MISSING';
+}
+
+/**
+ * Result of checking a task's depends_on against current prerequisite state
+ * - ready: every prerequisite is COMPLETE
+ * - waiting: at least one prerequisite is still in progress
+ * - failed: a prerequisite ended in ERROR/CANCELLED or no longer exists
+ */
+export type DependencyCheck =
+  | { state: 'ready' }
+  | { state: 'waiting' }
+  | { state: 'failed'; blocked: DependencyBlock };
+
+/**
+ * Error thrown by enqueue() when depends_on is invalid
+ * (self-reference, unknown prerequisite, or a cycle)
+ */
+export class QueueDependencyError extends Error {
+  constructor(message: string, public readonly taskIds: string[] = []) {
+    super(message);
+    this.name = 'QueueDependencyError';
+  }
+}
+
+/**
+ * Check a task's prerequisites.
+ * Failed prerequisites win over in-progress ones so dependents are resolved promptly.
+ */
+export async function checkDependencies(
+  item: QueueItem,
+  getItem: (taskId: string) => Promise<QueueItem | null>
+): Promise<DependencyCheck> {
+  let waiting = false;
+  for (const depId of item.depends_on || []) {
+    const dep = await getItem(depId);
+    if (!dep) {
+      return { state: 'failed', blocked: { task_id: depId, status: 'MISSING' } };
+    }
+    if (dep.status === 'ERROR' || dep.status === 'CANCELLED') {
+      return { state: 'failed', blocked: { task_id: depId, status: dep.status } };
+    }
+    if (dep.status !== 'COMPLETE') {
+      waiting = true;
+    }
+  }
+  return waiting ? { state: 'waiting' } : { state: 'ready' };
+}
+
+/**
+ * v2.4: Check depends_on for a QUEUED candidate and apply its failure policy.
+ * Returns true when every prerequisite is COMPLETE.
+ * - cancel policy: the task is cancelled through store.updateStatus()
+ * - flag policy: setBlocked() stores dependency_blocked (undefined clears it);
+ *   only called when the value changes
+ */
+export async function isDependencyGateOpen(
+  store: Pick<IQueueStore, 'getItem' | 'updateStatus'>,
+  item: QueueItem,
+  setBlocked: (blocked: DependencyBlock | undefined) => void | Promise<void>
+): Promise<boolean> {
+  if (!item.depends_on?.length) {
+    return true;
+  }
+  const check = await checkDependencies(item, id => store.getItem(id));
+
+  if (check.state === 'failed') {
+    if ((item.dependency_policy ?? 'cancel') === 'cancel') {
+      await store.updateStatus(
+        item.task_id,
+        'CANCELLED',
+        `Prerequisite ${check.blocked.task_id} ended in ${check.blocked.status}`
+      );
+    } else if (item.dependency_blocked?.task_id !== check.blocked.task_id || item.dependency_blocked.status !== check.blocked.status) {
+      await setBlocked(check.blocked);
+    }
+    return false;
+  }
+
+  if (item.dependency_blocked) {
+    await setBlocked(undefined);
+  }
+  return check.state === 'ready';
+}
+
+/**
+ * Set dependency_blocked on a task object, or clear it when undefined
+ */
+export function setDependencyBlock(task: QueueItem, blocked: DependencyBlock | undefined): void {
+  if (blocked) {
+    task.dependency_blocked = blocked;
+  } else {
+    delete task.dependency_blocked;
+  }
+  task.updated_at = new Date().toISOString();
+}
+
+/**
+ * Validate depends_on for a task about to be enqueued.
+ * Returns the de-duplicated prerequisite list.
+ * @throws QueueDependencyError on self-reference, unknown prerequisite, or cycle
+ */
+export async function validateDependencies(
+  taskId: string,
+  dependsOn: string[],
+  getItem: (taskId: string) => Promise<QueueItem | null>
+): Promise<string[]> {
+  const deps = Array.from(new Set(dependsOn));
+  if (deps.includes(taskId)) {
+    throw new QueueDependencyError(`Task ${taskId} cannot depend on itself`, [taskId]);
+  }
+
+  const missing: string[] = [];
+  for (const depId of deps) {
+    if (!(await getItem(depId))) {
+      missing.push(depId);
+    }
+  }
+  if (missing.length > 0) {
+    throw new QueueDependencyError(`Unknown prerequisite task(s): ${missing.join(', ')}`, missing);
+  }
+
+  // Walk the existing graph from each prerequisite; reaching taskId again means a cycle
+  const visited = new Set<string>();
+  const walk = async (id: string, path: string[]): Promise<void> => {
+    if (id === taskId) {
+      throw new QueueDependencyError(`Dependency cycle detected: ${[taskId, ...path].join(' -> ')}`, [taskId, ...path]);
+    }
+    if (visited.has(id)) {
+      return;
+    }
+    visited.add(id);
+    const node = await getItem(id);
+    for (const next of node?.depends_on || []) {
+      await walk(next, [...path, next]);
+    }
+  };
+  for (const depId of deps) {
+    await walk(depId, [depId]);
+  }
+
+  return deps;
 }
 
 /**
@@ -201,7 +412,7 @@ export interface RollbackHistoryEntry {
   rollback_id: string;
   rolled_back_task_id: string;
   project_path: string;
-  checkpoint_type: 'git-stash' | 'file-snapshot' | 'none';
+  checkpoint_type: 'git-stash' | 'file-snapshot' | 'git-worktree' | 'none';
   success: boolean;
   cancelled_count: number;
   triggered_at: string;
@@ -218,6 +429,14 @@ export interface EnqueueOptions {
   addReview?: boolean;
   /** Project alias for display */
   projectAlias?: string;
+  /** v2.4: Prerequisite task_ids (must exist in this namespace, no cycles) */
+  dependsOn?: string[];
+  /** v2.4: Policy when a prerequisite fails (default: cancel) */
+  onDependencyFailure?: DependencyFailurePolicy;
+  /** v2.4: Priority lane (default: normal) */
+  priority?: TaskPriority;
+  /** v2.9: Attachments already saved with saveTaskAttachments() */
+  attachments?: TaskAttachment[];
 }
 
 /**
@@ -250,6 +469,23 @@ export interface QueueStoreConfig {
   namespace: string;
   /** Use local DynamoDB mode (localhost:8000 with dummy credentials) */
   localDynamodb?: boolean;
+  /** v2.4: Priority aging and per-project weights for claim() */
+  fairShare?: FairShareConfig;
+}
+
+/**
+ * v2.4: Maximum QUEUED items considered per claim() for fair-share ordering
+ */
+const MAX_CLAIM_CANDIDATES = 100;
+
+/**
+ * Claim options
+ * Lets the caller skip QUEUED items it cannot run right now
+ * (e.g. per-project concurrency limits or a held project write lock).
+ */
+export interface ClaimOptions {
+  /** Return false to leave the item QUEUED and try the next-oldest candidate */
+  canClaim?: (item: QueueItem) => boolean;
 }
 
 /**
@@ -274,6 +510,27 @@ export interface StatusUpdateResult {
   message?: string;
 }
 
+/**
+ * Statuses a task can be retried from (back to QUEUED)
+ */
+export const RETRYABLE_STATUSES: readonly QueueItemStatus[] = ['ERROR', 'CANCELLED'];
+
+/**
+ * Rejection for retryTask(), or null when the task can be retried
+ */
+export function getRetryRejection(task: QueueItem): StatusUpdateResult | null {
+  if (!RETRYABLE_STATUSES.includes(task.status)) {
+    return {
+      success: false,
+      task_id: task.task_id,
+      old_status: task.status,
+      error: 'Invalid status',
+      message: `Task status is ${task.status}; only ERROR or CANCELLED can be retried`,
+    };
+  }
+  return null;
+}
+
 /**
  * Task Group summary for listing
  * Per spec/19_WEB_UI.md: task group list view
@@ -337,12 +594,22 @@ export interface IQueueStore {
   deleteTable(): Promise<void>;
   enqueue(sessionId: string, taskGroupId: string, prompt: string, taskId?: string, taskType?: TaskTypeValue, projectPath?: string, parentTaskId?: string, options?: EnqueueOptions): Promise<QueueItem>;
   getItem(taskId: string, targetNamespace?: string): Promise<QueueItem | null>;
-  claim(): Promise<ClaimResult>;
+  claim(options?: ClaimOptions): Promise<ClaimResult>;
   updateStatus(taskId: string, status: QueueItemStatus, errorMessage?: string, output?: string): Promise<void>;
   appendEvent(taskId: string, event: ProgressEvent): Promise<boolean>;
   updateStatusWithValidation(taskId: string, newStatus: QueueItemStatus): Promise<StatusUpdateResult>;
+  /** v2.4: change the priority of a QUEUED task (other statuses are rejected) */
+  updatePriority(taskId: string, priority: TaskPriority): Promise<PriorityUpdateResult>;
   setAwaitingResponse(taskId: string, clarification: ClarificationRequest, conversationHistory?: ConversationEntry[], output?: string): Promise<StatusUpdateResult>;
   resumeWithResponse(taskId: string, userResponse: string): Promise<StatusUpdateResult>;
+  /** ERROR / CANCELLED -> QUEUED, clearing error_message and failure info of the previous run */
+  retryTask(taskId: string): Promise<StatusUpdateResult>;
+  /**
+   * Runner only: put a task it claimed back to QUEUED (usage limit, lost project lock).
+   * Not in VALID_STATUS_TRANSITIONS, so the status API cannot re-queue a running task.
+   * Returns false when the task is no longer RUNNING.
+   */
+  releaseClaim(taskId: string): Promise<boolean>;
   getByStatus(status: QueueItemStatus): Promise<QueueItem[]>;
   getByTaskGroup(taskGroupId: string, targetNamespace?: string): Promise<QueueItem[]>;
   getAllItems(targetNamespace?: string): Promise<QueueItem[]>;
@@ -376,6 +643,14 @@ export interface IQueueStore {
   appendRollbackHistory(entry: RollbackHistoryEntry): Promise<void>;
   /** v2.3: list recent rollback history entries, newest first */
   getRollbackHistory(limit?: number): Promise<RollbackHistoryEntry[]>;
+  /** v2.5: add one executor run's usage to the task's usage totals */
+  recordUsage(taskId: string, usage: TaskUsage): Promise<void>;
+  /** v2.7: store the latest QA gate run on the task (replaces the previous one) */
+  recordQAGates(taskId: string, report: QAGateReport): Promise<void>;
+  /** v2.8: set/clear the Claude Code session id to resume (and when it was recorded) */
+  setClaudeSessionId(taskId: string, sessionId: string | undefined): Promise<void>;
+  /** Insert a task exactly as given, in item.namespace. Returns false (and keeps the existing task) when it already exists. */
+  importItem(item: QueueItem): Promise<boolean>;
   destroy(): void;
 }
 
@@ -391,9 +666,11 @@ export class QueueStore implements IQueueStore {
   private readonly endpoint: string;
   private readonly archivedGroups: Set<string> = new Set();
   private readonly groupStatusOverrides: Map<string, TaskGroupStatus> = new Map();
+  private readonly fairShare: FairShareScheduler;
 
   constructor(config: QueueStoreConfig) {
     this.namespace = config.namespace;
+    this.fairShare = new FairShareScheduler(config.fairShare);
 
     if (config.localDynamodb) {
       // Local DynamoDB mode: localhost:8000 with dummy credentials
@@ -625,9 +902,13 @@ export class QueueStore implements IQueueStore {
     options?: EnqueueOptions
   ): Promise<QueueItem> {
     const now = new Date().toISOString();
+    const resolvedTaskId = taskId || uuidv4();
+    const dependsOn = options?.dependsOn?.length
+      ? await validateDependencies(resolvedTaskId, options.dependsOn, id => this.getItem(id))
+      : undefined;
     const item: QueueItem = {
       namespace: this.namespace,
-      task_id: taskId || uuidv4(),
+      task_id: resolvedTaskId,
       task_group_id: taskGroupId,
       session_id: sessionId,
       status: 'QUEUED',
@@ -640,6 +921,9 @@ export class QueueStore implements IQueueStore {
       ...(options?.addTest ? { add_test: true } : {}),
       ...(options?.addReview ? { add_review: true } : {}),
       ...(options?.projectAlias ? { project_alias: options.projectAlias } : {}),
+      ...(dependsOn ? { depends_on: dependsOn, dependency_policy: options?.onDependencyFailure ?? 'cancel' } : {}),
+      ...(options?.priority ? { priority: options.priority } : {}),
+      ...(options?.attachments?.length ? { attachments: options.attachments } : {}),
     };
 
     await this.docClient.send(
@@ -671,33 +955,52 @@ export class QueueStore implements IQueueStore {
   }
 
   /**
-   * Claim the oldest QUEUED task for this namespace
+   * Claim the next QUEUED task for this namespace in priority / fair-share order
+   * (see fair-share.ts). Candidates rejected by options.canClaim stay QUEUED.
    */
-  async claim(): Promise<ClaimResult> {
-    const queryResult = await this.docClient.send(
-      new QueryCommand({
-        TableName: QUEUE_TABLE_NAME,
-        IndexName: 'status-index',
-        KeyConditionExpression: '#status = :queued',
-        FilterExpression: '#namespace = :namespace',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-          '#namespace': 'namespace',
-        },
-        ExpressionAttributeValues: {
-          ':queued': 'QUEUED',
-          ':namespace': this.namespace,
-        },
-        Limit: 10,
-        ScanIndexForward: true,
-      })
-    );
-
-    if (!queryResult.Items || queryResult.Items.length === 0) {
+  async claim(options?: ClaimOptions): Promise<ClaimResult> {
+    const queued: QueueItem[] = [];
+    let lastEvaluatedKey: Record<string, unknown> | undefined;
+    do {
+      const queryResult = await this.docClient.send(
+        new QueryCommand({
+          TableName: QUEUE_TABLE_NAME,
+          IndexName: 'status-index',
+          KeyConditionExpression: '#status = :queued',
+          FilterExpression: '#namespace = :namespace',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+            '#namespace': 'namespace',
+          },
+          ExpressionAttributeValues: {
+            ':queued': 'QUEUED',
+            ':namespace': this.namespace,
+          },
+          ScanIndexForward: true,
+          ExclusiveStartKey: lastEvaluatedKey,
+        })
+      );
+      queued.push(...((queryResult.Items || []) as QueueItem[]));
+      lastEvaluatedKey = queryResult.LastEvaluatedKey;
+    } while (lastEvaluatedKey && queued.length < MAX_CLAIM_CANDIDATES);
+
+    // Ordered before canClaim filtering so held-back projects keep their share
+    const candidates = this.fairShare.order(queued.slice(0, MAX_CLAIM_CANDIDATES))
+      .filter(candidate => !options?.canClaim || options.canClaim(candidate));
+    if (candidates.length === 0) {
       return { success: false };
     }
 
-    const item = queryResult.Items[0] as QueueItem;
+    let item: QueueItem | undefined;
+    for (const candidate of candidates) {
+      if (await isDependencyGateOpen(this, candidate, blocked => this.setDependencyBlocked(candidate, blocked))) {
+        item = candidate;
+        break;
+      }
+    }
+    if (!item) {
+      return { success: false };
+    }
 
     try {
       const now = new Date().toISOString();
@@ -723,6 +1026,7 @@ export class QueueStore implements IQueueStore {
 
       item.status = 'RUNNING';
       item.updated_at = now;
+      this.fairShare.recordClaim(item);
 
       return { success: true, item };
     } catch (error: unknown) {
@@ -738,6 +1042,28 @@ export class QueueStore implements IQueueStore {
     }
   }
 
+  /**
+   * v2.4: Store dependency_blocked for isDependencyGateOpen() (undefined removes it)
+   */
+  private async setDependencyBlocked(item: QueueItem, blocked: DependencyBlock | undefined): Promise<void> {
+    const now = new Date().toISOString();
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: QUEUE_TABLE_NAME,
+        Key: { namespace: this.namespace, task_id: item.task_id },
+        ...(blocked
+          ? {
+              UpdateExpression: 'SET dependency_blocked = :blocked, updated_at = :now',
+              ExpressionAttributeValues: { ':blocked': blocked, ':now': now },
+            }
+          : {
+              UpdateExpression: 'REMOVE dependency_blocked SET updated_at = :now',
+              ExpressionAttributeValues: { ':now': now },
+            }),
+      })
+    );
+    setDependencyBlock(item, blocked);
+  }
 
   /**
    * Update task status
@@ -868,6 +1194,53 @@ export class QueueStore implements IQueueStore {
     };
   }
 
+  /**
+   * v2.4: Change the priority lane of a QUEUED task
+   */
+  async updatePriority(taskId: string, priority: TaskPriority): Promise<PriorityUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const oldPriority = task.priority ?? 'normal';
+
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: QUEUE_TABLE_NAME,
+          Key: {
+            namespace: this.namespace,
+            task_id: taskId,
+          },
+          UpdateExpression: 'SET #priority = :priority, updated_at = :now',
+          ConditionExpression: '#status = :queued',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+            '#priority': 'priority',
+          },
+          ExpressionAttributeValues: {
+            ':priority': priority,
+            ':queued': 'QUEUED',
+            ':now': new Date().toISOString(),
+          },
+        })
+      );
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'name' in error && error.name === 'ConditionalCheckFailedException') {
+        return {
+          success: false,
+          task_id: taskId,
+          old_priority: oldPriority,
+          error: 'Task not queued',
+          message: `Priority can only be changed while QUEUED (task is ${task.status})`,
+        };
+      }
+      throw error;
+    }
+
+    return { success: true, task_id: taskId, old_priority: oldPriority, new_priority: priority };
+  }
+
   /**
    * Set task to AWAITING_RESPONSE with clarification details
    */
@@ -1006,6 +1379,42 @@ export class QueueStore implements IQueueStore {
     };
   }
 
+  /**
+   * Re-queue an ERROR / CANCELLED task, clearing the error of the previous run
+   */
+  async retryTask(taskId: string): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const rejection = getRetryRejection(task);
+    if (rejection) {
+      return rejection;
+    }
+
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: QUEUE_TABLE_NAME,
+        Key: {
+          namespace: this.namespace,
+          task_id: taskId,
+        },
+        UpdateExpression: 'SET #status = :status, updated_at = :now REMOVE error_message, failure_category, failure_summary, failure_next_actions',
+        ConditionExpression: '#status = :old',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':status': 'QUEUED',
+          ':old': task.status,
+          ':now': new Date().toISOString(),
+        },
+      })
+    );
+
+    return { success: true, task_id: taskId, old_status: task.status, new_status: 'QUEUED' };
+  }
+
   /**
    * Get items by status for this namespace
    */
@@ -1088,11 +1497,12 @@ export class QueueStore implements IQueueStore {
       new QueryCommand({
         TableName: QUEUE_TABLE_NAME,
         KeyConditionExpression: '#namespace = :namespace',
-        ProjectionExpression: '#ns, task_id, task_group_id, #st, created_at, updated_at, session_id, task_type, parent_task_id, prompt',
+        ProjectionExpression: '#ns, task_id, task_group_id, #st, created_at, updated_at, session_id, task_type, parent_task_id, prompt, #usage',
         ExpressionAttributeNames: {
           '#namespace': 'namespace',
           '#ns': 'namespace',
           '#st': 'status',
+          '#usage': 'usage',
         },
         ExpressionAttributeValues: {
           ':namespace': ns,
@@ -1510,6 +1920,158 @@ export class QueueStore implements IQueueStore {
     );
   }
 
+  /**
+   * Runner only: RUNNING -> QUEUED, conditional on the stored status
+   */
+  async releaseClaim(taskId: string): Promise<boolean> {
+    return this.updateIfCondition(
+      taskId,
+      'SET #status = :queued, updated_at = :now',
+      '#status = :running',
+      { '#status': 'status' },
+      { ':queued': 'QUEUED', ':running': 'RUNNING' }
+    );
+  }
+
+  /**
+   * v2.5: Add executor usage to the task's usage totals.
+   * The counters are incremented in the update itself, so concurrent runs
+   * (e.g. a reply while the previous run's usage is written) never lose usage.
+   */
+  async recordUsage(taskId: string, usage: TaskUsage): Promise<void> {
+    if (await this.incrementUsage(taskId, usage)) return;
+    // First run of the task: create the totals
+    const created = await this.updateIfCondition(
+      taskId,
+      'SET #usage = :usage, updated_at = :now',
+      'attribute_exists(task_id) AND attribute_not_exists(#usage)',
+      { '#usage': 'usage' },
+      { ':usage': addTaskUsage(undefined, usage) }
+    );
+    if (created) return;
+    // Another run created the totals in between (or the task is gone)
+    await this.incrementUsage(taskId, usage);
+  }
+
+  /**
+   * Add to existing usage totals. Returns false when the task has none yet.
+   * (ADD only works on top-level attributes, so the nested counters use SET arithmetic.)
+   */
+  private incrementUsage(taskId: string, usage: TaskUsage): Promise<boolean> {
+    const names: Record<string, string> = { '#usage': 'usage' };
+    const values: Record<string, unknown> = {};
+    const sets = TASK_USAGE_COUNTERS.map((field, index) => {
+      names[`#u${index}`] = field;
+      values[`:u${index}`] = usage[field];
+      return `#usage.#u${index} = #usage.#u${index} + :u${index}`;
+    });
+    if (usage.model) {
+      names['#model'] = 'model';
+      values[':model'] = usage.model;
+      sets.push('#usage.#model = :model');
+    }
+    return this.updateIfCondition(taskId, `SET ${sets.join(', ')}, updated_at = :now`, 'attribute_exists(#usage)', names, values);
+  }
+
+  /**
+   * Conditional update of a task (`:now` is provided). Returns false when the condition fails.
+   */
+  private async updateIfCondition(
+    taskId: string,
+    updateExpression: string,
+    conditionExpression: string,
+    names: Record<string, string>,
+    values: Record<string, unknown>
+  ): Promise<boolean> {
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: QUEUE_TABLE_NAME,
+          Key: { namespace: this.namespace, task_id: taskId },
+          UpdateExpression: updateExpression,
+          ConditionExpression: conditionExpression,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: { ...values, ':now': new Date().toISOString() },
+        })
+      );
+      return true;
+    } catch (error: unknown) {
+      if (
+        error &&
+        typeof error === 'object' &&
+        'name' in error &&
+        error.name === 'ConditionalCheckFailedException'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * v2.7: Store the latest QA gate run on the task
+   */
+  async recordQAGates(taskId: string, report: QAGateReport): Promise<void> {
+    const item = await this.getItem(taskId);
+    if (!item) return;
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: QUEUE_TABLE_NAME,
+        Key: { namespace: this.namespace, task_id: taskId },
+        UpdateExpression: 'SET qa_gates = :qa_gates, updated_at = :now',
+        ExpressionAttributeValues: { ':qa_gates': report, ':now': new Date().toISOString() },
+      })
+    );
+  }
+
+  /**
+   * v2.8: Set or clear the Claude Code session id of the task
+   */
+  async setClaudeSessionId(taskId: string, sessionId: string | undefined): Promise<void> {
+    const now = new Date().toISOString();
+    if (sessionId === undefined) {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: QUEUE_TABLE_NAME,
+          Key: { namespace: this.namespace, task_id: taskId },
+          UpdateExpression: 'REMOVE claude_session_id, claude_session_at SET updated_at = :now',
+          ExpressionAttributeValues: { ':now': now },
+        })
+      );
+      return;
+    }
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: QUEUE_TABLE_NAME,
+        Key: { namespace: this.namespace, task_id: taskId },
+        UpdateExpression: 'SET claude_session_id = :session_id, claude_session_at = :now, updated_at = :now',
+        ExpressionAttributeValues: { ':session_id': sessionId, ':now': now },
+      })
+    );
+  }
+
+  /**
+   * Insert a task exactly as given, in item.namespace (bundle import).
+   * Returns false when the task already exists.
+   */
+  async importItem(item: QueueItem): Promise<boolean> {
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: QUEUE_TABLE_NAME,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(task_id)',
+        })
+      );
+      return true;
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'name' in error && error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * v2.3: Set or clear checkpoint_ref on a task (root tasks only)
    */
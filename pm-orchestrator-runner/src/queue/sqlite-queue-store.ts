@@ -0,0 +1,967 @@
+/**
+ * SQLite Queue Store
+ * Per spec/20_QUEUE_STORE.md (SQLite ストア)
+ *
+ * Features:
+ * - Same interface as QueueStore, FileQueueStore and InMemoryQueueStore
+ * - Persists to {stateDir}/pm-runner.sqlite (shared with the SQLite DAL)
+ * - Row-level updates instead of rewriting a JSON file on every change
+ * - claim() flips QUEUED -> RUNNING inside an IMMEDIATE transaction, so
+ *   several processes on one machine can share the queue safely
+ * - Indexed getByStatus() / getByTaskGroup()
+ *
+ * Usage:
+ *   const store = new SQLiteQueueStore({ namespace: 'my-ns', stateDir: '/path/to/state' });
+ *   await store.ensureTable(); // Opens the database and creates tables
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  QueueItem,
+  QueueItemStatus,
+  ProgressEvent,
+  ClaimResult,
+  ClaimOptions,
+  StatusUpdateResult,
+  TaskGroupSummary,
+  TaskGroupStatus,
+  NamespaceSummary,
+  RunnerRecord,
+  ClarificationRequest,
+  ConversationEntry,
+  isValidStatusTransition,
+  getRetryRejection,
+  IQueueStore,
+  TaskTypeValue,
+  EnqueueOptions,
+  RollbackHistoryEntry,
+  deriveTaskGroupStatus,
+  isDependencyGateOpen,
+  setDependencyBlock,
+  validateDependencies,
+  PriorityUpdateResult,
+} from './queue-store';
+import { FairShareConfig, FairShareScheduler, TaskPriority } from './fair-share';
+import { addTaskUsage, type TaskUsage } from './task-usage';
+import type { QAGateReport } from '../core/qa-gates';
+import { SQLiteDatabase, getSqliteDbPath, openSqliteDatabase } from '../storage/sqlite-db';
+
+/**
+ * SQLite Queue Store configuration
+ */
+export interface SQLiteQueueStoreConfig {
+  /** Namespace for this store instance */
+  namespace: string;
+  /** State directory (database at {stateDir}/pm-runner.sqlite) */
+  stateDir: string;
+  /** Explicit database path (overrides stateDir; ':memory:' for tests) */
+  dbPath?: string;
+  /** v2.4: Priority aging and per-project weights for claim() */
+  fairShare?: FairShareConfig;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS queue_tasks (
+    namespace TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    task_group_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (namespace, task_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_queue_tasks_status ON queue_tasks (namespace, status, created_at);
+  CREATE INDEX IF NOT EXISTS idx_queue_tasks_group ON queue_tasks (namespace, task_group_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS queue_runners (
+    namespace TEXT NOT NULL,
+    runner_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (namespace, runner_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS queue_task_groups (
+    namespace TEXT NOT NULL,
+    task_group_id TEXT NOT NULL,
+    group_status TEXT NOT NULL,
+    PRIMARY KEY (namespace, task_group_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS queue_rollback_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    namespace TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+`;
+
+/** Rollback history entries kept per namespace */
+const MAX_ROLLBACK_HISTORY = 200;
+
+/** Large fields dropped by getAllItemsSummary() */
+const SUMMARY_COLUMNS = `json_remove(data, '$.output', '$.conversation_history', '$.events') AS data`;
+
+/**
+ * SQLite-backed Queue Store
+ * Drop-in replacement for FileQueueStore on single machines
+ */
+export class SQLiteQueueStore implements IQueueStore {
+  private readonly namespace: string;
+  private readonly dbPath: string;
+  private readonly fairShare: FairShareScheduler;
+  private database: SQLiteDatabase | null = null;
+
+  constructor(config: SQLiteQueueStoreConfig) {
+    this.namespace = config.namespace;
+    this.dbPath = config.dbPath ?? getSqliteDbPath(config.stateDir);
+    this.fairShare = new FairShareScheduler(config.fairShare);
+  }
+
+  /**
+   * Database connection (opened and migrated on first use)
+   */
+  private get db(): SQLiteDatabase {
+    if (!this.database) {
+      this.database = openSqliteDatabase(this.dbPath);
+      this.database.exec(SCHEMA);
+    }
+    return this.database;
+  }
+
+  getNamespace(): string {
+    return this.namespace;
+  }
+
+  /**
+   * Get endpoint (returns database path for SQLite store)
+   */
+  getEndpoint(): string {
+    return `sqlite:${this.dbPath}`;
+  }
+
+  getTableName(): string {
+    return 'queue_tasks';
+  }
+
+  /**
+   * Get store type identifier
+   */
+  getStoreType(): string {
+    return 'sqlite';
+  }
+
+  async tableExists(): Promise<boolean> {
+    const row = this.db
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'queue_tasks'`)
+      .get();
+    return row !== undefined;
+  }
+
+  /**
+   * Open the database and create tables / indexes
+   */
+  async createTable(): Promise<void> {
+    void this.db;
+  }
+
+  /**
+   * No-op (runners live in the same database)
+   */
+  async createRunnersTable(): Promise<void> {
+    // No-op - queue_runners is created with the schema
+  }
+
+  async runnersTableExists(): Promise<boolean> {
+    return this.tableExists();
+  }
+
+  async ensureTable(): Promise<void> {
+    await this.createTable();
+  }
+
+  /**
+   * Delete all rows for this namespace
+   */
+  async deleteTable(): Promise<void> {
+    this.db.transaction(() => {
+      for (const table of ['queue_tasks', 'queue_runners', 'queue_task_groups', 'queue_rollback_history']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE namespace = ?`).run(this.namespace);
+      }
+    })();
+  }
+
+  // ===============================
+  // Row helpers
+  // ===============================
+
+  private selectItems(where: string, ...params: unknown[]): QueueItem[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM queue_tasks WHERE ${where} ORDER BY created_at`)
+      .all(...params) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as QueueItem);
+  }
+
+  private readItem(taskId: string, ns: string = this.namespace): QueueItem | null {
+    const row = this.db
+      .prepare('SELECT data FROM queue_tasks WHERE namespace = ? AND task_id = ?')
+      .get(ns, taskId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as QueueItem) : null;
+  }
+
+  private writeItem(item: QueueItem): void {
+    this.db
+      .prepare(`
+        INSERT INTO queue_tasks (namespace, task_id, task_group_id, status, created_at, data)
+        VALUES (@namespace, @task_id, @task_group_id, @status, @created_at, @data)
+        ON CONFLICT (namespace, task_id) DO UPDATE SET
+          task_group_id = excluded.task_group_id,
+          status = excluded.status,
+          data = excluded.data
+      `)
+      .run({
+        namespace: item.namespace,
+        task_id: item.task_id,
+        task_group_id: item.task_group_id,
+        status: item.status,
+        created_at: item.created_at,
+        data: JSON.stringify(item),
+      });
+  }
+
+  /**
+   * Read-modify-write a task in one transaction.
+   * Returns the updated item, or null when the task does not exist.
+   */
+  private updateItem(taskId: string, mutate: (item: QueueItem) => void): QueueItem | null {
+    return this.db.transaction(() => {
+      const item = this.readItem(taskId);
+      if (!item) {
+        return null;
+      }
+      mutate(item);
+      this.writeItem(item);
+      return item;
+    }).immediate();
+  }
+
+  /**
+   * Enqueue a new task
+   */
+  async enqueue(
+    sessionId: string,
+    taskGroupId: string,
+    prompt: string,
+    taskId?: string,
+    taskType?: TaskTypeValue,
+    projectPath?: string,
+    parentTaskId?: string,
+    options?: EnqueueOptions
+  ): Promise<QueueItem> {
+    const now = new Date().toISOString();
+    const resolvedTaskId = taskId || uuidv4();
+    const dependsOn = options?.dependsOn?.length
+      ? await validateDependencies(resolvedTaskId, options.dependsOn, id => this.getItem(id))
+      : undefined;
+    const item: QueueItem = {
+      namespace: this.namespace,
+      task_id: resolvedTaskId,
+      task_group_id: taskGroupId,
+      session_id: sessionId,
+      status: 'QUEUED',
+      prompt,
+      created_at: now,
+      updated_at: now,
+      task_type: taskType,
+      ...(projectPath ? { project_path: projectPath } : {}),
+      ...(parentTaskId ? { parent_task_id: parentTaskId } : {}),
+      ...(options?.addTest ? { add_test: true } : {}),
+      ...(options?.addReview ? { add_review: true } : {}),
+      ...(options?.projectAlias ? { project_alias: options.projectAlias } : {}),
+      ...(dependsOn ? { depends_on: dependsOn, dependency_policy: options?.onDependencyFailure ?? 'cancel' } : {}),
+      ...(options?.priority ? { priority: options.priority } : {}),
+      ...(options?.attachments?.length ? { attachments: options.attachments } : {}),
+    };
+
+    this.writeItem(item);
+    return item;
+  }
+
+  /**
+   * Insert a task exactly as given (migration / bundle import). Existing rows are kept.
+   * Returns false when the task already exists.
+   */
+  async importItem(item: QueueItem): Promise<boolean> {
+    const result = this.db
+      .prepare(`
+        INSERT OR IGNORE INTO queue_tasks (namespace, task_id, task_group_id, status, created_at, data)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(item.namespace, item.task_id, item.task_group_id, item.status, item.created_at, JSON.stringify(item));
+    return result.changes > 0;
+  }
+
+  /**
+   * Insert a runner record exactly as given (migration). Existing rows are kept.
+   */
+  importRunner(runner: RunnerRecord): boolean {
+    const result = this.db
+      .prepare('INSERT OR IGNORE INTO queue_runners (namespace, runner_id, data) VALUES (?, ?, ?)')
+      .run(runner.namespace, runner.runner_id, JSON.stringify(runner));
+    return result.changes > 0;
+  }
+
+  async getItem(taskId: string, targetNamespace?: string): Promise<QueueItem | null> {
+    return this.readItem(taskId, targetNamespace);
+  }
+
+  /**
+   * Claim the next QUEUED task in priority / fair-share order (see fair-share.ts)
+   * Candidates rejected by options.canClaim stay QUEUED.
+   */
+  async claim(options?: ClaimOptions): Promise<ClaimResult> {
+    // Ordered before canClaim filtering so held-back projects keep their share
+    const candidates = this.fairShare.order(this.selectItems('namespace = ? AND status = ?', this.namespace, 'QUEUED'))
+      .filter(item => !options?.canClaim || options.canClaim(item));
+
+    let next: QueueItem | null = null;
+    for (const candidate of candidates) {
+      const gateOpen = await isDependencyGateOpen(this, candidate, blocked => {
+        this.updateItem(candidate.task_id, task => setDependencyBlock(task, blocked));
+      });
+      if (gateOpen) {
+        next = candidate;
+        break;
+      }
+    }
+
+    if (!next) {
+      return { success: false };
+    }
+
+    // Re-check under the write lock: another process may have claimed it meanwhile
+    const claimed = this.db.transaction((taskId: string): QueueItem | null => {
+      const item = this.readItem(taskId);
+      if (!item || item.status !== 'QUEUED') {
+        return null;
+      }
+      item.status = 'RUNNING';
+      item.updated_at = new Date().toISOString();
+      this.writeItem(item);
+      return item;
+    }).immediate(next.task_id);
+
+    if (!claimed) {
+      return { success: false, error: 'Task already claimed by another process' };
+    }
+    this.fairShare.recordClaim(claimed);
+    return { success: true, item: claimed };
+  }
+
+  async updateStatus(
+    taskId: string,
+    status: QueueItemStatus,
+    errorMessage?: string,
+    output?: string
+  ): Promise<void> {
+    this.updateItem(taskId, item => {
+      item.status = status;
+      item.updated_at = new Date().toISOString();
+      if (errorMessage) {
+        item.error_message = errorMessage;
+      }
+      if (output) {
+        item.output = output;
+      }
+    });
+  }
+
+  /**
+   * Append a progress event to a task
+   */
+  async appendEvent(taskId: string, event: ProgressEvent): Promise<boolean> {
+    const timestamp = event.timestamp || new Date().toISOString();
+    const maxEvents = 1000;
+    const updated = this.updateItem(taskId, item => {
+      const events = [...(item.events || []), { ...event, timestamp }];
+      item.events = events.length > maxEvents ? events.slice(-maxEvents) : events;
+      item.updated_at = timestamp;
+    });
+    return updated !== null;
+  }
+
+  async updateStatusWithValidation(
+    taskId: string,
+    newStatus: QueueItemStatus
+  ): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+
+    if (!task) {
+      return {
+        success: false,
+        task_id: taskId,
+        error: 'Task not found',
+        message: `Task not found: ${taskId}`,
+      };
+    }
+
+    const oldStatus = task.status;
+
+    if (!isValidStatusTransition(oldStatus, newStatus)) {
+      return {
+        success: false,
+        task_id: taskId,
+        old_status: oldStatus,
+        error: 'Invalid status transition',
+        message: `Cannot transition from ${oldStatus} to ${newStatus}`,
+      };
+    }
+
+    await this.updateStatus(taskId, newStatus);
+
+    return {
+      success: true,
+      task_id: taskId,
+      old_status: oldStatus,
+      new_status: newStatus,
+    };
+  }
+
+  /**
+   * Runner only: RUNNING -> QUEUED (re-checked under the write lock)
+   */
+  async releaseClaim(taskId: string): Promise<boolean> {
+    return this.db.transaction((id: string): boolean => {
+      const item = this.readItem(id);
+      if (!item || item.status !== 'RUNNING') {
+        return false;
+      }
+      item.status = 'QUEUED';
+      item.updated_at = new Date().toISOString();
+      this.writeItem(item);
+      return true;
+    }).immediate(taskId);
+  }
+
+  /**
+   * v2.4: Change the priority lane of a QUEUED task
+   */
+  async updatePriority(taskId: string, priority: TaskPriority): Promise<PriorityUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const oldPriority = task.priority ?? 'normal';
+    if (task.status !== 'QUEUED') {
+      return {
+        success: false,
+        task_id: taskId,
+        old_priority: oldPriority,
+        error: 'Task not queued',
+        message: `Priority can only be changed while QUEUED (task is ${task.status})`,
+      };
+    }
+
+    this.updateItem(taskId, item => {
+      item.priority = priority;
+      item.updated_at = new Date().toISOString();
+    });
+
+    return { success: true, task_id: taskId, old_priority: oldPriority, new_priority: priority };
+  }
+
+  async setAwaitingResponse(
+    taskId: string,
+    clarification: ClarificationRequest,
+    conversationHistory?: ConversationEntry[],
+    output?: string
+  ): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+
+    if (!task) {
+      return {
+        success: false,
+        task_id: taskId,
+        error: 'Task not found',
+        message: `Task not found: ${taskId}`,
+      };
+    }
+
+    const oldStatus = task.status;
+
+    if (!isValidStatusTransition(oldStatus, 'AWAITING_RESPONSE')) {
+      return {
+        success: false,
+        task_id: taskId,
+        old_status: oldStatus,
+        error: 'Invalid status transition',
+        message: `Cannot transition from ${oldStatus} to AWAITING_RESPONSE`,
+      };
+    }
+
+    this.updateItem(taskId, item => {
+      item.status = 'AWAITING_RESPONSE';
+      item.updated_at = new Date().toISOString();
+      item.clarification = clarification;
+      item.conversation_history = conversationHistory || [];
+      if (output) {
+        item.output = output;
+      }
+    });
+
+    return {
+      success: true,
+      task_id: taskId,
+      old_status: oldStatus,
+      new_status: 'AWAITING_RESPONSE',
+    };
+  }
+
+  async resumeWithResponse(
+    taskId: string,
+    userResponse: string
+  ): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+
+    if (!task) {
+      return {
+        success: false,
+        task_id: taskId,
+        error: 'Task not found',
+        message: `Task not found: ${taskId}`,
+      };
+    }
+
+    if (task.status !== 'AWAITING_RESPONSE') {
+      return {
+        success: false,
+        task_id: taskId,
+        old_status: task.status,
+        error: 'Invalid status',
+        message: `Task is not awaiting response: ${task.status}`,
+      };
+    }
+
+    this.updateItem(taskId, item => {
+      const now = new Date().toISOString();
+      item.status = 'QUEUED';
+      item.updated_at = now;
+      item.conversation_history = [
+        ...(item.conversation_history || []),
+        { role: 'user', content: userResponse, timestamp: now },
+      ];
+    });
+
+    return {
+      success: true,
+      task_id: taskId,
+      old_status: 'AWAITING_RESPONSE',
+      new_status: 'QUEUED',
+    };
+  }
+
+  /**
+   * Re-queue an ERROR / CANCELLED task, clearing the error of the previous run
+   */
+  async retryTask(taskId: string): Promise<StatusUpdateResult> {
+    const task = await this.getItem(taskId);
+    if (!task) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    const rejection = getRetryRejection(task);
+    if (rejection) {
+      return rejection;
+    }
+
+    this.updateItem(taskId, item => {
+      item.status = 'QUEUED';
+      item.updated_at = new Date().toISOString();
+      delete item.error_message;
+      delete item.failure_category;
+      delete item.failure_summary;
+      delete item.failure_next_actions;
+    });
+
+    return { success: true, task_id: taskId, old_status: task.status, new_status: 'QUEUED' };
+  }
+
+  /**
+   * Get items by status for this namespace (idx_queue_tasks_status)
+   */
+  async getByStatus(status: QueueItemStatus): Promise<QueueItem[]> {
+    return this.selectItems('namespace = ? AND status = ?', this.namespace, status);
+  }
+
+  /**
+   * Get items by task group ID (idx_queue_tasks_group)
+   */
+  async getByTaskGroup(taskGroupId: string, targetNamespace?: string): Promise<QueueItem[]> {
+    return this.selectItems('namespace = ? AND task_group_id = ?', targetNamespace ?? this.namespace, taskGroupId);
+  }
+
+  async getAllItems(targetNamespace?: string): Promise<QueueItem[]> {
+    return this.selectItems('namespace = ?', targetNamespace ?? this.namespace);
+  }
+
+  /**
+   * Lightweight version of getAllItems (output, conversation_history and events removed in SQL)
+   */
+  async getAllItemsSummary(targetNamespace?: string): Promise<QueueItem[]> {
+    const rows = this.db
+      .prepare(`SELECT ${SUMMARY_COLUMNS} FROM queue_tasks WHERE namespace = ? ORDER BY created_at`)
+      .all(targetNamespace ?? this.namespace) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as QueueItem);
+  }
+
+  /**
+   * Get all distinct task groups for a namespace with summary
+   */
+  async getAllTaskGroups(targetNamespace?: string): Promise<TaskGroupSummary[]> {
+    const ns = targetNamespace ?? this.namespace;
+    const items = await this.getAllItemsSummary(ns);
+    const overrides = this.getGroupStatusOverrides(ns);
+    const groupMap = new Map<string, {
+      count: number;
+      createdAt: string;
+      latestUpdatedAt: string;
+      statusCounts: Record<QueueItemStatus, number>;
+      latestStatus: QueueItemStatus;
+      latestStatusTime: string;
+      firstPrompt: string;
+    }>();
+
+    for (const item of items) {
+      const existing = groupMap.get(item.task_group_id);
+      if (existing) {
+        existing.count++;
+        if (item.created_at < existing.createdAt) {
+          existing.createdAt = item.created_at;
+          existing.firstPrompt = item.prompt?.substring(0, 120) || '';
+        }
+        if (item.updated_at > existing.latestUpdatedAt) {
+          existing.latestUpdatedAt = item.updated_at;
+        }
+        existing.statusCounts[item.status] = (existing.statusCounts[item.status] || 0) + 1;
+        if (item.updated_at > existing.latestStatusTime) {
+          existing.latestStatus = item.status;
+          existing.latestStatusTime = item.updated_at;
+        }
+      } else {
+        const statusCounts = { QUEUED: 0, RUNNING: 0, AWAITING_RESPONSE: 0, WAITING_CHILDREN: 0, COMPLETE: 0, ERROR: 0, CANCELLED: 0 } as Record<QueueItemStatus, number>;
+        statusCounts[item.status] = 1;
+        groupMap.set(item.task_group_id, {
+          count: 1,
+          createdAt: item.created_at,
+          latestUpdatedAt: item.updated_at,
+          statusCounts,
+          latestStatus: item.status,
+          latestStatusTime: item.updated_at,
+          firstPrompt: item.prompt?.substring(0, 120) || '',
+        });
+      }
+    }
+
+    const groups: TaskGroupSummary[] = [];
+    for (const [taskGroupId, data] of groupMap) {
+      groups.push({
+        task_group_id: taskGroupId,
+        task_count: data.count,
+        created_at: data.createdAt,
+        latest_updated_at: data.latestUpdatedAt,
+        status_counts: data.statusCounts,
+        latest_status: data.latestStatus,
+        group_status: overrides.get(taskGroupId) || deriveTaskGroupStatus(data.statusCounts),
+        first_prompt: data.firstPrompt,
+      });
+    }
+
+    groups.sort((a, b) => b.latest_updated_at.localeCompare(a.latest_updated_at));
+    return groups;
+  }
+
+  private getGroupStatusOverrides(ns: string): Map<string, TaskGroupStatus> {
+    const rows = this.db
+      .prepare('SELECT task_group_id, group_status FROM queue_task_groups WHERE namespace = ?')
+      .all(ns) as Array<{ task_group_id: string; group_status: TaskGroupStatus }>;
+    return new Map(rows.map(row => [row.task_group_id, row.group_status]));
+  }
+
+  private groupExists(taskGroupId: string, ns: string): boolean {
+    return this.db
+      .prepare('SELECT 1 FROM queue_tasks WHERE namespace = ? AND task_group_id = ? LIMIT 1')
+      .get(ns, taskGroupId) !== undefined;
+  }
+
+  /**
+   * Set or clear archived status on a task group
+   */
+  async setTaskGroupArchived(taskGroupId: string, archived: boolean, targetNamespace?: string): Promise<boolean> {
+    return this.setTaskGroupStatus(taskGroupId, archived ? 'archived' : null, targetNamespace);
+  }
+
+  /**
+   * Set group status override. null clears the override and returns to derived status.
+   */
+  async setTaskGroupStatus(taskGroupId: string, status: TaskGroupStatus | null, targetNamespace?: string): Promise<boolean> {
+    const ns = targetNamespace ?? this.namespace;
+    if (!this.groupExists(taskGroupId, ns)) {
+      return false;
+    }
+    if (status === null) {
+      this.db.prepare('DELETE FROM queue_task_groups WHERE namespace = ? AND task_group_id = ?').run(ns, taskGroupId);
+    } else {
+      this.db
+        .prepare(`
+          INSERT INTO queue_task_groups (namespace, task_group_id, group_status) VALUES (?, ?, ?)
+          ON CONFLICT (namespace, task_group_id) DO UPDATE SET group_status = excluded.group_status
+        `)
+        .run(ns, taskGroupId, status);
+    }
+    return true;
+  }
+
+  async getAllNamespaces(): Promise<NamespaceSummary[]> {
+    const summaries = new Map<string, NamespaceSummary>();
+    const summaryFor = (ns: string): NamespaceSummary => {
+      let summary = summaries.get(ns);
+      if (!summary) {
+        summary = { namespace: ns, task_count: 0, runner_count: 0, active_runner_count: 0 };
+        summaries.set(ns, summary);
+      }
+      return summary;
+    };
+
+    const taskRows = this.db
+      .prepare('SELECT namespace, COUNT(*) AS count FROM queue_tasks GROUP BY namespace')
+      .all() as Array<{ namespace: string; count: number }>;
+    for (const row of taskRows) {
+      summaryFor(row.namespace).task_count = row.count;
+    }
+
+    const now = Date.now();
+    const HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+    const runnerRows = this.db.prepare('SELECT data FROM queue_runners').all() as Array<{ data: string }>;
+    for (const row of runnerRows) {
+      const runner = JSON.parse(row.data) as RunnerRecord;
+      const summary = summaryFor(runner.namespace);
+      summary.runner_count++;
+      if (now - new Date(runner.last_heartbeat).getTime() < HEARTBEAT_TIMEOUT_MS) {
+        summary.active_runner_count++;
+      }
+    }
+
+    return [...summaries.values()].sort((a, b) => a.namespace.localeCompare(b.namespace));
+  }
+
+  async setFailureInfo(taskId: string, failureInfo: {
+    failure_category: string;
+    failure_summary: string;
+    failure_next_actions: Array<{ label: string; actionType: string; target?: string }>;
+    command_preview?: string;
+  }): Promise<void> {
+    this.updateItem(taskId, item => {
+      item.failure_category = failureInfo.failure_category;
+      item.failure_summary = failureInfo.failure_summary;
+      item.failure_next_actions = failureInfo.failure_next_actions;
+      if (failureInfo.command_preview) {
+        item.command_preview = failureInfo.command_preview;
+      }
+      item.updated_at = new Date().toISOString();
+    });
+  }
+
+  async deleteItem(taskId: string): Promise<void> {
+    this.db.prepare('DELETE FROM queue_tasks WHERE namespace = ? AND task_id = ?').run(this.namespace, taskId);
+  }
+
+  /**
+   * Delete all tasks in a task group. Returns count of deleted items.
+   */
+  async deleteTaskGroup(taskGroupId: string, targetNamespace?: string): Promise<number> {
+    const ns = targetNamespace ?? this.namespace;
+    return this.db.transaction(() => {
+      const result = this.db
+        .prepare('DELETE FROM queue_tasks WHERE namespace = ? AND task_group_id = ?')
+        .run(ns, taskGroupId);
+      this.db.prepare('DELETE FROM queue_task_groups WHERE namespace = ? AND task_group_id = ?').run(ns, taskGroupId);
+      return result.changes;
+    })();
+  }
+
+  /**
+   * Mark stale RUNNING tasks as ERROR
+   */
+  async recoverStaleTasks(maxAgeMs: number = 5 * 60 * 1000): Promise<number> {
+    const runningTasks = await this.getByStatus('RUNNING');
+    const now = Date.now();
+    let recovered = 0;
+
+    for (const task of runningTasks) {
+      const taskAge = now - new Date(task.updated_at).getTime();
+      if (taskAge > maxAgeMs) {
+        await this.updateStatus(
+          task.task_id,
+          'ERROR',
+          `Task stale: running for ${Math.round(taskAge / 1000)}s without completion`
+        );
+        recovered++;
+      }
+    }
+
+    return recovered;
+  }
+
+  // ===============================
+  // Runner Heartbeat Methods
+  // ===============================
+
+  private writeRunner(runner: RunnerRecord): void {
+    this.db
+      .prepare(`
+        INSERT INTO queue_runners (namespace, runner_id, data) VALUES (?, ?, ?)
+        ON CONFLICT (namespace, runner_id) DO UPDATE SET data = excluded.data
+      `)
+      .run(runner.namespace, runner.runner_id, JSON.stringify(runner));
+  }
+
+  async updateRunnerHeartbeat(runnerId: string, projectRoot: string): Promise<void> {
+    const now = new Date().toISOString();
+    const existing = await this.getRunner(runnerId);
+
+    if (existing) {
+      existing.last_heartbeat = now;
+      existing.status = 'RUNNING';
+      this.writeRunner(existing);
+    } else {
+      this.writeRunner({
+        namespace: this.namespace,
+        runner_id: runnerId,
+        last_heartbeat: now,
+        started_at: now,
+        status: 'RUNNING',
+        project_root: projectRoot,
+      });
+    }
+  }
+
+  async getRunner(runnerId: string): Promise<RunnerRecord | null> {
+    const row = this.db
+      .prepare('SELECT data FROM queue_runners WHERE namespace = ? AND runner_id = ?')
+      .get(this.namespace, runnerId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as RunnerRecord) : null;
+  }
+
+  async getAllRunners(targetNamespace?: string): Promise<RunnerRecord[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM queue_runners WHERE namespace = ?')
+      .all(targetNamespace ?? this.namespace) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as RunnerRecord);
+  }
+
+  async getRunnersWithStatus(
+    heartbeatTimeoutMs: number = 2 * 60 * 1000,
+    targetNamespace?: string
+  ): Promise<Array<RunnerRecord & { isAlive: boolean }>> {
+    const runners = await this.getAllRunners(targetNamespace);
+    const now = Date.now();
+
+    return runners.map(runner => ({
+      ...runner,
+      isAlive: now - new Date(runner.last_heartbeat).getTime() < heartbeatTimeoutMs,
+    }));
+  }
+
+  async markRunnerStopped(runnerId: string): Promise<void> {
+    const runner = await this.getRunner(runnerId);
+    if (runner) {
+      runner.status = 'STOPPED';
+      this.writeRunner(runner);
+    }
+  }
+
+  async deleteRunner(runnerId: string): Promise<void> {
+    this.db.prepare('DELETE FROM queue_runners WHERE namespace = ? AND runner_id = ?').run(this.namespace, runnerId);
+  }
+
+  /**
+   * v2.5: Add executor usage to the task's usage totals
+   */
+  async recordUsage(taskId: string, usage: TaskUsage): Promise<void> {
+    this.updateItem(taskId, item => {
+      item.usage = addTaskUsage(item.usage, usage);
+      item.updated_at = new Date().toISOString();
+    });
+  }
+
+  /**
+   * v2.7: Store the latest QA gate run on the task
+   */
+  async recordQAGates(taskId: string, report: QAGateReport): Promise<void> {
+    this.updateItem(taskId, item => {
+      item.qa_gates = report;
+      item.updated_at = new Date().toISOString();
+    });
+  }
+
+  /**
+   * v2.8: Set or clear the Claude Code session id of the task
+   */
+  async setClaudeSessionId(taskId: string, sessionId: string | undefined): Promise<void> {
+    this.updateItem(taskId, item => {
+      const now = new Date().toISOString();
+      if (sessionId === undefined) {
+        delete item.claude_session_id;
+        delete item.claude_session_at;
+      } else {
+        item.claude_session_id = sessionId;
+        item.claude_session_at = now;
+      }
+      item.updated_at = now;
+    });
+  }
+
+  /**
+   * v2.3: Set or clear checkpoint_ref on a task
+   */
+  async setCheckpointRef(taskId: string, ref: string | undefined): Promise<void> {
+    this.updateItem(taskId, item => {
+      if (ref === undefined) {
+        delete item.checkpoint_ref;
+      } else {
+        item.checkpoint_ref = ref;
+      }
+      item.updated_at = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Rollback history is persisted (unlike the file store) and capped per namespace
+   */
+  async appendRollbackHistory(entry: RollbackHistoryEntry): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare('INSERT INTO queue_rollback_history (namespace, data) VALUES (?, ?)')
+        .run(this.namespace, JSON.stringify(entry));
+      this.db
+        .prepare(`
+          DELETE FROM queue_rollback_history WHERE namespace = ? AND id NOT IN (
+            SELECT id FROM queue_rollback_history WHERE namespace = ? ORDER BY id DESC LIMIT ?
+          )
+        `)
+        .run(this.namespace, this.namespace, MAX_ROLLBACK_HISTORY);
+    })();
+  }
+
+  async getRollbackHistory(limit: number = 20): Promise<RollbackHistoryEntry[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM queue_rollback_history WHERE namespace = ? ORDER BY id DESC LIMIT ?')
+      .all(this.namespace, limit) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as RollbackHistoryEntry);
+  }
+
+  /**
+   * Close the database connection
+   */
+  destroy(): void {
+    this.database?.close();
+    this.database = null;
+  }
+}
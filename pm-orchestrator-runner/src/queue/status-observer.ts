@@ -0,0 +1,98 @@
+/**
+ * Queue Status Observer
+ * Per spec/39_WEBHOOKS.md
+ *
+ * Wraps any IQueueStore so that every status change made through it is
+ * reported to a listener (used by the webhook dispatcher). The previous
+ * status is read before the write and compared with the stored status after,
+ * so no-op updates and rejected transitions are not reported.
+ *
+ * Only changes made through the wrapped instance are seen: another process
+ * writing the same DynamoDB table / SQLite file reports its own transitions.
+ */
+
+import type { IQueueStore, QueueItem, QueueItemStatus } from './queue-store';
+import { log } from '../logging/app-logger';
+
+/**
+ * A task status change observed on the queue store
+ */
+export interface QueueStatusTransition {
+  /** Task as stored after the change */
+  item: QueueItem;
+  from: QueueItemStatus;
+  to: QueueItemStatus;
+}
+
+export type QueueStatusListener = (transition: QueueStatusTransition) => void;
+
+/**
+ * Wrap a queue store so that status transitions are reported to `listener`.
+ * Listener errors are logged and never fail the store operation.
+ */
+export function observeStatusTransitions(store: IQueueStore, listener: QueueStatusListener): IQueueStore {
+  const emit = (item: QueueItem | null, from: QueueItemStatus | undefined): void => {
+    if (!item || !from || item.status === from) {
+      return;
+    }
+    try {
+      listener({ item, from, to: item.status });
+    } catch (error) {
+      log.sys.warn('Status transition listener failed', {
+        taskId: item.task_id,
+        from,
+        to: item.status,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const track = async <T>(taskId: string, write: () => Promise<T>): Promise<T> => {
+    // Copy the status: InMemoryQueueStore returns live objects that the write mutates
+    const from = (await store.getItem(taskId))?.status;
+    const result = await write();
+    emit(await store.getItem(taskId), from);
+    return result;
+  };
+
+  const observed: Partial<IQueueStore> = {
+    claim: async (options) => {
+      const result = await store.claim(options);
+      if (result.success && result.item) {
+        emit(result.item, 'QUEUED');
+      }
+      return result;
+    },
+    updateStatus: (taskId, status, errorMessage, output) =>
+      track(taskId, () => store.updateStatus(taskId, status, errorMessage, output)),
+    updateStatusWithValidation: (taskId, newStatus) =>
+      track(taskId, () => store.updateStatusWithValidation(taskId, newStatus)),
+    setAwaitingResponse: (taskId, clarification, conversationHistory, output) =>
+      track(taskId, () => store.setAwaitingResponse(taskId, clarification, conversationHistory, output)),
+    resumeWithResponse: (taskId, userResponse) =>
+      track(taskId, () => store.resumeWithResponse(taskId, userResponse)),
+    releaseClaim: taskId =>
+      track(taskId, () => store.releaseClaim(taskId)),
+    recoverStaleTasks: async (maxAgeMs) => {
+      const running = await store.getByStatus('RUNNING');
+      const recovered = await store.recoverStaleTasks(maxAgeMs);
+      if (recovered > 0) {
+        for (const task of running) {
+          emit(await store.getItem(task.task_id), 'RUNNING');
+        }
+      }
+      return recovered;
+    },
+  };
+
+  return new Proxy(store, {
+    get(target, prop) {
+      if (Object.prototype.hasOwnProperty.call(observed, prop)) {
+        return observed[prop as keyof IQueueStore];
+      }
+      const value = Reflect.get(target, prop, target);
+      // Bind to the real store so calls it makes on itself (recoverStaleTasks -> updateStatus) are not reported twice
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * Task Attachments - Images attached to a chat message, passed to the executor
+ * Per spec/51_TASK_ATTACHMENTS.md
+ *
+ * The chat API receives images as base64 data URLs. They are decoded and
+ * written to {project}/.claude/state/attachments/<task_id>/, referenced on the
+ * QueueItem (attachments, v2.9), and listed in the executor prompt so Claude
+ * Code can open them with its Read tool. The directory is removed when the
+ * task is deleted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const TASK_ATTACHMENT_LIMITS = {
+  /** Attachments per task */
+  MAX_FILES: 5,
+  /** Decoded size of one attachment */
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+  /** Decoded size of all attachments of a task */
+  MAX_TOTAL_BYTES: 20 * 1024 * 1024,
+};
+
+/**
+ * Image types Claude Code can read, with their file extension
+ */
+const ALLOWED_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+/** Runner state inside the project (excluded from task diffs) */
+const ATTACHMENTS_DIR = path.join('.claude', 'state', 'attachments');
+
+/**
+ * Attachment as received from the chat API
+ */
+export interface AttachmentInput {
+  name: string;
+  /** MIME type e.g. "image/png" */
+  type: string;
+  /** base64 data URL (or bare base64) */
+  data: string;
+}
+
+/**
+ * Attachment stored on disk and referenced on the QueueItem
+ */
+export interface TaskAttachment {
+  /** Original file name */
+  name: string;
+  type: string;
+  /** Decoded size in bytes */
+  size: number;
+  /** Relative to the task's project directory */
+  path: string;
+}
+
+export type TaskAttachmentErrorCode = 'INVALID_ATTACHMENT' | 'UNSUPPORTED_TYPE' | 'TOO_LARGE' | 'TOO_MANY';
+
+export class TaskAttachmentError extends Error {
+  constructor(message: string, public readonly code: TaskAttachmentErrorCode) {
+    super(message);
+    this.name = 'TaskAttachmentError';
+  }
+}
+
+/**
+ * Decoded attachment, validated but not yet written
+ */
+export interface DecodedAttachment {
+  name: string;
+  type: string;
+  content: Buffer;
+}
+
+function attachmentsDir(projectDir: string, taskId: string): string {
+  return path.join(projectDir, ATTACHMENTS_DIR, taskId.replace(/[^A-Za-z0-9_.:-]/g, '_'));
+}
+
+/**
+ * Validate and decode chat attachments.
+ *
+ * @throws TaskAttachmentError for malformed data, unsupported types or size limits
+ */
+export function decodeAttachments(inputs: AttachmentInput[]): DecodedAttachment[] {
+  if (inputs.length > TASK_ATTACHMENT_LIMITS.MAX_FILES) {
+    throw new TaskAttachmentError(`At most ${TASK_ATTACHMENT_LIMITS.MAX_FILES} attachments are allowed`, 'TOO_MANY');
+  }
+
+  let total = 0;
+  return inputs.map(input => {
+    const match = input.data.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+    const type = (match ? match[1] : input.type).toLowerCase();
+    if (!ALLOWED_TYPES[type] || (match && type !== input.type.toLowerCase())) {
+      throw new TaskAttachmentError(`Unsupported attachment type: ${input.type}`, 'UNSUPPORTED_TYPE');
+    }
+    const base64 = (match ? match[2] : input.data).replace(/\s/g, '');
+    if (!base64 || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+      throw new TaskAttachmentError(`Attachment is not valid base64: ${input.name}`, 'INVALID_ATTACHMENT');
+    }
+    const content = Buffer.from(base64, 'base64');
+    if (content.length > TASK_ATTACHMENT_LIMITS.MAX_FILE_BYTES) {
+      throw new TaskAttachmentError(`Attachment exceeds ${TASK_ATTACHMENT_LIMITS.MAX_FILE_BYTES} bytes: ${input.name}`, 'TOO_LARGE');
+    }
+    total += content.length;
+    if (total > TASK_ATTACHMENT_LIMITS.MAX_TOTAL_BYTES) {
+      throw new TaskAttachmentError(`Attachments exceed ${TASK_ATTACHMENT_LIMITS.MAX_TOTAL_BYTES} bytes in total`, 'TOO_LARGE');
+    }
+    return { name: input.name, type, content };
+  });
+}
+
+/**
+ * Write decoded attachments to the task's attachment directory
+ */
+export function saveTaskAttachments(projectDir: string, taskId: string, attachments: DecodedAttachment[]): TaskAttachment[] {
+  if (attachments.length === 0) {
+    return [];
+  }
+  const dir = attachmentsDir(projectDir, taskId);
+  fs.mkdirSync(dir, { recursive: true });
+  return attachments.map((attachment, index) => {
+    const base = path.basename(attachment.name, path.extname(attachment.name))
+      .replace(/[^A-Za-z0-9_.-]+/g, '_')
+      .slice(0, 60) || 'image';
+    const file = path.join(dir, `${index + 1}-${base}.${ALLOWED_TYPES[attachment.type]}`);
+    fs.writeFileSync(file, attachment.content);
+    return {
+      name: attachment.name,
+      type: attachment.type,
+      size: attachment.content.length,
+      path: path.relative(projectDir, file).split(path.sep).join('/'),
+    };
+  });
+}
+
+/**
+ * Remove the task's attachment directory (no-op when there is none)
+ */
+export function deleteTaskAttachments(projectDir: string, taskId: string): void {
+  fs.rmSync(attachmentsDir(projectDir, taskId), { recursive: true, force: true });
+}
+
+/**
+ * Prompt section listing the attachments by absolute path.
+ * Attachments whose file is gone are left out; returns '' when none remain.
+ */
+export function buildAttachmentPrompt(projectDir: string, attachments: TaskAttachment[]): string {
+  const lines = attachments
+    .map(attachment => ({ attachment, file: path.resolve(projectDir, attachment.path) }))
+    .filter(({ file }) => fs.existsSync(file))
+    .map(({ attachment, file }) => `- ${file} (${attachment.name}, ${attachment.type})`);
+  if (lines.length === 0) {
+    return '';
+  }
+  return [
+    '[Attachments]',
+    'The user attached the following image(s). Open each one with the Read tool before starting:',
+    ...lines,
+    '[/Attachments]',
+  ].join('\n');
+}
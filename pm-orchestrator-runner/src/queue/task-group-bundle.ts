@@ -0,0 +1,346 @@
+/**
+ * Task Group Bundle - Portable export / read-only import of a task group
+ * Per spec/43_TASK_GROUP_BUNDLE.md
+ *
+ * A bundle is one JSON document holding, for every task of the group:
+ * - the QueueItem (prompt, output, conversation_history, clarification,
+ *   failure info, events, ...)
+ * - the stream-json trace (as served by /api/tasks/:id/trace?format=stream)
+ * - the ConversationTracer JSONL files
+ * - the executor output captured by this process
+ *
+ * Everything is passed through maskSensitiveObject() before it leaves the runner.
+ * Importing stores the tasks in a namespace of another runner as read-only
+ * copies: non-terminal tasks are stored as CANCELLED so they never run, and
+ * `imported` records where they came from.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { maskSensitiveObject } from '../logging/sensitive-data-masker';
+import { ConversationTracer } from '../trace/conversation-tracer';
+import {
+  getExecutorOutputStream,
+  type ExecutorOutputChunk,
+  type ExecutorOutputStream,
+} from '../executor/executor-output-stream';
+import { VALID_STATUS_TRANSITIONS, type IQueueStore, type QueueItem, type QueueItemStatus } from './queue-store';
+
+export const TASK_GROUP_BUNDLE_FORMAT = 'pm-task-group-bundle';
+export const TASK_GROUP_BUNDLE_VERSION = 1;
+
+/**
+ * Statuses kept as-is on import; any other status is stored as CANCELLED
+ */
+const TERMINAL_STATUSES: QueueItemStatus[] = ['COMPLETE', 'ERROR', 'CANCELLED'];
+
+/**
+ * Task and bundle IDs end up in file names; `.`, `..` and other all-dot names are not allowed
+ */
+const SAFE_ID = /^[A-Za-z0-9_.-]+$/;
+
+function isSafeId(value: unknown): value is string {
+  return typeof value === 'string' && SAFE_ID.test(value) && !/^\.+$/.test(value);
+}
+
+/**
+ * A ConversationTracer JSONL file
+ */
+export interface BundledTraceFile {
+  /** File name in {stateDir}/traces */
+  file: string;
+  entries: unknown[];
+}
+
+/**
+ * One task of a bundle
+ */
+export interface BundledTask {
+  item: QueueItem;
+  /** stream-json events, if a stream trace exists */
+  stream_trace?: unknown[];
+  conversation_traces: BundledTraceFile[];
+  executor_logs: ExecutorOutputChunk[];
+}
+
+export interface TaskGroupBundle {
+  format: typeof TASK_GROUP_BUNDLE_FORMAT;
+  version: number;
+  bundle_id: string;
+  exported_at: string;
+  source: {
+    namespace: string;
+    project_root?: string;
+  };
+  task_group_id: string;
+  tasks: BundledTask[];
+}
+
+export interface TaskGroupExportOptions {
+  /** Namespace to read the group from (default: the store's) */
+  namespace?: string;
+  /** State directory holding traces/ */
+  stateDir?: string;
+  /** Runner project root (stream trace fallback location) */
+  projectRoot?: string;
+  /** Executor output source (default: the process-wide stream) */
+  outputStream?: ExecutorOutputStream;
+}
+
+export interface TaskGroupImportOptions {
+  /** Namespace to import into */
+  namespace: string;
+  /** State directory to restore trace files and keep the bundle in */
+  stateDir?: string;
+}
+
+export interface TaskGroupImportResult {
+  bundle_id: string;
+  task_group_id: string;
+  namespace: string;
+  /** Tasks inserted */
+  imported: number;
+  /** Tasks that already existed in the namespace (left untouched) */
+  skipped: number;
+  /** Trace files written to {stateDir}/traces */
+  trace_files: number;
+}
+
+export class TaskGroupBundleValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'TaskGroupBundleValidationError';
+  }
+}
+
+/**
+ * Parse JSONL, dropping lines that are not JSON
+ */
+function readJsonl(filePath: string): unknown[] {
+  return fs.readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as unknown];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * Locate the stream-json trace of a task.
+ * Same lookup order as GET /api/tasks/:id/trace?format=stream.
+ */
+export function findStreamTraceFile(
+  taskId: string,
+  options: { stateDir?: string; projectRoot?: string; projectPath?: string }
+): string | null {
+  const fileName = `stream-${taskId}.jsonl`;
+  const candidates: string[] = [];
+  if (options.stateDir) candidates.push(path.join(options.stateDir, 'traces', fileName));
+  if (options.projectRoot) candidates.push(path.join(options.projectRoot, '.claude', 'state', 'traces', fileName));
+  if (options.projectPath) candidates.push(path.join(options.projectPath, '.claude', 'state', 'traces', fileName));
+  if (options.projectRoot) {
+    for (const sub of ['self-update', 'worktree']) {
+      candidates.push(path.join(options.projectRoot, sub, '.claude', 'state', 'traces', fileName));
+    }
+  }
+  return candidates.find(candidate => fs.existsSync(candidate)) ?? null;
+}
+
+/**
+ * Package every task of a group with its traces and executor logs, secrets masked
+ * @returns the bundle, or null if the group has no tasks
+ */
+export async function exportTaskGroupBundle(
+  queueStore: IQueueStore,
+  taskGroupId: string,
+  options: TaskGroupExportOptions = {}
+): Promise<TaskGroupBundle | null> {
+  const namespace = options.namespace ?? queueStore.getNamespace();
+  const items = await queueStore.getByTaskGroup(taskGroupId, namespace);
+  if (items.length === 0) {
+    return null;
+  }
+  const outputStream = options.outputStream ?? getExecutorOutputStream();
+
+  const tasks = items.map((item): BundledTask => {
+    const streamTraceFile = findStreamTraceFile(item.task_id, {
+      stateDir: options.stateDir,
+      projectRoot: options.projectRoot,
+      projectPath: item.project_path,
+    });
+    const conversationFiles = options.stateDir
+      ? ConversationTracer.findTraceFiles(options.stateDir, item.task_id).reverse()
+      : [];
+    return maskSensitiveObject({
+      item,
+      ...(streamTraceFile ? { stream_trace: readJsonl(streamTraceFile) } : {}),
+      conversation_traces: conversationFiles.map(file => ({ file: path.basename(file), entries: readJsonl(file) })),
+      executor_logs: outputStream.getByTaskId(item.task_id),
+    });
+  });
+
+  return {
+    format: TASK_GROUP_BUNDLE_FORMAT,
+    version: TASK_GROUP_BUNDLE_VERSION,
+    bundle_id: uuidv4(),
+    exported_at: new Date().toISOString(),
+    source: {
+      namespace,
+      ...(options.projectRoot ? { project_root: options.projectRoot } : {}),
+    },
+    task_group_id: taskGroupId,
+    tasks,
+  };
+}
+
+/**
+ * Validate a parsed bundle
+ * @returns list of errors (empty when valid)
+ */
+export function validateTaskGroupBundle(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['bundle must be a JSON object'];
+  }
+  const bundle = value as Partial<TaskGroupBundle>;
+  const errors: string[] = [];
+  if (bundle.format !== TASK_GROUP_BUNDLE_FORMAT) {
+    errors.push(`format must be '${TASK_GROUP_BUNDLE_FORMAT}'`);
+  }
+  if (bundle.version !== TASK_GROUP_BUNDLE_VERSION) {
+    errors.push(`unsupported bundle version: ${String(bundle.version)}`);
+  }
+  if (!isSafeId(bundle.bundle_id)) {
+    errors.push('bundle_id is required');
+  }
+  if (typeof bundle.task_group_id !== 'string' || !bundle.task_group_id) {
+    errors.push('task_group_id is required');
+  }
+  if (!bundle.source || typeof bundle.source.namespace !== 'string') {
+    errors.push('source.namespace is required');
+  }
+  if (!Array.isArray(bundle.tasks) || bundle.tasks.length === 0) {
+    errors.push('tasks must be a non-empty array');
+    return errors;
+  }
+  bundle.tasks.forEach((task, i) => {
+    const item = task?.item;
+    if (!item || typeof item !== 'object') {
+      errors.push(`tasks[${i}].item is required`);
+      return;
+    }
+    if (!isSafeId(item.task_id)) {
+      errors.push(`tasks[${i}].item.task_id is invalid`);
+    }
+    if (item.task_group_id !== bundle.task_group_id) {
+      errors.push(`tasks[${i}].item.task_group_id does not match the bundle`);
+    }
+    if (!(item.status in VALID_STATUS_TRANSITIONS)) {
+      errors.push(`tasks[${i}].item.status is invalid`);
+    }
+    if (typeof item.prompt !== 'string' || typeof item.created_at !== 'string') {
+      errors.push(`tasks[${i}].item must have prompt and created_at`);
+    }
+    if (task.conversation_traces !== undefined && !Array.isArray(task.conversation_traces)) {
+      errors.push(`tasks[${i}].conversation_traces must be an array`);
+    }
+    if (task.stream_trace !== undefined && !Array.isArray(task.stream_trace)) {
+      errors.push(`tasks[${i}].stream_trace must be an array`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Write a JSONL trace unless the file already exists
+ * @returns whether the file was written
+ */
+function restoreTraceFile(filePath: string, entries: unknown[]): boolean {
+  if (fs.existsSync(filePath)) {
+    return false;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n', 'utf-8');
+  return true;
+}
+
+/**
+ * Import a bundle as read-only tasks in `options.namespace`.
+ * Tasks that already exist there are skipped, so importing twice is harmless.
+ * @throws TaskGroupBundleValidationError if the bundle is malformed
+ */
+export async function importTaskGroupBundle(
+  queueStore: IQueueStore,
+  bundle: unknown,
+  options: TaskGroupImportOptions
+): Promise<TaskGroupImportResult> {
+  const errors = validateTaskGroupBundle(bundle);
+  if (errors.length > 0) {
+    throw new TaskGroupBundleValidationError(errors);
+  }
+  const valid = bundle as TaskGroupBundle;
+  const importedAt = new Date().toISOString();
+  const result: TaskGroupImportResult = {
+    bundle_id: valid.bundle_id,
+    task_group_id: valid.task_group_id,
+    namespace: options.namespace,
+    imported: 0,
+    skipped: 0,
+    trace_files: 0,
+  };
+
+  for (const task of valid.tasks) {
+    // project_path and attachments point into the exporting runner's file system
+    const { project_path: sourceProjectPath, attachments: _attachments, ...original } = task.item;
+    const item: QueueItem = {
+      ...original,
+      namespace: options.namespace,
+      status: TERMINAL_STATUSES.includes(original.status) ? original.status : 'CANCELLED',
+      imported: {
+        bundle_id: valid.bundle_id,
+        source_namespace: valid.source.namespace,
+        exported_at: valid.exported_at,
+        imported_at: importedAt,
+        original_status: original.status,
+        ...(sourceProjectPath ? { source_project_path: sourceProjectPath } : {}),
+      },
+    };
+    if (!(await queueStore.importItem(item))) {
+      result.skipped++;
+      continue;
+    }
+    result.imported++;
+
+    if (!options.stateDir) continue;
+    const tracesDir = path.join(options.stateDir, 'traces');
+    if (task.stream_trace && restoreTraceFile(path.join(tracesDir, `stream-${item.task_id}.jsonl`), task.stream_trace)) {
+      result.trace_files++;
+    }
+    for (const trace of task.conversation_traces ?? []) {
+      const file = path.basename(String(trace?.file ?? ''));
+      if (!file.startsWith(`conversation-${item.task_id}-`) || !file.endsWith('.jsonl') || !Array.isArray(trace.entries)) {
+        continue;
+      }
+      if (restoreTraceFile(path.join(tracesDir, file), trace.entries)) {
+        result.trace_files++;
+      }
+    }
+  }
+
+  // Keep the bundle itself: executor logs are not replayed into the live output stream
+  if (options.stateDir) {
+    const bundlePath = path.join(options.stateDir, 'bundles', `${valid.bundle_id}.json`);
+    if (!fs.existsSync(bundlePath)) {
+      fs.mkdirSync(path.dirname(bundlePath), { recursive: true });
+      const tmpPath = `${bundlePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(valid, null, 2), 'utf-8');
+      fs.renameSync(tmpPath, bundlePath);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,109 @@
+/**
+ * Task Usage - Token usage and cost reported by the executor
+ * Per spec/20_QUEUE_STORE.md (usage, v2.5)
+ *
+ * Claude Code's stream-json `result` event carries the token usage and the
+ * USD cost of a run. Each run's usage is added to the task's running totals
+ * (a task runs again after every reply), and task totals are summed for
+ * task-group and project views.
+ */
+
+import type { QueueItem } from './queue-store';
+
+/**
+ * Token usage and cost of one or more executor runs of a task
+ */
+export interface TaskUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  total_cost_usd: number;
+  num_turns: number;
+  /** Model of the latest run (as reported by the executor) */
+  model?: string;
+  /** Executor runs included in these totals */
+  runs: number;
+}
+
+/**
+ * Numeric fields of TaskUsage, added up run by run
+ */
+export const TASK_USAGE_COUNTERS = [
+  'input_tokens',
+  'output_tokens',
+  'cache_creation_input_tokens',
+  'cache_read_input_tokens',
+  'total_cost_usd',
+  'num_turns',
+  'runs',
+] as const satisfies ReadonlyArray<keyof TaskUsage>;
+
+/**
+ * Usage summed over several tasks
+ */
+export interface TaskUsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  total_cost_usd: number;
+  num_turns: number;
+  runs: number;
+  /** Tasks that reported usage */
+  task_count: number;
+  /** Distinct models used, in first-seen order */
+  models: string[];
+}
+
+/**
+ * Add `next` to `current` (the model of `next` wins when present)
+ */
+export function addTaskUsage(current: TaskUsage | undefined, next: TaskUsage): TaskUsage {
+  if (!current) {
+    return { ...next };
+  }
+  const model = next.model ?? current.model;
+  return {
+    input_tokens: current.input_tokens + next.input_tokens,
+    output_tokens: current.output_tokens + next.output_tokens,
+    cache_creation_input_tokens: current.cache_creation_input_tokens + next.cache_creation_input_tokens,
+    cache_read_input_tokens: current.cache_read_input_tokens + next.cache_read_input_tokens,
+    total_cost_usd: current.total_cost_usd + next.total_cost_usd,
+    num_turns: current.num_turns + next.num_turns,
+    ...(model ? { model } : {}),
+    runs: current.runs + next.runs,
+  };
+}
+
+/**
+ * Sum the usage of tasks (tasks without usage are skipped)
+ */
+export function sumTaskUsage(items: Array<Pick<QueueItem, 'usage'>>): TaskUsageTotals {
+  const totals: TaskUsageTotals = {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    total_cost_usd: 0,
+    num_turns: 0,
+    runs: 0,
+    task_count: 0,
+    models: [],
+  };
+  for (const { usage } of items) {
+    if (!usage) continue;
+    totals.input_tokens += usage.input_tokens;
+    totals.output_tokens += usage.output_tokens;
+    totals.cache_creation_input_tokens += usage.cache_creation_input_tokens;
+    totals.cache_read_input_tokens += usage.cache_read_input_tokens;
+    totals.total_cost_usd += usage.total_cost_usd;
+    totals.num_turns += usage.num_turns;
+    totals.runs += usage.runs;
+    totals.task_count++;
+    if (usage.model && !totals.models.includes(usage.model)) {
+      totals.models.push(usage.model);
+    }
+  }
+  return totals;
+}
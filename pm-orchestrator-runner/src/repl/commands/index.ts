@@ -18,5 +18,11 @@ export { TraceCommand, TraceResult, TraceOptions } from './trace';
 export { TemplateCommand, TemplateResult } from './template';
 export { ConfigCommand, ConfigResult, CONFIG_KEYS, ConfigKey } from './config';
 
+// Scheduled task command per spec 38
+export { ScheduleCommand, ScheduleResult } from './schedule';
+
+// Queue pause / drain / bulk command per spec 53
+export { QueueCommand, QueueCommandResult } from './queue';
+
 // Unified event inspection command (replaces symptom-specific commands)
 export { InspectCommand, InspectCommandResult } from './inspect';
@@ -0,0 +1,260 @@
+/**
+ * /queue Command Handler
+ *
+ * Per spec/53_QUEUE_CONTROLS.md:
+ * - /queue [status]                              Show pause / drain controls
+ * - /queue pause [--project=<path>] [reason]     Stop claiming new tasks
+ * - /queue drain [--project=<path>] [reason]     Finish in-flight work, then stop
+ * - /queue resume [--project=<path>]             Resume claiming
+ * - /queue bulk <cancel|retry|priority|delete> [--status=] [--group=] [--project=]
+ *               [--older-than=] [--priority=] [--dry-run]
+ *
+ * Controls are honoured by the runner (pm web) attached to the same namespace.
+ */
+
+import {
+  QueueControl,
+  QueueControlMode,
+  QueueControlStore,
+  QueueControlValidationError,
+} from '../../queue/queue-controls';
+import {
+  BulkTaskResult,
+  BulkTaskValidationError,
+  parseBulkTaskRequest,
+  runBulkTaskAction,
+} from '../../queue/bulk-task-actions';
+import { IQueueStore } from '../../queue/queue-store';
+import { deleteTaskAttachments } from '../../queue/task-attachments';
+import { killTaskProcess } from '../../executor/process-registry';
+
+/**
+ * Queue command result
+ */
+export interface QueueCommandResult {
+  success: boolean;
+  message?: string;
+  controls?: QueueControl[];
+  bulk?: BulkTaskResult;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+const AGE_UNITS_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+/**
+ * Split `--key=value` / `--flag` options from positional arguments
+ */
+function parseOptions(args: string[]): { options: Record<string, string | true>; positional: string[] } {
+  const options: Record<string, string | true> = {};
+  const positional: string[] = [];
+  for (const arg of args) {
+    const option = arg.match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (option) {
+      options[option[1]] = option[2] ?? true;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { options, positional };
+}
+
+/**
+ * Queue command handler
+ */
+export class QueueCommand {
+  private controlStore: QueueControlStore | null = null;
+  private queueStore: IQueueStore | null = null;
+  private namespace: string | null = null;
+
+  /**
+   * Set the control store and the namespace it controls
+   */
+  setControlStore(store: QueueControlStore, namespace: string): void {
+    this.controlStore = store;
+    this.namespace = namespace;
+  }
+
+  /**
+   * Set the queue store used by /queue bulk
+   */
+  setQueueStore(store: IQueueStore): void {
+    this.queueStore = store;
+  }
+
+  private ensureControlStore(): { store: QueueControlStore; namespace: string } {
+    if (!this.controlStore || !this.namespace) {
+      throw new Error('QueueControlStore not initialized (namespace state directory required)');
+    }
+    return { store: this.controlStore, namespace: this.namespace };
+  }
+
+  private failure(error: unknown): QueueCommandResult {
+    if (error instanceof QueueControlValidationError || error instanceof BulkTaskValidationError) {
+      return { success: false, error: { code: 'E802', message: error.message } };
+    }
+    return {
+      success: false,
+      error: { code: 'E801', message: error instanceof Error ? error.message : String(error) },
+    };
+  }
+
+  /**
+   * List the active controls of the namespace
+   */
+  async status(): Promise<QueueCommandResult> {
+    try {
+      const { store, namespace } = this.ensureControlStore();
+      return { success: true, controls: await store.list(namespace) };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Pause or drain the namespace, or one project with --project=<path>:
+   *   [--project=<path>] [reason...]
+   */
+  async setControl(mode: QueueControlMode, args: string[]): Promise<QueueCommandResult> {
+    try {
+      const { store, namespace } = this.ensureControlStore();
+      const { options, positional } = parseOptions(args);
+      const project = typeof options.project === 'string' ? options.project : undefined;
+      const control = await store.set({
+        namespace,
+        mode,
+        project_path: project,
+        reason: positional.join(' ') || undefined,
+      });
+      const scope = control.project_path ? `Project ${control.project_path}` : `Namespace ${namespace}`;
+      const detail = mode === 'pause'
+        ? 'paused: no new tasks are claimed.'
+        : 'draining: in-flight tasks finish, then nothing more is claimed.';
+      return { success: true, controls: [control], message: `${scope} ${detail}` };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Resume the namespace, or one project with --project=<path>
+   */
+  async resume(args: string[]): Promise<QueueCommandResult> {
+    try {
+      const { store, namespace } = this.ensureControlStore();
+      const { options } = parseOptions(args);
+      const project = typeof options.project === 'string' ? options.project : undefined;
+      if (!(await store.clear(namespace, project))) {
+        return {
+          success: false,
+          error: { code: 'E803', message: `${project ? 'Project ' + project : 'Namespace ' + namespace} is not paused or draining` },
+        };
+      }
+      return { success: true, message: `${project ? 'Project ' + project : 'Namespace ' + namespace} resumed.` };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Bulk action from REPL arguments:
+   *   <cancel|retry|priority|delete> [--status=A,B] [--group=<id>] [--project=<path>]
+   *   [--older-than=<n>[m|h|d]] [--priority=<p>] [--dry-run]
+   */
+  async bulk(args: string[], defaultProjectPath?: string): Promise<QueueCommandResult> {
+    const { options, positional } = parseOptions(args);
+    if (!positional[0]) {
+      return {
+        success: false,
+        error: {
+          code: 'E804',
+          message: 'Usage: /queue bulk <cancel|retry|priority|delete> [--status=] [--group=] [--project=] [--older-than=] [--priority=] [--dry-run]',
+        },
+      };
+    }
+
+    const filter: Record<string, unknown> = {};
+    if (typeof options.status === 'string') filter.status = options.status.toUpperCase().split(',');
+    if (typeof options.group === 'string') filter.task_group_id = options.group;
+    if (typeof options.project === 'string') filter.project_path = options.project;
+    if (typeof options['older-than'] === 'string') {
+      const age = options['older-than'].match(/^(\d+(?:\.\d+)?)([mhd]?)$/);
+      filter.older_than_minutes = age ? Number(age[1]) * AGE_UNITS_MINUTES[age[2] || 'm'] : NaN;
+    }
+
+    try {
+      const request = parseBulkTaskRequest({
+        action: positional[0].toLowerCase(),
+        filter,
+        priority: typeof options.priority === 'string' ? options.priority.toLowerCase() : undefined,
+        dry_run: options['dry-run'] === true,
+      });
+      if (!this.queueStore) {
+        throw new Error('Queue store not available (namespace required)');
+      }
+      const items = await this.queueStore.getAllItems();
+      const bulk = await runBulkTaskAction(this.queueStore, items, request, {
+        defaultProjectPath,
+        hooks: {
+          onCancelled: item => killTaskProcess(item.task_id),
+          onDeleted: item => {
+            if (item.attachments?.length) {
+              deleteTaskAttachments(item.project_path || defaultProjectPath || process.cwd(), item.task_id);
+            }
+          },
+        },
+      });
+      return { success: true, bulk };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Format the active controls for display
+   */
+  formatStatus(controls: QueueControl[]): string {
+    const lines: string[] = [];
+
+    lines.push('');
+    lines.push('Queue Controls');
+    lines.push('--------------');
+
+    if (controls.length === 0) {
+      lines.push('  Claiming normally (no pause or drain)');
+    }
+    for (const c of controls) {
+      const scope = c.project_path ? `project ${c.project_path}` : `namespace ${c.namespace}`;
+      lines.push(`  ${c.mode.toUpperCase()}  ${scope}  since ${c.created_at}`);
+      if (c.reason) lines.push(`      Reason: ${c.reason}`);
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  /**
+   * Format a bulk result for display
+   */
+  formatBulk(result: BulkTaskResult): string {
+    const lines: string[] = [];
+
+    lines.push('');
+    lines.push(`Bulk ${result.action}${result.dry_run ? ' (dry run)' : ''}`);
+    lines.push(`  Matched:    ${result.matched}`);
+    lines.push(`  Applicable: ${result.applicable}`);
+    if (result.dry_run) {
+      for (const id of result.task_ids) lines.push(`    ${id}`);
+    } else {
+      lines.push(`  Succeeded:  ${result.succeeded?.length ?? 0}`);
+      for (const failure of result.failed ?? []) {
+        lines.push(`  Failed:     ${failure.task_id}: ${failure.message}`);
+      }
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+}
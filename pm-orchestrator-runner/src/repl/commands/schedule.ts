@@ -0,0 +1,294 @@
+/**
+ * /schedule Command Handler
+ *
+ * Per spec 38_SCHEDULED_TASKS.md:
+ * - /schedule [list]                      List schedules
+ * - /schedule add <name> <cron> <prompt>  Create a schedule (cron: 5 fields or @macro)
+ * - /schedule show <id|name>              Show a schedule with recent runs
+ * - /schedule history <id|name>           Show run history and produced task IDs
+ * - /schedule enable|disable <id|name>    Toggle a schedule
+ * - /schedule delete <id|name>            Delete a schedule
+ *
+ * Schedules fire while a runner (pm web) is attached to the same namespace.
+ */
+
+import {
+  ScheduleStore,
+  ScheduleDefinition,
+  ScheduleInput,
+  ScheduleRunRecord,
+  ScheduleValidationError,
+  CatchUpPolicy,
+  getScheduleTaskGroupId,
+} from '../../schedule';
+import { TaskTypeValue } from '../../queue/queue-store';
+
+/**
+ * Schedule command result
+ */
+export interface ScheduleResult {
+  success: boolean;
+  message?: string;
+  schedules?: ScheduleDefinition[];
+  schedule?: ScheduleDefinition;
+  runs?: ScheduleRunRecord[];
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Options accepted by /schedule add as --key=value
+ */
+const ADD_OPTIONS: Record<string, keyof ScheduleInput> = {
+  template: 'template_id',
+  type: 'task_type',
+  'catch-up': 'catch_up',
+  group: 'task_group_id',
+  project: 'project_path',
+};
+
+/**
+ * Schedule command handler
+ */
+export class ScheduleCommand {
+  private store: ScheduleStore | null = null;
+
+  /**
+   * Set the schedule store instance
+   */
+  setStore(store: ScheduleStore): void {
+    this.store = store;
+  }
+
+  private ensureStore(): ScheduleStore {
+    if (!this.store) {
+      throw new Error('ScheduleStore not initialized (namespace state directory required)');
+    }
+    return this.store;
+  }
+
+  /**
+   * Find a schedule by exact ID, ID prefix or name
+   */
+  private async resolve(idOrName: string): Promise<ScheduleDefinition | null> {
+    const schedules = await this.ensureStore().list();
+    return (
+      schedules.find(s => s.schedule_id === idOrName) ||
+      schedules.find(s => s.name === idOrName) ||
+      schedules.find(s => s.schedule_id.startsWith(idOrName)) ||
+      null
+    );
+  }
+
+  private notFound(idOrName: string): ScheduleResult {
+    return {
+      success: false,
+      error: { code: 'E702', message: `Schedule not found: ${idOrName}` },
+    };
+  }
+
+  private failure(error: unknown): ScheduleResult {
+    if (error instanceof ScheduleValidationError) {
+      return { success: false, error: { code: 'E703', message: error.message } };
+    }
+    return {
+      success: false,
+      error: { code: 'E701', message: error instanceof Error ? error.message : String(error) },
+    };
+  }
+
+  /**
+   * List all schedules
+   */
+  async list(): Promise<ScheduleResult> {
+    try {
+      return { success: true, schedules: await this.ensureStore().list() };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Create a schedule from REPL arguments:
+   *   <name> <cron (5 fields or @macro)> <prompt...> [--template=] [--type=] [--catch-up=] [--group=] [--project=]
+   */
+  async add(args: string[], defaultProjectPath?: string): Promise<ScheduleResult> {
+    const input: ScheduleInput = {};
+    const positional: string[] = [];
+    for (const arg of args) {
+      const option = arg.match(/^--([a-z-]+)=(.*)$/);
+      if (option && ADD_OPTIONS[option[1]]) {
+        (input as Record<string, string>)[ADD_OPTIONS[option[1]]] = option[2];
+      } else {
+        positional.push(arg);
+      }
+    }
+
+    const [name, ...rest] = positional;
+    const cronFieldCount = rest[0]?.startsWith('@') ? 1 : 5;
+    if (!name || rest.length < cronFieldCount) {
+      return {
+        success: false,
+        error: {
+          code: 'E704',
+          message: 'Usage: /schedule add <name> <cron> <prompt> [--template=<id>] [--type=<TASK_TYPE>] [--catch-up=skip|once|all]',
+        },
+      };
+    }
+
+    input.name = name;
+    input.cron = rest.slice(0, cronFieldCount).join(' ');
+    input.prompt = rest.slice(cronFieldCount).join(' ');
+    if (input.task_type) {
+      input.task_type = input.task_type.toUpperCase() as TaskTypeValue;
+    }
+    if (input.catch_up) {
+      input.catch_up = input.catch_up.toLowerCase() as CatchUpPolicy;
+    }
+    if (!input.project_path && defaultProjectPath) {
+      input.project_path = defaultProjectPath;
+    }
+
+    try {
+      const schedule = await this.ensureStore().create(input);
+      return { success: true, schedule, message: `Schedule "${schedule.name}" created.` };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Show one schedule with its recent runs
+   */
+  async show(idOrName: string): Promise<ScheduleResult> {
+    try {
+      const schedule = await this.resolve(idOrName);
+      if (!schedule) {
+        return this.notFound(idOrName);
+      }
+      const runs = await this.ensureStore().getHistory(schedule.schedule_id, 5);
+      return { success: true, schedule, runs };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Run history of one schedule (newest first)
+   */
+  async history(idOrName: string, limit: number = 20): Promise<ScheduleResult> {
+    try {
+      const schedule = await this.resolve(idOrName);
+      if (!schedule) {
+        return this.notFound(idOrName);
+      }
+      const runs = await this.ensureStore().getHistory(schedule.schedule_id, limit);
+      return { success: true, schedule, runs };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Enable or disable a schedule
+   */
+  async setEnabled(idOrName: string, enabled: boolean): Promise<ScheduleResult> {
+    try {
+      const schedule = await this.resolve(idOrName);
+      if (!schedule) {
+        return this.notFound(idOrName);
+      }
+      const updated = await this.ensureStore().update(schedule.schedule_id, { enabled });
+      return {
+        success: true,
+        schedule: updated ?? undefined,
+        message: `Schedule "${schedule.name}" ${enabled ? 'enabled' : 'disabled'}.`,
+      };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Delete a schedule
+   */
+  async delete(idOrName: string): Promise<ScheduleResult> {
+    try {
+      const schedule = await this.resolve(idOrName);
+      if (!schedule) {
+        return this.notFound(idOrName);
+      }
+      await this.ensureStore().delete(schedule.schedule_id);
+      return { success: true, message: `Schedule "${schedule.name}" deleted.` };
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Format schedule list for display
+   */
+  formatList(schedules: ScheduleDefinition[]): string {
+    const lines: string[] = [];
+
+    lines.push('');
+    lines.push('Schedules');
+    lines.push('---------');
+
+    if (schedules.length === 0) {
+      lines.push('  No schedules found');
+    } else {
+      for (const s of schedules) {
+        const marker = s.enabled ? '*' : ' ';
+        const disabledLabel = s.enabled ? '' : ' [DISABLED]';
+        lines.push(`  ${marker} ${s.name} (${s.cron})${disabledLabel}`);
+        lines.push(`      ID: ${s.schedule_id}`);
+        lines.push(`      Next run: ${s.next_run_at ?? '(none)'}`);
+      }
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  /**
+   * Format schedule detail (with runs) for display
+   */
+  formatDetail(schedule: ScheduleDefinition, runs: ScheduleRunRecord[] = []): string {
+    const lines: string[] = [];
+
+    lines.push('');
+    lines.push(`Schedule: ${schedule.name}`);
+    lines.push('-'.repeat(10 + schedule.name.length));
+    lines.push(`  ID:         ${schedule.schedule_id}`);
+    lines.push(`  Cron:       ${schedule.cron}`);
+    lines.push(`  Enabled:    ${schedule.enabled ? 'yes' : 'no'}`);
+    lines.push(`  Catch-up:   ${schedule.catch_up}`);
+    lines.push(`  Next run:   ${schedule.next_run_at ?? '(none)'}`);
+    lines.push(`  Last run:   ${schedule.last_run_at ?? '(never)'}`);
+    lines.push(`  Task group: ${getScheduleTaskGroupId(schedule)}`);
+    if (schedule.task_type) lines.push(`  Task type:  ${schedule.task_type}`);
+    if (schedule.project_path) lines.push(`  Project:    ${schedule.project_path}`);
+    if (schedule.template_id) lines.push(`  Template:   ${schedule.template_id}`);
+    if (schedule.prompt) lines.push(`  Prompt:     ${schedule.prompt}`);
+
+    lines.push('');
+    lines.push('  Runs (newest first):');
+    if (runs.length === 0) {
+      lines.push('    (none)');
+    }
+    for (const run of runs) {
+      const tags = [run.catch_up ? 'catch-up' : '', run.manual ? 'manual' : ''].filter(Boolean).join(', ');
+      const detail =
+        run.outcome === 'ENQUEUED' ? `task ${run.task_id}` :
+        run.outcome === 'SKIPPED' ? `${run.skipped_count ?? 1} missed run(s) skipped` :
+        run.error ?? '';
+      lines.push(`    ${run.scheduled_for}  ${run.outcome}${tags ? ` (${tags})` : ''}  ${detail}`);
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+}
@@ -24,6 +24,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import { EventEmitter } from 'events';
 import { RunnerCore } from '../core/runner-core';
+import type { LLMProvider } from '../mediation/llm-client';
 import { OverallStatus } from '../models/enums';
 import { ExecutorSupervisor, SupervisorConfig } from '../supervisor/executor-supervisor';
 import { InitCommand } from './commands/init';
@@ -38,6 +39,10 @@ import { TraceCommand } from './commands/trace';
 import { TemplateCommand } from './commands/template';
 import { ConfigCommand } from './commands/config';
 import { InspectCommand } from './commands/inspect';
+import { ScheduleCommand, ScheduleResult } from './commands/schedule';
+import { ScheduleStore } from '../schedule';
+import { QueueCommand, QueueCommandResult } from './commands/queue';
+import { QueueControlStore } from '../queue/queue-controls';
 import {
   DiagnosticRunner,
   DiagnosticRegistry,
@@ -98,6 +103,8 @@ const KNOWN_COMMANDS = [
   'send',  // Multi-line buffer submit command
   'verbose',  // Toggle verbose executor logs
   'inspect',  // Unified event inspection and diagnostics
+  'schedule',  // Cron-triggered recurring tasks (spec 38)
+  'queue',  // Queue pause / drain / bulk operations (spec 53)
 ];
 
 /**
@@ -226,7 +233,7 @@ export interface REPLConfig {
   /**
    * LLM provider for auto-resolution (default: 'openai')
    */
-  autoResolveLLMProvider?: 'openai' | 'anthropic';
+  autoResolveLLMProvider?: LLMProvider;
 }
 
 /**
@@ -450,6 +457,12 @@ export class REPLInterface extends EventEmitter {
   private templateStore: TemplateStore;
   private settingsStore: ProjectSettingsStore;
 
+  // Schedule command handler per spec 38
+  private scheduleCommand: ScheduleCommand;
+
+  // Queue pause / drain / bulk command handler per spec 53
+  private queueCommand: QueueCommand;
+
   // Unified event inspection command
   private inspectCommand: InspectCommand | null = null;
 
@@ -598,6 +611,21 @@ export class REPLInterface extends EventEmitter {
     this.configCommand.setSettingsStore(this.settingsStore);
     this.configCommand.setTemplateStore(this.templateStore);
 
+    // Schedules live in the namespace state dir shared with the Web UI runner (spec 38)
+    this.scheduleCommand = new ScheduleCommand();
+    if (config.namespaceConfig?.stateDir) {
+      this.scheduleCommand.setStore(new ScheduleStore({ stateDir: config.namespaceConfig.stateDir }));
+    }
+
+    // Queue controls live in the namespace state dir shared with the runner (spec 53)
+    this.queueCommand = new QueueCommand();
+    if (config.namespaceConfig?.stateDir) {
+      this.queueCommand.setControlStore(
+        new QueueControlStore({ stateDir: config.namespaceConfig.stateDir }),
+        config.namespaceConfig.namespace
+      );
+    }
+
     // Initialize two-pane renderer per spec 18_CLI_TWO_PANE.md
     this.renderer = new TwoPaneRenderer({
       prompt: this.config.prompt,
@@ -611,6 +639,7 @@ export class REPLInterface extends EventEmitter {
         namespace: ns,
         endpoint: 'http://localhost:8000',
       });
+      this.queueCommand.setQueueStore(this.queueStore);
     }
   }
 
@@ -1448,6 +1477,8 @@ export class REPLInterface extends EventEmitter {
       .with('verbose', async () => this.handleVerbose(args))
       .with('inputmode', async () => this.handleInputMode(args))
       .with('inspect', () => this.handleInspect(args))
+      .with('schedule', () => this.handleSchedule(args))
+      .with('queue', () => this.handleQueue(args))
       .otherwise(() => {
         // This should never be reached since unknown commands are handled above
         // If we reach here, KNOWN_COMMANDS list is inconsistent with switch cases
@@ -1848,6 +1879,23 @@ export class REPLInterface extends EventEmitter {
     this.print('  /template on           Enable template injection');
     this.print('  /template off          Disable template injection');
     this.print('');
+    this.print('Scheduled Tasks (per spec 38):');
+    this.print('  /schedule              List schedules');
+    this.print('  /schedule add <name> <cron> <prompt>  Create a schedule');
+    this.print('  /schedule show <id>    Show a schedule and recent runs');
+    this.print('  /schedule history <id> Show run history (produced task IDs)');
+    this.print('  /schedule enable <id>  Enable a schedule');
+    this.print('  /schedule disable <id> Disable a schedule');
+    this.print('  /schedule delete <id>  Delete a schedule');
+    this.print('');
+    this.print('Queue Controls (per spec 53):');
+    this.print('  /queue                 Show pause / drain status');
+    this.print('  /queue pause [--project=<path>] [reason]  Stop claiming new tasks');
+    this.print('  /queue drain [--project=<path>] [reason]  Finish in-flight tasks, then stop');
+    this.print('  /queue resume [--project=<path>]          Resume claiming');
+    this.print('  /queue bulk <cancel|retry|priority|delete> [--status=] [--group=] [--project=]');
+    this.print('             [--older-than=<n>[m|h|d]] [--priority=] [--dry-run]');
+    this.print('');
     this.print('Project Configuration (per spec 33):');
     this.print('  /config                Show project settings');
     this.print('  /config set <k> <v>    Set a configuration value');
@@ -3635,6 +3683,104 @@ export class REPLInterface extends EventEmitter {
   }
 
 
+  /**
+   * Handle /schedule command
+   * Per spec 38_SCHEDULED_TASKS.md: list, add, show, history, enable, disable, delete
+   */
+  private async handleSchedule(args: string[]): Promise<CommandResult> {
+    const subCommand = args[0]?.toLowerCase();
+
+    const report = (result: ScheduleResult): CommandResult => {
+      if (result.success) {
+        if (result.schedule && result.runs) {
+          this.print(this.scheduleCommand.formatDetail(result.schedule, result.runs));
+        } else if (result.message) {
+          this.print(result.message);
+        }
+      } else if (result.error) {
+        this.print('Error: ' + result.error.message);
+      }
+      return { success: result.success, error: result.error };
+    };
+
+    if (!subCommand || subCommand === 'list') {
+      const result = await this.scheduleCommand.list();
+      if (result.success && result.schedules) {
+        this.print(this.scheduleCommand.formatList(result.schedules));
+      }
+      return report(result);
+    }
+
+    const target = args[1];
+    const requireTarget = (): CommandResult | null => {
+      if (target) {
+        return null;
+      }
+      this.print('Usage: /schedule ' + subCommand + ' <id|name>');
+      return {
+        success: false,
+        error: { code: 'E704', message: 'Schedule ID or name required' },
+      };
+    };
+
+    return match(subCommand)
+      .with('add', async () => report(await this.scheduleCommand.add(args.slice(1), this.session.projectPath || undefined)))
+      .with('show', async () => requireTarget() ?? report(await this.scheduleCommand.show(target)))
+      .with('history', async () => requireTarget() ?? report(await this.scheduleCommand.history(target)))
+      .with('enable', async () => requireTarget() ?? report(await this.scheduleCommand.setEnabled(target, true)))
+      .with('disable', async () => requireTarget() ?? report(await this.scheduleCommand.setEnabled(target, false)))
+      .with('delete', async () => requireTarget() ?? report(await this.scheduleCommand.delete(target)))
+      .otherwise(async () => {
+        this.print('Unknown subcommand: ' + subCommand);
+        this.print('Usage: /schedule [list|add|show|history|enable|disable|delete]');
+        return {
+          success: false,
+          error: { code: 'E705', message: 'Unknown subcommand: ' + subCommand },
+        } as CommandResult;
+      });
+  }
+
+  /**
+   * Handle /queue command
+   * Per spec 53_QUEUE_CONTROLS.md: status, pause, drain, resume, bulk
+   */
+  private async handleQueue(args: string[]): Promise<CommandResult> {
+    const subCommand = args[0]?.toLowerCase();
+
+    const report = (result: QueueCommandResult): CommandResult => {
+      if (result.success) {
+        if (result.bulk) {
+          this.print(this.queueCommand.formatBulk(result.bulk));
+        } else if (result.message) {
+          this.print(result.message);
+        } else if (result.controls) {
+          this.print(this.queueCommand.formatStatus(result.controls));
+        }
+      } else if (result.error) {
+        this.print('Error: ' + result.error.message);
+      }
+      return { success: result.success, error: result.error };
+    };
+
+    if (!subCommand || subCommand === 'status') {
+      return report(await this.queueCommand.status());
+    }
+
+    return match(subCommand)
+      .with('pause', async () => report(await this.queueCommand.setControl('pause', args.slice(1))))
+      .with('drain', async () => report(await this.queueCommand.setControl('drain', args.slice(1))))
+      .with('resume', async () => report(await this.queueCommand.resume(args.slice(1))))
+      .with('bulk', async () => report(await this.queueCommand.bulk(args.slice(1), this.session.projectPath || undefined)))
+      .otherwise(async () => {
+        this.print('Unknown subcommand: ' + subCommand);
+        this.print('Usage: /queue [status|pause|drain|resume|bulk]');
+        return {
+          success: false,
+          error: { code: 'E805', message: 'Unknown subcommand: ' + subCommand },
+        } as CommandResult;
+      });
+  }
+
   /**
    * Handle /send command
    * Flushes multi-line buffer and submits as a single task
@@ -0,0 +1,292 @@
+/**
+ * Project-Defined Quality Criteria
+ *
+ * Per spec 25_REVIEW_LOOP.md Section 12
+ *
+ * Projects add their own gates next to the built-in Q1-Q12 checks,
+ * stored in ProjectSettings.qualityCriteria (spec/33_PROJECT_SETTINGS_PERSISTENCE.md):
+ * - regex: a pattern that must be absent from / present in the executor
+ *   output, the changed files' content or the changed file paths
+ * - command: a shell command run in the task's working directory that must
+ *   exit with the expected code before the timeout
+ *
+ * Results use criteria_id `custom:<id>` and carry the definition's name and
+ * description so they show up in the trace and in modification prompts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runShellCommand } from '../utils/shell-command';
+import type { ExecutorResult } from '../executor/claude-code-executor';
+import type { CriteriaResult, CustomCriteriaId } from './review-loop';
+
+/**
+ * Regex check
+ */
+export interface RegexCriterionCheck {
+  type: 'regex';
+  /** JavaScript regular expression source */
+  pattern: string;
+  flags?: string;
+  /** What the pattern is matched against */
+  target: 'output' | 'changed_files' | 'changed_paths';
+  /** absent: fail on a match (default); present: fail without a match */
+  expect?: 'absent' | 'present';
+  /** Only changed files whose path matches (changed_files / changed_paths) */
+  file_pattern?: string;
+}
+
+/**
+ * Shell command check
+ */
+export interface CommandCriterionCheck {
+  type: 'command';
+  command: string;
+  /** Default: 0 */
+  expected_exit_code?: number;
+  /** Default: 60000 */
+  timeout_ms?: number;
+}
+
+/**
+ * A project-defined criterion
+ */
+export interface CustomCriterionDefinition {
+  /** Letters, digits, `_` and `-`; reported as `custom:<id>` */
+  id: string;
+  name: string;
+  /** What to fix when the criterion fails (added to the modification prompt) */
+  description?: string;
+  /** Default: true */
+  enabled?: boolean;
+  /** Only evaluate when a changed file path matches this pattern */
+  applies_when?: string;
+  check: RegexCriterionCheck | CommandCriterionCheck;
+}
+
+export const CUSTOM_CRITERIA_LIMITS = {
+  MAX_CRITERIA: 20,
+  DEFAULT_TIMEOUT_MS: 60_000,
+  MAX_TIMEOUT_MS: 600_000,
+  /** Changed files larger than this are matched by content_preview only */
+  MAX_FILE_BYTES: 1024 * 1024,
+  /** Command output kept in failure details */
+  MAX_OUTPUT_CHARS: 500,
+};
+
+const CRITERION_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+export class CustomCriteriaValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'CustomCriteriaValidationError';
+  }
+}
+
+function isValidRegex(pattern: unknown, flags?: unknown): boolean {
+  if (typeof pattern !== 'string' || !pattern) return false;
+  if (flags !== undefined && typeof flags !== 'string') return false;
+  try {
+    new RegExp(pattern, flags as string | undefined);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate criteria definitions
+ * @returns list of errors (empty when valid)
+ */
+export function validateCustomCriteria(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['qualityCriteria must be an array'];
+  }
+  const errors: string[] = [];
+  if (value.length > CUSTOM_CRITERIA_LIMITS.MAX_CRITERIA) {
+    errors.push(`at most ${CUSTOM_CRITERIA_LIMITS.MAX_CRITERIA} criteria are allowed`);
+  }
+  const seen = new Set<string>();
+  value.forEach((entry, i) => {
+    const def = entry as Partial<CustomCriterionDefinition> | null;
+    if (!def || typeof def !== 'object') {
+      errors.push(`[${i}] must be an object`);
+      return;
+    }
+    if (typeof def.id !== 'string' || !CRITERION_ID.test(def.id)) {
+      errors.push(`[${i}].id must be 1-64 letters, digits, '_' or '-'`);
+    } else if (seen.has(def.id)) {
+      errors.push(`[${i}].id '${def.id}' is duplicated`);
+    } else {
+      seen.add(def.id);
+    }
+    if (typeof def.name !== 'string' || !def.name.trim()) {
+      errors.push(`[${i}].name is required`);
+    }
+    if (def.description !== undefined && typeof def.description !== 'string') {
+      errors.push(`[${i}].description must be a string`);
+    }
+    if (def.enabled !== undefined && typeof def.enabled !== 'boolean') {
+      errors.push(`[${i}].enabled must be a boolean`);
+    }
+    if (def.applies_when !== undefined && !isValidRegex(def.applies_when)) {
+      errors.push(`[${i}].applies_when must be a valid regular expression`);
+    }
+
+    const check = def.check as (Partial<Omit<RegexCriterionCheck, 'type'> & Omit<CommandCriterionCheck, 'type'>> & { type?: string }) | undefined;
+    if (!check || typeof check !== 'object') {
+      errors.push(`[${i}].check is required`);
+    } else if (check.type === 'regex') {
+      if (!isValidRegex(check.pattern, check.flags)) {
+        errors.push(`[${i}].check.pattern must be a valid regular expression`);
+      }
+      if (!['output', 'changed_files', 'changed_paths'].includes(check.target as string)) {
+        errors.push(`[${i}].check.target must be output, changed_files or changed_paths`);
+      }
+      if (check.expect !== undefined && check.expect !== 'absent' && check.expect !== 'present') {
+        errors.push(`[${i}].check.expect must be absent or present`);
+      }
+      if (check.file_pattern !== undefined && !isValidRegex(check.file_pattern)) {
+        errors.push(`[${i}].check.file_pattern must be a valid regular expression`);
+      }
+    } else if (check.type === 'command') {
+      if (typeof check.command !== 'string' || !check.command.trim()) {
+        errors.push(`[${i}].check.command is required`);
+      }
+      if (check.expected_exit_code !== undefined && !Number.isInteger(check.expected_exit_code)) {
+        errors.push(`[${i}].check.expected_exit_code must be an integer`);
+      }
+      if (check.timeout_ms !== undefined && (
+        !Number.isInteger(check.timeout_ms) ||
+        check.timeout_ms < 1 ||
+        check.timeout_ms > CUSTOM_CRITERIA_LIMITS.MAX_TIMEOUT_MS
+      )) {
+        errors.push(`[${i}].check.timeout_ms must be between 1 and ${CUSTOM_CRITERIA_LIMITS.MAX_TIMEOUT_MS}`);
+      }
+    } else {
+      errors.push(`[${i}].check.type must be regex or command`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Paths changed by the executor (verified files first, then files_modified)
+ */
+function changedPaths(result: ExecutorResult): string[] {
+  const paths = result.verified_files.filter(vf => vf.exists).map(vf => vf.path);
+  for (const file of result.files_modified) {
+    if (!paths.includes(file)) paths.push(file);
+  }
+  return paths;
+}
+
+/**
+ * Content of a changed file from disk, falling back to the executor's preview
+ */
+function readChangedFile(result: ExecutorResult, file: string, workingDir: string): string {
+  const filePath = path.resolve(workingDir, file);
+  try {
+    const stat = fs.statSync(filePath);
+    if (stat.isFile() && stat.size <= CUSTOM_CRITERIA_LIMITS.MAX_FILE_BYTES) {
+      return fs.readFileSync(filePath, 'utf-8');
+    }
+  } catch {
+    // Not on disk (deleted, or a replayed run)
+  }
+  return result.verified_files.find(vf => vf.path === file)?.content_preview ?? '';
+}
+
+function evaluateRegex(
+  check: RegexCriterionCheck,
+  result: ExecutorResult,
+  workingDir: string
+): { passed: boolean; details: string } {
+  // Stateful flags would carry lastIndex from one file to the next
+  const pattern = new RegExp(check.pattern, (check.flags ?? '').replace(/[gy]/g, ''));
+  const expect = check.expect ?? 'absent';
+  const filePattern = check.file_pattern ? new RegExp(check.file_pattern) : null;
+  const files = changedPaths(result).filter(file => !filePattern || filePattern.test(file));
+
+  let matched: string[];
+  if (check.target === 'output') {
+    matched = pattern.test(result.output) ? ['output'] : [];
+  } else if (check.target === 'changed_paths') {
+    matched = files.filter(file => pattern.test(file));
+  } else {
+    matched = files.filter(file => pattern.test(readChangedFile(result, file, workingDir)));
+  }
+
+  const scope = check.target === 'output' ? 'output' : `${files.length} changed file(s)`;
+  if (expect === 'absent') {
+    return matched.length === 0
+      ? { passed: true, details: `/${check.pattern}/ not found in ${scope}` }
+      : { passed: false, details: `/${check.pattern}/ found in ${matched.join(', ')}` };
+  }
+  return matched.length > 0
+    ? { passed: true, details: `/${check.pattern}/ found in ${matched.join(', ')}` }
+    : { passed: false, details: `/${check.pattern}/ not found in ${scope}` };
+}
+
+async function evaluateCommand(check: CommandCriterionCheck, workingDir: string): Promise<{ passed: boolean; details: string }> {
+  const expected = check.expected_exit_code ?? 0;
+  const timeoutMs = check.timeout_ms ?? CUSTOM_CRITERIA_LIMITS.DEFAULT_TIMEOUT_MS;
+  const run = await runShellCommand(check.command, {
+    cwd: workingDir,
+    timeoutMs,
+    maxOutputChars: CUSTOM_CRITERIA_LIMITS.MAX_OUTPUT_CHARS,
+  });
+
+  const tail = run.output.trim() ? `\n${run.output.trim()}` : '';
+  if (run.startError) {
+    return { passed: false, details: `\`${check.command}\` failed to start: ${run.startError}` };
+  }
+  if (run.timedOut) {
+    return { passed: false, details: `\`${check.command}\` timed out after ${timeoutMs}ms${tail}` };
+  }
+  if (run.exitCode === expected) {
+    return { passed: true, details: `\`${check.command}\` exited with ${run.exitCode}` };
+  }
+  return { passed: false, details: `\`${check.command}\` exited with ${run.exitCode ?? 'signal'} (expected ${expected})${tail}` };
+}
+
+/**
+ * Evaluate enabled criteria against an executor result, in definition order
+ *
+ * @param result - Executor result of the current iteration
+ * @param criteria - Validated definitions
+ * @param workingDir - Task working directory (file reads and commands)
+ */
+export async function evaluateCustomCriteria(
+  result: ExecutorResult,
+  criteria: CustomCriterionDefinition[],
+  workingDir: string
+): Promise<CriteriaResult[]> {
+  const results: CriteriaResult[] = [];
+  const paths = changedPaths(result);
+
+  for (const def of criteria) {
+    if (def.enabled === false) continue;
+    const criteria_id: CustomCriteriaId = `custom:${def.id}`;
+    const base = {
+      criteria_id,
+      name: def.name,
+      ...(def.description ? { suggestion: def.description } : {}),
+    };
+
+    if (def.applies_when) {
+      const when = new RegExp(def.applies_when);
+      if (!paths.some(file => when.test(file))) {
+        results.push({ ...base, passed: true, details: `Not applicable: no changed file matches /${def.applies_when}/` });
+        continue;
+      }
+    }
+
+    const outcome = def.check.type === 'regex'
+      ? evaluateRegex(def.check, result, workingDir)
+      : await evaluateCommand(def.check, workingDir);
+    results.push({ ...base, ...outcome });
+  }
+
+  return results;
+}
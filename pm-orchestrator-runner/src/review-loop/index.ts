@@ -6,6 +6,7 @@
  * Exports:
  * - ReviewLoopExecutorWrapper: Main class for wrapping IExecutor
  * - Quality criteria checkers (Q1-Q6, Q10-Q12)
+ * - Project-defined criteria (regex / command)
  * - Goal Drift Guard evaluator (GD1-GD5)
  * - Goal Drift Guard integration with Review Loop
  * - Types and interfaces
@@ -29,6 +30,7 @@ export {
 
   // Core functions
   performQualityJudgment,
+  performQualityJudgmentWithCustomCriteria,
   generateModificationPrompt,
   generateIssuesFromCriteria,
 
@@ -37,6 +39,8 @@ export {
 
   // Types
   type QualityCriteriaId,
+  type CustomCriteriaId,
+  type CriteriaId,
   type ReviewLoopConfig,
   type JudgmentResult,
   type CriteriaResult,
@@ -47,6 +51,17 @@ export {
   type ReviewLoopEventCallback,
 } from './review-loop';
 
+// Project-defined criteria (per spec 25_REVIEW_LOOP.md Section 12)
+export {
+  validateCustomCriteria,
+  evaluateCustomCriteria,
+  CustomCriteriaValidationError,
+  CUSTOM_CRITERIA_LIMITS,
+  type CustomCriterionDefinition,
+  type RegexCriterionCheck,
+  type CommandCriterionCheck,
+} from './custom-criteria';
+
 // Goal Drift Guard Evaluator (per spec 32_TEMPLATE_INJECTION.md)
 export {
   // Checker functions
@@ -6,6 +6,7 @@
  * This is the core LLM Layer component that:
  * - Wraps the existing IExecutor
  * - Performs Q1-Q6 quality checks on ExecutorResult
+ * - Evaluates project-defined criteria (custom-criteria.ts)
  * - Generates modification prompts for REJECT cases
  * - Logs all REVIEW_LOOP_* events
  * - Controls iteration with max_iterations
@@ -20,6 +21,7 @@ import { match } from 'ts-pattern';
 import type { IExecutor, ExecutorTask, ExecutorResult } from '../executor/claude-code-executor';
 import { PromptAssembler, ModificationPromptInput } from '../prompt';
 import { ConversationTracer, CriteriaResult as TraceCriteriaResult } from '../trace/conversation-tracer';
+import { evaluateCustomCriteria, type CustomCriterionDefinition } from './custom-criteria';
 
 // ============================================================================
 // Types and Interfaces
@@ -30,6 +32,16 @@ import { ConversationTracer, CriteriaResult as TraceCriteriaResult } from '../tr
  */
 export type QualityCriteriaId = 'Q1' | 'Q2' | 'Q3' | 'Q4' | 'Q5' | 'Q6' | 'Q7' | 'Q8' | 'Q9' | 'Q10' | 'Q11' | 'Q12';
 
+/**
+ * Project-defined criteria IDs (per spec 25_REVIEW_LOOP.md Section 12)
+ */
+export type CustomCriteriaId = `custom:${string}`;
+
+/**
+ * Any criteria ID reported by the Review Loop
+ */
+export type CriteriaId = QualityCriteriaId | CustomCriteriaId;
+
 /**
  * Review Loop configuration
  * Per spec 25_REVIEW_LOOP.md Section 5.1
@@ -49,6 +61,13 @@ export interface ReviewLoopConfig {
   omission_patterns: RegExp[];
   /** Patterns to detect early termination */
   early_termination_patterns: RegExp[];
+  /** Project-defined criteria evaluated after Q1-Q12 (default: none) */
+  custom_criteria?: CustomCriterionDefinition[];
+  /**
+   * Trace replay: custom criteria results recorded for an executor result,
+   * used instead of evaluating custom_criteria against today's working tree
+   */
+  recorded_custom_results?: (result: ExecutorResult) => CriteriaResult[];
 }
 
 /**
@@ -61,16 +80,20 @@ export type JudgmentResult = 'PASS' | 'REJECT' | 'RETRY';
  * Individual criteria check result
  */
 export interface CriteriaResult {
-  criteria_id: QualityCriteriaId;
+  criteria_id: CriteriaId;
   passed: boolean;
   details?: string;
+  /** Display name (project-defined criteria) */
+  name?: string;
+  /** Fix suggestion for the modification prompt (project-defined criteria) */
+  suggestion?: string;
 }
 
 /**
  * Issue detected during quality check
  */
 export interface IssueDetail {
-  type: 'omission' | 'incomplete' | 'missing_file' | 'early_termination' | 'syntax_error' | 'todo_left' | 'tautological_test' | 'missing_spec_traceability' | 'isolation_violation';
+  type: 'omission' | 'incomplete' | 'missing_file' | 'early_termination' | 'syntax_error' | 'todo_left' | 'tautological_test' | 'missing_spec_traceability' | 'isolation_violation' | 'custom_criteria';
   location?: string;
   description: string;
   suggestion?: string;
@@ -81,7 +104,7 @@ export interface IssueDetail {
  * Per spec 25_REVIEW_LOOP.md Section 4.1
  */
 export interface RejectionDetails {
-  criteria_failed: QualityCriteriaId[];
+  criteria_failed: CriteriaId[];
   issues_detected: IssueDetail[];
   modification_prompt: string;
   iteration: number;
@@ -178,12 +201,13 @@ export const DEFAULT_REVIEW_LOOP_CONFIG: ReviewLoopConfig = {
   optional_criteria: [],
   omission_patterns: DEFAULT_OMISSION_PATTERNS,
   early_termination_patterns: DEFAULT_EARLY_TERMINATION_PATTERNS,
+  custom_criteria: [],
 };
 
 /**
  * Get human-readable name for quality criteria
  */
-function getCriteriaName(criteriaId: QualityCriteriaId): string {
+function getCriteriaName(criteriaId: CriteriaId): string {
   return match(criteriaId)
     .with('Q1', () => 'Files Verified')
     .with('Q2', () => 'No TODO/FIXME')
@@ -687,7 +711,7 @@ export function performQualityJudgment(
 ): {
   judgment: JudgmentResult;
   criteria_results: CriteriaResult[];
-  failed_criteria: QualityCriteriaId[];
+  failed_criteria: CriteriaId[];
 } {
   const criteria_results: CriteriaResult[] = [];
   const failed_criteria: QualityCriteriaId[] = [];
@@ -739,14 +763,20 @@ export function performQualityJudgment(
     }
   }
 
-  // Determine judgment
-  // Per spec 25_REVIEW_LOOP.md Section 8: Fail-Closed
-  if (failed_criteria.length === 0) {
-    return {
-      judgment: 'PASS',
-      criteria_results,
-      failed_criteria: [],
-    };
+  return {
+    judgment: judgmentFromFailures(result, failed_criteria),
+    criteria_results,
+    failed_criteria,
+  };
+}
+
+/**
+ * Determine judgment from failed criteria
+ * Per spec 25_REVIEW_LOOP.md Section 8: Fail-Closed
+ */
+function judgmentFromFailures(result: ExecutorResult, failedCriteria: CriteriaId[]): JudgmentResult {
+  if (failedCriteria.length === 0) {
+    return 'PASS';
   }
 
   // Check if it's a temporary/retriable error
@@ -755,9 +785,43 @@ export function performQualityJudgment(
     result.executor_blocked ||
     (result.error && result.error.includes('timeout'));
 
+  return isRetriable ? 'RETRY' : 'REJECT';
+}
+
+/**
+ * Perform quality judgment including project-defined criteria
+ * Per spec 25_REVIEW_LOOP.md Section 12
+ *
+ * Custom criteria are skipped when the executor errored or was blocked
+ * (the built-in judgment is already RETRY).
+ *
+ * @param result - Executor result
+ * @param config - Review Loop configuration
+ * @param taskPrompt - Original task prompt (Q12)
+ * @param workingDir - Task working directory (custom file reads and commands)
+ */
+export async function performQualityJudgmentWithCustomCriteria(
+  result: ExecutorResult,
+  config: ReviewLoopConfig,
+  taskPrompt: string | undefined,
+  workingDir: string
+): Promise<ReturnType<typeof performQualityJudgment>> {
+  const builtIn = performQualityJudgment(result, config, taskPrompt);
+  const customCriteria = config.custom_criteria ?? [];
+  if (customCriteria.length === 0 || result.status === 'ERROR' || result.status === 'BLOCKED') {
+    return builtIn;
+  }
+
+  const customResults = config.recorded_custom_results
+    ? config.recorded_custom_results(result)
+    : await evaluateCustomCriteria(result, customCriteria, workingDir);
+  const failed_criteria = [
+    ...builtIn.failed_criteria,
+    ...customResults.filter(cr => !cr.passed).map(cr => cr.criteria_id),
+  ];
   return {
-    judgment: isRetriable ? 'RETRY' : 'REJECT',
-    criteria_results,
+    judgment: judgmentFromFailures(result, failed_criteria),
+    criteria_results: [...builtIn.criteria_results, ...customResults],
     failed_criteria,
   };
 }
@@ -826,6 +890,15 @@ export function generateIssuesFromCriteria(
   for (const cr of criteriaResults) {
     if (cr.passed) continue;
 
+    if (cr.criteria_id.startsWith('custom:')) {
+      issues.push({
+        type: 'custom_criteria',
+        description: `${cr.name ?? cr.criteria_id}: ${cr.details || 'failed'}`,
+        ...(cr.suggestion ? { suggestion: cr.suggestion } : {}),
+      });
+      continue;
+    }
+
     const type: IssueDetail['type'] = match(cr.criteria_id)
       .with('Q1', () => 'missing_file' as const)
       .with('Q2', () => 'todo_left' as const)
@@ -930,10 +1003,11 @@ export class ReviewLoopExecutorWrapper {
       );
 
       // Perform quality judgment
-      const { judgment, criteria_results, failed_criteria } = performQualityJudgment(
+      const { judgment, criteria_results, failed_criteria } = await performQualityJudgmentWithCustomCriteria(
         lastResult,
         this.config,
-        task.prompt
+        task.prompt,
+        task.workingDir
       );
 
       // Emit QUALITY_JUDGMENT event
@@ -950,7 +1024,7 @@ export class ReviewLoopExecutorWrapper {
         judgment as 'PASS' | 'REJECT' | 'RETRY',
         criteria_results.map(cr => ({
           id: cr.criteria_id,
-          name: getCriteriaName(cr.criteria_id),
+          name: cr.name ?? getCriteriaName(cr.criteria_id),
           passed: cr.passed,
           reason: cr.details,
         })),
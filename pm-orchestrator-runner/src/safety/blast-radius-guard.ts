@@ -0,0 +1,401 @@
+/**
+ * Blast Radius Guard - Runtime enforcement through a Claude Code PreToolUse hook
+ *
+ * Per spec/47_BLAST_RADIUS_HOOK.md
+ *
+ * Claude Code runs with --dangerously-skip-permissions, so the prose rules from
+ * generateSafetyRules() are advisory only. The guard serves a local hook endpoint
+ * (127.0.0.1, random port) and hands each executor run a settings file whose
+ * PreToolUse hook posts every Bash/Edit/Write call to it:
+ * - GREEN: allowed
+ * - YELLOW: the mediation callback decides; without one, or when it fails, the
+ *   call is escalated like RED
+ * - RED: denied and recorded; the runner moves the task to AWAITING_RESPONSE
+ *   with the blocked calls, and an approving reply allows exactly those calls
+ *   when the task continues
+ */
+
+import { AsyncResource } from 'async_hooks';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BlastRadius,
+  BlastRadiusConfig,
+  DEFAULT_BLAST_RADIUS_CONFIG,
+  classifyCommand,
+  classifyFileOperation,
+} from './blast-radius';
+
+/** Tools the hook is installed for */
+export const GUARDED_TOOLS = ['Bash', 'Edit', 'MultiEdit', 'Write'];
+
+/** Start of the clarification question for blocked calls */
+export const BLOCKED_TOOL_CALLS_HEADER = '[SAFETY] Blocked RED tool call(s) awaiting approval:';
+
+const TOKEN_HEADER = 'x-pm-hook-token';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * PreToolUse hook input (subset)
+ */
+export interface ToolCall {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  cwd?: string;
+}
+
+/**
+ * A tool call reduced to what was classified: the command or the file path
+ */
+export interface ToolCallTarget {
+  tool: string;
+  target: string;
+}
+
+export interface ToolCallDecision extends ToolCallTarget {
+  decision: 'allow' | 'deny';
+  radius: BlastRadius;
+  reason: string;
+}
+
+/**
+ * Decides YELLOW calls (the mediation layer). A rejection escalates the call to the user.
+ */
+export type YellowToolCallJudge = (
+  call: ToolCallTarget,
+  context: { taskId: string; prompt: string }
+) => Promise<{ allow: boolean; reasoning: string }>;
+
+export interface BlastRadiusGuardOptions {
+  config?: BlastRadiusConfig;
+  judgeYellow?: YellowToolCallJudge;
+  /** Parent of the private directory the hook script and settings file are written to (default: os.tmpdir()) */
+  hookDir?: string;
+}
+
+/**
+ * What an executor run needs to install the hook
+ */
+export interface ExecutorHookConfig {
+  /** Passed to `claude --settings` */
+  settingsPath: string;
+  /** Added to the executor's environment */
+  env: Record<string, string>;
+}
+
+interface RegisteredTask {
+  taskId: string;
+  projectDir: string;
+  prompt: string;
+  approved: Set<string>;
+  blocked: ToolCallTarget[];
+  /** Async context of registerTask(): YELLOW judgments run (and book LLM usage) in it */
+  scope: AsyncResource;
+}
+
+const callKey = (call: ToolCallTarget): string => `${call.tool}\0${call.target}`;
+
+/**
+ * Classify one tool call. File edits outside the project are at least YELLOW.
+ */
+export function classifyToolCall(
+  call: ToolCall,
+  projectDir: string,
+  config: BlastRadiusConfig = DEFAULT_BLAST_RADIUS_CONFIG
+): ToolCallTarget & { radius: BlastRadius } {
+  const input = call.tool_input ?? {};
+  if (call.tool_name === 'Bash') {
+    const command = typeof input.command === 'string' ? input.command : '';
+    return { tool: 'Bash', target: command, radius: classifyCommand(command, config) };
+  }
+  if (GUARDED_TOOLS.includes(call.tool_name)) {
+    const filePath = typeof input.file_path === 'string' ? input.file_path : '';
+    const resolved = path.resolve(call.cwd || projectDir, filePath);
+    const operation = call.tool_name === 'Write' && !fs.existsSync(resolved) ? 'create' : 'edit';
+    let radius = classifyFileOperation(operation, filePath, config);
+    const root = path.resolve(projectDir);
+    if (radius === 'GREEN' && resolved !== root && !resolved.startsWith(root + path.sep)) {
+      radius = 'YELLOW';
+    }
+    return { tool: call.tool_name, target: filePath, radius };
+  }
+  return { tool: call.tool_name, target: '', radius: 'GREEN' };
+}
+
+/**
+ * Clarification question listing blocked calls (parsed back by parseBlockedToolCalls)
+ */
+export function formatBlockedToolCalls(calls: ToolCallTarget[]): string {
+  return [
+    BLOCKED_TOOL_CALLS_HEADER,
+    ...calls.map(call => `- ${call.tool}: ${JSON.stringify(call.target)}`),
+    '',
+    'Reply "approve" to allow these calls when the task continues, or reply with other instructions.',
+  ].join('\n');
+}
+
+export function parseBlockedToolCalls(question: string | undefined): ToolCallTarget[] {
+  if (!question || !question.startsWith(BLOCKED_TOOL_CALLS_HEADER)) return [];
+  const calls: ToolCallTarget[] = [];
+  for (const line of question.split('\n').slice(1)) {
+    const matched = /^- (\w+): (".*")$/.exec(line);
+    if (!matched) continue;
+    try {
+      calls.push({ tool: matched[1], target: JSON.parse(matched[2]) as string });
+    } catch { /* not a call line */ }
+  }
+  return calls;
+}
+
+/**
+ * Whether a user reply approves the blocked calls
+ */
+export function isApprovalReply(reply: string | undefined): boolean {
+  return !!reply && /^\s*(approved?|allow|yes|y|ok|はい|承認|許可)(\s|[.,!。、]|$)/i.test(reply);
+}
+
+/**
+ * Hook command script: forwards the hook input to the guard and prints its answer.
+ * An unreachable guard blocks the call (exit 2).
+ */
+const HOOK_SCRIPT = `#!/usr/bin/env node
+const http = require('http');
+let input = '';
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+  const url = new URL(process.env.PM_RUNNER_HOOK_URL || '');
+  const req = http.request(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', '${TOKEN_HEADER}': process.env.PM_RUNNER_HOOK_TOKEN || '' },
+    timeout: 120000,
+  }, res => {
+    let body = '';
+    res.on('data', chunk => { body += chunk; });
+    res.on('end', () => {
+      if (res.statusCode !== 200) {
+        process.stderr.write('PM Runner safety hook rejected the call: ' + body);
+        process.exit(2);
+      }
+      process.stdout.write(body);
+      process.exit(0);
+    });
+  });
+  req.on('error', error => {
+    process.stderr.write('PM Runner safety hook unavailable: ' + error.message);
+    process.exit(2);
+  });
+  req.on('timeout', () => req.destroy(new Error('timed out')));
+  req.end(input);
+});
+`;
+
+export class BlastRadiusGuard {
+  private readonly config: BlastRadiusConfig;
+  private readonly judgeYellow?: YellowToolCallJudge;
+  private readonly hookParentDir: string;
+  private hookDir = '';
+  private readonly tasks = new Map<string, RegisteredTask>();
+  private server: http.Server | null = null;
+  private url = '';
+  private settingsPath = '';
+
+  constructor(options: BlastRadiusGuardOptions = {}) {
+    this.config = options.config ?? DEFAULT_BLAST_RADIUS_CONFIG;
+    this.judgeYellow = options.judgeYellow;
+    this.hookParentDir = options.hookDir ?? os.tmpdir();
+  }
+
+  /**
+   * Start the hook endpoint and write the hook script + settings file
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => { void this.handleRequest(req, res); });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    server.unref();
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/pre-tool-use`;
+
+    // Unpredictable, owner-only directory; the files are created fresh (never through an existing path)
+    fs.mkdirSync(this.hookParentDir, { recursive: true });
+    this.hookDir = fs.mkdtempSync(path.join(this.hookParentDir, 'pm-runner-hooks-'));
+    fs.chmodSync(this.hookDir, 0o700);
+    const scriptPath = path.join(this.hookDir, 'pre-tool-use.js');
+    fs.writeFileSync(scriptPath, HOOK_SCRIPT, { mode: 0o700, flag: 'wx' });
+    this.settingsPath = path.join(this.hookDir, 'settings.json');
+    fs.writeFileSync(this.settingsPath, JSON.stringify({
+      hooks: {
+        PreToolUse: [{
+          matcher: GUARDED_TOOLS.join('|'),
+          hooks: [{ type: 'command', command: `node ${JSON.stringify(scriptPath)}`, timeout: 180 }],
+        }],
+      },
+    }, null, 2), { mode: 0o600, flag: 'wx' });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    if (this.hookDir) {
+      fs.rmSync(this.hookDir, { recursive: true, force: true });
+      this.hookDir = '';
+    }
+  }
+
+  get endpoint(): string {
+    return this.url;
+  }
+
+  /**
+   * Register a task's executor runs. `approved` calls are allowed even when RED.
+   * @throws Error when the guard has not been started
+   */
+  registerTask(taskId: string, options: { projectDir: string; prompt: string; approved?: ToolCallTarget[] }): ExecutorHookConfig {
+    if (!this.server) {
+      throw new Error('BlastRadiusGuard is not started');
+    }
+    const token = crypto.randomBytes(24).toString('hex');
+    this.tasks.set(token, {
+      taskId,
+      projectDir: options.projectDir,
+      prompt: options.prompt,
+      approved: new Set((options.approved ?? []).map(callKey)),
+      blocked: [],
+      scope: new AsyncResource('BlastRadiusTask'),
+    });
+    return {
+      settingsPath: this.settingsPath,
+      env: { PM_RUNNER_HOOK_URL: this.url, PM_RUNNER_HOOK_TOKEN: token },
+    };
+  }
+
+  /**
+   * RED calls blocked since the last call (cleared on read)
+   */
+  takeBlocked(hook: ExecutorHookConfig): ToolCallTarget[] {
+    const task = this.tasks.get(hook.env.PM_RUNNER_HOOK_TOKEN);
+    if (!task) return [];
+    const blocked = task.blocked;
+    task.blocked = [];
+    return blocked;
+  }
+
+  /**
+   * End a task's registration; its token stops working
+   */
+  finishTask(hook: ExecutorHookConfig): void {
+    this.tasks.get(hook.env.PM_RUNNER_HOOK_TOKEN)?.scope.emitDestroy();
+    this.tasks.delete(hook.env.PM_RUNNER_HOOK_TOKEN);
+  }
+
+  /**
+   * Decide one tool call of a registered run
+   * @returns null for an unknown token
+   */
+  async evaluate(token: string, call: ToolCall): Promise<ToolCallDecision | null> {
+    const task = this.tasks.get(token);
+    if (!task) return null;
+    const classified = classifyToolCall(call, task.projectDir, this.config);
+
+    if (classified.radius === 'RED') {
+      return this.escalate(task, classified, 'RED blast radius');
+    }
+
+    if (classified.radius === 'YELLOW') {
+      // Fail closed: a call nobody could mediate waits for the user's approval
+      const judgeYellow = this.judgeYellow;
+      if (!judgeYellow) {
+        return this.escalate(task, classified, 'YELLOW blast radius, no mediator');
+      }
+      try {
+        const judgment = await task.scope.runInAsyncScope(() => judgeYellow(
+          { tool: classified.tool, target: classified.target },
+          { taskId: task.taskId, prompt: task.prompt }
+        ));
+        return {
+          ...classified,
+          decision: judgment.allow ? 'allow' : 'deny',
+          reason: `YELLOW blast radius: ${judgment.reasoning}`,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return this.escalate(task, classified, `YELLOW blast radius, mediation failed: ${message}`);
+      }
+    }
+
+    return { ...classified, decision: 'allow', reason: `${classified.radius} blast radius` };
+  }
+
+  /**
+   * Allow a call the user approved; otherwise deny it and record it for approval
+   */
+  private escalate(
+    task: RegisteredTask,
+    classified: ToolCallTarget & { radius: BlastRadius },
+    cause: string
+  ): ToolCallDecision {
+    if (task.approved.has(callKey(classified))) {
+      return { ...classified, decision: 'allow', reason: `${classified.radius} call approved by the user` };
+    }
+    if (!task.blocked.some(blocked => callKey(blocked) === callKey(classified))) {
+      task.blocked.push({ tool: classified.tool, target: classified.target });
+    }
+    return {
+      ...classified,
+      decision: 'deny',
+      reason: `Blocked by PM Runner safety rules (${cause}): ${classified.target}. ` +
+        'The user has been asked to approve it. Do not work around this block; ' +
+        `finish without it and report "[RED OPERATION] ${classified.target}".`,
+    };
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const reply = (status: number, body: unknown): void => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== 'POST' || req.url !== '/pre-tool-use') {
+      reply(404, { error: 'NOT_FOUND' });
+      return;
+    }
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        reply(413, { error: 'PAYLOAD_TOO_LARGE' });
+        return;
+      }
+    }
+    let call: ToolCall;
+    try {
+      call = JSON.parse(raw) as ToolCall;
+    } catch {
+      reply(400, { error: 'INVALID_INPUT' });
+      return;
+    }
+    const token = req.headers[TOKEN_HEADER];
+    const decision = await this.evaluate(typeof token === 'string' ? token : '', call);
+    if (!decision) {
+      reply(403, { error: 'UNKNOWN_TOKEN' });
+      return;
+    }
+    // Claude Code PreToolUse hook output
+    reply(200, {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: decision.decision,
+        permissionDecisionReason: decision.reason,
+      },
+    });
+  }
+}
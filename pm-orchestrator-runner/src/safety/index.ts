@@ -6,3 +6,22 @@ export {
   classifyFileOperation,
   generateSafetyRules,
 } from './blast-radius';
+
+export {
+  BlastRadiusGuard,
+  BLOCKED_TOOL_CALLS_HEADER,
+  GUARDED_TOOLS,
+  classifyToolCall,
+  formatBlockedToolCalls,
+  parseBlockedToolCalls,
+  isApprovalReply,
+} from './blast-radius-guard';
+
+export type {
+  BlastRadiusGuardOptions,
+  ExecutorHookConfig,
+  ToolCall,
+  ToolCallDecision,
+  ToolCallTarget,
+  YellowToolCallJudge,
+} from './blast-radius-guard';
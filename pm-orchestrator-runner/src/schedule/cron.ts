@@ -0,0 +1,228 @@
+/**
+ * Cron Expression Parser
+ * Per spec/38_SCHEDULED_TASKS.md
+ *
+ * Supports the standard 5-field syntax evaluated in the runner's local time:
+ *   minute hour day-of-month month day-of-week
+ *
+ * - Lists (1,15), ranges (1-5), steps (*\/15, 10-40/10)
+ * - Month and weekday names (jan-dec, sun-sat); weekday 7 is Sunday
+ * - Macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly
+ * - When both day-of-month and day-of-week are restricted, either may match (Vixie cron)
+ */
+
+/**
+ * Error thrown for malformed cron expressions
+ */
+export class CronParseError extends Error {
+  constructor(message: string, public readonly expression: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  /** Day-of-month field does not start with '*' */
+  domRestricted: boolean;
+  /** Day-of-week field does not start with '*' */
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset added to a name's index (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/**
+ * Upper bound for next-run searches (covers leap-day schedules)
+ */
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(token: string, spec: FieldSpec, expression: string): number {
+  const lower = token.toLowerCase();
+  if (spec.names) {
+    const index = spec.names.indexOf(lower);
+    if (index >= 0) {
+      return index + (spec.nameOffset ?? 0);
+    }
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(`Invalid ${spec.name} value "${token}"`, expression);
+  }
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(`${spec.name} value ${value} out of range ${spec.min}-${spec.max}`, expression);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    if (part === '') {
+      throw new CronParseError(`Empty list entry in ${spec.name} field`, expression);
+    }
+    const [rangePart, stepPart, extra] = part.split('/');
+    if (extra !== undefined) {
+      throw new CronParseError(`Invalid step in ${spec.name} field "${part}"`, expression);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new CronParseError(`Invalid step in ${spec.name} field "${part}"`, expression);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new CronParseError(`Descending range in ${spec.name} field "${part}"`, expression);
+      }
+    } else {
+      start = parseValue(rangePart, spec, expression);
+      // "5/15" means "from 5 to max every 15"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws CronParseError when the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = (expression || '').trim();
+  const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/).filter(f => f.length > 0);
+  if (fields.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`, expression);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i], expression)
+  );
+
+  // Weekday 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: !fields[2].startsWith('*'),
+    dowRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Check whether an expression parses
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Compute the first fire time strictly after `after` (minute precision, local time).
+ * Returns null when the expression can never fire (e.g. "0 0 30 2 *").
+ */
+export function getNextCronRun(schedule: CronSchedule | string, after: Date): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  const cursor = new Date(after.getTime());
+  cursor.setSeconds(0, 0);
+  cursor.setMinutes(cursor.getMinutes() + 1);
+
+  const limit = new Date(cursor.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (cursor <= limit) {
+    if (!parsed.months.has(cursor.getMonth() + 1)) {
+      cursor.setMonth(cursor.getMonth() + 1, 1);
+      cursor.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(parsed, cursor)) {
+      cursor.setDate(cursor.getDate() + 1);
+      cursor.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.hours.has(cursor.getHours())) {
+      cursor.setHours(cursor.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.minutes.has(cursor.getMinutes())) {
+      cursor.setMinutes(cursor.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return cursor;
+  }
+  return null;
+}
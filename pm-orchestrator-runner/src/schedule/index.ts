@@ -0,0 +1,36 @@
+/**
+ * Schedule Module Exports
+ *
+ * Per spec 38_SCHEDULED_TASKS.md
+ */
+
+export {
+  type CronSchedule,
+  CronParseError,
+  parseCronExpression,
+  isValidCronExpression,
+  getNextCronRun,
+} from './cron';
+
+export {
+  type CatchUpPolicy,
+  type ScheduleDefinition,
+  type ScheduleInput,
+  type ScheduleRunRecord,
+  type ScheduleStoreConfig,
+  CATCH_UP_POLICIES,
+  MAX_HISTORY_PER_SCHEDULE,
+  ScheduleValidationError,
+  validateScheduleInput,
+  computeNextRunAt,
+  getScheduleTaskGroupId,
+  ScheduleStore,
+} from './schedule-store';
+
+export {
+  type SchedulerConfig,
+  type SchedulerEvents,
+  DEFAULT_MAX_CATCH_UP_RUNS,
+  buildSchedulePrompt,
+  Scheduler,
+} from './scheduler';
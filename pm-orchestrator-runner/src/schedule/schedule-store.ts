@@ -0,0 +1,379 @@
+/**
+ * Schedule Store - Persisted schedule definitions and run history
+ * Per spec/38_SCHEDULED_TASKS.md
+ *
+ * Storage layout:
+ *   {stateDir}/schedules/schedules.json  - schedule definitions
+ *   {stateDir}/schedules/history.json    - run history per schedule (capped)
+ *
+ * Files are re-read on every call so that the Web UI, the REPL and the
+ * runner's Scheduler (possibly different processes) always see the same data.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { TaskTypeValue } from '../queue/queue-store';
+import { parseCronExpression, getNextCronRun, CronParseError } from './cron';
+
+/**
+ * What to do with runs that were missed while the runner was down
+ * - skip: record missed runs in history but enqueue nothing
+ * - once: enqueue a single task for the most recent missed run
+ * - all:  enqueue every missed run (capped by SchedulerConfig.maxCatchUpRuns)
+ */
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
+
+export const CATCH_UP_POLICIES: readonly CatchUpPolicy[] = ['skip', 'once', 'all'];
+
+const TASK_TYPES: readonly TaskTypeValue[] = ['READ_INFO', 'REPORT', 'LIGHT_EDIT', 'IMPLEMENTATION', 'REVIEW_RESPONSE', 'CONFIG_CI_CHANGE', 'DANGEROUS_OP'];
+
+/**
+ * Max history entries kept per schedule
+ */
+export const MAX_HISTORY_PER_SCHEDULE = 100;
+
+/**
+ * Persisted schedule definition
+ */
+export interface ScheduleDefinition {
+  schedule_id: string;
+  name: string;
+  /** 5-field cron expression or macro (@daily, @hourly, ...) */
+  cron: string;
+  /** Task prompt (required unless template_id is set) */
+  prompt?: string;
+  /** Template whose rules/output format are wrapped around the prompt */
+  template_id?: string;
+  project_path?: string;
+  /** Task type (auto-detected from the prompt when omitted) */
+  task_type?: TaskTypeValue;
+  /** Task group that receives the produced tasks (default: schedule-<schedule_id>) */
+  task_group_id?: string;
+  catch_up: CatchUpPolicy;
+  enabled: boolean;
+  /** Next fire time (ISO 8601), null when disabled or the expression never fires */
+  next_run_at: string | null;
+  last_run_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fields accepted on create/update
+ */
+export interface ScheduleInput {
+  name?: string;
+  cron?: string;
+  prompt?: string;
+  template_id?: string;
+  project_path?: string;
+  task_type?: TaskTypeValue;
+  task_group_id?: string;
+  catch_up?: CatchUpPolicy;
+  enabled?: boolean;
+}
+
+/**
+ * One fire (or skipped fire) of a schedule
+ */
+export interface ScheduleRunRecord {
+  schedule_id: string;
+  /** The cron slot this run belongs to */
+  scheduled_for: string;
+  /** When the Scheduler processed the slot */
+  fired_at: string;
+  outcome: 'ENQUEUED' | 'SKIPPED' | 'ERROR';
+  /** Slot was missed while the runner was down */
+  catch_up: boolean;
+  /** Triggered manually via "run now" */
+  manual?: boolean;
+  /** Number of missed slots collapsed into this SKIPPED record */
+  skipped_count?: number;
+  task_id?: string;
+  task_group_id?: string;
+  error?: string;
+}
+
+interface PersistedSchedules {
+  version: 1;
+  schedules: ScheduleDefinition[];
+}
+
+interface PersistedHistory {
+  version: 1;
+  runs: Record<string, ScheduleRunRecord[]>;
+}
+
+/**
+ * Error thrown when schedule input fails validation
+ */
+export class ScheduleValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'ScheduleValidationError';
+  }
+}
+
+/**
+ * Validate schedule input. `existing` is the schedule being updated (if any).
+ */
+export function validateScheduleInput(input: ScheduleInput, existing?: ScheduleDefinition): string[] {
+  const errors: string[] = [];
+  const merged = { ...existing, ...input };
+
+  if (!merged.name || typeof merged.name !== 'string' || merged.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+  if (!merged.cron || typeof merged.cron !== 'string') {
+    errors.push('cron is required');
+  } else {
+    try {
+      parseCronExpression(merged.cron);
+    } catch (error) {
+      errors.push(`cron: ${error instanceof CronParseError ? error.message : String(error)}`);
+    }
+  }
+  const hasPrompt = typeof merged.prompt === 'string' && merged.prompt.trim().length > 0;
+  const hasTemplate = typeof merged.template_id === 'string' && merged.template_id.trim().length > 0;
+  if (!hasPrompt && !hasTemplate) {
+    errors.push('prompt or template_id is required');
+  }
+  if (merged.task_type !== undefined && !TASK_TYPES.includes(merged.task_type)) {
+    errors.push(`task_type must be one of ${TASK_TYPES.join(', ')}`);
+  }
+  if (merged.catch_up !== undefined && !CATCH_UP_POLICIES.includes(merged.catch_up)) {
+    errors.push(`catch_up must be one of ${CATCH_UP_POLICIES.join(', ')}`);
+  }
+  if (merged.enabled !== undefined && typeof merged.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  return errors;
+}
+
+/**
+ * Compute next_run_at for a schedule (null when disabled or never firing)
+ */
+export function computeNextRunAt(schedule: Pick<ScheduleDefinition, 'cron' | 'enabled'>, after: Date): string | null {
+  if (!schedule.enabled) {
+    return null;
+  }
+  const next = getNextCronRun(schedule.cron, after);
+  return next ? next.toISOString() : null;
+}
+
+/**
+ * Resolve the task group a schedule enqueues into
+ */
+export function getScheduleTaskGroupId(schedule: ScheduleDefinition): string {
+  return schedule.task_group_id || `schedule-${schedule.schedule_id}`;
+}
+
+export interface ScheduleStoreConfig {
+  stateDir: string;
+}
+
+/**
+ * File-backed schedule store
+ */
+export class ScheduleStore {
+  private readonly dir: string;
+  private readonly schedulesFile: string;
+  private readonly historyFile: string;
+
+  constructor(config: ScheduleStoreConfig) {
+    this.dir = path.join(config.stateDir, 'schedules');
+    this.schedulesFile = path.join(this.dir, 'schedules.json');
+    this.historyFile = path.join(this.dir, 'history.json');
+  }
+
+  /**
+   * List all schedules (oldest first)
+   */
+  async list(): Promise<ScheduleDefinition[]> {
+    return this.loadSchedules();
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async get(scheduleId: string): Promise<ScheduleDefinition | null> {
+    return this.loadSchedules().find(s => s.schedule_id === scheduleId) ?? null;
+  }
+
+  /**
+   * Create a schedule
+   * @throws ScheduleValidationError
+   */
+  async create(input: ScheduleInput, now: Date = new Date()): Promise<ScheduleDefinition> {
+    const errors = validateScheduleInput(input);
+    if (errors.length > 0) {
+      throw new ScheduleValidationError(errors);
+    }
+
+    const timestamp = now.toISOString();
+    const enabled = input.enabled ?? true;
+    const schedule: ScheduleDefinition = {
+      schedule_id: uuidv4(),
+      name: input.name!.trim(),
+      cron: input.cron!.trim(),
+      ...(input.prompt?.trim() ? { prompt: input.prompt.trim() } : {}),
+      ...(input.template_id?.trim() ? { template_id: input.template_id.trim() } : {}),
+      ...(input.project_path ? { project_path: input.project_path } : {}),
+      ...(input.task_type ? { task_type: input.task_type } : {}),
+      ...(input.task_group_id?.trim() ? { task_group_id: input.task_group_id.trim() } : {}),
+      catch_up: input.catch_up ?? 'once',
+      enabled,
+      next_run_at: computeNextRunAt({ cron: input.cron!, enabled }, now),
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    const schedules = this.loadSchedules();
+    schedules.push(schedule);
+    this.saveSchedules(schedules);
+    return schedule;
+  }
+
+  /**
+   * Update a schedule. Changing cron or re-enabling recomputes next_run_at from now,
+   * so runs missed while a schedule was disabled are never caught up.
+   * @returns updated schedule, or null if not found
+   * @throws ScheduleValidationError
+   */
+  async update(scheduleId: string, input: ScheduleInput, now: Date = new Date()): Promise<ScheduleDefinition | null> {
+    const schedules = this.loadSchedules();
+    const index = schedules.findIndex(s => s.schedule_id === scheduleId);
+    if (index === -1) {
+      return null;
+    }
+
+    const existing = schedules[index];
+    const errors = validateScheduleInput(input, existing);
+    if (errors.length > 0) {
+      throw new ScheduleValidationError(errors);
+    }
+
+    const updated: ScheduleDefinition = { ...existing, updated_at: now.toISOString() };
+    for (const key of ['name', 'cron', 'prompt', 'template_id', 'project_path', 'task_group_id'] as const) {
+      if (input[key] !== undefined) {
+        const value = input[key]!.trim();
+        if (value) {
+          updated[key] = value;
+        } else if (key !== 'name' && key !== 'cron') {
+          delete updated[key];
+        }
+      }
+    }
+    if (input.task_type !== undefined) updated.task_type = input.task_type;
+    if (input.catch_up !== undefined) updated.catch_up = input.catch_up;
+    if (input.enabled !== undefined) updated.enabled = input.enabled;
+
+    const timingChanged = updated.cron !== existing.cron || updated.enabled !== existing.enabled;
+    if (timingChanged) {
+      updated.next_run_at = computeNextRunAt(updated, now);
+    }
+
+    schedules[index] = updated;
+    this.saveSchedules(schedules);
+    return updated;
+  }
+
+  /**
+   * Delete a schedule and its history
+   * @returns true if a schedule was deleted
+   */
+  async delete(scheduleId: string): Promise<boolean> {
+    const schedules = this.loadSchedules();
+    const remaining = schedules.filter(s => s.schedule_id !== scheduleId);
+    if (remaining.length === schedules.length) {
+      return false;
+    }
+    this.saveSchedules(remaining);
+
+    const history = this.loadHistory();
+    delete history.runs[scheduleId];
+    this.saveHistory(history);
+    return true;
+  }
+
+  /**
+   * Record processed runs and advance the schedule's clock
+   */
+  async recordRuns(scheduleId: string, runs: ScheduleRunRecord[], nextRunAt?: string | null): Promise<void> {
+    if (nextRunAt !== undefined || runs.some(r => r.outcome === 'ENQUEUED')) {
+      const schedules = this.loadSchedules();
+      const schedule = schedules.find(s => s.schedule_id === scheduleId);
+      if (schedule) {
+        if (nextRunAt !== undefined) {
+          schedule.next_run_at = nextRunAt;
+        }
+        const lastFired = runs.filter(r => r.outcome === 'ENQUEUED').map(r => r.fired_at).pop();
+        if (lastFired) {
+          schedule.last_run_at = lastFired;
+        }
+        this.saveSchedules(schedules);
+      }
+    }
+
+    if (runs.length > 0) {
+      const history = this.loadHistory();
+      const existing = history.runs[scheduleId] || [];
+      history.runs[scheduleId] = [...existing, ...runs].slice(-MAX_HISTORY_PER_SCHEDULE);
+      this.saveHistory(history);
+    }
+  }
+
+  /**
+   * Get run history for a schedule (newest first)
+   */
+  async getHistory(scheduleId: string, limit?: number): Promise<ScheduleRunRecord[]> {
+    const runs = [...(this.loadHistory().runs[scheduleId] || [])].reverse();
+    return limit !== undefined ? runs.slice(0, limit) : runs;
+  }
+
+  private loadSchedules(): ScheduleDefinition[] {
+    if (!fs.existsSync(this.schedulesFile)) {
+      return [];
+    }
+    try {
+      const data: PersistedSchedules = JSON.parse(fs.readFileSync(this.schedulesFile, 'utf-8'));
+      return Array.isArray(data.schedules) ? data.schedules : [];
+    } catch (error) {
+      console.warn(`[ScheduleStore] Warning: Could not load schedules from ${this.schedulesFile}:`, error);
+      return [];
+    }
+  }
+
+  private saveSchedules(schedules: ScheduleDefinition[]): void {
+    const data: PersistedSchedules = { version: 1, schedules };
+    this.writeJson(this.schedulesFile, data);
+  }
+
+  private loadHistory(): PersistedHistory {
+    if (!fs.existsSync(this.historyFile)) {
+      return { version: 1, runs: {} };
+    }
+    try {
+      const data: PersistedHistory = JSON.parse(fs.readFileSync(this.historyFile, 'utf-8'));
+      return { version: 1, runs: data.runs || {} };
+    } catch (error) {
+      console.warn(`[ScheduleStore] Warning: Could not load schedule history from ${this.historyFile}:`, error);
+      return { version: 1, runs: {} };
+    }
+  }
+
+  private saveHistory(history: PersistedHistory): void {
+    this.writeJson(this.historyFile, history);
+  }
+
+  /**
+   * Write via temp file + rename so concurrent readers never see partial JSON
+   */
+  private writeJson(filePath: string, data: unknown): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  }
+}
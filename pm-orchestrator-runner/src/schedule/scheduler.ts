@@ -0,0 +1,315 @@
+/**
+ * Scheduler - Enqueues tasks for due schedules
+ * Per spec/38_SCHEDULED_TASKS.md
+ *
+ * Features:
+ * - Tick interval configurable (default 30s); first tick runs on start()
+ * - Slots older than graceMs are "missed" and follow the schedule's catch_up policy
+ * - Every processed slot is written to the schedule's run history
+ * - Fail-closed: an enqueue failure is recorded as an ERROR run, never retried silently
+ */
+
+import { EventEmitter } from 'events';
+import { IQueueStore } from '../queue/queue-store';
+import { TemplateStore, Template, formatRulesInjection, formatOutputInjection } from '../template';
+import { detectTaskType } from '../utils/task-type-detector';
+import { log } from '../logging/app-logger';
+import { parseCronExpression, getNextCronRun } from './cron';
+import {
+  ScheduleStore,
+  ScheduleDefinition,
+  ScheduleRunRecord,
+  computeNextRunAt,
+  getScheduleTaskGroupId,
+} from './schedule-store';
+
+/**
+ * Default cap on tasks enqueued for missed slots under catch_up='all'
+ */
+export const DEFAULT_MAX_CATCH_UP_RUNS = 24;
+
+/**
+ * Upper bound on slots walked for one schedule in a single tick
+ */
+const MAX_SLOTS_SCANNED = 100_000;
+
+export interface SchedulerConfig {
+  store: ScheduleStore;
+  queueStore: IQueueStore;
+  /** Session ID recorded on enqueued tasks */
+  sessionId: string;
+  /** Resolves template_id (required for schedules that use templates) */
+  templateStore?: TemplateStore;
+  /** Tick interval in milliseconds (default: 30000) */
+  tickIntervalMs?: number;
+  /** Slots older than this are treated as missed (default: 2 minutes) */
+  graceMs?: number;
+  /** Cap for catch_up='all' (default: DEFAULT_MAX_CATCH_UP_RUNS) */
+  maxCatchUpRuns?: number;
+  /** Clock override (tests) */
+  now?: () => Date;
+}
+
+/**
+ * Scheduler events
+ */
+export interface SchedulerEvents {
+  started: [];
+  stopped: [];
+  fired: [ScheduleRunRecord];
+  error: [ScheduleDefinition, Error];
+}
+
+/**
+ * Build the task prompt for a schedule.
+ * Templates contribute their rules and output format around the prompt.
+ */
+export function buildSchedulePrompt(schedule: ScheduleDefinition, template: Template | null): string {
+  if (!template) {
+    return schedule.prompt || '';
+  }
+  return [formatRulesInjection(template), schedule.prompt, formatOutputInjection(template)]
+    .filter((part): part is string => !!part && part.trim().length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Scheduler
+ * Turns due cron slots into queued tasks
+ */
+export class Scheduler extends EventEmitter {
+  private readonly store: ScheduleStore;
+  private readonly queueStore: IQueueStore;
+  private readonly sessionId: string;
+  private readonly templateStore?: TemplateStore;
+  private readonly tickIntervalMs: number;
+  private readonly graceMs: number;
+  private readonly maxCatchUpRuns: number;
+  private readonly now: () => Date;
+
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private running: boolean = false;
+  private ticking: boolean = false;
+
+  constructor(config: SchedulerConfig) {
+    super();
+    this.store = config.store;
+    this.queueStore = config.queueStore;
+    this.sessionId = config.sessionId;
+    this.templateStore = config.templateStore;
+    this.tickIntervalMs = config.tickIntervalMs ?? 30 * 1000;
+    this.graceMs = config.graceMs ?? 2 * 60 * 1000;
+    this.maxCatchUpRuns = Math.max(1, config.maxCatchUpRuns ?? DEFAULT_MAX_CATCH_UP_RUNS);
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * Schedule store used by this scheduler
+   */
+  getStore(): ScheduleStore {
+    return this.store;
+  }
+
+  /**
+   * Whether the tick loop is active
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start ticking. The first tick applies catch-up for runs missed while the runner was down.
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.emit('started');
+
+    this.tickTimer = setInterval(() => {
+      this.tick().catch(error => {
+        log.sys.error('Schedule tick error', { error: error instanceof Error ? error.message : String(error) });
+      });
+    }, this.tickIntervalMs);
+
+    await this.tick();
+  }
+
+  /**
+   * Stop ticking
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.emit('stopped');
+  }
+
+  /**
+   * Process every due schedule once
+   * @returns run records written by this tick
+   */
+  async tick(): Promise<ScheduleRunRecord[]> {
+    if (this.ticking) {
+      return [];
+    }
+    this.ticking = true;
+    try {
+      const now = this.now();
+      const records: ScheduleRunRecord[] = [];
+      for (const schedule of await this.store.list()) {
+        if (!schedule.enabled || !schedule.next_run_at || new Date(schedule.next_run_at) > now) {
+          continue;
+        }
+        try {
+          records.push(...(await this.processDueSchedule(schedule, now)));
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          log.sys.error('Schedule processing failed', { scheduleId: schedule.schedule_id, error: err.message });
+          this.emit('error', schedule, err);
+        }
+      }
+      return records;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Enqueue a schedule immediately ("run now"). Does not move next_run_at.
+   * @returns run record, or null if the schedule does not exist
+   */
+  async runNow(scheduleId: string): Promise<ScheduleRunRecord | null> {
+    const schedule = await this.store.get(scheduleId);
+    if (!schedule) {
+      return null;
+    }
+    const now = this.now();
+    const record = await this.fire(schedule, now, now, { catchUp: false, manual: true });
+    await this.store.recordRuns(schedule.schedule_id, [record]);
+    return record;
+  }
+
+  /**
+   * Fire the due slots of one schedule according to its catch_up policy
+   */
+  private async processDueSchedule(schedule: ScheduleDefinition, now: Date): Promise<ScheduleRunRecord[]> {
+    const parsed = parseCronExpression(schedule.cron);
+    const cutoff = now.getTime() - this.graceMs;
+
+    // Walk due slots, keeping only the most recent missed ones that catch-up could use
+    const onTime: Date[] = [];
+    const recentMissed: Date[] = [];
+    let firstMissed: Date | null = null;
+    let missedCount = 0;
+    let slot: Date | null = new Date(schedule.next_run_at!);
+    for (let scanned = 0; slot && slot <= now && scanned < MAX_SLOTS_SCANNED; scanned++) {
+      if (slot.getTime() >= cutoff) {
+        onTime.push(slot);
+      } else {
+        firstMissed = firstMissed ?? slot;
+        missedCount++;
+        recentMissed.push(slot);
+        if (recentMissed.length > this.maxCatchUpRuns) {
+          recentMissed.shift();
+        }
+      }
+      slot = getNextCronRun(parsed, slot);
+    }
+
+    let catchUp: Date[] = [];
+    if (schedule.catch_up === 'once') {
+      catchUp = recentMissed.slice(-1);
+    } else if (schedule.catch_up === 'all') {
+      catchUp = recentMissed;
+    }
+
+    const records: ScheduleRunRecord[] = [];
+    const skipped = missedCount - catchUp.length;
+    if (skipped > 0 && firstMissed) {
+      records.push({
+        schedule_id: schedule.schedule_id,
+        scheduled_for: firstMissed.toISOString(),
+        fired_at: now.toISOString(),
+        outcome: 'SKIPPED',
+        catch_up: true,
+        skipped_count: skipped,
+      });
+      log.sys.warn('Missed schedule runs skipped', { scheduleId: schedule.schedule_id, skipped, policy: schedule.catch_up });
+    }
+    for (const due of catchUp) {
+      records.push(await this.fire(schedule, due, now, { catchUp: true }));
+    }
+    for (const due of onTime) {
+      records.push(await this.fire(schedule, due, now, { catchUp: false }));
+    }
+
+    await this.store.recordRuns(schedule.schedule_id, records, computeNextRunAt(schedule, now));
+    return records;
+  }
+
+  /**
+   * Enqueue one task for a schedule slot
+   */
+  private async fire(
+    schedule: ScheduleDefinition,
+    scheduledFor: Date,
+    now: Date,
+    options: { catchUp: boolean; manual?: boolean }
+  ): Promise<ScheduleRunRecord> {
+    const taskGroupId = getScheduleTaskGroupId(schedule);
+    const base = {
+      schedule_id: schedule.schedule_id,
+      scheduled_for: scheduledFor.toISOString(),
+      fired_at: now.toISOString(),
+      catch_up: options.catchUp,
+      ...(options.manual ? { manual: true } : {}),
+      task_group_id: taskGroupId,
+    };
+
+    try {
+      const prompt = buildSchedulePrompt(schedule, await this.resolveTemplate(schedule));
+      const taskType = schedule.task_type || detectTaskType(prompt);
+      const item = await this.queueStore.enqueue(
+        this.sessionId,
+        taskGroupId,
+        prompt,
+        undefined,
+        taskType,
+        schedule.project_path
+      );
+      const record: ScheduleRunRecord = { ...base, outcome: 'ENQUEUED', task_id: item.task_id };
+      log.sys.info('Scheduled task enqueued', { scheduleId: schedule.schedule_id, taskId: item.task_id, catchUp: options.catchUp });
+      this.emit('fired', record);
+      return record;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.sys.error('Scheduled task enqueue failed', { scheduleId: schedule.schedule_id, error: message });
+      return { ...base, outcome: 'ERROR', error: message };
+    }
+  }
+
+  /**
+   * Load the schedule's template (fail-closed when it cannot be resolved)
+   */
+  private async resolveTemplate(schedule: ScheduleDefinition): Promise<Template | null> {
+    if (!schedule.template_id) {
+      return null;
+    }
+    if (!this.templateStore) {
+      throw new Error(`Template store not configured (template_id: ${schedule.template_id})`);
+    }
+    await this.templateStore.initialize();
+    const template = this.templateStore.get(schedule.template_id) ?? this.templateStore.getByName(schedule.template_id);
+    if (!template) {
+      throw new Error(`Template not found: ${schedule.template_id}`);
+    }
+    return template;
+  }
+}
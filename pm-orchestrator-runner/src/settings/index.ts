@@ -22,6 +22,7 @@ export {
   // Functions
   generateProjectHash,
   getDefaultStorageDir,
+  loadProjectQualityCriteria,
 
   // Class
   ProjectSettingsStore,
@@ -7,6 +7,7 @@
  * - Template selection and enabled state
  * - LLM provider and model selection
  * - User preferences
+ * - Project-defined Review Loop criteria
  * - Automatic restoration on startup
  */
 
@@ -16,6 +17,11 @@ import * as crypto from 'crypto';
 import * as os from 'os';
 import { match } from 'ts-pattern';
 import { log } from '../logging/app-logger';
+import {
+  validateCustomCriteria,
+  CustomCriteriaValidationError,
+  type CustomCriterionDefinition,
+} from '../review-loop/custom-criteria';
 
 // ============================================================================
 // Types and Interfaces (Section 2.1)
@@ -46,6 +52,9 @@ export interface ProjectSettings {
     costWarningThreshold: number;
   };
 
+  /** Project-defined Review Loop criteria (spec 25_REVIEW_LOOP.md Section 12) */
+  qualityCriteria?: CustomCriterionDefinition[];
+
   createdAt: string;
   updatedAt: string;
   lastAccessedAt: string;
@@ -162,6 +171,35 @@ export function generateProjectHash(projectPath: string): string {
   return hash.substring(0, 16);
 }
 
+/**
+ * Load the Review Loop criteria of a project without touching the settings files
+ *
+ * Invalid definitions are skipped with a warning; a missing or corrupted
+ * settings file yields no criteria.
+ */
+export function loadProjectQualityCriteria(
+  projectPath: string,
+  storageDir: string = DEFAULT_STORE_CONFIG.storageDir
+): CustomCriterionDefinition[] {
+  const settingsPath = path.join(storageDir, `${generateProjectHash(projectPath)}.json`);
+  let criteria: unknown;
+  try {
+    if (!fs.existsSync(settingsPath)) return [];
+    criteria = (JSON.parse(fs.readFileSync(settingsPath, 'utf-8')) as Partial<ProjectSettings>).qualityCriteria;
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(criteria)) return [];
+
+  return criteria.filter((def, i) => {
+    const errors = validateCustomCriteria([def]);
+    if (errors.length > 0) {
+      log.sys.warn('Skipping invalid quality criterion', { index: i, errors });
+    }
+    return errors.length === 0;
+  }) as CustomCriterionDefinition[];
+}
+
 /**
  * Get default storage directory
  */
@@ -420,6 +458,19 @@ export class ProjectSettingsStore {
     });
   }
 
+  /**
+   * Replace the project-defined Review Loop criteria
+   *
+   * @throws CustomCriteriaValidationError if a definition is invalid
+   */
+  async setQualityCriteria(criteria: CustomCriterionDefinition[]): Promise<void> {
+    const errors = validateCustomCriteria(criteria);
+    if (errors.length > 0) {
+      throw new CustomCriteriaValidationError(errors);
+    }
+    await this.update({ qualityCriteria: criteria });
+  }
+
   /**
    * Set a preference value
    */
@@ -0,0 +1,18 @@
+/**
+ * Storage Module Exports
+ *
+ * Per spec/20_QUEUE_STORE.md (SQLite ストア)
+ */
+
+export {
+  type SQLiteDatabase,
+  SQLITE_DB_FILENAME,
+  getSqliteDbPath,
+  openSqliteDatabase,
+} from './sqlite-db';
+
+export {
+  type SqliteMigrationOptions,
+  type SqliteMigrationReport,
+  migrateFileStateToSqlite,
+} from './sqlite-migration';
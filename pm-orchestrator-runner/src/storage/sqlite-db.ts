@@ -0,0 +1,65 @@
+/**
+ * SQLite database helper (single-machine deployments)
+ * Per spec/20_QUEUE_STORE.md (SQLite ストア)
+ *
+ * The queue store and the DAL share one database file in stateDir.
+ * Each opens its own connection; WAL mode lets the Web server and a
+ * separate `pm agent` process read while the other writes.
+ *
+ * better-sqlite3 is a native module, so it is loaded on first open:
+ * the other store modes keep working where it failed to build.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+
+/** Database file name inside stateDir */
+export const SQLITE_DB_FILENAME = 'pm-runner.sqlite';
+
+/** How long a writer waits for another process's lock before failing */
+const BUSY_TIMEOUT_MS = 5000;
+
+export type SQLiteDatabase = Database.Database;
+
+let sqliteModule: typeof Database | null = null;
+
+/**
+ * Load better-sqlite3 (cached after the first call)
+ */
+function loadSqliteModule(): typeof Database {
+  if (!sqliteModule) {
+    try {
+      sqliteModule = require('better-sqlite3') as typeof Database;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `SQLite store unavailable: better-sqlite3 could not be loaded (${message}). ` +
+        'Install it with "npm install better-sqlite3" or choose another queue store.'
+      );
+    }
+  }
+  return sqliteModule;
+}
+
+/**
+ * Default database path for a state directory
+ */
+export function getSqliteDbPath(stateDir: string): string {
+  return path.join(stateDir, SQLITE_DB_FILENAME);
+}
+
+/**
+ * Open (creating if needed) a database file with the runner's pragmas
+ */
+export function openSqliteDatabase(dbPath: string): SQLiteDatabase {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+  const SqliteDatabase = loadSqliteModule();
+  const db = new SqliteDatabase(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  db.pragma('synchronous = NORMAL');
+  return db;
+}
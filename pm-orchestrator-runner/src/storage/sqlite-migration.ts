@@ -0,0 +1,139 @@
+/**
+ * File -> SQLite migration (`pm migrate-store`)
+ * Per spec/20_QUEUE_STORE.md (SQLite ストア)
+ *
+ * One-shot import of the state written by FileQueueStore ({stateDir}/queue/*.json)
+ * and the NoDynamo DAL ({stateDir}/projects, sessions, runs, events, ...) into
+ * {stateDir}/pm-runner.sqlite. Source files are only read, never modified.
+ * Rows that already exist in SQLite are kept, so re-running is safe.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { QueueItem, RunnerRecord, TaskGroupStatus } from '../queue/queue-store';
+import { SQLiteQueueStore } from '../queue/sqlite-queue-store';
+import { NoDynamoDALWithConversations } from '../web/dal/no-dynamo';
+import type { ConversationMessage } from '../web/dal/types';
+import { SQLiteDAL, SQLiteEntityKind } from '../web/dal/sqlite-dal';
+import { getSqliteDbPath } from './sqlite-db';
+
+export interface SqliteMigrationOptions {
+  /** State directory holding the file-based state (and the target database) */
+  stateDir: string;
+  /** Organization whose projects / activity are imported (default: 'default') */
+  orgId?: string;
+  /** Explicit database path (default: {stateDir}/pm-runner.sqlite) */
+  dbPath?: string;
+}
+
+export interface SqliteMigrationReport {
+  dbPath: string;
+  queue: {
+    /** Tasks inserted (all namespaces) */
+    tasks: number;
+    /** Tasks already present in SQLite (left untouched) */
+    skippedTasks: number;
+    runners: number;
+    groupStatuses: number;
+  };
+  /** Records inserted per DAL entity kind */
+  dal: Record<SQLiteEntityKind, number>;
+}
+
+function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Import FileQueueStore state (every namespace in tasks.json / runners.json)
+ */
+async function migrateQueue(stateDir: string, dbPath: string): Promise<SqliteMigrationReport['queue']> {
+  const queueDir = path.join(stateDir, 'queue');
+  const tasks = readJsonFile<{ tasks?: Record<string, QueueItem> }>(path.join(queueDir, 'tasks.json'), {}).tasks ?? {};
+  const runners = readJsonFile<Record<string, RunnerRecord>>(path.join(queueDir, 'runners.json'), {});
+  const archivedGroups = readJsonFile<string[]>(path.join(queueDir, 'archived-groups.json'), []);
+  const overrides = readJsonFile<Record<string, TaskGroupStatus>>(path.join(queueDir, 'group-status-overrides.json'), {});
+
+  const report = { tasks: 0, skippedTasks: 0, runners: 0, groupStatuses: 0 };
+  const store = new SQLiteQueueStore({ namespace: 'default', stateDir, dbPath });
+  try {
+    const namespaces = new Set<string>();
+    for (const item of Object.values(tasks)) {
+      namespaces.add(item.namespace);
+      if (await store.importItem(item)) {
+        report.tasks++;
+      } else {
+        report.skippedTasks++;
+      }
+    }
+    for (const runner of Object.values(runners)) {
+      if (store.importRunner(runner)) {
+        report.runners++;
+      }
+    }
+
+    // Group overrides are not namespaced in the file store: apply them wherever the group exists
+    const groupStatuses: Record<string, TaskGroupStatus> = {};
+    for (const id of archivedGroups) {
+      groupStatuses[id] = 'archived';
+    }
+    Object.assign(groupStatuses, overrides);
+    for (const [taskGroupId, status] of Object.entries(groupStatuses)) {
+      for (const ns of namespaces) {
+        if (await store.setTaskGroupStatus(taskGroupId, status, ns)) {
+          report.groupStatuses++;
+        }
+      }
+    }
+  } finally {
+    store.destroy();
+  }
+  return report;
+}
+
+/**
+ * Import NoDynamo DAL state. PR review state is not copied: SQLiteDAL keeps
+ * reading it from the same files.
+ */
+async function migrateDal(stateDir: string, orgId: string, dbPath: string): Promise<SqliteMigrationReport['dal']> {
+  const source = new NoDynamoDALWithConversations({ stateDir, orgId });
+  const target = new SQLiteDAL({ stateDir, orgId, dbPath });
+  try {
+    const conversationsDir = path.join(stateDir, 'conversations');
+    const conversationProjects = fs.existsSync(conversationsDir)
+      ? fs.readdirSync(conversationsDir).filter(f => f.endsWith('.jsonl')).map(f => f.slice(0, -'.jsonl'.length))
+      : [];
+    const conversations: ConversationMessage[] = [];
+    for (const projectId of conversationProjects) {
+      conversations.push(...await source.listConversationMessages(projectId));
+    }
+
+    const all = { includeArchived: true, orgId, limit: Number.MAX_SAFE_INTEGER };
+    return {
+      project: target.importRecords('project', (await source.listProjectIndexes(all)).items),
+      session: target.importRecords('session', await source.listSessions()),
+      run: target.importRecords('run', await source.listRuns()),
+      event: target.importRecords('event', await source.listEvents()),
+      activity: target.importRecords('activity', (await source.listActivityEvents(all)).items),
+      packet: target.importRecords('packet', await source.listInspectionPackets()),
+      plan: target.importRecords('plan', await source.listPlans()),
+      conversation: target.importRecords('conversation', conversations),
+      plugin: target.importRecords('plugin', await source.listPlugins()),
+    };
+  } finally {
+    target.close();
+  }
+}
+
+/**
+ * Import file-queue and NoDynamo state into the SQLite database
+ */
+export async function migrateFileStateToSqlite(options: SqliteMigrationOptions): Promise<SqliteMigrationReport> {
+  const dbPath = options.dbPath ?? getSqliteDbPath(options.stateDir);
+  const queue = await migrateQueue(options.stateDir, dbPath);
+  const dal = await migrateDal(options.stateDir, options.orgId || 'default', dbPath);
+  return { dbPath, queue, dal };
+}
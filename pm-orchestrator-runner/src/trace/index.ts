@@ -4,6 +4,7 @@
  * Exports:
  * - TracePack: Session/task state transition logging (per spec/10_TRACE_PACK.md)
  * - ConversationTracer: LLM round-trip logging (per spec/28_CONVERSATION_TRACE.md)
+ * - Trace replay: Re-judge recorded stream traces (per spec/44_TRACE_REPLAY.md)
  */
 
 export {
@@ -26,3 +27,14 @@ export {
   ConversationTraceVerifyResult,
   verifyConversationTrace,
 } from './conversation-tracer';
+
+export {
+  ReplayVerdicts,
+  TaskReplayResult,
+  TraceReplayReport,
+  TraceReplayOptions,
+  readRecordedVerdicts,
+  diffVerdicts,
+  replayTraceDir,
+  formatReplayReport,
+} from './trace-replay';
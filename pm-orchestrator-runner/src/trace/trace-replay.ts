@@ -0,0 +1,326 @@
+/**
+ * Trace Replay - Re-judges recorded runs with the current pipeline
+ * Per spec/44_TRACE_REPLAY.md
+ *
+ * For every stream-<task_id>.jsonl in a trace directory:
+ * - Feeds the recorded runs through ReplayExecutor wrapped by
+ *   TaskChunkingExecutorWrapper and ReviewLoopExecutorWrapper
+ * - Runs QuestionDetector on the final output
+ * - Compares executor statuses, review judgments, chunking and the final
+ *   verdict with the recorded conversation-<task_id>-*.jsonl (if any)
+ *
+ * Used by `pm replay <trace-dir>` to check prompt/parser/judgment changes
+ * against real runs without spawning Claude Code.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReplayExecutor, parseStreamTrace, type RecordedRun } from '../executor/replay-executor';
+import type { IExecutor, ExecutorTask, ExecutorResult } from '../executor/claude-code-executor';
+import {
+  TaskChunkingExecutorWrapper,
+  DEFAULT_TASK_CHUNKING_CONFIG,
+} from '../task-chunking/task-chunking';
+import { ReviewLoopExecutorWrapper, type ReviewLoopConfig } from '../review-loop/review-loop';
+import { detectQuestions } from '../utils/question-detector';
+import { detectTaskType } from '../utils/task-type-detector';
+import type { ConversationTraceEntry } from './conversation-tracer';
+
+const STREAM_TRACE_PATTERN = /^stream-(.+)\.jsonl$/;
+
+/**
+ * Verdicts of one task run, in ConversationTracer terms
+ */
+export interface ReplayVerdicts {
+  /** Executor status per review iteration (LLM_RESPONSE) */
+  executor_statuses: string[];
+  /** Review judgment per iteration (QUALITY_JUDGMENT): PASS | REJECT | RETRY */
+  judgments: string[];
+  /** FINAL_SUMMARY status: PASS | ESCALATE | ERROR */
+  final_status?: string;
+  /** Subtasks planned by task chunking (0 = not chunked) */
+  subtask_count: number;
+}
+
+export interface TaskReplayResult {
+  task_id: string;
+  /** Runs recorded in the stream trace */
+  runs: number;
+  /** Executor calls made by the replay */
+  executor_calls: number;
+  task_type: string;
+  /** From the latest conversation trace; null when there is none */
+  recorded: ReplayVerdicts | null;
+  replayed: ReplayVerdicts & {
+    /** QuestionDetector verdict on the final output */
+    has_questions: boolean;
+    question_confidence: number;
+  };
+  /** Human-readable differences (empty when the verdicts match) */
+  differences: string[];
+  /** Set when the trace could not be replayed */
+  error?: string;
+}
+
+export interface TraceReplayReport {
+  trace_dir: string;
+  tasks: TaskReplayResult[];
+  /** Tasks with differences or errors */
+  changed: number;
+}
+
+export interface TraceReplayOptions {
+  /** Only replay this task */
+  taskId?: string;
+  /**
+   * Review loop overrides (retry delay is always 0).
+   * Without custom_criteria, the criteria and results recorded in the trace are used;
+   * given criteria are evaluated against the working directory instead.
+   */
+  reviewLoop?: Partial<ReviewLoopConfig>;
+  /**
+   * Executor cwd of the recorded runs (used to make file paths relative).
+   * Default: the project root for {project}/.claude/state/traces, otherwise traceDir.
+   */
+  workingDir?: string;
+}
+
+/**
+ * Project root for a {project}/.claude/state/traces directory, else the directory itself
+ */
+function defaultWorkingDir(traceDir: string): string {
+  const parts = path.resolve(traceDir).split(path.sep);
+  if (parts.slice(-3).join('/') === '.claude/state/traces') {
+    return parts.slice(0, -3).join(path.sep) || path.sep;
+  }
+  return path.resolve(traceDir);
+}
+
+/**
+ * Read the verdicts of the latest conversation trace of a task
+ */
+export function readRecordedVerdicts(traceDir: string, taskId: string): ReplayVerdicts | null {
+  const prefix = `conversation-${taskId}-`;
+  const files = fs.readdirSync(traceDir)
+    .filter(file => file.startsWith(prefix) && file.endsWith('.jsonl'))
+    .sort();
+  if (files.length === 0) {
+    return null;
+  }
+
+  const verdicts: ReplayVerdicts = { executor_statuses: [], judgments: [], subtask_count: 0 };
+  const content = fs.readFileSync(path.join(traceDir, files[files.length - 1]), 'utf-8');
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    let entry: ConversationTraceEntry;
+    try {
+      entry = JSON.parse(line) as ConversationTraceEntry;
+    } catch {
+      continue;
+    }
+    // Subtask-level entries are not review iterations
+    if (entry.subtask_id) continue;
+    const data = entry.data ?? {};
+    switch (entry.event) {
+      case 'LLM_RESPONSE':
+        verdicts.executor_statuses.push(String(data.status));
+        break;
+      case 'QUALITY_JUDGMENT':
+        verdicts.judgments.push(String(data.judgment));
+        break;
+      case 'FINAL_SUMMARY':
+        verdicts.final_status = String(data.status);
+        break;
+      case 'CHUNKING_PLAN':
+        verdicts.subtask_count = Array.isArray(data.subtasks) ? data.subtasks.length : 0;
+        break;
+    }
+  }
+  return verdicts;
+}
+
+/**
+ * List differences between recorded and replayed verdicts
+ */
+export function diffVerdicts(recorded: ReplayVerdicts, replayed: ReplayVerdicts): string[] {
+  const differences: string[] = [];
+  if (recorded.final_status !== replayed.final_status) {
+    differences.push(`final: ${recorded.final_status ?? '-'} -> ${replayed.final_status ?? '-'}`);
+  }
+  if (recorded.subtask_count !== replayed.subtask_count) {
+    differences.push(`subtasks: ${recorded.subtask_count} -> ${replayed.subtask_count}`);
+  }
+  const iterations = Math.max(recorded.judgments.length, replayed.judgments.length);
+  for (let i = 0; i < iterations; i++) {
+    const before = `${recorded.executor_statuses[i] ?? '-'}/${recorded.judgments[i] ?? '-'}`;
+    const after = `${replayed.executor_statuses[i] ?? '-'}/${replayed.judgments[i] ?? '-'}`;
+    if (before !== after) {
+      differences.push(`iteration ${i + 1} (status/judgment): ${before} -> ${after}`);
+    }
+  }
+  return differences;
+}
+
+/**
+ * Review loop settings that judge project-defined criteria as they were judged
+ * when the task ran: the criteria recorded in the trace, and each run's recorded
+ * results (none for runs the runner did not evaluate)
+ */
+function recordedCustomCriteria(
+  runs: RecordedRun[],
+  recordedResults: WeakMap<ExecutorResult, RecordedRun>
+): Partial<ReviewLoopConfig> {
+  const criteria = runs.find(run => run.custom_criteria)?.custom_criteria?.criteria ?? [];
+  return {
+    custom_criteria: criteria,
+    recorded_custom_results: result => recordedResults.get(result)?.custom_criteria?.results ?? [],
+  };
+}
+
+/**
+ * Replay one stream trace through task chunking, the review loop and QuestionDetector
+ */
+async function replayTask(
+  traceDir: string,
+  taskId: string,
+  workingDir: string,
+  reviewLoop: Partial<ReviewLoopConfig>
+): Promise<TaskReplayResult> {
+  const runs = parseStreamTrace(fs.readFileSync(path.join(traceDir, `stream-${taskId}.jsonl`), 'utf-8'), workingDir);
+  const prompt = runs[0]?.prompt ?? '';
+  const taskType = detectTaskType(prompt);
+  const recorded = readRecordedVerdicts(traceDir, taskId);
+  const replayed: TaskReplayResult['replayed'] = {
+    executor_statuses: [],
+    judgments: [],
+    subtask_count: 0,
+    has_questions: false,
+    question_confidence: 0,
+  };
+  const result: TaskReplayResult = {
+    task_id: taskId,
+    runs: runs.length,
+    executor_calls: 0,
+    task_type: taskType,
+    recorded,
+    replayed,
+    differences: [],
+  };
+
+  if (runs.length === 0) {
+    result.error = 'No events in stream trace';
+    result.differences.push(result.error);
+    return result;
+  }
+
+  const replayExecutor = new ReplayExecutor(runs);
+  const chunking = new TaskChunkingExecutorWrapper(
+    replayExecutor,
+    { retry: { ...DEFAULT_TASK_CHUNKING_CONFIG.retry, retry_delay_ms: 0 } },
+    (eventType, content) => {
+      if (eventType === 'CHUNKING_ANALYSIS' && content.is_decomposable === true) {
+        replayed.subtask_count = Number(content.subtask_count) || 0;
+      }
+    }
+  );
+  // Record the per-iteration executor status the way the tracer's LLM_RESPONSE does,
+  // and which recorded run each result came from
+  const recordedResults = new WeakMap<ExecutorResult, RecordedRun>();
+  const recorder: IExecutor = {
+    isClaudeCodeAvailable: () => chunking.isClaudeCodeAvailable(),
+    checkAuthStatus: () => chunking.checkAuthStatus(),
+    execute: async (task: ExecutorTask) => {
+      const executorResult = await chunking.execute(task);
+      replayed.executor_statuses.push(executorResult.status);
+      recordedResults.set(executorResult, runs[Math.min(replayExecutor.getCallCount(), runs.length) - 1]);
+      return executorResult;
+    },
+  };
+  const review = new ReviewLoopExecutorWrapper(recorder, {
+    ...reviewLoop,
+    ...(reviewLoop.custom_criteria ? {} : recordedCustomCriteria(runs, recordedResults)),
+    retry_delay_ms: 0,
+  });
+
+  try {
+    const loopResult = await review.executeWithReview({
+      id: taskId,
+      prompt,
+      workingDir,
+      taskType,
+    });
+    replayed.judgments = loopResult.iteration_history.map(record => record.judgment);
+    replayed.final_status = loopResult.final_status === 'COMPLETE'
+      ? 'PASS'
+      : loopResult.final_status === 'INCOMPLETE' ? 'ESCALATE' : 'ERROR';
+    const questions = detectQuestions(loopResult.final_output?.output ?? '');
+    replayed.has_questions = questions.hasQuestions;
+    replayed.question_confidence = questions.confidence;
+  } catch (error) {
+    result.error = (error as Error).message;
+    result.differences.push(`replay failed: ${result.error}`);
+  }
+
+  result.executor_calls = replayExecutor.getCallCount();
+  if (recorded && !result.error) {
+    result.differences = diffVerdicts(recorded, replayed);
+  }
+  return result;
+}
+
+/**
+ * Replay every stream trace in a directory
+ * @throws Error if the directory does not exist or has no matching stream trace
+ */
+export async function replayTraceDir(traceDir: string, options: TraceReplayOptions = {}): Promise<TraceReplayReport> {
+  if (!fs.existsSync(traceDir) || !fs.statSync(traceDir).isDirectory()) {
+    throw new Error(`Trace directory not found: ${traceDir}`);
+  }
+  const taskIds = fs.readdirSync(traceDir)
+    .map(file => STREAM_TRACE_PATTERN.exec(file)?.[1])
+    .filter((taskId): taskId is string => !!taskId && (!options.taskId || taskId === options.taskId))
+    .sort();
+  if (taskIds.length === 0) {
+    throw new Error(options.taskId
+      ? `No stream trace for task ${options.taskId} in ${traceDir}`
+      : `No stream-<task_id>.jsonl files in ${traceDir}`);
+  }
+
+  const workingDir = options.workingDir ?? defaultWorkingDir(traceDir);
+  const reviewLoop: Partial<ReviewLoopConfig> = { ...options.reviewLoop };
+  const tasks: TaskReplayResult[] = [];
+  for (const taskId of taskIds) {
+    tasks.push(await replayTask(traceDir, taskId, workingDir, reviewLoop));
+  }
+
+  return {
+    trace_dir: traceDir,
+    tasks,
+    changed: tasks.filter(task => task.differences.length > 0).length,
+  };
+}
+
+/**
+ * Format a replay report for the terminal
+ */
+export function formatReplayReport(report: TraceReplayReport): string {
+  const lines: string[] = [`Replay: ${report.trace_dir}`, ''];
+  for (const task of report.tasks) {
+    const replayed = task.replayed;
+    const marker = task.differences.length > 0 ? 'CHANGED' : task.recorded ? 'SAME' : 'NO RECORD';
+    lines.push(`[${marker}] ${task.task_id} (${task.task_type}, ${task.runs} run(s), ${task.executor_calls} call(s))`);
+    lines.push(`  replayed: ${replayed.final_status ?? '-'} judgments=[${replayed.judgments.join(', ')}]` +
+      `${replayed.subtask_count > 0 ? ` subtasks=${replayed.subtask_count}` : ''}` +
+      `${replayed.has_questions ? ` questions(confidence=${replayed.question_confidence})` : ''}`);
+    if (task.recorded) {
+      lines.push(`  recorded: ${task.recorded.final_status ?? '-'} judgments=[${task.recorded.judgments.join(', ')}]` +
+        `${task.recorded.subtask_count > 0 ? ` subtasks=${task.recorded.subtask_count}` : ''}`);
+    }
+    for (const difference of task.differences) {
+      lines.push(`  - ${difference}`);
+    }
+  }
+  lines.push('');
+  lines.push(`${report.tasks.length} task(s), ${report.changed} changed`);
+  return lines.join('\n');
+}
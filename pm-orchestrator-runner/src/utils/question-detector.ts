@@ -7,6 +7,7 @@
  * - AWAITING_RESPONSE: Contains questions requiring user input
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { log } from '../logging/app-logger';
 
 /**
@@ -21,20 +22,68 @@ export interface LlmUsageInfo {
   total_tokens: number;
 }
 
-// Module-level accumulator for LLM usage in the current task.
-// Safe in single-threaded Node.js where tasks execute sequentially.
-let _pendingUsage: LlmUsageInfo[] = [];
+/**
+ * LLM usage and budget gate of one task.
+ * Tasks run concurrently (QueuePoller maxConcurrency), so both live in an
+ * AsyncLocalStorage context per task rather than in module state.
+ */
+interface LlmTaskContext {
+  usage: LlmUsageInfo[];
+  budgetGate: LlmBudgetGate | null;
+}
+
+const llmTaskContext = new AsyncLocalStorage<LlmTaskContext>();
+
+// Used outside runWithLlmTaskContext (REPL, scripts, tests)
+const defaultContext: LlmTaskContext = { usage: [], budgetGate: null };
+
+function currentContext(): LlmTaskContext {
+  return llmTaskContext.getStore() ?? defaultContext;
+}
+
+function recordUsage(usage: LlmUsageInfo): void {
+  currentContext().usage.push(usage);
+}
 
 /**
- * Retrieve and clear accumulated LLM usage data.
+ * Run a task with its own LLM usage accumulator and budget gate.
+ * Everything awaited inside fn (including LLM calls) books to this task only.
+ */
+export function runWithLlmTaskContext<T>(fn: () => Promise<T>): Promise<T> {
+  return llmTaskContext.run({ usage: [], budgetGate: null }, fn);
+}
+
+/**
+ * Retrieve and clear accumulated LLM usage data of the current task.
  * Call this after task execution to collect all usage from LLM calls.
  */
 export function getPendingUsage(): LlmUsageInfo[] {
-  const result = [..._pendingUsage];
-  _pendingUsage = [];
+  const context = currentContext();
+  const result = [...context.usage];
+  context.usage = [];
   return result;
 }
 
+/**
+ * Accumulated LLM usage of the current task, without clearing it.
+ */
+export function peekPendingUsage(): LlmUsageInfo[] {
+  return [...currentContext().usage];
+}
+
+/**
+ * Budget check run before every LLM call (per spec/40_BUDGETS.md).
+ * Resolves false to refuse the call; callers then behave as if no provider is available.
+ */
+export type LlmBudgetGate = () => Promise<boolean>;
+
+/**
+ * Install the budget gate for the current task, or clear it with null.
+ */
+export function setLlmBudgetGate(gate: LlmBudgetGate | null): void {
+  currentContext().budgetGate = gate;
+}
+
 /**
  * Question detection result
  */
@@ -317,9 +366,19 @@ export interface LlmQuestionDetectionResult {
  * LLM provider configuration for question detection
  */
 export interface LlmProviderConfig {
-  provider?: string;  // 'openai' | 'anthropic' | auto-detect
+  provider?: string;  // 'openai' | 'anthropic' | 'openai-compatible' | auto-detect
   model?: string;     // specific model or default for provider
   apiKey?: string;    // direct API key override
+  baseUrl?: string;   // openai-compatible server URL (e.g. http://localhost:11434/v1)
+}
+
+/** Resolved provider for an internal LLM call */
+interface ResolvedProvider {
+  provider: string;
+  model: string;
+  apiKey: string;
+  /** Set for openai-compatible (OpenAI SDK baseURL) */
+  baseUrl?: string;
 }
 
 /** Default models per provider (cheapest/fastest for classification) */
@@ -364,25 +423,49 @@ Respond in this exact JSON format (no markdown):
 /**
  * Resolve which provider and API key to use.
  * Priority: explicit config > global internalLlm setting > auto-detect from available keys
+ *
+ * openai-compatible (local server) is never auto-detected: it must be selected
+ * explicitly, and its API key is optional.
+ *
+ * Returns null when the budget gate refuses the call.
  */
 async function resolveProvider(
   config?: LlmProviderConfig,
   stateDir?: string,
-): Promise<{ provider: string; model: string; apiKey: string } | null> {
+): Promise<ResolvedProvider | null> {
+  // 0. Budget caps: an exceeded, unapproved budget blocks further LLM calls for the task
+  const budgetGate = currentContext().budgetGate;
+  if (budgetGate && !(await budgetGate())) {
+    log.sys.warn('LLM call refused: budget exceeded');
+    return null;
+  }
+
   // 1. Load global config for internalLlm settings (with questionDetection fallback)
   let globalProvider: string | undefined;
   let globalModel: string | undefined;
+  let globalBaseUrl: string | undefined;
   try {
     const { loadGlobalConfig } = await import('../config/global-config');
     const gc = loadGlobalConfig();
     // Prefer internalLlm, fall back to deprecated questionDetection
     globalProvider = gc.internalLlm?.provider || gc.questionDetection?.provider;
     globalModel = gc.internalLlm?.model || gc.questionDetection?.model;
+    globalBaseUrl = gc.internalLlm?.baseUrl;
   } catch { /* ignore */ }
 
   // 2. Determine target provider
   const targetProvider = config?.provider || globalProvider; // may be undefined = auto-detect
 
+  if (targetProvider === 'openai-compatible') {
+    const { getAPIKeyFromEnv, getBaseUrlFromEnv, getDefaultModel } = await import('../mediation/llm-client');
+    return {
+      provider: targetProvider,
+      model: config?.model || globalModel || getDefaultModel('openai-compatible'),
+      apiKey: config?.apiKey || getAPIKeyFromEnv('openai-compatible'),
+      baseUrl: config?.baseUrl || globalBaseUrl || getBaseUrlFromEnv('openai-compatible'),
+    };
+  }
+
   // 3. Collect available API keys
   const keys: Record<string, string> = {};
 
@@ -437,11 +520,19 @@ async function resolveProvider(
 }
 
 /**
- * Call OpenAI API for question detection
+ * Create an OpenAI SDK client for openai / openai-compatible providers
  */
-async function callOpenAI(apiKey: string, model: string, prompt: string): Promise<LlmQuestionDetectionResult> {
+async function createOpenAIClient(resolved: ResolvedProvider) {
   const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey });
+  return new OpenAI({ apiKey: resolved.apiKey, baseURL: resolved.baseUrl });
+}
+
+/**
+ * Call OpenAI API (or an OpenAI-compatible server) for question detection
+ */
+async function callOpenAI(resolved: ResolvedProvider, prompt: string): Promise<LlmQuestionDetectionResult> {
+  const { provider, model } = resolved;
+  const client = await createOpenAIClient(resolved);
 
   const response = await client.chat.completions.create({
     model,
@@ -451,8 +542,8 @@ async function callOpenAI(apiKey: string, model: string, prompt: string): Promis
 
   // Track usage for cost calculation
   if (response.usage) {
-    _pendingUsage.push({
-      provider: 'openai',
+    recordUsage({
+      provider,
       model,
       prompt_tokens: response.usage.prompt_tokens || 0,
       completion_tokens: response.usage.completion_tokens || 0,
@@ -466,7 +557,7 @@ async function callOpenAI(apiKey: string, model: string, prompt: string): Promis
     hasQuestions: parsed.hasQuestions === true,
     questionSummary: parsed.questionSummary || '',
     reasoning: parsed.reasoning || '',
-    usedProvider: 'openai',
+    usedProvider: provider,
     usedModel: model,
   };
 }
@@ -486,7 +577,7 @@ async function callAnthropic(apiKey: string, model: string, prompt: string): Pro
 
   // Track usage for cost calculation
   if (response.usage) {
-    _pendingUsage.push({
+    recordUsage({
       provider: 'anthropic',
       model,
       prompt_tokens: response.usage.input_tokens || 0,
@@ -545,8 +636,8 @@ export async function detectQuestionsWithLlm(
     const prompt = buildDetectionPrompt(output, taskPrompt);
     log.app.info('Question detection using LLM', { provider: resolved.provider, model: resolved.model });
 
-    if (resolved.provider === 'openai') {
-      return await callOpenAI(resolved.apiKey, resolved.model, prompt);
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      return await callOpenAI(resolved, prompt);
     } else if (resolved.provider === 'anthropic') {
       return await callAnthropic(resolved.apiKey, resolved.model, prompt);
     } else {
@@ -594,7 +685,7 @@ Respond in this exact JSON format (no markdown):
  * Regex-based fallback for file change claim detection.
  * Used when LLM is not available.
  */
-function detectFileChangeClaimsRegex(assistantText: string): FileChangeClaimResult {
+export function detectFileChangeClaimsRegex(assistantText: string): FileChangeClaimResult {
   const patterns = [
     /(?:I |I've |I have )(?:created|updated|modified|written|added|edited)/i,
     /(?:file|files) (?:has|have) been (?:created|updated|modified|written)/i,
@@ -642,17 +733,16 @@ export async function detectFileChangeClaimsWithLlm(
 
     let parsed: { hasClaims: boolean; reasoning: string };
 
-    if (resolved.provider === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: resolved.apiKey });
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      const client = await createOpenAIClient(resolved);
       const response = await client.chat.completions.create({
         model: resolved.model,
         max_tokens: 200,
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
-          provider: 'openai', model: resolved.model,
+        recordUsage({
+          provider: resolved.provider, model: resolved.model,
           prompt_tokens: response.usage.prompt_tokens || 0,
           completion_tokens: response.usage.completion_tokens || 0,
           total_tokens: response.usage.total_tokens || 0,
@@ -669,7 +759,7 @@ export async function detectFileChangeClaimsWithLlm(
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
+        recordUsage({
           provider: 'anthropic', model: resolved.model,
           prompt_tokens: response.usage.input_tokens || 0,
           completion_tokens: response.usage.output_tokens || 0,
@@ -786,17 +876,16 @@ export async function tryAutoAnswerQuestion(
 
     let parsed: { canAnswer: boolean; answer: string; reasoning: string };
 
-    if (resolved.provider === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: resolved.apiKey });
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      const client = await createOpenAIClient(resolved);
       const response = await client.chat.completions.create({
         model: resolved.model,
         max_tokens: 500,
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
-          provider: 'openai', model: resolved.model,
+        recordUsage({
+          provider: resolved.provider, model: resolved.model,
           prompt_tokens: response.usage.prompt_tokens || 0,
           completion_tokens: response.usage.completion_tokens || 0,
           total_tokens: response.usage.total_tokens || 0,
@@ -813,7 +902,7 @@ export async function tryAutoAnswerQuestion(
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
+        recordUsage({
           provider: 'anthropic', model: resolved.model,
           prompt_tokens: response.usage.input_tokens || 0,
           completion_tokens: response.usage.output_tokens || 0,
@@ -966,17 +1055,16 @@ DO NOT write vague criteria like "works correctly" or "is implemented". Each cri
       splitReason?: string;
     };
 
-    if (resolved.provider === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: resolved.apiKey });
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      const client = await createOpenAIClient(resolved);
       const response = await client.chat.completions.create({
         model: resolved.model,
         max_tokens: 2000,
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
-          provider: 'openai', model: resolved.model,
+        recordUsage({
+          provider: resolved.provider, model: resolved.model,
           prompt_tokens: response.usage.prompt_tokens || 0,
           completion_tokens: response.usage.completion_tokens || 0,
           total_tokens: response.usage.total_tokens || 0,
@@ -993,7 +1081,7 @@ DO NOT write vague criteria like "works correctly" or "is implemented". Each cri
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
+        recordUsage({
           provider: 'anthropic', model: resolved.model,
           prompt_tokens: response.usage.input_tokens || 0,
           completion_tokens: response.usage.output_tokens || 0,
@@ -1106,17 +1194,16 @@ Respond in this exact JSON format (no markdown):
 
     let parsed: { passed: boolean; issues: string[]; reworkInstructions: string };
 
-    if (resolved.provider === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: resolved.apiKey });
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      const client = await createOpenAIClient(resolved);
       const response = await client.chat.completions.create({
         model: resolved.model,
         max_tokens: 500,
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
-          provider: 'openai', model: resolved.model,
+        recordUsage({
+          provider: resolved.provider, model: resolved.model,
           prompt_tokens: response.usage.prompt_tokens || 0,
           completion_tokens: response.usage.completion_tokens || 0,
           total_tokens: response.usage.total_tokens || 0,
@@ -1133,7 +1220,7 @@ Respond in this exact JSON format (no markdown):
         messages: [{ role: 'user', content: prompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
+        recordUsage({
           provider: 'anthropic', model: resolved.model,
           prompt_tokens: response.usage.input_tokens || 0,
           completion_tokens: response.usage.output_tokens || 0,
@@ -1249,9 +1336,8 @@ export async function verifyClaimsWithLlm(
 
     let parsed: { claims: Array<{ claim: string; reason: string }> };
 
-    if (resolved.provider === 'openai') {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: resolved.apiKey });
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      const client = await createOpenAIClient(resolved);
       const response = await client.chat.completions.create({
         model: resolved.model,
         max_tokens: 512,
@@ -1262,8 +1348,8 @@ export async function verifyClaimsWithLlm(
         ],
       });
       if (response.usage) {
-        _pendingUsage.push({
-          provider: 'openai', model: resolved.model,
+        recordUsage({
+          provider: resolved.provider, model: resolved.model,
           prompt_tokens: response.usage.prompt_tokens || 0,
           completion_tokens: response.usage.completion_tokens || 0,
           total_tokens: response.usage.total_tokens || 0,
@@ -1283,7 +1369,7 @@ export async function verifyClaimsWithLlm(
         messages: [{ role: 'user', content: userPrompt }],
       });
       if (response.usage) {
-        _pendingUsage.push({
+        recordUsage({
           provider: 'anthropic', model: resolved.model,
           prompt_tokens: response.usage.input_tokens || 0,
           completion_tokens: response.usage.output_tokens || 0,
@@ -1367,3 +1453,119 @@ export function detectRedOperation(output: string): RedOperationDetectionResult
 
   return { detected: operations.length > 0, operations };
 }
+
+// ============================================================
+// YELLOW Blast Radius Tool Call Judgment
+// ============================================================
+
+/**
+ * Result of judging a YELLOW tool call
+ */
+export interface ToolCallJudgment {
+  /** Whether the tool call may run */
+  allow: boolean;
+  /** Brief explanation (shown to Claude Code when denied) */
+  reasoning: string;
+  /** Provider that made the decision (undefined when none was available) */
+  usedProvider?: string;
+}
+
+function buildToolCallJudgmentPrompt(tool: string, target: string, originalPrompt: string): string {
+  return `You are the safety mediator for an AI coding agent working in a user's project.
+
+The agent wants to run a tool call classified as YELLOW (notable, but within project scope).
+
+User's original task:
+"""
+${originalPrompt.substring(0, 2000)}
+"""
+
+Tool call:
+- Tool: ${tool}
+- ${tool === 'Bash' ? 'Command' : 'File'}: ${target.substring(0, 1000)}
+
+Allow the call when the user's task plausibly needs it.
+Deny it when it goes beyond the task (e.g. publishing, pushing, or changing permissions the user did not ask for).
+
+Respond in this exact JSON format (no markdown):
+{"allow":true/false,"reasoning":"brief explanation"}`;
+}
+
+/**
+ * Ask the LLM whether a YELLOW tool call may run (spec/47_BLAST_RADIUS_HOOK.md).
+ * Throws when no provider is available or the LLM call fails, so the guard
+ * can escalate the call to the user instead of allowing it.
+ *
+ * @param tool - Claude Code tool name (Bash, Edit, Write)
+ * @param target - Command or file path
+ * @param originalPrompt - The user's original prompt
+ * @param config - Optional provider config
+ * @param stateDir - Optional state directory
+ */
+export async function judgeYellowToolCall(
+  tool: string,
+  target: string,
+  originalPrompt: string,
+  config?: LlmProviderConfig,
+  stateDir?: string,
+): Promise<ToolCallJudgment> {
+  try {
+    const resolved = await resolveProvider(config, stateDir);
+    if (!resolved) {
+      throw new Error('No LLM provider available');
+    }
+
+    const prompt = buildToolCallJudgmentPrompt(tool, target, originalPrompt);
+    log.app.info('YELLOW tool call judgment using LLM', { provider: resolved.provider, model: resolved.model, tool });
+
+    let text: string;
+    if (resolved.provider === 'openai' || resolved.provider === 'openai-compatible') {
+      const client = await createOpenAIClient(resolved);
+      const response = await client.chat.completions.create({
+        model: resolved.model,
+        max_tokens: 200,
+        messages: [{ role: 'user', content: prompt }],
+      });
+      if (response.usage) {
+        recordUsage({
+          provider: resolved.provider, model: resolved.model,
+          prompt_tokens: response.usage.prompt_tokens || 0,
+          completion_tokens: response.usage.completion_tokens || 0,
+          total_tokens: response.usage.total_tokens || 0,
+        });
+      }
+      text = response.choices[0]?.message?.content || '';
+    } else if (resolved.provider === 'anthropic') {
+      const { default: Anthropic } = await import('@anthropic-ai/sdk');
+      const client = new Anthropic({ apiKey: resolved.apiKey });
+      const response = await client.messages.create({
+        model: resolved.model,
+        max_tokens: 200,
+        messages: [{ role: 'user', content: prompt }],
+      });
+      if (response.usage) {
+        recordUsage({
+          provider: 'anthropic', model: resolved.model,
+          prompt_tokens: response.usage.input_tokens || 0,
+          completion_tokens: response.usage.output_tokens || 0,
+          total_tokens: (response.usage.input_tokens || 0) + (response.usage.output_tokens || 0),
+        });
+      }
+      text = response.content[0].type === 'text' ? response.content[0].text : '';
+    } else {
+      throw new Error(`Unsupported provider: ${resolved.provider}`);
+    }
+
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    const parsed = (jsonMatch ? JSON.parse(jsonMatch[0]) : {}) as { allow?: boolean; reasoning?: string };
+    log.app.info('YELLOW tool call judgment', { tool, allow: parsed.allow !== false, reasoning: parsed.reasoning });
+    return {
+      allow: parsed.allow !== false,
+      reasoning: parsed.reasoning || '',
+      usedProvider: resolved.provider,
+    };
+  } catch (error) {
+    log.sys.warn('YELLOW tool call judgment failed', { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
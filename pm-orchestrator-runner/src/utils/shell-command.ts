@@ -0,0 +1,100 @@
+/**
+ * Shell Command Runner
+ *
+ * Runs a project-defined shell command (QA gates per spec/45_QA_GATES.md,
+ * command criteria per spec/25_REVIEW_LOOP.md Section 12) with a timeout:
+ * - The command gets its own process group, so a timeout stops its children too
+ * - On timeout the group gets SIGTERM, then SIGKILL after a grace period
+ * - If the pipes still do not close (a child left the group), the result is
+ *   returned anyway once the grace period after SIGKILL has passed
+ */
+
+import { spawn } from 'child_process';
+
+export interface ShellCommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  /** Added to process.env (FORCE_COLOR=0 is always set) */
+  env?: Record<string, string>;
+  /** Combined stdout/stderr kept, from the end */
+  maxOutputChars: number;
+  /** Wait between SIGTERM and SIGKILL (default: 5000) */
+  killGraceMs?: number;
+}
+
+export interface ShellCommandResult {
+  /** null when timed out, killed by a signal or not started */
+  exitCode: number | null;
+  /** Tail of the combined stdout/stderr */
+  output: string;
+  timedOut: boolean;
+  /** Set when the command could not be started */
+  startError?: string;
+  durationMs: number;
+}
+
+export const DEFAULT_KILL_GRACE_MS = 5000;
+
+function signalGroup(pid: number | undefined, signal: NodeJS.Signals, fallback: () => void): void {
+  try {
+    process.kill(-(pid as number), signal);
+  } catch {
+    fallback();
+  }
+}
+
+/**
+ * Run a command through the shell in `cwd`
+ */
+export function runShellCommand(command: string, options: ShellCommandOptions): Promise<ShellCommandResult> {
+  const startedAt = Date.now();
+  const graceMs = options.killGraceMs ?? DEFAULT_KILL_GRACE_MS;
+
+  return new Promise(resolve => {
+    let output = '';
+    let timedOut = false;
+    let settled = false;
+    const timers: NodeJS.Timeout[] = [];
+    const child = spawn(command, [], {
+      cwd: options.cwd,
+      shell: true,
+      detached: true,
+      env: { ...process.env, ...options.env, FORCE_COLOR: '0' },
+    });
+
+    const finish = (exitCode: number | null, startError?: string): void => {
+      if (settled) return;
+      settled = true;
+      timers.forEach(timer => clearTimeout(timer));
+      resolve({
+        exitCode: timedOut ? null : exitCode,
+        output,
+        timedOut,
+        ...(startError ? { startError } : {}),
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    timers.push(setTimeout(() => {
+      timedOut = true;
+      signalGroup(child.pid, 'SIGTERM', () => child.kill('SIGTERM'));
+      timers.push(setTimeout(() => {
+        signalGroup(child.pid, 'SIGKILL', () => child.kill('SIGKILL'));
+        timers.push(setTimeout(() => {
+          child.stdout?.destroy();
+          child.stderr?.destroy();
+          finish(null);
+        }, graceMs));
+      }, graceMs));
+    }, options.timeoutMs));
+
+    const collect = (data: Buffer): void => {
+      output = (output + data.toString()).slice(-options.maxOutputChars);
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    child.on('error', error => finish(null, error.message));
+    child.on('close', code => finish(code));
+  });
+}
@@ -13,11 +13,14 @@
 import type { IDataAccessLayer } from "./dal-interface";
 import { NoDynamoDALWithConversations } from "./no-dynamo";
 import { DynamoDAL } from "./dynamo-dal";
+import { SQLiteDAL } from "./sqlite-dal";
 import { initDocClient, resetDocClient } from "./client";
 
 export interface DALConfig {
   /** Whether to use DynamoDB for supported operations */
   useDynamoDB: boolean;
+  /** Use the SQLite DAL ({stateDir}/pm-runner.sqlite) instead of JSON files */
+  useSQLite?: boolean;
   /** State directory for file-based storage */
   stateDir: string;
   /** Organization ID */
@@ -48,6 +51,12 @@ export function initDAL(config: DALConfig): IDataAccessLayer {
       stateDir: config.stateDir,
       orgId: config.orgId,
     });
+  } else if (config.useSQLite) {
+    // SQLite DAL: single-machine deployments (shares the queue's database file)
+    globalDAL = new SQLiteDAL({
+      stateDir: config.stateDir,
+      orgId: config.orgId,
+    });
   } else {
     // File-only DAL: all operations use local JSON files
     globalDAL = new NoDynamoDALWithConversations({
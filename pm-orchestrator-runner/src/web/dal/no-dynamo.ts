@@ -168,7 +168,7 @@ export interface NoDynamoConfig {
 /**
  * Generate projectId from projectPath
  */
-function generateProjectId(projectPath: string): string {
+export function generateProjectId(projectPath: string): string {
   const hash = createHash("sha256")
     .update(projectPath)
     .digest("hex")
@@ -183,6 +183,229 @@ function nowISO(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Build a new ProjectIndex entity (shared by the file and SQLite DALs)
+ */
+export function buildProjectIndex(input: CreateProjectIndexInput): ProjectIndex {
+  const projectId = generateProjectId(input.projectPath);
+  const now = nowISO();
+
+  const project: ProjectIndex = {
+    PK: "ORG#" + input.orgId,
+    SK: "PIDX#" + projectId,
+    projectId,
+    orgId: input.orgId,
+    projectPath: input.projectPath,
+    alias: input.alias,
+    description: input.description,
+    notes: input.notes,
+    tags: input.tags || [],
+    favorite: false,
+    archived: false,
+    status: "idle",
+    lastActivityAt: now,
+    sessionCount: 0,
+    taskStats: {
+      total: 0,
+      completed: 0,
+      failed: 0,
+      running: 0,
+      awaiting: 0,
+    },
+    createdAt: now,
+    updatedAt: now,
+  } as ProjectIndex;
+
+  // Add projectType if provided
+  if (input.projectType) {
+    project.projectType = input.projectType;
+  }
+
+  // Add AI model/provider if provided
+  if (input.aiModel) {
+    project.aiModel = input.aiModel;
+  }
+  if (input.aiProvider) {
+    project.aiProvider = input.aiProvider;
+  }
+
+  return project;
+}
+
+/**
+ * Build an inspection packet for a run (shared by the file and SQLite DALs)
+ */
+export function buildInspectionPacket(
+  run: NoDynamoRun,
+  events: NoDynamoEvent[],
+  project: ProjectIndex | null,
+  generatedBy: string,
+  orgId: string
+): InspectionPacket {
+  const packetId = "pkt_" + uuidv4();
+  const now = nowISO();
+
+  const packet: InspectionPacket = {
+    packetId,
+    version: "1.0",
+    type: "task",
+    generatedAt: now,
+    runId: run.runId,
+    sessionId: run.sessionId,
+    projectId: run.projectId,
+    task: {
+      taskId: run.taskRunId,
+      title: run.summary || "Untitled Task",
+      prompt: run.prompt || "",
+      state: run.status,
+      createdAt: run.createdAt,
+      startedAt: run.startedAt,
+      endedAt: run.endedAt,
+    },
+    project: project
+      ? {
+          projectId: project.projectId,
+          name: project.alias || path.basename(project.projectPath),
+          projectPath: project.projectPath,
+        }
+      : undefined,
+    events: events.map((e) => ({
+      timestamp: e.timestamp,
+      type: e.type,
+      message: e.message,
+      actor: e.actor || "system",
+      payload: e.payload,
+    })),
+    logs: events
+      .filter((e) => e.type === "LOG_BATCH" || e.type === "PROGRESS")
+      .map((e) => ({
+        timestamp: e.timestamp,
+        stream: "stdout" as const,
+        line: e.message,
+      })),
+    meta: {
+      orgId,
+      generatedBy,
+      correlationId: events[0]?.correlationId,
+    },
+  };
+
+  return packet;
+}
+
+/**
+ * Apply ListProjectIndexOptions (org isolation, filters, sort, limit).
+ * Shared by the file and SQLite DALs.
+ */
+export function queryProjectIndexes(
+  projects: ProjectIndex[],
+  options: ListProjectIndexOptions,
+  defaultOrgId: string
+): PaginatedResult<ProjectIndex> {
+  // Apply org isolation: use options.orgId if provided, otherwise fall back to defaultOrgId
+  const effectiveOrgId = options.orgId || defaultOrgId;
+  if (effectiveOrgId) {
+    projects = projects.filter((p) => !p.orgId || p.orgId === effectiveOrgId);
+  }
+
+  // Apply filters
+  if (!options.includeArchived) {
+    projects = projects.filter((p) => !p.archived);
+  }
+  if (options.status) {
+    projects = projects.filter((p) => p.status === options.status);
+  }
+  if (options.projectStatus) {
+    projects = projects.filter((p) => (p.projectStatus || 'active') === options.projectStatus);
+  }
+  if (options.favoriteOnly) {
+    projects = projects.filter((p) => p.favorite);
+  }
+  if (options.tags && options.tags.length > 0) {
+    projects = projects.filter((p) =>
+      options.tags!.some((tag) => p.tags.includes(tag))
+    );
+  }
+  if (options.search) {
+    const q = options.search.toLowerCase();
+    projects = projects.filter((p) => {
+      const name = (p.alias || p.projectPath || '').toLowerCase();
+      const pathStr = (p.projectPath || '').toLowerCase();
+      const tagStr = (p.tags || []).join(' ').toLowerCase();
+      const descStr = (p.description || '').toLowerCase();
+      const notesStr = (p.notes || '').toLowerCase();
+      return name.includes(q) || pathStr.includes(q) || tagStr.includes(q) || descStr.includes(q) || notesStr.includes(q);
+    });
+  }
+
+  // Sort
+  const sortField = options.sortBy || 'updatedAt';
+  const sortDir = options.sortDirection || 'desc';
+  projects.sort((a, b) => {
+    // Favorites always first regardless of sort
+    if (a.favorite && !b.favorite) return -1;
+    if (!a.favorite && b.favorite) return 1;
+
+    const cmp = match(sortField)
+      .with('name', () => (a.alias || a.projectPath).localeCompare(b.alias || b.projectPath))
+      .with('createdAt', () => a.createdAt.localeCompare(b.createdAt))
+      .with('lastActivityAt', () => a.lastActivityAt.localeCompare(b.lastActivityAt))
+      .otherwise(() => a.updatedAt.localeCompare(b.updatedAt));
+    return sortDir === 'asc' ? cmp : -cmp;
+  });
+
+  // Pagination
+  const limit = options.limit || 50;
+  const items = projects.slice(0, limit);
+
+  return {
+    items,
+    nextCursor: projects.length > limit ? String(limit) : undefined,
+  };
+}
+
+/**
+ * Apply ListActivityEventsOptions (org isolation, filters, newest first, limit).
+ * Shared by the file and SQLite DALs.
+ */
+export function queryActivityEvents(
+  events: ActivityEvent[],
+  options: ListActivityEventsOptions,
+  defaultOrgId: string
+): PaginatedResult<ActivityEvent> {
+  // Apply org isolation for activity events
+  const activityOrgId = options.orgId || defaultOrgId;
+  if (activityOrgId) {
+    events = events.filter((e) => !e.orgId || e.orgId === activityOrgId);
+  }
+
+  // Apply filters
+  if (options.projectId) {
+    events = events.filter((e) => e.projectId === options.projectId);
+  }
+  if (options.types && options.types.length > 0) {
+    events = events.filter((e) => options.types!.includes(e.type));
+  }
+  if (options.importance) {
+    events = events.filter((e) => e.importance === options.importance);
+  }
+  if (options.since) {
+    events = events.filter((e) => e.timestamp >= options.since!);
+  }
+
+  // Sort by timestamp descending
+  events.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  // Pagination
+  const limit = options.limit || 50;
+  const items = events.slice(0, limit);
+
+  return {
+    items,
+    nextCursor: events.length > limit ? String(limit) : undefined,
+  };
+}
+
 /**
  * NoDynamo DAL class
  */
@@ -236,49 +459,9 @@ export class NoDynamoDAL {
   async createProjectIndex(
     input: CreateProjectIndexInput
   ): Promise<ProjectIndex> {
-    const projectId = generateProjectId(input.projectPath);
-    const now = nowISO();
+    const project = buildProjectIndex(input);
 
-    const project: ProjectIndex = {
-      PK: "ORG#" + input.orgId,
-      SK: "PIDX#" + projectId,
-      projectId,
-      orgId: input.orgId,
-      projectPath: input.projectPath,
-      alias: input.alias,
-      description: input.description,
-      notes: input.notes,
-      tags: input.tags || [],
-      favorite: false,
-      archived: false,
-      status: "idle",
-      lastActivityAt: now,
-      sessionCount: 0,
-      taskStats: {
-        total: 0,
-        completed: 0,
-        failed: 0,
-        running: 0,
-        awaiting: 0,
-      },
-      createdAt: now,
-      updatedAt: now,
-    } as ProjectIndex;
-
-    // Add projectType if provided
-    if (input.projectType) {
-      project.projectType = input.projectType;
-    }
-
-    // Add AI model/provider if provided
-    if (input.aiModel) {
-      project.aiModel = input.aiModel;
-    }
-    if (input.aiProvider) {
-      project.aiProvider = input.aiProvider;
-    }
-
-    const filePath = path.join(this.projectsDir, projectId + ".json");
+    const filePath = path.join(this.projectsDir, project.projectId + ".json");
     await fs.promises.writeFile(filePath, JSON.stringify(project, null, 2));
 
     return project;
@@ -316,7 +499,7 @@ export class NoDynamoDAL {
     options: ListProjectIndexOptions = {}
   ): Promise<PaginatedResult<ProjectIndex>> {
     const files = fs.readdirSync(this.projectsDir).filter((f) => f.endsWith(".json"));
-    let projects: ProjectIndex[] = [];
+    const projects: ProjectIndex[] = [];
 
     for (const file of files) {
       const content = await fs.promises.readFile(
@@ -326,66 +509,7 @@ export class NoDynamoDAL {
       projects.push(JSON.parse(content) as ProjectIndex);
     }
 
-    // Apply org isolation: use options.orgId if provided, otherwise fall back to this.orgId
-    const effectiveOrgId = options.orgId || this.orgId;
-    if (effectiveOrgId) {
-      projects = projects.filter((p) => !p.orgId || p.orgId === effectiveOrgId);
-    }
-
-    // Apply filters
-    if (!options.includeArchived) {
-      projects = projects.filter((p) => !p.archived);
-    }
-    if (options.status) {
-      projects = projects.filter((p) => p.status === options.status);
-    }
-    if (options.projectStatus) {
-      projects = projects.filter((p) => (p.projectStatus || 'active') === options.projectStatus);
-    }
-    if (options.favoriteOnly) {
-      projects = projects.filter((p) => p.favorite);
-    }
-    if (options.tags && options.tags.length > 0) {
-      projects = projects.filter((p) =>
-        options.tags!.some((tag) => p.tags.includes(tag))
-      );
-    }
-    if (options.search) {
-      const q = options.search.toLowerCase();
-      projects = projects.filter((p) => {
-        const name = (p.alias || p.projectPath || '').toLowerCase();
-        const pathStr = (p.projectPath || '').toLowerCase();
-        const tagStr = (p.tags || []).join(' ').toLowerCase();
-        const descStr = (p.description || '').toLowerCase();
-        const notesStr = (p.notes || '').toLowerCase();
-        return name.includes(q) || pathStr.includes(q) || tagStr.includes(q) || descStr.includes(q) || notesStr.includes(q);
-      });
-    }
-
-    // Sort
-    const sortField = options.sortBy || 'updatedAt';
-    const sortDir = options.sortDirection || 'desc';
-    projects.sort((a, b) => {
-      // Favorites always first regardless of sort
-      if (a.favorite && !b.favorite) return -1;
-      if (!a.favorite && b.favorite) return 1;
-
-      const cmp = match(sortField)
-        .with('name', () => (a.alias || a.projectPath).localeCompare(b.alias || b.projectPath))
-        .with('createdAt', () => a.createdAt.localeCompare(b.createdAt))
-        .with('lastActivityAt', () => a.lastActivityAt.localeCompare(b.lastActivityAt))
-        .otherwise(() => a.updatedAt.localeCompare(b.updatedAt));
-      return sortDir === 'asc' ? cmp : -cmp;
-    });
-
-    // Pagination
-    const limit = options.limit || 50;
-    const items = projects.slice(0, limit);
-
-    return {
-      items,
-      nextCursor: projects.length > limit ? String(limit) : undefined,
-    };
+    return queryProjectIndexes(projects, options, this.orgId);
   }
 
   /**
@@ -790,7 +914,7 @@ export class NoDynamoDAL {
       .sort()
       .reverse();
 
-    let events: ActivityEvent[] = [];
+    const events: ActivityEvent[] = [];
 
     for (const file of files) {
       const content = await fs.promises.readFile(
@@ -808,37 +932,7 @@ export class NoDynamoDAL {
       }
     }
 
-    // Apply org isolation for activity events
-    const activityOrgId = options.orgId || this.orgId;
-    if (activityOrgId) {
-      events = events.filter((e) => !e.orgId || e.orgId === activityOrgId);
-    }
-
-    // Apply filters
-    if (options.projectId) {
-      events = events.filter((e) => e.projectId === options.projectId);
-    }
-    if (options.types && options.types.length > 0) {
-      events = events.filter((e) => options.types!.includes(e.type));
-    }
-    if (options.importance) {
-      events = events.filter((e) => e.importance === options.importance);
-    }
-    if (options.since) {
-      events = events.filter((e) => e.timestamp >= options.since!);
-    }
-
-    // Sort by timestamp descending
-    events.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-
-    // Pagination
-    const limit = options.limit || 50;
-    const items = events.slice(0, limit);
-
-    return {
-      items,
-      nextCursor: events.length > limit ? String(limit) : undefined,
-    };
+    return queryActivityEvents(events, options, this.orgId);
   }
 
   // ==================== Inspection Packets ====================
@@ -861,56 +955,10 @@ export class NoDynamoDAL {
       ? await this.getProjectIndex(run.projectId)
       : null;
 
-    const packetId = "pkt_" + uuidv4();
-    const now = nowISO();
-
-    const packet: InspectionPacket = {
-      packetId,
-      version: "1.0",
-      type: "task",
-      generatedAt: now,
-      runId: run.runId,
-      sessionId: run.sessionId,
-      projectId: run.projectId,
-      task: {
-        taskId: run.taskRunId,
-        title: run.summary || "Untitled Task",
-        prompt: run.prompt || "",
-        state: run.status,
-        createdAt: run.createdAt,
-        startedAt: run.startedAt,
-        endedAt: run.endedAt,
-      },
-      project: project
-        ? {
-            projectId: project.projectId,
-            name: project.alias || path.basename(project.projectPath),
-            projectPath: project.projectPath,
-          }
-        : undefined,
-      events: events.map((e) => ({
-        timestamp: e.timestamp,
-        type: e.type,
-        message: e.message,
-        actor: e.actor || "system",
-        payload: e.payload,
-      })),
-      logs: events
-        .filter((e) => e.type === "LOG_BATCH" || e.type === "PROGRESS")
-        .map((e) => ({
-          timestamp: e.timestamp,
-          stream: "stdout" as const,
-          line: e.message,
-        })),
-      meta: {
-        orgId: this.orgId,
-        generatedBy: input.generatedBy,
-        correlationId: events[0]?.correlationId,
-      },
-    };
+    const packet = buildInspectionPacket(run, events, project, input.generatedBy, this.orgId);
 
     // Save packet
-    const filePath = path.join(this.packetsDir, packetId + ".json");
+    const filePath = path.join(this.packetsDir, packet.packetId + ".json");
     await fs.promises.writeFile(filePath, JSON.stringify(packet, null, 2));
 
     return packet;
@@ -220,6 +220,16 @@ export interface PullRequestInfo {
   createdAt: string;
 }
 
+export interface CreatePullRequestInput {
+  title: string;
+  body: string;
+  /** Branch with the changes */
+  head: string;
+  /** Branch to merge into */
+  base: string;
+  draft?: boolean;
+}
+
 export interface GitHubReviewComment {
   id: number;
   body: string;
@@ -281,4 +291,10 @@ export interface IGitHubAdapter {
     prNumber: number,
     body: string
   ): Promise<void>;
+
+  createPullRequest(
+    owner: string,
+    repo: string,
+    input: CreatePullRequestInput
+  ): Promise<PullRequestInfo>;
 }
@@ -0,0 +1,747 @@
+/**
+ * SQLite DAL - SQLite-backed data access layer
+ *
+ * Stores projects, sessions, runs, events, activity, inspection packets,
+ * plans, conversations and plugins in {stateDir}/pm-runner.sqlite (the same
+ * database as SQLiteQueueStore). PR review state delegates to NoDynamo as a
+ * fallback until it is migrated, exactly like DynamoDAL.
+ *
+ * Every entity lives in one `dal_records` table keyed by (kind, id), with the
+ * columns the list methods filter on (org_id, parent_id, lookup_key) indexed.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type { IDataAccessLayer } from "./dal-interface";
+import {
+  ProjectIndex,
+  CreateProjectIndexInput,
+  UpdateProjectIndexInput,
+  ListProjectIndexOptions,
+  PaginatedResult,
+  Session,
+  CreateSessionInput,
+  ActivityEvent,
+  CreateActivityEventInput,
+  ListActivityEventsOptions,
+  TaskEventType,
+  TaskState,
+  LogLevel,
+  ConversationMessage,
+  CreateConversationMessageInput,
+  UpdateConversationMessageInput,
+  Plan,
+  PlanTask,
+  CreatePlanInput,
+  UpdatePlanInput,
+  PluginDefinition,
+} from "./types";
+import type {
+  PRReviewState,
+  PRReviewComment,
+  PRReviewCycle,
+  PRReviewStatus,
+  CommentJudgment,
+  CreatePRReviewStateInput,
+  UpdatePRReviewStateInput,
+} from "./pr-review-types";
+import {
+  NoDynamoDALWithConversations,
+  NoDynamoConfig,
+  NoDynamoRun,
+  NoDynamoEvent,
+  InspectionPacket,
+  generateProjectId,
+  buildProjectIndex,
+  buildInspectionPacket,
+  queryProjectIndexes,
+  queryActivityEvents,
+} from "./no-dynamo";
+import { SQLiteDatabase, getSqliteDbPath, openSqliteDatabase } from "../../storage/sqlite-db";
+
+/**
+ * SQLite DAL configuration
+ */
+export interface SQLiteDALConfig extends NoDynamoConfig {
+  /** Explicit database path (overrides {stateDir}/pm-runner.sqlite) */
+  dbPath?: string;
+}
+
+/**
+ * Entity stored under each kind in dal_records
+ */
+export interface SQLiteEntities {
+  project: ProjectIndex;
+  session: Session;
+  run: NoDynamoRun;
+  event: NoDynamoEvent;
+  activity: ActivityEvent;
+  packet: InspectionPacket;
+  plan: Plan;
+  conversation: ConversationMessage;
+  plugin: PluginDefinition;
+}
+
+export type SQLiteEntityKind = keyof SQLiteEntities;
+
+interface RecordColumns {
+  id: string;
+  org_id?: string | null;
+  parent_id?: string | null;
+  lookup_key?: string | null;
+  sort_key: string;
+}
+
+/**
+ * Indexed columns per kind (parent_id is the usual "list by" filter)
+ */
+const KIND_COLUMNS: { [K in SQLiteEntityKind]: (record: SQLiteEntities[K]) => RecordColumns } = {
+  project: (p) => ({ id: p.projectId, org_id: p.orgId, lookup_key: p.projectPath, sort_key: p.updatedAt }),
+  session: (s) => ({ id: s.sessionId, org_id: s.orgId, parent_id: s.projectId, sort_key: s.startedAt }),
+  run: (r) => ({ id: r.runId, parent_id: r.sessionId, lookup_key: r.taskRunId, sort_key: r.startedAt }),
+  event: (e) => ({ id: e.eventId, parent_id: e.runId, sort_key: e.timestamp }),
+  activity: (a) => ({ id: a.id, org_id: a.orgId, parent_id: a.projectId, sort_key: a.timestamp }),
+  packet: (p) => ({ id: p.packetId, parent_id: p.runId, sort_key: p.generatedAt }),
+  plan: (p) => ({ id: p.planId, org_id: p.orgId, parent_id: p.projectId, sort_key: p.createdAt }),
+  conversation: (m) => ({ id: m.messageId, parent_id: m.projectId, lookup_key: m.status, sort_key: m.timestamp }),
+  plugin: (p) => ({ id: p.pluginId, sort_key: p.updatedAt }),
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS dal_records (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    org_id TEXT,
+    parent_id TEXT,
+    lookup_key TEXT,
+    sort_key TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (kind, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_dal_records_parent ON dal_records (kind, parent_id, sort_key);
+  CREATE INDEX IF NOT EXISTS idx_dal_records_lookup ON dal_records (kind, lookup_key);
+`;
+
+/** Kinds removed by clearAll() (matches NoDynamo: conversations and plugins are kept) */
+const CLEARABLE_KINDS: SQLiteEntityKind[] = ["project", "session", "run", "event", "activity", "packet", "plan"];
+
+function nowISO(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * SQLiteDAL - SQLite implementation of IDataAccessLayer
+ */
+export class SQLiteDAL implements IDataAccessLayer {
+  private readonly fallback: NoDynamoDALWithConversations;
+  private readonly orgId: string;
+  private readonly db: SQLiteDatabase;
+
+  constructor(config: SQLiteDALConfig) {
+    this.orgId = config.orgId || "default";
+    this.fallback = new NoDynamoDALWithConversations(config);
+    this.db = openSqliteDatabase(config.dbPath ?? getSqliteDbPath(config.stateDir));
+    this.db.exec(SCHEMA);
+  }
+
+  // ==================== Record helpers ====================
+
+  private put<K extends SQLiteEntityKind>(kind: K, record: SQLiteEntities[K], mode: "REPLACE" | "IGNORE" = "REPLACE"): boolean {
+    const cols = KIND_COLUMNS[kind](record);
+    const result = this.db
+      .prepare(
+        `INSERT OR ${mode} INTO dal_records (kind, id, org_id, parent_id, lookup_key, sort_key, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(kind, cols.id, cols.org_id ?? null, cols.parent_id ?? null, cols.lookup_key ?? null, cols.sort_key ?? "", JSON.stringify(record));
+    return result.changes > 0;
+  }
+
+  private get<K extends SQLiteEntityKind>(kind: K, id: string): SQLiteEntities[K] | null {
+    const row = this.db
+      .prepare("SELECT data FROM dal_records WHERE kind = ? AND id = ?")
+      .get(kind, id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as SQLiteEntities[K]) : null;
+  }
+
+  private list<K extends SQLiteEntityKind>(
+    kind: K,
+    filter: { parentId?: string; lookupKey?: string } = {},
+    order: "ASC" | "DESC" = "DESC"
+  ): Array<SQLiteEntities[K]> {
+    const clauses = ["kind = ?"];
+    const params: unknown[] = [kind];
+    if (filter.parentId !== undefined) {
+      clauses.push("parent_id = ?");
+      params.push(filter.parentId);
+    }
+    if (filter.lookupKey !== undefined) {
+      clauses.push("lookup_key = ?");
+      params.push(filter.lookupKey);
+    }
+    const rows = this.db
+      .prepare(`SELECT data FROM dal_records WHERE ${clauses.join(" AND ")} ORDER BY sort_key ${order}`)
+      .all(...params) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as SQLiteEntities[K]);
+  }
+
+  private update<K extends SQLiteEntityKind>(
+    kind: K,
+    id: string,
+    apply: (current: SQLiteEntities[K]) => SQLiteEntities[K]
+  ): SQLiteEntities[K] | null {
+    return this.db.transaction(() => {
+      const current = this.get(kind, id);
+      if (!current) {
+        return null;
+      }
+      const updated = apply(current);
+      this.put(kind, updated);
+      return updated;
+    })();
+  }
+
+  private count(kind: SQLiteEntityKind, orgId?: string): number {
+    const row = orgId
+      ? this.db
+          .prepare("SELECT COUNT(*) AS n FROM dal_records WHERE kind = ? AND (org_id IS NULL OR org_id = '' OR org_id = ?)")
+          .get(kind, orgId)
+      : this.db.prepare("SELECT COUNT(*) AS n FROM dal_records WHERE kind = ?").get(kind);
+    return (row as { n: number }).n;
+  }
+
+  /**
+   * Insert records exactly as given (used by the file -> SQLite migration).
+   * Existing rows are kept, so re-running an import is safe.
+   * Returns the number of records inserted.
+   */
+  importRecords<K extends SQLiteEntityKind>(kind: K, records: Array<SQLiteEntities[K]>): number {
+    return this.db.transaction(() => {
+      let inserted = 0;
+      for (const record of records) {
+        if (this.put(kind, record, "IGNORE")) {
+          inserted++;
+        }
+      }
+      return inserted;
+    })();
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  // ==================== Project Index ====================
+
+  async createProjectIndex(input: CreateProjectIndexInput): Promise<ProjectIndex> {
+    const project = buildProjectIndex(input);
+    this.put("project", project);
+    return project;
+  }
+
+  async getProjectIndex(projectId: string): Promise<ProjectIndex | null> {
+    return this.get("project", projectId);
+  }
+
+  async getProjectIndexByPath(projectPath: string): Promise<ProjectIndex | null> {
+    return this.getProjectIndex(generateProjectId(projectPath));
+  }
+
+  async listProjectIndexes(options: ListProjectIndexOptions = {}): Promise<PaginatedResult<ProjectIndex>> {
+    return queryProjectIndexes(this.list("project"), options, this.orgId);
+  }
+
+  async updateProjectIndex(projectId: string, updates: UpdateProjectIndexInput): Promise<ProjectIndex | null> {
+    return this.update("project", projectId, (project) => ({
+      ...project,
+      ...updates,
+      updatedAt: nowISO(),
+    }));
+  }
+
+  async archiveProject(projectId: string): Promise<ProjectIndex | null> {
+    return this.update("project", projectId, (project) => ({
+      ...project,
+      archived: true,
+      archivedAt: nowISO(),
+      updatedAt: nowISO(),
+    }));
+  }
+
+  async unarchiveProject(projectId: string): Promise<ProjectIndex | null> {
+    return this.update("project", projectId, (project) => ({
+      ...project,
+      archived: false,
+      archivedAt: undefined,
+      updatedAt: nowISO(),
+    }));
+  }
+
+  async getOrCreateProjectIndex(input: CreateProjectIndexInput): Promise<ProjectIndex> {
+    const existing = await this.getProjectIndexByPath(input.projectPath);
+    if (existing) {
+      return existing;
+    }
+    return this.createProjectIndex(input);
+  }
+
+  // ==================== Sessions ====================
+
+  async createSession(input: CreateSessionInput): Promise<Session> {
+    const sessionId = input.sessionId || "sess_" + uuidv4();
+    const now = nowISO();
+
+    const session: Session = {
+      PK: "ORG#" + input.orgId,
+      SK: "SESSION#" + sessionId,
+      sessionId,
+      orgId: input.orgId,
+      projectPath: input.projectPath,
+      projectId: input.projectId,
+      startedAt: now,
+      threads: [],
+      totalRuns: 0,
+      totalTasks: 0,
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+      ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60, // 90 days
+    };
+
+    this.put("session", session);
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    return this.get("session", sessionId);
+  }
+
+  async listSessions(projectId?: string): Promise<Session[]> {
+    return this.list("session", { parentId: projectId });
+  }
+
+  async updateSession(sessionId: string, updates: Partial<Session>): Promise<Session | null> {
+    return this.update("session", sessionId, (session) => ({
+      ...session,
+      ...updates,
+      updatedAt: nowISO(),
+    }));
+  }
+
+  async endSession(sessionId: string): Promise<Session | null> {
+    return this.updateSession(sessionId, {
+      status: "ended",
+      endedAt: nowISO(),
+    });
+  }
+
+  // ==================== Runs ====================
+
+  async createRun(input: {
+    sessionId: string;
+    projectId?: string;
+    threadId?: string;
+    taskRunId: string;
+    prompt?: string;
+  }): Promise<NoDynamoRun> {
+    const now = nowISO();
+    const run: NoDynamoRun = {
+      runId: "run_" + uuidv4(),
+      sessionId: input.sessionId,
+      projectId: input.projectId || "",
+      threadId: input.threadId,
+      taskRunId: input.taskRunId,
+      status: "CREATED",
+      prompt: input.prompt,
+      startedAt: now,
+      eventCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.put("run", run);
+    return run;
+  }
+
+  async getRun(runId: string): Promise<NoDynamoRun | null> {
+    return this.get("run", runId);
+  }
+
+  async listRuns(sessionId?: string): Promise<NoDynamoRun[]> {
+    return this.list("run", { parentId: sessionId });
+  }
+
+  async findRunByTaskRunId(taskRunId: string): Promise<NoDynamoRun | null> {
+    return this.list("run", { lookupKey: taskRunId })[0] || null;
+  }
+
+  async updateRun(runId: string, updates: Partial<NoDynamoRun>): Promise<NoDynamoRun | null> {
+    return this.update("run", runId, (run) => ({
+      ...run,
+      ...updates,
+      updatedAt: nowISO(),
+    }));
+  }
+
+  // ==================== Events ====================
+
+  async recordEvent(input: {
+    runId: string;
+    sessionId?: string;
+    projectId?: string;
+    type: TaskEventType;
+    message: string;
+    level?: LogLevel;
+    payload?: Record<string, unknown>;
+    actor?: string;
+    correlationId?: string;
+  }): Promise<NoDynamoEvent> {
+    const event: NoDynamoEvent = {
+      eventId: "evt_" + uuidv4(),
+      runId: input.runId,
+      sessionId: input.sessionId,
+      projectId: input.projectId,
+      type: input.type,
+      timestamp: nowISO(),
+      message: input.message,
+      level: input.level || "info",
+      payload: input.payload,
+      actor: input.actor || "system",
+      correlationId: input.correlationId,
+    };
+
+    this.put("event", event);
+    return event;
+  }
+
+  async listEvents(runId?: string): Promise<NoDynamoEvent[]> {
+    return this.list("event", { parentId: runId });
+  }
+
+  // ==================== Activity Events ====================
+
+  async createActivityEvent(input: CreateActivityEventInput): Promise<ActivityEvent> {
+    const id = "act_" + uuidv4();
+    const now = nowISO();
+
+    const event: ActivityEvent = {
+      PK: "ORG#" + input.orgId,
+      SK: "ACT#" + now + "#" + id,
+      id,
+      orgId: input.orgId,
+      type: input.type,
+      timestamp: now,
+      projectId: input.projectId,
+      projectPath: input.projectPath,
+      projectAlias: input.projectAlias,
+      sessionId: input.sessionId,
+      taskId: input.taskId,
+      taskGroupId: input.taskGroupId,
+      summary: input.summary,
+      importance: input.importance || "normal",
+      details: input.details || {},
+      ttl: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60, // 30 days
+    };
+
+    this.put("activity", event);
+    return event;
+  }
+
+  async listActivityEvents(options: ListActivityEventsOptions = {}): Promise<PaginatedResult<ActivityEvent>> {
+    const events = this.list("activity", { parentId: options.projectId });
+    return queryActivityEvents(events, options, this.orgId);
+  }
+
+  // ==================== Inspection Packets ====================
+
+  async generateInspectionPacket(input: {
+    runId: string;
+    generatedBy: string;
+    includeAllLogs?: boolean;
+  }): Promise<InspectionPacket> {
+    const run = await this.getRun(input.runId);
+    if (!run) {
+      throw new Error("Run not found: " + input.runId);
+    }
+
+    const events = await this.listEvents(input.runId);
+    const project = run.projectId ? await this.getProjectIndex(run.projectId) : null;
+
+    const packet = buildInspectionPacket(run, events, project, input.generatedBy, this.orgId);
+    this.put("packet", packet);
+    return packet;
+  }
+
+  async getInspectionPacket(packetId: string): Promise<InspectionPacket | null> {
+    return this.get("packet", packetId);
+  }
+
+  async listInspectionPackets(runId?: string): Promise<InspectionPacket[]> {
+    return this.list("packet", { parentId: runId });
+  }
+
+  formatPacketAsMarkdown(packet: InspectionPacket): string {
+    return this.fallback.formatPacketAsMarkdown(packet);
+  }
+
+  formatPacketForClipboard(packet: InspectionPacket): string {
+    return this.fallback.formatPacketForClipboard(packet);
+  }
+
+  // ==================== Plans ====================
+
+  async createPlan(input: CreatePlanInput): Promise<Plan> {
+    const planId = "plan_" + uuidv4();
+    const now = nowISO();
+
+    const tasks: PlanTask[] = input.tasks.map((t, index) => ({
+      taskId: "task_" + uuidv4(),
+      description: t.description,
+      priority: t.priority ?? index,
+      dependencies: t.dependencies ?? [],
+      status: "CREATED" as TaskState,
+    }));
+
+    const plan: Plan = {
+      PK: "ORG#" + input.orgId,
+      SK: "PLAN#" + planId,
+      planId,
+      projectId: input.projectId,
+      orgId: input.orgId,
+      runId: input.runId,
+      packetId: input.packetId,
+      status: "DRAFT",
+      tasks,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.put("plan", plan);
+    return plan;
+  }
+
+  async getPlan(planId: string): Promise<Plan | null> {
+    return this.get("plan", planId);
+  }
+
+  async updatePlan(planId: string, updates: UpdatePlanInput): Promise<Plan | null> {
+    return this.update("plan", planId, (plan) => ({
+      ...plan,
+      ...updates,
+      updatedAt: nowISO(),
+    }));
+  }
+
+  async listPlans(projectId?: string): Promise<Plan[]> {
+    return this.list("plan", { parentId: projectId });
+  }
+
+  async getLatestPlanForProject(projectId: string): Promise<Plan | null> {
+    return this.list("plan", { parentId: projectId })[0] || null;
+  }
+
+  // ==================== Conversations ====================
+
+  async createConversationMessage(input: CreateConversationMessageInput): Promise<ConversationMessage> {
+    const message: ConversationMessage = {
+      messageId: "msg_" + uuidv4(),
+      projectId: input.projectId,
+      runId: input.runId,
+      role: input.role,
+      content: input.content,
+      status: input.status || "pending",
+      timestamp: nowISO(),
+      metadata: input.metadata,
+    };
+
+    this.put("conversation", message);
+    return message;
+  }
+
+  async listConversationMessages(projectId: string, limit?: number): Promise<ConversationMessage[]> {
+    // Oldest first; with a limit, the most recent `limit` messages
+    const messages = this.list("conversation", { parentId: projectId }, "ASC");
+    return limit && limit > 0 ? messages.slice(-limit) : messages;
+  }
+
+  async getConversationMessage(projectId: string, messageId: string): Promise<ConversationMessage | null> {
+    const message = this.get("conversation", messageId);
+    return message && message.projectId === projectId ? message : null;
+  }
+
+  async updateConversationMessage(
+    projectId: string,
+    messageId: string,
+    updates: UpdateConversationMessageInput
+  ): Promise<ConversationMessage | null> {
+    if (!(await this.getConversationMessage(projectId, messageId))) {
+      return null;
+    }
+    return this.update("conversation", messageId, (msg) => ({
+      ...msg,
+      ...updates,
+      metadata: updates.metadata ? { ...msg.metadata, ...updates.metadata } : msg.metadata,
+    }));
+  }
+
+  async getAwaitingResponseMessage(projectId: string): Promise<ConversationMessage | null> {
+    const row = this.db
+      .prepare(
+        `SELECT data FROM dal_records
+         WHERE kind = 'conversation' AND parent_id = ? AND lookup_key = 'awaiting_response'
+         ORDER BY sort_key DESC LIMIT 1`
+      )
+      .get(projectId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as ConversationMessage) : null;
+  }
+
+  async clearConversationHistory(projectId: string): Promise<void> {
+    this.db.prepare("DELETE FROM dal_records WHERE kind = 'conversation' AND parent_id = ?").run(projectId);
+  }
+
+  // ==================== Plugins ====================
+
+  async createPlugin(plugin: PluginDefinition): Promise<PluginDefinition> {
+    this.put("plugin", plugin);
+    return plugin;
+  }
+
+  async getPlugin(pluginId: string): Promise<PluginDefinition | null> {
+    return this.get("plugin", pluginId);
+  }
+
+  async listPlugins(): Promise<PluginDefinition[]> {
+    return this.list("plugin");
+  }
+
+  async updatePlugin(pluginId: string, updates: Partial<PluginDefinition>): Promise<PluginDefinition | null> {
+    return this.update("plugin", pluginId, (plugin) => ({
+      ...plugin,
+      ...updates,
+      updatedAt: nowISO(),
+    }));
+  }
+
+  async deletePlugin(pluginId: string): Promise<boolean> {
+    const result = this.db.prepare("DELETE FROM dal_records WHERE kind = 'plugin' AND id = ?").run(pluginId);
+    return result.changes > 0;
+  }
+
+  // ==================== PR Review State (fallback to NoDynamo) ====================
+
+  async createPRReviewState(input: CreatePRReviewStateInput): Promise<PRReviewState> {
+    return this.fallback.createPRReviewState(input);
+  }
+
+  async getPRReviewState(projectId: string, prNumber: number): Promise<PRReviewState | null> {
+    return this.fallback.getPRReviewState(projectId, prNumber);
+  }
+
+  async updatePRReviewState(
+    projectId: string,
+    prNumber: number,
+    updates: UpdatePRReviewStateInput & { version: number }
+  ): Promise<PRReviewState> {
+    return this.fallback.updatePRReviewState(projectId, prNumber, updates);
+  }
+
+  async listPRReviewStates(
+    projectId: string,
+    options?: { status?: PRReviewStatus; limit?: number }
+  ): Promise<PRReviewState[]> {
+    return this.fallback.listPRReviewStates(projectId, options);
+  }
+
+  async deletePRReviewState(projectId: string, prNumber: number): Promise<void> {
+    return this.fallback.deletePRReviewState(projectId, prNumber);
+  }
+
+  // ==================== PR Review Comments (fallback to NoDynamo) ====================
+
+  async batchCreatePRReviewComments(comments: PRReviewComment[]): Promise<void> {
+    return this.fallback.batchCreatePRReviewComments(comments);
+  }
+
+  async getPRReviewComment(
+    projectId: string,
+    prNumber: number,
+    commentId: string
+  ): Promise<PRReviewComment | null> {
+    return this.fallback.getPRReviewComment(projectId, prNumber, commentId);
+  }
+
+  async listPRReviewComments(
+    projectId: string,
+    prNumber: number,
+    filter?: { judgment?: CommentJudgment; fixApplied?: boolean; cycle?: number }
+  ): Promise<PRReviewComment[]> {
+    return this.fallback.listPRReviewComments(projectId, prNumber, filter);
+  }
+
+  async updatePRReviewComment(
+    projectId: string,
+    prNumber: number,
+    commentId: string,
+    updates: Partial<Pick<PRReviewComment,
+      "judgment" | "judgmentReason" | "fixApplied" | "fixCommitHash" | "fixDescription" | "userOverride"
+    >>
+  ): Promise<PRReviewComment> {
+    return this.fallback.updatePRReviewComment(projectId, prNumber, commentId, updates);
+  }
+
+  // ==================== PR Review Cycles (fallback to NoDynamo) ====================
+
+  async createPRReviewCycle(input: PRReviewCycle): Promise<PRReviewCycle> {
+    return this.fallback.createPRReviewCycle(input);
+  }
+
+  async getPRReviewCycle(
+    projectId: string,
+    prNumber: number,
+    cycleNumber: number
+  ): Promise<PRReviewCycle | null> {
+    return this.fallback.getPRReviewCycle(projectId, prNumber, cycleNumber);
+  }
+
+  async listPRReviewCycles(projectId: string, prNumber: number): Promise<PRReviewCycle[]> {
+    return this.fallback.listPRReviewCycles(projectId, prNumber);
+  }
+
+  async updatePRReviewCycle(
+    projectId: string,
+    prNumber: number,
+    cycleNumber: number,
+    updates: Partial<PRReviewCycle>
+  ): Promise<PRReviewCycle> {
+    return this.fallback.updatePRReviewCycle(projectId, prNumber, cycleNumber, updates);
+  }
+
+  // ==================== Utility ====================
+
+  async clearAll(): Promise<void> {
+    const placeholders = CLEARABLE_KINDS.map(() => "?").join(", ");
+    this.db.prepare(`DELETE FROM dal_records WHERE kind IN (${placeholders})`).run(...CLEARABLE_KINDS);
+  }
+
+  async getStats(orgId?: string): Promise<{
+    projects: number;
+    sessions: number;
+    runs: number;
+    events: number;
+    packets: number;
+    plans: number;
+  }> {
+    const effectiveOrgId = orgId || this.orgId;
+    return {
+      projects: this.count("project", effectiveOrgId),
+      sessions: this.count("session"),
+      runs: this.count("run"),
+      // NoDynamo counts task events and activity events together (both live in events/)
+      events: this.count("event") + this.count("activity", effectiveOrgId),
+      packets: this.count("packet"),
+      plans: this.count("plan"),
+    };
+  }
+}
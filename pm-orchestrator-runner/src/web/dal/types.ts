@@ -50,7 +50,8 @@ export type NotificationType =
   | "TASK_ERROR"
   | "TASK_COMPLETED"
   | "AGENT_OFFLINE"
-  | "QUEUE_STUCK";
+  | "QUEUE_STUCK"
+  | "PR_REVIEW_DECISION";
 
 export type NotificationSeverity = "info" | "warning" | "error";
 
@@ -205,6 +206,10 @@ export interface Notification {
   severity: NotificationSeverity;
   taskId?: string;
   projectId?: string;
+  /** Queue tasks carry a path rather than a projectId */
+  projectPath?: string;
+  taskGroupId?: string;
+  prNumber?: number;
   agentId?: string;
   read: boolean;
   createdAt: string;
@@ -258,6 +263,9 @@ export interface CreateNotificationInput {
   severity: NotificationSeverity;
   taskId?: string;
   projectId?: string;
+  projectPath?: string;
+  taskGroupId?: string;
+  prNumber?: number;
   agentId?: string;
 }
 
@@ -11,6 +11,7 @@ import { execFile as execFileCb } from "child_process";
 import { promisify } from "util";
 import type {
   IGitHubAdapter,
+  CreatePullRequestInput,
   PullRequestInfo,
   GitHubReviewComment,
   GitHubIssueComment,
@@ -35,6 +36,35 @@ async function defaultExecutor(file: string, args: string[]): Promise<string> {
   return stdout;
 }
 
+/** Fields of GitHub's pull request payload used by the adapter */
+interface GitHubPullPayload {
+  number: number;
+  title: string;
+  html_url: string;
+  base: { ref: string };
+  head: { ref: string };
+  state: string;
+  user: { login: string };
+  created_at: string;
+}
+
+/**
+ * Map a GitHub pull request payload to PullRequestInfo
+ */
+function toPullRequestInfo(data: GitHubPullPayload, owner: string, repo: string): PullRequestInfo {
+  return {
+    number: data.number,
+    title: data.title,
+    url: data.html_url,
+    baseBranch: data.base.ref,
+    headBranch: data.head.ref,
+    state: data.state as "open" | "closed" | "merged",
+    repository: `${owner}/${repo}`,
+    author: data.user.login,
+    createdAt: data.created_at,
+  };
+}
+
 /**
  * GhCliGitHubAdapter - gh CLI-based GitHub adapter
  *
@@ -58,18 +88,7 @@ export class GhCliGitHubAdapter implements IGitHubAdapter {
       `repos/${owner}/${repo}/pulls/${prNumber}`,
     ]);
 
-    const data = JSON.parse(stdout);
-    return {
-      number: data.number,
-      title: data.title,
-      url: data.html_url,
-      baseBranch: data.base.ref,
-      headBranch: data.head.ref,
-      state: data.state as "open" | "closed" | "merged",
-      repository: `${owner}/${repo}`,
-      author: data.user.login,
-      createdAt: data.created_at,
-    };
+    return toPullRequestInfo(JSON.parse(stdout), owner, repo);
   }
 
   async listPRReviewComments(
@@ -158,4 +177,30 @@ export class GhCliGitHubAdapter implements IGitHubAdapter {
       `body=${body}`,
     ]);
   }
+
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    input: CreatePullRequestInput
+  ): Promise<PullRequestInfo> {
+    // --raw-field: text starting with "@" must not be read as a file
+    const stdout = await this.exec("gh", [
+      "api",
+      `repos/${owner}/${repo}/pulls`,
+      "--method",
+      "POST",
+      "--raw-field",
+      `title=${input.title}`,
+      "--raw-field",
+      `body=${input.body}`,
+      "--raw-field",
+      `head=${input.head}`,
+      "--raw-field",
+      `base=${input.base}`,
+      "--field",
+      `draft=${input.draft ? "true" : "false"}`,
+    ]);
+
+    return toPullRequestInfo(JSON.parse(stdout), owner, repo);
+  }
 }
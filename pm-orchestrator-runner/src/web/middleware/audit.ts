@@ -0,0 +1,142 @@
+/**
+ * Audit Middleware - Records every mutating API call
+ * Per spec/42_AUDIT_LOG.md
+ *
+ * Mounted on '/api' before API key auth so that rejected requests are
+ * recorded too. The entry is written when the response has finished:
+ * - actor:      userId / deviceName / role set by the auth middleware
+ * - route:      matched route pattern (falls back to the path)
+ * - target_ids: route params and *_id fields of the body
+ * - request:    scalar summary of the body (secrets redacted)
+ * - before:     res.locals.auditBefore, set by routes that load the target first
+ * - after:      res.locals.auditAfter, or a summary of the JSON response
+ * - result:     status code and success / failure / denied
+ */
+
+import type { Response, NextFunction } from 'express';
+import type { AuthenticatedRequest } from './auth';
+import { apiKeyFingerprint, type AuditEntryInput, type AuditLog, type AuditOutcome, type AuditSummary } from '../../audit/audit-log';
+import { log } from '../../logging/app-logger';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Maximum keys and string length kept in a summary
+ */
+const MAX_SUMMARY_KEYS = 20;
+const MAX_SUMMARY_STRING = 200;
+
+const SECRET_KEY_PATTERN = /secret|token|password|api[-_]?key|authorization/i;
+
+export interface AuditMiddlewareOptions {
+  /** Whether API key auth is enabled (unauthenticated actors are 'anonymous', else 'local') */
+  authEnabled: boolean;
+}
+
+/**
+ * Scalar summary of a value: long strings truncated, secrets redacted,
+ * arrays and objects reduced to their size
+ */
+export function summarizeForAudit(value: unknown): AuditSummary | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const summary: AuditSummary = {};
+  for (const [key, field] of Object.entries(value as Record<string, unknown>).slice(0, MAX_SUMMARY_KEYS)) {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      summary[key] = '[redacted]';
+    } else if (typeof field === 'string') {
+      summary[key] = field.length > MAX_SUMMARY_STRING ? field.slice(0, MAX_SUMMARY_STRING) + '…' : field;
+    } else if (typeof field === 'number' || typeof field === 'boolean' || field === null) {
+      summary[key] = field;
+    } else if (Array.isArray(field)) {
+      summary[key] = `[${field.length} items]`;
+    } else if (field && typeof field === 'object') {
+      summary[key] = `{${Object.keys(field).length} keys}`;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Route params plus top-level *_id / *Id fields of the body
+ */
+function targetIds(req: AuthenticatedRequest): Record<string, string> {
+  const ids: Record<string, string> = {};
+  for (const [key, value] of Object.entries(req.params ?? {})) {
+    if (typeof value === 'string') ids[key] = value;
+  }
+  if (req.body && typeof req.body === 'object' && !Array.isArray(req.body)) {
+    for (const [key, value] of Object.entries(req.body as Record<string, unknown>)) {
+      if (/(_id|Id)$/.test(key) && (typeof value === 'string' || typeof value === 'number')) {
+        ids[key] = String(value);
+      }
+    }
+  }
+  return ids;
+}
+
+function outcomeOf(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) return 'denied';
+  return statusCode >= 400 ? 'failure' : 'success';
+}
+
+/**
+ * Create middleware recording mutating requests to `auditLog`
+ */
+export function createAuditMiddleware(auditLog: AuditLog, options: AuditMiddlewareOptions) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!MUTATING_METHODS.includes(req.method)) {
+      return next();
+    }
+
+    const startedAt = Date.now();
+    const requestPath = req.originalUrl.split('?')[0];
+    const apiKey = (req.headers['x-api-key'] as string) || (req.query.apiKey as string) || '';
+
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', () => {
+      const outcome = outcomeOf(res.statusCode);
+      const body = responseBody as { error?: unknown; message?: unknown } | undefined;
+      const error = outcome === 'success' || !body
+        ? undefined
+        : String(body.message ?? body.error ?? '');
+
+      const entry: AuditEntryInput = {
+        actor: {
+          user_id: req.userId ?? (options.authEnabled ? 'anonymous' : 'local'),
+          ...(req.deviceName ? { device_name: req.deviceName } : {}),
+          ...(req.role ? { role: req.role } : {}),
+          ...(apiKey ? { api_key_fingerprint: apiKeyFingerprint(apiKey) } : {}),
+        },
+        method: req.method,
+        route: req.route ? (req.baseUrl || '') + String(req.route.path) : requestPath,
+        path: requestPath,
+        target_ids: targetIds(req),
+        ...(summarizeForAudit(req.body) ? { request: summarizeForAudit(req.body) } : {}),
+        ...(res.locals.auditBefore ? { before: res.locals.auditBefore as AuditSummary } : {}),
+        ...(outcome === 'success'
+          ? { after: (res.locals.auditAfter as AuditSummary | undefined) ?? summarizeForAudit(responseBody) }
+          : {}),
+        result: {
+          status_code: res.statusCode,
+          outcome,
+          ...(error ? { error } : {}),
+        },
+        duration_ms: Date.now() - startedAt,
+      };
+
+      auditLog.append(entry).catch(appendError => {
+        log.sys.warn('Failed to record audit entry', { path: requestPath, error: String(appendError) });
+      });
+    });
+
+    next();
+  };
+}
@@ -22,6 +22,8 @@ export interface AuthenticatedRequest extends Request {
   userId?: string;
   deviceName?: string;
   role?: UserRole;
+  /** Project paths the API key is limited to (undefined = all projects) */
+  projectPaths?: string[];
   /** Organization ID for tenant isolation (derived from userId) */
   orgId?: string;
 }
@@ -48,6 +50,7 @@ export function createApiKeyAuth(config: AuthConfig) {
       // Local dev mode: skip authentication
       req.userId = 'local';
       req.deviceName = 'local';
+      req.role = 'admin';
       req.orgId = process.env.ORG_ID || 'local';
       return next();
     }
@@ -71,6 +74,11 @@ export function createApiKeyAuth(config: AuthConfig) {
 
       req.userId = apiKeyData.userId;
       req.deviceName = apiKeyData.deviceName;
+      // Keys issued before roles existed keep full access
+      req.role = apiKeyData.role ?? 'admin';
+      if (apiKeyData.projectPaths && apiKeyData.projectPaths.length > 0) {
+        req.projectPaths = apiKeyData.projectPaths;
+      }
       req.orgId = apiKeyData.userId + ':' + apiKeyData.deviceName; // orgId = userId:device for machine-level isolation
       next();
     } catch (error) {
@@ -0,0 +1,273 @@
+/**
+ * Route Permissions
+ * Per spec/41_ROUTE_PERMISSIONS.md
+ *
+ * Declarative map of API routes to the permission they require, and the
+ * middleware that enforces it after API key authentication:
+ * - Each role grants a fixed set of permissions (ROLE_PERMISSIONS)
+ * - The first rule matching method + path decides the required permission
+ * - Routes without a rule require 'read' for GET and 'system' otherwise
+ * - Keys limited to project paths may only use routes marked projectScoped
+ *   (routes that filter by the caller's projects or expose no project data)
+ */
+
+import * as path from 'path';
+import type { Response, NextFunction } from 'express';
+import type { AuthenticatedRequest, UserRole } from './auth';
+
+/**
+ * Permissions granted by roles
+ * - read:      view projects, tasks, settings and status
+ * - write:     create / reply to / retry / cancel tasks, chat
+ * - configure: change settings, templates, schedules, webhooks, budgets, learned preferences, Claude config
+ * - logs:      read executor / supervisor / session / audit logs and project files
+ * - system:    kill processes, stop / rebuild the runner, run commands, commit and push
+ */
+export type Permission = 'read' | 'write' | 'configure' | 'logs' | 'system';
+
+export const PERMISSIONS: readonly Permission[] = ['read', 'write', 'configure', 'logs', 'system'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  viewer: ['read'],
+  guest: [],
+};
+
+export interface RoutePermissionRule {
+  /** HTTP method, or '*' for any */
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | '*';
+  /** Full path; ':name' matches one segment, a trailing '/*' one or more */
+  path: string;
+  /** Required permission (null = any authenticated caller) */
+  permission: Permission | null;
+  /** Route filters by the caller's project scope or exposes no project data */
+  projectScoped?: boolean;
+}
+
+/**
+ * Route permission map (first match wins)
+ */
+export const ROUTE_PERMISSIONS: readonly RoutePermissionRule[] = [
+  // Caller identity
+  { method: 'GET', path: '/api/health', permission: null, projectScoped: true },
+  { method: 'GET', path: '/api/me/permissions', permission: null, projectScoped: true },
+
+  // Server metadata
+  { method: 'GET', path: '/api/namespace', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/namespaces', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/routes', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/models', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/commands', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/app-logs', permission: 'logs' },
+
+  // Queue, tasks and task groups (server.ts, queue-events.ts)
+  { method: 'GET', path: '/api/queue/events', permission: 'read', projectScoped: true },
+  // Pause / drain / resume claiming for the whole namespace or a project
+  { method: 'GET', path: '/api/queue/controls', permission: 'read' },
+  { method: 'POST', path: '/api/queue/*', permission: 'system' },
+  { method: 'GET', path: '/api/task-groups', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/task-groups/*', permission: 'read', projectScoped: true },
+  // Imported tasks belong to another runner's projects: not available to scoped keys
+  { method: 'POST', path: '/api/task-groups/import', permission: 'write' },
+  { method: '*', path: '/api/task-groups', permission: 'write', projectScoped: true },
+  { method: '*', path: '/api/task-groups/*', permission: 'write', projectScoped: true },
+  { method: 'GET', path: '/api/tasks/*', permission: 'read', projectScoped: true },
+  { method: '*', path: '/api/tasks', permission: 'write', projectScoped: true },
+  { method: '*', path: '/api/tasks/*', permission: 'write', projectScoped: true },
+  { method: 'GET', path: '/api/live-tasks', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/required-actions', permission: 'read', projectScoped: true },
+  { method: 'GET', path: '/api/recovery/*', permission: 'read' },
+
+  // Runners and processes (server.ts, runner-controls.ts)
+  { method: 'GET', path: '/api/runners', permission: 'read' },
+  { method: 'GET', path: '/api/agents', permission: 'read' },
+  { method: 'GET', path: '/api/system/processes', permission: 'logs' },
+  { method: '*', path: '/api/system/processes/:pid/kill', permission: 'system' },
+  { method: 'GET', path: '/api/runner/*', permission: 'read' },
+  { method: '*', path: '/api/runner/*', permission: 'system' },
+
+  // Projects (dashboard.ts, chat.ts, devconsole.ts, selfhost.ts, session-logs.ts)
+  { method: 'GET', path: '/api/projects', permission: 'read', projectScoped: true },
+  { method: '*', path: '/api/projects', permission: 'configure' },
+  { method: 'GET', path: '/api/projects/:projectId', permission: 'read', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId', permission: 'configure', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/archive', permission: 'configure', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/unarchive', permission: 'configure', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/dev/fs/applyPatch', permission: 'system', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/dev/cmd/run', permission: 'system', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/dev/git/commit', permission: 'system', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/dev/git/push', permission: 'system', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/dev/*', permission: 'logs', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/selfhost/apply', permission: 'system', projectScoped: true },
+  { method: 'GET', path: '/api/projects/:projectId/session-logs/*', permission: 'logs', projectScoped: true },
+  { method: 'GET', path: '/api/projects/:projectId/*', permission: 'read', projectScoped: true },
+  { method: '*', path: '/api/projects/:projectId/*', permission: 'write', projectScoped: true },
+
+  // Cross-project history (dashboard.ts, inspection.ts, pr-review.ts)
+  { method: 'GET', path: '/api/dashboard', permission: 'read' },
+  { method: 'GET', path: '/api/dashboard/*', permission: 'read' },
+  { method: 'GET', path: '/api/activity', permission: 'read' },
+  { method: 'GET', path: '/api/runs', permission: 'read' },
+  { method: 'GET', path: '/api/runs/*', permission: 'read' },
+  { method: 'GET', path: '/api/sessions', permission: 'read' },
+  { method: 'GET', path: '/api/sessions/*', permission: 'read' },
+  { method: 'GET', path: '/api/inspection', permission: 'read' },
+  { method: 'GET', path: '/api/inspection/*', permission: 'read' },
+  { method: '*', path: '/api/inspection/*', permission: 'write' },
+  { method: 'GET', path: '/api/pr-reviews', permission: 'read' },
+  { method: 'GET', path: '/api/pr-reviews/*', permission: 'read' },
+  { method: '*', path: '/api/pr-reviews/*', permission: 'write' },
+
+  // Logs (executor-logs.ts, supervisor-logs.ts, audit.ts)
+  { method: 'GET', path: '/api/audit', permission: 'logs' },
+  { method: 'GET', path: '/api/audit/*', permission: 'logs' },
+  { method: 'GET', path: '/api/executor/*', permission: 'logs' },
+  { method: '*', path: '/api/executor/*', permission: 'system' },
+  { method: 'GET', path: '/api/supervisor/logs', permission: 'logs' },
+  { method: 'GET', path: '/api/supervisor/logs/*', permission: 'logs' },
+  { method: '*', path: '/api/supervisor/logs', permission: 'system' },
+
+  // Configuration (settings.ts, supervisor-config.ts, claude-*.ts, assistant.ts, ...)
+  { method: 'GET', path: '/api/settings', permission: 'read' },
+  { method: 'GET', path: '/api/settings/*', permission: 'read' },
+  { method: '*', path: '/api/settings/*', permission: 'configure' },
+  { method: 'GET', path: '/api/supervisor/*', permission: 'read' },
+  { method: '*', path: '/api/supervisor/*', permission: 'configure' },
+  { method: 'GET', path: '/api/claude-settings/*', permission: 'read' },
+  { method: '*', path: '/api/claude-settings/*', permission: 'configure' },
+  { method: 'GET', path: '/api/claude-files/*', permission: 'read' },
+  { method: '*', path: '/api/claude-files/*', permission: 'configure' },
+  { method: 'GET', path: '/api/claude-hooks', permission: 'read' },
+  { method: 'GET', path: '/api/claude-hooks/*', permission: 'read' },
+  { method: '*', path: '/api/claude-hooks/*', permission: 'configure' },
+  { method: 'GET', path: '/api/assistant/*', permission: 'read' },
+  { method: '*', path: '/api/assistant/propose', permission: 'write' },
+  { method: '*', path: '/api/assistant/validate', permission: 'write' },
+  { method: '*', path: '/api/assistant/evaluate', permission: 'write' },
+  { method: '*', path: '/api/assistant/*', permission: 'configure' },
+  { method: 'GET', path: '/api/repo/*', permission: 'read' },
+  { method: 'GET', path: '/api/templates', permission: 'read' },
+  { method: 'GET', path: '/api/templates/*', permission: 'read' },
+  { method: '*', path: '/api/templates', permission: 'configure' },
+  { method: '*', path: '/api/templates/*', permission: 'configure' },
+  { method: 'GET', path: '/api/schedules', permission: 'read' },
+  { method: 'GET', path: '/api/schedules/*', permission: 'read' },
+  { method: '*', path: '/api/schedules/:id/run', permission: 'write' },
+  { method: '*', path: '/api/schedules', permission: 'configure' },
+  { method: '*', path: '/api/schedules/*', permission: 'configure' },
+  // Webhook URLs usually embed a secret token
+  { method: '*', path: '/api/webhooks', permission: 'configure' },
+  { method: '*', path: '/api/webhooks/*', permission: 'configure' },
+  { method: 'GET', path: '/api/budgets', permission: 'read' },
+  { method: 'GET', path: '/api/budgets/*', permission: 'read' },
+  { method: '*', path: '/api/budgets', permission: 'configure' },
+  { method: '*', path: '/api/budgets/*', permission: 'configure' },
+  { method: 'GET', path: '/api/preferences', permission: 'read' },
+  { method: 'GET', path: '/api/preferences/*', permission: 'read' },
+  { method: '*', path: '/api/preferences', permission: 'configure' },
+  { method: '*', path: '/api/preferences/*', permission: 'configure' },
+  { method: 'GET', path: '/api/skills', permission: 'read' },
+  { method: 'GET', path: '/api/skills/*', permission: 'read' },
+  { method: '*', path: '/api/skills/*', permission: 'configure' },
+];
+
+/**
+ * Compile a rule path into a RegExp
+ */
+function compilePath(rulePath: string): RegExp {
+  const wildcard = rulePath.endsWith('/*');
+  const base = wildcard ? rulePath.slice(0, -2) : rulePath;
+  const pattern = base
+    .split('/')
+    .map(segment => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('/');
+  return new RegExp(`^${pattern}${wildcard ? '(?:/[^/]+)+' : ''}/?$`);
+}
+
+const COMPILED_RULES = ROUTE_PERMISSIONS.map(rule => ({ rule, regex: compilePath(rule.path) }));
+
+/**
+ * Find the rule for a request.
+ * Routes without a rule require 'read' for GET and 'system' otherwise.
+ */
+export function resolveRoutePermission(method: string, fullPath: string): RoutePermissionRule {
+  // HEAD / OPTIONS never change state
+  const normalized = method === 'HEAD' || method === 'OPTIONS' ? 'GET' : method.toUpperCase();
+  const found = COMPILED_RULES.find(({ rule, regex }) =>
+    (rule.method === '*' || rule.method === normalized) && regex.test(fullPath)
+  );
+  if (found) {
+    return found.rule;
+  }
+  return { method: '*', path: fullPath, permission: normalized === 'GET' ? 'read' : 'system' };
+}
+
+/**
+ * Role of the caller.
+ * Requests that did not go through API key auth (no auth configured) are admin,
+ * matching local dev mode; public-path requests ('anonymous') are guest.
+ */
+export function getRequestRole(req: AuthenticatedRequest): UserRole {
+  if (req.role) {
+    return req.role;
+  }
+  return req.userId === undefined || req.userId === 'local' ? 'admin' : 'guest';
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether `projectPath` is inside the caller's project scope.
+ * A path is in scope when it equals a scope path or lies below one.
+ */
+export function isProjectPathAllowed(projectPaths: string[] | undefined, projectPath: string | undefined): boolean {
+  if (!projectPaths) {
+    return true;
+  }
+  if (!projectPath) {
+    return false;
+  }
+  const target = path.resolve(projectPath);
+  return projectPaths.some(scope => {
+    const root = path.resolve(scope);
+    return target === root || target.startsWith(root + path.sep);
+  });
+}
+
+/**
+ * Create middleware enforcing ROUTE_PERMISSIONS.
+ * Mount on '/api' after the API key auth middleware.
+ */
+export function createRoutePermissionGuard() {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    // Mounted via app.use('/api', ...): rebuild the full path as the bypass does
+    const fullPath = (req.baseUrl || '') + req.path;
+    const rule = resolveRoutePermission(req.method, fullPath);
+    if (rule.permission === null) {
+      return next();
+    }
+
+    const role = getRequestRole(req);
+    if (!hasPermission(role, rule.permission)) {
+      return res.status(403).json({
+        error: 'FORBIDDEN',
+        message: `Role '${role}' does not have '${rule.permission}' permission for ${req.method} ${fullPath}`,
+        requiredPermission: rule.permission,
+        currentRole: role,
+      });
+    }
+
+    if (req.projectPaths && !rule.projectScoped) {
+      return res.status(403).json({
+        error: 'FORBIDDEN',
+        message: `API key is limited to projects ${req.projectPaths.join(', ')}; ${req.method} ${fullPath} is not project-scoped`,
+        requiredPermission: rule.permission,
+        currentRole: role,
+      });
+    }
+
+    next();
+  };
+}
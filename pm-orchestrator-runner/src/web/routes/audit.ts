@@ -0,0 +1,114 @@
+/**
+ * Audit Routes - Query / export / verify the audit log
+ * Per spec/42_AUDIT_LOG.md
+ *
+ * Provides:
+ * - Entry query (GET /api/audit)
+ * - JSONL export (GET /api/audit/export)
+ * - Hash chain verification (GET /api/audit/verify)
+ *
+ * Filters (query string, shared by query and export): user_id, device_name,
+ * method, route, target_id, outcome, since, until.
+ */
+
+import { Router, Request, Response } from 'express';
+import { AuditLog, AUDIT_OUTCOMES, type AuditOutcome, type AuditQuery } from '../../audit';
+
+export interface AuditRoutesConfig {
+  auditLog: AuditLog;
+}
+
+/**
+ * Build the filter from the query string
+ * @returns filter, or a list of validation errors
+ */
+function parseAuditQuery(query: Request['query']): { filter: AuditQuery } | { errors: string[] } {
+  const errors: string[] = [];
+  const filter: AuditQuery = {};
+  for (const key of ['user_id', 'device_name', 'method', 'route', 'target_id'] as const) {
+    if (typeof query[key] === 'string' && query[key]) {
+      filter[key] = query[key] as string;
+    }
+  }
+  if (typeof query.outcome === 'string' && query.outcome) {
+    if (AUDIT_OUTCOMES.includes(query.outcome as AuditOutcome)) {
+      filter.outcome = query.outcome as AuditOutcome;
+    } else {
+      errors.push(`outcome must be one of ${AUDIT_OUTCOMES.join(', ')}`);
+    }
+  }
+  for (const key of ['since', 'until'] as const) {
+    if (typeof query[key] === 'string' && query[key]) {
+      const time = Date.parse(query[key] as string);
+      if (Number.isNaN(time)) {
+        errors.push(`${key} must be an ISO 8601 timestamp`);
+      } else {
+        filter[key] = new Date(time).toISOString();
+      }
+    }
+  }
+  return errors.length > 0 ? { errors } : { filter };
+}
+
+export function createAuditRoutes(config: AuditRoutesConfig): Router {
+  const router = Router();
+  const { auditLog } = config;
+
+  /**
+   * GET /api/audit
+   * Entries matching the filters (newest first). Query: limit (default 100, max 1000), offset
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    const parsed = parseAuditQuery(req.query);
+    if ('errors' in parsed) {
+      res.status(400).json({ error: 'VALIDATION_ERROR', message: parsed.errors.join(', ') });
+      return;
+    }
+    try {
+      const limit = Math.min(1000, Math.max(1, parseInt(String(req.query.limit ?? '100'), 10) || 100));
+      const offset = Math.max(0, parseInt(String(req.query.offset ?? '0'), 10) || 0);
+      const { entries, total } = await auditLog.query({ ...parsed.filter, limit, offset });
+      res.json({ entries, total, limit, offset });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/audit/export
+   * Matching entries as JSONL (oldest first), exactly as stored
+   */
+  router.get('/export', async (req: Request, res: Response) => {
+    const parsed = parseAuditQuery(req.query);
+    if ('errors' in parsed) {
+      res.status(400).json({ error: 'VALIDATION_ERROR', message: parsed.errors.join(', ') });
+      return;
+    }
+    try {
+      const jsonl = await auditLog.exportJsonl(parsed.filter);
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${date}.jsonl"`);
+      res.send(jsonl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/audit/verify
+   * Recompute the hash chain and report the first broken entry
+   */
+  router.get('/verify', async (_req: Request, res: Response) => {
+    try {
+      res.json(await auditLog.verify());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  return router;
+}
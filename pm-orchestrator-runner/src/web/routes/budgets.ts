@@ -0,0 +1,133 @@
+/**
+ * Budget Routes - CRUD and spend status API for budget caps
+ * Per spec/40_BUDGETS.md
+ *
+ * Provides:
+ * - Budget listing (GET /api/budgets)
+ * - Spend vs budget (GET /api/budgets/status)
+ * - Budget creation (POST /api/budgets)
+ * - Budget update (PUT /api/budgets/:id)
+ * - Budget deletion (DELETE /api/budgets/:id)
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  BudgetGuard,
+  BudgetValidationError,
+  BUDGET_PERIODS,
+  BUDGET_SCOPES,
+  type BudgetInput,
+} from '../../budget';
+
+export interface BudgetRoutesConfig {
+  /** Guard whose store backs the routes */
+  guard: BudgetGuard;
+}
+
+/**
+ * Pick the accepted budget fields from a request body
+ */
+function toBudgetInput(body: Record<string, unknown>): BudgetInput {
+  const input: Record<string, unknown> = {};
+  for (const key of ['name', 'scope', 'scope_id', 'period', 'limit_usd', 'anchor', 'enabled']) {
+    if (body[key] !== undefined) {
+      input[key] = body[key];
+    }
+  }
+  return input as BudgetInput;
+}
+
+export function createBudgetRoutes(config: BudgetRoutesConfig): Router {
+  const router = Router();
+  const { guard } = config;
+  const store = guard.getStore();
+
+  /**
+   * GET /api/budgets
+   * List all budgets plus the accepted scopes / periods (for the settings form)
+   */
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const budgets = await store.list();
+      res.json({ budgets, scopes: BUDGET_SCOPES, periods: BUDGET_PERIODS });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/budgets/status
+   * Spend vs limit for every budget in its current period
+   */
+  router.get('/status', async (_req: Request, res: Response) => {
+    try {
+      const statuses = await guard.getStatuses();
+      res.json({ statuses });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * POST /api/budgets
+   * Create a budget
+   * Body: { name, scope, scope_id, period, limit_usd, anchor?, enabled? }
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const budget = await store.create(toBudgetInput(req.body || {}));
+      res.status(201).json({ budget });
+    } catch (error) {
+      if (error instanceof BudgetValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * PUT /api/budgets/:id
+   * Update a budget (partial). Send anchor "" to clear it.
+   */
+  router.put('/:id', async (req: Request, res: Response) => {
+    try {
+      const budget = await store.update(req.params.id as string, toBudgetInput(req.body || {}));
+      if (!budget) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Budget not found' });
+        return;
+      }
+      res.json({ budget });
+    } catch (error) {
+      if (error instanceof BudgetValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * DELETE /api/budgets/:id
+   * Delete a budget and its approvals (spend records are kept)
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await store.delete(req.params.id as string);
+      if (!deleted) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Budget not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  return router;
+}
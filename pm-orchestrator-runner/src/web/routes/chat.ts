@@ -22,6 +22,13 @@ import {
 } from "../dal/types";
 import { v4 as uuidv4 } from "uuid";
 import { IQueueStore, TaskTypeValue } from "../../queue/queue-store";
+import {
+  DecodedAttachment,
+  TaskAttachmentError,
+  decodeAttachments,
+  deleteTaskAttachments,
+  saveTaskAttachments,
+} from "../../queue/task-attachments";
 import { detectTaskType } from "../../utils/task-type-detector";
 import { parseCommand, getCommandRegistry, CommandContext } from "../services/custom-command-registry";
 import { log } from "../../logging/app-logger";
@@ -335,7 +342,7 @@ export function createChatRoutes(stateDirOrConfig: string | ChatRoutesConfig): R
           return;
         }
 
-        // Validate images if provided
+        // Validate images if provided: they are passed to the executor (spec/51_TASK_ATTACHMENTS.md)
         const validatedImages: ChatImageAttachment[] = [];
         if (images && Array.isArray(images)) {
           for (const img of images) {
@@ -348,6 +355,16 @@ export function createChatRoutes(stateDirOrConfig: string | ChatRoutesConfig): R
             }
           }
         }
+        let decodedImages: DecodedAttachment[];
+        try {
+          decodedImages = decodeAttachments(validatedImages);
+        } catch (error) {
+          if (error instanceof TaskAttachmentError) {
+            res.status(400).json({ error: error.code, message: error.message } as ErrorResponse);
+            return;
+          }
+          throw error;
+        }
 
         // Check project exists (already fetched above for defaultCommand)
         if (!project) {
@@ -495,6 +512,7 @@ export function createChatRoutes(stateDirOrConfig: string | ChatRoutesConfig): R
           try {
             // Detect task type from prompt content for proper execution handling
             const taskType = detectTaskType(finalContent);
+            const attachments = saveTaskAttachments(project.projectPath, taskRunId, decodedImages);
             await queueStore.enqueue(
               effectiveSessionId,
               taskGroupId,
@@ -507,9 +525,10 @@ export function createChatRoutes(stateDirOrConfig: string | ChatRoutesConfig): R
                 addTest: addTest === true,
                 addReview: addReview === true,
                 projectAlias: project.alias,
+                attachments,
               }
             );
-            log.app.info('Task enqueued', { taskId: taskRunId, taskGroupId, projectId, addTest: addTest === true, addReview: addReview === true });
+            log.app.info('Task enqueued', { taskId: taskRunId, taskGroupId, projectId, addTest: addTest === true, addReview: addReview === true, attachments: attachments.length });
             // Emit task_queued activity event with full identifier chain
             try {
               await dal.createActivityEvent({
@@ -535,6 +554,14 @@ export function createChatRoutes(stateDirOrConfig: string | ChatRoutesConfig): R
           } catch (queueError) {
             // Log but don't fail the request if TaskGroup creation fails
             log.app.error("Failed to create TaskGroup", { error: queueError instanceof Error ? queueError.message : String(queueError) });
+            // No task refers to the saved images
+            if (decodedImages.length > 0) {
+              try {
+                deleteTaskAttachments(project.projectPath, taskRunId);
+              } catch (cleanupError) {
+                log.app.warn("Failed to remove attachments of unqueued task", { taskId: taskRunId, error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError) });
+              }
+            }
           }
         }
 
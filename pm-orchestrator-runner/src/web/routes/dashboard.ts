@@ -7,11 +7,13 @@ import { Router, Request, Response } from 'express';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import type { AuthenticatedRequest } from '../middleware/auth';
+import { isProjectPathAllowed } from '../middleware/permissions';
 import {
   InspectionPacket,
 } from '../dal/no-dynamo';
 import { initDAL, getDAL, isDALInitialized } from '../dal/dal-factory';
 import type { IQueueStore } from '../../queue/queue-store';
+import { sumTaskUsage } from '../../queue/task-usage';
 import type { TaskState, ProjectIndexStatus, ProjectUserStatus, ProjectSortField, SortDirection, ProjectIndex } from '../dal/types';
 import { buildProjectCostInfo, getAllModelCostInfo } from '../services/ai-cost-service';
 import { log } from '../../logging/app-logger';
@@ -103,8 +105,8 @@ export function createDashboardRoutes(stateDirOrConfig: string | DashboardRoutes
         orgId: authReq.orgId,
       });
 
-      // Enrich projects with cost info
-      const projectsWithCost = result.items.map(p => {
+      // Enrich projects with cost info (keys limited to project paths see only those)
+      const projectsWithCost = result.items.filter(p => isProjectPathAllowed(authReq.projectPaths, p.projectPath)).map(p => {
         const proj = p as ProjectIndex & { aiModel?: string; aiProvider?: string };
         const costInfo = proj.aiModel
           ? buildProjectCostInfo(proj.aiModel, proj.aiProvider)
@@ -386,6 +388,7 @@ export function createDashboardRoutes(stateDirOrConfig: string | DashboardRoutes
             // Set latest_status from most recent task
             const sorted = [...groupTasks].sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || ''));
             if (sorted.length > 0) (tg as Record<string, unknown>).latest_status = sorted[0].status;
+            (tg as Record<string, unknown>).usage = sumTaskUsage(groupTasks);
           }
         }
       }
@@ -405,6 +408,7 @@ export function createDashboardRoutes(stateDirOrConfig: string | DashboardRoutes
         runs: projectRuns.slice(0, 20),
         recentTaskGroups,
         recentTasks,
+        usageTotals: sumTaskUsage(queueTasksForProject),
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -11,3 +11,11 @@ export { createRunnerControlsRoutes } from "./runner-controls";
 export { createSupervisorLogsRoutes } from "./supervisor-logs";
 export { createExecutorLogsRoutes } from "./executor-logs";
 export { createTemplateRoutes } from "./templates";
+export { createScheduleRoutes } from "./schedules";
+export { createWebhookRoutes } from "./webhooks";
+export { createBudgetRoutes } from "./budgets";
+export { createPreferenceRoutes } from "./preferences";
+export { createQueueEventRoutes } from "./queue-events";
+export { createQueueControlRoutes } from "./queue-controls";
+export { createMeRoutes } from "./me";
+export { createAuditRoutes } from "./audit";
@@ -0,0 +1,40 @@
+/**
+ * Me Routes - The caller's own access
+ * Per spec/41_ROUTE_PERMISSIONS.md
+ *
+ * Provides:
+ * - Role, permissions and project scope of the API key (GET /api/me/permissions)
+ *
+ * The Web UI uses the permission list to hide actions the key cannot perform.
+ */
+
+import { Router, Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { getRequestRole, ROLE_PERMISSIONS } from '../middleware/permissions';
+
+export interface MeRoutesConfig {
+  /** Whether API key authentication is enabled */
+  authEnabled: boolean;
+}
+
+export function createMeRoutes(config: MeRoutesConfig): Router {
+  const router = Router();
+
+  /**
+   * GET /api/me/permissions
+   */
+  router.get('/permissions', (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const role = getRequestRole(authReq);
+    res.json({
+      auth_enabled: config.authEnabled,
+      user_id: authReq.userId ?? 'local',
+      device_name: authReq.deviceName,
+      role,
+      permissions: ROLE_PERMISSIONS[role],
+      project_paths: authReq.projectPaths ?? null,
+    });
+  });
+
+  return router;
+}
@@ -12,6 +12,7 @@ import type { IDataAccessLayer } from "../dal/dal-interface";
 import type { IGitHubAdapter } from "../dal/pr-review-types";
 import type { ReviewJudgeLLMClient } from "../../pr-review/review-judge";
 import { PRReviewService } from "../../pr-review/pr-review-service";
+import type { PRReviewServiceOptions } from "../../pr-review/pr-review-service";
 
 // ==================== Configuration ====================
 
@@ -20,6 +21,8 @@ export interface PRReviewRoutesConfig {
   github: IGitHubAdapter;
   llmClient: ReviewJudgeLLMClient;
   orgId: string;
+  /** Called after each cycle decision (webhook notifications) */
+  onCycleDecision?: PRReviewServiceOptions["onCycleDecision"];
 }
 
 // ==================== Route Factory ====================
@@ -39,8 +42,8 @@ export interface PRReviewRoutesConfig {
  * - POST   /:projectId/:prNumber/mark-review-arrived   - Mark review arrived
  */
 export function createPRReviewRoutes(config: PRReviewRoutesConfig): Router {
-  const { dal, github, llmClient, orgId } = config;
-  const service = new PRReviewService(dal, github, llmClient, orgId);
+  const { dal, github, llmClient, orgId, onCycleDecision } = config;
+  const service = new PRReviewService(dal, github, llmClient, orgId, { onCycleDecision });
   const router = Router();
 
   // ==================== POST /register ====================
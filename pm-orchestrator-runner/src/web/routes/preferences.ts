@@ -0,0 +1,175 @@
+/**
+ * Preference Routes - Review and correct learned user preferences
+ * Per spec/52_USER_PREFERENCES.md
+ *
+ * Provides:
+ * - Preference listing (GET /api/preferences)
+ * - Per-project export (GET /api/preferences/export)
+ * - Import (POST /api/preferences/import)
+ * - Preference detail (GET /api/preferences/:id)
+ * - Edit / pin / disable (PUT /api/preferences/:id)
+ * - Preference deletion (DELETE /api/preferences/:id)
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  UserPreferenceStore,
+  PreferenceValidationError,
+  type PreferenceStoreConfig,
+  type PreferenceUpdate,
+  type UserPreference,
+} from '../../executor/user-preference-store';
+
+export interface PreferenceRoutesConfig {
+  /** Store location shared with AutoResolvingExecutor (default: ~/.pm-runner/preferences.json) */
+  storeConfig?: PreferenceStoreConfig;
+}
+
+/**
+ * Pick the editable preference fields from a request body
+ */
+function toPreferenceUpdate(body: Record<string, unknown>): PreferenceUpdate {
+  const update: Record<string, unknown> = {};
+  for (const key of ['category', 'keywords', 'choice', 'context', 'confidence', 'pinned', 'disabled']) {
+    if (body[key] !== undefined) {
+      update[key] = body[key];
+    }
+  }
+  return update as PreferenceUpdate;
+}
+
+export function createPreferenceRoutes(config: PreferenceRoutesConfig = {}): Router {
+  const router = Router();
+
+  // The executor writes the same file from other store instances: read it fresh per request
+  const getStore = () => new UserPreferenceStore(config.storeConfig);
+
+  /** Preference with its decayed confidence and whether it would be auto-applied now */
+  const describe = (store: UserPreferenceStore, pref: UserPreference) => {
+    const effectiveConfidence = store.getEffectiveConfidence(pref);
+    return {
+      ...pref,
+      effectiveConfidence,
+      autoApply: !pref.disabled && (pref.pinned === true || effectiveConfidence >= store.getMinAutoApplyConfidence()),
+    };
+  };
+
+  /**
+   * GET /api/preferences
+   * List preferences, highest effective confidence first
+   * Query: project (project path), category
+   */
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      const store = getStore();
+      const project = typeof req.query.project === 'string' ? req.query.project : undefined;
+      const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+      const preferences = store.getAll()
+        .filter(p => (!project || p.projectPath === project) && (!category || p.category === category))
+        .map(p => describe(store, p))
+        .sort((a, b) => b.effectiveConfidence - a.effectiveConfidence);
+      res.json({ preferences, minAutoApplyConfidence: store.getMinAutoApplyConfidence() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/preferences/export
+   * Export the preferences learned in a project (all when project is omitted)
+   */
+  router.get('/export', (req: Request, res: Response) => {
+    try {
+      const project = typeof req.query.project === 'string' && req.query.project ? req.query.project : undefined;
+      res.json(getStore().exportPreferences(project));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * POST /api/preferences/import
+   * Import an export. Body: { preferences, projectPath? }; `project` overrides the
+   * project the preferences are assigned to.
+   */
+  router.post('/import', (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      if (!Array.isArray(body.preferences)) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: 'preferences must be an array' });
+        return;
+      }
+      const project = body.project ?? body.projectPath;
+      if (project !== undefined && (typeof project !== 'string' || !project)) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: 'project must be a non-empty string' });
+        return;
+      }
+      const result = getStore().importPreferences(body.preferences, project);
+      res.status(201).json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/preferences/:id
+   */
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      const store = getStore();
+      const preference = store.get(req.params.id as string);
+      if (!preference) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Preference not found' });
+        return;
+      }
+      res.json({ preference: describe(store, preference) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * PUT /api/preferences/:id
+   * Edit a preference (partial): category, keywords, choice, context, confidence, pinned, disabled
+   */
+  router.put('/:id', (req: Request, res: Response) => {
+    try {
+      const store = getStore();
+      const preference = store.update(req.params.id as string, toPreferenceUpdate(req.body || {}));
+      if (!preference) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Preference not found' });
+        return;
+      }
+      res.json({ preference: describe(store, preference) });
+    } catch (error) {
+      if (error instanceof PreferenceValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * DELETE /api/preferences/:id
+   */
+  router.delete('/:id', (req: Request, res: Response) => {
+    try {
+      if (!getStore().delete(req.params.id as string)) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Preference not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,124 @@
+/**
+ * Queue Control Routes - Pause / drain / resume claiming
+ * Per spec/53_QUEUE_CONTROLS.md
+ *
+ * Provides:
+ * - Active controls with drain progress (GET /api/queue/controls)
+ * - Pause claiming (POST /api/queue/pause)
+ * - Drain: finish in-flight work, then stop (POST /api/queue/drain)
+ * - Resume (POST /api/queue/resume)
+ *
+ * Body of pause / drain / resume: { namespace?, project?, reason? }.
+ * Without project the control covers the whole namespace.
+ */
+
+import { Router, Request, Response } from 'express';
+import type { IQueueStore } from '../../queue/queue-store';
+import {
+  QueueControlStore,
+  QueueControlValidationError,
+  type QueueControl,
+  type QueueControlMode,
+  getInFlightTasks,
+} from '../../queue/queue-controls';
+
+export interface QueueControlRoutesConfig {
+  store: QueueControlStore;
+  queueStore: IQueueStore;
+  /** Default namespace (the server's) */
+  namespace: string;
+  /** Project of tasks without project_path */
+  projectRoot?: string;
+}
+
+export function createQueueControlRoutes(config: QueueControlRoutesConfig): Router {
+  const router = Router();
+  const { store, queueStore } = config;
+
+  const targetNamespace = (req: Request): string => {
+    const fromBody = typeof req.body?.namespace === 'string' && req.body.namespace ? req.body.namespace : undefined;
+    const fromQuery = typeof req.query.namespace === 'string' && req.query.namespace ? req.query.namespace : undefined;
+    return fromBody ?? fromQuery ?? config.namespace;
+  };
+
+  /** Control with its in-flight task count; a drain is done once nothing is in flight */
+  const describe = async (controls: QueueControl[], namespace: string) => {
+    const items = controls.length > 0 ? await queueStore.getAllItems(namespace) : [];
+    return controls.map(control => {
+      const inFlight = getInFlightTasks(control, items, config.projectRoot).length;
+      return { ...control, in_flight: inFlight, drained: control.mode === 'drain' && inFlight === 0 };
+    });
+  };
+
+  /**
+   * GET /api/queue/controls
+   * Query: namespace (default: the server's)
+   */
+  router.get('/controls', async (req: Request, res: Response) => {
+    try {
+      const namespace = targetNamespace(req);
+      const controls = await describe(await store.list(namespace), namespace);
+      res.json({ namespace, controls });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  const setControl = (mode: QueueControlMode) => async (req: Request, res: Response) => {
+    try {
+      const body = (req.body || {}) as Record<string, unknown>;
+      const namespace = targetNamespace(req);
+      const control = await store.set({
+        namespace,
+        mode,
+        project_path: body.project as string | undefined,
+        reason: body.reason as string | undefined,
+      });
+      const [described] = await describe([control], namespace);
+      res.json({ control: described });
+    } catch (error) {
+      if (error instanceof QueueControlValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  };
+
+  /**
+   * POST /api/queue/pause
+   * Stop claiming; in-flight tasks keep running
+   */
+  router.post('/pause', setControl('pause'));
+
+  /**
+   * POST /api/queue/drain
+   * Stop claiming except subtasks of in-flight tasks
+   */
+  router.post('/drain', setControl('drain'));
+
+  /**
+   * POST /api/queue/resume
+   */
+  router.post('/resume', async (req: Request, res: Response) => {
+    try {
+      const project = req.body?.project;
+      if (project !== undefined && (typeof project !== 'string' || !project)) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: 'project must be a non-empty string' });
+        return;
+      }
+      if (!(await store.clear(targetNamespace(req), project))) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Queue is not paused or draining' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,131 @@
+/**
+ * Queue Event Routes - Server-push stream of queue / task-group state
+ * Per spec/20_QUEUE_STORE.md (キューイベントストリーム)
+ *
+ * Provides:
+ * - Event stream via Server-Sent Events (GET /api/queue/events)
+ *
+ * Resuming: EventSource sends the Last-Event-ID header on reconnect; a first
+ * connection may pass ?lastEventId= instead. Events after that ID are replayed
+ * before live events. When they cannot be replayed a `resync` event tells the
+ * client to re-fetch its state.
+ */
+
+import { Router, Request, Response } from 'express';
+import { QUEUE_EVENT_TYPES, QueueEvent, QueueEventStream, QueueEventType } from '../../queue/queue-event-stream';
+import type { AuthenticatedRequest } from '../middleware/auth';
+import { isProjectPathAllowed } from '../middleware/permissions';
+
+export interface QueueEventRoutesConfig {
+  /** Stream the queue store publishes to */
+  stream: QueueEventStream;
+  /** Interval of keep-alive comments in ms (default: 30000) */
+  keepAliveMs?: number;
+  /** Project of tasks without project_path (for API keys limited to project paths) */
+  projectRoot?: string;
+}
+
+/**
+ * Event filter built from the query string
+ */
+interface QueueEventFilter {
+  taskId?: string;
+  taskGroupId?: string;
+  types?: Set<QueueEventType>;
+  /** API key project scope */
+  projectPaths?: string[];
+  projectRoot?: string;
+}
+
+function matches(event: QueueEvent, filter: QueueEventFilter): boolean {
+  if (filter.types && !filter.types.has(event.type)) {
+    return false;
+  }
+  if (event.type === 'runner_heartbeat') {
+    return isProjectPathAllowed(filter.projectPaths, event.project_root);
+  }
+  if (!isProjectPathAllowed(filter.projectPaths, event.project_path || filter.projectRoot)) {
+    return false;
+  }
+  if (filter.taskId && event.task_id !== filter.taskId) {
+    return false;
+  }
+  if (filter.taskGroupId && event.task_group_id !== filter.taskGroupId) {
+    return false;
+  }
+  return true;
+}
+
+function writeEvent(res: Response, event: QueueEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+export function createQueueEventRoutes(config: QueueEventRoutesConfig): Router {
+  const router = Router();
+  const { stream } = config;
+  const keepAliveMs = config.keepAliveMs ?? 30000;
+
+  /**
+   * GET /api/queue/events
+   * Query: task_id?, task_group_id?, types? (comma-separated), lastEventId?
+   */
+  router.get('/events', (req: Request, res: Response) => {
+    const typesParam = typeof req.query.types === 'string' ? req.query.types : '';
+    const types = typesParam.split(',').map(t => t.trim()).filter(Boolean);
+    const unknownTypes = types.filter(t => !QUEUE_EVENT_TYPES.includes(t as QueueEventType));
+    if (unknownTypes.length > 0) {
+      res.status(400).json({
+        error: 'VALIDATION_ERROR',
+        message: `Unknown event types: ${unknownTypes.join(', ')}. Valid: ${QUEUE_EVENT_TYPES.join(', ')}`,
+      });
+      return;
+    }
+
+    const filter: QueueEventFilter = {
+      ...(typeof req.query.task_id === 'string' && req.query.task_id ? { taskId: req.query.task_id } : {}),
+      ...(typeof req.query.task_group_id === 'string' && req.query.task_group_id ? { taskGroupId: req.query.task_group_id } : {}),
+      ...(types.length > 0 ? { types: new Set(types as QueueEventType[]) } : {}),
+      projectPaths: (req as AuthenticatedRequest).projectPaths,
+      projectRoot: config.projectRoot,
+    };
+    const lastEventId = req.get('Last-Event-ID') ||
+      (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.flushHeaders();
+
+    res.write(`event: connected\ndata: ${JSON.stringify({ last_event_id: stream.getLastEventId(), timestamp: new Date().toISOString() })}\n\n`);
+
+    // Replay missed events (or ask the client to re-fetch)
+    if (lastEventId) {
+      const missed = stream.getSince(lastEventId);
+      if (missed === null) {
+        res.write(`event: resync\ndata: ${JSON.stringify({ last_event_id: stream.getLastEventId() })}\n\n`);
+      } else {
+        for (const event of missed) {
+          if (matches(event, filter)) writeEvent(res, event);
+        }
+      }
+    }
+
+    const unsubscribe = stream.subscribe(event => {
+      if (matches(event, filter)) writeEvent(res, event);
+    });
+
+    // Keep the connection open through proxies
+    const keepAlive = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, keepAliveMs);
+
+    req.on('close', () => {
+      unsubscribe();
+      clearInterval(keepAlive);
+    });
+  });
+
+  return router;
+}
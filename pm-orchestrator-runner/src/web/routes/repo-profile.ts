@@ -67,7 +67,10 @@ export function createRepoProfileRoutes(
   return router;
 }
 
-async function scanRepoProfile(projectRoot: string): Promise<RepoProfile> {
+/**
+ * Scan a project directory (also used to derive QA gates, spec/45_QA_GATES.md)
+ */
+export async function scanRepoProfile(projectRoot: string): Promise<RepoProfile> {
   const profile: RepoProfile = {
     name: path.basename(projectRoot),
     type: "unknown",
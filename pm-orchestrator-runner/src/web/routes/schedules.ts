@@ -0,0 +1,185 @@
+/**
+ * Schedule Routes - CRUD API for scheduled/recurring tasks
+ * Per spec/38_SCHEDULED_TASKS.md
+ *
+ * Provides:
+ * - Schedule listing (GET /api/schedules)
+ * - Schedule detail (GET /api/schedules/:id)
+ * - Schedule creation (POST /api/schedules)
+ * - Schedule update (PUT /api/schedules/:id)
+ * - Schedule deletion (DELETE /api/schedules/:id)
+ * - Run history (GET /api/schedules/:id/history)
+ * - Manual trigger (POST /api/schedules/:id/run)
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  Scheduler,
+  ScheduleValidationError,
+  getScheduleTaskGroupId,
+  type ScheduleDefinition,
+  type ScheduleInput,
+} from '../../schedule';
+
+export interface ScheduleRoutesConfig {
+  /** Scheduler whose store backs the routes (also used for "run now") */
+  scheduler: Scheduler;
+}
+
+/**
+ * Pick the accepted schedule fields from a request body
+ */
+function toScheduleInput(body: Record<string, unknown>): ScheduleInput {
+  const input: Record<string, unknown> = {};
+  for (const key of ['name', 'cron', 'prompt', 'template_id', 'project_path', 'task_type', 'task_group_id', 'catch_up', 'enabled']) {
+    if (body[key] !== undefined) {
+      input[key] = body[key];
+    }
+  }
+  return input as ScheduleInput;
+}
+
+function toResponse(schedule: ScheduleDefinition) {
+  return {
+    ...schedule,
+    task_group_id: getScheduleTaskGroupId(schedule),
+  };
+}
+
+export function createScheduleRoutes(config: ScheduleRoutesConfig): Router {
+  const router = Router();
+  const { scheduler } = config;
+  const store = scheduler.getStore();
+
+  /**
+   * GET /api/schedules
+   * List all schedules
+   */
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const schedules = await store.list();
+      res.json({ schedules: schedules.map(toResponse), scheduler_running: scheduler.isRunning() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/schedules/:id
+   * Get a single schedule with its most recent runs
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const schedule = await store.get(req.params.id as string);
+      if (!schedule) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Schedule not found' });
+        return;
+      }
+      const recent_runs = await store.getHistory(schedule.schedule_id, 10);
+      res.json({ schedule: toResponse(schedule), recent_runs });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * POST /api/schedules
+   * Create a schedule
+   * Body: { name, cron, prompt?, template_id?, project_path?, task_type?, task_group_id?, catch_up?, enabled? }
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const schedule = await store.create(toScheduleInput(req.body || {}));
+      res.status(201).json({ schedule: toResponse(schedule) });
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * PUT /api/schedules/:id
+   * Update a schedule (partial). Empty strings clear optional fields.
+   */
+  router.put('/:id', async (req: Request, res: Response) => {
+    try {
+      const schedule = await store.update(req.params.id as string, toScheduleInput(req.body || {}));
+      if (!schedule) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Schedule not found' });
+        return;
+      }
+      res.json({ schedule: toResponse(schedule) });
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * DELETE /api/schedules/:id
+   * Delete a schedule and its history (already enqueued tasks are kept)
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await store.delete(req.params.id as string);
+      if (!deleted) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Schedule not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/schedules/:id/history
+   * Run history (newest first). Query: limit (default 50)
+   */
+  router.get('/:id/history', async (req: Request, res: Response) => {
+    try {
+      const schedule = await store.get(req.params.id as string);
+      if (!schedule) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Schedule not found' });
+        return;
+      }
+      const limit = Math.max(1, parseInt(String(req.query.limit ?? '50'), 10) || 50);
+      const runs = await store.getHistory(schedule.schedule_id, limit);
+      res.json({ schedule_id: schedule.schedule_id, runs });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * POST /api/schedules/:id/run
+   * Enqueue the schedule's task now (does not move next_run_at)
+   */
+  router.post('/:id/run', async (req: Request, res: Response) => {
+    try {
+      const run = await scheduler.runNow(req.params.id as string);
+      if (!run) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Schedule not found' });
+        return;
+      }
+      res.status(run.outcome === 'ENQUEUED' ? 201 : 500).json({ run });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  return router;
+}
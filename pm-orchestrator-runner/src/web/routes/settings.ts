@@ -4,12 +4,29 @@
  * Provides API endpoints for settings management including API keys
  * and project settings (LLM config, preferences, etc.)
  * Uses file-based persistence for API keys (STATE_DIR/api-keys.json).
+ * Review Loop quality criteria live in ProjectSettingsStore (spec/25_REVIEW_LOOP.md Section 12).
  */
 
 import { Router, Request, Response } from "express";
 import * as fs from "fs";
 import * as path from "path";
 import { loadGlobalConfig, saveGlobalConfig } from "../../config/global-config";
+import {
+  getAPIKeyFromEnv,
+  getBaseUrlFromEnv,
+  getDefaultModel,
+  listOpenAICompatibleModels,
+} from "../../mediation/llm-client";
+import { registerOpenAICompatibleModelConfigs } from "../../model-policy";
+import { ProjectSettingsStore, loadProjectQualityCriteria } from "../../settings";
+import { CustomCriteriaValidationError, type CustomCriterionDefinition } from "../../review-loop/custom-criteria";
+
+export interface SettingsRoutesOptions {
+  /** Project of /quality-criteria when no project is given */
+  projectRoot?: string;
+  /** ProjectSettingsStore directory (default: ~/.pm-orchestrator/projects) */
+  projectSettingsDir?: string;
+}
 
 /**
  * Project Settings data structure
@@ -163,7 +180,7 @@ function saveProjectSettings(stateDir: string, settings: ProjectSettingsData): v
 /**
  * Create settings routes
  */
-export function createSettingsRoutes(stateDir: string): Router {
+export function createSettingsRoutes(stateDir: string, options: SettingsRoutesOptions = {}): Router {
   const router = Router();
 
   /**
@@ -319,9 +336,12 @@ export function createSettingsRoutes(stateDir: string): Router {
       res.json({
         provider,
         model,
+        baseUrl: gc.internalLlm?.baseUrl || null,
         defaults: {
           openai: 'gpt-4o-mini',
           anthropic: 'claude-haiku-4-5-20251001',
+          'openai-compatible': getDefaultModel('openai-compatible'),
+          baseUrl: getBaseUrlFromEnv('openai-compatible'),
         },
       });
     } catch (error) {
@@ -332,21 +352,22 @@ export function createSettingsRoutes(stateDir: string): Router {
   /**
    * PUT /api/settings/internal-llm
    * Update internal LLM settings in global config
-   * Body: { provider?: string, model?: string }
+   * Body: { provider?: string, model?: string, baseUrl?: string }
    */
   router.put("/internal-llm", (req: Request, res: Response) => {
     try {
-      const { provider, model } = req.body;
+      const { provider, model, baseUrl } = req.body;
       const gc = loadGlobalConfig();
 
       gc.internalLlm = {
         ...gc.internalLlm,
         ...(provider !== undefined ? { provider: provider || undefined } : {}),
         ...(model !== undefined ? { model: model || undefined } : {}),
+        ...(baseUrl !== undefined ? { baseUrl: baseUrl || undefined } : {}),
       };
 
-      // Clean up: remove the key entirely if both values are empty
-      if (!gc.internalLlm.provider && !gc.internalLlm.model) {
+      // Clean up: remove the key entirely if all values are empty
+      if (!gc.internalLlm.provider && !gc.internalLlm.model && !gc.internalLlm.baseUrl) {
         delete gc.internalLlm;
       }
 
@@ -366,5 +387,77 @@ export function createSettingsRoutes(stateDir: string): Router {
     }
   });
 
+  /**
+   * GET /api/settings/internal-llm/models
+   * Discover models on the openai-compatible server (GET {baseUrl}/models)
+   * and register them at zero cost.
+   * Query: baseUrl (default: internalLlm.baseUrl, then OPENAI_COMPATIBLE_BASE_URL)
+   */
+  router.get("/internal-llm/models", async (req: Request, res: Response) => {
+    const queryUrl = typeof req.query.baseUrl === "string" ? req.query.baseUrl : "";
+    let baseUrl = queryUrl;
+    if (!baseUrl) {
+      try {
+        baseUrl = loadGlobalConfig().internalLlm?.baseUrl || "";
+      } catch { /* ignore */ }
+    }
+    baseUrl = baseUrl || getBaseUrlFromEnv("openai-compatible");
+
+    try {
+      const modelIds = await listOpenAICompatibleModels(baseUrl, getAPIKeyFromEnv("openai-compatible"));
+      const models = registerOpenAICompatibleModelConfigs(modelIds).map((m) => m.model_id);
+      res.json({ baseUrl, models });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      res.status(502).json({ error: "Model discovery failed", message, baseUrl });
+    }
+  });
+
+  const criteriaProject = (value: unknown): string | null => {
+    if (typeof value === "string" && value) return path.resolve(value);
+    return options.projectRoot ? path.resolve(options.projectRoot) : null;
+  };
+
+  /**
+   * GET /api/settings/quality-criteria
+   * Project-defined Review Loop criteria
+   * Query: project (default: the server's project root)
+   */
+  router.get("/quality-criteria", (req: Request, res: Response) => {
+    const project = criteriaProject(req.query.project);
+    if (!project) {
+      res.status(400).json({ error: "VALIDATION_ERROR", message: "project is required" });
+      return;
+    }
+    res.json({ project, criteria: loadProjectQualityCriteria(project, options.projectSettingsDir) });
+  });
+
+  /**
+   * PUT /api/settings/quality-criteria
+   * Replace the criteria of a project
+   * Body: { project?, criteria: CustomCriterionDefinition[] }
+   */
+  router.put("/quality-criteria", async (req: Request, res: Response) => {
+    const body = (req.body || {}) as Record<string, unknown>;
+    const project = criteriaProject(body.project);
+    if (!project) {
+      res.status(400).json({ error: "VALIDATION_ERROR", message: "project is required" });
+      return;
+    }
+    try {
+      const store = new ProjectSettingsStore(options.projectSettingsDir);
+      await store.initialize(project);
+      await store.setQualityCriteria(body.criteria as CustomCriterionDefinition[]);
+      res.json({ project, criteria: store.get().qualityCriteria ?? [] });
+    } catch (error) {
+      if (error instanceof CustomCriteriaValidationError) {
+        res.status(400).json({ error: "VALIDATION_ERROR", message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: "INTERNAL_ERROR", message });
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,183 @@
+/**
+ * Webhook Routes - CRUD API for outbound webhook notifications
+ * Per spec/39_WEBHOOKS.md
+ *
+ * Provides:
+ * - Webhook listing (GET /api/webhooks)
+ * - Webhook creation (POST /api/webhooks)
+ * - Webhook update (PUT /api/webhooks/:id)
+ * - Webhook deletion (DELETE /api/webhooks/:id)
+ * - Delivery log (GET /api/webhooks/deliveries, GET /api/webhooks/:id/deliveries)
+ * - Test delivery (POST /api/webhooks/:id/test)
+ *
+ * Secrets are write-only: responses carry has_secret instead.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  WebhookDispatcher,
+  WebhookValidationError,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  type WebhookDefinition,
+  type WebhookInput,
+} from '../../notifications';
+
+export interface WebhookRoutesConfig {
+  /** Dispatcher whose store backs the routes (also used for test deliveries) */
+  dispatcher: WebhookDispatcher;
+}
+
+/**
+ * Pick the accepted webhook fields from a request body
+ */
+function toWebhookInput(body: Record<string, unknown>): WebhookInput {
+  const input: Record<string, unknown> = {};
+  for (const key of ['name', 'url', 'secret', 'format', 'events', 'projects', 'enabled']) {
+    if (body[key] !== undefined) {
+      input[key] = body[key];
+    }
+  }
+  return input as WebhookInput;
+}
+
+function toResponse(webhook: WebhookDefinition) {
+  const { secret, ...rest } = webhook;
+  return { ...rest, has_secret: !!secret };
+}
+
+function parseLimit(value: unknown): number {
+  return Math.max(1, parseInt(String(value ?? '50'), 10) || 50);
+}
+
+export function createWebhookRoutes(config: WebhookRoutesConfig): Router {
+  const router = Router();
+  const { dispatcher } = config;
+  const store = dispatcher.getStore();
+
+  /**
+   * GET /api/webhooks
+   * List all webhooks plus the accepted events / formats (for the settings form)
+   */
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const webhooks = await store.list();
+      res.json({ webhooks: webhooks.map(toResponse), events: WEBHOOK_EVENTS, formats: WEBHOOK_FORMATS });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/webhooks/deliveries
+   * Delivery log across all webhooks (newest first). Query: limit (default 50)
+   */
+  router.get('/deliveries', async (req: Request, res: Response) => {
+    try {
+      const deliveries = await store.listDeliveries(undefined, parseLimit(req.query.limit));
+      res.json({ deliveries });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * POST /api/webhooks
+   * Create a webhook
+   * Body: { name, url, secret?, format?, events?, projects?, enabled? }
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const webhook = await store.create(toWebhookInput(req.body || {}));
+      res.status(201).json({ webhook: toResponse(webhook) });
+    } catch (error) {
+      if (error instanceof WebhookValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * PUT /api/webhooks/:id
+   * Update a webhook (partial). Omit secret to keep it, send "" to clear it.
+   */
+  router.put('/:id', async (req: Request, res: Response) => {
+    try {
+      const webhook = await store.update(req.params.id as string, toWebhookInput(req.body || {}));
+      if (!webhook) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Webhook not found' });
+        return;
+      }
+      res.json({ webhook: toResponse(webhook) });
+    } catch (error) {
+      if (error instanceof WebhookValidationError) {
+        res.status(400).json({ error: 'VALIDATION_ERROR', message: error.message });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Delete a webhook and its delivery log
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await store.delete(req.params.id as string);
+      if (!deleted) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Webhook not found' });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * Delivery log for one webhook (newest first). Query: limit (default 50)
+   */
+  router.get('/:id/deliveries', async (req: Request, res: Response) => {
+    try {
+      const webhook = await store.get(req.params.id as string);
+      if (!webhook) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Webhook not found' });
+        return;
+      }
+      const deliveries = await store.listDeliveries(webhook.webhook_id, parseLimit(req.query.limit));
+      res.json({ webhook_id: webhook.webhook_id, deliveries });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/test
+   * Send a test notification now (ignores event / project filters, retries apply)
+   */
+  router.post('/:id/test', async (req: Request, res: Response) => {
+    try {
+      const delivery = await dispatcher.sendTest(req.params.id as string);
+      if (!delivery) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Webhook not found' });
+        return;
+      }
+      res.json({ delivery });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message });
+    }
+  });
+
+  return router;
+}
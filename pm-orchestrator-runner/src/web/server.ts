@@ -23,9 +23,13 @@ import crypto from 'crypto';
 import { exec as execCb } from 'child_process';
 import { promisify } from 'util';
 const exec = promisify(execCb);
-import { IQueueStore, QueueItem, QueueItemStatus, TaskGroupStatus } from '../queue/index';
+import { IQueueStore, QueueItem, QueueItemStatus, TaskGroupStatus, QueuePollerState, QueueDependencyError, TaskPriority, TASK_PRIORITIES, sumTaskUsage, QueueEventStream, observeQueueEvents, exportTaskGroupBundle, importTaskGroupBundle, TaskGroupBundleValidationError, deleteTaskAttachments, QueueControlStore, BulkTaskValidationError, parseBulkTaskRequest, runBulkTaskAction } from '../queue/index';
 import { ConversationTracer } from '../trace/conversation-tracer';
 import { createApiKeyAuth, createPublicPathBypass, type AuthConfig, type AuthenticatedRequest } from './middleware/auth';
+import { createRoutePermissionGuard, isProjectPathAllowed } from './middleware/permissions';
+import { createAuditMiddleware } from './middleware/audit';
+import { createAuditRoutes } from './routes/audit';
+import { AuditLog } from '../audit';
 import { createSettingsRoutes } from './routes/settings';
 import { createDashboardRoutes } from './routes/dashboard';
 import { createInspectionRoutes } from './routes/inspection';
@@ -44,10 +48,27 @@ import { createClaudeHooksRoutes } from './routes/claude-hooks';
 import { createAssistantRoutes } from './routes/assistant';
 import { createRepoProfileRoutes } from './routes/repo-profile';
 import { createTemplateRoutes } from './routes/templates';
+import { createScheduleRoutes } from './routes/schedules';
+import { Scheduler, ScheduleStore } from '../schedule';
+import { createWebhookRoutes } from './routes/webhooks';
+import { WebhookDispatcher, WebhookStore } from '../notifications';
+import { createBudgetRoutes } from './routes/budgets';
+import { createPreferenceRoutes } from './routes/preferences';
+import type { PreferenceStoreConfig } from '../executor/user-preference-store';
+import { createQueueEventRoutes } from './routes/queue-events';
+import { createQueueControlRoutes } from './routes/queue-controls';
+import { createMeRoutes } from './routes/me';
+import { BudgetGuard, BudgetStore } from '../budget';
+import { TemplateStore } from '../template';
 // Task Tracker routes removed (v2.3) — replaced by /api/recovery/* in Recovery page
 import { createPRReviewRoutes } from './routes/pr-review';
 import { GhCliGitHubAdapter } from './github/gh-cli-adapter';
+import type { IGitHubAdapter } from './dal/pr-review-types';
 import type { ReviewJudgeLLMClient } from '../pr-review/review-judge';
+import { PRReviewService } from '../pr-review/pr-review-service';
+import { createTaskGroupPR, TaskGroupPRError } from '../pr-review/task-group-pr';
+import { LLMClient, getAPIKeyFromEnv, getBaseUrlFromEnv, getDefaultModel } from '../mediation/llm-client';
+import { loadGlobalConfig } from '../config/global-config';
 import { createSkillsRoutes } from './routes/skills';
 import { detectTaskType } from '../utils/task-type-detector';
 import { detectQuestionsWithLlm } from '../utils/question-detector';
@@ -64,6 +85,42 @@ function deriveNamespace(folderPath: string): string {
   return `${basename}-${hash}`;
 }
 
+/**
+ * LLM client for PR review judging.
+ * Runs on the local openai-compatible server when it is the configured internal LLM
+ * (spec/12_LLM_PROVIDER_AND_MODELS.md Section 2.1); otherwise a no-op stub.
+ */
+function createPRReviewLLMClient(): ReviewJudgeLLMClient {
+  let internalLlm: { provider?: string; model?: string; baseUrl?: string } | undefined;
+  try {
+    internalLlm = loadGlobalConfig().internalLlm;
+  } catch { /* ignore */ }
+
+  if (internalLlm?.provider !== 'openai-compatible') {
+    return { generate: async () => ({ content: "[]", model: "stub" }) };
+  }
+
+  const model = internalLlm.model || getDefaultModel('openai-compatible');
+  const baseUrl = internalLlm.baseUrl || getBaseUrlFromEnv('openai-compatible');
+  return {
+    generate: async ({ systemPrompt, userPrompt, maxTokens }) => {
+      const client = new LLMClient({
+        provider: 'openai-compatible',
+        model,
+        apiKey: getAPIKeyFromEnv('openai-compatible'),
+        baseUrl,
+        temperature: 0.3,
+        maxTokens,
+      });
+      const response = await client.chat([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ]);
+      return { content: response.content, model: response.model };
+    },
+  };
+}
+
 /**
  * Get stateDir for a folder
  */
@@ -90,13 +147,34 @@ export interface WebServerConfig {
   /** State directory for trace files (per spec/28_CONVERSATION_TRACE.md Section 5.2) */
   stateDir?: string;
   /** Queue store type for health endpoint display */
-  queueStoreType?: 'file' | 'dynamodb' | 'memory';
+  queueStoreType?: 'file' | 'dynamodb' | 'memory' | 'sqlite';
   /** Optional self-restart handler for Runner Controls */
   runnerRestartHandler?: () => Promise<RunnerRestartResult>;
   /** Auth configuration for API key authentication */
   authConfig?: AuthConfig;
   /** Override global ~/.claude directory (for testing) */
   globalClaudeDir?: string;
+  /** Live QueuePoller state of the runner attached to this server (for /api/live-tasks) */
+  getPollerState?: () => QueuePollerState;
+  /** Scheduler of the attached runner (default: an unstarted Scheduler over stateDir) */
+  scheduler?: Scheduler;
+  /** Webhook dispatcher shared with the runner (default: one over stateDir) */
+  webhookDispatcher?: WebhookDispatcher;
+  /** Budget guard shared with the runner (default: one over stateDir) */
+  budgetGuard?: BudgetGuard;
+  /** Learned user preference store location (default: ~/.pm-runner/preferences.json, as the executor) */
+  preferenceStoreConfig?: PreferenceStoreConfig;
+  /** Queue pause / drain controls shared with the runner (default: one over stateDir) */
+  queueControls?: QueueControlStore;
+  /** GitHub adapter for task group PRs (default: GhCliGitHubAdapter) */
+  github?: IGitHubAdapter;
+  /**
+   * Event stream the queueStore already publishes to (see observeQueueEvents).
+   * Default: a new stream, with queueStore wrapped to publish to it.
+   */
+  queueEventStream?: QueueEventStream;
+  /** Audit log of mutating API calls (default: one over stateDir; none without stateDir) */
+  auditLog?: AuditLog;
 }
 
 /**
@@ -122,7 +200,11 @@ interface ErrorResponse {
  */
 export function createApp(config: WebServerConfig): Express {
   const app = express();
-  const { queueStore, sessionId, namespace, projectRoot, stateDir, queueStoreType } = config;
+  const { sessionId, namespace, projectRoot, stateDir, queueStoreType } = config;
+  const queueEventStream = config.queueEventStream ?? new QueueEventStream();
+  const queueStore = config.queueEventStream
+    ? config.queueStore
+    : observeQueueEvents(config.queueStore, queueEventStream);
 
   // Middleware (50mb limit for base64 image attachments)
   app.use(express.json({ limit: '50mb' }));
@@ -149,13 +231,130 @@ export function createApp(config: WebServerConfig): Express {
     next();
   });
 
+  // Audit log of mutating API calls (before auth so rejected calls are recorded, spec/42_AUDIT_LOG.md)
+  const auditLog = config.auditLog ?? (stateDir ? new AuditLog({ stateDir }) : undefined);
+  if (auditLog) {
+    app.use('/api', createAuditMiddleware(auditLog, { authEnabled: config.authConfig?.enabled ?? false }));
+  }
+
   // API Key authentication middleware
   if (config.authConfig) {
     const authMiddleware = createApiKeyAuth(config.authConfig);
     const bypassMiddleware = createPublicPathBypass(authMiddleware);
     app.use('/api', bypassMiddleware);
+    // Route-level authorization (spec/41_ROUTE_PERMISSIONS.md)
+    app.use('/api', createRoutePermissionGuard());
   }
 
+  app.use('/api/me', createMeRoutes({ authEnabled: config.authConfig?.enabled ?? false }));
+
+  /**
+   * Whether a project path is inside the caller's API key scope.
+   * Tasks without project_path run in the server's project root.
+   */
+  const inProjectScope = (req: Request, projectPath: string | undefined): boolean =>
+    isProjectPathAllowed((req as AuthenticatedRequest).projectPaths, projectPath || projectRoot);
+
+  // Project scope: tasks, task groups and projects outside the key's scope are not found
+  app.use('/api/tasks/:task_id', async (req: Request, res: Response, next: NextFunction) => {
+    if (!(req as AuthenticatedRequest).projectPaths) return next();
+    try {
+      const task_id = req.params.task_id as string;
+      const task = await queueStore.getItem(task_id, (req.query.namespace as string) || namespace);
+      if (task && !inProjectScope(req, task.project_path)) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Task not found: ' + task_id } as ErrorResponse);
+        return;
+      }
+      next();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+  app.use('/api/task-groups/:task_group_id', async (req: Request, res: Response, next: NextFunction) => {
+    if (!(req as AuthenticatedRequest).projectPaths) return next();
+    try {
+      const task_group_id = req.params.task_group_id as string;
+      const tasks = await queueStore.getByTaskGroup(task_group_id, (req.query.namespace as string) || namespace);
+      if (tasks.some(t => !inProjectScope(req, t.project_path))) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Task group not found: ' + task_group_id } as ErrorResponse);
+        return;
+      }
+      next();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+  app.use('/api/projects/:projectId', async (req: Request, res: Response, next: NextFunction) => {
+    if (!(req as AuthenticatedRequest).projectPaths || !isDALInitialized()) return next();
+    try {
+      const project = await getDAL().getProjectIndex(req.params.projectId as string);
+      if (project && !inProjectScope(req, project.projectPath)) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Project not found' } as ErrorResponse);
+        return;
+      }
+      next();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
+  // Tasks imported from a task group bundle are read-only (deleting the copy is allowed)
+  app.use('/api/tasks/:task_id', async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'DELETE') return next();
+    try {
+      const task_id = req.params.task_id as string;
+      const task = await queueStore.getItem(task_id, (req.query.namespace as string) || namespace);
+      if (task?.imported) {
+        res.status(409).json({
+          error: 'READ_ONLY',
+          message: `Task ${task_id} was imported from bundle ${task.imported.bundle_id} and is read-only`,
+        } as ErrorResponse);
+        return;
+      }
+      next();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
+  // Audit: state of the target task / task group before a mutating call
+  if (auditLog) {
+    app.use('/api/tasks/:task_id', async (req: Request, res: Response, next: NextFunction) => {
+      if (req.method !== 'GET') {
+        const task = await queueStore.getItem(req.params.task_id as string).catch(() => null);
+        if (task) {
+          res.locals.auditBefore = {
+            status: task.status,
+            priority: task.priority ?? 'normal',
+            task_group_id: task.task_group_id,
+            project_path: task.project_path ?? null,
+          };
+        }
+      }
+      next();
+    });
+    app.use('/api/task-groups/:task_group_id', async (req: Request, res: Response, next: NextFunction) => {
+      if (req.method !== 'GET') {
+        const tasks = await queueStore.getByTaskGroup(req.params.task_group_id as string).catch(() => []);
+        const counts: Record<string, number> = {};
+        for (const t of tasks) counts[t.status] = (counts[t.status] ?? 0) + 1;
+        res.locals.auditBefore = {
+          task_count: tasks.length,
+          statuses: Object.entries(counts).map(([status, n]) => `${status}:${n}`).join(', '),
+        };
+      }
+      next();
+    });
+    app.use('/api/audit', createAuditRoutes({ auditLog }));
+  }
+
+  // Queue event stream (task / task-group state push, per spec/20_QUEUE_STORE.md)
+  app.use('/api/queue', createQueueEventRoutes({ stream: queueEventStream, projectRoot }));
+
   // ===================
   // Settings Routes (API Key persistence)
   // ===================
@@ -164,12 +363,13 @@ export function createApp(config: WebServerConfig): Express {
     if (!isDALInitialized()) {
       initDAL({
         useDynamoDB: queueStoreType === 'dynamodb',
+        useSQLite: queueStoreType === 'sqlite',
         stateDir,
         orgId: process.env.ORG_ID || 'default',
       });
     }
 
-    app.use('/api/settings', createSettingsRoutes(stateDir));
+    app.use('/api/settings', createSettingsRoutes(stateDir, { projectRoot }));
     // Dashboard routes (projects, activity, runs)
     app.use("/api/dashboard", createDashboardRoutes({ stateDir, queueStore }));
     app.use("/api", createDashboardRoutes({ stateDir, queueStore })); // Also mount projects/activity/runs at /api
@@ -234,19 +434,56 @@ export function createApp(config: WebServerConfig): Express {
     // Template routes (CRUD for input/output templates)
     app.use("/api/templates", createTemplateRoutes({ stateDir }));
 
+    // Schedule routes (cron-triggered recurring tasks)
+    // Per spec/38_SCHEDULED_TASKS.md
+    app.use("/api/schedules", createScheduleRoutes({
+      scheduler: config.scheduler ?? new Scheduler({
+        store: new ScheduleStore({ stateDir }),
+        queueStore,
+        sessionId,
+        templateStore: new TemplateStore({ storageDir: stateDir }),
+      }),
+    }));
+
+    // Outbound webhook routes (task / PR review notifications)
+    // Per spec/39_WEBHOOKS.md
+    const webhookDispatcher = config.webhookDispatcher ?? new WebhookDispatcher({
+      store: new WebhookStore({ stateDir }),
+      orgId: process.env.ORG_ID || 'default',
+    });
+    app.use("/api/webhooks", createWebhookRoutes({ dispatcher: webhookDispatcher }));
+
+    // Budget caps (spend vs budget for the dashboard)
+    // Per spec/40_BUDGETS.md
+    app.use("/api/budgets", createBudgetRoutes({
+      guard: config.budgetGuard ?? new BudgetGuard({ store: new BudgetStore({ stateDir }) }),
+    }));
+
+    // Learned user preferences (review / correct what AutoResolvingExecutor learned)
+    // Per spec/52_USER_PREFERENCES.md
+    app.use("/api/preferences", createPreferenceRoutes({ storeConfig: config.preferenceStoreConfig }));
+
+    // Queue-wide pause / drain / resume
+    // Per spec/53_QUEUE_CONTROLS.md
+    app.use("/api/queue", createQueueControlRoutes({
+      store: config.queueControls ?? new QueueControlStore({ stateDir }),
+      queueStore,
+      namespace,
+      projectRoot,
+    }));
+
     // Task Tracker routes removed (v2.3). See spec/36_LIVE_TASKS_AND_RECOVERY.md.
 
     // PR Review Automation routes (review automation, dashboard API)
     // Per spec/35_PR_REVIEW_AUTOMATION.md Section 10
     const prReviewGitHub = new GhCliGitHubAdapter();
-    const prReviewLLM: ReviewJudgeLLMClient = {
-      generate: async () => ({ content: "[]", model: "stub" }),
-    };
+    const prReviewLLM = createPRReviewLLMClient();
     app.use("/api/pr-reviews", createPRReviewRoutes({
       dal: getDAL(),
       github: prReviewGitHub,
       llmClient: prReviewLLM,
       orgId: process.env.ORG_ID || "default",
+      onCycleDecision: (cycle, state) => webhookDispatcher.notifyPRReviewDecision(cycle, state),
     }));
 
     // Skills routes (project scanner + skill auto-generation)
@@ -365,6 +602,22 @@ export function createApp(config: WebServerConfig): Express {
     }
   });
 
+  /**
+   * GET /api/runner/pause
+   * Usage limit pause of the runner attached to this server
+   * spec/50_USAGE_LIMIT_PAUSE.md
+   */
+  app.get('/api/runner/pause', (_req: Request, res: Response) => {
+    const pollerState = config.getPollerState?.();
+    const pausedUntil = pollerState?.pausedUntil ?? null;
+    res.json({
+      paused: pausedUntil !== null,
+      paused_until: pausedUntil,
+      reason: pollerState?.pauseReason ?? null,
+      remaining_ms: pausedUntil !== null ? Math.max(0, Date.parse(pausedUntil) - Date.now()) : 0,
+    });
+  });
+
   /**
    * GET /api/system/processes
    * List PM Runner-spawned task processes, cross-referenced with:
@@ -566,10 +819,12 @@ export function createApp(config: WebServerConfig): Express {
       ]);
 
       const allTasks = [...running, ...waiting, ...awaiting, ...queued]
-        .filter(t => t.namespace === targetNamespace);
+        .filter(t => t.namespace === targetNamespace && inProjectScope(req, t.project_path));
 
       const aliasMap = await loadProjectAliasMap();
       const now = Date.now();
+      const pollerState = config.getPollerState?.();
+      const inFlightIds = new Set((pollerState?.inFlightTasks ?? []).map(t => t.task_id));
 
       const tasks = allTasks.map(t => {
         const updatedMs = Date.parse(t.updated_at);
@@ -588,6 +843,7 @@ export function createApp(config: WebServerConfig): Express {
           elapsed_ms,
           age_ms,
           is_stale: age_ms > staleThresholdMs,
+          in_flight: inFlightIds.has(t.task_id),
         };
       }).sort((a, b) => b.elapsed_ms - a.elapsed_ms).slice(0, limit);
 
@@ -595,6 +851,14 @@ export function createApp(config: WebServerConfig): Express {
         tasks,
         stale_count: tasks.filter(t => t.is_stale).length,
         stale_threshold_ms: staleThresholdMs,
+        runner: pollerState ? {
+          runner_id: pollerState.runnerId,
+          max_concurrency: pollerState.maxConcurrency,
+          max_concurrency_per_project: pollerState.maxConcurrencyPerProject,
+          read_only_slots: pollerState.readOnlySlots,
+          in_flight_count: pollerState.inFlightTasks.length,
+          in_flight_task_ids: pollerState.inFlightTasks.map(t => t.task_id),
+        } : undefined,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -705,24 +969,20 @@ export function createApp(config: WebServerConfig): Express {
 
   /**
    * POST /api/tasks/:id/retry
-   * Transition ERROR / CANCELLED task → QUEUED for re-execution.
+   * Transition ERROR / CANCELLED task → QUEUED for re-execution (clears the previous error).
    */
   app.post('/api/tasks/:id/retry', async (req: Request, res: Response) => {
     try {
       const taskId = req.params.id as string;
-      const item = await queueStore.getItem(taskId);
-      if (!item) {
-        res.status(404).json({ error: 'NOT_FOUND', message: 'Task not found' } as ErrorResponse);
-        return;
-      }
-      if (item.status !== 'ERROR' && item.status !== 'CANCELLED') {
-        res.status(400).json({
-          error: 'INVALID_STATE',
-          message: `Task status is ${item.status}; only ERROR or CANCELLED can be retried`,
-        } as ErrorResponse);
+      const result = await queueStore.retryTask(taskId);
+      if (!result.success) {
+        if (result.error === 'Task not found') {
+          res.status(404).json({ error: 'NOT_FOUND', message: 'Task not found' } as ErrorResponse);
+        } else {
+          res.status(400).json({ error: 'INVALID_STATE', message: result.message } as ErrorResponse);
+        }
         return;
       }
-      await queueStore.updateStatus(taskId, 'QUEUED');
       res.json({ success: true, new_status: 'QUEUED' });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -758,13 +1018,17 @@ export function createApp(config: WebServerConfig): Express {
       }
 
       type CheckpointPayload = {
-        type: 'git-stash' | 'file-snapshot' | 'none';
+        type: 'git-stash' | 'file-snapshot' | 'git-worktree' | 'none';
         taskId: string;
         projectPath: string;
         stashRef?: string;
         createdAt: string;
         snapshotDir?: string;
         files?: string[];
+        worktreePath?: string;
+        workingDir?: string;
+        branch?: string;
+        baseCommit?: string;
       };
       let checkpoint: CheckpointPayload;
       try {
@@ -835,7 +1099,7 @@ export function createApp(config: WebServerConfig): Express {
         }
       }
 
-      // 6. Clear checkpoint_ref on root (stash was popped)
+      // 6. Clear checkpoint_ref on root (stash was popped / worktree discarded)
       try {
         await queueStore.setCheckpointRef(root.task_id, undefined);
       } catch {
@@ -865,17 +1129,98 @@ export function createApp(config: WebServerConfig): Express {
     }
   });
 
+  /**
+   * GET /api/tasks/:task_id/diff
+   * Files the task changed, with hunks (spec/46_TASK_DIFF.md)
+   */
+  app.get('/api/tasks/:task_id/diff', async (req: Request, res: Response) => {
+    try {
+      const { loadTaskDiff } = await import('../checkpoint');
+      const task_id = req.params.task_id as string;
+      const task = await queueStore.getItem(task_id);
+      if (!task) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Task not found: ' + task_id } as ErrorResponse);
+        return;
+      }
+      const diff = loadTaskDiff(task.project_path || projectRoot || process.cwd(), task_id);
+      if (!diff) {
+        res.status(404).json({ error: 'NO_DIFF', message: 'No diff was recorded for task ' + task_id } as ErrorResponse);
+        return;
+      }
+      res.json({
+        task_id: diff.task_id,
+        base: diff.base,
+        captured_at: diff.captured_at,
+        truncated: diff.truncated,
+        // Full contents stay on disk; the viewer only needs the hunks
+        files: diff.files.map(({ before: _before, after: _after, ...file }) => file),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
+  /**
+   * POST /api/tasks/:task_id/diff/revert
+   * Revert one file ({ path, force? }) or one hunk ({ path, hunk }) of the task's diff.
+   * 409 when the file changed since the task ran.
+   */
+  app.post('/api/tasks/:task_id/diff/revert', async (req: Request, res: Response) => {
+    try {
+      const { loadTaskDiff, saveTaskDiff, revertTaskDiffFile, revertTaskDiffHunk, TaskDiffRevertError } = await import('../checkpoint');
+      const task_id = req.params.task_id as string;
+      const { path: filePath, hunk, force } = (req.body ?? {}) as { path?: unknown; hunk?: unknown; force?: unknown };
+      if (typeof filePath !== 'string' || !filePath) {
+        res.status(400).json({ error: 'INVALID_INPUT', message: 'path is required' } as ErrorResponse);
+        return;
+      }
+      if (hunk !== undefined && (typeof hunk !== 'number' || !Number.isInteger(hunk) || hunk < 0)) {
+        res.status(400).json({ error: 'INVALID_INPUT', message: 'hunk must be a non-negative integer' } as ErrorResponse);
+        return;
+      }
+      const task = await queueStore.getItem(task_id);
+      if (!task) {
+        res.status(404).json({ error: 'NOT_FOUND', message: 'Task not found: ' + task_id } as ErrorResponse);
+        return;
+      }
+      const projectDir = path.resolve(task.project_path || projectRoot || process.cwd());
+      const diff = loadTaskDiff(projectDir, task_id);
+      if (!diff) {
+        res.status(404).json({ error: 'NO_DIFF', message: 'No diff was recorded for task ' + task_id } as ErrorResponse);
+        return;
+      }
+      try {
+        const file = hunk === undefined
+          ? revertTaskDiffFile(diff, projectDir, filePath, force === true)
+          : revertTaskDiffHunk(diff, projectDir, filePath, hunk);
+        saveTaskDiff(projectDir, diff);
+        const { before: _before, after: _after, ...summary } = file;
+        res.json({ success: true, task_id, file: summary });
+      } catch (revertErr) {
+        if (revertErr instanceof TaskDiffRevertError) {
+          res.status(revertErr.code === 'NOT_IN_DIFF' ? 404 : 409).json({ error: revertErr.code, message: revertErr.message } as ErrorResponse);
+          return;
+        }
+        throw revertErr;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
   /**
    * GET /api/required-actions
    * List tasks that need user attention (AWAITING_RESPONSE)
    * Returns tasks with their task_group context
    */
-  app.get('/api/required-actions', async (_req: Request, res: Response) => {
+  app.get('/api/required-actions', async (req: Request, res: Response) => {
     try {
-      const [awaitingTasks, errorTasks] = await Promise.all([
+      const [awaitingTasks, errorTasks] = (await Promise.all([
         queueStore.getByStatus('AWAITING_RESPONSE'),
         queueStore.getByStatus('ERROR'),
-      ]);
+      ])).map(tasks => tasks.filter(t => inProjectScope(req, t.project_path)));
 
       // Build project lookup from activity events if DAL is available
       const projectLookup: Map<string, { projectId: string; projectAlias?: string; projectPath?: string }> = new Map();
@@ -977,7 +1322,8 @@ export function createApp(config: WebServerConfig): Express {
       const targetNamespace = (req.query.namespace as string) || namespace;
 
       // Return cached result if fresh
-      const cacheKey = targetNamespace + '|' + (req.query.group_status || '') + '|' + (req.query.limit || '') + '|' + (req.query.offset || '');
+      const projectPaths = (req as AuthenticatedRequest).projectPaths;
+      const cacheKey = targetNamespace + '|' + (req.query.group_status || '') + '|' + (req.query.limit || '') + '|' + (req.query.offset || '') + '|' + (projectPaths?.join(',') || '');
       if (taskGroupsCache && taskGroupsCache.cacheKey === cacheKey && (Date.now() - taskGroupsCache.timestamp) < TASK_GROUPS_CACHE_TTL_MS) {
         return res.json(taskGroupsCache.data);
       }
@@ -1052,6 +1398,9 @@ export function createApp(config: WebServerConfig): Express {
         // Default: exclude archived groups
         filteredGroups = enrichedGroups.filter(g => g.group_status !== 'archived');
       }
+      if (projectPaths) {
+        filteredGroups = filteredGroups.filter(g => inProjectScope(req, g.project_path === 'N/A' ? undefined : g.project_path));
+      }
 
       // Apply limit if requested (for "load more" pagination)
       const limitParam = parseInt(req.query.limit as string);
@@ -1078,11 +1427,11 @@ export function createApp(config: WebServerConfig): Express {
   /**
    * POST /api/task-groups
    * Create a new task group (enqueue first task)
-   * Body: { task_group_id: string, prompt: string }
+   * Body: { task_group_id: string, prompt: string, priority?: 'urgent' | 'normal' | 'background' }
    */
   app.post('/api/task-groups', async (req: Request, res: Response) => {
     try {
-      const { task_group_id, prompt } = req.body;
+      const { task_group_id, prompt, priority } = req.body;
 
       if (!task_group_id || typeof task_group_id !== 'string' || task_group_id.trim() === '') {
         res.status(400).json({
@@ -1100,8 +1449,26 @@ export function createApp(config: WebServerConfig): Express {
         return;
       }
 
+      if (priority !== undefined && !TASK_PRIORITIES.includes(priority)) {
+        res.status(400).json({
+          error: 'INVALID_INPUT',
+          message: 'priority must be one of: ' + TASK_PRIORITIES.join(', '),
+        } as ErrorResponse);
+        return;
+      }
+
+      if (!inProjectScope(req, projectRoot)) {
+        res.status(403).json({
+          error: 'FORBIDDEN',
+          message: 'API key is not allowed to enqueue tasks for ' + (projectRoot || 'this project'),
+        } as ErrorResponse);
+        return;
+      }
+
       const taskType = detectTaskType(prompt.trim());
-      const item = await queueStore.enqueue(sessionId, task_group_id.trim(), prompt.trim(), undefined, taskType);
+      const item = await queueStore.enqueue(sessionId, task_group_id.trim(), prompt.trim(), undefined, taskType, undefined, undefined, {
+        priority,
+      });
 
       res.status(201).json({
         task_id: item.task_id,
@@ -1109,6 +1476,8 @@ export function createApp(config: WebServerConfig): Express {
         namespace: item.namespace,
         status: item.status,
         created_at: item.created_at,
+        depends_on: item.depends_on,
+        priority: item.priority ?? 'normal',
       });
       invalidateTaskGroupsCache();
     } catch (error) {
@@ -1143,26 +1512,178 @@ export function createApp(config: WebServerConfig): Express {
           task_type: t.task_type,
           output: t.output,  // Include output in list for UI visibility
           has_output: !!t.output,  // Flag for quick check
+          depends_on: t.depends_on || [],
+          dependency_policy: t.dependency_policy,
+          dependency_blocked: t.dependency_blocked,
+          priority: t.priority ?? 'normal',
+          usage: t.usage,
+          imported: t.imported,
         })),
+        usage: sumTaskUsage(tasks),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
+  /**
+   * GET /api/task-groups/:task_group_id/export
+   * Download the task group as a bundle (tasks, traces, executor logs; secrets masked)
+   * Per spec/43_TASK_GROUP_BUNDLE.md
+   * Query: ?namespace=xxx (optional)
+   */
+  app.get('/api/task-groups/:task_group_id/export', async (req: Request, res: Response) => {
+    try {
+      const task_group_id = req.params.task_group_id as string;
+      const bundle = await exportTaskGroupBundle(queueStore, task_group_id, {
+        namespace: (req.query.namespace as string) || namespace,
+        stateDir,
+        projectRoot,
       });
+      if (!bundle) {
+        res.status(404).json({
+          error: 'NOT_FOUND',
+          message: 'Task group not found: ' + task_group_id,
+        } as ErrorResponse);
+        return;
+      }
+      const fileName = `task-group-${task_group_id.replace(/[^A-Za-z0-9_.-]/g, '_')}-${bundle.exported_at.slice(0, 10)}.json`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.json(bundle);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
     }
   });
 
+  /**
+   * POST /api/task-groups/import
+   * Import a bundle as read-only tasks
+   * Per spec/43_TASK_GROUP_BUNDLE.md
+   * Body: bundle from GET /api/task-groups/:task_group_id/export
+   * Query: ?namespace=xxx (optional, default: this runner's namespace)
+   */
+  app.post('/api/task-groups/import', async (req: Request, res: Response) => {
+    try {
+      const result = await importTaskGroupBundle(queueStore, req.body, {
+        namespace: (req.query.namespace as string) || namespace,
+        stateDir,
+      });
+      invalidateTaskGroupsCache();
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof TaskGroupBundleValidationError) {
+        res.status(400).json({ error: 'INVALID_INPUT', message: error.message } as ErrorResponse);
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
+  /**
+   * POST /api/task-groups/:task_group_id/pull-request
+   * Commit the group's recorded changes to a new branch, push it, open a PR
+   * and register it for PR review
+   * Per spec/48_TASK_GROUP_PR.md
+   * Body: { branch?: string, base?: string, title?: string, draft?: boolean, repository?: string }
+   * Query: ?namespace=xxx (optional)
+   */
+  app.post('/api/task-groups/:task_group_id/pull-request', async (req: Request, res: Response) => {
+    try {
+      const task_group_id = req.params.task_group_id as string;
+      const { branch, base, title, draft, repository } = req.body ?? {};
+      for (const [field, value] of Object.entries({ branch, base, title, repository })) {
+        if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+          res.status(400).json({ error: 'INVALID_INPUT', message: `${field} must be a non-empty string` } as ErrorResponse);
+          return;
+        }
+      }
+
+      const tasks = await queueStore.getByTaskGroup(task_group_id, (req.query.namespace as string) || namespace);
+      const projectDir = tasks.find(t => t.project_path)?.project_path ?? projectRoot;
+      const github = config.github ?? new GhCliGitHubAdapter();
+      const orgId = process.env.ORG_ID || 'default';
+      let reviewService: PRReviewService | undefined;
+      let projectId: string | undefined;
+      if (isDALInitialized()) {
+        const dal = getDAL();
+        reviewService = new PRReviewService(dal, github, createPRReviewLLMClient(), orgId);
+        projectId = projectDir ? (await dal.getProjectIndexByPath(projectDir))?.projectId : undefined;
+      }
+
+      const result = await createTaskGroupPR(tasks, task_group_id, github, {
+        projectDir,
+        branch,
+        base,
+        title,
+        draft: draft === true,
+        repository,
+        projectId,
+        orgId,
+        reviewService,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof TaskGroupPRError) {
+        const status = error.code === 'NOT_FOUND' ? 404
+          : error.code === 'INVALID_BRANCH' || error.code === 'NO_REPOSITORY' ? 400
+            : 409;
+        res.status(status).json({ error: error.code, message: error.message } as ErrorResponse);
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
   /**
    * PATCH /api/task-groups/:task_group_id
-   * Update task group status (archive/unarchive or set group_status)
-   * Body: { archived?: boolean, group_status?: 'active' | 'complete' | 'archived' | null }
+   * Update task group status (archive/unarchive or set group_status),
+   * or set the priority of every QUEUED task in the group
+   * Body: { archived?: boolean, group_status?: 'active' | 'complete' | 'archived' | null, priority?: TaskPriority }
    */
   app.patch('/api/task-groups/:task_group_id', async (req: Request, res: Response) => {
     try {
       const task_group_id = req.params.task_group_id as string;
-      const { archived, group_status } = req.body;
+      const { archived, group_status, priority } = req.body;
+
+      if (priority !== undefined) {
+        if (!TASK_PRIORITIES.includes(priority)) {
+          res.status(400).json({
+            error: 'INVALID_INPUT',
+            message: 'priority must be one of: ' + TASK_PRIORITIES.join(', '),
+          } as ErrorResponse);
+          return;
+        }
+
+        const tasks = await queueStore.getByTaskGroup(task_group_id);
+        if (tasks.length === 0) {
+          res.status(404).json({
+            error: 'NOT_FOUND',
+            message: 'Task group not found: ' + task_group_id,
+          } as ErrorResponse);
+          return;
+        }
 
-      // Support group_status field (preferred) or archived field (backward compat)
-      if (group_status !== undefined) {
+        const updatedTaskIds: string[] = [];
+        for (const task of tasks.filter(t => t.status === 'QUEUED')) {
+          const result = await queueStore.updatePriority(task.task_id, priority as TaskPriority);
+          if (result.success) {
+            updatedTaskIds.push(task.task_id);
+          }
+        }
+
+        res.json({
+          task_group_id,
+          priority,
+          updated_count: updatedTaskIds.length,
+          updated_task_ids: updatedTaskIds,
+        });
+        invalidateTaskGroupsCache();
+      } else if (group_status !== undefined) {
+        // Support group_status field (preferred) or archived field (backward compat)
         const validStatuses = ['active', 'complete', 'archived', null];
         if (!validStatuses.includes(group_status)) {
           res.status(400).json({
@@ -1206,7 +1727,7 @@ export function createApp(config: WebServerConfig): Express {
       } else {
         res.status(400).json({
           error: 'INVALID_INPUT',
-          message: 'Either group_status or archived must be provided',
+          message: 'One of group_status, archived or priority must be provided',
         } as ErrorResponse);
       }
     } catch (error) {
@@ -1215,6 +1736,18 @@ export function createApp(config: WebServerConfig): Express {
     }
   });
 
+  /**
+   * Remove the chat image attachments of a deleted task (spec/51_TASK_ATTACHMENTS.md)
+   */
+  const removeTaskAttachments = (task: QueueItem): void => {
+    if (!task.attachments?.length) return;
+    try {
+      deleteTaskAttachments(task.project_path || projectRoot || process.cwd(), task.task_id);
+    } catch (error) {
+      log.sys.warn('Failed to remove task attachments', { taskId: task.task_id, error: String(error) });
+    }
+  };
+
   /**
    * DELETE /api/task-groups/:task_group_id
    * Delete all tasks in a task group
@@ -1246,6 +1779,9 @@ export function createApp(config: WebServerConfig): Express {
         } as ErrorResponse);
         return;
       }
+      for (const task of tasks) {
+        removeTaskAttachments(task);
+      }
       invalidateTaskGroupsCache();
       res.json({ task_group_id, deleted_count: count });
     } catch (error) {
@@ -1271,6 +1807,7 @@ export function createApp(config: WebServerConfig): Express {
         return;
       }
       await queueStore.deleteItem(task_id);
+      removeTaskAttachments(task);
       invalidateTaskGroupsCache();
       res.json({ task_id, deleted: true });
     } catch (error) {
@@ -1319,6 +1856,13 @@ export function createApp(config: WebServerConfig): Express {
         failure_summary: task.failure_summary,
         failure_next_actions: task.failure_next_actions,
         command_preview: task.command_preview,
+        depends_on: task.depends_on || [],
+        dependency_policy: task.dependency_policy,
+        dependency_blocked: task.dependency_blocked,
+        priority: task.priority ?? 'normal',
+        usage: task.usage,  // Executor token usage / cost (spec/20_QUEUE_STORE.md usage)
+        imported: task.imported,  // Set on read-only copies from a task group bundle (spec/43_TASK_GROUP_BUNDLE.md)
+        qa_gates: task.qa_gates,  // Latest QA gate run and verdict (spec/45_QA_GATES.md)
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -1532,11 +2076,11 @@ export function createApp(config: WebServerConfig): Express {
   /**
    * POST /api/tasks
    * Enqueue a new task (does NOT run it directly)
-   * Body: { task_group_id: string, prompt: string, task_type?: string }
+   * Body: { task_group_id: string, prompt: string, task_type?: string, priority?: TaskPriority }
    */
   app.post('/api/tasks', async (req: Request, res: Response) => {
     try {
-      const { task_group_id, prompt, task_type } = req.body;
+      const { task_group_id, prompt, task_type, depends_on, on_dependency_failure, priority } = req.body;
 
       if (!task_group_id || typeof task_group_id !== 'string' || task_group_id.trim() === '') {
         res.status(400).json({
@@ -1554,9 +2098,54 @@ export function createApp(config: WebServerConfig): Express {
         return;
       }
 
+      if (depends_on !== undefined && (!Array.isArray(depends_on) || depends_on.some((d: unknown) => typeof d !== 'string' || d.trim() === ''))) {
+        res.status(400).json({
+          error: 'INVALID_INPUT',
+          message: 'depends_on must be an array of task_id strings',
+        } as ErrorResponse);
+        return;
+      }
+
+      if (on_dependency_failure !== undefined && on_dependency_failure !== 'cancel' && on_dependency_failure !== 'flag') {
+        res.status(400).json({
+          error: 'INVALID_INPUT',
+          message: "on_dependency_failure must be 'cancel' or 'flag'",
+        } as ErrorResponse);
+        return;
+      }
+
+      if (priority !== undefined && !TASK_PRIORITIES.includes(priority)) {
+        res.status(400).json({
+          error: 'INVALID_INPUT',
+          message: 'priority must be one of: ' + TASK_PRIORITIES.join(', '),
+        } as ErrorResponse);
+        return;
+      }
+
+      if (!inProjectScope(req, projectRoot)) {
+        res.status(403).json({
+          error: 'FORBIDDEN',
+          message: 'API key is not allowed to enqueue tasks for ' + (projectRoot || 'this project'),
+        } as ErrorResponse);
+        return;
+      }
+
       // Use provided task_type if valid, otherwise detect from prompt
       const taskType = task_type || detectTaskType(prompt.trim());
-      const item = await queueStore.enqueue(sessionId, task_group_id.trim(), prompt.trim(), undefined, taskType);
+      let item: QueueItem;
+      try {
+        item = await queueStore.enqueue(sessionId, task_group_id.trim(), prompt.trim(), undefined, taskType, undefined, undefined, {
+          dependsOn: depends_on ? (depends_on as string[]).map(d => d.trim()) : undefined,
+          onDependencyFailure: on_dependency_failure,
+          priority,
+        });
+      } catch (error) {
+        if (error instanceof QueueDependencyError) {
+          res.status(400).json({ error: 'INVALID_DEPENDENCY', message: error.message } as ErrorResponse);
+          return;
+        }
+        throw error;
+      }
 
       res.status(201).json({
         task_id: item.task_id,
@@ -1564,6 +2153,7 @@ export function createApp(config: WebServerConfig): Express {
         namespace: item.namespace,
         status: item.status,
         created_at: item.created_at,
+        priority: item.priority ?? 'normal',
       });
       invalidateTaskGroupsCache();
     } catch (error) {
@@ -1572,6 +2162,42 @@ export function createApp(config: WebServerConfig): Express {
     }
   });
 
+  /**
+   * PATCH /api/tasks/:task_id/priority
+   * Change the priority lane of a QUEUED task
+   * Body: { priority: 'urgent' | 'normal' | 'background' }
+   */
+  app.patch('/api/tasks/:task_id/priority', async (req: Request, res: Response) => {
+    try {
+      const task_id = req.params.task_id as string;
+      const { priority } = req.body;
+
+      if (!TASK_PRIORITIES.includes(priority)) {
+        res.status(400).json({
+          error: 'INVALID_INPUT',
+          message: 'priority must be one of: ' + TASK_PRIORITIES.join(', '),
+        } as ErrorResponse);
+        return;
+      }
+
+      const result = await queueStore.updatePriority(task_id, priority as TaskPriority);
+      if (!result.success) {
+        if (result.error === 'Task not found') {
+          res.status(404).json({ error: 'NOT_FOUND', message: result.message } as ErrorResponse);
+        } else {
+          res.status(409).json({ error: 'INVALID_STATE', message: result.message } as ErrorResponse);
+        }
+        return;
+      }
+
+      res.json(result);
+      invalidateTaskGroupsCache();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
   /**
    * PATCH /api/tasks/:task_id/status
    * Update task status
@@ -1693,6 +2319,45 @@ export function createApp(config: WebServerConfig): Express {
     }
   });
 
+  /**
+   * POST /api/tasks/bulk
+   * Cancel / retry / re-prioritise / delete every task matching a filter
+   * Body: { action, filter: { status?, task_group_id?, project_path?, older_than_minutes? }, priority?, dry_run? }
+   * Only the server's namespace: the queue store cannot change tasks of other namespaces.
+   * Per spec/53_QUEUE_CONTROLS.md
+   */
+  app.post('/api/tasks/bulk', async (req: Request, res: Response) => {
+    try {
+      const bulkRequest = parseBulkTaskRequest(req.body);
+      if (req.query.namespace && req.query.namespace !== namespace) {
+        res.status(400).json({
+          error: 'INVALID_INPUT',
+          message: `Bulk actions only apply to the server namespace (${namespace})`,
+        } as ErrorResponse);
+        return;
+      }
+      const items = (await queueStore.getAllItems()).filter(t => inProjectScope(req, t.project_path));
+      const result = await runBulkTaskAction(queueStore, items, bulkRequest, {
+        defaultProjectPath: projectRoot,
+        hooks: {
+          onCancelled: item => killTaskProcess(item.task_id),
+          onDeleted: item => removeTaskAttachments(item),
+        },
+      });
+      if (!result.dry_run) {
+        invalidateTaskGroupsCache();
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof BulkTaskValidationError) {
+        res.status(400).json({ error: 'INVALID_INPUT', message: error.message } as ErrorResponse);
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: 'INTERNAL_ERROR', message } as ErrorResponse);
+    }
+  });
+
   /**
    * POST /api/tasks/:task_id/rejudge
    * Re-run question detection on stored output using LLM
@@ -2209,9 +2874,13 @@ export function createApp(config: WebServerConfig): Express {
     const routes: string[] = [
       'GET /api/namespaces',
       'GET /api/runners',
+      'GET /api/runner/pause',
       'GET /api/task-groups',
       'POST /api/task-groups',
       'GET /api/task-groups/:task_group_id/tasks',
+      'GET /api/task-groups/:task_group_id/export',
+      'POST /api/task-groups/import',
+      'POST /api/task-groups/:task_group_id/pull-request',
       'PATCH /api/task-groups/:task_group_id',
       'DELETE /api/task-groups/:task_group_id',
       'GET /api/tasks/:task_id',
@@ -2221,6 +2890,8 @@ export function createApp(config: WebServerConfig): Express {
       'PATCH /api/tasks/:task_id/status',
       'POST /api/tasks/:task_id/rejudge',
       'POST /api/tasks/:task_id/reply',
+      // Queue event stream (SSE)
+      'GET /api/queue/events',
       // v2.3 Live Tasks + Recovery
       'GET /api/live-tasks',
       'GET /api/recovery/stale',
@@ -2228,11 +2899,18 @@ export function createApp(config: WebServerConfig): Express {
       'GET /api/recovery/rollback-history',
       'POST /api/tasks/:task_id/retry',
       'POST /api/tasks/:task_id/rollback',
+      'GET /api/tasks/:task_id/diff',
+      'POST /api/tasks/:task_id/diff/revert',
       // System
       'GET /api/system/processes',
       'POST /api/system/processes/:pid/kill',
       'GET /api/required-actions',
       'GET /api/health',
+      'GET /api/me/permissions',
+      // Audit log
+      'GET /api/audit',
+      'GET /api/audit/export',
+      'GET /api/audit/verify',
       'GET /api/namespace',
       'GET /api/agents',
       'GET /api/routes',
@@ -8,6 +8,7 @@
 import {
   OPENAI_MODELS,
   ANTHROPIC_MODELS,
+  OPENAI_COMPATIBLE_MODELS,
   type ModelInfo,
   type ModelTier,
 } from '../../models/repl/model-registry';
@@ -42,7 +43,8 @@ export interface ProjectCostInfo {
  * Returns undefined if the model is not found in the registry.
  */
 export function getModelInfo(modelId: string): ModelInfo | undefined {
-  return ALL_MODELS.find(m => m.id === modelId);
+  return ALL_MODELS.find(m => m.id === modelId)
+    ?? OPENAI_COMPATIBLE_MODELS.find(m => m.id === modelId);
 }
 
 /**
@@ -51,6 +53,7 @@ export function getModelInfo(modelId: string): ModelInfo | undefined {
 export function getProviderForModelId(modelId: string): string | undefined {
   if (OPENAI_MODELS.some(m => m.id === modelId)) return 'openai';
   if (ANTHROPIC_MODELS.some(m => m.id === modelId)) return 'anthropic';
+  if (OPENAI_COMPATIBLE_MODELS.some(m => m.id === modelId)) return 'openai-compatible';
   return undefined;
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Queue store contract helper
+ *
+ * Runs the same tests against every IQueueStore implementation that works
+ * without external services: InMemoryQueueStore, FileQueueStore and
+ * SQLiteQueueStore. The DynamoDB QueueStore is covered by the integration
+ * tests in test/unit/queue/queue-store.test.ts.
+ *
+ * Usage:
+ * ```typescript
+ * import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+ *
+ * describeEachQueueStore('task dependencies', 'deps-test', contract => {
+ *   let store: IQueueStore;
+ *   beforeEach(async () => {
+ *     store = await contract.createStore();
+ *   });
+ *   it('...', async () => { ... });
+ * });
+ * ```
+ */
+
+import { describe, beforeEach, afterEach } from 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryQueueStore } from '../../src/queue/in-memory-queue-store';
+import { FileQueueStore } from '../../src/queue/file-queue-store';
+import { SQLiteQueueStore } from '../../src/queue/sqlite-queue-store';
+import type { IQueueStore } from '../../src/queue/queue-store';
+import type { FairShareConfig } from '../../src/queue/fair-share';
+
+/**
+ * Settings passed to a store factory
+ */
+export interface QueueStoreFactoryOptions {
+  namespace: string;
+  /** Temp state directory of the current test */
+  stateDir: string;
+  fairShare?: FairShareConfig;
+}
+
+/**
+ * Named IQueueStore factory
+ */
+export interface QueueStoreFactory {
+  name: string;
+  create: (options: QueueStoreFactoryOptions) => IQueueStore;
+}
+
+export const QUEUE_STORE_FACTORIES: QueueStoreFactory[] = [
+  { name: 'InMemoryQueueStore', create: ({ namespace, fairShare }) => new InMemoryQueueStore({ namespace, fairShare }) },
+  { name: 'FileQueueStore', create: ({ namespace, stateDir, fairShare }) => new FileQueueStore({ namespace, stateDir, fairShare }) },
+  { name: 'SQLiteQueueStore', create: ({ namespace, stateDir, fairShare }) => new SQLiteQueueStore({ namespace, stateDir, fairShare }) },
+];
+
+/**
+ * What each contract suite gets for the current test
+ */
+export interface QueueStoreContract {
+  /** Temp state directory, removed after the test */
+  readonly stateDir: string;
+  /** Create a store with ensureTable() done. It is destroyed after the test. */
+  createStore(fairShare?: FairShareConfig): Promise<IQueueStore>;
+}
+
+/**
+ * Define `${factory.name} ${title}` for every store in QUEUE_STORE_FACTORIES
+ */
+export function describeEachQueueStore(
+  title: string,
+  namespace: string,
+  define: (contract: QueueStoreContract) => void
+): void {
+  for (const factory of QUEUE_STORE_FACTORIES) {
+    describe(`${factory.name} ${title}`, () => {
+      let stateDir = '';
+      const stores: IQueueStore[] = [];
+
+      beforeEach(() => {
+        stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-store-contract-'));
+      });
+
+      afterEach(() => {
+        stores.splice(0).forEach(store => store.destroy());
+        fs.rmSync(stateDir, { recursive: true, force: true });
+      });
+
+      define({
+        get stateDir() {
+          return stateDir;
+        },
+        createStore: async fairShare => {
+          const store = factory.create({ namespace, stateDir, fairShare });
+          stores.push(store);
+          await store.ensureTable();
+          return store;
+        },
+      });
+    });
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Audit Log Tests
+ * Per spec/42_AUDIT_LOG.md
+ *
+ * Tests:
+ * 1. append() chains entries with prev_hash / hash
+ * 2. verify() detects edited, deleted and reordered lines
+ * 3. query() / exportJsonl() filters
+ * 4. append() reads long last entries whole and records a chain break after an unreadable line
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, AuditEntryInput, AUDIT_GENESIS_HASH, apiKeyFingerprint, verifyAuditLines } from '../../../src/audit';
+
+function input(overrides: Partial<AuditEntryInput> = {}): AuditEntryInput {
+  return {
+    actor: { user_id: 'masa', device_name: 'macbook', role: 'admin' },
+    method: 'POST',
+    route: '/api/tasks/:task_id/status',
+    path: '/api/tasks/t1/status',
+    target_ids: { task_id: 't1' },
+    result: { status_code: 200, outcome: 'success' },
+    ...overrides,
+  };
+}
+
+describe('AuditLog', () => {
+  let tmpDir: string;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+    auditLog = new AuditLog({ stateDir: tmpDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should chain entries and verify them', async () => {
+    const first = await auditLog.append(input());
+    const second = await auditLog.append(input({ method: 'delete' }));
+
+    assert.equal(first.seq, 1);
+    assert.equal(first.prev_hash, AUDIT_GENESIS_HASH);
+    assert.equal(second.prev_hash, first.hash);
+    assert.equal(second.method, 'DELETE');
+    assert.deepEqual(await auditLog.verify(), { valid: true, checked: 2 });
+  });
+
+  it('should continue the chain written by another instance', async () => {
+    await auditLog.append(input());
+    const other = new AuditLog({ stateDir: tmpDir });
+    await other.append(input());
+    const third = await auditLog.append(input());
+
+    assert.equal(third.seq, 3);
+    assert.equal((await auditLog.verify()).valid, true);
+  });
+
+  it('should continue after an entry longer than the tail read', async () => {
+    const long = await auditLog.append(input({ target_ids: { task_id: 'x'.repeat(100 * 1024) } }));
+    const next = await new AuditLog({ stateDir: tmpDir }).append(input());
+
+    assert.equal(next.seq, 2);
+    assert.equal(next.prev_hash, long.hash);
+    assert.equal((await auditLog.verify()).valid, true);
+  });
+
+  it('should record a chain break after an unreadable last line', async () => {
+    await auditLog.append(input());
+    fs.appendFileSync(auditLog.getFilePath(), '{"seq": 2, "trunc\n');
+
+    const next = await new AuditLog({ stateDir: tmpDir }).append(input());
+    assert.equal(next.seq, 1);
+    assert.equal(next.prev_hash, AUDIT_GENESIS_HASH);
+    assert.match(next.chain_break ?? '', /not a valid entry/);
+    // The corrupt line itself stays reported
+    assert.equal((await auditLog.verify()).broken_at_line, 2);
+    assert.match(apiKeyFingerprint('pmr_0123456789abcdef'), /^sha256:[0-9a-f]{16}$/);
+  });
+
+  it('should detect edited, deleted and reordered lines', async () => {
+    for (let i = 0; i < 3; i++) {
+      await auditLog.append(input({ target_ids: { task_id: `t${i}` } }));
+    }
+    const lines = fs.readFileSync(auditLog.getFilePath(), 'utf-8').trim().split('\n');
+
+    const edited = [...lines];
+    edited[1] = edited[1].replace('"t1"', '"t9"');
+    assert.equal(verifyAuditLines(edited).broken_at_line, 2);
+    assert.match(verifyAuditLines(edited).error!, /hash/);
+
+    assert.equal(verifyAuditLines([lines[0], lines[2]]).broken_at_line, 2);
+    assert.equal(verifyAuditLines([lines[1], lines[0], lines[2]]).broken_at_line, 1);
+    assert.equal(verifyAuditLines([...lines, '{oops']).valid, false);
+  });
+
+  it('should query newest first with filters and export matching lines as stored', async () => {
+    await auditLog.append(input(), new Date('2026-10-01T00:00:00Z'));
+    await auditLog.append(input({ actor: { user_id: 'dev2' }, result: { status_code: 403, outcome: 'denied' } }), new Date('2026-10-02T00:00:00Z'));
+    await auditLog.append(input({ route: '/api/claude-hooks/:scope/:event', path: '/api/claude-hooks/project/PreToolUse', target_ids: {} }), new Date('2026-10-03T00:00:00Z'));
+
+    const all = await auditLog.query({ limit: 2 });
+    assert.equal(all.total, 3);
+    assert.deepEqual(all.entries.map(e => e.seq), [3, 2]);
+
+    assert.deepEqual((await auditLog.query({ user_id: 'dev2' })).entries.map(e => e.seq), [2]);
+    assert.deepEqual((await auditLog.query({ outcome: 'success', target_id: 't1' })).entries.map(e => e.seq), [1]);
+    assert.deepEqual((await auditLog.query({ route: '/api/claude-hooks' })).entries.map(e => e.seq), [3]);
+    assert.deepEqual((await auditLog.query({ since: '2026-10-02T00:00:00.000Z' })).entries.map(e => e.seq), [3, 2]);
+
+    const exported = await auditLog.exportJsonl();
+    assert.equal(exported, fs.readFileSync(auditLog.getFilePath(), 'utf-8'));
+    assert.equal(verifyAuditLines(exported.trim().split('\n')).valid, true);
+    assert.equal((await auditLog.exportJsonl({ user_id: 'nobody' })), '');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Budget Guard Tests
+ * Per spec/40_BUDGETS.md
+ *
+ * Tests:
+ * 1. Windows: daily (local day), monthly (billing cycle from the anchor), total
+ * 2. Spend is summed per scope within the current window
+ * 3. checkTask pauses over budget, proceeds on approval, declines otherwise
+ * 4. allowLlmCall counts the task's unrecorded spend; approvals lift the cap
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BudgetGuard,
+  BudgetStore,
+  BudgetValidationError,
+  BUDGET_CLARIFICATION_PREFIX,
+  getBudgetWindow,
+  isBudgetApproval,
+  type BudgetPolicy,
+} from '../../../src/budget';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+
+describe('getBudgetWindow', () => {
+  const base: BudgetPolicy = {
+    budget_id: 'b1',
+    name: 'cap',
+    scope: 'project',
+    scope_id: '/repo/a',
+    period: 'monthly',
+    limit_usd: 10,
+    enabled: true,
+    created_at: new Date(2026, 8, 20).toISOString(),
+    updated_at: new Date(2026, 8, 20).toISOString(),
+  };
+
+  it('should use the local calendar day for daily budgets', () => {
+    const window = getBudgetWindow({ ...base, period: 'daily' }, new Date(2026, 9, 19, 15, 30));
+    assert.deepEqual(window, { start: new Date(2026, 9, 19), end: new Date(2026, 9, 20) });
+  });
+
+  it('should anchor monthly budgets to the creation month or the given anchor', () => {
+    assert.deepEqual(getBudgetWindow(base, new Date(2026, 9, 19)), {
+      start: new Date(2026, 9, 1),
+      end: new Date(2026, 10, 1),
+    });
+    const anchored = { ...base, anchor: new Date(2026, 7, 15).toISOString() };
+    assert.deepEqual(getBudgetWindow(anchored, new Date(2026, 9, 19)), {
+      start: new Date(2026, 9, 15),
+      end: new Date(2026, 10, 15),
+    });
+  });
+
+  it('should leave total budgets unbounded', () => {
+    assert.deepEqual(getBudgetWindow({ ...base, period: 'total' }), { start: null, end: null });
+  });
+});
+
+describe('BudgetGuard', () => {
+  let tmpDir: string;
+  let store: BudgetStore;
+  let guard: BudgetGuard;
+  let queue: InMemoryQueueStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-guard-'));
+    store = new BudgetStore({ stateDir: tmpDir });
+    guard = new BudgetGuard({ store });
+    queue = new InMemoryQueueStore({ namespace: 'budget-test' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should reject invalid budgets', async () => {
+    await assert.rejects(
+      store.create({ name: '', scope: 'org' as never, period: 'weekly' as never, limit_usd: -1 }),
+      (error: unknown) => {
+        assert.ok(error instanceof BudgetValidationError);
+        assert.deepEqual(error.errors, [
+          'name is required',
+          'scope must be one of project, task_group',
+          'scope_id is required',
+          'period must be one of daily, monthly, total',
+          'limit_usd must be a non-negative number',
+        ]);
+        return true;
+      }
+    );
+  });
+
+  it('should sum spend per scope within the current window', async () => {
+    const daily = await store.create({ name: 'day', scope: 'project', scope_id: '/repo/a', period: 'daily', limit_usd: 1 });
+    const group = await store.create({ name: 'group', scope: 'task_group', scope_id: 'g1', period: 'total', limit_usd: 5 });
+    const now = new Date(2026, 9, 19, 12);
+    await guard.recordSpend({ task_id: 't0', task_group_id: 'g1', project_path: '/repo/a' }, 0.75, 'llm', undefined, new Date(2026, 9, 18, 12));
+    await guard.recordSpend({ task_id: 't1', task_group_id: 'g1' }, 0.5, 'llm', '/repo/a', new Date(2026, 9, 19, 9));
+    await guard.recordSpend({ task_id: 't2', task_group_id: 'g2', project_path: '/repo/b' }, 3, 'llm', undefined, new Date(2026, 9, 19, 10));
+    await guard.recordSpend({ task_id: 't3', task_group_id: 'g1' }, 0, 'llm', '/repo/a', now);
+
+    const statuses = await guard.getStatuses(now);
+    const byId = new Map(statuses.map(s => [s.budget.budget_id, s]));
+    assert.equal(byId.get(daily.budget_id)?.spent_usd, 0.5);
+    assert.equal(byId.get(daily.budget_id)?.exceeded, false);
+    assert.equal(byId.get(group.budget_id)?.spent_usd, 1.25);
+    assert.equal(byId.get(group.budget_id)?.period_start, undefined);
+    assert.equal((await store.listSpend()).length, 3);
+  });
+
+  it('should pause an over-budget task and continue it once approved', async () => {
+    await store.create({ name: 'cap', scope: 'task_group', scope_id: 'g1', period: 'monthly', limit_usd: 1 });
+    await guard.recordSpend({ task_id: 'old', task_group_id: 'g1' }, 1.5, 'llm');
+    const item = await queue.enqueue('s1', 'g1', 'expensive task', 'task-1');
+
+    const paused = await guard.checkTask(item);
+    assert.equal(paused.action, 'pause');
+    assert.ok(paused.action === 'pause' && paused.question.startsWith(`${BUDGET_CLARIFICATION_PREFIX} Budget exceeded — approve to continue.`));
+    assert.ok(paused.action === 'pause' && paused.question.includes('"cap" (task_group g1, monthly): $1.50 of $1.00'));
+
+    await queue.claim();
+    await queue.setAwaitingResponse(item.task_id, { type: 'unknown', question: (paused as { question: string }).question });
+    await queue.resumeWithResponse(item.task_id, 'Approve!');
+    const resumed = (await queue.getItem(item.task_id))!;
+
+    assert.deepEqual(await guard.checkTask(resumed), { action: 'proceed' });
+    assert.equal((await store.listApprovals(item.task_id)).length, 1);
+    assert.equal(await guard.allowLlmCall(resumed, undefined, 5), true);
+
+    // Other tasks in the group still need their own approval
+    const other = await queue.enqueue('s1', 'g1', 'another task');
+    assert.equal((await guard.checkTask(other)).action, 'pause');
+  });
+
+  it('should decline a task whose budget question was not approved', async () => {
+    await store.create({ name: 'cap', scope: 'project', scope_id: '/repo/a', period: 'total', limit_usd: 0 });
+    const item = await queue.enqueue('s1', 'g1', 'task', 'task-2', undefined, '/repo/a');
+    const paused = await guard.checkTask(item);
+    assert.equal(paused.action, 'pause');
+
+    await queue.claim();
+    await queue.setAwaitingResponse(item.task_id, { type: 'unknown', question: (paused as { question: string }).question });
+    await queue.resumeWithResponse(item.task_id, 'no, stop');
+
+    assert.deepEqual(await guard.checkTask((await queue.getItem(item.task_id))!), {
+      action: 'decline',
+      reason: 'Budget exceeded: continuation not approved',
+    });
+  });
+
+  it('should refuse LLM calls once unrecorded task spend reaches the limit', async () => {
+    await store.create({ name: 'cap', scope: 'project', scope_id: '/repo/a', period: 'daily', limit_usd: 1 });
+    await store.create({ name: 'off', scope: 'project', scope_id: '/repo/a', period: 'daily', limit_usd: 0, enabled: false });
+    const item = await queue.enqueue('s1', 'g1', 'task');
+
+    assert.equal(await guard.allowLlmCall(item, '/repo/a', 0.5), true);
+    assert.equal(await guard.allowLlmCall(item, '/repo/a', 1), false);
+    assert.equal(await guard.allowLlmCall(item, '/repo/other', 1), true);
+  });
+
+  it('should recognise approval replies', () => {
+    for (const reply of ['approve', 'Yes.', ' OK ', 'continue!', '承認', '続行。']) {
+      assert.equal(isBudgetApproval(reply), true, reply);
+    }
+    for (const reply of ['no', 'approve later', 'stop']) {
+      assert.equal(isBudgetApproval(reply), false, reply);
+    }
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Git Worktree Isolation Tests
+ *
+ * Covers:
+ * - Branch names are generated from task IDs and pass branchRules
+ * - createCheckpoint({ isolation: 'worktree' }) runs the task outside the main checkout
+ * - rollback discards the worktree and branch without touching user edits
+ * - acceptWorktree applies the task's changes to the main checkout
+ * - An accepted task can still be rolled back; a failed worktree cleanup does not fail the accept
+ * - Conflicts are reported and the worktree is kept
+ */
+
+import { describe, it, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import {
+  createCheckpoint,
+  rollback,
+  acceptWorktree,
+  getWorktreeBranchName,
+  WORKTREE_BRANCH_PREFIX,
+  ACCEPTED_REF_PREFIX,
+} from '../../../src/checkpoint';
+import type { Checkpoint } from '../../../src/checkpoint';
+import { validateBranchName } from '../../../src/lib/branchRules';
+
+const tmpDirs: string[] = [];
+const checkpoints: Checkpoint[] = [];
+
+function makeRepo(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-test-'));
+  tmpDirs.push(dir);
+  execSync('git init', { cwd: dir, stdio: 'pipe' });
+  execSync('git config user.email "test@test.com"', { cwd: dir, stdio: 'pipe' });
+  execSync('git config user.name "Test"', { cwd: dir, stdio: 'pipe' });
+  fs.writeFileSync(path.join(dir, 'file.txt'), 'original\n');
+  fs.writeFileSync(path.join(dir, 'notes.txt'), 'notes\n');
+  execSync('git add . && git commit -m "init"', { cwd: dir, stdio: 'pipe' });
+  return dir;
+}
+
+async function createWorktree(dir: string, taskId: string): Promise<Checkpoint> {
+  const result = await createCheckpoint(dir, taskId, { isolation: 'worktree' });
+  assert.equal(result.success, true);
+  assert.equal(result.checkpoint?.type, 'git-worktree');
+  checkpoints.push(result.checkpoint!);
+  return result.checkpoint!;
+}
+
+function branches(dir: string): string {
+  return execSync('git branch --list', { cwd: dir, stdio: 'pipe' }).toString();
+}
+
+describe('Git Worktree Isolation', () => {
+  afterEach(() => {
+    for (const cp of checkpoints) {
+      try { fs.rmSync(cp.worktreePath!, { recursive: true, force: true }); } catch { /* ignore */ }
+    }
+    checkpoints.length = 0;
+    for (const dir of tmpDirs) {
+      try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+    }
+    tmpDirs.length = 0;
+  });
+
+  describe('getWorktreeBranchName', () => {
+    it('generates a branchRules-valid name from the task ID', () => {
+      const name = getWorktreeBranchName('Task_123 (retry)');
+      assert.equal(name, `${WORKTREE_BRANCH_PREFIX}task_123-retry`);
+      assert.equal(validateBranchName(name).valid, true);
+    });
+  });
+
+  it('runs the task in a separate worktree on a generated branch', async () => {
+    const dir = makeRepo();
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'user edit in progress\n');
+
+    const cp = await createWorktree(dir, 'task-iso');
+
+    assert.equal(cp.branch, `${WORKTREE_BRANCH_PREFIX}task-iso`);
+    assert.ok(fs.existsSync(path.join(cp.workingDir!, 'file.txt')));
+    // Uncommitted user edits stay in the main checkout only
+    assert.equal(fs.readFileSync(path.join(cp.workingDir!, 'notes.txt'), 'utf-8'), 'notes\n');
+    assert.equal(fs.readFileSync(path.join(dir, 'notes.txt'), 'utf-8'), 'user edit in progress\n');
+  });
+
+  it('rollback discards the worktree and branch without touching user edits', async () => {
+    const dir = makeRepo();
+    const cp = await createWorktree(dir, 'task-rb');
+    fs.writeFileSync(path.join(cp.workingDir!, 'file.txt'), 'task change\n');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'user edit during run\n');
+
+    const result = await rollback(cp);
+
+    assert.equal(result.success, true);
+    assert.equal(fs.existsSync(cp.worktreePath!), false);
+    assert.ok(!branches(dir).includes(cp.branch!));
+    assert.equal(fs.readFileSync(path.join(dir, 'file.txt'), 'utf-8'), 'original\n');
+    assert.equal(fs.readFileSync(path.join(dir, 'notes.txt'), 'utf-8'), 'user edit during run\n');
+    assert.equal((await rollback(cp)).success, false);
+  });
+
+  it('acceptWorktree applies task changes to the main checkout and removes the worktree', async () => {
+    const dir = makeRepo();
+    const cp = await createWorktree(dir, 'task-ok');
+    fs.writeFileSync(path.join(cp.workingDir!, 'file.txt'), 'task change\n');
+    fs.writeFileSync(path.join(cp.workingDir!, 'added.txt'), 'new file\n');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'user edit during run\n');
+
+    const result = acceptWorktree(cp);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.filesChanged.sort(), ['added.txt', 'file.txt']);
+    assert.equal(fs.readFileSync(path.join(dir, 'file.txt'), 'utf-8'), 'task change\n');
+    assert.equal(fs.readFileSync(path.join(dir, 'added.txt'), 'utf-8'), 'new file\n');
+    assert.equal(fs.readFileSync(path.join(dir, 'notes.txt'), 'utf-8'), 'user edit during run\n');
+    assert.equal(fs.existsSync(cp.worktreePath!), false);
+    assert.ok(!branches(dir).includes(cp.branch!));
+    // No commit is created on the user's branch
+    assert.equal(execSync('git rev-list --count HEAD', { cwd: dir }).toString().trim(), '1');
+  });
+
+  it('rollback after accept reverses the accepted changes and keeps later user edits', async () => {
+    const dir = makeRepo();
+    const cp = await createWorktree(dir, 'task-accepted');
+    fs.writeFileSync(path.join(cp.workingDir!, 'file.txt'), 'task change\n');
+    fs.writeFileSync(path.join(cp.workingDir!, 'added.txt'), 'new file\n');
+
+    const result = acceptWorktree(cp);
+    assert.equal(result.success, true);
+    assert.ok(result.acceptedCommit);
+    const ref = ACCEPTED_REF_PREFIX + 'task-accepted';
+    assert.equal(execSync(`git rev-parse ${ref}`, { cwd: dir }).toString().trim(), result.acceptedCommit);
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'user edit after accept\n');
+
+    const rb = await rollback({ ...cp, acceptedCommit: result.acceptedCommit });
+
+    assert.equal(rb.success, true);
+    assert.equal(fs.readFileSync(path.join(dir, 'file.txt'), 'utf-8'), 'original\n');
+    assert.equal(fs.existsSync(path.join(dir, 'added.txt')), false);
+    assert.equal(fs.readFileSync(path.join(dir, 'notes.txt'), 'utf-8'), 'user edit after accept\n');
+    assert.throws(() => execSync(`git rev-parse --verify --quiet ${ref}`, { cwd: dir, stdio: 'pipe' }));
+  });
+
+  it('still succeeds when the worktree cannot be removed after the merge', async () => {
+    const dir = makeRepo();
+    const cp = await createWorktree(dir, 'task-locked');
+    fs.writeFileSync(path.join(cp.workingDir!, 'file.txt'), 'task change\n');
+    execSync(`git worktree lock "${cp.worktreePath}"`, { cwd: dir, stdio: 'pipe' });
+
+    const result = acceptWorktree(cp);
+
+    assert.equal(result.success, true);
+    assert.equal(fs.readFileSync(path.join(dir, 'file.txt'), 'utf-8'), 'task change\n');
+    execSync(`git worktree unlock "${cp.worktreePath}"`, { cwd: dir, stdio: 'pipe' });
+  });
+
+  it('reports conflicts and keeps the worktree', async () => {
+    const dir = makeRepo();
+    const cp = await createWorktree(dir, 'task-conflict');
+    fs.writeFileSync(path.join(cp.workingDir!, 'file.txt'), 'task change\n');
+    fs.writeFileSync(path.join(dir, 'file.txt'), 'user change\n');
+    execSync('git commit -am "user commit"', { cwd: dir, stdio: 'pipe' });
+
+    const result = acceptWorktree(cp);
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.conflicts, ['file.txt']);
+    assert.ok(result.error?.includes(cp.branch!));
+    assert.equal(fs.readFileSync(path.join(dir, 'file.txt'), 'utf-8'), 'user change\n');
+    assert.equal(execSync('git status --porcelain', { cwd: dir }).toString().trim(), '');
+    assert.ok(fs.existsSync(cp.worktreePath!));
+    assert.ok(branches(dir).includes(cp.branch!));
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Task Diff Tests
+ * Per spec/46_TASK_DIFF.md
+ *
+ * Covers:
+ * - computeHunks() line diff with context
+ * - Git baseline (temporary index, untracked files, ignore rules, real index untouched)
+ * - Snapshot baseline for non-git directories (contents on disk, not in memory)
+ * - Save / load
+ * - File and hunk revert, conflicts
+ * - GET /api/tasks/:task_id/diff, POST /api/tasks/:task_id/diff/revert
+ */
+
+import { describe, it, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import request from 'supertest';
+
+import {
+  captureDiffBaseline,
+  releaseDiffBaseline,
+  computeTaskDiff,
+  computeHunks,
+  saveTaskDiff,
+  loadTaskDiff,
+  revertTaskDiffFile,
+  revertTaskDiffHunk,
+  TaskDiffRevertError,
+} from '../../../src/checkpoint';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { createApp } from '../../../src/web/server';
+
+const tmpDirs: string[] = [];
+
+function makeTmpDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `task-diff-test-${prefix}-`));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+function initGitRepo(dir: string): void {
+  execSync('git init', { cwd: dir, stdio: 'pipe' });
+  execSync('git config user.email "test@test.com"', { cwd: dir, stdio: 'pipe' });
+  execSync('git config user.name "Test"', { cwd: dir, stdio: 'pipe' });
+}
+
+const numbered = (count: number, change: Record<number, string> = {}): string =>
+  Array.from({ length: count }, (_, i) => `${change[i + 1] ?? `line ${i + 1}`}\n`).join('');
+
+describe('Task Diff', () => {
+  afterEach(() => {
+    for (const dir of tmpDirs) {
+      try {
+        fs.rmSync(dir, { recursive: true, force: true });
+      } catch { /* ignore */ }
+    }
+    tmpDirs.length = 0;
+  });
+
+  describe('computeHunks()', () => {
+    it('should produce separate hunks with 3 lines of context', () => {
+      const hunks = computeHunks(numbered(20), numbered(20, { 2: 'changed 2', 18: 'changed 18' }));
+
+      assert.equal(hunks.length, 2);
+      assert.deepEqual(hunks[0], {
+        old_start: 1, old_lines: 5, new_start: 1, new_lines: 5,
+        lines: [' line 1', '-line 2', '+changed 2', ' line 3', ' line 4', ' line 5'],
+      });
+      assert.deepEqual([hunks[1].old_start, hunks[1].old_lines, hunks[1].new_start, hunks[1].new_lines], [15, 6, 15, 6]);
+    });
+
+    it('should merge nearby changes and handle added or removed content', () => {
+      assert.equal(computeHunks(numbered(10), numbered(10, { 3: 'a', 7: 'b' })).length, 1);
+      assert.deepEqual(computeHunks('', 'x\ny\n'), [{ old_start: 1, old_lines: 0, new_start: 1, new_lines: 2, lines: ['+x', '+y'] }]);
+      assert.deepEqual(computeHunks('same\n', 'same\n'), []);
+    });
+  });
+
+  describe('git baseline', () => {
+    it('should capture tracked and untracked changes without touching the index', () => {
+      const dir = makeTmpDir('git');
+      initGitRepo(dir);
+      fs.writeFileSync(path.join(dir, 'a.txt'), numbered(10));
+      fs.writeFileSync(path.join(dir, 'gone.txt'), 'bye\n');
+      execSync('git add . && git commit -m init', { cwd: dir, stdio: 'pipe' });
+      // Uncommitted work before the task is part of the baseline, not the diff
+      fs.writeFileSync(path.join(dir, 'draft.txt'), 'user draft\n');
+
+      const baseline = captureDiffBaseline(dir);
+      assert.equal(baseline?.type, 'git-tree');
+
+      fs.writeFileSync(path.join(dir, 'a.txt'), numbered(10, { 5: 'five' }));
+      fs.rmSync(path.join(dir, 'gone.txt'));
+      fs.mkdirSync(path.join(dir, 'src'));
+      fs.writeFileSync(path.join(dir, 'src', 'new.ts'), 'export {};\n');
+      fs.mkdirSync(path.join(dir, '.claude', 'state'), { recursive: true });
+      fs.writeFileSync(path.join(dir, '.claude', 'state', 'trace.jsonl'), '{}\n');
+
+      const diff = computeTaskDiff('task-1', baseline!);
+
+      assert.equal(diff.base, 'git');
+      assert.deepEqual(diff.files.map(f => [f.path, f.status]), [
+        ['a.txt', 'modified'],
+        ['gone.txt', 'deleted'],
+        ['src/new.ts', 'added'],
+      ]);
+      assert.equal(diff.files[0].before, numbered(10));
+      assert.deepEqual(diff.files[0].hunks[0].lines.filter(l => l[0] !== ' '), ['-line 5', '+five']);
+      assert.equal(diff.files[1].current_sha256, null);
+      assert.equal(execSync('git status --porcelain', { cwd: dir }).toString().includes('A '), false);
+    });
+
+    it('should leave out ignored files', () => {
+      const dir = makeTmpDir('git-ignore');
+      initGitRepo(dir);
+      fs.writeFileSync(path.join(dir, '.gitignore'), 'out/\n*.log\n');
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'a\n');
+      execSync('git add . && git commit -m init', { cwd: dir, stdio: 'pipe' });
+
+      const baseline = captureDiffBaseline(dir);
+      fs.mkdirSync(path.join(dir, 'out'));
+      fs.writeFileSync(path.join(dir, 'out', 'bundle.js'), 'built\n');
+      fs.writeFileSync(path.join(dir, 'debug.log'), 'log\n');
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'b\n');
+
+      const diff = computeTaskDiff('task-ignore', baseline!);
+      assert.deepEqual(diff.files.map(f => f.path), ['a.txt']);
+    });
+  });
+
+  describe('snapshot baseline', () => {
+    it('should diff a non-git directory and skip excluded folders', () => {
+      const dir = makeTmpDir('snap');
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n');
+      const baseline = captureDiffBaseline(dir);
+      assert.equal(baseline?.type, 'snapshot');
+
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'two\n');
+      fs.writeFileSync(path.join(dir, 'bin.dat'), Buffer.from([0, 1, 2]));
+      fs.mkdirSync(path.join(dir, 'node_modules'));
+      fs.writeFileSync(path.join(dir, 'node_modules', 'x.js'), '');
+
+      const diff = computeTaskDiff('task-2', baseline!);
+      assert.equal(diff.base, 'snapshot');
+      assert.deepEqual(diff.files.map(f => [f.path, f.status, f.binary]), [
+        ['a.txt', 'modified', false],
+        ['bin.dat', 'added', true],
+      ]);
+      assert.equal(diff.files[0].before, 'one\n');
+      assert.equal(diff.files[1].after, 'AAEC');
+      releaseDiffBaseline(baseline!);
+    });
+
+    it('should keep file contents on disk until the baseline is released', () => {
+      const dir = makeTmpDir('snap-store');
+      fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n');
+      const baseline = captureDiffBaseline(dir);
+      assert.ok(baseline?.type === 'snapshot');
+      assert.deepEqual(Object.keys(baseline.files.get('a.txt')!).sort(), ['sha256', 'size']);
+      assert.equal(fs.readFileSync(path.join(baseline.storeDir, 'a.txt'), 'utf-8'), 'one\n');
+
+      releaseDiffBaseline(baseline);
+      assert.equal(fs.existsSync(baseline.storeDir), false);
+    });
+  });
+
+  describe('revert', () => {
+    function setup(): { dir: string; file: string } {
+      const dir = makeTmpDir('revert');
+      const file = path.join(dir, 'a.txt');
+      fs.writeFileSync(file, numbered(20));
+      fs.writeFileSync(path.join(dir, 'gone.txt'), 'keep me\n');
+      const baseline = captureDiffBaseline(dir)!;
+      fs.writeFileSync(file, numbered(20, { 2: 'changed 2', 18: 'changed 18' }));
+      fs.writeFileSync(path.join(dir, 'new.txt'), 'new\n');
+      fs.rmSync(path.join(dir, 'gone.txt'));
+      saveTaskDiff(dir, computeTaskDiff('task/3', baseline));
+      releaseDiffBaseline(baseline);
+      return { dir, file };
+    }
+
+    it('should save and load the diff under .claude/state/diffs', () => {
+      const { dir } = setup();
+      assert.ok(fs.existsSync(path.join(dir, '.claude', 'state', 'diffs', 'task_3.json')));
+      assert.equal(loadTaskDiff(dir, 'task/3')?.files.length, 3);
+      assert.equal(loadTaskDiff(dir, 'other'), null);
+    });
+
+    it('should revert whole files, including added and deleted ones', () => {
+      const { dir, file } = setup();
+      const diff = loadTaskDiff(dir, 'task/3')!;
+
+      revertTaskDiffFile(diff, dir, 'a.txt');
+      revertTaskDiffFile(diff, dir, 'new.txt');
+      revertTaskDiffFile(diff, dir, 'gone.txt');
+
+      assert.equal(fs.readFileSync(file, 'utf-8'), numbered(20));
+      assert.equal(fs.existsSync(path.join(dir, 'new.txt')), false);
+      assert.equal(fs.readFileSync(path.join(dir, 'gone.txt'), 'utf-8'), 'keep me\n');
+      assert.throws(() => revertTaskDiffFile(diff, dir, 'a.txt'), (e: TaskDiffRevertError) => e.code === 'ALREADY_REVERTED');
+      assert.throws(() => revertTaskDiffFile(diff, dir, 'missing.txt'), (e: TaskDiffRevertError) => e.code === 'NOT_IN_DIFF');
+      assert.throws(() => revertTaskDiffFile(diff, dir, '../outside.txt'), (e: TaskDiffRevertError) => e.code === 'NOT_IN_DIFF');
+    });
+
+    it('should revert single hunks in any order', () => {
+      const { dir, file } = setup();
+      const diff = loadTaskDiff(dir, 'task/3')!;
+
+      revertTaskDiffHunk(diff, dir, 'a.txt', 1);
+      assert.equal(fs.readFileSync(file, 'utf-8'), numbered(20, { 2: 'changed 2' }));
+      assert.equal(diff.files[0].reverted, undefined);
+
+      revertTaskDiffHunk(diff, dir, 'a.txt', 0);
+      assert.equal(fs.readFileSync(file, 'utf-8'), numbered(20));
+      assert.equal(diff.files[0].reverted, true);
+
+      // The only hunk of an added file removes it
+      revertTaskDiffHunk(diff, dir, 'new.txt', 0);
+      assert.equal(fs.existsSync(path.join(dir, 'new.txt')), false);
+    });
+
+    it('should refuse to revert a file edited after the task unless forced', () => {
+      const { dir, file } = setup();
+      const diff = loadTaskDiff(dir, 'task/3')!;
+      fs.appendFileSync(file, 'later edit\n');
+
+      assert.throws(() => revertTaskDiffHunk(diff, dir, 'a.txt', 0), (e: TaskDiffRevertError) => e.code === 'CONFLICT');
+      assert.throws(() => revertTaskDiffFile(diff, dir, 'a.txt'), (e: TaskDiffRevertError) => e.code === 'CONFLICT');
+
+      revertTaskDiffFile(diff, dir, 'a.txt', true);
+      assert.equal(fs.readFileSync(file, 'utf-8'), numbered(20));
+    });
+  });
+
+  describe('routes', () => {
+    it('should serve the diff without contents and revert through the API', async () => {
+      const dir = makeTmpDir('routes');
+      fs.writeFileSync(path.join(dir, 'a.txt'), numbered(20));
+      const baseline = captureDiffBaseline(dir)!;
+      fs.writeFileSync(path.join(dir, 'a.txt'), numbered(20, { 2: 'changed 2', 18: 'changed 18' }));
+      saveTaskDiff(dir, computeTaskDiff('task-r', baseline));
+      releaseDiffBaseline(baseline);
+
+      const store = new InMemoryQueueStore({ namespace: 'diff-test' });
+      await store.enqueue('s', 'tg', 'edit a.txt', 'task-r', 'IMPLEMENTATION', dir);
+      await store.enqueue('s', 'tg', 'no changes', 'task-none', 'IMPLEMENTATION', dir);
+      const app = createApp({ queueStore: store, sessionId: 's', namespace: 'diff-test' });
+
+      const res = await request(app).get('/api/tasks/task-r/diff').expect(200);
+      assert.equal(res.body.files.length, 1);
+      assert.equal(res.body.files[0].hunks.length, 2);
+      assert.equal('before' in res.body.files[0], false);
+      assert.equal((await request(app).get('/api/tasks/task-none/diff').expect(404)).body.error, 'NO_DIFF');
+      await request(app).get('/api/tasks/missing/diff').expect(404);
+
+      await request(app).post('/api/tasks/task-r/diff/revert').send({}).expect(400);
+      await request(app).post('/api/tasks/task-r/diff/revert').send({ path: 'a.txt', hunk: -1 }).expect(400);
+      await request(app).post('/api/tasks/task-r/diff/revert').send({ path: 'b.txt' }).expect(404);
+
+      const reverted = await request(app).post('/api/tasks/task-r/diff/revert').send({ path: 'a.txt', hunk: 0 }).expect(200);
+      assert.equal(reverted.body.file.hunks[0].reverted, true);
+      assert.equal(fs.readFileSync(path.join(dir, 'a.txt'), 'utf-8'), numbered(20, { 18: 'changed 18' }));
+      await request(app).post('/api/tasks/task-r/diff/revert').send({ path: 'a.txt', hunk: 0 }).expect(409);
+
+      fs.appendFileSync(path.join(dir, 'a.txt'), 'later edit\n');
+      const conflict = await request(app).post('/api/tasks/task-r/diff/revert').send({ path: 'a.txt' }).expect(409);
+      assert.equal(conflict.body.error, 'CONFLICT');
+      await request(app).post('/api/tasks/task-r/diff/revert').send({ path: 'a.txt', force: true }).expect(200);
+      assert.equal(fs.readFileSync(path.join(dir, 'a.txt'), 'utf-8'), numbered(20));
+    });
+  });
+});
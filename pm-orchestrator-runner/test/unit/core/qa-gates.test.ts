@@ -0,0 +1,167 @@
+/**
+ * QA Gates Tests
+ * Per spec/45_QA_GATES.md
+ *
+ * Tests:
+ * 1. deriveQAGates() picks scripts, package manager and timeouts from the repo profile
+ * 2. judgeGateOutput() maps exit codes and test output to gate counts
+ * 3. runQAGates() stamps one run_id, enforces timeouts and judges with the Completion Protocol
+ * 4. Fix iteration task ids
+ * 5. recordQAGates() stores the report on the task
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  deriveQAGates,
+  judgeGateOutput,
+  runQAGates,
+  formatQAGateFailures,
+  qaFixAttempt,
+  qaFixTaskId,
+  DEFAULT_QA_GATE_TIMEOUTS,
+} from '../../../src/core/qa-gates';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { SQLiteQueueStore } from '../../../src/queue/sqlite-queue-store';
+
+const profile = (overrides: Partial<Parameters<typeof deriveQAGates>[0]> = {}): Parameters<typeof deriveQAGates>[0] => ({
+  scripts: {},
+  packageManager: 'npm',
+  hasTypeScript: false,
+  dependencies: [],
+  devDependencies: [],
+  ...overrides,
+});
+
+describe('QA Gates', () => {
+  describe('deriveQAGates()', () => {
+    it('should derive gates from scripts in gate order with the package manager', () => {
+      const gates = deriveQAGates(profile({
+        packageManager: 'pnpm',
+        scripts: { build: 'tsc', test: 'mocha', 'type-check': 'tsc --noEmit', lint: 'eslint src' },
+      }));
+
+      assert.deepEqual(gates.map(g => [g.name, g.command]), [
+        ['lint', 'pnpm run lint'],
+        ['typecheck', 'pnpm run type-check'],
+        ['test', 'pnpm run test'],
+        ['build', 'pnpm run build'],
+      ]);
+      assert.equal(gates[2].timeout_ms, DEFAULT_QA_GATE_TIMEOUTS.test);
+    });
+
+    it('should skip placeholder tests, fall back to tsc and apply options', () => {
+      const gates = deriveQAGates(profile({
+        packageManager: 'unknown',
+        hasTypeScript: true,
+        devDependencies: ['typescript'],
+        scripts: { test: 'echo "Error: no test specified" && exit 1', lint: 'eslint .' },
+      }), { gates: ['typecheck', 'test'], timeouts: { typecheck: 5000 } });
+
+      assert.deepEqual(gates, [{ name: 'typecheck', command: 'npx --no-install tsc --noEmit', timeout_ms: 5000 }]);
+      assert.deepEqual(deriveQAGates(profile({ hasTypeScript: true })), []);
+    });
+  });
+
+  describe('judgeGateOutput()', () => {
+    it('should count exit codes, parsed test results and timeouts', () => {
+      assert.deepEqual(judgeGateOutput('lint', 0, false, ''), { passing: 1, failing: 0, skipped: 0 });
+      assert.deepEqual(judgeGateOutput('build', 2, false, ''), { passing: 0, failing: 1, skipped: 0 });
+      assert.deepEqual(judgeGateOutput('test', 1, false, '  12 passing\n  2 failing\n  1 pending'), { passing: 12, failing: 2, skipped: 1 });
+      // A crashed runner is never a pass
+      assert.deepEqual(judgeGateOutput('test', 1, false, '  12 passing'), { passing: 12, failing: 1, skipped: 0 });
+      assert.deepEqual(judgeGateOutput('test', 0, false, 'ok'), { passing: 1, failing: 0, skipped: 0 });
+      assert.deepEqual(judgeGateOutput('test', null, true, '  3 passing'), { passing: 0, failing: 1, skipped: 0 });
+    });
+  });
+
+  describe('runQAGates()', () => {
+    let workDir: string;
+
+    beforeEach(() => {
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-gates-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should judge COMPLETE when every gate passes, with one run_id', async () => {
+      const report = await runQAGates([
+        { name: 'lint', command: 'test "$CI" = 1', timeout_ms: 5000 },
+        { name: 'test', command: 'echo "  4 passing"', timeout_ms: 5000 },
+      ], workDir);
+
+      assert.equal(report.verdict.final_status, 'COMPLETE');
+      assert.equal(report.commit_sha, '0000000');
+      assert.match(report.run_id, /^\d{8}-\d{6}-\d{3}-0000000-[0-9a-f]{8}$/);
+      assert.ok(report.gates.every(g => g.run_id === report.run_id));
+      assert.equal(report.verdict.run_id, report.run_id);
+      assert.equal(report.gates[1].passing, 4);
+    });
+
+    it('should judge FAILING on a failing or timed-out gate and format the failures', async () => {
+      const report = await runQAGates([
+        { name: 'lint', command: 'echo "src/app.ts: no-console" >&2; exit 1', timeout_ms: 5000 },
+        { name: 'test', command: 'sleep 5', timeout_ms: 100 },
+        { name: 'build', command: 'true', timeout_ms: 5000 },
+      ], workDir);
+
+      assert.equal(report.verdict.final_status, 'FAILING');
+      assert.deepEqual(report.verdict.failing_gates, ['lint', 'test']);
+      assert.equal(report.gates[0].exit_code, 1);
+      assert.equal(report.gates[1].timed_out, true);
+      assert.equal(report.gates[1].exit_code, null);
+
+      const text = formatQAGateFailures(report);
+      assert.match(text, /FAILING \(run .+\): lint, test/);
+      assert.match(text, /### lint: `echo .*` exit 1\n```\nsrc\/app\.ts: no-console\n```/);
+      assert.match(text, /### test: `sleep 5` timed out/);
+      assert.doesNotMatch(text, /### build/);
+    });
+  });
+
+  describe('fix iterations', () => {
+    it('should number fix tasks from the original task id', () => {
+      assert.equal(qaFixAttempt('task-1'), 0);
+      assert.equal(qaFixTaskId('task-1'), 'task-1-qa-fix-1');
+      assert.equal(qaFixAttempt('task-1-qa-fix-1'), 1);
+      assert.equal(qaFixTaskId('task-1-qa-fix-1'), 'task-1-qa-fix-2');
+    });
+
+    it('should not reuse the fix task id of an earlier run of a retried task', () => {
+      assert.equal(qaFixTaskId('task-1', ['task-1', 'task-1-qa-fix-1']), 'task-1-qa-fix-1-2');
+      assert.equal(qaFixTaskId('task-1', ['task-1-qa-fix-1', 'task-1-qa-fix-1-2']), 'task-1-qa-fix-1-3');
+      assert.equal(qaFixAttempt('task-1-qa-fix-1-2'), 1);
+      assert.equal(qaFixTaskId('task-1-qa-fix-1-2', ['task-1-qa-fix-2']), 'task-1-qa-fix-2-2');
+    });
+  });
+
+  describe('recordQAGates()', () => {
+    it('should replace the report on the task in each store', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-gates-store-'));
+      try {
+        const report = await runQAGates([{ name: 'lint', command: 'true', timeout_ms: 5000 }], tmpDir);
+        for (const store of [
+          new InMemoryQueueStore({ namespace: 'qa-test' }),
+          new SQLiteQueueStore({ namespace: 'qa-test', stateDir: tmpDir }),
+        ]) {
+          await store.ensureTable();
+          const item = await store.enqueue('s', 'tg', 'implement it');
+          await store.recordQAGates(item.task_id, { ...report, run_id: 'old' });
+          await store.recordQAGates(item.task_id, report);
+          await store.recordQAGates('missing-task', report);
+
+          const loaded = await store.getItem(item.task_id);
+          assert.equal(loaded?.qa_gates?.run_id, report.run_id);
+          assert.equal(loaded?.qa_gates?.verdict.final_status, 'COMPLETE');
+        }
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
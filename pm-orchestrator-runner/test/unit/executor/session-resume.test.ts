@@ -0,0 +1,116 @@
+/**
+ * Session Resume Tests
+ * Per spec/49_SESSION_RESUME.md
+ *
+ * Tests:
+ * 1. ClaudeCodeExecutor reports the stream-json session id and passes --resume;
+ *    only runs that persist their session omit --no-session-persistence
+ * 2. A missing session is reported as sessionNotFound
+ * 3. setClaudeSessionId() sets / clears QueueItem.claude_session_id and claude_session_at
+ *    (every store of describeEachQueueStore)
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeExecutor, isSessionNotFoundError } from '../../../src/executor/claude-code-executor';
+import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+
+describe('Session Resume', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-resume-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /** Mock CLI: records its args, fails --resume of "gone", otherwise emits a session init event */
+  function mockExecutor(): { executor: ClaudeCodeExecutor; argsFile: string } {
+    const mockScript = path.join(tempDir, 'mock-claude.sh');
+    const argsFile = path.join(tempDir, 'captured-args.txt');
+    fs.writeFileSync(mockScript, `#!/bin/bash
+echo "$@" > "${argsFile}"
+for a in "$@"; do
+  if [ "$a" = "gone" ]; then echo "No conversation found with session ID: gone" >&2; exit 1; fi
+done
+echo '{"type":"system","subtype":"init","session_id":"sess-2","model":"claude-sonnet-4-5"}'
+echo '{"type":"result","result":"done","session_id":"sess-2"}'
+echo "done" > "${path.join(tempDir, 'out.txt')}"
+exit 0
+`, { mode: 0o755 });
+    return {
+      executor: new ClaudeCodeExecutor({ projectPath: tempDir, timeout: 5000, cliPath: mockScript }),
+      argsFile,
+    };
+  }
+
+  describe('ClaudeCodeExecutor', () => {
+    it('should pass --resume and report the session id of the run', async () => {
+      const { executor, argsFile } = mockExecutor();
+
+      const result = await executor.execute({
+        id: 'resume-1',
+        prompt: 'The user replied',
+        workingDir: tempDir,
+        resumeSessionId: 'sess-1',
+        persistSession: true,
+      });
+
+      const args = fs.readFileSync(argsFile, 'utf-8');
+      assert.match(args, /--resume sess-1 /);
+      assert.doesNotMatch(args, /--no-session-persistence/);
+      assert.equal(result.status, 'COMPLETE');
+      assert.equal(result.sessionId, 'sess-2');
+      assert.equal(result.sessionNotFound, undefined);
+    });
+
+    it('should not persist sessions that will not be resumed', async () => {
+      const { executor, argsFile } = mockExecutor();
+
+      await executor.execute({ id: 'one-off', prompt: 'Summarize', workingDir: tempDir });
+
+      assert.match(fs.readFileSync(argsFile, 'utf-8'), /--no-session-persistence/);
+    });
+
+    it('should report a missing session', async () => {
+      const { executor } = mockExecutor();
+
+      const result = await executor.execute({
+        id: 'resume-2',
+        prompt: 'The user replied',
+        workingDir: tempDir,
+        resumeSessionId: 'gone',
+      });
+
+      assert.equal(result.status, 'ERROR');
+      assert.equal(result.sessionNotFound, true);
+      assert.equal(isSessionNotFoundError('Error: No conversation found with session ID: abc'), true);
+      assert.equal(isSessionNotFoundError('rate limited'), false);
+    });
+  });
+
+  describeEachQueueStore('setClaudeSessionId()', 'session-test', ({ createStore }) => {
+    it('should set and clear claude_session_id', async () => {
+      const store = await createStore();
+      const item = await store.enqueue('s', 'tg', 'resume me');
+
+      await store.setClaudeSessionId(item.task_id, 'sess-1');
+      const recorded = await store.getItem(item.task_id);
+      assert.equal(recorded?.claude_session_id, 'sess-1');
+      assert.equal(recorded?.claude_session_at, recorded?.updated_at);
+
+      await store.setClaudeSessionId(item.task_id, undefined);
+      const cleared = await store.getItem(item.task_id);
+      assert.equal(cleared?.claude_session_id, undefined);
+      assert.equal(cleared?.claude_session_at, undefined);
+
+      await store.setClaudeSessionId('missing-task', 'sess-1');
+      assert.equal(await store.getItem('missing-task'), null);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * User Preference Store Tests
+ * Per spec/52_USER_PREFERENCES.md
+ *
+ * Tests:
+ * 1. Recorded preferences keep their source task and project
+ * 2. Confidence decays unless confirmed (when configured); pinned preferences do not decay
+ * 3. Disabled preferences are never matched
+ * 4. Per-project export / import
+ * 5. Instances sharing the file see each other's changes
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UserPreferenceStore, PreferenceValidationError } from '../../../src/executor/user-preference-store';
+
+const QUESTION = 'Which test framework should the new package use?';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('UserPreferenceStore', () => {
+  let tempDir: string;
+  let storagePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'preference-store-test-'));
+    storagePath = path.join(tempDir, 'preferences.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /** Store with one preference confirmed up to 0.8 confidence */
+  function learned(decayHalfLifeDays?: number): { store: UserPreferenceStore; id: string } {
+    const store = new UserPreferenceStore({ storagePath, decayHalfLifeDays });
+    store.recordPreference('approach', QUESTION, 'mocha', undefined, { taskId: 'task-1', projectPath: '/repo/a' });
+    store.recordPreference('approach', QUESTION, 'mocha', undefined, { taskId: 'task-2', projectPath: '/repo/a' });
+    const pref = store.recordPreference('approach', QUESTION, 'mocha');
+    return { store, id: pref.id };
+  }
+
+  it('should record the source task and project, and persist applications', () => {
+    const { store, id } = learned();
+    const pref = store.get(id);
+    assert.equal(pref?.sourceTaskId, 'task-1');
+    assert.equal(pref?.projectPath, '/repo/a');
+    assert.equal(pref?.confirmationCount, 3);
+
+    store.recordApplied(id, 'task-9');
+    const reloaded = new UserPreferenceStore({ storagePath }).get(id);
+    assert.equal(reloaded?.appliedCount, 1);
+    assert.equal(reloaded?.lastAppliedTaskId, 'task-9');
+  });
+
+  it('should decay confidence over time unless pinned', () => {
+    const { store, id } = learned(30);
+    const match = store.findMatch('approach', QUESTION);
+    assert.ok(match);
+    assert.equal(store.canAutoApply(match), true);
+
+    const pref = store.get(id);
+    assert.ok(pref);
+    const later = new Date(Date.parse(pref.updatedAt) + 30 * DAY_MS);
+    assert.equal(store.getEffectiveConfidence(pref, later).toFixed(2), (pref.confidence / 2).toFixed(2));
+
+    // Backdate the last confirmation: no longer confident enough to auto-apply
+    const data = JSON.parse(fs.readFileSync(storagePath, 'utf-8'));
+    data.default[0].updatedAt = new Date(Date.now() - 30 * DAY_MS).toISOString();
+    fs.writeFileSync(storagePath, JSON.stringify(data));
+    const aged = new UserPreferenceStore({ storagePath, decayHalfLifeDays: 30 });
+    const agedMatch = aged.findMatch('approach', QUESTION);
+    assert.ok(agedMatch);
+    assert.equal(aged.canAutoApply(agedMatch), false);
+
+    // Decay is off by default: existing preferences keep applying
+    const undecayed = new UserPreferenceStore({ storagePath });
+    const undecayedMatch = undecayed.findMatch('approach', QUESTION);
+    assert.ok(undecayedMatch);
+    assert.equal(undecayed.canAutoApply(undecayedMatch), true);
+
+    // Pinning applies it regardless of age
+    aged.update(id, { pinned: true });
+    const pinnedMatch = aged.findMatch('approach', QUESTION);
+    assert.ok(pinnedMatch);
+    assert.equal(aged.canAutoApply(pinnedMatch), true);
+  });
+
+  it('should not match disabled preferences and validate edits', () => {
+    const { store, id } = learned();
+    store.update(id, { disabled: true });
+    assert.equal(store.findMatch('approach', QUESTION), null);
+
+    store.update(id, { disabled: false, choice: 'vitest', confidence: 0.9 });
+    assert.equal(store.findMatch('approach', QUESTION)?.preference.choice, 'vitest');
+
+    assert.throws(() => store.update(id, { confidence: 2, keywords: [] }), (error: unknown) =>
+      error instanceof PreferenceValidationError && error.errors.length === 2);
+    assert.equal(store.update('missing', { pinned: true }), null);
+  });
+
+  it('should export and import the preferences of a project', () => {
+    const { store } = learned();
+    store.recordPreference('file_location', 'Where should the report be saved?', 'docs/reports', undefined, { projectPath: '/repo/b' });
+
+    const exported = store.exportPreferences('/repo/a');
+    assert.deepEqual(exported.preferences.map(p => p.choice), ['mocha']);
+    assert.equal(exported.projectPath, '/repo/a');
+
+    const target = new UserPreferenceStore({ storagePath: path.join(tempDir, 'other.json') });
+    const result = target.importPreferences([...exported.preferences, { category: 'approach' }, null], '/repo/c');
+    assert.deepEqual(result, { imported: 1, skipped: 2 });
+    const [imported] = target.getAll();
+    assert.equal(imported.projectPath, '/repo/c');
+    assert.equal(imported.sourceTaskId, 'task-1');
+    assert.equal(imported.confidence, exported.preferences[0].confidence);
+  });
+
+  it('should keep changes made through another instance', () => {
+    const { store: executorStore, id } = learned();
+    const apiStore = new UserPreferenceStore({ storagePath });
+    apiStore.update(id, { disabled: true });
+
+    // The long-lived executor instance sees the edit and does not overwrite it
+    assert.equal(executorStore.findMatch('approach', QUESTION), null);
+    executorStore.recordApplied(id, 'task-9');
+    executorStore.recordPreference('file_location', 'Where should the report be saved?', 'docs/reports');
+
+    const reloaded = new UserPreferenceStore({ storagePath });
+    assert.equal(reloaded.get(id)?.disabled, true);
+    assert.equal(reloaded.get(id)?.appliedCount, 1);
+    assert.equal(reloaded.getAll().length, 2);
+  });
+});
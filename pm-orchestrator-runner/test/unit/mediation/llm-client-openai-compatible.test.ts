@@ -0,0 +1,160 @@
+/**
+ * LLM Client - openai-compatible provider Tests
+ * Per spec/12_LLM_PROVIDER_AND_MODELS.md Section 2.1 (openai-compatible)
+ *
+ * Runs against a local stub HTTP server speaking the OpenAI protocol
+ * (/v1/chat/completions, /v1/models), the way Ollama / llama.cpp / vLLM do.
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  LLMClient,
+  LLMAPIError,
+  getAPIKeyFromEnv,
+  listOpenAICompatibleModels,
+} from '../../../src/mediation/llm-client';
+import { detectQuestionsWithLlm } from '../../../src/utils/question-detector';
+
+interface StubRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body?: Record<string, unknown>;
+}
+
+describe('LLMClient (openai-compatible)', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: StubRequest[];
+  let chatStatus: number;
+  let chatContent: string;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV_VARS = ['OPENAI_COMPATIBLE_BASE_URL', 'OPENAI_COMPATIBLE_API_KEY', 'OPENAI_COMPATIBLE_MODEL'];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({
+          method: req.method || '',
+          url: req.url || '',
+          authorization: req.headers.authorization,
+          body: raw ? JSON.parse(raw) : undefined,
+        });
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/v1/models') {
+          res.end(JSON.stringify({ object: 'list', data: [{ id: 'llama3.1' }, { id: 'qwen2.5-coder' }] }));
+        } else if (req.url === '/v1/chat/completions' && chatStatus === 200) {
+          res.end(JSON.stringify({
+            model: 'llama3.1',
+            choices: [{ message: { role: 'assistant', content: chatContent } }],
+            usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+          }));
+        } else {
+          res.statusCode = req.url === '/v1/chat/completions' ? chatStatus : 404;
+          res.end(JSON.stringify({ error: 'model not loaded' }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    chatStatus = 200;
+    chatContent = '{"hasQuestions":false}';
+    for (const name of ENV_VARS) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of ENV_VARS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  it('should not require an API key', () => {
+    assert.equal(getAPIKeyFromEnv('openai-compatible'), '');
+    assert.throws(() => {
+      const saved = process.env.OPENAI_API_KEY;
+      delete process.env.OPENAI_API_KEY;
+      try {
+        getAPIKeyFromEnv('openai');
+      } finally {
+        if (saved !== undefined) process.env.OPENAI_API_KEY = saved;
+      }
+    }, /OPENAI_API_KEY/);
+  });
+
+  it('should chat through the configured base URL without Authorization when no key is set', async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = baseUrl + '/';
+    process.env.OPENAI_COMPATIBLE_MODEL = 'qwen2.5-coder';
+
+    const client = LLMClient.fromEnv('openai-compatible');
+    const response = await client.chat([{ role: 'user', content: 'hi' }]);
+
+    assert.equal(client.getProvider(), 'openai-compatible');
+    assert.equal(response.content, '{"hasQuestions":false}');
+    assert.equal(response.usage?.total_tokens, 17);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].url, '/v1/chat/completions');
+    assert.equal(requests[0].authorization, undefined);
+    assert.equal(requests[0].body?.model, 'qwen2.5-coder');
+  });
+
+  it('should send the optional API key as a bearer token', async () => {
+    const client = new LLMClient({ provider: 'openai-compatible', model: 'llama3.1', apiKey: 'local-key', baseUrl });
+    await client.chat([{ role: 'user', content: 'hi' }]);
+
+    assert.equal(requests[0].authorization, 'Bearer local-key');
+  });
+
+  it('should discover models via /v1/models', async () => {
+    assert.deepEqual(await listOpenAICompatibleModels(baseUrl), ['llama3.1', 'qwen2.5-coder']);
+
+    const client = new LLMClient({ provider: 'openai-compatible', model: 'llama3.1', apiKey: '', baseUrl });
+    assert.deepEqual(await client.listModels(), ['llama3.1', 'qwen2.5-coder']);
+  });
+
+  it('should report server errors as LLMAPIError for openai-compatible', async () => {
+    chatStatus = 500;
+    const client = new LLMClient({ provider: 'openai-compatible', model: 'llama3.1', apiKey: '', baseUrl });
+
+    await assert.rejects(client.chat([{ role: 'user', content: 'hi' }]), (error: unknown) => {
+      assert.ok(error instanceof LLMAPIError);
+      assert.equal(error.provider, 'openai-compatible');
+      assert.equal(error.statusCode, 500);
+      return true;
+    });
+  });
+
+  it('should run question detection on the local model', async () => {
+    chatContent = '{"hasQuestions":true,"questionSummary":"Which database?","reasoning":"asks to choose"}';
+
+    const result = await detectQuestionsWithLlm(
+      'Which database should I use? 1) PostgreSQL 2) MySQL',
+      'set up persistence',
+      { provider: 'openai-compatible', model: 'llama3.1', baseUrl }
+    );
+
+    assert.equal(result.hasQuestions, true);
+    assert.equal(result.questionSummary, 'Which database?');
+    assert.equal(result.usedProvider, 'openai-compatible');
+    assert.equal(requests[0].url, '/v1/chat/completions');
+  });
+});
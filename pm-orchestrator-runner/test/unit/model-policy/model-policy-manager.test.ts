@@ -1,4 +1,4 @@
-import { describe, it, beforeEach } from 'mocha';
+import { describe, it, beforeEach, afterEach } from 'mocha';
 import { strict as assert } from 'assert';
 import {
   ModelPolicyManager,
@@ -16,11 +16,13 @@ import {
   findLargerContextModel,
   selectModel,
   calculateCost,
+  registerOpenAICompatibleModelConfigs,
   type ModelSelection,
   type SelectionContext,
   type TaskPhase,
   type ModelPolicyEvent,
 } from '../../../src/model-policy';
+import { OPENAI_COMPATIBLE_MODELS, getModelsForProvider } from '../../../src/models/repl/model-registry';
 
 describe('ModelPolicyManager (spec/31_PROVIDER_MODEL_POLICY.md)', () => {
   let manager: ModelPolicyManager;
@@ -458,4 +460,40 @@ describe('ModelPolicyManager (spec/31_PROVIDER_MODEL_POLICY.md)', () => {
       assert.ok(selection.reason);
     });
   });
+
+  describe('OpenAI-compatible models (spec/12 Section 2.1)', () => {
+    const LOCAL_IDS = ['test-local-llama', 'test-local-qwen'];
+
+    afterEach(() => {
+      for (const id of LOCAL_IDS) {
+        const configIndex = MODEL_CONFIGS.findIndex((m) => m.model_id === id);
+        if (configIndex >= 0) MODEL_CONFIGS.splice(configIndex, 1);
+        const infoIndex = OPENAI_COMPATIBLE_MODELS.findIndex((m) => m.id === id);
+        if (infoIndex >= 0) OPENAI_COMPATIBLE_MODELS.splice(infoIndex, 1);
+      }
+    });
+
+    it('should register discovered models at zero cost', () => {
+      registerOpenAICompatibleModelConfigs(LOCAL_IDS);
+      registerOpenAICompatibleModelConfigs([LOCAL_IDS[0]]);
+
+      assert.strictEqual(getProviderForModel('test-local-llama'), 'openai-compatible');
+      assert.deepStrictEqual(calculateCost('test-local-llama', 100000, 50000), { input: 0, output: 0, total: 0 });
+      assert.strictEqual(MODEL_CONFIGS.filter((m) => m.model_id === 'test-local-llama').length, 1);
+      assert.deepStrictEqual(
+        getModelsForProvider('openai-compatible').map((m) => m.id).filter((id) => LOCAL_IDS.includes(id)),
+        LOCAL_IDS
+      );
+    });
+
+    it('should switch the manager to a local profile', () => {
+      manager.registerOpenAICompatibleModels(LOCAL_IDS, true);
+
+      const selection = manager.select('IMPLEMENTATION', { task_id: 't1', retry_count: 5 });
+      assert.strictEqual(manager.getProfile().name, 'local');
+      assert.strictEqual(selection.model_id, 'test-local-llama');
+      assert.strictEqual(selection.provider, 'openai-compatible');
+      assert.strictEqual(manager.checkCostLimit().exceeded, false);
+    });
+  });
 });
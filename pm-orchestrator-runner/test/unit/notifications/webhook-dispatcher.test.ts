@@ -0,0 +1,197 @@
+/**
+ * Webhook Dispatcher Tests
+ * Per spec/39_WEBHOOKS.md
+ *
+ * Tests:
+ * 1. Event / project filters select the webhooks that receive a notification
+ * 2. json bodies are HMAC-signed; slack / discord presets build their own bodies
+ * 3. 5xx / network errors are retried, other 4xx are not; deliveries are logged
+ * 4. observeStatusTransitions reports status changes; subscribed webhooks receive them
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  WebhookDispatcher,
+  WebhookStore,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../../../src/notifications';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { observeStatusTransitions, QueueStatusTransition } from '../../../src/queue/status-observer';
+
+interface CapturedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * fetch stand-in that answers with the given status codes in order (last one repeats)
+ */
+function fakeFetch(statuses: Array<number | Error>, captured: CapturedRequest[]): typeof fetch {
+  let call = 0;
+  return (async (url: string, init: RequestInit) => {
+    captured.push({ url, headers: init.headers as Record<string, string>, body: init.body as string });
+    const status = statuses[Math.min(call++, statuses.length - 1)];
+    if (status instanceof Error) {
+      throw status;
+    }
+    return new Response(null, { status });
+  }) as unknown as typeof fetch;
+}
+
+describe('WebhookDispatcher', () => {
+  let tmpDir: string;
+  let store: WebhookStore;
+  let captured: CapturedRequest[];
+
+  function createDispatcher(statuses: Array<number | Error> = [200]): WebhookDispatcher {
+    return new WebhookDispatcher({ store, retryBaseMs: 0, maxAttempts: 3, fetchFn: fakeFetch(statuses, captured) });
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-dispatcher-'));
+    store = new WebhookStore({ stateDir: tmpDir });
+    captured = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should deliver only to enabled webhooks whose filters match', async () => {
+    await store.create({ name: 'all', url: 'http://hooks.test/all' });
+    await store.create({ name: 'errors', url: 'http://hooks.test/errors', events: ['TASK_ERROR'] });
+    await store.create({ name: 'proj', url: 'http://hooks.test/proj', projects: ['/repo/a'] });
+    await store.create({ name: 'off', url: 'http://hooks.test/off', enabled: false });
+
+    await createDispatcher().notify({
+      type: 'TASK_COMPLETED', severity: 'info', title: 'done', message: 'm', projectPath: '/repo/a',
+    });
+
+    assert.deepEqual(captured.map(c => c.url).sort(), ['http://hooks.test/all', 'http://hooks.test/proj']);
+  });
+
+  it('should sign json bodies with the webhook secret', async () => {
+    await store.create({ name: 'signed', url: 'http://hooks.test/signed', secret: 's3cret' });
+
+    await createDispatcher().notify({ type: 'TASK_ERROR', severity: 'error', title: 'Task failed', message: 'boom', taskId: 't1' });
+
+    const [req] = captured;
+    const timestamp = req.headers[WEBHOOK_TIMESTAMP_HEADER];
+    assert.equal(req.headers[WEBHOOK_SIGNATURE_HEADER], signWebhookPayload('s3cret', timestamp, req.body));
+    const body = JSON.parse(req.body);
+    assert.equal(body.event, 'TASK_ERROR');
+    assert.equal(body.notification.taskId, 't1');
+    assert.equal(body.notification.PK, undefined);
+  });
+
+  it('should build Slack and Discord bodies', async () => {
+    await store.create({ name: 'slack', url: 'http://hooks.test/slack', format: 'slack' });
+    await store.create({ name: 'discord', url: 'http://hooks.test/discord', format: 'discord' });
+
+    await createDispatcher().notify({ type: 'TASK_ERROR', severity: 'error', title: 'Task failed', message: 'boom', taskId: 't1' });
+
+    const slack = JSON.parse(captured.find(c => c.url.endsWith('slack'))!.body);
+    const discord = JSON.parse(captured.find(c => c.url.endsWith('discord'))!.body);
+    assert.ok(slack.text.includes('*Task failed*'));
+    assert.ok(slack.text.includes('`t1`'));
+    assert.equal(discord.embeds[0].title, 'Task failed');
+    assert.equal(discord.embeds[0].description, 'boom');
+    assert.deepEqual(discord.embeds[0].fields[0], { name: 'Task', value: 't1', inline: true });
+  });
+
+  it('should retry 5xx and network errors, then log the delivery', async () => {
+    const webhook = await store.create({ name: 'flaky', url: 'http://hooks.test/flaky' });
+
+    const [record] = await createDispatcher([503, new Error('ECONNRESET'), 200]).notify({
+      type: 'TASK_COMPLETED', severity: 'info', title: 'done', message: 'm',
+    });
+
+    assert.equal(captured.length, 3);
+    assert.equal(record.status, 'SUCCESS');
+    assert.equal(record.attempts, 3);
+    assert.equal(record.response_status, 200);
+    assert.deepEqual((await store.listDeliveries(webhook.webhook_id)).map(d => d.delivery_id), [record.delivery_id]);
+  });
+
+  it('should not retry other 4xx responses', async () => {
+    await store.create({ name: 'gone', url: 'http://hooks.test/gone' });
+
+    const [record] = await createDispatcher([404]).notify({ type: 'TASK_COMPLETED', severity: 'info', title: 'done', message: 'm' });
+
+    assert.equal(captured.length, 1);
+    assert.equal(record.status, 'FAILED');
+    assert.equal(record.error, 'HTTP 404');
+  });
+
+  it('should send a test delivery regardless of filters', async () => {
+    const webhook = await store.create({ name: 'filtered', url: 'http://hooks.test/f', events: ['QUEUE_STUCK'], enabled: false });
+
+    const record = await createDispatcher().sendTest(webhook.webhook_id);
+
+    assert.equal(record?.status, 'SUCCESS');
+    assert.equal(record?.test, true);
+    assert.equal(record?.event, 'QUEUE_STUCK');
+    assert.equal(await createDispatcher().sendTest('missing'), null);
+  });
+});
+
+describe('observeStatusTransitions', () => {
+  it('should report each status change made through the store', async () => {
+    const transitions: QueueStatusTransition[] = [];
+    const store = observeStatusTransitions(new InMemoryQueueStore({ namespace: 'observe-test' }), t => transitions.push(t));
+
+    const item = await store.enqueue('s1', 'g1', 'observe me');
+    await store.claim();
+    await store.setAwaitingResponse(item.task_id, { type: 'unknown', question: 'Which branch?' });
+    await store.resumeWithResponse(item.task_id, 'main');
+    await store.updateStatus(item.task_id, 'RUNNING');
+    await store.updateStatus(item.task_id, 'COMPLETE');
+    await store.updateStatus(item.task_id, 'COMPLETE');
+
+    assert.deepEqual(transitions.map(t => `${t.from}->${t.to}`), [
+      'QUEUED->RUNNING',
+      'RUNNING->AWAITING_RESPONSE',
+      'AWAITING_RESPONSE->QUEUED',
+      'QUEUED->RUNNING',
+      'RUNNING->COMPLETE',
+    ]);
+    assert.equal(transitions[1].item.clarification?.question, 'Which branch?');
+    assert.equal(store.getNamespace(), 'observe-test');
+  });
+
+  it('should notify subscribed webhooks of AWAITING_RESPONSE transitions', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-observe-'));
+    try {
+      const webhookStore = new WebhookStore({ stateDir: tmpDir });
+      await webhookStore.create({ name: 'waiting', url: 'http://hooks.test/w', events: ['TASK_AWAITING_RESPONSE'] });
+      const captured: CapturedRequest[] = [];
+      const dispatcher = new WebhookDispatcher({ store: webhookStore, fetchFn: fakeFetch([200], captured) });
+      const store = observeStatusTransitions(
+        new InMemoryQueueStore({ namespace: 'observe-test' }),
+        t => dispatcher.notifyTaskTransition(t)
+      );
+
+      const item = await store.enqueue('s1', 'g1', 'needs input', undefined, undefined, '/repo/a');
+      await store.claim();
+      await store.setAwaitingResponse(item.task_id, { type: 'unknown', question: 'Which branch?' });
+      for (let i = 0; i < 20 && (await webhookStore.listDeliveries()).length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      assert.equal(captured.length, 1);
+      const body = JSON.parse(captured[0].body);
+      assert.equal(body.event, 'TASK_AWAITING_RESPONSE');
+      assert.equal(body.notification.message, 'Which branch?');
+      assert.equal(body.notification.projectPath, '/repo/a');
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
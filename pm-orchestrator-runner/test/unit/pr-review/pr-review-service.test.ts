@@ -57,6 +57,9 @@ function createMockGitHubAdapter(
     listPRIssueComments: async () => [],
     replyToComment: async () => {},
     createIssueComment: async () => {},
+    createPullRequest: async () => {
+      throw new Error("createPullRequest not mocked");
+    },
     ...overrides,
   };
 }
@@ -0,0 +1,211 @@
+/**
+ * Task Group PR Tests
+ * Per spec/48_TASK_GROUP_PR.md
+ *
+ * Tests:
+ * 1. Branch name / repository helpers
+ * 2. PR body and commit message from task prompts, outputs and QA results
+ * 3. createTaskGroupPR(): commit of the recorded files, push, PR, review registration
+ * 4. Rejections (unfinished group, invalid / existing branch, no changes)
+ */
+
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { strict as assert } from "assert";
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createTaskGroupPR,
+  TaskGroupPRError,
+  defaultTaskGroupBranch,
+  parseGitHubRepository,
+  buildTaskGroupPRBody,
+  buildTaskGroupCommitMessage,
+} from "../../../src/pr-review/task-group-pr";
+import { captureDiffBaseline, computeTaskDiff, saveTaskDiff } from "../../../src/checkpoint";
+import type { QueueItem } from "../../../src/queue/queue-store";
+import type {
+  CreatePRReviewStateInput,
+  CreatePullRequestInput,
+  IGitHubAdapter,
+  PRReviewState,
+} from "../../../src/web/dal/pr-review-types";
+
+const sh = (cmd: string, cwd: string): string => execSync(cmd, { cwd, stdio: "pipe" }).toString().trim();
+
+function task(overrides: Partial<QueueItem>): QueueItem {
+  return {
+    namespace: "test",
+    task_id: "t1",
+    task_group_id: "tg-1",
+    session_id: "s",
+    status: "COMPLETE",
+    prompt: "Add a greeting module",
+    created_at: "2026-10-19T00:00:00.000Z",
+    updated_at: "2026-10-19T00:00:00.000Z",
+    ...overrides,
+  } as QueueItem;
+}
+
+function createMockGitHub(created: CreatePullRequestInput[]): IGitHubAdapter {
+  return {
+    getPullRequest: async () => { throw new Error("not used"); },
+    listPRReviewComments: async () => [],
+    listPRIssueComments: async () => [],
+    replyToComment: async () => {},
+    createIssueComment: async () => {},
+    createPullRequest: async (owner, repo, input) => {
+      created.push(input);
+      return {
+        number: 7,
+        title: input.title,
+        url: `https://github.com/${owner}/${repo}/pull/7`,
+        baseBranch: input.base,
+        headBranch: input.head,
+        state: "open" as const,
+        repository: `${owner}/${repo}`,
+        author: "runner",
+        createdAt: new Date().toISOString(),
+      };
+    },
+  };
+}
+
+describe("Task Group PR", () => {
+  describe("helpers", () => {
+    it("should derive branch names and parse GitHub remotes", () => {
+      assert.equal(defaultTaskGroupBranch("TG Login..Fix!"), "feature/tg-login.fix");
+      assert.equal(defaultTaskGroupBranch("!!!"), "feature/task-group");
+      assert.equal(parseGitHubRepository("https://github.com/acme/app.git"), "acme/app");
+      assert.equal(parseGitHubRepository("git@github.com:acme/app.git"), "acme/app");
+      assert.equal(parseGitHubRepository("/srv/git/app.git"), null);
+    });
+
+    it("should build the body and commit message from tasks", () => {
+      const items = [
+        task({
+          task_id: "t2",
+          prompt: "Write tests\nfor the module",
+          created_at: "2026-10-19T00:00:01.000Z",
+          qa_gates: {
+            run_id: "r1",
+            commit_sha: "abc",
+            gates: [{ gate_name: "lint", failing: 0 }, { gate_name: "test", failing: 2 }],
+            verdict: { final_status: "FAILING" },
+          } as unknown as QueueItem["qa_gates"],
+        }),
+        task({ output: "Created src/greeting.ts" }),
+        task({ task_id: "t3", status: "CANCELLED", prompt: "Drop it", created_at: "2026-10-19T00:00:02.000Z" }),
+      ];
+
+      const body = buildTaskGroupPRBody("tg-1", items);
+      assert.match(body, /task group `tg-1` \(3 tasks\)/);
+      assert.ok(body.indexOf("### 1. Add a greeting module (COMPLETE)") < body.indexOf("### 2. Write tests (COMPLETE)"));
+      assert.match(body, /```\nCreated src\/greeting\.ts\n```/);
+      assert.match(body, /> Write tests\n> for the module/);
+      assert.match(body, /\*\*QA\*\*: FAILING \(lint PASS, test FAIL\)/);
+
+      assert.equal(
+        buildTaskGroupCommitMessage("tg-1", items, "Greeting"),
+        "Greeting\n\n- Add a greeting module\n- Write tests\n\nTask group: tg-1"
+      );
+    });
+  });
+
+  describe("createTaskGroupPR()", () => {
+    let workDir: string;
+    let projectDir: string;
+    let remoteDir: string;
+    let created: CreatePullRequestInput[];
+    let registered: CreatePRReviewStateInput[];
+
+    const reviewService = {
+      registerPR: async (input: CreatePRReviewStateInput) => {
+        registered.push(input);
+        return { ...input, status: "REVIEW_PENDING" } as unknown as PRReviewState;
+      },
+    };
+
+    /** Run a fake task that changes files and record its diff */
+    function runTask(taskId: string, change: () => void): void {
+      const baseline = captureDiffBaseline(projectDir);
+      assert.ok(baseline);
+      change();
+      saveTaskDiff(projectDir, computeTaskDiff(taskId, baseline));
+    }
+
+    beforeEach(() => {
+      created = [];
+      registered = [];
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), "task-group-pr-"));
+      remoteDir = path.join(workDir, "remote.git");
+      projectDir = path.join(workDir, "project");
+      sh(`git init --bare -q "${remoteDir}"`, workDir);
+      fs.mkdirSync(projectDir);
+      sh("git init -q -b main && git config user.email test@test.com && git config user.name Test", projectDir);
+      fs.writeFileSync(path.join(projectDir, "README.md"), "# app\n");
+      fs.writeFileSync(path.join(projectDir, "old.txt"), "old\n");
+      sh(`git add -A && git commit -qm init && git remote add origin "${remoteDir}"`, projectDir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it("should commit only the recorded files, push, open the PR and register it", async () => {
+      runTask("t1", () => {
+        fs.mkdirSync(path.join(projectDir, "src"));
+        fs.writeFileSync(path.join(projectDir, "src", "greeting.ts"), "export const hi = 1;\n");
+        fs.rmSync(path.join(projectDir, "old.txt"));
+      });
+      // Unrelated local edit: not part of the group's diff
+      fs.writeFileSync(path.join(projectDir, "README.md"), "# app (local)\n");
+
+      const items = [task({ project_path: projectDir })];
+      const result = await createTaskGroupPR(items, "tg-1", createMockGitHub(created), {
+        repository: "acme/app",
+        projectId: "proj-1",
+        reviewService,
+      });
+
+      assert.equal(result.branch, "feature/tg-1");
+      assert.equal(result.base, "main");
+      assert.deepEqual(result.files, ["old.txt", "src/greeting.ts"]);
+      assert.equal(sh("git rev-parse refs/heads/feature/tg-1", remoteDir), result.commit_sha);
+      assert.equal(sh(`git show --name-status --format=%s ${result.commit_sha}`, projectDir), "Add a greeting module\n\nD\told.txt\nA\tsrc/greeting.ts");
+
+      // Working tree, index and current branch are untouched
+      assert.equal(sh("git rev-parse --abbrev-ref HEAD", projectDir), "main");
+      assert.equal(sh("git status --porcelain -- . :^.claude", projectDir), "M README.md\n D old.txt\n?? src/");
+
+      assert.deepEqual(created.map(c => [c.head, c.base, c.title, c.draft]), [["feature/tg-1", "main", "Add a greeting module", undefined]]);
+      assert.match(created[0].body, /### 1\. Add a greeting module \(COMPLETE\)/);
+      assert.deepEqual(registered.map(r => [r.projectId, r.prNumber, r.headBranch, r.repository]), [["proj-1", 7, "feature/tg-1", "acme/app"]]);
+      assert.equal(result.pull_request.url, "https://github.com/acme/app/pull/7");
+    });
+
+    it("should reject unusable groups, branches and repositories", async () => {
+      const github = createMockGitHub(created);
+      const code = (promise: Promise<unknown>) => promise.then(
+        () => assert.fail("expected TaskGroupPRError"),
+        (error: unknown) => {
+          assert.ok(error instanceof TaskGroupPRError);
+          return error.code;
+        }
+      );
+      const done = [task({ project_path: projectDir })];
+
+      assert.equal(await code(createTaskGroupPR([], "tg-1", github)), "NOT_FOUND");
+      assert.equal(await code(createTaskGroupPR([...done, task({ task_id: "t2", status: "RUNNING" })], "tg-1", github)), "NOT_READY");
+      assert.equal(await code(createTaskGroupPR(done, "tg-1", github, { branch: "main" })), "INVALID_BRANCH");
+      // The remote is not on GitHub
+      assert.equal(await code(createTaskGroupPR(done, "tg-1", github)), "NO_REPOSITORY");
+      assert.equal(await code(createTaskGroupPR(done, "tg-1", github, { repository: "acme/app" })), "NO_CHANGES");
+
+      sh("git branch feature/tg-1", projectDir);
+      assert.equal(await code(createTaskGroupPR(done, "tg-1", github, { repository: "acme/app" })), "BRANCH_EXISTS");
+      assert.deepEqual(created, []);
+    });
+  });
+});
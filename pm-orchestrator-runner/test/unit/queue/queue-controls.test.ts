@@ -0,0 +1,180 @@
+/**
+ * Queue Controls Tests
+ * Per spec/53_QUEUE_CONTROLS.md
+ *
+ * Tests:
+ * 1. QueueControlStore persists, replaces and clears controls
+ * 2. QueuePoller does not claim paused tasks, and resumes after clear
+ * 3. Draining still claims subtasks of in-flight parents
+ * 4. Bulk actions: validation, filters, dry run, retry / delete rules
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { QueuePoller, TaskExecutor } from '../../../src/queue/queue-poller';
+import { QueueControlStore, QueueControlValidationError } from '../../../src/queue/queue-controls';
+import { BulkTaskValidationError, parseBulkTaskRequest, runBulkTaskAction } from '../../../src/queue/bulk-task-actions';
+
+const NAMESPACE = 'queue-controls-test';
+
+describe('Queue controls', () => {
+  let tempDir: string;
+  let poller: QueuePoller | null = null;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-controls-test-'));
+  });
+
+  afterEach(async () => {
+    if (poller) {
+      await poller.stop();
+      poller = null;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const completeAll: TaskExecutor = async () => ({ status: 'COMPLETE' });
+
+  describe('QueueControlStore', () => {
+    it('should persist, replace and clear controls', async () => {
+      const store = new QueueControlStore({ stateDir: tempDir });
+      await store.set({ namespace: NAMESPACE, mode: 'pause', reason: 'maintenance' });
+      await store.set({ namespace: NAMESPACE, project_path: '/repo/a', mode: 'pause' });
+      await store.set({ namespace: NAMESPACE, project_path: '/repo/a', mode: 'drain' });
+
+      // A new instance (e.g. a restarted runner) sees the same controls
+      const reloaded = new QueueControlStore({ stateDir: tempDir });
+      const controls = await reloaded.list(NAMESPACE);
+      assert.deepEqual(controls.map(c => [c.project_path, c.mode]), [[undefined, 'pause'], ['/repo/a', 'drain']]);
+      assert.equal(controls[0].reason, 'maintenance');
+      assert.deepEqual(await reloaded.list('other'), []);
+
+      assert.equal(await reloaded.clear(NAMESPACE), true);
+      assert.equal(await reloaded.clear(NAMESPACE), false);
+      assert.equal((await store.get(NAMESPACE, '/repo/a'))?.mode, 'drain');
+
+      await assert.rejects(store.set({ namespace: NAMESPACE, mode: 'stop' as never, project_path: '' }), (error: unknown) =>
+        error instanceof QueueControlValidationError && error.errors.length === 2);
+    });
+  });
+
+  describe('QueuePoller', () => {
+    it('should not claim paused tasks until resumed', async () => {
+      const store = new InMemoryQueueStore({ namespace: NAMESPACE });
+      await store.enqueue('s', 'tg', 'in a', 'task-a', undefined, '/repo/a');
+      await store.enqueue('s', 'tg', 'in b', 'task-b', undefined, '/repo/b');
+      const controls = new QueueControlStore({ stateDir: tempDir });
+      await controls.set({ namespace: NAMESPACE, project_path: '/repo/a', mode: 'pause' });
+
+      poller = new QueuePoller(store, completeAll, { pollIntervalMs: 60000, recoverOnStartup: false, controls });
+      await poller.start();
+      await poller.poll();
+      assert.equal((await store.getItem('task-a'))?.status, 'QUEUED');
+      assert.equal((await store.getItem('task-b'))?.status, 'COMPLETE');
+
+      // Namespace-wide pause holds everything
+      await store.enqueue('s', 'tg', 'in b again', 'task-b2', undefined, '/repo/b');
+      await controls.set({ namespace: NAMESPACE, mode: 'pause' });
+      await poller.poll();
+      assert.equal((await store.getItem('task-b2'))?.status, 'QUEUED');
+
+      await controls.clear(NAMESPACE);
+      await controls.clear(NAMESPACE, '/repo/a');
+      await poller.poll();
+      await poller.poll();
+      assert.equal((await store.getItem('task-a'))?.status, 'COMPLETE');
+      assert.equal((await store.getItem('task-b2'))?.status, 'COMPLETE');
+    });
+
+    it('should still claim subtasks of in-flight parents while draining', async () => {
+      const store = new InMemoryQueueStore({ namespace: NAMESPACE });
+      await store.enqueue('s', 'tg', 'parent', 'parent-1');
+      await store.updateStatus('parent-1', 'WAITING_CHILDREN');
+      await store.enqueue('s', 'tg', 'new work', 'task-new');
+      await store.enqueue('s', 'tg', 'child', 'child-1', undefined, undefined, 'parent-1');
+      const controls = new QueueControlStore({ stateDir: tempDir });
+      await controls.set({ namespace: NAMESPACE, mode: 'drain' });
+      let scans = 0;
+      const getByStatus = store.getByStatus.bind(store);
+      store.getByStatus = status => {
+        scans++;
+        return getByStatus(status);
+      };
+
+      poller = new QueuePoller(store, completeAll, { pollIntervalMs: 60000, recoverOnStartup: false, controls });
+      await poller.start();
+      await poller.poll();
+      assert.equal((await store.getItem('child-1'))?.status, 'COMPLETE');
+      assert.equal((await store.getItem('task-new'))?.status, 'QUEUED');
+
+      // No subtask is waiting: in-flight tasks are not looked up
+      scans = 0;
+      await poller.poll();
+      assert.equal(scans, 0);
+    });
+  });
+
+  describe('Bulk actions', () => {
+    it('should validate requests and require a filter', () => {
+      assert.throws(() => parseBulkTaskRequest({ action: 'retry', filter: {} }), (error: unknown) =>
+        error instanceof BulkTaskValidationError && /at least one/.test(error.message));
+      assert.throws(() => parseBulkTaskRequest({ action: 'priority', filter: { status: 'DONE' } }), (error: unknown) =>
+        error instanceof BulkTaskValidationError && error.errors.length === 2);
+      assert.deepEqual(parseBulkTaskRequest({ action: 'cancel', filter: { status: 'QUEUED', project: '/repo/a' } }), {
+        action: 'cancel',
+        filter: { status: ['QUEUED'], project_path: '/repo/a' },
+        dry_run: false,
+      });
+    });
+
+    it('should preview and apply to matching tasks only', async () => {
+      const store = new InMemoryQueueStore({ namespace: NAMESPACE });
+      await store.enqueue('s', 'tg-1', 'a', 'task-1');
+      await store.enqueue('s', 'tg-1', 'b', 'task-2');
+      await store.enqueue('s', 'tg-2', 'c', 'task-3');
+      await store.updateStatus('task-2', 'ERROR', 'failed');
+      const old = await store.getItem('task-1');
+      assert.ok(old);
+      old.created_at = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+
+      const preview = await runBulkTaskAction(store, await store.getAllItems(),
+        parseBulkTaskRequest({ action: 'cancel', filter: { task_group_id: 'tg-1' }, dry_run: true }));
+      assert.deepEqual(preview, { action: 'cancel', dry_run: true, matched: 2, applicable: 1, task_ids: ['task-1'] });
+      assert.equal((await store.getItem('task-1'))?.status, 'QUEUED');
+
+      const cancelled: string[] = [];
+      const result = await runBulkTaskAction(store, await store.getAllItems(),
+        parseBulkTaskRequest({ action: 'cancel', filter: { older_than_minutes: 60 } }),
+        { hooks: { onCancelled: item => cancelled.push(item.task_id) } });
+      assert.deepEqual(result.succeeded, ['task-1']);
+      assert.deepEqual(cancelled, ['task-1']);
+      assert.equal((await store.getItem('task-3'))?.status, 'QUEUED');
+
+      const retried = await runBulkTaskAction(store, await store.getAllItems(),
+        parseBulkTaskRequest({ action: 'retry', filter: { status: ['ERROR', 'CANCELLED'] } }));
+      assert.deepEqual(retried.succeeded, ['task-1', 'task-2']);
+      assert.equal((await store.getItem('task-2'))?.status, 'QUEUED');
+      assert.equal((await store.getItem('task-2'))?.error_message, undefined);
+    });
+
+    it('should not delete running or waiting tasks', async () => {
+      const store = new InMemoryQueueStore({ namespace: NAMESPACE });
+      await store.enqueue('s', 'tg-1', 'a', 'task-1');
+      await store.enqueue('s', 'tg-1', 'b', 'task-2');
+      await store.enqueue('s', 'tg-1', 'c', 'task-3');
+      await store.updateStatus('task-1', 'RUNNING');
+      await store.updateStatus('task-2', 'WAITING_CHILDREN');
+
+      const deleted = await runBulkTaskAction(store, await store.getAllItems(),
+        parseBulkTaskRequest({ action: 'delete', filter: { task_group_id: 'tg-1' } }));
+      assert.equal(deleted.matched, 3);
+      assert.deepEqual(deleted.succeeded, ['task-3']);
+      assert.equal((await store.getItem('task-1'))?.status, 'RUNNING');
+      assert.equal((await store.getItem('task-2'))?.status, 'WAITING_CHILDREN');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Queue Event Stream Tests
+ * Per spec/20_QUEUE_STORE.md (キューイベントストリーム)
+ *
+ * Tests:
+ * 1. getSince() replays buffered events and refuses IDs it cannot replay
+ * 2. observeQueueEvents() publishes enqueue / status / clarification / output events
+ *    and shares its status observer with onStatusTransition
+ * 3. publishRunnerHeartbeats() throttles the poller's heartbeats
+ */
+
+import { describe, it } from 'mocha';
+import { strict as assert } from 'assert';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { QueuePoller } from '../../../src/queue/queue-poller';
+import {
+  QueueEvent,
+  QueueEventStream,
+  observeQueueEvents,
+  publishRunnerHeartbeats,
+} from '../../../src/queue/queue-event-stream';
+
+function heartbeat(runnerId = 'runner-1') {
+  return { type: 'runner_heartbeat' as const, runner_id: runnerId, project_root: '/tmp/p', in_flight: 0 };
+}
+
+describe('QueueEventStream', () => {
+  it('should replay events after a Last-Event-ID', () => {
+    const stream = new QueueEventStream();
+    const first = stream.publish(heartbeat('a'));
+    stream.publish(heartbeat('b'));
+    stream.publish(heartbeat('c'));
+
+    const replay = stream.getSince(first.id);
+
+    assert.deepEqual(replay?.map(e => e.type === 'runner_heartbeat' && e.runner_id), ['b', 'c']);
+    assert.equal(stream.getLastEventId(), replay?.[1].id);
+    assert.deepEqual(stream.getSince(stream.getLastEventId()!), []);
+  });
+
+  it('should refuse IDs from another instance, from the future or dropped from the buffer', () => {
+    const stream = new QueueEventStream({ maxBufferSize: 2 });
+    const first = stream.publish(heartbeat());
+    const second = stream.publish(heartbeat());
+    stream.publish(heartbeat());
+    stream.publish(heartbeat());
+
+    assert.equal(stream.getSince(first.id), null);
+    assert.equal(stream.getSince(second.id)?.length, 2);
+    assert.equal(stream.getSince(second.id.replace(/-\d+$/, '-99')), null);
+    assert.equal(stream.getSince('otherinstance-1'), null);
+    assert.equal(stream.getSince('garbage'), null);
+  });
+
+  it('should keep publishing when a listener throws', () => {
+    const stream = new QueueEventStream();
+    const received: QueueEvent[] = [];
+    stream.subscribe(() => { throw new Error('boom'); });
+    stream.subscribe(event => received.push(event));
+
+    stream.publish(heartbeat());
+
+    assert.equal(received.length, 1);
+  });
+});
+
+describe('observeQueueEvents', () => {
+  it('should publish the lifecycle of a task', async () => {
+    const stream = new QueueEventStream();
+    const events: QueueEvent[] = [];
+    stream.subscribe(event => events.push(event));
+    const store = observeQueueEvents(new InMemoryQueueStore({ namespace: 'events-test' }), stream);
+
+    const item = await store.enqueue('s1', 'g1', 'do work', undefined, 'IMPLEMENTATION', '/tmp/project');
+    await store.claim();
+    await store.appendEvent(item.task_id, { type: 'log_chunk', timestamp: new Date().toISOString(), data: { text: 'hi' } });
+    await store.setAwaitingResponse(item.task_id, { type: 'unknown', question: 'Which file?' });
+    await store.resumeWithResponse(item.task_id, 'src/a.ts');
+    await store.updateStatus(item.task_id, 'COMPLETE', undefined, 'done');
+
+    assert.deepEqual(events.map(e => e.type), [
+      'task_enqueued',
+      'task_status',
+      'task_output',
+      'task_clarification',
+      'task_status',
+      'task_status',
+      'task_output',
+      'task_status',
+    ]);
+    const enqueued = events[0];
+    assert.ok(enqueued.type === 'task_enqueued');
+    assert.equal(enqueued.project_path, '/tmp/project');
+    assert.equal(enqueued.priority, 'normal');
+
+    const statuses = events.filter(e => e.type === 'task_status').map(e => e.type === 'task_status' && `${e.from}->${e.to}`);
+    assert.deepEqual(statuses, ['QUEUED->RUNNING', 'RUNNING->AWAITING_RESPONSE', 'AWAITING_RESPONSE->QUEUED', 'QUEUED->COMPLETE']);
+
+    const clarification = events[3];
+    assert.ok(clarification.type === 'task_clarification');
+    assert.equal(clarification.question, 'Which file?');
+    assert.equal(clarification.task_group_id, 'g1');
+
+    const output = events[6];
+    assert.ok(output.type === 'task_output');
+    assert.equal(output.output_length, 4);
+  });
+
+  it('should not publish output for unknown tasks', async () => {
+    const stream = new QueueEventStream();
+    const store = observeQueueEvents(new InMemoryQueueStore({ namespace: 'events-test' }), stream);
+
+    await store.appendEvent('missing', { type: 'heartbeat', timestamp: new Date().toISOString() });
+
+    assert.equal(stream.getLastEventId(), null);
+  });
+
+  it('should pass status transitions to onStatusTransition from the same observer', async () => {
+    const stream = new QueueEventStream();
+    const inner = new InMemoryQueueStore({ namespace: 'events-test' });
+    const transitions: string[] = [];
+    const store = observeQueueEvents(inner, stream, {
+      onStatusTransition: ({ item, from, to }) => transitions.push(`${item.task_id}:${from}->${to}`),
+    });
+    await store.enqueue('s1', 'g1', 'prompt', 't1');
+
+    let reads = 0;
+    const getItem = inner.getItem.bind(inner);
+    inner.getItem = (taskId, targetNamespace) => {
+      reads++;
+      return getItem(taskId, targetNamespace);
+    };
+    await store.updateStatus('t1', 'RUNNING');
+
+    assert.deepEqual(transitions, ['t1:QUEUED->RUNNING']);
+    // One read before and one after the write
+    assert.equal(reads, 2);
+  });
+});
+
+describe('publishRunnerHeartbeats', () => {
+  it('should publish at most one heartbeat per interval', () => {
+    const stream = new QueueEventStream();
+    const poller = new QueuePoller(new InMemoryQueueStore({ namespace: 'events-test' }), async () => ({ status: 'COMPLETE' }));
+    const detach = publishRunnerHeartbeats(poller, stream, 60000);
+
+    poller.emit('heartbeat', { runnerId: 'r1', projectRoot: '/tmp/p', inFlight: 1 });
+    poller.emit('heartbeat', { runnerId: 'r1', projectRoot: '/tmp/p', inFlight: 2 });
+    detach();
+    poller.emit('heartbeat', { runnerId: 'r1', projectRoot: '/tmp/p', inFlight: 3 });
+
+    const replay = stream.getSince(stream.getLastEventId()!.replace(/-\d+$/, '-0'));
+    assert.equal(replay?.length, 1);
+    assert.ok(replay?.[0].type === 'runner_heartbeat' && replay[0].in_flight === 1);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * QueuePoller Concurrency Tests
+ * Per spec/20_QUEUE_STORE.md (並列実行)
+ *
+ * Tests:
+ * 1. claim() skips candidates rejected by canClaim
+ * 2. maxConcurrency runs multiple tasks in parallel and getState() reports all of them
+ * 3. Writing tasks on the same project are serialized
+ * 4. READ_INFO tasks do not wait on writers, even with the default maxConcurrency of 1
+ * 5. maxConcurrencyPerProject caps a single project
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { QueuePoller, TaskExecutor, isWritingTask } from '../../../src/queue/queue-poller';
+import { QueueItem } from '../../../src/queue/queue-store';
+
+/**
+ * Executor whose tasks stay running until released by the test
+ */
+function createGatedExecutor(): {
+  executor: TaskExecutor;
+  started: string[];
+  releaseAll: () => void;
+} {
+  const started: string[] = [];
+  const gates: Array<() => void> = [];
+  let released = false;
+  const executor: TaskExecutor = async (item: QueueItem) => {
+    started.push(item.task_id);
+    if (!released) {
+      await new Promise<void>(resolve => gates.push(resolve));
+    }
+    return { status: 'COMPLETE' };
+  };
+  return {
+    executor,
+    started,
+    releaseAll: () => {
+      released = true;
+      gates.splice(0).forEach(resolve => resolve());
+    },
+  };
+}
+
+describe('QueuePoller concurrency', () => {
+  let store: InMemoryQueueStore;
+  let poller: QueuePoller | null;
+
+  beforeEach(() => {
+    store = new InMemoryQueueStore({ namespace: 'concurrency-test' });
+    poller = null;
+  });
+
+  afterEach(async () => {
+    if (poller) {
+      await poller.stop();
+    }
+  });
+
+  describe('claim() with canClaim', () => {
+    it('should skip rejected candidates and leave them QUEUED', async () => {
+      await store.enqueue('s', 'tg', 'first', 'task-1', 'IMPLEMENTATION');
+      await store.enqueue('s', 'tg', 'second', 'task-2', 'READ_INFO');
+
+      const result = await store.claim({ canClaim: item => item.task_type === 'READ_INFO' });
+
+      assert.equal(result.success, true);
+      assert.equal(result.item?.task_id, 'task-2');
+      assert.equal((await store.getItem('task-1'))?.status, 'QUEUED');
+    });
+
+    it('should report no task when every candidate is rejected', async () => {
+      await store.enqueue('s', 'tg', 'first', 'task-1', 'IMPLEMENTATION');
+
+      const result = await store.claim({ canClaim: () => false });
+
+      assert.equal(result.success, false);
+      assert.equal(result.error, undefined);
+    });
+  });
+
+  describe('isWritingTask', () => {
+    it('should treat READ_INFO/REPORT as read-only and everything else as writers', () => {
+      const base = { namespace: 'n', task_id: 't', task_group_id: 'g', session_id: 's', status: 'QUEUED' as const, prompt: 'p', created_at: '', updated_at: '' };
+      assert.equal(isWritingTask({ ...base, task_type: 'READ_INFO' }), false);
+      assert.equal(isWritingTask({ ...base, task_type: 'REPORT' }), false);
+      assert.equal(isWritingTask({ ...base, task_type: 'IMPLEMENTATION' }), true);
+      assert.equal(isWritingTask(base), true);
+    });
+  });
+
+  describe('parallel execution', () => {
+    it('should run up to maxConcurrency tasks and report all of them in getState()', async () => {
+      await store.enqueue('s', 'tg', 'q1', 'read-1', 'READ_INFO', '/proj/a');
+      await store.enqueue('s', 'tg', 'q2', 'read-2', 'READ_INFO', '/proj/b');
+      await store.enqueue('s', 'tg', 'q3', 'read-3', 'READ_INFO', '/proj/c');
+
+      const gated = createGatedExecutor();
+      poller = new QueuePoller(store, gated.executor, { pollIntervalMs: 60000, recoverOnStartup: false, maxConcurrency: 2, readOnlySlots: 0 });
+      const starting = poller.start();
+      await new Promise(resolve => setImmediate(resolve));
+
+      const state = poller.getState();
+      assert.equal(state.maxConcurrency, 2);
+      assert.equal(state.readOnlySlots, 0);
+      assert.deepEqual(state.inFlightTasks.map(t => t.task_id).sort(), ['read-1', 'read-2']);
+      assert.equal(state.inFlight?.task_id, 'read-1');
+      assert.equal((await store.getItem('read-3'))?.status, 'QUEUED');
+
+      gated.releaseAll();
+      await starting;
+      assert.equal(poller.hasInFlight(), false);
+    });
+
+    it('should serialize writing tasks on the same project', async () => {
+      await store.enqueue('s', 'tg', 'w1', 'write-1', 'IMPLEMENTATION', '/proj/a');
+      await store.enqueue('s', 'tg', 'w2', 'write-2', 'IMPLEMENTATION', '/proj/a');
+      await store.enqueue('s', 'tg', 'w3', 'write-3', 'IMPLEMENTATION', '/proj/b');
+
+      const gated = createGatedExecutor();
+      poller = new QueuePoller(store, gated.executor, { pollIntervalMs: 60000, recoverOnStartup: false, maxConcurrency: 4 });
+      const starting = poller.start();
+      await new Promise(resolve => setImmediate(resolve));
+
+      assert.deepEqual(poller.getInFlightTasks().map(t => t.task_id).sort(), ['write-1', 'write-3']);
+      assert.equal((await store.getItem('write-2'))?.status, 'QUEUED');
+
+      gated.releaseAll();
+      await starting;
+      await poller.poll();
+      assert.equal((await store.getItem('write-2'))?.status, 'COMPLETE');
+    });
+
+    it('should let READ_INFO tasks run while a writer holds the project', async () => {
+      await store.enqueue('s', 'tg', 'w1', 'write-1', 'IMPLEMENTATION', '/proj/a');
+      await store.enqueue('s', 'tg', 'w2', 'write-2', 'IMPLEMENTATION', '/proj/a');
+      await store.enqueue('s', 'tg', 'r1', 'read-1', 'READ_INFO', '/proj/a');
+
+      const gated = createGatedExecutor();
+      poller = new QueuePoller(store, gated.executor, { pollIntervalMs: 60000, recoverOnStartup: false, maxConcurrency: 2 });
+      const starting = poller.start();
+      await new Promise(resolve => setImmediate(resolve));
+
+      assert.deepEqual(gated.started.sort(), ['read-1', 'write-1']);
+
+      gated.releaseAll();
+      await starting;
+    });
+
+    it('should keep a read-only slot that writers cannot take with the default limits', async () => {
+      await store.enqueue('s', 'tg', 'w1', 'write-1', 'IMPLEMENTATION', '/proj/a');
+      await store.enqueue('s', 'tg', 'w2', 'write-2', 'IMPLEMENTATION', '/proj/b');
+      await store.enqueue('s', 'tg', 'r1', 'read-1', 'READ_INFO', '/proj/a');
+      await store.enqueue('s', 'tg', 'r2', 'read-2', 'READ_INFO', '/proj/a');
+
+      const gated = createGatedExecutor();
+      poller = new QueuePoller(store, gated.executor, { pollIntervalMs: 60000, recoverOnStartup: false });
+      const starting = poller.start();
+      await new Promise(resolve => setImmediate(resolve));
+
+      assert.deepEqual(gated.started, ['write-1', 'read-1']);
+      assert.equal(poller.getState().readOnlySlots, 1);
+      assert.equal((await store.getItem('write-2'))?.status, 'QUEUED');
+      assert.equal((await store.getItem('read-2'))?.status, 'QUEUED');
+
+      gated.releaseAll();
+      await starting;
+    });
+
+    it('should cap tasks per project with maxConcurrencyPerProject', async () => {
+      await store.enqueue('s', 'tg', 'q1', 'read-1', 'READ_INFO', '/proj/a');
+      await store.enqueue('s', 'tg', 'q2', 'read-2', 'READ_INFO', '/proj/a');
+      await store.enqueue('s', 'tg', 'q3', 'read-3', 'READ_INFO', '/proj/a');
+      await store.enqueue('s', 'tg', 'q4', 'read-4', 'READ_INFO', '/proj/b');
+
+      const gated = createGatedExecutor();
+      poller = new QueuePoller(store, gated.executor, {
+        pollIntervalMs: 60000,
+        recoverOnStartup: false,
+        maxConcurrency: 3,
+        maxConcurrencyPerProject: 1,
+      });
+      const starting = poller.start();
+      await new Promise(resolve => setImmediate(resolve));
+
+      // One shared slot plus the read-only slot per project
+      assert.deepEqual(gated.started.sort(), ['read-1', 'read-2', 'read-4']);
+      assert.equal((await store.getItem('read-3'))?.status, 'QUEUED');
+      assert.equal(poller.getState().maxConcurrencyPerProject, 1);
+
+      gated.releaseAll();
+      await starting;
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Queue Priority / Fair-Share Tests
+ * Per spec/20_QUEUE_STORE.md (優先度レーンとフェアシェア)
+ *
+ * Tests:
+ * 1. getEffectivePriority() promotes waiting tasks one lane per aging interval
+ * 2. claim() takes urgent before normal before background (every store of describeEachQueueStore)
+ * 3. claim() interleaves projects instead of draining the first project's backlog
+ * 4. projectWeights give a project a proportionally larger share; a project held back
+ *    by canClaim keeps its share
+ * 5. updatePriority() only changes QUEUED tasks
+ */
+
+import { describe, it } from 'mocha';
+import { strict as assert } from 'assert';
+import { IQueueStore, QueueItem } from '../../../src/queue/queue-store';
+import { FairShareScheduler, getEffectivePriority } from '../../../src/queue/fair-share';
+import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+
+const MINUTE = 60 * 1000;
+
+async function claimAll(store: IQueueStore): Promise<string[]> {
+  const claimed: string[] = [];
+  for (let result = await store.claim(); result.success; result = await store.claim()) {
+    claimed.push(result.item!.task_id);
+  }
+  return claimed;
+}
+
+describe('getEffectivePriority', () => {
+  const now = new Date('2026-03-10T12:00:00.000Z');
+  const ago = (minutes: number) => new Date(now.getTime() - minutes * MINUTE).toISOString();
+
+  it('should promote one lane per aging interval, capped at urgent', () => {
+    assert.equal(getEffectivePriority({ priority: 'background', created_at: ago(5) }, now, 15 * MINUTE), 'background');
+    assert.equal(getEffectivePriority({ priority: 'background', created_at: ago(16) }, now, 15 * MINUTE), 'normal');
+    assert.equal(getEffectivePriority({ priority: 'background', created_at: ago(90) }, now, 15 * MINUTE), 'urgent');
+    assert.equal(getEffectivePriority({ created_at: ago(16) }, now, 15 * MINUTE), 'urgent');
+  });
+
+  it('should not age when agingMs is 0', () => {
+    assert.equal(getEffectivePriority({ priority: 'background', created_at: ago(600) }, now, 0), 'background');
+  });
+
+  it('should let an aged background task overtake newer normal tasks', () => {
+    const scheduler = new FairShareScheduler({ agingMs: 15 * MINUTE });
+    const items = [
+      { task_id: 'fresh', priority: 'normal', created_at: ago(1) },
+      { task_id: 'aged', priority: 'background', created_at: ago(20) },
+    ] as QueueItem[];
+
+    assert.deepEqual(scheduler.order(items, now).map(i => i.task_id), ['aged', 'fresh']);
+  });
+});
+
+describeEachQueueStore('priority and fair share', 'prio-test', ({ createStore }) => {
+  it('should claim urgent before normal before background', async () => {
+    const store = await createStore();
+    await store.enqueue('s', 'tg', 'bg', 'bg', undefined, undefined, undefined, { priority: 'background' });
+    await store.enqueue('s', 'tg', 'normal', 'normal');
+    await store.enqueue('s', 'tg', 'urgent', 'urgent', undefined, undefined, undefined, { priority: 'urgent' });
+
+    assert.deepEqual(await claimAll(store), ['urgent', 'normal', 'bg']);
+  });
+
+  it('should interleave projects instead of draining the oldest backlog first', async () => {
+    const store = await createStore();
+    for (const n of [1, 2, 3, 4]) {
+      await store.enqueue('s', 'tg-a', `a${n}`, `a${n}`, undefined, '/proj/a');
+    }
+    await store.enqueue('s', 'tg-b', 'b1', 'b1', undefined, '/proj/b');
+    await store.enqueue('s', 'tg-b', 'b2', 'b2', undefined, '/proj/b');
+
+    assert.deepEqual(await claimAll(store), ['a1', 'b1', 'a2', 'b2', 'a3', 'a4']);
+  });
+
+  it('should give weighted projects a proportionally larger share', async () => {
+    const store = await createStore({ projectWeights: { '/proj/a': 2 } });
+    for (const n of [1, 2, 3]) {
+      await store.enqueue('s', 'tg-a', `a${n}`, `a${n}`, undefined, '/proj/a');
+    }
+    await store.enqueue('s', 'tg-b', 'b1', 'b1', undefined, '/proj/b');
+    await store.enqueue('s', 'tg-b', 'b2', 'b2', undefined, '/proj/b');
+
+    assert.deepEqual(await claimAll(store), ['a1', 'b1', 'a2', 'a3', 'b2']);
+  });
+
+  it('should keep the share of a project whose tasks are held back', async () => {
+    const store = await createStore();
+    for (const n of [1, 2, 3]) {
+      await store.enqueue('s', 'tg-a', `a${n}`, `a${n}`, undefined, '/proj/a');
+    }
+    for (const n of [1, 2, 3]) {
+      await store.enqueue('s', 'tg-b', `b${n}`, `b${n}`, undefined, '/proj/b');
+    }
+    const holdA = { canClaim: (item: QueueItem) => item.project_path !== '/proj/a' };
+
+    assert.equal((await store.claim()).item?.task_id, 'a1');
+    assert.equal((await store.claim(holdA)).item?.task_id, 'b1');
+    assert.equal((await store.claim(holdA)).item?.task_id, 'b2');
+    // /proj/a was served less while held back, so it catches up
+    assert.deepEqual(await claimAll(store), ['a2', 'a3', 'b3']);
+  });
+
+  it('should only change the priority of QUEUED tasks', async () => {
+    const store = await createStore();
+    await store.enqueue('s', 'tg', 'first', 'first');
+    await store.enqueue('s', 'tg', 'second', 'second');
+
+    const updated = await store.updatePriority('second', 'urgent');
+    assert.equal(updated.success, true);
+    assert.equal(updated.old_priority, 'normal');
+    assert.equal((await store.getItem('second'))?.priority, 'urgent');
+
+    const claimed = await store.claim();
+    assert.equal(claimed.item?.task_id, 'second');
+
+    const rejected = await store.updatePriority('second', 'background');
+    assert.equal(rejected.success, false);
+    assert.equal(rejected.error, 'Task not queued');
+    assert.equal((await store.updatePriority('missing', 'urgent')).error, 'Task not found');
+  });
+});
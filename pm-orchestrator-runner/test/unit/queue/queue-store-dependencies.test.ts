@@ -0,0 +1,130 @@
+/**
+ * Queue Store Dependency Tests
+ * Per spec/20_QUEUE_STORE.md (タスク依存関係)
+ *
+ * Tests (run against every store of describeEachQueueStore):
+ * 1. enqueue() records depends_on and rejects self/unknown prerequisites
+ * 2. validateDependencies() rejects cycles in the existing graph (reachable when a deleted task id is reused)
+ * 3. claim() skips tasks until every prerequisite is COMPLETE
+ * 4. 'cancel' policy cancels dependents of failed prerequisites
+ * 5. 'flag' policy marks dependents blocked and clears the flag after recovery
+ */
+
+import { describe, it, beforeEach } from 'mocha';
+import { strict as assert } from 'assert';
+import { IQueueStore, QueueItem, QueueDependencyError, validateDependencies } from '../../../src/queue/queue-store';
+import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+
+describe('validateDependencies', () => {
+  it('should reject a prerequisite chain that leads back to the task', async () => {
+    const graph: Record<string, string[]> = { 'task-b': ['task-a'], 'task-a': ['task-c'] };
+    const getItem = async (id: string): Promise<QueueItem | null> =>
+      graph[id] ? ({ task_id: id, depends_on: graph[id] } as QueueItem) : null;
+
+    await assert.rejects(
+      validateDependencies('task-c', ['task-b'], getItem),
+      (err: unknown) => err instanceof QueueDependencyError && err.message.includes('task-c -> task-b -> task-a -> task-c')
+    );
+  });
+});
+
+describeEachQueueStore('task dependencies', 'deps-test', contract => {
+  let store: IQueueStore;
+
+  beforeEach(async () => {
+    store = await contract.createStore();
+  });
+
+  describe('enqueue()', () => {
+    it('should record deduplicated depends_on with the default cancel policy', async () => {
+      await store.enqueue('s', 'tg', 'base', 'task-a');
+      const item = await store.enqueue('s', 'tg', 'next', 'task-b', undefined, undefined, undefined, {
+        dependsOn: ['task-a', 'task-a'],
+      });
+
+      assert.deepEqual(item.depends_on, ['task-a']);
+      assert.equal(item.dependency_policy, 'cancel');
+      assert.deepEqual((await store.getItem('task-b'))?.depends_on, ['task-a']);
+    });
+
+    it('should reject a task that depends on itself', async () => {
+      await assert.rejects(
+        store.enqueue('s', 'tg', 'self', 'task-a', undefined, undefined, undefined, { dependsOn: ['task-a'] }),
+        QueueDependencyError
+      );
+    });
+
+    it('should reject unknown prerequisites', async () => {
+      await assert.rejects(
+        store.enqueue('s', 'tg', 'orphan', 'task-b', undefined, undefined, undefined, { dependsOn: ['missing'] }),
+        (err: unknown) => err instanceof QueueDependencyError && err.taskIds.includes('missing')
+      );
+      assert.equal(await store.getItem('task-b'), null);
+    });
+
+    it('should reject a cycle through a reused task id', async () => {
+      await store.enqueue('s', 'tg', 'base', 'task-a');
+      await store.enqueue('s', 'tg', 'next', 'task-b', undefined, undefined, undefined, { dependsOn: ['task-a'] });
+      await store.deleteItem('task-a');
+
+      await assert.rejects(
+        store.enqueue('s', 'tg', 'base again', 'task-a', undefined, undefined, undefined, { dependsOn: ['task-b'] }),
+        (err: unknown) => err instanceof QueueDependencyError && err.message.includes('task-a -> task-b -> task-a')
+      );
+      assert.equal(await store.getItem('task-a'), null);
+    });
+  });
+
+  describe('claim()', () => {
+    it('should skip a task until its prerequisite is COMPLETE', async () => {
+      await store.enqueue('s', 'tg', 'base', 'task-a');
+      await store.enqueue('s', 'tg', 'next', 'task-b', undefined, undefined, undefined, { dependsOn: ['task-a'] });
+
+      const first = await store.claim();
+      assert.equal(first.item?.task_id, 'task-a');
+
+      const blocked = await store.claim();
+      assert.equal(blocked.success, false);
+      assert.equal((await store.getItem('task-b'))?.status, 'QUEUED');
+
+      await store.updateStatus('task-a', 'COMPLETE');
+      const second = await store.claim();
+      assert.equal(second.item?.task_id, 'task-b');
+    });
+
+    it('should cancel dependents of a failed prerequisite under the cancel policy', async () => {
+      await store.enqueue('s', 'tg', 'base', 'task-a');
+      await store.enqueue('s', 'tg', 'next', 'task-b', undefined, undefined, undefined, { dependsOn: ['task-a'] });
+      await store.claim();
+      await store.updateStatus('task-a', 'ERROR', 'boom');
+
+      const result = await store.claim();
+      assert.equal(result.success, false);
+
+      const dependent = await store.getItem('task-b');
+      assert.equal(dependent?.status, 'CANCELLED');
+      assert.ok(dependent?.error_message?.includes('task-a'));
+    });
+
+    it('should flag dependents under the flag policy and clear the flag after recovery', async () => {
+      await store.enqueue('s', 'tg', 'base', 'task-a');
+      await store.enqueue('s', 'tg', 'next', 'task-b', undefined, undefined, undefined, {
+        dependsOn: ['task-a'],
+        onDependencyFailure: 'flag',
+      });
+      await store.claim();
+      await store.updateStatus('task-a', 'ERROR', 'boom');
+
+      assert.equal((await store.claim()).success, false);
+      let dependent = await store.getItem('task-b');
+      assert.equal(dependent?.status, 'QUEUED');
+      assert.deepEqual(dependent?.dependency_blocked, { task_id: 'task-a', status: 'ERROR' });
+
+      await store.updateStatus('task-a', 'COMPLETE');
+      const result = await store.claim();
+      assert.equal(result.item?.task_id, 'task-b');
+      dependent = await store.getItem('task-b');
+      assert.equal(dependent?.dependency_blocked, undefined);
+    });
+  });
+});
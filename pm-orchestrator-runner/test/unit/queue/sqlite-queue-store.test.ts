@@ -0,0 +1,122 @@
+/**
+ * SQLite Queue Store Tests
+ * Per spec/20_QUEUE_STORE.md (SQLite ストア)
+ *
+ * Tests:
+ * 1. Tasks persist across store instances sharing one database file
+ * 2. claim() is transactional: two stores racing for one task claim it once
+ * 3. getByStatus() / getByTaskGroup() are scoped to the namespace
+ * 4. getAllItemsSummary() strips heavy fields
+ * 5. Task group status overrides and rollback history persist
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SQLiteQueueStore } from '../../../src/queue/sqlite-queue-store';
+
+describe('SQLiteQueueStore', () => {
+  let tmpDir: string;
+  const stores: SQLiteQueueStore[] = [];
+
+  function createStore(namespace = 'sqlite-test'): SQLiteQueueStore {
+    const store = new SQLiteQueueStore({ namespace, stateDir: tmpDir });
+    stores.push(store);
+    return store;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-queue-'));
+  });
+
+  afterEach(() => {
+    for (const store of stores) {
+      store.destroy();
+    }
+    stores.length = 0;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should persist tasks across store instances', async () => {
+    const writer = createStore();
+    await writer.ensureTable();
+    const item = await writer.enqueue('s1', 'g1', 'persist me');
+
+    const reader = createStore();
+    const loaded = await reader.getItem(item.task_id);
+
+    assert.equal(loaded?.prompt, 'persist me');
+    assert.equal(loaded?.status, 'QUEUED');
+    assert.equal(reader.getStoreType(), 'sqlite');
+    assert.ok(fs.existsSync(path.join(tmpDir, 'pm-runner.sqlite')));
+  });
+
+  it('should let only one of two racing stores claim a task', async () => {
+    const a = createStore();
+    const b = createStore();
+    const item = await a.enqueue('s1', 'g1', 'only once');
+
+    const results = await Promise.all([a.claim(), b.claim()]);
+
+    const winners = results.filter(r => r.success);
+    assert.equal(winners.length, 1);
+    assert.equal(winners[0].item?.task_id, item.task_id);
+    assert.equal(results.find(r => !r.success)?.error, 'Task already claimed by another process');
+    assert.equal((await b.getItem(item.task_id))?.status, 'RUNNING');
+  });
+
+  it('should scope getByStatus and getByTaskGroup to the namespace', async () => {
+    const store = createStore('ns-a');
+    const other = createStore('ns-b');
+    const first = await store.enqueue('s1', 'g1', 'a1');
+    await store.enqueue('s1', 'g2', 'a2');
+    await other.enqueue('s1', 'g1', 'b1');
+    await store.updateStatus(first.task_id, 'RUNNING');
+
+    assert.deepEqual((await store.getByStatus('QUEUED')).map(i => i.prompt), ['a2']);
+    assert.deepEqual((await store.getByTaskGroup('g1')).map(i => i.prompt), ['a1']);
+    assert.deepEqual((await store.getByTaskGroup('g1', 'ns-b')).map(i => i.prompt), ['b1']);
+    assert.deepEqual((await store.getAllNamespaces()).map(n => n.namespace).sort(), ['ns-a', 'ns-b']);
+  });
+
+  it('should strip output, conversation history and events from summaries', async () => {
+    const store = createStore();
+    const item = await store.enqueue('s1', 'g1', 'summarize');
+    await store.updateStatus(item.task_id, 'RUNNING');
+    await store.appendEvent(item.task_id, { type: 'log_chunk', timestamp: new Date().toISOString(), data: { text: 'hi' } });
+    await store.updateStatus(item.task_id, 'COMPLETE', undefined, 'long output');
+
+    const [summary] = await store.getAllItemsSummary();
+    const full = await store.getItem(item.task_id);
+
+    assert.equal(summary.task_id, item.task_id);
+    assert.equal(summary.output, undefined);
+    assert.equal(summary.events, undefined);
+    assert.equal(full?.output, 'long output');
+    assert.equal(full?.events?.length, 1);
+  });
+
+  it('should persist task group status overrides and rollback history', async () => {
+    const store = createStore();
+    await store.enqueue('s1', 'g1', 'grouped');
+    assert.equal(await store.setTaskGroupArchived('g1', true), true);
+    await store.appendRollbackHistory({
+      rollback_id: 'rb-1',
+      rolled_back_task_id: 't1',
+      project_path: '/tmp/p',
+      checkpoint_type: 'git-stash',
+      success: true,
+      cancelled_count: 0,
+      triggered_at: new Date().toISOString(),
+    });
+
+    const reopened = createStore();
+    const [group] = await reopened.getAllTaskGroups();
+
+    assert.equal(group.task_group_id, 'g1');
+    assert.equal(group.group_status, 'archived');
+    assert.deepEqual((await reopened.getRollbackHistory()).map(e => e.rollback_id), ['rb-1']);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Task Attachments Tests
+ * Per spec/51_TASK_ATTACHMENTS.md
+ *
+ * Tests:
+ * 1. decodeAttachments() validates type, base64 and size limits
+ * 2. saveTaskAttachments() / buildAttachmentPrompt() / deleteTaskAttachments()
+ * 3. Chat API: images are stored, referenced on the task and removed with it
+ *    (or right away when the task cannot be enqueued)
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TaskAttachmentError,
+  TASK_ATTACHMENT_LIMITS,
+  buildAttachmentPrompt,
+  decodeAttachments,
+  deleteTaskAttachments,
+  saveTaskAttachments,
+} from '../../../src/queue/task-attachments';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { createApp } from '../../../src/web/server';
+import { initNoDynamo, resetNoDynamo, resetNoDynamoExtended } from '../../../src/web/dal/no-dynamo';
+import { resetDAL } from '../../../src/web/dal/dal-factory';
+
+/** 1x1 transparent PNG */
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const PNG_DATA_URL = `data:image/png;base64,${PNG_BASE64}`;
+
+function errorCode(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof TaskAttachmentError);
+    return error.code;
+  }
+  return assert.fail('expected TaskAttachmentError');
+}
+
+describe('Task Attachments', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-attachments-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('decodeAttachments()', () => {
+    it('should decode data URLs and bare base64', () => {
+      const [fromUrl, bare] = decodeAttachments([
+        { name: 'shot.png', type: 'image/png', data: PNG_DATA_URL },
+        { name: 'bare.png', type: 'image/png', data: PNG_BASE64 },
+      ]);
+      assert.equal(fromUrl.type, 'image/png');
+      assert.deepEqual(fromUrl.content, Buffer.from(PNG_BASE64, 'base64'));
+      assert.deepEqual(bare.content, fromUrl.content);
+    });
+
+    it('should reject unsupported, malformed, oversized and too many attachments', () => {
+      assert.equal(errorCode(() => decodeAttachments([{ name: 'a.svg', type: 'image/svg+xml', data: 'PHN2Zz4=' }])), 'UNSUPPORTED_TYPE');
+      // Declared type must match the data URL
+      assert.equal(errorCode(() => decodeAttachments([{ name: 'a.png', type: 'image/png', data: 'data:image/gif;base64,R0lG' }])), 'UNSUPPORTED_TYPE');
+      assert.equal(errorCode(() => decodeAttachments([{ name: 'a.png', type: 'image/png', data: 'data:image/png;base64,not base64!' }])), 'INVALID_ATTACHMENT');
+
+      const big = Buffer.alloc(TASK_ATTACHMENT_LIMITS.MAX_FILE_BYTES + 1).toString('base64');
+      assert.equal(errorCode(() => decodeAttachments([{ name: 'big.png', type: 'image/png', data: big }])), 'TOO_LARGE');
+
+      const many = Array.from({ length: TASK_ATTACHMENT_LIMITS.MAX_FILES + 1 }, () => ({ name: 'a.png', type: 'image/png', data: PNG_BASE64 }));
+      assert.equal(errorCode(() => decodeAttachments(many)), 'TOO_MANY');
+    });
+  });
+
+  describe('storage and prompt', () => {
+    it('should save, list and delete the task attachments', () => {
+      const attachments = saveTaskAttachments(tempDir, 'task/1', decodeAttachments([
+        { name: 'my screen shot.png', type: 'image/png', data: PNG_DATA_URL },
+      ]));
+
+      assert.deepEqual(attachments, [{
+        name: 'my screen shot.png',
+        type: 'image/png',
+        size: Buffer.from(PNG_BASE64, 'base64').length,
+        path: '.claude/state/attachments/task_1/1-my_screen_shot.png',
+      }]);
+      const file = path.join(tempDir, attachments[0].path);
+      assert.ok(fs.existsSync(file));
+
+      const prompt = buildAttachmentPrompt(tempDir, attachments);
+      assert.match(prompt, /^\[Attachments\]\n/);
+      assert.ok(prompt.includes(`- ${file} (my screen shot.png, image/png)`));
+
+      deleteTaskAttachments(tempDir, 'task/1');
+      assert.equal(fs.existsSync(path.dirname(file)), false);
+      assert.equal(buildAttachmentPrompt(tempDir, attachments), '');
+    });
+  });
+
+  describe('Chat API', () => {
+    let stateDir: string;
+    let projectDir: string;
+    let store: InMemoryQueueStore;
+
+    beforeEach(() => {
+      stateDir = path.join(tempDir, 'state');
+      projectDir = path.join(tempDir, 'project');
+      fs.mkdirSync(stateDir, { recursive: true });
+      fs.mkdirSync(projectDir, { recursive: true });
+      initNoDynamo(stateDir);
+      store = new InMemoryQueueStore({ namespace: 'attachments-test' });
+    });
+
+    afterEach(() => {
+      resetNoDynamo();
+      resetNoDynamoExtended();
+      resetDAL();
+    });
+
+    it('should store images on the task and remove them when the task is deleted', async () => {
+      const app = createApp({ queueStore: store, sessionId: 'sess', namespace: 'attachments-test', projectRoot: projectDir, stateDir });
+      const project = await request(app).post('/api/projects').send({ projectPath: projectDir, alias: 'Attachments' }).expect(201);
+      const projectId = project.body.projectId as string;
+
+      const invalid = await request(app)
+        .post(`/api/projects/${projectId}/chat`)
+        .send({ content: 'Fix this', images: [{ name: 'a.bmp', type: 'image/bmp', data: 'Qk0=' }] })
+        .expect(400);
+      assert.equal(invalid.body.error, 'UNSUPPORTED_TYPE');
+
+      await request(app)
+        .post(`/api/projects/${projectId}/chat`)
+        .send({ content: 'Fix the layout in this screenshot', images: [{ name: 'layout.png', type: 'image/png', data: PNG_DATA_URL }] })
+        .expect(201);
+
+      const [task] = await store.getByStatus('QUEUED');
+      assert.equal(task.attachments?.length, 1);
+      const file = path.join(projectDir, task.attachments?.[0].path ?? '');
+      assert.deepEqual(fs.readFileSync(file), Buffer.from(PNG_BASE64, 'base64'));
+
+      await request(app).delete(`/api/tasks/${task.task_id}`).expect(200);
+      assert.equal(fs.existsSync(path.dirname(file)), false);
+    });
+
+    it('should remove the saved images when the task cannot be enqueued', async () => {
+      store.enqueue = async () => {
+        throw new Error('queue unavailable');
+      };
+      const app = createApp({ queueStore: store, sessionId: 'sess', namespace: 'attachments-test', projectRoot: projectDir, stateDir });
+      const project = await request(app).post('/api/projects').send({ projectPath: projectDir, alias: 'Attachments' }).expect(201);
+
+      await request(app)
+        .post(`/api/projects/${project.body.projectId}/chat`)
+        .send({ content: 'Fix the layout in this screenshot', images: [{ name: 'layout.png', type: 'image/png', data: PNG_DATA_URL }] })
+        .expect(201);
+
+      const attachmentsRoot = path.join(projectDir, '.claude', 'state', 'attachments');
+      assert.deepEqual(fs.existsSync(attachmentsRoot) ? fs.readdirSync(attachmentsRoot) : [], []);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Task Group Bundle Tests
+ * Per spec/43_TASK_GROUP_BUNDLE.md
+ *
+ * Tests:
+ * 1. exportTaskGroupBundle() packages items, traces and executor logs with secrets masked
+ * 2. importTaskGroupBundle() stores read-only copies, restores traces, skips existing tasks
+ * 3. importItem() on every store of describeEachQueueStore
+ * 4. GET /api/task-groups/:id/export, POST /api/task-groups/import, read-only task routes
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { IQueueStore, QueueItem } from '../../../src/queue/queue-store';
+import {
+  exportTaskGroupBundle,
+  importTaskGroupBundle,
+  TaskGroupBundle,
+  TaskGroupBundleValidationError,
+} from '../../../src/queue/task-group-bundle';
+import { ExecutorOutputStream } from '../../../src/executor/executor-output-stream';
+import { createApp } from '../../../src/web/server';
+import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+
+const SECRET = 'sk-ant-REDACTED';
+
+describe('Task group bundle', () => {
+  let tmpDir: string;
+  let stateDir: string;
+  let source: InMemoryQueueStore;
+  let outputStream: ExecutorOutputStream;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-group-bundle-'));
+    stateDir = path.join(tmpDir, 'source-state');
+    source = new InMemoryQueueStore({ namespace: 'source-ns' });
+    outputStream = new ExecutorOutputStream();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function seedGroup(): Promise<{ done: QueueItem; waiting: QueueItem }> {
+    const done = await source.enqueue('s1', 'tg-1', `Deploy with key ${SECRET}`);
+    await source.updateStatus(done.task_id, 'RUNNING');
+    await source.updateStatus(done.task_id, 'ERROR', 'Build failed', 'partial output');
+    const waiting = await source.enqueue('s1', 'tg-1', 'Which branch?');
+    await source.updateStatus(waiting.task_id, 'RUNNING');
+    await source.setAwaitingResponse(waiting.task_id, { type: 'unknown', question: 'main or develop?' });
+
+    const tracesDir = path.join(stateDir, 'traces');
+    fs.mkdirSync(tracesDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(tracesDir, `stream-${done.task_id}.jsonl`),
+      JSON.stringify({ type: 'assistant', text: `export ANTHROPIC_KEY=${SECRET}` }) + '\nnot json\n'
+    );
+    fs.writeFileSync(
+      path.join(tracesDir, `conversation-${done.task_id}-2026-10-19T00-00-00-000Z.jsonl`),
+      JSON.stringify({ event: 'USER_REQUEST', data: { prompt: 'deploy' } }) + '\n'
+    );
+    outputStream.emit(done.task_id, 'stdout', `Using ${SECRET}`);
+    return { done, waiting };
+  }
+
+  describe('exportTaskGroupBundle()', () => {
+    it('should package every task with traces and executor logs, secrets masked', async () => {
+      const { done, waiting } = await seedGroup();
+
+      const bundle = await exportTaskGroupBundle(source, 'tg-1', { stateDir, outputStream });
+
+      assert.ok(bundle);
+      assert.equal(bundle.format, 'pm-task-group-bundle');
+      assert.equal(bundle.source.namespace, 'source-ns');
+      assert.equal(bundle.tasks.length, 2);
+      assert.ok(!JSON.stringify(bundle).includes(SECRET));
+
+      const failed = bundle.tasks.find(t => t.item.task_id === done.task_id)!;
+      assert.equal(failed.item.error_message, 'Build failed');
+      assert.equal(failed.item.output, 'partial output');
+      assert.match(failed.item.prompt, /\[MASKED:ANTHROPIC_KEY\]/);
+      assert.equal(failed.stream_trace?.length, 1);
+      assert.equal(failed.conversation_traces.length, 1);
+      assert.equal(failed.executor_logs.length, 1);
+
+      const pending = bundle.tasks.find(t => t.item.task_id === waiting.task_id)!;
+      assert.equal(pending.item.status, 'AWAITING_RESPONSE');
+      assert.equal(pending.item.clarification?.question, 'main or develop?');
+      assert.equal(pending.stream_trace, undefined);
+    });
+
+    it('should return null for an unknown group', async () => {
+      assert.equal(await exportTaskGroupBundle(source, 'missing', { outputStream }), null);
+    });
+  });
+
+  describe('importTaskGroupBundle()', () => {
+    let bundle: TaskGroupBundle;
+
+    beforeEach(async () => {
+      await seedGroup();
+      bundle = (await exportTaskGroupBundle(source, 'tg-1', { stateDir, outputStream }))!;
+    });
+
+    it('should store read-only copies in the target namespace and restore traces', async () => {
+      const target = new InMemoryQueueStore({ namespace: 'target-ns' });
+      const targetStateDir = path.join(tmpDir, 'target-state');
+
+      const result = await importTaskGroupBundle(target, bundle, { namespace: 'target-ns', stateDir: targetStateDir });
+
+      assert.equal(result.imported, 2);
+      assert.equal(result.skipped, 0);
+      assert.equal(result.trace_files, 2);
+
+      const items = await target.getByTaskGroup('tg-1');
+      const waiting = items.find(i => i.imported?.original_status === 'AWAITING_RESPONSE')!;
+      assert.equal(waiting.status, 'CANCELLED');
+      assert.equal(waiting.namespace, 'target-ns');
+      assert.equal(waiting.imported?.bundle_id, bundle.bundle_id);
+      assert.equal(waiting.imported?.source_namespace, 'source-ns');
+      assert.equal(items.find(i => i.imported?.original_status === 'ERROR')?.status, 'ERROR');
+
+      const claim = await target.claim();
+      assert.equal(claim.success, false);
+
+      const tracesDir = path.join(targetStateDir, 'traces');
+      assert.equal(fs.readdirSync(tracesDir).length, 2);
+      assert.ok(fs.existsSync(path.join(targetStateDir, 'bundles', `${bundle.bundle_id}.json`)));
+    });
+
+    it('should drop paths of the exporting runner', async () => {
+      const target = new InMemoryQueueStore({ namespace: 'target-ns' });
+      const withPaths = JSON.parse(JSON.stringify(bundle)) as TaskGroupBundle;
+      withPaths.tasks[0].item.project_path = '/home/alice/secret-project';
+      withPaths.tasks[0].item.attachments = [{ name: 'a.png', type: 'image/png', size: 1, path: '../../a.png' }];
+
+      await importTaskGroupBundle(target, withPaths, { namespace: 'target-ns' });
+
+      const item = await target.getItem(withPaths.tasks[0].item.task_id);
+      assert.equal(item?.project_path, undefined);
+      assert.equal(item?.attachments, undefined);
+      assert.equal(item?.imported?.source_project_path, '/home/alice/secret-project');
+    });
+
+    it('should skip tasks that already exist', async () => {
+      const target = new InMemoryQueueStore({ namespace: 'target-ns' });
+      await importTaskGroupBundle(target, bundle, { namespace: 'target-ns' });
+
+      const again = await importTaskGroupBundle(target, bundle, { namespace: 'target-ns' });
+
+      assert.equal(again.imported, 0);
+      assert.equal(again.skipped, 2);
+    });
+
+    it('should reject malformed bundles and unsafe task IDs', async () => {
+      const target = new InMemoryQueueStore({ namespace: 'target-ns' });
+      const tampered = JSON.parse(JSON.stringify(bundle)) as TaskGroupBundle;
+      tampered.tasks[0].item.task_id = '../../etc';
+
+      await assert.rejects(
+        importTaskGroupBundle(target, tampered, { namespace: 'target-ns' }),
+        (error: unknown) => error instanceof TaskGroupBundleValidationError && /task_id is invalid/.test(error.message)
+      );
+      await assert.rejects(
+        importTaskGroupBundle(target, { format: 'zip' }, { namespace: 'target-ns' }),
+        TaskGroupBundleValidationError
+      );
+      for (const unsafe of ['.', '..', '...']) {
+        const dotted = JSON.parse(JSON.stringify(bundle)) as TaskGroupBundle;
+        dotted.tasks[0].item.task_id = unsafe;
+        dotted.bundle_id = unsafe;
+        await assert.rejects(
+          importTaskGroupBundle(target, dotted, { namespace: 'target-ns' }),
+          (error: unknown) => error instanceof TaskGroupBundleValidationError && error.errors.length === 2
+        );
+      }
+      assert.equal((await target.getAllItems()).length, 0);
+    });
+  });
+});
+
+describeEachQueueStore('importItem()', 'bundle-test', contract => {
+  let store: IQueueStore;
+
+  beforeEach(async () => {
+    store = await contract.createStore();
+  });
+
+  it('should insert into item.namespace once', async () => {
+    const item: QueueItem = {
+      namespace: 'other-ns',
+      task_id: 'imported-1',
+      task_group_id: 'tg',
+      session_id: 's',
+      status: 'COMPLETE',
+      prompt: 'done elsewhere',
+      created_at: '2026-10-01T00:00:00.000Z',
+      updated_at: '2026-10-01T00:00:00.000Z',
+    };
+
+    assert.equal(await store.importItem(item), true);
+    assert.equal(await store.importItem({ ...item, prompt: 'changed' }), false);
+
+    const loaded = await store.getItem('imported-1', 'other-ns');
+    assert.equal(loaded?.prompt, 'done elsewhere');
+    assert.equal(await store.getItem('imported-1'), null);
+  });
+});
+
+describe('Task group bundle routes', () => {
+  it('should export a group, import it elsewhere and keep the copy read-only', async () => {
+    const sourceStore = new InMemoryQueueStore({ namespace: 'runner-a' });
+    const task = await sourceStore.enqueue('s', 'tg-routes', 'Investigate flaky test');
+    await sourceStore.updateStatus(task.task_id, 'RUNNING');
+    const sourceApp = createApp({ queueStore: sourceStore, sessionId: 's', namespace: 'runner-a' });
+
+    const exported = await request(sourceApp).get('/api/task-groups/tg-routes/export').expect(200);
+    assert.match(String(exported.headers['content-disposition']), /attachment; filename="task-group-tg-routes-/);
+    await request(sourceApp).get('/api/task-groups/missing/export').expect(404);
+
+    const targetStore = new InMemoryQueueStore({ namespace: 'runner-b' });
+    const targetApp = createApp({ queueStore: targetStore, sessionId: 's', namespace: 'runner-b' });
+
+    const imported = await request(targetApp).post('/api/task-groups/import').send(exported.body).expect(201);
+    assert.equal(imported.body.imported, 1);
+    await request(targetApp).post('/api/task-groups/import').send({ tasks: [] }).expect(400);
+
+    const detail = await request(targetApp).get(`/api/tasks/${task.task_id}`).expect(200);
+    assert.equal(detail.body.status, 'CANCELLED');
+    assert.equal(detail.body.imported.original_status, 'RUNNING');
+
+    const reply = await request(targetApp).post(`/api/tasks/${task.task_id}/retry`).send({}).expect(409);
+    assert.equal(reply.body.error, 'READ_ONLY');
+    await request(targetApp).delete(`/api/tasks/${task.task_id}`).expect(200);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Task Usage Tests
+ * Per spec/20_QUEUE_STORE.md (実行コスト記録)
+ *
+ * Tests:
+ * 1. usageFromResultEvent() maps the stream-json result event
+ * 2. addTaskUsage() / sumTaskUsage() accumulate runs and tasks
+ * 3. recordUsage() adds to QueueItem.usage (every store of describeEachQueueStore)
+ * 4. QueueStore (DynamoDB) recordUsage() increments in the update, without reading the task
+ */
+
+import { describe, it, beforeEach } from 'mocha';
+import { strict as assert } from 'assert';
+import { IQueueStore, QueueStore } from '../../../src/queue/queue-store';
+import { addTaskUsage, sumTaskUsage, TaskUsage } from '../../../src/queue/task-usage';
+import { usageFromResultEvent } from '../../../src/executor/claude-code-executor';
+import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+
+function usage(overrides: Partial<TaskUsage> = {}): TaskUsage {
+  return {
+    input_tokens: 100,
+    output_tokens: 50,
+    cache_creation_input_tokens: 10,
+    cache_read_input_tokens: 1000,
+    total_cost_usd: 0.25,
+    num_turns: 3,
+    model: 'claude-sonnet-4-5',
+    runs: 1,
+    ...overrides,
+  };
+}
+
+describe('usageFromResultEvent', () => {
+  it('should map usage, cost and turns from the result event', () => {
+    const result = usageFromResultEvent({
+      total_cost_usd: 0.0421,
+      num_turns: 4,
+      usage: {
+        input_tokens: 12,
+        output_tokens: 340,
+        cache_creation_input_tokens: 2048,
+        cache_read_input_tokens: 8192,
+      },
+    }, 'claude-opus-4-1');
+
+    assert.deepEqual(result, {
+      input_tokens: 12,
+      output_tokens: 340,
+      cache_creation_input_tokens: 2048,
+      cache_read_input_tokens: 8192,
+      total_cost_usd: 0.0421,
+      num_turns: 4,
+      model: 'claude-opus-4-1',
+      runs: 1,
+    });
+  });
+
+  it('should fall back to the costliest modelUsage entry and zero missing fields', () => {
+    const result = usageFromResultEvent({
+      modelUsage: {
+        'claude-haiku-4-5': { costUSD: 0.001 },
+        'claude-sonnet-4-5': { costUSD: 0.03 },
+      },
+    });
+
+    assert.equal(result.model, 'claude-sonnet-4-5');
+    assert.equal(result.input_tokens, 0);
+    assert.equal(result.total_cost_usd, 0);
+    assert.equal(result.runs, 1);
+  });
+});
+
+describe('addTaskUsage / sumTaskUsage', () => {
+  it('should add runs and keep the latest model', () => {
+    const total = addTaskUsage(addTaskUsage(undefined, usage()), usage({ model: 'claude-opus-4-1', num_turns: 1 }));
+
+    assert.equal(total.input_tokens, 200);
+    assert.equal(total.cache_read_input_tokens, 2000);
+    assert.equal(total.total_cost_usd, 0.5);
+    assert.equal(total.num_turns, 4);
+    assert.equal(total.runs, 2);
+    assert.equal(total.model, 'claude-opus-4-1');
+  });
+
+  it('should sum tasks with usage and list distinct models', () => {
+    const totals = sumTaskUsage([
+      { usage: usage() },
+      { usage: undefined },
+      { usage: usage({ runs: 2 }) },
+      { usage: usage({ model: 'claude-haiku-4-5' }) },
+    ]);
+
+    assert.equal(totals.task_count, 3);
+    assert.equal(totals.runs, 4);
+    assert.equal(totals.output_tokens, 150);
+    assert.equal(totals.total_cost_usd, 0.75);
+    assert.deepEqual(totals.models, ['claude-sonnet-4-5', 'claude-haiku-4-5']);
+  });
+});
+
+describeEachQueueStore('recordUsage()', 'usage-test', contract => {
+  let store: IQueueStore;
+
+  beforeEach(async () => {
+    store = await contract.createStore();
+  });
+
+  it('should accumulate usage across executions and keep it in summaries', async () => {
+    const item = await store.enqueue('s', 'tg', 'count my tokens');
+
+    await store.recordUsage(item.task_id, usage());
+    await store.recordUsage(item.task_id, usage({ total_cost_usd: 0.5 }));
+
+    const loaded = await store.getItem(item.task_id);
+    assert.equal(loaded?.usage?.runs, 2);
+    assert.equal(loaded?.usage?.total_cost_usd, 0.75);
+
+    const [summary] = await store.getAllItemsSummary();
+    assert.equal(summary.usage?.input_tokens, 200);
+  });
+
+  it('should ignore unknown tasks', async () => {
+    await store.recordUsage('missing-task', usage());
+    assert.equal(await store.getItem('missing-task'), null);
+  });
+});
+
+describe('QueueStore (DynamoDB) recordUsage()', () => {
+  it('should increment the counters in the update instead of reading the task', async () => {
+    const store = new QueueStore({ namespace: 'usage-test', localDynamodb: true });
+    const sent: Array<{ name: string; input: { UpdateExpression?: string; ConditionExpression?: string } }> = [];
+    let hasUsage = false;
+    (store as unknown as { docClient: { send: (command: unknown) => Promise<unknown> } }).docClient.send = async command => {
+      const { input } = command as { input: { UpdateExpression?: string; ConditionExpression?: string } };
+      sent.push({ name: (command as object).constructor.name, input });
+      const creates = input.ConditionExpression?.includes('attribute_not_exists(#usage)');
+      if (creates ? hasUsage : !hasUsage) {
+        throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+      }
+      hasUsage = true;
+      return {};
+    };
+
+    await store.recordUsage('task-1', usage());
+    await store.recordUsage('task-1', usage({ model: undefined }));
+
+    assert.deepEqual(sent.map(c => c.name), ['UpdateCommand', 'UpdateCommand', 'UpdateCommand']);
+    assert.match(sent[0].input.UpdateExpression ?? '', /#usage\.#u0 = #usage\.#u0 \+ :u0/);
+    assert.match(sent[0].input.UpdateExpression ?? '', /#usage\.#model = :model/);
+    assert.equal(sent[1].input.UpdateExpression, 'SET #usage = :usage, updated_at = :now');
+    assert.doesNotMatch(sent[2].input.UpdateExpression ?? '', /#model/);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Usage Limit Pause Tests
+ * Per spec/50_USAGE_LIMIT_PAUSE.md
+ *
+ * Tests:
+ * 1. detectUsageLimit() recognises limit messages and their reset times
+ * 2. QueuePoller re-queues the task and pauses claiming until the reset
+ * 3. QueuePoller resumes claiming once the pause has passed
+ * 4. The pause is saved in the queue controls: a restarted runner keeps it, resume lifts it
+ * 5. releaseClaim() re-queues only RUNNING tasks (every store of describeEachQueueStore)
+ */
+
+import { describe, it, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { QueuePoller, TaskExecutor } from '../../../src/queue/queue-poller';
+import { QueueControlStore } from '../../../src/queue/queue-controls';
+import { detectUsageLimit } from '../../../src/executor/script-failure-classifier';
+import { describeEachQueueStore } from '../../helpers/queue-store-contract';
+
+describe('Usage limit pause', () => {
+  describe('detectUsageLimit()', () => {
+    const now = new Date('2026-10-19T10:00:00.000Z');
+
+    it('should parse reset times from Claude Code limit messages', () => {
+      assert.deepEqual(detectUsageLimit('Claude AI usage limit reached|1760000000', now), {
+        resetAt: new Date(1760000000 * 1000).toISOString(),
+        message: 'Claude AI usage limit reached|1760000000',
+      });
+      assert.equal(detectUsageLimit('5-hour limit reached ∙ resets 3pm (UTC)', now)?.resetAt, '2026-10-19T15:00:00.000Z');
+      // 19:00 in Tokyo: the next 9am is tomorrow
+      assert.equal(detectUsageLimit("You've hit your limit · resets 9am (Asia/Tokyo)", now)?.resetAt, '2026-10-20T00:00:00.000Z');
+      assert.equal(detectUsageLimit('Weekly limit reached ∙ resets Oct 20, 3:30pm (America/New_York)', now)?.resetAt, '2026-10-20T19:30:00.000Z');
+      assert.equal(detectUsageLimit('API Error: 429 Too Many Requests (retry-after: 120)', now)?.resetAt, '2026-10-19T10:02:00.000Z');
+    });
+
+    it('should report limits without a reset time and ignore other failures', () => {
+      const output = 'Working on it...\n{"type":"error","error":{"type":"rate_limit_error","message":"Rate limited"}}';
+      const limit = detectUsageLimit(output, now);
+      assert.equal(limit?.resetAt, undefined);
+      assert.match(limit?.message ?? '', /rate_limit_error/);
+
+      assert.equal(detectUsageLimit('Error: ENOENT: no such file or directory', now), null);
+      // Only the tail of the output is checked
+      assert.equal(detectUsageLimit('usage limit reached\n' + 'x'.repeat(3000), now), null);
+    });
+  });
+
+  describe('QueuePoller', () => {
+    let poller: QueuePoller | null = null;
+
+    afterEach(async () => {
+      if (poller) {
+        await poller.stop();
+        poller = null;
+      }
+    });
+
+    it('should re-queue the task and stop claiming until the reset', async () => {
+      const store = new InMemoryQueueStore({ namespace: 'usage-limit-test' });
+      await store.enqueue('s', 'tg', 'first', 'task-1');
+      await store.enqueue('s', 'tg', 'second', 'task-2');
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const started: string[] = [];
+      const executor: TaskExecutor = async item => {
+        started.push(item.task_id);
+        return { status: 'ERROR', errorMessage: 'limit', usageLimit: { resetAt, message: '5-hour limit reached' } };
+      };
+
+      poller = new QueuePoller(store, executor, { pollIntervalMs: 60000, recoverOnStartup: false });
+      const paused: Array<{ until: string; taskId: string }> = [];
+      poller.on('paused', event => paused.push(event));
+      await poller.start();
+      await poller.poll();
+
+      assert.deepEqual(started, ['task-1']);
+      assert.equal((await store.getItem('task-1'))?.status, 'QUEUED');
+      assert.equal((await store.getItem('task-2'))?.status, 'QUEUED');
+      const expectedUntil = new Date(Date.parse(resetAt) + 60 * 1000).toISOString();
+      assert.deepEqual(paused.map(p => [p.until, p.taskId]), [[expectedUntil, 'task-1']]);
+      assert.equal(poller.getState().pausedUntil, expectedUntil);
+      assert.equal(poller.getState().pauseReason, '5-hour limit reached');
+      assert.equal(poller.getState().errors, 0);
+    });
+
+    it('should resume claiming after the pause', async () => {
+      const store = new InMemoryQueueStore({ namespace: 'usage-limit-test' });
+      await store.enqueue('s', 'tg', 'first', 'task-1');
+      let limited = true;
+      const executor: TaskExecutor = async () => {
+        if (limited) {
+          limited = false;
+          // No reset time: the configured default pause applies
+          return { status: 'ERROR', usageLimit: { message: 'rate_limit_error' } };
+        }
+        return { status: 'COMPLETE' };
+      };
+
+      poller = new QueuePoller(store, executor, { pollIntervalMs: 60000, recoverOnStartup: false, usageLimitPauseMs: 20 });
+      let resumed = 0;
+      poller.on('resumed', () => resumed++);
+      await poller.start();
+      assert.notEqual(poller.getState().pausedUntil, null);
+
+      await new Promise(resolve => setTimeout(resolve, 30));
+      assert.equal(poller.getState().pausedUntil, null);
+      await poller.poll();
+
+      assert.equal(resumed, 1);
+      assert.equal((await store.getItem('task-1'))?.status, 'COMPLETE');
+    });
+
+    it('should keep the pause across a restart until resumed', async () => {
+      const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-limit-test-'));
+      try {
+        const store = new InMemoryQueueStore({ namespace: 'usage-limit-test' });
+        await store.enqueue('s', 'tg', 'first', 'task-1');
+        const resetAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+        let limited = true;
+        const executor: TaskExecutor = async () => limited
+          ? { status: 'ERROR', usageLimit: { resetAt, message: '5-hour limit reached' } }
+          : { status: 'COMPLETE' };
+        const controls = new QueueControlStore({ stateDir });
+
+        poller = new QueuePoller(store, executor, { pollIntervalMs: 60000, recoverOnStartup: false, controls });
+        await poller.start();
+        await poller.stop();
+        const saved = await controls.get('usage-limit-test');
+        assert.equal(saved?.mode, 'pause');
+        assert.equal(saved?.expires_at, new Date(Date.parse(resetAt) + 60 * 1000).toISOString());
+
+        // A new runner process picks the pause up
+        limited = false;
+        poller = new QueuePoller(store, executor, { pollIntervalMs: 60000, recoverOnStartup: false, controls: new QueueControlStore({ stateDir }) });
+        await poller.start();
+        assert.equal(poller.getState().pausedUntil, saved?.expires_at);
+        assert.equal((await store.getItem('task-1'))?.status, 'QUEUED');
+
+        // Operator resume lifts it
+        await controls.clear('usage-limit-test');
+        await poller.poll();
+        assert.equal(poller.getState().pausedUntil, null);
+        assert.equal((await store.getItem('task-1'))?.status, 'COMPLETE');
+
+        // Expired pauses are ignored
+        await controls.set({ namespace: 'usage-limit-test', mode: 'pause', expires_at: new Date(Date.now() - 1000).toISOString() });
+        assert.deepEqual(await controls.list('usage-limit-test'), []);
+      } finally {
+        fs.rmSync(stateDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
+
+describeEachQueueStore('releaseClaim()', 'release-test', ({ createStore }) => {
+  it('should re-queue a claimed task only while it is RUNNING', async () => {
+    const store = await createStore();
+    await store.enqueue('s', 'tg', 'limited', 'task-1');
+    await store.claim();
+
+    assert.equal(await store.releaseClaim('task-1'), true);
+    assert.equal((await store.getItem('task-1'))?.status, 'QUEUED');
+    assert.equal(await store.releaseClaim('task-1'), false);
+    assert.equal(await store.releaseClaim('missing-task'), false);
+
+    // Not a status API transition
+    const result = await store.updateStatusWithValidation('task-1', 'RUNNING');
+    assert.equal(result.success, true);
+    assert.equal((await store.updateStatusWithValidation('task-1', 'QUEUED')).error, 'Invalid status transition');
+  });
+});
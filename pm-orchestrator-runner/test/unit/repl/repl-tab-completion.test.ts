@@ -18,7 +18,7 @@ describe('REPL Tab Completion', () => {
   let tempDir: string;
   let repl: REPLInterface;
 
-  // Spec-defined commands (24 total: spec commands + clear/version for typo rescue + template commands + inspect)
+  // Spec-defined commands (26 total: spec commands + clear/version for typo rescue + template commands + inspect + schedule + queue)
   const SPEC_COMMANDS = [
     '/help', '/init', '/model', '/start', '/continue',
     '/status', '/tasks', '/approve', '/exit',
@@ -33,7 +33,11 @@ describe('REPL Tab Completion', () => {
     // Multi-line buffer submit command
     '/send',
     // Unified event inspection command
-    '/inspect'
+    '/inspect',
+    // Scheduled task command per spec 38
+    '/schedule',
+    // Queue pause / drain / bulk command per spec 53
+    '/queue'
   ];
 
   beforeEach(() => {
@@ -60,12 +64,12 @@ describe('REPL Tab Completion', () => {
   }
 
   describe('Spec compliance', () => {
-    it('should return exactly 24 commands for "/" (spec list + clear/version + template commands + inspect, no /quit)', () => {
+    it('should return exactly 26 commands for "/" (spec list + clear/version + template commands + inspect + schedule + queue, no /quit)', () => {
       const completer = getCompleter(repl);
       const [completions, line] = completer('/');
 
       assert.equal(line, '/');
-      assert.equal(completions.length, 24, 'Should return exactly 24 commands');
+      assert.equal(completions.length, 26, 'Should return exactly 26 commands');
 
       // Verify all spec commands are present
       for (const cmd of SPEC_COMMANDS) {
@@ -0,0 +1,242 @@
+/**
+ * Tests for Project-Defined Quality Criteria
+ *
+ * Per spec 25_REVIEW_LOOP.md Section 12
+ *
+ * Tests cover:
+ * - validateCustomCriteria()
+ * - Regex criteria over output, changed file content and changed paths
+ * - Command criteria (exit code, timeout)
+ * - ReviewLoopExecutorWrapper integration (judgment, modification prompt, trace)
+ * - Loading criteria from project settings, /api/settings/quality-criteria
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ExecutorResult, ExecutorTask, IExecutor, AuthCheckResult } from '../../../src/executor/claude-code-executor';
+import {
+  validateCustomCriteria,
+  evaluateCustomCriteria,
+  CustomCriteriaValidationError,
+  type CustomCriterionDefinition,
+} from '../../../src/review-loop/custom-criteria';
+import { ReviewLoopExecutorWrapper } from '../../../src/review-loop/review-loop';
+import { ProjectSettingsStore, loadProjectQualityCriteria } from '../../../src/settings/project-settings-store';
+import { createSettingsRoutes } from '../../../src/web/routes/settings';
+import express from 'express';
+import request from 'supertest';
+
+function createTestResult(overrides: Partial<ExecutorResult> = {}): ExecutorResult {
+  return {
+    executed: true,
+    output: 'Implemented the feature',
+    files_modified: [],
+    duration_ms: 100,
+    status: 'COMPLETE',
+    cwd: '/tmp/test',
+    verified_files: [],
+    unverified_files: [],
+    ...overrides,
+  };
+}
+
+class SequenceExecutor implements IExecutor {
+  readonly prompts: string[] = [];
+  constructor(private readonly results: ExecutorResult[]) {}
+
+  async isClaudeCodeAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async checkAuthStatus(): Promise<AuthCheckResult> {
+    return { available: true, loggedIn: true };
+  }
+
+  async execute(task: ExecutorTask): Promise<ExecutorResult> {
+    this.prompts.push(task.prompt);
+    return this.results[Math.min(this.prompts.length - 1, this.results.length - 1)];
+  }
+}
+
+const NO_CONSOLE_LOG: CustomCriterionDefinition = {
+  id: 'no-console-log',
+  name: 'No console.log in src/',
+  description: 'Use the app logger instead of console.log',
+  check: { type: 'regex', target: 'changed_files', file_pattern: '^src/', pattern: 'console\\.log\\(' },
+};
+
+describe('Project-defined quality criteria', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'custom-criteria-'));
+    fs.mkdirSync(path.join(workDir, 'src'));
+    fs.writeFileSync(path.join(workDir, 'src', 'app.ts'), 'export function run() {\n  console.log("debug");\n}\n');
+    fs.writeFileSync(path.join(workDir, 'src', 'clean.ts'), 'export const ok = true;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('validateCustomCriteria()', () => {
+    it('should accept valid regex and command criteria', () => {
+      assert.deepEqual(validateCustomCriteria([
+        NO_CONSOLE_LOG,
+        { id: 'typecheck', name: 'Typecheck', check: { type: 'command', command: 'npm run typecheck', timeout_ms: 120000 } },
+      ]), []);
+    });
+
+    it('should report invalid definitions', () => {
+      const errors = validateCustomCriteria([
+        { id: 'bad id', name: '', check: { type: 'regex', target: 'everything', pattern: '(' } },
+        { id: 'dup', name: 'a', check: { type: 'command', command: 'true', timeout_ms: 0 } },
+        { id: 'dup', name: 'b', check: { type: 'shell' } },
+      ]);
+
+      assert.ok(errors.includes("[0].id must be 1-64 letters, digits, '_' or '-'"));
+      assert.ok(errors.includes('[0].name is required'));
+      assert.ok(errors.includes('[0].check.pattern must be a valid regular expression'));
+      assert.ok(errors.includes('[0].check.target must be output, changed_files or changed_paths'));
+      assert.ok(errors.includes('[1].check.timeout_ms must be between 1 and 600000'));
+      assert.ok(errors.includes("[2].id 'dup' is duplicated"));
+      assert.ok(errors.includes('[2].check.type must be regex or command'));
+      assert.deepEqual(validateCustomCriteria({}), ['qualityCriteria must be an array']);
+    });
+  });
+
+  describe('evaluateCustomCriteria()', () => {
+    it('should match changed file content on disk, limited by file_pattern', async () => {
+      const dirty = createTestResult({
+        files_modified: ['src/app.ts', 'scripts/dev.ts'],
+        verified_files: [{ path: 'src/app.ts', exists: true }],
+      });
+      const [failed] = await evaluateCustomCriteria(dirty, [NO_CONSOLE_LOG], workDir);
+
+      assert.equal(failed.criteria_id, 'custom:no-console-log');
+      assert.equal(failed.passed, false);
+      assert.equal(failed.name, 'No console.log in src/');
+      assert.equal(failed.suggestion, 'Use the app logger instead of console.log');
+      assert.match(failed.details ?? '', /found in src\/app\.ts/);
+
+      const clean = createTestResult({ files_modified: ['src/clean.ts'], verified_files: [{ path: 'src/clean.ts', exists: true }] });
+      assert.equal((await evaluateCustomCriteria(clean, [NO_CONSOLE_LOG], workDir))[0].passed, true);
+    });
+
+    it('should support output / changed_paths targets, expect present, applies_when and enabled', async () => {
+      const criteria: CustomCriterionDefinition[] = [
+        { id: 'no-skip', name: 'No skipped tests', check: { type: 'regex', target: 'output', pattern: 'skipped', flags: 'i' } },
+        {
+          id: 'route-has-test',
+          name: 'New routes have tests',
+          applies_when: '^src/web/routes/',
+          check: { type: 'regex', target: 'changed_paths', pattern: '\\.test\\.ts$', expect: 'present' },
+        },
+        { id: 'disabled', name: 'Disabled', enabled: false, check: { type: 'regex', target: 'output', pattern: '.' } },
+      ];
+
+      const routeOnly = createTestResult({ output: '2 tests SKIPPED', files_modified: ['src/web/routes/users.ts'] });
+      const results = await evaluateCustomCriteria(routeOnly, criteria, workDir);
+      assert.deepEqual(results.map(r => [r.criteria_id, r.passed]), [
+        ['custom:no-skip', false],
+        ['custom:route-has-test', false],
+      ]);
+
+      const withTest = createTestResult({ files_modified: ['src/web/routes/users.ts', 'test/unit/web/users.test.ts'] });
+      assert.ok((await evaluateCustomCriteria(withTest, criteria, workDir)).every(r => r.passed));
+
+      const unrelated = createTestResult({ files_modified: ['README.md'] });
+      const [, notApplicable] = await evaluateCustomCriteria(unrelated, criteria, workDir);
+      assert.equal(notApplicable.passed, true);
+      assert.match(notApplicable.details ?? '', /Not applicable/);
+    });
+
+    it('should run commands in the working directory with an expected exit code and timeout', async () => {
+      const result = createTestResult();
+      const [ok, wrongCode, timedOut] = await evaluateCustomCriteria(result, [
+        { id: 'has-src', name: 'src exists', check: { type: 'command', command: 'test -d src' } },
+        { id: 'fails', name: 'Fails', check: { type: 'command', command: 'echo broken >&2; exit 3', expected_exit_code: 0 } },
+        { id: 'slow', name: 'Slow', check: { type: 'command', command: 'sleep 5; echo done', timeout_ms: 100 } },
+      ], workDir);
+
+      assert.equal(ok.passed, true);
+      assert.equal(wrongCode.passed, false);
+      assert.match(wrongCode.details ?? '', /exited with 3 \(expected 0\)\nbroken/);
+      assert.equal(timedOut.passed, false);
+      assert.match(timedOut.details ?? '', /timed out after 100ms/);
+    });
+  });
+
+  describe('ReviewLoopExecutorWrapper integration', () => {
+    it('should REJECT on a failed custom criterion and pass it to the modification prompt', async () => {
+      const dirty = createTestResult({ files_modified: ['src/app.ts'], verified_files: [{ path: 'src/app.ts', exists: true }] });
+      const clean = createTestResult({ files_modified: ['src/clean.ts'], verified_files: [{ path: 'src/clean.ts', exists: true }] });
+      const executor = new SequenceExecutor([dirty, clean]);
+      const events: Array<{ type: string; content: Record<string, unknown> }> = [];
+      const wrapper = new ReviewLoopExecutorWrapper(
+        executor,
+        { retry_delay_ms: 0, custom_criteria: [NO_CONSOLE_LOG] },
+        (type, content) => events.push({ type, content })
+      );
+
+      const result = await wrapper.executeWithReview({ id: 'task-1', prompt: 'Add run()', workingDir: workDir });
+
+      assert.equal(result.final_status, 'COMPLETE');
+      assert.deepEqual(result.iteration_history.map(r => r.judgment), ['REJECT', 'PASS']);
+      assert.deepEqual(result.iteration_history[0].rejection_details?.criteria_failed, ['custom:no-console-log']);
+      assert.match(executor.prompts[1], /custom_criteria\*\*: No console\.log in src\/: \/console\\\.log\\\(\/ found in src\/app\.ts/);
+      assert.match(executor.prompts[1], /提案: Use the app logger instead of console\.log/);
+
+      const judgment = events.find(e => e.type === 'QUALITY_JUDGMENT')!;
+      assert.deepEqual(judgment.content.criteria_failed, ['custom:no-console-log']);
+    });
+  });
+
+  describe('project settings', () => {
+    it('should store validated criteria and load them without writing', async () => {
+      const storageDir = path.join(workDir, 'settings');
+      const store = new ProjectSettingsStore(storageDir);
+      await store.initialize(workDir);
+
+      await assert.rejects(
+        store.setQualityCriteria([{ ...NO_CONSOLE_LOG, id: '' }]),
+        CustomCriteriaValidationError
+      );
+      await store.setQualityCriteria([NO_CONSOLE_LOG]);
+      assert.deepEqual(store.get().qualityCriteria, [NO_CONSOLE_LOG]);
+
+      // A hand-edited invalid entry is skipped on load
+      const settingsFile = fs.readdirSync(storageDir).find(file => file !== 'index.json')!;
+      const settingsPath = path.join(storageDir, settingsFile);
+      const saved = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+      saved.qualityCriteria.push({ id: 'broken', name: 'Broken', check: { type: 'regex', target: 'output', pattern: '[' } });
+      fs.writeFileSync(settingsPath, JSON.stringify(saved));
+      const mtime = fs.statSync(settingsPath).mtimeMs;
+
+      assert.deepEqual(loadProjectQualityCriteria(workDir, storageDir), [NO_CONSOLE_LOG]);
+      assert.equal(fs.statSync(settingsPath).mtimeMs, mtime);
+      assert.deepEqual(loadProjectQualityCriteria(path.join(workDir, 'other'), storageDir), []);
+    });
+
+    it('should read and replace criteria through the settings API', async () => {
+      const storageDir = path.join(workDir, 'settings');
+      const app = express();
+      app.use(express.json());
+      app.use('/api/settings', createSettingsRoutes(path.join(workDir, 'state'), { projectRoot: workDir, projectSettingsDir: storageDir }));
+
+      assert.deepEqual((await request(app).get('/api/settings/quality-criteria').expect(200)).body, { project: workDir, criteria: [] });
+
+      const saved = await request(app).put('/api/settings/quality-criteria').send({ criteria: [NO_CONSOLE_LOG] }).expect(200);
+      assert.deepEqual(saved.body.criteria, [NO_CONSOLE_LOG]);
+      assert.deepEqual(loadProjectQualityCriteria(workDir, storageDir), [NO_CONSOLE_LOG]);
+
+      const invalid = await request(app).put('/api/settings/quality-criteria').send({ criteria: [{ id: 'x' }] }).expect(400);
+      assert.equal(invalid.body.error, 'VALIDATION_ERROR');
+      const other = path.join(workDir, 'other');
+      assert.deepEqual((await request(app).get('/api/settings/quality-criteria').query({ project: other }).expect(200)).body.criteria, []);
+    });
+  });
+});
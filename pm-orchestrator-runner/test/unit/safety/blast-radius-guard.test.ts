@@ -0,0 +1,200 @@
+/**
+ * Blast Radius Guard Tests
+ * Per spec/47_BLAST_RADIUS_HOOK.md
+ *
+ * Tests:
+ * 1. classifyToolCall() for Bash / Edit / Write calls
+ * 2. Blocked call questions round-trip, approval replies
+ * 3. Hook endpoint decisions: GREEN allow, YELLOW mediation, RED deny + approval
+ * 4. YELLOW calls without a working mediator are escalated, not allowed
+ * 5. The installed hook script forwards Claude Code's hook input from a private directory
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BlastRadiusGuard,
+  classifyToolCall,
+  formatBlockedToolCalls,
+  parseBlockedToolCalls,
+  isApprovalReply,
+  type ExecutorHookConfig,
+  type ToolCall,
+} from '../../../src/safety';
+
+const bash = (command: string): ToolCall => ({ tool_name: 'Bash', tool_input: { command } });
+
+interface HookResponse {
+  hookSpecificOutput: { hookEventName: string; permissionDecision: string; permissionDecisionReason: string };
+}
+
+async function postHook(hook: ExecutorHookConfig, call: ToolCall, token = hook.env.PM_RUNNER_HOOK_TOKEN): Promise<{ status: number; body: HookResponse }> {
+  const res = await fetch(hook.env.PM_RUNNER_HOOK_URL, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-pm-hook-token': token },
+    body: JSON.stringify(call),
+  });
+  return { status: res.status, body: await res.json() as HookResponse };
+}
+
+describe('Blast Radius Guard', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'blast-guard-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe('classifyToolCall()', () => {
+    it('should classify commands and file edits', () => {
+      assert.deepEqual(classifyToolCall(bash('npm test'), projectDir), { tool: 'Bash', target: 'npm test', radius: 'GREEN' });
+      assert.equal(classifyToolCall(bash('git push origin main'), projectDir).radius, 'YELLOW');
+      assert.equal(classifyToolCall(bash('git reset --hard HEAD~3'), projectDir).radius, 'RED');
+      assert.equal(classifyToolCall({ tool_name: 'Edit', tool_input: { file_path: path.join(projectDir, 'src/a.ts') } }, projectDir).radius, 'GREEN');
+      // Outside the project: the mediator decides
+      assert.equal(classifyToolCall({ tool_name: 'Write', tool_input: { file_path: '/tmp/elsewhere.txt' } }, projectDir).radius, 'YELLOW');
+      assert.equal(classifyToolCall({ tool_name: 'Read', tool_input: { file_path: '/etc/passwd' } }, projectDir).radius, 'GREEN');
+    });
+  });
+
+  describe('blocked call questions', () => {
+    it('should round-trip blocked calls and recognise approvals', () => {
+      const calls = [{ tool: 'Bash', target: 'git push --force "origin" main' }, { tool: 'Bash', target: 'rm -rf /\nx' }];
+      const question = formatBlockedToolCalls(calls);
+
+      assert.deepEqual(parseBlockedToolCalls(question), calls);
+      assert.deepEqual(parseBlockedToolCalls('Which database?'), []);
+      assert.deepEqual(parseBlockedToolCalls(undefined), []);
+      assert.equal(isApprovalReply('approve'), true);
+      assert.equal(isApprovalReply('Yes, go ahead'), true);
+      assert.equal(isApprovalReply('承認します'), false);
+      assert.equal(isApprovalReply('承認'), true);
+      assert.equal(isApprovalReply('no, use a new branch instead'), false);
+      assert.equal(isApprovalReply(undefined), false);
+    });
+  });
+
+  describe('hook endpoint', () => {
+    let guard: BlastRadiusGuard;
+    let yellowCalls: string[];
+
+    beforeEach(async () => {
+      yellowCalls = [];
+      guard = new BlastRadiusGuard({
+        hookDir: path.join(projectDir, 'hooks'),
+        judgeYellow: async call => {
+          yellowCalls.push(call.target);
+          return { allow: !call.target.includes('publish'), reasoning: 'publishing was not requested' };
+        },
+      });
+      await guard.start();
+    });
+
+    afterEach(async () => {
+      await guard.stop();
+    });
+
+    it('should allow GREEN, ask the mediator for YELLOW and deny RED', async () => {
+      const hook = guard.registerTask('task-1', { projectDir, prompt: 'fix the build' });
+
+      const green = await postHook(hook, bash('npm run build'));
+      assert.equal(green.status, 200);
+      assert.equal(green.body.hookSpecificOutput.hookEventName, 'PreToolUse');
+      assert.equal(green.body.hookSpecificOutput.permissionDecision, 'allow');
+
+      assert.equal((await postHook(hook, bash('git push'))).body.hookSpecificOutput.permissionDecision, 'allow');
+      const yellow = await postHook(hook, bash('npm publish'));
+      assert.equal(yellow.body.hookSpecificOutput.permissionDecision, 'deny');
+      assert.match(yellow.body.hookSpecificOutput.permissionDecisionReason, /publishing was not requested/);
+      assert.deepEqual(yellowCalls, ['git push', 'npm publish']);
+
+      const red = await postHook(hook, bash('git reset --hard'));
+      assert.equal(red.body.hookSpecificOutput.permissionDecision, 'deny');
+      assert.match(red.body.hookSpecificOutput.permissionDecisionReason, /RED blast radius/);
+      await postHook(hook, bash('git reset --hard'));
+
+      assert.deepEqual(guard.takeBlocked(hook), [{ tool: 'Bash', target: 'git reset --hard' }]);
+      assert.deepEqual(guard.takeBlocked(hook), []);
+    });
+
+    it('should allow approved RED calls and reject unknown tokens', async () => {
+      const hook = guard.registerTask('task-2', {
+        projectDir,
+        prompt: 'clean up',
+        approved: [{ tool: 'Bash', target: 'git reset --hard' }],
+      });
+
+      assert.equal((await postHook(hook, bash('git reset --hard'))).body.hookSpecificOutput.permissionDecision, 'allow');
+      assert.equal((await postHook(hook, bash('kubectl delete ns prod'))).body.hookSpecificOutput.permissionDecision, 'deny');
+      assert.equal((await postHook(hook, bash('ls'), 'bogus')).status, 403);
+
+      guard.finishTask(hook);
+      assert.equal((await postHook(hook, bash('ls'))).status, 403);
+    });
+
+    it('should escalate YELLOW calls when mediation fails or is missing', async () => {
+      const failing = new BlastRadiusGuard({
+        hookDir: path.join(projectDir, 'hooks'),
+        judgeYellow: async () => { throw new Error('No LLM provider available'); },
+      });
+      const unmediated = new BlastRadiusGuard({ hookDir: path.join(projectDir, 'hooks') });
+      await failing.start();
+      await unmediated.start();
+      try {
+        for (const g of [failing, unmediated]) {
+          const hook = g.registerTask('task-y', { projectDir, prompt: 'fix the build' });
+          const yellow = await postHook(hook, bash('git push'));
+          assert.equal(yellow.body.hookSpecificOutput.permissionDecision, 'deny');
+          assert.match(yellow.body.hookSpecificOutput.permissionDecisionReason, /YELLOW blast radius/);
+          assert.deepEqual(g.takeBlocked(hook), [{ tool: 'Bash', target: 'git push' }]);
+        }
+
+        // Once approved, the escalated call runs
+        const approved = failing.registerTask('task-y', { projectDir, prompt: 'fix the build', approved: [{ tool: 'Bash', target: 'git push' }] });
+        assert.equal((await postHook(approved, bash('git push'))).body.hookSpecificOutput.permissionDecision, 'allow');
+      } finally {
+        await failing.stop();
+        await unmediated.stop();
+      }
+    });
+
+    it('should install a hook script that forwards Claude Code hook input', async () => {
+      const hook = guard.registerTask('task-3', { projectDir, prompt: 'x' });
+      const hookDir = path.dirname(hook.settingsPath);
+      assert.equal(path.dirname(hookDir), path.join(projectDir, 'hooks'));
+      assert.match(path.basename(hookDir), /^pm-runner-hooks-.+/);
+      assert.equal(fs.statSync(hookDir).mode & 0o777, 0o700);
+      const settings = JSON.parse(fs.readFileSync(hook.settingsPath, 'utf-8'));
+      const entry = settings.hooks.PreToolUse[0];
+      assert.equal(entry.matcher, 'Bash|Edit|MultiEdit|Write');
+
+      const input = JSON.stringify({ hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: { command: 'docker rm web' }, cwd: projectDir });
+      const run = (env: Record<string, string>) => new Promise<{ status: number | null; stdout: string; stderr: string }>(resolve => {
+        // Async spawn: the guard answers on this process's event loop
+        const child = spawn('/bin/sh', ['-c', entry.hooks[0].command], { env: { ...process.env, ...env } });
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', (d: Buffer) => { stdout += d; });
+        child.stderr.on('data', (d: Buffer) => { stderr += d; });
+        child.on('close', status => resolve({ status, stdout, stderr }));
+        child.stdin.end(input);
+      });
+
+      const denied = await run(hook.env);
+      assert.equal(denied.status, 0);
+      assert.equal(JSON.parse(denied.stdout).hookSpecificOutput.permissionDecision, 'deny');
+
+      // An unreachable or rejecting guard blocks the call
+      const rejected = await run({ ...hook.env, PM_RUNNER_HOOK_TOKEN: 'bogus' });
+      assert.equal(rejected.status, 2);
+      assert.match(rejected.stderr, /rejected/);
+    });
+  });
+});
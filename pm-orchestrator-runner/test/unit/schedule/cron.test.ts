@@ -0,0 +1,65 @@
+/**
+ * Cron Expression Parser Tests
+ * Per spec/38_SCHEDULED_TASKS.md Section 4
+ */
+
+import { describe, it } from 'mocha';
+import { strict as assert } from 'assert';
+import {
+  parseCronExpression,
+  isValidCronExpression,
+  getNextCronRun,
+  CronParseError,
+} from '../../../src/schedule/cron';
+
+/** Local-time date helper (cron is evaluated in the runner's local time) */
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('cron', () => {
+  describe('parseCronExpression', () => {
+    it('should expand lists, ranges and steps', () => {
+      const parsed = parseCronExpression('*/15 9-17 1,15 * mon-fri');
+      assert.deepEqual([...parsed.minutes], [0, 15, 30, 45]);
+      assert.deepEqual([...parsed.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      assert.deepEqual([...parsed.daysOfMonth], [1, 15]);
+      assert.equal(parsed.months.size, 12);
+      assert.deepEqual([...parsed.daysOfWeek], [1, 2, 3, 4, 5]);
+    });
+
+    it('should expand macros and map weekday 7 to Sunday', () => {
+      const daily = parseCronExpression('@daily');
+      assert.deepEqual([...daily.minutes], [0]);
+      assert.deepEqual([...daily.hours], [0]);
+      assert.deepEqual([...parseCronExpression('0 0 * * 7').daysOfWeek], [0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      for (const expr of ['', '* * * *', '60 * * * *', '* * * * * *', '*/0 * * * *', '5-1 * * * *', 'x * * * *']) {
+        assert.throws(() => parseCronExpression(expr), CronParseError, expr);
+        assert.equal(isValidCronExpression(expr), false);
+      }
+    });
+  });
+
+  describe('getNextCronRun', () => {
+    it('should return the next matching minute strictly after the given time', () => {
+      assert.deepEqual(getNextCronRun('0 8 * * *', local(2026, 3, 10, 7, 59)), local(2026, 3, 10, 8, 0));
+      assert.deepEqual(getNextCronRun('0 8 * * *', local(2026, 3, 10, 8, 0)), local(2026, 3, 11, 8, 0));
+    });
+
+    it('should roll over months and years', () => {
+      assert.deepEqual(getNextCronRun('@monthly', local(2026, 12, 15, 12, 0)), local(2027, 1, 1, 0, 0));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 2026-03-02 is a Monday; the 13th comes later
+      assert.deepEqual(getNextCronRun('0 9 13 * mon', local(2026, 3, 1, 10, 0)), local(2026, 3, 2, 9, 0));
+    });
+
+    it('should return null for expressions that never fire', () => {
+      assert.equal(getNextCronRun('0 0 30 2 *', local(2026, 1, 1)), null);
+    });
+  });
+});
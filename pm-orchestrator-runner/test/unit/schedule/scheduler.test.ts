@@ -0,0 +1,199 @@
+/**
+ * Scheduler Tests
+ * Per spec/38_SCHEDULED_TASKS.md Sections 3 and 5
+ *
+ * Tests:
+ * 1. ScheduleStore validates and persists definitions
+ * 2. A due slot enqueues a task and is recorded in history
+ * 3. Missed slots follow the catch_up policy (skip / once / all)
+ * 4. runNow() enqueues without moving next_run_at
+ * 5. Template schedules wrap the prompt and fail closed on unknown templates
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import { TemplateStore } from '../../../src/template';
+import {
+  Scheduler,
+  ScheduleStore,
+  ScheduleValidationError,
+} from '../../../src/schedule';
+
+/** Local-time date helper (cron is evaluated in the runner's local time) */
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('Scheduler', () => {
+  let tmpDir: string;
+  let store: ScheduleStore;
+  let queueStore: InMemoryQueueStore;
+  let clock: Date;
+
+  function createScheduler(templateStore?: TemplateStore): Scheduler {
+    return new Scheduler({ store, queueStore, sessionId: 'sched-session', templateStore, now: () => clock });
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-test-'));
+    store = new ScheduleStore({ stateDir: tmpDir });
+    queueStore = new InMemoryQueueStore({ namespace: 'sched-test' });
+    clock = local(2026, 3, 10, 7, 0);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('ScheduleStore', () => {
+    it('should persist schedules with defaults and next_run_at', async () => {
+      const created = await store.create({ name: 'deps', cron: '0 8 * * *', prompt: 'update deps report' }, clock);
+
+      assert.equal(created.enabled, true);
+      assert.equal(created.catch_up, 'once');
+      assert.equal(created.next_run_at, local(2026, 3, 10, 8, 0).toISOString());
+
+      const reloaded = new ScheduleStore({ stateDir: tmpDir });
+      assert.deepEqual(await reloaded.get(created.schedule_id), created);
+    });
+
+    it('should reject invalid cron and missing prompt', async () => {
+      await assert.rejects(
+        store.create({ name: 'bad', cron: '61 * * * *', prompt: 'x' }),
+        ScheduleValidationError
+      );
+      await assert.rejects(
+        store.create({ name: 'empty', cron: '@daily' }),
+        (err: unknown) => err instanceof ScheduleValidationError && err.message.includes('prompt or template_id')
+      );
+    });
+
+    it('should clear next_run_at when disabled and recompute it when re-enabled', async () => {
+      const created = await store.create({ name: 'deps', cron: '0 8 * * *', prompt: 'p' }, clock);
+      const disabled = await store.update(created.schedule_id, { enabled: false }, clock);
+      assert.equal(disabled?.next_run_at, null);
+
+      const later = local(2026, 3, 12, 9, 0);
+      const enabled = await store.update(created.schedule_id, { enabled: true }, later);
+      assert.equal(enabled?.next_run_at, local(2026, 3, 13, 8, 0).toISOString());
+    });
+  });
+
+  describe('tick()', () => {
+    it('should enqueue a due schedule and record the produced task_id', async () => {
+      const created = await store.create(
+        { name: 'todos', cron: '0 8 * * *', prompt: 'summarize open TODOs', project_path: '/proj/a', task_type: 'REPORT' },
+        clock
+      );
+      const scheduler = createScheduler();
+
+      assert.deepEqual(await scheduler.tick(), []);
+
+      clock = local(2026, 3, 10, 8, 0);
+      const runs = await scheduler.tick();
+      assert.equal(runs.length, 1);
+      assert.equal(runs[0].outcome, 'ENQUEUED');
+      assert.equal(runs[0].catch_up, false);
+
+      const item = await queueStore.getItem(runs[0].task_id!);
+      assert.equal(item?.prompt, 'summarize open TODOs');
+      assert.equal(item?.task_type, 'REPORT');
+      assert.equal(item?.project_path, '/proj/a');
+      assert.equal(item?.task_group_id, `schedule-${created.schedule_id}`);
+
+      const updated = await store.get(created.schedule_id);
+      assert.equal(updated?.next_run_at, local(2026, 3, 11, 8, 0).toISOString());
+      assert.equal(updated?.last_run_at, clock.toISOString());
+      assert.deepEqual((await store.getHistory(created.schedule_id)).map(r => r.task_id), [runs[0].task_id]);
+    });
+
+    it('should enqueue only the latest missed slot under catch_up=once', async () => {
+      const created = await store.create({ name: 'deps', cron: '0 8 * * *', prompt: 'p', catch_up: 'once' }, clock);
+      clock = local(2026, 3, 13, 12, 0);
+
+      const runs = await createScheduler().tick();
+
+      assert.deepEqual(runs.map(r => r.outcome), ['SKIPPED', 'ENQUEUED']);
+      assert.equal(runs[0].skipped_count, 3);
+      assert.equal(runs[1].catch_up, true);
+      assert.equal(runs[1].scheduled_for, local(2026, 3, 13, 8, 0).toISOString());
+      assert.equal((await queueStore.getAllItems()).length, 1);
+      assert.equal((await store.get(created.schedule_id))?.next_run_at, local(2026, 3, 14, 8, 0).toISOString());
+    });
+
+    it('should enqueue nothing for missed slots under catch_up=skip', async () => {
+      await store.create({ name: 'deps', cron: '0 8 * * *', prompt: 'p', catch_up: 'skip' }, clock);
+      clock = local(2026, 3, 13, 12, 0);
+
+      const runs = await createScheduler().tick();
+
+      assert.deepEqual(runs.map(r => r.outcome), ['SKIPPED']);
+      assert.equal(runs[0].skipped_count, 4);
+      assert.equal((await queueStore.getAllItems()).length, 0);
+    });
+
+    it('should enqueue every missed slot under catch_up=all, capped by maxCatchUpRuns', async () => {
+      await store.create({ name: 'hourly', cron: '@hourly', prompt: 'p', catch_up: 'all' }, clock);
+      clock = local(2026, 3, 10, 12, 30);
+
+      const scheduler = new Scheduler({ store, queueStore, sessionId: 's', maxCatchUpRuns: 3, now: () => clock });
+      const runs = await scheduler.tick();
+
+      assert.deepEqual(runs.map(r => r.outcome), ['SKIPPED', 'ENQUEUED', 'ENQUEUED', 'ENQUEUED']);
+      assert.equal(runs[0].skipped_count, 2);
+      assert.deepEqual(
+        runs.slice(1).map(r => r.scheduled_for),
+        [10, 11, 12].map(h => local(2026, 3, 10, h, 0).toISOString())
+      );
+    });
+
+    it('should ignore disabled schedules', async () => {
+      await store.create({ name: 'off', cron: '* * * * *', prompt: 'p', enabled: false }, clock);
+      clock = local(2026, 3, 10, 9, 0);
+
+      assert.deepEqual(await createScheduler().tick(), []);
+    });
+  });
+
+  describe('runNow()', () => {
+    it('should enqueue immediately without moving next_run_at', async () => {
+      const created = await store.create({ name: 'deps', cron: '0 8 * * *', prompt: 'p' }, clock);
+      const run = await createScheduler().runNow(created.schedule_id);
+
+      assert.equal(run?.outcome, 'ENQUEUED');
+      assert.equal(run?.manual, true);
+      assert.equal((await store.get(created.schedule_id))?.next_run_at, created.next_run_at);
+      assert.equal(await createScheduler().runNow('missing'), null);
+    });
+  });
+
+  describe('templates', () => {
+    it('should wrap the prompt with the template rules and output format', async () => {
+      const templateStore = new TemplateStore({ storageDir: tmpDir, initBuiltins: false });
+      await templateStore.initialize();
+      const template = await templateStore.create('nightly', 'Only read files', 'Markdown table');
+      const created = await store.create({ name: 't', cron: '@daily', template_id: template.id, prompt: 'list TODOs' }, clock);
+
+      const run = await createScheduler(templateStore).runNow(created.schedule_id);
+      const item = await queueStore.getItem(run!.task_id!);
+
+      assert.ok(item?.prompt.includes('Only read files'));
+      assert.ok(item?.prompt.includes('list TODOs'));
+      assert.ok(item?.prompt.includes('Markdown table'));
+    });
+
+    it('should record an ERROR run when the template cannot be resolved', async () => {
+      const created = await store.create({ name: 't', cron: '@daily', template_id: 'missing' }, clock);
+
+      const run = await createScheduler().runNow(created.schedule_id);
+
+      assert.equal(run?.outcome, 'ERROR');
+      assert.ok(run?.error?.includes('missing'));
+      assert.equal((await queueStore.getAllItems()).length, 0);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * File -> SQLite Migration Tests
+ * Per spec/20_QUEUE_STORE.md (SQLite ストア)
+ *
+ * Tests:
+ * 1. FileQueueStore tasks, runners and group statuses are imported
+ * 2. NoDynamo projects, sessions, runs, events, activity and conversations are imported
+ * 3. Re-running the migration does not duplicate or overwrite rows
+ * 4. SQLiteDAL reads the imported records through the IDataAccessLayer API
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileQueueStore } from '../../../src/queue/file-queue-store';
+import { SQLiteQueueStore } from '../../../src/queue/sqlite-queue-store';
+import { NoDynamoDALWithConversations } from '../../../src/web/dal/no-dynamo';
+import { SQLiteDAL } from '../../../src/web/dal/sqlite-dal';
+import { migrateFileStateToSqlite } from '../../../src/storage';
+
+describe('migrateFileStateToSqlite', () => {
+  let tmpDir: string;
+
+  async function seedFileState(): Promise<{ taskId: string; projectId: string; runId: string }> {
+    const queue = new FileQueueStore({ namespace: 'mig-test', stateDir: tmpDir });
+    await queue.ensureTable();
+    const item = await queue.enqueue('s1', 'g1', 'migrate me');
+    await queue.updateStatus(item.task_id, 'RUNNING');
+    await queue.updateStatus(item.task_id, 'COMPLETE', undefined, 'done');
+    await queue.enqueue('s1', 'g2', 'archived group');
+    await queue.setTaskGroupArchived('g2', true);
+    await queue.updateRunnerHeartbeat('runner-1', '/tmp/project');
+    queue.destroy();
+
+    const dal = new NoDynamoDALWithConversations({ stateDir: tmpDir, orgId: 'org-1' });
+    const project = await dal.createProjectIndex({ orgId: 'org-1', projectPath: '/tmp/project', alias: 'Demo' });
+    const session = await dal.createSession({ orgId: 'org-1', projectPath: '/tmp/project', projectId: project.projectId });
+    const run = await dal.createRun({ sessionId: session.sessionId, projectId: project.projectId, taskRunId: item.task_id });
+    await dal.recordEvent({ runId: run.runId, type: 'STARTED', message: 'started' });
+    await dal.createActivityEvent({ orgId: 'org-1', type: 'task_completed', projectId: project.projectId, summary: 'done' });
+    await dal.createConversationMessage({ projectId: project.projectId, role: 'user', content: 'hello' });
+
+    return { taskId: item.task_id, projectId: project.projectId, runId: run.runId };
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-migration-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should import queue state into the SQLite queue store', async () => {
+    const { taskId } = await seedFileState();
+
+    const report = await migrateFileStateToSqlite({ stateDir: tmpDir, orgId: 'org-1' });
+
+    assert.equal(report.dbPath, path.join(tmpDir, 'pm-runner.sqlite'));
+    assert.deepEqual(report.queue, { tasks: 2, skippedTasks: 0, runners: 1, groupStatuses: 1 });
+
+    const store = new SQLiteQueueStore({ namespace: 'mig-test', stateDir: tmpDir });
+    try {
+      const item = await store.getItem(taskId);
+      assert.equal(item?.status, 'COMPLETE');
+      assert.equal(item?.output, 'done');
+      assert.deepEqual((await store.getAllRunners()).map(r => r.runner_id), ['runner-1']);
+      const groups = await store.getAllTaskGroups();
+      assert.equal(groups.find(g => g.task_group_id === 'g2')?.group_status, 'archived');
+    } finally {
+      store.destroy();
+    }
+  });
+
+  it('should import NoDynamo records readable through SQLiteDAL', async () => {
+    const { projectId, runId } = await seedFileState();
+
+    const report = await migrateFileStateToSqlite({ stateDir: tmpDir, orgId: 'org-1' });
+
+    assert.equal(report.dal.project, 1);
+    assert.equal(report.dal.session, 1);
+    assert.equal(report.dal.run, 1);
+    assert.equal(report.dal.event, 1);
+    assert.equal(report.dal.activity, 1);
+    assert.equal(report.dal.conversation, 1);
+
+    const dal = new SQLiteDAL({ stateDir: tmpDir, orgId: 'org-1' });
+    try {
+      assert.equal((await dal.getProjectIndexByPath('/tmp/project'))?.alias, 'Demo');
+      assert.equal((await dal.getRun(runId))?.projectId, projectId);
+      assert.deepEqual((await dal.listEvents(runId)).map(e => e.message), ['started']);
+      assert.equal((await dal.listActivityEvents({ orgId: 'org-1' })).items.length, 1);
+      assert.deepEqual((await dal.listConversationMessages(projectId)).map(m => m.content), ['hello']);
+    } finally {
+      dal.close();
+    }
+  });
+
+  it('should skip rows that already exist when re-run', async () => {
+    await seedFileState();
+    await migrateFileStateToSqlite({ stateDir: tmpDir, orgId: 'org-1' });
+
+    const again = await migrateFileStateToSqlite({ stateDir: tmpDir, orgId: 'org-1' });
+
+    assert.equal(again.queue.tasks, 0);
+    assert.equal(again.queue.skippedTasks, 2);
+    assert.equal(again.queue.runners, 0);
+    assert.ok(Object.values(again.dal).every(count => count === 0));
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Trace Replay Tests
+ * Per spec/44_TRACE_REPLAY.md Section 4
+ *
+ * Tests:
+ * 1. replayTraceDir() re-judges each stream trace through the review loop
+ * 2. Differences against the recorded conversation trace are reported
+ * 3. Project-defined criteria are judged with the recorded definitions and results
+ * 4. formatReplayReport() and error cases
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { replayTraceDir, formatReplayReport } from '../../../src/trace/trace-replay';
+
+const jsonl = (...events: object[]): string => events.map(event => JSON.stringify(event)).join('\n') + '\n';
+
+const writeRun = (content: string): object => ({
+  type: 'assistant',
+  message: { content: [{ type: 'tool_use', name: 'Write', input: { file_path: 'src/app.ts', content } }] },
+});
+
+const conversation = (taskId: string, ...entries: Array<{ event: string; data: object; iteration_index?: number; subtask_id?: string }>): string =>
+  jsonl(...entries.map(entry => ({ timestamp: '2026-10-19T00:00:00.000Z', session_id: 's1', task_id: taskId, ...entry })));
+
+describe('Trace Replay', () => {
+  let traceDir: string;
+
+  beforeEach(() => {
+    traceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trace-replay-'));
+
+    // Recorded as PASS on the first iteration, but the first run left a TODO behind
+    fs.writeFileSync(path.join(traceDir, 'stream-task-todo.jsonl'), jsonl(
+      { type: 'user_message', content: 'Implement the app entry point' },
+      writeRun('// TODO: implement app'),
+      { type: 'result', result: 'Created src/app.ts' },
+      { type: 'separator' },
+      writeRun('export const app = () => 1;'),
+      { type: 'result', result: 'Implemented src/app.ts' },
+    ));
+    fs.writeFileSync(path.join(traceDir, 'conversation-task-todo-2026-10-19T00-00-00-000Z.jsonl'), conversation('task-todo',
+      { event: 'LLM_RESPONSE', data: { output: 'Created src/app.ts', status: 'COMPLETE', files_modified: ['src/app.ts'] }, iteration_index: 0 },
+      { event: 'QUALITY_JUDGMENT', data: { judgment: 'PASS', criteria_results: [] }, iteration_index: 0 },
+      { event: 'FINAL_SUMMARY', data: { status: 'PASS', total_iterations: 1, files_modified: ['src/app.ts'] } },
+    ));
+
+    fs.writeFileSync(path.join(traceDir, 'stream-task-same.jsonl'), jsonl(
+      { type: 'user_message', content: 'Implement the app entry point' },
+      writeRun('export const app = () => 2;'),
+      { type: 'result', result: 'Implemented src/app.ts' },
+    ));
+    fs.writeFileSync(path.join(traceDir, 'conversation-task-same-2026-10-19T00-00-00-000Z.jsonl'), conversation('task-same',
+      { event: 'LLM_RESPONSE', data: { output: 'Implemented src/app.ts', status: 'COMPLETE', files_modified: ['src/app.ts'] }, iteration_index: 0 },
+      { event: 'QUALITY_JUDGMENT', data: { judgment: 'PASS', criteria_results: [] }, iteration_index: 0 },
+      // Subtask-level entries are not review iterations
+      { event: 'LLM_RESPONSE', data: { output: 'subtask', status: 'ERROR', files_modified: [] }, subtask_id: 'sub-1' },
+      { event: 'FINAL_SUMMARY', data: { status: 'PASS', total_iterations: 1, files_modified: ['src/app.ts'] } },
+    ));
+  });
+
+  afterEach(() => {
+    fs.rmSync(traceDir, { recursive: true, force: true });
+  });
+
+  it('should replay every stream trace and report verdict differences', async () => {
+    const report = await replayTraceDir(traceDir);
+
+    assert.equal(report.tasks.length, 2);
+    assert.equal(report.changed, 1);
+
+    const same = report.tasks.find(task => task.task_id === 'task-same')!;
+    assert.deepEqual(same.differences, []);
+    assert.deepEqual(same.recorded?.executor_statuses, ['COMPLETE']);
+
+    const todo = report.tasks.find(task => task.task_id === 'task-todo')!;
+    assert.equal(todo.runs, 2);
+    assert.equal(todo.executor_calls, 2);
+    assert.deepEqual(todo.replayed.judgments, ['REJECT', 'PASS']);
+    assert.equal(todo.replayed.final_status, 'PASS');
+    assert.deepEqual(todo.differences, [
+      'iteration 1 (status/judgment): COMPLETE/PASS -> COMPLETE/REJECT',
+      'iteration 2 (status/judgment): -/- -> COMPLETE/PASS',
+    ]);
+  });
+
+  it('should apply review loop overrides and run question detection', async () => {
+    fs.writeFileSync(path.join(traceDir, 'stream-task-question.jsonl'), jsonl(
+      { type: 'user_message', content: 'What does the config loader do?' },
+      { type: 'result', result: 'It reads config.json. Would you like me to check the environment overrides as well?' },
+    ));
+
+    const report = await replayTraceDir(traceDir, { taskId: 'task-todo', reviewLoop: { max_iterations: 1 } });
+    assert.equal(report.tasks.length, 1);
+    assert.equal(report.tasks[0].replayed.final_status, 'ESCALATE');
+
+    const question = (await replayTraceDir(traceDir, { taskId: 'task-question' })).tasks[0];
+    assert.equal(question.recorded, null);
+    assert.deepEqual(question.differences, []);
+    assert.equal(question.replayed.has_questions, true);
+  });
+
+  it('should judge project-defined criteria with the results recorded in the trace', async () => {
+    // A command criterion that fails in today's tree passed when the task ran
+    const criteria = [{ id: 'typecheck', name: 'Typecheck', check: { type: 'command', command: 'exit 1' } }];
+    fs.writeFileSync(path.join(traceDir, 'stream-task-criteria.jsonl'), jsonl(
+      { type: 'user_message', content: 'Implement the app entry point' },
+      writeRun('export const app = () => 3;'),
+      { type: 'result', result: 'Implemented src/app.ts' },
+      { type: 'llm_processing', action: 'custom_criteria', criteria, results: [{ criteria_id: 'custom:typecheck', name: 'Typecheck', passed: true }] },
+    ));
+
+    const recorded = (await replayTraceDir(traceDir, { taskId: 'task-criteria' })).tasks[0];
+    assert.deepEqual(recorded.replayed.judgments, ['PASS']);
+
+    // Explicit criteria are evaluated instead
+    const evaluated = (await replayTraceDir(traceDir, {
+      taskId: 'task-criteria',
+      reviewLoop: { max_iterations: 1, custom_criteria: criteria as never },
+    })).tasks[0];
+    assert.deepEqual(evaluated.replayed.judgments, ['REJECT']);
+  });
+
+  it('should format a text report', async () => {
+    const text = formatReplayReport(await replayTraceDir(traceDir));
+
+    assert.match(text, /\[CHANGED\] task-todo/);
+    assert.match(text, /\[SAME\] task-same/);
+    assert.match(text, /2 task\(s\), 1 changed/);
+  });
+
+  it('should reject missing directories and unknown tasks', async () => {
+    await assert.rejects(replayTraceDir(path.join(traceDir, 'missing')), /Trace directory not found/);
+    await assert.rejects(replayTraceDir(traceDir, { taskId: 'nope' }), /No stream trace for task nope/);
+  });
+});
@@ -9,6 +9,10 @@ import {
   detectQuestions,
   hasUnansweredQuestions,
   determineCompletionStatus,
+  judgeYellowToolCall,
+  peekPendingUsage,
+  runWithLlmTaskContext,
+  setLlmBudgetGate,
   QuestionDetectionResult,
 } from '../../../src/utils/question-detector';
 
@@ -352,4 +356,25 @@ describe('Question Detector', () => {
       });
     });
   });
+
+  describe('runWithLlmTaskContext', () => {
+    it('should keep budget gates of concurrent tasks apart', async () => {
+      const calls: string[] = [];
+      const runTask = (name: string) => runWithLlmTaskContext(async () => {
+        setLlmBudgetGate(async () => {
+          calls.push(name);
+          return false;
+        });
+        // Let the other task install its gate before this one calls the LLM
+        await new Promise(resolve => setImmediate(resolve));
+        // A refused call counts as no provider, which the judge reports by throwing
+        await assert.rejects(judgeYellowToolCall('Bash', 'git push', 'deploy'), /No LLM provider/);
+        return peekPendingUsage();
+      });
+
+      const [a, b] = await Promise.all([runTask('a'), runTask('b')]);
+      assert.deepStrictEqual(calls.sort(), ['a', 'b']);
+      assert.deepStrictEqual([a, b], [[], []]);
+    });
+  });
 });
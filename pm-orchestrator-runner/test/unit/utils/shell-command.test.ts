@@ -0,0 +1,29 @@
+/**
+ * Shell Command Runner Tests
+ * Tests for src/utils/shell-command.ts
+ */
+
+import { describe, it } from 'mocha';
+import { strict as assert } from 'assert';
+import * as os from 'os';
+import { runShellCommand } from '../../../src/utils/shell-command';
+
+describe('runShellCommand', () => {
+  const cwd = os.tmpdir();
+
+  it('should return the exit code and the output tail', async () => {
+    const result = await runShellCommand('echo one; echo two >&2; exit 3', { cwd, timeoutMs: 5000, maxOutputChars: 6 });
+    assert.equal(result.exitCode, 3);
+    assert.equal(result.timedOut, false);
+    assert.equal(result.output.length <= 6, true);
+    assert.match(result.output, /two/);
+  });
+
+  it('should escalate to SIGKILL when the command ignores SIGTERM', async () => {
+    const startedAt = Date.now();
+    const result = await runShellCommand("trap '' TERM; sleep 30", { cwd, timeoutMs: 100, maxOutputChars: 100, killGraceMs: 200 });
+    assert.equal(result.timedOut, true);
+    assert.equal(result.exitCode, null);
+    assert.ok(Date.now() - startedAt < 5000);
+  });
+});
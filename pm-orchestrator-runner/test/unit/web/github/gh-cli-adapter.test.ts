@@ -227,4 +227,38 @@ describe("GhCliGitHubAdapter", () => {
       assert.ok(executedCalls[0].args.includes("api"));
     });
   });
+
+  // ==================== createPullRequest ====================
+
+  describe("createPullRequest", () => {
+    it("posts raw fields and returns the created PR", async () => {
+      const ghOutput = JSON.stringify({
+        number: 43,
+        title: "Add feature",
+        html_url: "https://github.com/test-owner/test-repo/pull/43",
+        base: { ref: "main" },
+        head: { ref: "feature/tg-1" },
+        state: "open",
+        user: { login: "runner" },
+        created_at: "2026-10-19T10:00:00Z",
+      });
+
+      adapter = new GhCliGitHubAdapter(createMockExecutor(ghOutput));
+
+      const result = await adapter.createPullRequest(OWNER, REPO, {
+        title: "Add feature",
+        body: "@not-a-file",
+        head: "feature/tg-1",
+        base: "main",
+      });
+
+      assert.equal(result.number, 43);
+      assert.equal(result.headBranch, "feature/tg-1");
+      assert.equal(result.repository, "test-owner/test-repo");
+      const args = executedCalls[0].args;
+      assert.equal(args[1], "repos/test-owner/test-repo/pulls");
+      assert.equal(args[args.indexOf("body=@not-a-file") - 1], "--raw-field");
+      assert.ok(args.includes("draft=false"));
+    });
+  });
 });
@@ -52,6 +52,9 @@ function createMockGitHub(overrides: Partial<IGitHubAdapter> = {}): IGitHubAdapt
     listPRIssueComments: async () => [],
     replyToComment: async () => {},
     createIssueComment: async () => {},
+    createPullRequest: async () => {
+      throw new Error("createPullRequest not mocked");
+    },
     ...overrides,
   };
 }
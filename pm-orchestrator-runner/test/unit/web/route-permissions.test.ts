@@ -0,0 +1,166 @@
+/**
+ * Route Permissions Tests
+ * Per spec/41_ROUTE_PERMISSIONS.md
+ *
+ * Tests:
+ * 1. Every route listed by /api/routes has an explicit permission rule
+ * 2. Role permissions are enforced after API key auth
+ * 3. Keys limited to project paths only see their projects' tasks
+ * 4. GET /api/me/permissions reports role, permissions and scope
+ */
+
+import { describe, it, beforeEach } from 'mocha';
+import { strict as assert } from 'assert';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../../src/web/server';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
+import type { ApiKey } from '../../../src/auth/api-key-manager';
+import {
+  ROUTE_PERMISSIONS,
+  isProjectPathAllowed,
+  resolveRoutePermission,
+} from '../../../src/web/middleware/permissions';
+
+const NAMESPACE = 'perm-test';
+
+function apiKey(key: string, overrides: Partial<ApiKey> = {}): ApiKey {
+  const now = new Date().toISOString();
+  return { key, userId: 'u1', deviceName: 'd1', createdAt: now, lastUsedAt: now, isActive: true, ...overrides };
+}
+
+describe('Route Permissions', () => {
+  describe('resolveRoutePermission', () => {
+    it('should have an explicit rule for every route listed by /api/routes', async () => {
+      const app = createApp({
+        queueStore: new InMemoryQueueStore({ namespace: NAMESPACE }),
+        sessionId: 's1',
+        namespace: NAMESPACE,
+        projectRoot: '/tmp/perm-project',
+      });
+      const res = await request(app).get('/api/routes').expect(200);
+
+      const unmapped = (res.body.routes as string[]).filter(route => {
+        const [method, routePath] = route.split(' ');
+        const rule = resolveRoutePermission(method, routePath.replace(/:(\w+)/g, '$1-value'));
+        return !ROUTE_PERMISSIONS.includes(rule);
+      });
+
+      assert.deepEqual(unmapped, []);
+    });
+
+    it('should fail closed for unmapped routes', () => {
+      assert.equal(resolveRoutePermission('GET', '/api/unknown').permission, 'read');
+      assert.equal(resolveRoutePermission('POST', '/api/unknown').permission, 'system');
+      assert.equal(resolveRoutePermission('POST', '/api/projects/p1/dev/git/push').permission, 'system');
+      assert.equal(resolveRoutePermission('HEAD', '/api/tasks/t1').permission, 'read');
+    });
+  });
+
+  describe('isProjectPathAllowed', () => {
+    it('should allow the scope paths and their subdirectories only', () => {
+      assert.equal(isProjectPathAllowed(undefined, undefined), true);
+      assert.equal(isProjectPathAllowed(['/work/app'], '/work/app'), true);
+      assert.equal(isProjectPathAllowed(['/work/app/'], '/work/app/packages/web'), true);
+      assert.equal(isProjectPathAllowed(['/work/app'], '/work/app-other'), false);
+      assert.equal(isProjectPathAllowed(['/work/app'], undefined), false);
+    });
+  });
+
+  describe('with API key auth', () => {
+    let app: Express;
+    let store: InMemoryQueueStore;
+    const keys = new Map<string, ApiKey>([
+      ['pmr_admin', apiKey('pmr_admin', { role: 'admin' })],
+      ['pmr_legacy', apiKey('pmr_legacy')],
+      ['pmr_viewer', apiKey('pmr_viewer', { role: 'viewer' })],
+      ['pmr_guest', apiKey('pmr_guest', { role: 'guest' })],
+      ['pmr_scoped', apiKey('pmr_scoped', { role: 'admin', projectPaths: ['/work/app'] })],
+    ]);
+
+    beforeEach(() => {
+      store = new InMemoryQueueStore({ namespace: NAMESPACE });
+      app = createApp({
+        queueStore: store,
+        sessionId: 's1',
+        namespace: NAMESPACE,
+        projectRoot: '/work/runner',
+        authConfig: {
+          enabled: true,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          apiKeyManager: { validateApiKey: async (key: string) => keys.get(key) ?? null } as any,
+        },
+      });
+    });
+
+    it('should let viewers read but not enqueue tasks or kill processes', async () => {
+      await request(app).get('/api/task-groups').set('x-api-key', 'pmr_viewer').expect(200);
+
+      const enqueue = await request(app).post('/api/tasks').set('x-api-key', 'pmr_viewer')
+        .send({ task_group_id: 'g1', prompt: 'do it' }).expect(403);
+      assert.equal(enqueue.body.error, 'FORBIDDEN');
+      assert.equal(enqueue.body.requiredPermission, 'write');
+      assert.equal(enqueue.body.currentRole, 'viewer');
+
+      const kill = await request(app).post('/api/system/processes/123/kill').set('x-api-key', 'pmr_viewer').expect(403);
+      assert.equal(kill.body.requiredPermission, 'system');
+    });
+
+    it('should give keys without a role full access', async () => {
+      await request(app).post('/api/tasks').set('x-api-key', 'pmr_legacy')
+        .send({ task_group_id: 'g1', prompt: 'do it' }).expect(201);
+    });
+
+    it('should refuse guests everything but their own permissions', async () => {
+      await request(app).get('/api/task-groups').set('x-api-key', 'pmr_guest').expect(403);
+
+      const res = await request(app).get('/api/me/permissions').set('x-api-key', 'pmr_guest').expect(200);
+      assert.equal(res.body.role, 'guest');
+      assert.deepEqual(res.body.permissions, []);
+    });
+
+    it('should hide tasks outside the key scope', async () => {
+      const inside = await store.enqueue('s1', 'g-in', 'inside', undefined, 'IMPLEMENTATION', '/work/app');
+      const outside = await store.enqueue('s1', 'g-out', 'outside', undefined, 'IMPLEMENTATION', '/work/other');
+
+      await request(app).get(`/api/tasks/${inside.task_id}`).set('x-api-key', 'pmr_scoped').expect(200);
+      await request(app).get(`/api/tasks/${outside.task_id}`).set('x-api-key', 'pmr_scoped').expect(404);
+      await request(app).post(`/api/tasks/${outside.task_id}/reply`).set('x-api-key', 'pmr_scoped')
+        .send({ reply: 'yes' }).expect(404);
+      await request(app).get('/api/task-groups/g-out/tasks').set('x-api-key', 'pmr_scoped').expect(404);
+      await request(app).get(`/api/tasks/${outside.task_id}`).set('x-api-key', 'pmr_admin').expect(200);
+    });
+
+    it('should refuse scoped keys cross-project routes and enqueueing outside the scope', async () => {
+      const runners = await request(app).get('/api/runners').set('x-api-key', 'pmr_scoped').expect(403);
+      assert.match(runners.body.message, /limited to projects/);
+
+      // POST /api/tasks enqueues into the server project root (/work/runner)
+      await request(app).post('/api/tasks').set('x-api-key', 'pmr_scoped')
+        .send({ task_group_id: 'g1', prompt: 'do it' }).expect(403);
+    });
+
+    it('should report role, permissions and scope', async () => {
+      const res = await request(app).get('/api/me/permissions').set('x-api-key', 'pmr_scoped').expect(200);
+
+      assert.equal(res.body.auth_enabled, true);
+      assert.equal(res.body.role, 'admin');
+      assert.ok(res.body.permissions.includes('system'));
+      assert.deepEqual(res.body.project_paths, ['/work/app']);
+    });
+  });
+
+  it('should report admin access when auth is not configured', async () => {
+    const app = createApp({
+      queueStore: new InMemoryQueueStore({ namespace: NAMESPACE }),
+      sessionId: 's1',
+      namespace: NAMESPACE,
+    });
+
+    const res = await request(app).get('/api/me/permissions').expect(200);
+
+    assert.equal(res.body.auth_enabled, false);
+    assert.equal(res.body.role, 'admin');
+    assert.equal(res.body.project_paths, null);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Audit Routes / Middleware Tests
+ * Per spec/42_AUDIT_LOG.md
+ *
+ * Tests:
+ * - Mutating requests are recorded with actor, route pattern, targets and result
+ * - Secrets in the request body are redacted; GET requests are not recorded
+ * - GET /api/audit filters, /export returns JSONL, /verify checks the chain
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import express, { Router } from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, apiKeyFingerprint } from '../../../../src/audit';
+import { createAuditMiddleware } from '../../../../src/web/middleware/audit';
+import { createAuditRoutes } from '../../../../src/web/routes/audit';
+import type { AuthenticatedRequest } from '../../../../src/web/middleware/auth';
+
+/** Let the response 'finish' handlers run */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Audit Routes', () => {
+  let tmpDir: string;
+  let auditLog: AuditLog;
+  let app: express.Express;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-routes-'));
+    auditLog = new AuditLog({ stateDir: tmpDir });
+    app = express();
+    app.use(express.json());
+    app.use('/api', createAuditMiddleware(auditLog, { authEnabled: true }));
+    app.use('/api', (req, res, next) => {
+      if (req.get('x-api-key') !== 'pmr_0123456789abcdef') {
+        res.status(401).json({ error: 'API key required.' });
+        return;
+      }
+      const authReq = req as AuthenticatedRequest;
+      authReq.userId = 'masa';
+      authReq.deviceName = 'iphone';
+      authReq.role = 'admin';
+      next();
+    });
+    app.patch('/api/tasks/:task_id/status', (req, res) => {
+      res.locals.auditBefore = { status: 'RUNNING' };
+      res.json({ task_id: req.params.task_id, status: req.body.status });
+    });
+    const hooks = Router();
+    hooks.put('/:scope/:event', (_req, res) => {
+      res.status(400).json({ error: 'VALIDATION_ERROR', message: 'hooks must be an array' });
+    });
+    app.use('/api/claude-hooks', hooks);
+    app.get('/api/tasks/:task_id', (req, res) => {
+      res.json({ task_id: req.params.task_id });
+    });
+    app.use('/api/audit', createAuditRoutes({ auditLog }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should record mutating requests with actor, route, targets and result', async () => {
+    await request(app).patch('/api/tasks/t1/status').set('x-api-key', 'pmr_0123456789abcdef')
+      .send({ status: 'CANCELLED', task_group_id: 'g1', secret: 'hunter2' }).expect(200);
+    await request(app).put('/api/claude-hooks/project/PreToolUse').set('x-api-key', 'pmr_0123456789abcdef')
+      .send({ hooks: 'nope' }).expect(400);
+    await request(app).post('/api/tasks/t1/status').expect(401);
+    await request(app).get('/api/tasks/t1').set('x-api-key', 'pmr_0123456789abcdef').expect(200);
+    await settle();
+
+    const { entries } = await auditLog.query();
+    assert.equal(entries.length, 3);
+    const [denied, failed, changed] = entries;
+
+    assert.deepEqual(changed.actor, { user_id: 'masa', device_name: 'iphone', role: 'admin', api_key_fingerprint: apiKeyFingerprint('pmr_0123456789abcdef') });
+    assert.doesNotMatch(JSON.stringify(entries), /pmr_/);
+    assert.equal(changed.route, '/api/tasks/:task_id/status');
+    assert.deepEqual(changed.target_ids, { task_id: 't1', task_group_id: 'g1' });
+    assert.equal(changed.request?.secret, '[redacted]');
+    assert.deepEqual(changed.before, { status: 'RUNNING' });
+    assert.equal(changed.after?.status, 'CANCELLED');
+    assert.deepEqual(changed.result, { status_code: 200, outcome: 'success' });
+
+    assert.equal(failed.route, '/api/claude-hooks/:scope/:event');
+    assert.equal(failed.result.outcome, 'failure');
+    assert.equal(failed.result.error, 'hooks must be an array');
+    assert.equal(failed.after, undefined);
+
+    assert.equal(denied.actor.user_id, 'anonymous');
+    assert.equal(denied.result.outcome, 'denied');
+  });
+
+  it('should filter, export and verify through the API', async () => {
+    await request(app).patch('/api/tasks/t1/status').set('x-api-key', 'pmr_0123456789abcdef').send({ status: 'COMPLETE' });
+    await request(app).patch('/api/tasks/t2/status').set('x-api-key', 'pmr_0123456789abcdef').send({ status: 'ERROR' });
+    await settle();
+
+    const queried = await request(app).get('/api/audit?target_id=t2').set('x-api-key', 'pmr_0123456789abcdef').expect(200);
+    assert.equal(queried.body.total, 1);
+    assert.equal(queried.body.entries[0].path, '/api/tasks/t2/status');
+
+    const exported = await request(app).get('/api/audit/export').set('x-api-key', 'pmr_0123456789abcdef').expect(200);
+    assert.match(exported.headers['content-type'], /application\/x-ndjson/);
+    assert.match(exported.headers['content-disposition'], /audit-log-.*\.jsonl/);
+    assert.equal(exported.text.trim().split('\n').length, 2);
+
+    const verified = await request(app).get('/api/audit/verify').set('x-api-key', 'pmr_0123456789abcdef').expect(200);
+    assert.deepEqual(verified.body, { valid: true, checked: 2 });
+  });
+
+  it('should reject invalid filters', async () => {
+    const res = await request(app).get('/api/audit?outcome=maybe&since=yesterday').set('x-api-key', 'pmr_0123456789abcdef');
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'VALIDATION_ERROR');
+    assert.match(res.body.message, /outcome.*since/);
+  });
+});
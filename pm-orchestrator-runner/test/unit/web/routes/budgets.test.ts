@@ -0,0 +1,94 @@
+/**
+ * Budget Routes Integration Tests
+ *
+ * Tests for /api/budgets endpoints (spec/40_BUDGETS.md):
+ * - CRUD
+ * - Validation errors
+ * - Spend vs budget status
+ *
+ * Uses a temp stateDir.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createBudgetRoutes } from '../../../../src/web/routes/budgets';
+import { BudgetGuard, BudgetStore } from '../../../../src/budget';
+
+describe('Budget Routes', () => {
+  let app: express.Express;
+  let tmpDir: string;
+  let guard: BudgetGuard;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-routes-test-'));
+    guard = new BudgetGuard({ store: new BudgetStore({ stateDir: tmpDir }) });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/budgets', createBudgetRoutes({ guard }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function createBudget(body: Record<string, unknown> = {}) {
+    return request(app)
+      .post('/api/budgets')
+      .send({ name: 'cap', scope: 'task_group', scope_id: 'g1', period: 'monthly', limit_usd: 2, ...body });
+  }
+
+  it('creates and lists budgets', async () => {
+    const created = await createBudget({ anchor: '2026-01-15T00:00:00.000Z' });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.budget.enabled, true);
+    assert.equal(created.body.budget.anchor, '2026-01-15T00:00:00.000Z');
+
+    const list = await request(app).get('/api/budgets');
+    assert.equal(list.status, 200);
+    assert.equal(list.body.budgets.length, 1);
+    assert.deepEqual(list.body.scopes, ['project', 'task_group']);
+    assert.deepEqual(list.body.periods, ['daily', 'monthly', 'total']);
+  });
+
+  it('rejects invalid input', async () => {
+    const res = await createBudget({ period: 'weekly', limit_usd: 'ten', anchor: 'someday' });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'VALIDATION_ERROR');
+    assert.ok(res.body.message.includes('period must be one of'));
+    assert.ok(res.body.message.includes('limit_usd must be a non-negative number'));
+    assert.ok(res.body.message.includes('anchor must be an ISO 8601 date'));
+  });
+
+  it('updates, clears the anchor and deletes', async () => {
+    const id = (await createBudget({ anchor: '2026-01-15T00:00:00.000Z' })).body.budget.budget_id;
+
+    const updated = await request(app).put(`/api/budgets/${id}`).send({ limit_usd: 5, anchor: '', enabled: false });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.budget.limit_usd, 5);
+    assert.equal(updated.body.budget.anchor, undefined);
+    assert.equal(updated.body.budget.enabled, false);
+
+    assert.equal((await request(app).put('/api/budgets/missing').send({ enabled: true })).status, 404);
+    assert.equal((await request(app).delete(`/api/budgets/${id}`)).status, 200);
+    assert.equal((await request(app).delete(`/api/budgets/${id}`)).status, 404);
+  });
+
+  it('reports spend vs budget', async () => {
+    await createBudget();
+    await guard.recordSpend({ task_id: 't1', task_group_id: 'g1' }, 2.5, 'llm');
+
+    const res = await request(app).get('/api/budgets/status');
+    assert.equal(res.status, 200);
+    const [status] = res.body.statuses;
+    assert.equal(status.spent_usd, 2.5);
+    assert.equal(status.remaining_usd, 0);
+    assert.equal(status.exceeded, true);
+    assert.ok(status.period_start);
+  });
+});
@@ -49,6 +49,9 @@ function createMockGitHubAdapter(
     listPRIssueComments: async () => [],
     replyToComment: async () => {},
     createIssueComment: async () => {},
+    createPullRequest: async () => {
+      throw new Error("createPullRequest not mocked");
+    },
     ...overrides,
   };
 }
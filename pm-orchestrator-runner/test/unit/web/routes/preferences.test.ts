@@ -0,0 +1,107 @@
+/**
+ * Preference Routes Integration Tests
+ *
+ * Tests for /api/preferences endpoints (spec/52_USER_PREFERENCES.md):
+ * - List / edit / pin / disable / delete
+ * - Validation errors
+ * - Per-project export and import
+ *
+ * Uses a temp preferences file.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createPreferenceRoutes } from '../../../../src/web/routes/preferences';
+import { UserPreferenceStore } from '../../../../src/executor/user-preference-store';
+
+describe('Preference Routes', () => {
+  let app: express.Express;
+  let tmpDir: string;
+  let storagePath: string;
+  let preferenceId: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'preference-routes-test-'));
+    storagePath = path.join(tmpDir, 'preferences.json');
+
+    // Learned by the executor (a separate store instance)
+    const store = new UserPreferenceStore({ storagePath });
+    preferenceId = store.recordPreference('file_location', 'Where should the report be saved?', 'docs/reports', undefined, {
+      taskId: 'task-1',
+      projectPath: '/repo/a',
+    }).id;
+    store.recordPreference('approach', 'Which test framework should be used?', 'mocha', undefined, { projectPath: '/repo/b' });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/preferences', createPreferenceRoutes({ storeConfig: { storagePath } }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('lists preferences with confidence and source task', async () => {
+    const all = await request(app).get('/api/preferences').expect(200);
+    assert.equal(all.body.preferences.length, 2);
+    assert.equal(all.body.minAutoApplyConfidence, 0.7);
+
+    const filtered = await request(app).get('/api/preferences?project=/repo/a').expect(200);
+    assert.equal(filtered.body.preferences.length, 1);
+    const [pref] = filtered.body.preferences;
+    assert.equal(pref.sourceTaskId, 'task-1');
+    assert.equal(pref.confidence, 0.6);
+    assert.ok(pref.effectiveConfidence <= 0.6);
+    assert.equal(pref.autoApply, false);
+  });
+
+  it('edits, pins, disables and deletes a preference', async () => {
+    const pinned = await request(app)
+      .put(`/api/preferences/${encodeURIComponent(preferenceId)}`)
+      .send({ choice: 'reports/', pinned: true })
+      .expect(200);
+    assert.equal(pinned.body.preference.choice, 'reports/');
+    assert.equal(pinned.body.preference.autoApply, true);
+
+    const disabled = await request(app)
+      .put(`/api/preferences/${encodeURIComponent(preferenceId)}`)
+      .send({ disabled: true })
+      .expect(200);
+    assert.equal(disabled.body.preference.autoApply, false);
+    assert.equal(new UserPreferenceStore({ storagePath }).get(preferenceId)?.disabled, true);
+
+    const invalid = await request(app)
+      .put(`/api/preferences/${encodeURIComponent(preferenceId)}`)
+      .send({ confidence: 'high' })
+      .expect(400);
+    assert.equal(invalid.body.error, 'VALIDATION_ERROR');
+
+    await request(app).delete(`/api/preferences/${encodeURIComponent(preferenceId)}`).expect(200);
+    await request(app).get(`/api/preferences/${encodeURIComponent(preferenceId)}`).expect(404);
+    await request(app).delete(`/api/preferences/${encodeURIComponent(preferenceId)}`).expect(404);
+  });
+
+  it('exports a project and imports it into another', async () => {
+    const exported = await request(app).get('/api/preferences/export?project=/repo/a').expect(200);
+    assert.equal(exported.body.version, 1);
+    assert.equal(exported.body.preferences.length, 1);
+
+    await request(app).delete(`/api/preferences/${encodeURIComponent(preferenceId)}`).expect(200);
+    const imported = await request(app)
+      .post('/api/preferences/import')
+      .send({ ...exported.body, project: '/repo/c' })
+      .expect(201);
+    assert.deepEqual(imported.body, { imported: 1, skipped: 0 });
+
+    const list = await request(app).get('/api/preferences?project=/repo/c').expect(200);
+    assert.equal(list.body.preferences[0].id, preferenceId);
+
+    const invalid = await request(app).post('/api/preferences/import').send({ preferences: 'all' }).expect(400);
+    assert.equal(invalid.body.error, 'VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Queue Control Routes Integration Tests
+ *
+ * Tests for spec/53_QUEUE_CONTROLS.md:
+ * - POST /api/queue/pause | drain | resume, GET /api/queue/controls
+ * - POST /api/tasks/bulk (dry run, apply, validation)
+ *
+ * Uses createApp with an InMemoryQueueStore and a temp state dir.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import type { Express } from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createApp } from '../../../../src/web/server';
+import { InMemoryQueueStore } from '../../../../src/queue/in-memory-queue-store';
+import { QueueControlStore } from '../../../../src/queue/queue-controls';
+import { initNoDynamo, resetNoDynamo, resetNoDynamoExtended } from '../../../../src/web/dal/no-dynamo';
+import { resetDAL } from '../../../../src/web/dal/dal-factory';
+
+const NAMESPACE = 'queue-controls-routes-test';
+
+describe('Queue Control Routes', () => {
+  let app: Express;
+  let tmpDir: string;
+  let store: InMemoryQueueStore;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-controls-routes-test-'));
+    initNoDynamo(tmpDir);
+    store = new InMemoryQueueStore({ namespace: NAMESPACE });
+    await store.enqueue('s', 'tg-1', 'running', 'task-1');
+    await store.updateStatus('task-1', 'RUNNING');
+    await store.enqueue('s', 'tg-1', 'failed', 'task-2');
+    await store.updateStatus('task-2', 'ERROR', 'boom');
+    await store.enqueue('s', 'tg-2', 'queued', 'task-3');
+    app = createApp({ queueStore: store, sessionId: 'sess', namespace: NAMESPACE, projectRoot: tmpDir, stateDir: tmpDir });
+  });
+
+  afterEach(() => {
+    resetNoDynamo();
+    resetNoDynamoExtended();
+    resetDAL();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('pauses, drains and resumes the queue', async () => {
+    const paused = await request(app).post('/api/queue/pause').send({ reason: 'deploy' }).expect(200);
+    assert.equal(paused.body.control.mode, 'pause');
+    assert.equal(paused.body.control.namespace, NAMESPACE);
+
+    const drained = await request(app).post('/api/queue/drain').send({ project: tmpDir }).expect(200);
+    assert.equal(drained.body.control.in_flight, 1);
+    assert.equal(drained.body.control.drained, false);
+
+    // Shared with the runner through the state dir
+    const persisted = await new QueueControlStore({ stateDir: tmpDir }).list(NAMESPACE);
+    assert.equal(persisted.length, 2);
+
+    await store.updateStatus('task-1', 'COMPLETE');
+    const list = await request(app).get('/api/queue/controls').expect(200);
+    assert.deepEqual(list.body.controls.map((c: { mode: string; drained: boolean }) => [c.mode, c.drained]), [['pause', false], ['drain', true]]);
+
+    await request(app).post('/api/queue/resume').send({}).expect(200);
+    await request(app).post('/api/queue/resume').send({}).expect(404);
+    const invalid = await request(app).post('/api/queue/pause').send({ project: 42 }).expect(400);
+    assert.equal(invalid.body.error, 'VALIDATION_ERROR');
+  });
+
+  it('previews and applies bulk actions', async () => {
+    const preview = await request(app)
+      .post('/api/tasks/bulk')
+      .send({ action: 'cancel', filter: { task_group_id: 'tg-1' }, dry_run: true })
+      .expect(200);
+    assert.deepEqual(preview.body, { action: 'cancel', dry_run: true, matched: 2, applicable: 1, task_ids: ['task-1'] });
+    assert.equal((await store.getItem('task-1'))?.status, 'RUNNING');
+
+    const priority = await request(app)
+      .post('/api/tasks/bulk')
+      .send({ action: 'priority', filter: { status: 'QUEUED' }, priority: 'urgent' })
+      .expect(200);
+    assert.deepEqual(priority.body.succeeded, ['task-3']);
+    assert.equal((await store.getItem('task-3'))?.priority, 'urgent');
+
+    const deleted = await request(app)
+      .post('/api/tasks/bulk')
+      .send({ action: 'delete', filter: { status: ['ERROR'] } })
+      .expect(200);
+    assert.deepEqual(deleted.body.succeeded, ['task-2']);
+    assert.equal(await store.getItem('task-2'), null);
+
+    const invalid = await request(app).post('/api/tasks/bulk').send({ action: 'retry' }).expect(400);
+    assert.equal(invalid.body.error, 'INVALID_INPUT');
+
+    // Tasks of other namespaces cannot be changed through this server's store
+    const foreign = await request(app)
+      .post('/api/tasks/bulk?namespace=other')
+      .send({ action: 'cancel', filter: { status: 'QUEUED' } })
+      .expect(400);
+    assert.equal(foreign.body.error, 'INVALID_INPUT');
+    assert.equal((await store.getItem('task-3'))?.status, 'QUEUED');
+  });
+});
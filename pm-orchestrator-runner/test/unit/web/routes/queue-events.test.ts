@@ -0,0 +1,154 @@
+/**
+ * Queue Event Routes Integration Tests
+ *
+ * Tests for GET /api/queue/events (spec/20_QUEUE_STORE.md キューイベントストリーム):
+ * - Live events with task_group_id filtering
+ * - Last-Event-ID replay and resync
+ * - Unknown event types are rejected
+ * - Events outside an API key's project scope are not sent (spec/41_ROUTE_PERMISSIONS.md)
+ *
+ * SSE responses never end, so the tests read from a listening server and
+ * close the connection once the expected events have arrived.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import express from 'express';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createQueueEventRoutes } from '../../../../src/web/routes/queue-events';
+import { QueueEventStream } from '../../../../src/queue/queue-event-stream';
+import type { AuthenticatedRequest } from '../../../../src/web/middleware/auth';
+
+interface SseMessage {
+  id?: string;
+  event: string;
+  data: Record<string, unknown>;
+}
+
+function parseSse(raw: string): SseMessage[] {
+  return raw.split('\n\n').filter(block => block.trim() && !block.startsWith(':')).map(block => {
+    const message: SseMessage = { event: 'message', data: {} };
+    for (const line of block.split('\n')) {
+      const [field, ...rest] = line.split(': ');
+      const value = rest.join(': ');
+      if (field === 'id') message.id = value;
+      if (field === 'event') message.event = value;
+      if (field === 'data') message.data = JSON.parse(value);
+    }
+    return message;
+  });
+}
+
+describe('Queue Event Routes', () => {
+  let stream: QueueEventStream;
+  let app: express.Express;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    stream = new QueueEventStream();
+    app = express();
+    app.use((req, _res, next) => {
+      const scope = req.get('x-test-project-scope');
+      if (scope) (req as AuthenticatedRequest).projectPaths = [scope];
+      next();
+    });
+    app.use('/api/queue', createQueueEventRoutes({ stream, projectRoot: '/work/runner' }));
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  /**
+   * Open the stream, run `whileOpen`, and collect messages until `count` have arrived
+   */
+  function readEvents(
+    query: string,
+    count: number,
+    headers: Record<string, string> = {},
+    whileOpen: () => void = () => undefined
+  ): Promise<SseMessage[]> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        req.destroy();
+        reject(new Error('Timed out waiting for events'));
+      }, 2000);
+      const req = http.get(`${baseUrl}/api/queue/events${query}`, { headers }, res => {
+        assert.equal(res.headers['content-type'], 'text/event-stream');
+        let raw = '';
+        res.setEncoding('utf-8');
+        res.on('data', chunk => {
+          raw += chunk;
+          const messages = parseSse(raw);
+          if (messages.length >= count) {
+            clearTimeout(timer);
+            req.destroy();
+            resolve(messages);
+          }
+        });
+        whileOpen();
+      });
+      req.on('error', error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ECONNRESET') reject(error);
+      });
+    });
+  }
+
+  it('should push live events matching the task group filter', async () => {
+    const messages = await readEvents('?task_group_id=g1', 3, {}, () => {
+      stream.publish({ type: 'task_status', task_id: 't1', task_group_id: 'g2', from: 'QUEUED', to: 'RUNNING' });
+      stream.publish({ type: 'task_status', task_id: 't2', task_group_id: 'g1', from: 'QUEUED', to: 'RUNNING' });
+      stream.publish({ type: 'runner_heartbeat', runner_id: 'r1', project_root: '/tmp/p', in_flight: 1 });
+    });
+
+    assert.deepEqual(messages.map(m => m.event), ['connected', 'task_status', 'runner_heartbeat']);
+    assert.equal(messages[1].data.task_id, 't2');
+    assert.equal(messages[1].id, messages[1].data.id);
+  });
+
+  it('should only send events inside the project scope', async () => {
+    const messages = await readEvents('', 3, { 'x-test-project-scope': '/work/app' }, () => {
+      stream.publish({ type: 'task_status', task_id: 't1', task_group_id: 'g1', project_path: '/work/other', from: 'QUEUED', to: 'RUNNING' });
+      stream.publish({ type: 'task_status', task_id: 't2', task_group_id: 'g1', from: 'QUEUED', to: 'RUNNING' });
+      stream.publish({ type: 'runner_heartbeat', runner_id: 'r1', project_root: '/work/runner', in_flight: 1 });
+      stream.publish({ type: 'task_output', task_id: 't3', project_path: '/work/app', output_length: 4 });
+      stream.publish({ type: 'runner_heartbeat', runner_id: 'r2', project_root: '/work/app', in_flight: 0 });
+    });
+
+    assert.deepEqual(messages.map(m => m.event), ['connected', 'task_output', 'runner_heartbeat']);
+    assert.equal(messages[2].data.runner_id, 'r2');
+  });
+
+  it('should replay events after Last-Event-ID', async () => {
+    const first = stream.publish({ type: 'task_clarification', task_id: 't1', question: 'First?' });
+    stream.publish({ type: 'task_clarification', task_id: 't1', question: 'Second?' });
+
+    const messages = await readEvents('', 2, { 'Last-Event-ID': first.id });
+
+    assert.equal(messages[1].event, 'task_clarification');
+    assert.equal(messages[1].data.question, 'Second?');
+  });
+
+  it('should ask the client to resync when the ID cannot be replayed', async () => {
+    stream.publish({ type: 'task_clarification', task_id: 't1', question: 'First?' });
+
+    const messages = await readEvents('?lastEventId=earlier-5', 2);
+
+    assert.equal(messages[1].event, 'resync');
+    assert.equal(messages[1].data.last_event_id, stream.getLastEventId());
+  });
+
+  it('should reject unknown event types', async () => {
+    const res = await request(app).get('/api/queue/events?types=task_status,bogus');
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'VALIDATION_ERROR');
+  });
+});
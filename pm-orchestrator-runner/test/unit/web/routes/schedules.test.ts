@@ -0,0 +1,110 @@
+/**
+ * Schedule Routes Integration Tests
+ *
+ * Tests for /api/schedules endpoints (spec/38_SCHEDULED_TASKS.md Section 6):
+ * - CRUD (list, get, create, update, delete)
+ * - Validation errors
+ * - Manual run + history
+ *
+ * Uses a temp stateDir and an in-memory queue store.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createScheduleRoutes } from '../../../../src/web/routes/schedules';
+import { Scheduler, ScheduleStore } from '../../../../src/schedule';
+import { InMemoryQueueStore } from '../../../../src/queue/in-memory-queue-store';
+
+describe('Schedule Routes', () => {
+  let app: express.Express;
+  let tmpDir: string;
+  let queueStore: InMemoryQueueStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedule-routes-test-'));
+    queueStore = new InMemoryQueueStore({ namespace: 'schedule-routes' });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/schedules', createScheduleRoutes({
+      scheduler: new Scheduler({
+        store: new ScheduleStore({ stateDir: tmpDir }),
+        queueStore,
+        sessionId: 'route-session',
+      }),
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function createSchedule(body: Record<string, unknown> = {}) {
+    return request(app)
+      .post('/api/schedules')
+      .send({ name: 'deps', cron: '0 8 * * *', prompt: 'update deps report', ...body });
+  }
+
+  it('should create, list and fetch a schedule', async () => {
+    const created = await createSchedule({ project_path: '/proj/a', task_type: 'REPORT' });
+    assert.equal(created.status, 201);
+    const id = created.body.schedule.schedule_id;
+    assert.equal(created.body.schedule.task_group_id, `schedule-${id}`);
+    assert.ok(created.body.schedule.next_run_at);
+
+    const list = await request(app).get('/api/schedules');
+    assert.equal(list.status, 200);
+    assert.equal(list.body.schedules.length, 1);
+    assert.equal(list.body.scheduler_running, false);
+
+    const detail = await request(app).get(`/api/schedules/${id}`);
+    assert.equal(detail.status, 200);
+    assert.equal(detail.body.schedule.project_path, '/proj/a');
+    assert.deepEqual(detail.body.recent_runs, []);
+  });
+
+  it('should return 400 for invalid input', async () => {
+    const badCron = await createSchedule({ cron: 'every morning' });
+    assert.equal(badCron.status, 400);
+    assert.equal(badCron.body.error, 'VALIDATION_ERROR');
+
+    const badPolicy = await createSchedule({ catch_up: 'sometimes' });
+    assert.equal(badPolicy.status, 400);
+    assert.ok(badPolicy.body.message.includes('catch_up'));
+  });
+
+  it('should update and delete a schedule', async () => {
+    const id = (await createSchedule()).body.schedule.schedule_id;
+
+    const updated = await request(app).put(`/api/schedules/${id}`).send({ enabled: false, cron: '@hourly' });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.schedule.enabled, false);
+    assert.equal(updated.body.schedule.cron, '@hourly');
+    assert.equal(updated.body.schedule.next_run_at, null);
+
+    const deleted = await request(app).delete(`/api/schedules/${id}`);
+    assert.equal(deleted.status, 200);
+    assert.equal((await request(app).get(`/api/schedules/${id}`)).status, 404);
+    assert.equal((await request(app).delete(`/api/schedules/${id}`)).status, 404);
+  });
+
+  it('should run a schedule now and expose the produced task in history', async () => {
+    const id = (await createSchedule()).body.schedule.schedule_id;
+
+    const run = await request(app).post(`/api/schedules/${id}/run`);
+    assert.equal(run.status, 201);
+    assert.equal(run.body.run.outcome, 'ENQUEUED');
+    assert.ok(await queueStore.getItem(run.body.run.task_id));
+
+    const history = await request(app).get(`/api/schedules/${id}/history`);
+    assert.equal(history.status, 200);
+    assert.deepEqual(history.body.runs.map((r: { task_id: string }) => r.task_id), [run.body.run.task_id]);
+
+    assert.equal((await request(app).post('/api/schedules/missing/run')).status, 404);
+  });
+});
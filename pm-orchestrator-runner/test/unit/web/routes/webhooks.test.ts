@@ -0,0 +1,104 @@
+/**
+ * Webhook Routes Integration Tests
+ *
+ * Tests for /api/webhooks endpoints (spec/39_WEBHOOKS.md):
+ * - CRUD with write-only secrets
+ * - Validation errors
+ * - Test delivery + delivery log
+ *
+ * Uses a temp stateDir and a stubbed fetch.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import express from 'express';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createWebhookRoutes } from '../../../../src/web/routes/webhooks';
+import { WebhookDispatcher, WebhookStore } from '../../../../src/notifications';
+
+describe('Webhook Routes', () => {
+  let app: express.Express;
+  let tmpDir: string;
+  let fetchStatus: number;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-routes-test-'));
+    fetchStatus = 200;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/webhooks', createWebhookRoutes({
+      dispatcher: new WebhookDispatcher({
+        store: new WebhookStore({ stateDir: tmpDir }),
+        maxAttempts: 1,
+        fetchFn: (async () => new Response(null, { status: fetchStatus })) as unknown as typeof fetch,
+      }),
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function createWebhook(body: Record<string, unknown> = {}) {
+    return request(app)
+      .post('/api/webhooks')
+      .send({ name: 'team', url: 'https://hooks.example.com/x', secret: 'shh', format: 'slack', ...body });
+  }
+
+  it('creates and lists webhooks without exposing the secret', async () => {
+    const created = await createWebhook({ events: ['TASK_ERROR'] });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.webhook.has_secret, true);
+    assert.equal(created.body.webhook.secret, undefined);
+
+    const list = await request(app).get('/api/webhooks');
+    assert.equal(list.status, 200);
+    assert.equal(list.body.webhooks.length, 1);
+    assert.deepEqual(list.body.webhooks[0].events, ['TASK_ERROR']);
+    assert.equal(list.body.webhooks[0].secret, undefined);
+    assert.ok(list.body.events.includes('PR_REVIEW_DECISION'));
+    assert.deepEqual(list.body.formats, ['json', 'slack', 'discord']);
+  });
+
+  it('rejects invalid input', async () => {
+    const res = await createWebhook({ url: 'ftp://example.com', events: ['NOPE'], format: 'teams' });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'VALIDATION_ERROR');
+    assert.ok(res.body.message.includes('url must be an http(s) URL'));
+    assert.ok(res.body.message.includes('unknown events: NOPE'));
+    assert.ok(res.body.message.includes('format must be one of'));
+  });
+
+  it('updates, clears the secret and deletes', async () => {
+    const id = (await createWebhook()).body.webhook.webhook_id;
+
+    const updated = await request(app).put(`/api/webhooks/${id}`).send({ enabled: false, secret: '' });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.webhook.enabled, false);
+    assert.equal(updated.body.webhook.has_secret, false);
+
+    assert.equal((await request(app).put('/api/webhooks/missing').send({ enabled: true })).status, 404);
+    assert.equal((await request(app).delete(`/api/webhooks/${id}`)).status, 200);
+    assert.equal((await request(app).delete(`/api/webhooks/${id}`)).status, 404);
+  });
+
+  it('sends a test delivery and shows it in the delivery log', async () => {
+    const id = (await createWebhook()).body.webhook.webhook_id;
+    fetchStatus = 500;
+
+    const test = await request(app).post(`/api/webhooks/${id}/test`);
+    assert.equal(test.status, 200);
+    assert.equal(test.body.delivery.status, 'FAILED');
+    assert.equal(test.body.delivery.response_status, 500);
+
+    const perHook = await request(app).get(`/api/webhooks/${id}/deliveries`);
+    assert.equal(perHook.body.deliveries.length, 1);
+    const all = await request(app).get('/api/webhooks/deliveries?limit=10');
+    assert.equal(all.body.deliveries[0].delivery_id, test.body.delivery.delivery_id);
+    assert.equal((await request(app).post('/api/webhooks/missing/test')).status, 404);
+  });
+});
@@ -9,6 +9,7 @@
  * 4. GET /api/tasks/:task_id returns status/prompt
  * 5. fail-closed: empty input = 400
  * 6. No "Runner direct command API" exists (route list test)
+ * 7. PATCH /api/tasks/:task_id/status cannot re-queue a RUNNING task
  */
 
 import { describe, it, beforeEach, afterEach } from 'mocha';
@@ -16,8 +17,9 @@ import { strict as assert } from 'assert';
 import request from 'supertest';
 import { Express } from 'express';
 import { createApp } from '../../../src/web/server';
-import { QueueItem, QueueItemStatus, ClaimResult, TaskGroupSummary, TaskGroupStatus } from '../../../src/queue';
+import { QueueItem, QueueItemStatus, ClaimResult, TaskGroupSummary, TaskGroupStatus, TaskPriority, PriorityUpdateResult } from '../../../src/queue';
 import { resetDAL } from '../../../src/web/dal/dal-factory';
+import { InMemoryQueueStore } from '../../../src/queue/in-memory-queue-store';
 
 /**
  * Mock QueueStore for Web Server testing
@@ -191,6 +193,19 @@ class MockQueueStore {
     return true;
   }
 
+  async updatePriority(taskId: string, priority: TaskPriority): Promise<PriorityUpdateResult> {
+    const item = this.items.get(taskId);
+    if (!item) {
+      return { success: false, task_id: taskId, error: 'Task not found', message: `Task not found: ${taskId}` };
+    }
+    if (item.status !== 'QUEUED') {
+      return { success: false, task_id: taskId, error: 'Task not queued', message: `Task is ${item.status}` };
+    }
+    const oldPriority = item.priority ?? 'normal';
+    item.priority = priority;
+    return { success: true, task_id: taskId, old_priority: oldPriority, new_priority: priority };
+  }
+
   async deleteItem(taskId: string): Promise<void> {
     this.items.delete(taskId);
   }
@@ -322,6 +337,20 @@ describe('Web Server', () => {
       assert.equal(items.length, 1);
       assert.equal(items[0].prompt, 'Test prompt');
     });
+
+    it('should return 400 for non-array depends_on (fail-closed)', async () => {
+      const response = await request(app)
+        .post('/api/tasks')
+        .send({
+          task_group_id: 'test-group',
+          prompt: 'Test prompt',
+          depends_on: 'task-a',
+        })
+        .expect(400);
+
+      assert.equal(response.body.error, 'INVALID_INPUT');
+      assert.ok(response.body.message.includes('depends_on'));
+    });
   });
 
   describe('GET /api/task-groups', () => {
@@ -728,6 +757,50 @@ describe('Web Server', () => {
     });
   });
 
+  describe('PATCH priority', () => {
+    it('should change the priority of a QUEUED task and expose it in the task list', async () => {
+      const item = await store.enqueue(testSessionId, 'prio-group', 'prompt 1');
+
+      const response = await request(app)
+        .patch(`/api/tasks/${item.task_id}/priority`)
+        .send({ priority: 'urgent' })
+        .expect(200);
+      assert.equal(response.body.old_priority, 'normal');
+      assert.equal(response.body.new_priority, 'urgent');
+
+      const list = await request(app).get('/api/task-groups/prio-group/tasks').expect(200);
+      assert.equal(list.body.tasks[0].priority, 'urgent');
+    });
+
+    it('should reject invalid priorities and tasks that are no longer QUEUED', async () => {
+      const item = await store.enqueue(testSessionId, 'prio-group', 'prompt 1');
+
+      const invalid = await request(app).patch(`/api/tasks/${item.task_id}/priority`).send({ priority: 'asap' }).expect(400);
+      assert.equal(invalid.body.error, 'INVALID_INPUT');
+
+      await store.updateStatus(item.task_id, 'RUNNING');
+      const running = await request(app).patch(`/api/tasks/${item.task_id}/priority`).send({ priority: 'urgent' }).expect(409);
+      assert.equal(running.body.error, 'INVALID_STATE');
+
+      await request(app).patch('/api/tasks/missing/priority').send({ priority: 'urgent' }).expect(404);
+    });
+
+    it('should update every QUEUED task when PATCHing a task group priority', async () => {
+      const running = await store.enqueue(testSessionId, 'prio-group', 'prompt 1');
+      const queued = await store.enqueue(testSessionId, 'prio-group', 'prompt 2');
+      await store.updateStatus(running.task_id, 'RUNNING');
+
+      const response = await request(app)
+        .patch('/api/task-groups/prio-group')
+        .send({ priority: 'background' })
+        .expect(200);
+
+      assert.equal(response.body.updated_count, 1);
+      assert.deepEqual(response.body.updated_task_ids, [queued.task_id]);
+      assert.equal((await store.getItem(running.task_id))?.priority, undefined);
+    });
+  });
+
   describe('GET /api/task-groups group_status filtering', () => {
     it('should exclude archived groups by default', async () => {
       await store.enqueue(testSessionId, 'active-group', 'prompt 1');
@@ -1016,3 +1089,26 @@ describe('Web Server', () => {
     }
   });
 });
+
+describe('PATCH /api/tasks/:task_id/status', () => {
+  let app: Express;
+  let store: InMemoryQueueStore;
+
+  beforeEach(async () => {
+    resetDAL();
+    store = new InMemoryQueueStore({ namespace: 'test-namespace' });
+    await store.enqueue('test-session-123', 'tg', 'long task', 'task-running');
+    await store.claim();
+    app = createApp({ queueStore: store, sessionId: 'test-session-123', namespace: 'test-namespace', projectRoot: '/tmp/test' });
+  });
+
+  it('should reject RUNNING -> QUEUED so a running task cannot be claimed twice', async () => {
+    const response = await request(app)
+      .patch('/api/tasks/task-running/status')
+      .send({ status: 'QUEUED' })
+      .expect(400);
+
+    assert.equal(response.body.error, 'Invalid status transition');
+    assert.equal((await store.getItem('task-running'))?.status, 'RUNNING');
+  });
+});